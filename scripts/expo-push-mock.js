@@ -0,0 +1,63 @@
+/**
+ * Local Expo Push API stand-in
+ * Used for testing the edge function push pipeline without a device
+ *
+ * Usage:
+ *   node scripts/expo-push-mock.js [port]
+ *   supabase secrets set EXPO_PUSH_API_URL=http://host.docker.internal:8787/push   (or .env for `supabase functions serve`)
+ *
+ * Every received message is logged. Tokens containing "unregistered" get a
+ * DeviceNotRegistered error ticket so token cleanup can be exercised.
+ */
+
+const http = require('http');
+
+const port = Number(process.argv[2] || process.env.EXPO_PUSH_MOCK_PORT || 8787);
+let ticketCounter = 0;
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ errors: [{ code: 'METHOD_NOT_ALLOWED' }] }));
+    return;
+  }
+
+  let raw = '';
+  req.on('data', (chunk) => { raw += chunk; });
+  req.on('end', () => {
+    let messages;
+    try {
+      const parsed = JSON.parse(raw);
+      messages = Array.isArray(parsed) ? parsed : [parsed];
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ errors: [{ code: 'INVALID_JSON', message: error.message }] }));
+      return;
+    }
+
+    const data = messages.map((message) => {
+      console.log(`📨 Push to ${message.to}: "${message.title}" - ${message.body}`);
+      if (message.data && Object.keys(message.data).length > 0) {
+        console.log('   data:', JSON.stringify(message.data));
+      }
+
+      if (String(message.to).includes('unregistered')) {
+        return {
+          status: 'error',
+          message: `"${message.to}" is not a registered push notification recipient`,
+          details: { error: 'DeviceNotRegistered' },
+        };
+      }
+
+      ticketCounter += 1;
+      return { status: 'ok', id: `mock-ticket-${ticketCounter}` };
+    });
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ data }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`✅ Expo push mock listening on http://localhost:${port}/push`);
+});
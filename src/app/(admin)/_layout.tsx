@@ -0,0 +1,52 @@
+import React from 'react';
+import { Stack, Redirect } from 'expo-router';
+import { View, ActivityIndicator } from 'react-native';
+import { useAdminLayoutGuards } from '@/hooks/routing/useLayoutGuards';
+import { Text } from '@/components/ui/text';
+
+/**
+ * Admin Layout - Protected Route Group
+ *
+ * Guards:
+ * - Redirects unauthenticated users to login
+ * - Redirects customers and providers to their dashboard
+ * - Only allows admins and super-admins (verification review console)
+ */
+export default function AdminLayout() {
+  // ✅ CRITICAL: Call all hooks BEFORE any conditional returns (Rules of Hooks)
+  const { guardResult, isLoading } = useAdminLayoutGuards();
+
+  console.log('[AdminLayout] 🔐 Checking access...', guardResult);
+
+  // ✅ Handle redirect if guard function requires it
+  if (guardResult.type === 'redirect') {
+    console.log(`[AdminLayout] ❌ Access denied, redirecting to ${guardResult.href}`);
+    return <Redirect href={guardResult.href as any} />;
+  }
+
+  // ✅ Handle loading state
+  if (isLoading) {
+    return (
+      <View className="flex-1 bg-background items-center justify-center px-6">
+        <ActivityIndicator size="large" className="text-primary mb-4" />
+        <Text className="text-center text-muted-foreground">
+          Loading...
+        </Text>
+      </View>
+    );
+  }
+
+  console.log('[AdminLayout] ✅ Access granted for admin');
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+        animation: 'slide_from_right',
+      }}
+    >
+      <Stack.Screen name="index" />
+      <Stack.Screen name="provider/[id]" />
+    </Stack>
+  );
+}
@@ -0,0 +1,96 @@
+import React from 'react';
+import { View, FlatList, TouchableOpacity, RefreshControl, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { Text } from '@/components/ui/text';
+import { Card, CardContent } from '@/components/ui/card';
+import { LogoutButton } from '@/components/ui/logout-button';
+import { useVerificationQueue, type VerificationQueueItem } from '@/hooks/admin';
+
+const STATUS_STYLES: Record<string, { label: string; container: string; text: string }> = {
+  submitted: { label: 'Waiting', container: 'bg-amber-500/15', text: 'text-amber-600' },
+  in_review: { label: 'In review', container: 'bg-sky-500/15', text: 'text-sky-600' },
+};
+
+function QueueItem({ item }: { item: VerificationQueueItem }) {
+  const status = STATUS_STYLES[item.verification_status] || STATUS_STYLES.submitted;
+
+  return (
+    <TouchableOpacity
+      onPress={() => router.push(`/(admin)/provider/${item.provider_id}` as any)}
+      activeOpacity={0.7}
+    >
+      <Card className="mb-3">
+        <CardContent className="p-4 flex-row items-center gap-3">
+          <View className="w-10 h-10 bg-primary/10 rounded-full items-center justify-center">
+            <Ionicons name="person" size={18} color="#6b7280" />
+          </View>
+          <View className="flex-1">
+            <Text className="text-base font-semibold text-foreground" numberOfLines={1}>
+              {item.name}
+            </Text>
+            {item.email && (
+              <Text className="text-xs text-muted-foreground" numberOfLines={1}>{item.email}</Text>
+            )}
+            <Text className="text-xs text-muted-foreground mt-0.5">
+              Submitted {formatDistanceToNow(new Date(item.submitted_at), { addSuffix: true })}
+            </Text>
+          </View>
+          <View className={`px-2 py-1 rounded-full ${status.container}`}>
+            <Text className={`text-xs font-medium ${status.text}`}>{status.label}</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color="#9ca3af" />
+        </CardContent>
+      </Card>
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * Admin: providers waiting for verification review, oldest first
+ */
+export default function VerificationQueueScreen() {
+  const { data: queue = [], isLoading, isRefetching, refetch, error } = useVerificationQueue();
+
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={['top']}>
+      <View className="px-4 py-4 border-b border-border">
+        <Text className="text-xl font-bold text-foreground">Verification Review</Text>
+        <Text className="text-sm text-muted-foreground">
+          {queue.length === 1 ? '1 provider waiting' : `${queue.length} providers waiting`}
+        </Text>
+      </View>
+
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" />
+        </View>
+      ) : (
+        <FlatList
+          data={queue}
+          keyExtractor={(item) => item.provider_id}
+          renderItem={({ item }) => <QueueItem item={item} />}
+          contentContainerStyle={{ padding: 16 }}
+          refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} />}
+          ListEmptyComponent={
+            <View className="items-center py-16 gap-2">
+              <Ionicons name={error ? 'alert-circle-outline' : 'checkmark-done-circle-outline'} size={40} color="#9ca3af" />
+              <Text className="text-muted-foreground text-center">
+                {error ? error.message : 'No providers waiting for review'}
+              </Text>
+            </View>
+          }
+          ListFooterComponent={
+            <View className="mt-6">
+              <LogoutButton variant="outline" className="w-full h-12 rounded-xl">
+                <Text className="text-muted-foreground font-medium">Sign Out</Text>
+              </LogoutButton>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
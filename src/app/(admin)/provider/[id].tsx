@@ -0,0 +1,463 @@
+import React, { useState } from 'react';
+import { View, ScrollView, TouchableOpacity, Image, ActivityIndicator, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { VERIFICATION_STEPS, type VerificationStepId } from '@/lib/verification/verification-flow-manager';
+import type { ImageQualityCheckId, ImageQualityReport } from '@/lib/verification/image-quality';
+import { formatExpiryDate } from '@/lib/verification/document-expiry';
+import {
+  useVerificationReviewDetail,
+  useStartVerificationReview,
+  useReviewDocument,
+  useReviewSelfie,
+  useDecideVerification,
+  type VerificationAuditEntry,
+} from '@/hooks/admin';
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  passport: 'Passport',
+  driving_license: 'Driving License',
+  id_card: 'National ID Card',
+};
+
+const STATUS_STYLES: Record<string, { label: string; container: string; text: string }> = {
+  pending: { label: 'Pending', container: 'bg-muted', text: 'text-muted-foreground' },
+  submitted: { label: 'Waiting', container: 'bg-amber-500/15', text: 'text-amber-600' },
+  in_review: { label: 'In review', container: 'bg-sky-500/15', text: 'text-sky-600' },
+  approved: { label: 'Approved', container: 'bg-green-500/15', text: 'text-green-600' },
+  rejected: { label: 'Rejected', container: 'bg-destructive/15', text: 'text-destructive' },
+};
+
+const AUDIT_LABELS: Record<VerificationAuditEntry['action'], string> = {
+  start_review: 'Started review',
+  review_document: 'Reviewed document',
+  review_selfie: 'Reviewed selfie',
+  decide: 'Decision',
+  purge_image: 'Image deleted (retention)',
+};
+
+const QUALITY_CHECK_LABELS: Record<ImageQualityCheckId, string> = {
+  resolution: 'Resolution',
+  blur: 'Blur',
+  glare: 'Glare',
+  brightness: 'Too dark',
+  framing: 'Framing',
+  face: 'Face',
+};
+
+// Steps besides the ID document and selfie that can be sent back for changes
+const RESUBMITTABLE_STEPS: VerificationStepId[] = [3, 4, 5, 6, 7];
+
+// What the reason prompt is rejecting
+type RejectTarget = { type: 'document'; documentId: string } | { type: 'selfie' } | { type: 'provider' };
+
+function StatusPill({ status }: { status: string | null }) {
+  const style = STATUS_STYLES[status || 'pending'] || STATUS_STYLES.pending;
+  return (
+    <View className={`px-2 py-1 rounded-full ${style.container}`}>
+      <Text className={`text-xs font-medium ${style.text}`}>{style.label}</Text>
+    </View>
+  );
+}
+
+// On-device quality pre-check the provider's app ran before uploading
+function QualityCheckSummary({ report }: { report: ImageQualityReport | null }) {
+  if (!report) {
+    return <Text className="text-xs text-muted-foreground">No quality check recorded</Text>;
+  }
+
+  const failed = report.checks.filter((check) => !check.passed);
+  const { scores } = report;
+  const details = [
+    `${scores.width}×${scores.height}`,
+    scores.blur_variance !== null && `sharpness ${scores.blur_variance}`,
+    scores.glare_ratio !== null && `glare ${Math.round(scores.glare_ratio * 1000) / 10}%`,
+    scores.aspect_ratio !== null && `aspect ${scores.aspect_ratio}`,
+    scores.face_coverage !== null && `face ${Math.round(scores.face_coverage * 100)}%`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <View className="gap-1">
+      <Text className={`text-xs font-medium ${failed.length ? 'text-amber-600' : 'text-green-600'}`}>
+        {failed.length
+          ? `Quality check flagged: ${failed.map((check) => QUALITY_CHECK_LABELS[check.id]).join(', ')} (uploaded anyway)`
+          : 'Quality check passed'}
+        {!report.pixel_analysis && ' · image not analysed'}
+      </Text>
+      <Text className="text-xs text-muted-foreground">{details}</Text>
+    </View>
+  );
+}
+
+interface ReviewItemCardProps {
+  title: string;
+  subtitle?: string;
+  previewUrl: string | null;
+  imagePurgedAt?: string | null;
+  status: string | null;
+  rejectionReason: string | null;
+  qualityCheck: ImageQualityReport | null;
+  canReview: boolean;
+  isPending: boolean;
+  onApprove: () => void;
+  onReject: () => void;
+}
+
+function ReviewItemCard({ title, subtitle, previewUrl, imagePurgedAt, status, rejectionReason, qualityCheck, canReview, isPending, onApprove, onReject }: ReviewItemCardProps) {
+  return (
+    <Card className="mb-4">
+      <CardContent className="p-4 gap-3">
+        <View className="flex-row items-center justify-between">
+          <View className="flex-1">
+            <Text className="text-base font-semibold text-foreground">{title}</Text>
+            {subtitle && <Text className="text-xs text-muted-foreground">{subtitle}</Text>}
+          </View>
+          <StatusPill status={status} />
+        </View>
+
+        {previewUrl ? (
+          <Image source={{ uri: previewUrl }} className="w-full h-56 rounded-lg bg-muted" resizeMode="contain" />
+        ) : (
+          <View className="w-full h-32 rounded-lg bg-muted items-center justify-center">
+            <Text className="text-sm text-muted-foreground">
+              {imagePurgedAt
+                ? `Image deleted after retention period (${format(new Date(imagePurgedAt), 'd MMM yyyy')})`
+                : 'Image unavailable'}
+            </Text>
+          </View>
+        )}
+
+        <QualityCheckSummary report={qualityCheck} />
+
+        {status === 'rejected' && rejectionReason && (
+          <Text className="text-sm text-destructive">Reason: {rejectionReason}</Text>
+        )}
+
+        {canReview && (
+          <View className="flex-row gap-3">
+            <Button variant="outline" className="flex-1" onPress={onReject} disabled={isPending}>
+              <Text>Reject</Text>
+            </Button>
+            <Button className="flex-1" onPress={onApprove} disabled={isPending || status === 'approved'}>
+              <Text>Approve</Text>
+            </Button>
+          </View>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Admin: review one provider's identity verification
+ * Documents and the selfie are approved or rejected one by one, then the provider
+ * as a whole. Rejections always carry a reason the provider will see.
+ */
+export default function ProviderVerificationReviewScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { data: detail, isLoading, error } = useVerificationReviewDetail(id);
+  const startReview = useStartVerificationReview();
+  const reviewDocument = useReviewDocument();
+  const reviewSelfie = useReviewSelfie();
+  const decide = useDecideVerification();
+
+  const [rejectTarget, setRejectTarget] = useState<RejectTarget | null>(null);
+  const [reason, setReason] = useState('');
+  const [stepsToResubmit, setStepsToResubmit] = useState<number[]>([]);
+
+  const closeRejection = () => {
+    setRejectTarget(null);
+    setReason('');
+    setStepsToResubmit([]);
+  };
+
+  const toggleStep = (step: number) => {
+    setStepsToResubmit((current) =>
+      current.includes(step) ? current.filter((s) => s !== step) : [...current, step]
+    );
+  };
+
+  const isMutating = startReview.isPending || reviewDocument.isPending || reviewSelfie.isPending || decide.isPending;
+
+  const showError = (err: unknown) => {
+    Alert.alert('Review failed', err instanceof Error ? err.message : 'Something went wrong');
+  };
+
+  const approve = async (target: RejectTarget) => {
+    if (!id) return;
+    try {
+      if (target.type === 'document') {
+        await reviewDocument.mutateAsync({ providerId: id, documentId: target.documentId, decision: 'approved' });
+      } else if (target.type === 'selfie') {
+        await reviewSelfie.mutateAsync({ providerId: id, decision: 'approved' });
+      } else {
+        await decide.mutateAsync({ providerId: id, decision: 'approved' });
+      }
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const confirmApproveProvider = () => {
+    Alert.alert(
+      'Approve provider?',
+      'They will be notified and can start accepting bookings straight away.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Approve', onPress: () => approve({ type: 'provider' }) },
+      ]
+    );
+  };
+
+  const submitRejection = async () => {
+    if (!id || !rejectTarget || !reason.trim()) return;
+    try {
+      if (rejectTarget.type === 'document') {
+        await reviewDocument.mutateAsync({ providerId: id, documentId: rejectTarget.documentId, decision: 'rejected', reason });
+      } else if (rejectTarget.type === 'selfie') {
+        await reviewSelfie.mutateAsync({ providerId: id, decision: 'rejected', reason });
+      } else {
+        await decide.mutateAsync({
+          providerId: id,
+          decision: 'rejected',
+          reason,
+          steps: stepsToResubmit.map((step_number) => ({ step_number, reason })),
+        });
+      }
+      closeRejection();
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView className="flex-1 bg-background items-center justify-center">
+        <ActivityIndicator size="large" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <SafeAreaView className="flex-1 bg-background items-center justify-center px-6 gap-4">
+        <Text className="text-muted-foreground text-center">
+          {error?.message || 'Verification not found'}
+        </Text>
+        <Button variant="outline" onPress={() => router.back()}>
+          <Text>Back to queue</Text>
+        </Button>
+      </SafeAreaView>
+    );
+  }
+
+  const { provider, progress, documents, selfie, step_reviews, audit_log } = detail;
+  const status = progress.verification_status;
+  const canReview = status === 'in_review';
+  const resubmittedSteps = step_reviews.filter((step) => step.status === 'resubmitted');
+
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={['top']}>
+      <View className="flex-row items-center px-4 py-4 border-b border-border">
+        <TouchableOpacity onPress={() => router.back()} className="w-8 h-8 justify-center">
+          <Ionicons name="chevron-back" size={24} color="#6b7280" />
+        </TouchableOpacity>
+        <Text className="flex-1 text-xl font-bold text-foreground ml-2" numberOfLines={1}>
+          {provider.name}
+        </Text>
+        <StatusPill status={status} />
+      </View>
+
+      <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 48 }}>
+        {/* Provider */}
+        <Card className="mb-4">
+          <CardContent className="p-4 gap-1">
+            {provider.email && <Text className="text-sm text-foreground">{provider.email}</Text>}
+            {provider.phone_number && <Text className="text-sm text-foreground">{provider.phone_number}</Text>}
+            {provider.address && <Text className="text-sm text-muted-foreground">{provider.address}</Text>}
+            {provider.years_of_experience != null && (
+              <Text className="text-sm text-muted-foreground">{provider.years_of_experience} years of experience</Text>
+            )}
+            <Text className="text-xs text-muted-foreground mt-1">
+              Submitted {format(new Date(progress.submitted_at), 'd MMM yyyy, HH:mm')}
+            </Text>
+          </CardContent>
+        </Card>
+
+        {resubmittedSteps.length > 0 && (
+          <Card className="mb-4 border-sky-500/30">
+            <CardContent className="p-4 gap-1">
+              <Text className="text-sm font-semibold text-foreground">Resubmission</Text>
+              {resubmittedSteps.map((step) => (
+                <Text key={step.step_number} className="text-xs text-muted-foreground">
+                  {VERIFICATION_STEPS[step.step_number as VerificationStepId]?.title || `Step ${step.step_number}`}
+                  {step.error_message ? ` - was rejected: ${step.error_message}` : ''}
+                </Text>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {status === 'submitted' && (
+          <Button
+            className="mb-4"
+            onPress={() => startReview.mutate(id!, { onError: showError })}
+            disabled={isMutating}
+          >
+            <Text>Start review</Text>
+          </Button>
+        )}
+
+        {/* Identity documents - the latest upload is the one being verified */}
+        <Text className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+          Identity document
+        </Text>
+        {documents.length === 0 ? (
+          <Text className="text-sm text-muted-foreground mb-4">No documents uploaded</Text>
+        ) : (
+          documents.map((document, index) => (
+            <ReviewItemCard
+              key={document.id}
+              title={DOCUMENT_LABELS[document.document_type] || document.document_type}
+              subtitle={`${index === 0 ? 'Current upload' : 'Previous upload'} · ${format(new Date(document.created_at), 'd MMM yyyy')}${document.expiry_date ? ` · Expires ${formatExpiryDate(document.expiry_date)}` : ''}`}
+              previewUrl={document.preview_url}
+              imagePurgedAt={document.image_purged_at}
+              status={document.verification_status}
+              rejectionReason={document.rejection_reason}
+              qualityCheck={document.quality_check}
+              canReview={canReview && index === 0}
+              isPending={isMutating}
+              onApprove={() => approve({ type: 'document', documentId: document.id })}
+              onReject={() => setRejectTarget({ type: 'document', documentId: document.id })}
+            />
+          ))
+        )}
+
+        <Text className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+          Selfie
+        </Text>
+        <ReviewItemCard
+          title="Selfie with ID"
+          previewUrl={selfie.preview_url}
+          imagePurgedAt={selfie.image_purged_at}
+          status={selfie.verification_status}
+          rejectionReason={selfie.rejection_reason}
+          qualityCheck={selfie.quality_check}
+          canReview={canReview && !!selfie.preview_url}
+          isPending={isMutating}
+          onApprove={() => approve({ type: 'selfie' })}
+          onReject={() => setRejectTarget({ type: 'selfie' })}
+        />
+
+        {/* Decision */}
+        {canReview && (
+          <View className="flex-row gap-3 mb-6">
+            <Button
+              variant="destructive"
+              className="flex-1"
+              onPress={() => setRejectTarget({ type: 'provider' })}
+              disabled={isMutating}
+            >
+              <Text>Reject provider</Text>
+            </Button>
+            <Button className="flex-1" onPress={confirmApproveProvider} disabled={isMutating}>
+              <Text>Approve provider</Text>
+            </Button>
+          </View>
+        )}
+
+        {status === 'rejected' && progress.rejection_reason && (
+          <Text className="text-sm text-destructive mb-6">Rejected: {progress.rejection_reason}</Text>
+        )}
+
+        {/* Audit trail */}
+        <Text className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+          History
+        </Text>
+        {audit_log.length === 0 ? (
+          <Text className="text-sm text-muted-foreground">No review actions yet</Text>
+        ) : (
+          audit_log.map((entry) => (
+            <View key={entry.id} className="py-2 border-b border-border">
+              <Text className="text-sm text-foreground">
+                {AUDIT_LABELS[entry.action]}: {entry.from_status ? `${entry.from_status} → ` : ''}{entry.to_status}
+              </Text>
+              {entry.reason && <Text className="text-xs text-muted-foreground">“{entry.reason}”</Text>}
+              <Text className="text-xs text-muted-foreground">
+                {entry.actor_name || 'System'} · {format(new Date(entry.created_at), 'd MMM yyyy, HH:mm')}
+              </Text>
+            </View>
+          ))
+        )}
+      </ScrollView>
+
+      {/* Rejection reason */}
+      {rejectTarget && (
+        <View className="absolute inset-0 bg-background/50 justify-center items-center p-4">
+          <View className="bg-background rounded-lg p-6 w-full max-w-sm">
+            <Text className="text-lg font-bold text-foreground mb-2">
+              {rejectTarget.type === 'provider' ? 'Reject provider' : `Reject ${rejectTarget.type}`}
+            </Text>
+            <Text className="text-sm text-muted-foreground mb-4">
+              The provider will see this reason, so say what they need to fix.
+            </Text>
+            <Textarea
+              placeholder="e.g., The document is blurry - please upload a clearer photo"
+              value={reason}
+              onChangeText={setReason}
+              className="min-h-20 mb-4"
+            />
+            {rejectTarget.type === 'provider' && (
+              <View className="mb-4 gap-2">
+                <Text className="text-sm text-muted-foreground">
+                  A rejected document or selfie is sent back automatically. Also send back:
+                </Text>
+                {RESUBMITTABLE_STEPS.map((step) => {
+                  const selected = stepsToResubmit.includes(step);
+                  return (
+                    <TouchableOpacity
+                      key={step}
+                      onPress={() => toggleStep(step)}
+                      className="flex-row items-center"
+                      activeOpacity={0.7}
+                    >
+                      <Ionicons
+                        name={selected ? 'checkbox' : 'square-outline'}
+                        size={20}
+                        color={selected ? '#ef4444' : '#9ca3af'}
+                      />
+                      <Text className="text-sm text-foreground ml-2">{VERIFICATION_STEPS[step].title}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+            <View className="flex-row gap-3">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onPress={closeRejection}
+              >
+                <Text>Cancel</Text>
+              </Button>
+              <Button
+                variant="destructive"
+                className="flex-1"
+                onPress={submitRejection}
+                disabled={!reason.trim() || isMutating}
+              >
+                <Text>Reject</Text>
+              </Button>
+            </View>
+          </View>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
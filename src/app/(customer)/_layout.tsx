@@ -5,6 +5,9 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useColorScheme } from '@/lib/core/useColorScheme';
 import { useCustomerLayoutGuards } from '@/hooks/routing/useLayoutGuards';
 import { THEME } from '@/lib/theme';
+import { useAuthStore } from '@/stores/auth';
+import { useUnreadMessageCount, useMessagesRealtime } from '@/hooks/shared/useMessages';
+import { useNotificationsRealtime } from '@/hooks/shared/useNotifications';
 
 /**
  * Customer Layout - Protected Route Group
@@ -19,6 +22,12 @@ export default function CustomerLayout() {
   const { guardResult } = useCustomerLayoutGuards();
   const { isDarkColorScheme } = useColorScheme();
   const insets = useSafeAreaInsets();
+  const user = useAuthStore((state) => state.user);
+  const { data: unreadMessages = 0 } = useUnreadMessageCount(user?.id);
+
+  // ✅ Keep the Messages tab badge and notification bell live
+  useMessagesRealtime(user?.id);
+  useNotificationsRealtime(user?.id);
 
   console.log('[CustomerLayout] 👥 Checking access...', guardResult);
 
@@ -85,22 +94,28 @@ export default function CustomerLayout() {
           ),
         }}
       />
-      {/* <Tabs.Screen
+      <Tabs.Screen
         name="messages"
         options={{
           title: 'Messages',
           tabBarIcon: ({ color, size }) => (
             <Ionicons name="chatbubble" size={size} color={color} />
           ),
+          tabBarBadge: unreadMessages > 0 ? unreadMessages : undefined,
         }}
-      /> */}
-
+      />
       <Tabs.Screen
-        name="messages"
+        name="messages/[id]"
         options={{
           href: null,
         }}
-      />    
+      />
+      <Tabs.Screen
+        name="notifications"
+        options={{
+          href: null,
+        }}
+      />
 
       <Tabs.Screen
         name="profile"
@@ -189,6 +204,24 @@ export default function CustomerLayout() {
           href: null,
         }}
       />
+      <Tabs.Screen
+        name='profile/wallet'
+        options={{
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name='profile/delete-account'
+        options={{
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name='profile/addresses'
+        options={{
+          href: null,
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
@@ -10,23 +10,65 @@ import { Ionicons } from '@expo/vector-icons';
 
 // React Query hooks
 import { useCustomerBookingDetail } from '@/hooks/customer/useBookings';
-import { useCancelBooking } from '@/hooks/customer';
+import { useCancelBooking, useCancellationPreview, type CancellationPreview } from '@/hooks/customer';
+import { useOpenBookingConversation } from '@/hooks/shared/useMessages';
+import {
+  useRescheduleBooking,
+  useRescheduleRealtime,
+  useRescheduleRequests,
+  type RescheduleRequest,
+} from '@/hooks/shared/useBookingReschedule';
+import { useBookingSeries, useManageBookingSeries, type BookingSeriesOccurrence } from '@/hooks/shared/useBookingSeries';
+import { canTrackBooking } from '@/hooks/shared/useBookingLiveLocation';
+import { useAuthStore } from '@/stores/auth';
 
 // UI Components
 import { Skeleton } from '@/components/ui/skeleton';
 import { ReviewPrompt } from '@/components/ui/review-prompt';
+import { BookingSeriesCard, ProviderLiveLocationCard, RescheduleRequestCard, RescheduleSlotPicker } from '@/components/booking';
 
 export default function BookingDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const { data: booking, isLoading } = useCustomerBookingDetail(id);
   const cancelBookingMutation = useCancelBooking();
+  const { data: cancellationPreview, refetch: refetchCancellationPreview } = useCancellationPreview(
+    id,
+    booking?.status === 'pending' || booking?.status === 'confirmed'
+  );
+  const openConversationMutation = useOpenBookingConversation();
   const [isProcessing, setIsProcessing] = useState(false);
   const [showReviewPrompt, setShowReviewPrompt] = useState(false);
+  const user = useAuthStore((state) => state.user);
+
+  // ✅ Rescheduling: proposals history + live updates from the provider
+  const { data: rescheduleRequests = [] } = useRescheduleRequests(id);
+  useRescheduleRealtime(id);
+  const rescheduleMutation = useRescheduleBooking();
+  // null = picker closed; counterRequestId set when answering the provider's proposal
+  const [slotPicker, setSlotPicker] = useState<{ counterRequestId?: string } | null>(null);
+
+  // 🔁 Recurring series this booking belongs to
+  const { data: bookingSeries } = useBookingSeries(booking?.series_id);
+  const manageSeriesMutation = useManageBookingSeries();
+
+  const describeRefund = (preview?: CancellationPreview) => {
+    if (!preview) return 'Your refund will be calculated from the provider\'s cancellation policy.';
+    if (preview.tier === 'full') {
+      return `You will receive a full refund of £${Number(preview.refund_amount).toFixed(2)}.`;
+    }
+    if (preview.tier === 'none') {
+      return 'This booking has already started, so no refund is due.';
+    }
+    return `You are within ${preview.window_hours} hours of the start time. You will be refunded £${Number(preview.refund_amount).toFixed(2)} (£${Number(preview.cancellation_fee).toFixed(2)} cancellation fee).`;
+  };
+
+  const handleCancelBooking = async () => {
+    // Fresh preview - the refund tier depends on how close the booking is
+    const { data: preview } = await refetchCancellationPreview();
 
-  const handleCancelBooking = () => {
     Alert.alert(
       'Cancel Booking',
-      'Are you sure you want to cancel this booking? You will receive a full refund.',
+      `Are you sure you want to cancel this booking? ${describeRefund(preview ?? cancellationPreview)}`,
       [
         { text: 'No', style: 'cancel' },
         { 
@@ -53,13 +95,106 @@ export default function BookingDetailScreen() {
   };
 
   const handleRescheduleBooking = () => {
-    // Navigate to reschedule screen (could be implemented later)
-    Alert.alert('Coming Soon', 'Rescheduling feature will be available soon!');
+    setSlotPicker({});
+  };
+
+  const handleSubmitReschedule = async (slot: { date: string; startTime: string; reason?: string }) => {
+    try {
+      await rescheduleMutation.mutateAsync({
+        action: slotPicker?.counterRequestId ? 'counter' : 'propose',
+        bookingId: id!,
+        requestId: slotPicker?.counterRequestId,
+        newDate: slot.date,
+        newStartTime: slot.startTime,
+        reason: slot.reason,
+      });
+      setSlotPicker(null);
+      Alert.alert(
+        'Request Sent',
+        'Your provider has been asked to confirm the new time. Your booking stays as it is until they accept.'
+      );
+    } catch (error) {
+      console.error('Reschedule booking error:', error);
+      Alert.alert('Unable to Reschedule', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
+  const handleRescheduleResponse = async (
+    action: 'accept' | 'decline' | 'withdraw',
+    request: RescheduleRequest
+  ) => {
+    try {
+      await rescheduleMutation.mutateAsync({ action, bookingId: id!, requestId: request.id });
+      if (action === 'accept') {
+        Alert.alert('Booking Rescheduled', 'Your booking has been moved to the new time.');
+      }
+    } catch (error) {
+      console.error('Reschedule response error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Please try again.');
+    }
   };
 
-  const handleContactProvider = () => {
-    // Navigate to messages or contact provider
-    Alert.alert('Coming Soon', 'Contact provider feature will be available soon!');
+  const handleSkipOccurrence = (occurrence: BookingSeriesOccurrence) => {
+    Alert.alert(
+      'Skip This Visit',
+      occurrence.status === 'booked'
+        ? 'This visit is already booked and paid, so it will be cancelled under the provider\'s cancellation policy. The rest of the series stays as it is.'
+        : 'This visit won\'t be booked or charged. The rest of the series stays as it is.',
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Skip Visit',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await manageSeriesMutation.mutateAsync({
+                action: 'skip',
+                seriesId: occurrence.series_id,
+                occurrenceId: occurrence.id,
+              });
+            } catch (error) {
+              console.error('Skip occurrence error:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCancelSeries = () => {
+    if (!bookingSeries) return;
+
+    Alert.alert(
+      'Cancel Recurring Booking',
+      'No more visits will be booked. Upcoming visits that are already booked, including this one, will be cancelled under the provider\'s cancellation policy.',
+      [
+        { text: 'Keep Series', style: 'cancel' },
+        {
+          text: 'Cancel Series',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await manageSeriesMutation.mutateAsync({ action: 'cancel_series', seriesId: bookingSeries.id });
+              Alert.alert('Series Cancelled', 'Your recurring booking has been cancelled.');
+            } catch (error) {
+              console.error('Cancel series error:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleContactProvider = async () => {
+    try {
+      const conversationId = await openConversationMutation.mutateAsync(id!);
+      router.push(`/(customer)/messages/${conversationId}` as any);
+    } catch (error) {
+      console.error('Open conversation error:', error);
+      Alert.alert('Error', 'Unable to open the conversation. Please try again.');
+    }
   };
 
   const handleLeaveReview = () => {
@@ -247,6 +382,14 @@ export default function BookingDetailScreen() {
             </CardContent>
           </Card>
 
+          {/* 📍 Live location + ETA while a house call / SOS provider is on the way */}
+          {canTrackBooking({ status: booking.status, is_sos_booking: booking.sos_booking, service_address: booking.service_location }) && (
+            <ProviderLiveLocationCard
+              bookingId={booking.id}
+              providerName={booking.business_name || booking.provider_first_name || 'Your provider'}
+            />
+          )}
+
           {/* When & Where - Grid Layout */}
           <Card className="mb-4 bg-card">
             <CardHeader>
@@ -342,6 +485,20 @@ export default function BookingDetailScreen() {
                     </Text>
                   </View>
                 </View>
+                {booking.status === 'cancelled' && booking.refund_amount != null && (
+                  <>
+                    {Number(booking.cancellation_fee_amount || 0) > 0 && (
+                      <View className="flex-row justify-between">
+                        <Text className="text-muted-foreground">Cancellation Fee:</Text>
+                        <Text className="text-muted-foreground">£{Number(booking.cancellation_fee_amount).toFixed(2)}</Text>
+                      </View>
+                    )}
+                    <View className="flex-row justify-between">
+                      <Text className="font-semibold text-green-600">Refunded:</Text>
+                      <Text className="font-semibold text-green-600">£{Number(booking.refund_amount).toFixed(2)}</Text>
+                    </View>
+                  </>
+                )}
               </View>
 
               {/* 🔴 CRITICAL: Escrow Explanation Card */}
@@ -361,6 +518,29 @@ export default function BookingDetailScreen() {
             </CardContent>
           </Card>
 
+          {/* Reschedule proposals */}
+          <RescheduleRequestCard
+            requests={rescheduleRequests}
+            viewerId={user?.id}
+            isBusy={rescheduleMutation.isPending}
+            onAccept={(request) => handleRescheduleResponse('accept', request)}
+            onDecline={(request) => handleRescheduleResponse('decline', request)}
+            onWithdraw={(request) => handleRescheduleResponse('withdraw', request)}
+            onCounter={(request) => setSlotPicker({ counterRequestId: request.id })}
+          />
+
+          {/* Recurring series */}
+          {bookingSeries && (
+            <BookingSeriesCard
+              series={bookingSeries}
+              currentBookingId={booking.id}
+              canSkip
+              isBusy={manageSeriesMutation.isPending}
+              onSkip={handleSkipOccurrence}
+              onCancelSeries={handleCancelSeries}
+            />
+          )}
+
           {/* Action Buttons */}
           <View className="gap-3">
             {booking.status === 'confirmed' && (
@@ -401,6 +581,19 @@ export default function BookingDetailScreen() {
                   </View>
                 </Button>
 
+                {cancellationPreview && (
+                  <View className="flex-row items-start gap-2 px-1">
+                    <Ionicons
+                      name={cancellationPreview.tier === 'full' ? 'checkmark-circle-outline' : 'alert-circle-outline'}
+                      size={16}
+                      color={cancellationPreview.tier === 'full' ? '#10b981' : '#f59e0b'}
+                    />
+                    <Text className="flex-1 text-xs text-muted-foreground leading-4">
+                      {describeRefund(cancellationPreview)}
+                    </Text>
+                  </View>
+                )}
+
                 <View className="bg-blue-50 dark:bg-blue-950/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800 mt-2">
                   <View className="flex-row items-center gap-2 mb-2">
                     <Ionicons name="information-circle" size={18} color="#0ea5e9" />
@@ -517,10 +710,47 @@ export default function BookingDetailScreen() {
                 </Text>
               </View>
             )}
+
+            {booking.status === 'expired' && (
+              <>
+                <View className="bg-muted p-4 rounded-lg border border-border">
+                  <View className="flex-row items-center gap-2 mb-2">
+                    <Ionicons name="hourglass" size={18} color="#6b7280" />
+                    <Text className="text-foreground font-semibold text-sm">Request Expired</Text>
+                  </View>
+                  <Text className="text-muted-foreground text-xs leading-4">
+                    The provider didn't respond in time, so this request expired and your payment has been released. Check your notifications for similar providers you can book instead.
+                  </Text>
+                </View>
+
+                <Button
+                  onPress={() => router.push('/(customer)/search' as any)}
+                  className="w-full h-12"
+                >
+                  <View className="flex-row items-center justify-center gap-2 w-full">
+                    <Ionicons name="search" size={18} color="white" />
+                    <Text className="text-primary-foreground font-semibold text-base">Find Another Provider</Text>
+                  </View>
+                </Button>
+              </>
+            )}
           </View>
         </View>
       </ScrollView>
 
+      {booking.provider_id && (
+        <RescheduleSlotPicker
+          visible={!!slotPicker}
+          providerId={booking.provider_id}
+          title={slotPicker?.counterRequestId ? 'Suggest Another Time' : 'Reschedule Booking'}
+          currentDate={booking.booking_date}
+          currentTime={booking.start_time}
+          isSubmitting={rescheduleMutation.isPending}
+          onClose={() => setSlotPicker(null)}
+          onSubmit={handleSubmitReschedule}
+        />
+      )}
+
       <ReviewPrompt
         bookingId={id!}
         providerName={`${booking.provider_first_name} ${booking.provider_last_name}`}
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { View, TouchableOpacity, Alert, Modal, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useQueryClient } from '@tanstack/react-query';
 import { Text } from '@/components/ui/text';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -16,25 +17,23 @@ import { supabase } from '@/lib/supabase';
 import { useServiceDetails } from '@/hooks/customer/useServiceDetails';
 import { useProviderAvailability, useProviderSchedule, useProviderBlackouts } from '@/hooks/customer/useProviderAvailability';
 import { useUserSubscriptions, hasActiveSubscription } from '@/hooks/shared/useSubscription';
-import { useProfile } from '@/hooks/shared/useProfileData';
-import { useAuthStore } from '@/stores/auth';
+import { useAddresses, formatAddress } from '@/hooks/customer/useAddresses';
+import { SERIES_FREQUENCY_LABELS, type SeriesFrequency } from '@/hooks/shared/useBookingSeries';
 
 // Components
 import { BookingModeSelector } from '@/components/customer/booking/booking-mode-selector';
+import { AddressPicker } from '@/components/customer/booking/address-picker';
 
 export default function BookServiceScreen() {
-  const { serviceId, providerId, providerName, serviceTitle, servicePrice } = useLocalSearchParams();
+  const { serviceId, providerId, providerName, serviceTitle, servicePrice, slotTaken } = useLocalSearchParams();
 
   console.log('[book-service] Provider ID from params:', providerId);
   console.log('[book-service] Provider name from params:', providerName);
   const router = useRouter();
+  const queryClient = useQueryClient();
 
-  // Get current user from auth store
-  const session = useAuthStore((state) => state.session);
-  const userId = session?.user?.id;
-
-  // Fetch user profile to get saved address
-  const { data: userProfile, isLoading: profileLoading } = useProfile(userId);
+  // Saved (geocoded) addresses - house calls are booked at one of these
+  const { data: savedAddresses = [], isLoading: addressesLoading } = useAddresses();
 
   // Helper function to format time
   const formatTime = (timeString: string) => {
@@ -51,41 +50,28 @@ export default function BookServiceScreen() {
   });
   const [selectedTime, setSelectedTime] = useState('');
   const [specialRequests, setSpecialRequests] = useState('');
-  const [address, setAddress] = useState('');
-  const [useSavedAddress, setUseSavedAddress] = useState(true); // Toggle for using saved address
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
   const [tempSelectedTime, setTempSelectedTime] = useState('');
   const [bookingMode, setBookingMode] = useState<'normal' | 'sos'>('normal');
   const [showModeSelector, setShowModeSelector] = useState(false);
+  // 🔁 Recurring booking - 'none' books a single visit
+  const [recurrence, setRecurrence] = useState<'none' | SeriesFrequency>('none');
+  const [occurrenceCount, setOccurrenceCount] = useState(6);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  // Initialize address from saved profile data on mount only
-  // Use ref to track if we've already auto-populated to prevent overwriting user input
-  const hasAutoPopulated = React.useRef(false);
-
+  // Preselect the default address (or keep the one picked if it still exists)
   useEffect(() => {
-    // Only auto-populate on first mount and when useSavedAddress is true
-    if (userProfile && useSavedAddress && !hasAutoPopulated.current) {
-      const fullAddress = [
-        userProfile.address,
-        userProfile.city,
-        userProfile.postal_code
-      ]
-        .filter(Boolean)
-        .join(', ');
-      
-      if (fullAddress) {
-        setAddress(fullAddress);
-        hasAutoPopulated.current = true;
-        console.log('[book-service] 📍 Loaded saved address on mount:', fullAddress);
-      }
-    } else if (!useSavedAddress && hasAutoPopulated.current) {
-      // Reset flag when user switches to custom address
-      hasAutoPopulated.current = false;
-      console.log('[book-service] 🔄 Switched to custom address mode - clearing auto-populate flag');
+    if (savedAddresses.length === 0) return;
+    if (!selectedAddressId || !savedAddresses.some((item) => item.id === selectedAddressId)) {
+      const defaultAddress = savedAddresses.find((item) => item.is_default) || savedAddresses[0];
+      setSelectedAddressId(defaultAddress.id);
     }
-  }, [userProfile, useSavedAddress]);
+  }, [savedAddresses, selectedAddressId]);
+
+  const selectedAddress = savedAddresses.find((item) => item.id === selectedAddressId) || null;
+  const address = selectedAddress ? formatAddress(selectedAddress) : '';
 
 
   // Get service details
@@ -104,7 +90,9 @@ export default function BookServiceScreen() {
   // Get provider availability for selected date
   const { data: availability, isLoading: availabilityLoading } = useProviderAvailability(
     providerId as string,
-    selectedDate
+    selectedDate,
+    serviceId as string,
+    !!service?.isHomeService
   );
 
   // Generate available time slots
@@ -116,6 +104,9 @@ export default function BookServiceScreen() {
     
     if (!daySchedule?.enabled || !daySchedule.start || !daySchedule.end) return [];
     
+    // Times still free once existing bookings (and travel buffers) are taken into account
+    const freeTimes = availability ? new Set(availability.availableSlots.map((slot) => slot.time)) : null;
+
     const slots = [];
     const startHour = parseInt(daySchedule.start.split(':')[0]);
     const startMinute = parseInt(daySchedule.start.split(':')[1]);
@@ -139,7 +130,7 @@ export default function BookServiceScreen() {
         slots.push({
           time: timeSlot,
           displayTime: formatTime(timeSlot),
-          available: true // We'll implement proper availability checking later
+          available: !freeTimes || freeTimes.has(timeSlot)
         });
       }
     }
@@ -260,6 +251,28 @@ export default function BookServiceScreen() {
 
 
 
+  // Someone else booked the slot first - clear it and show fresh availability
+  const handleSlotTaken = (paymentReleased = false) => {
+    setSelectedTime('');
+    queryClient.invalidateQueries({ queryKey: ['provider', 'availability', providerId] });
+    Alert.alert(
+      'Slot Just Taken',
+      paymentReleased
+        ? 'Someone booked this time just before you and your payment has been released. Please pick another time.'
+        : 'Someone booked this time just before you. Please pick another.',
+      [{ text: 'OK' }]
+    );
+  };
+
+  // payment.tsx sends the customer back here when create-booking answers SLOT_TAKEN
+  useEffect(() => {
+    if (slotTaken === '1') {
+      handleSlotTaken(true);
+      router.setParams({ slotTaken: undefined });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [slotTaken]);
+
   const handleProceedToPayment = async () => {
     // Validation based on booking mode
     if (bookingMode === 'normal') {
@@ -269,8 +282,8 @@ export default function BookServiceScreen() {
         return;
       }
 
-      if (!address && service?.isHomeService) {
-        Alert.alert('Error', 'Please enter your address for home service');
+      if (!selectedAddress && service?.isHomeService) {
+        Alert.alert('Error', 'Please choose a saved address for home service');
         return;
       }
 
@@ -279,7 +292,7 @@ export default function BookServiceScreen() {
         try {
           // Check time slot availability by calling the edge function
           const { data: availabilityData, error } = await supabase.functions.invoke('get-provider-availability', {
-            body: { providerId, date: selectedDate }
+            body: { providerId, date: selectedDate, serviceId, isHouseCall: !!service?.isHomeService }
           });
 
           if (error) {
@@ -294,11 +307,7 @@ export default function BookServiceScreen() {
           );
 
           if (!isSlotAvailable) {
-            Alert.alert(
-              'Time Slot Unavailable',
-              'The selected time slot is no longer available. Please choose a different time.',
-              [{ text: 'OK' }]
-            );
+            handleSlotTaken();
             return;
           }
         } catch (error) {
@@ -309,8 +318,8 @@ export default function BookServiceScreen() {
       }
     } else {
       // SOS/Instant booking validation
-      if (!address && service?.isHomeService) {
-        Alert.alert('Error', 'Please enter your address for home service');
+      if (!selectedAddress && service?.isHomeService) {
+        Alert.alert('Error', 'Please choose a saved address for home service');
         return;
       }
     }
@@ -320,8 +329,9 @@ export default function BookServiceScreen() {
       serviceTitle,
       servicePrice,
       bookingMode,
+      recurrence: bookingMode === 'normal' && recurrence !== 'none' ? `${recurrence} x${occurrenceCount}` : 'none',
       address: service?.isHomeService ? address : 'N/A (not a home service)',
-      usingSavedAddress: service?.isHomeService ? useSavedAddress : false,
+      addressId: service?.isHomeService ? selectedAddress?.id : 'N/A',
     });
 
     // Navigate to payment screen with booking details
@@ -338,8 +348,15 @@ export default function BookServiceScreen() {
           selectedDate,
           selectedTime,
         }),
+        ...(bookingMode === 'normal' && recurrence !== 'none' && {
+          recurrence,
+          occurrenceCount: String(occurrenceCount),
+        }),
         specialRequests,
-        address
+        ...(service?.isHomeService && selectedAddress && {
+          address,
+          addressId: selectedAddress.id,
+        }),
       }
     });
   };
@@ -609,97 +626,77 @@ export default function BookServiceScreen() {
       </Card>
       )}
 
+      {/* Repeat - Only for scheduled bookings */}
+      {bookingMode === 'normal' && (
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Repeat</CardTitle>
+        </CardHeader>
+        <CardContent className="gap-4">
+          <View className="flex-row flex-wrap gap-2">
+            {(['none', ...Object.keys(SERIES_FREQUENCY_LABELS)] as Array<'none' | SeriesFrequency>).map((option) => (
+              <TouchableOpacity
+                key={option}
+                onPress={() => setRecurrence(option)}
+                className={`px-4 py-2.5 rounded-lg border ${
+                  recurrence === option ? 'bg-primary border-primary' : 'bg-card border-border'
+                }`}
+              >
+                <Text className={recurrence === option ? 'text-primary-foreground font-medium' : 'text-foreground'}>
+                  {option === 'none' ? 'Just once' : SERIES_FREQUENCY_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {recurrence !== 'none' && (
+            <View>
+              <Text className="text-sm font-medium mb-2">Number of visits</Text>
+              <View className="flex-row gap-2">
+                {[4, 6, 8, 12].map((count) => (
+                  <TouchableOpacity
+                    key={count}
+                    onPress={() => setOccurrenceCount(count)}
+                    className={`flex-1 py-2.5 rounded-lg border items-center ${
+                      occurrenceCount === count ? 'bg-primary border-primary' : 'bg-card border-border'
+                    }`}
+                  >
+                    <Text className={occurrenceCount === count ? 'text-primary-foreground font-medium' : 'text-foreground'}>
+                      {count}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text className="text-xs text-muted-foreground mt-2">
+                You pay for the first visit now. Each later visit is booked and charged to the same card a week before it happens - skip or cancel any time.
+              </Text>
+            </View>
+          )}
+        </CardContent>
+      </Card>
+      )}
+
       {/* Address (if home service) */}
       {service?.isHomeService && (
         <Card className="mb-6">
           <CardHeader>
-            <View className="flex-row items-center justify-between gap-3">
-              <View className="flex-row items-center gap-3 flex-1">
-                <View className="w-10 h-10 rounded-full bg-emerald-500/10 items-center justify-center">
-                  <Ionicons name="location" size={20} className="text-emerald-600 dark:text-emerald-400" />
-                </View>
-                <View className="flex-1">
-                  <CardTitle>Service Address</CardTitle>
-                  <Text className="text-sm text-muted-foreground">
-                    {useSavedAddress && userProfile?.address ? 'Using saved address' : 'Enter delivery address'}
-                  </Text>
-                </View>
+            <View className="flex-row items-center gap-3">
+              <View className="w-10 h-10 rounded-full bg-emerald-500/10 items-center justify-center">
+                <Ionicons name="location" size={20} className="text-emerald-600 dark:text-emerald-400" />
+              </View>
+              <View className="flex-1">
+                <CardTitle>Service Address</CardTitle>
+                <Text className="text-sm text-muted-foreground">Where should the provider come?</Text>
               </View>
-              {userProfile?.address && (
-                <TouchableOpacity
-                  onPress={() => {
-                    if (useSavedAddress) {
-                      // Switching to custom address - clear the address to let user type
-                      setAddress('');
-                      setUseSavedAddress(false);
-                      hasAutoPopulated.current = false; // Allow re-population if they switch back
-                      console.log('[book-service] 🔄 Switched to custom address - cleared address');
-                    } else {
-                      // Switching back to saved address - load it
-                      const fullAddress = [
-                        userProfile.address,
-                        userProfile.city,
-                        userProfile.postal_code
-                      ]
-                        .filter(Boolean)
-                        .join(', ');
-                      setAddress(fullAddress);
-                      setUseSavedAddress(true);
-                      hasAutoPopulated.current = true;
-                      console.log('[book-service] 🔄 Switched back to saved address:', fullAddress);
-                    }
-                  }}
-                  className="px-3 py-2 rounded-lg bg-emerald-500/10 border border-emerald-500/20"
-                >
-                  <Text className="text-xs font-semibold text-emerald-600 dark:text-emerald-400">
-                    {useSavedAddress ? 'Change' : 'Use Saved'}
-                  </Text>
-                </TouchableOpacity>
-              )}
             </View>
           </CardHeader>
           <CardContent>
-            {/* Address Status Badge */}
-            {useSavedAddress && userProfile?.address ? (
-              <View className="mb-4 p-4 bg-emerald-500/5 rounded-lg border border-emerald-500/20 flex-row items-start gap-3">
-                <View className="w-6 h-6 rounded-full bg-emerald-500/20 items-center justify-center mt-0.5">
-                  <Ionicons name="checkmark-circle" size={16} className="text-emerald-600 dark:text-emerald-400" />
-                </View>
-                <View className="flex-1">
-                  <Text className="font-semibold text-emerald-600 dark:text-emerald-400 mb-1">
-                    Using Saved Address
-                  </Text>
-                  <Text className="text-sm text-emerald-600/80 dark:text-emerald-400/80">
-                    {address}
-                  </Text>
-                </View>
-              </View>
-            ) : null}
-
-            {/* Address Input */}
-            <Textarea
-              placeholder="Enter your complete address including street, city, and postal code..."
-              value={useSavedAddress && userProfile?.address ? '' : address}
-              onChangeText={(text) => {
-                setAddress(text);
-                // Allow user to type custom address
-                console.log('[book-service] 📝 User entered custom address:', text);
-              }}
-              editable={!useSavedAddress || !userProfile?.address}
-              className={`min-h-[100px] text-base border-2 focus:border-primary ${
-                useSavedAddress && userProfile?.address ? 'opacity-50 bg-muted' : ''
-              }`}
+            <AddressPicker
+              addresses={savedAddresses}
+              selectedId={selectedAddressId}
+              onSelect={(item) => setSelectedAddressId(item.id)}
+              isLoading={addressesLoading}
             />
-
-            {/* Info Messages */}
-            <View className="flex-row items-center gap-2 mt-3 p-3 bg-primary/5 rounded-lg border border-primary/10">
-              <Ionicons name="information-circle" size={16} className="text-primary" />
-              <Text className="text-xs text-primary/80 flex-1">
-                {useSavedAddress && userProfile?.address
-                  ? 'Tap "Change" to enter a different address for this booking'
-                  : 'Please provide a detailed address to ensure our provider can find you easily'}
-              </Text>
-            </View>
           </CardContent>
         </Card>
       )}
@@ -790,10 +787,10 @@ export default function BookServiceScreen() {
                     <Text className="text-foreground font-medium flex-1" numberOfLines={2}>
                       {address}
                     </Text>
-                    {useSavedAddress && userProfile?.address && (
+                    {selectedAddress && (
                       <View className="px-2 py-1 bg-emerald-500/10 rounded border border-emerald-500/20">
                         <Text className="text-xs font-semibold text-emerald-600 dark:text-emerald-400">
-                          Saved
+                          {selectedAddress.title}
                         </Text>
                       </View>
                     )}
@@ -13,13 +13,14 @@ import { THEME } from '@/lib/theme';
 import { supabase } from '@/lib/supabase';
 
 import { useCreateBooking } from '@/hooks/shared';
+import { usePriceQuote, SERVICE_AREA_ERROR_CODES, useDefaultPaymentMethod, formatCardLabel, type SavedPaymentMethod } from '@/hooks/customer';
 import { useAuthStore } from '@/stores/auth';
 
 export default function PaymentScreen() {
   const params = useLocalSearchParams();
   const router = useRouter();
   const { isDarkColorScheme } = useColorScheme();
-  const { initPaymentSheet, presentPaymentSheet } = useStripe();
+  const { initPaymentSheet, presentPaymentSheet, confirmPayment } = useStripe();
   const user = useAuthStore((state) => state.user);
 
   // Form state - REMOVED: Payment Sheet handles card collection
@@ -37,27 +38,53 @@ export default function PaymentScreen() {
     selectedTime: params.selectedTime as string,
     specialRequests: params.specialRequests as string,
     address: params.address as string,
+    addressId: params.addressId as string | undefined, // Saved address the booking copies coordinates from
+    // 🔁 Recurring series - this payment is the first visit and saves the card for the rest
+    recurrence: params.recurrence as 'weekly' | 'fortnightly' | 'monthly' | undefined,
+    occurrenceCount: params.occurrenceCount ? parseInt(params.occurrenceCount as string, 10) : undefined,
   };
 
   console.log('[Payment] Booking details from params:', bookingDetails);
 
-  // Calculate amounts for ESCROW SYSTEM
-  const platformFee = bookingDetails.servicePrice * 0.10; // 10% platform fee (as per requirements)
-  const totalCustomerPays = bookingDetails.servicePrice + platformFee; // Full amount customer pays
-  const providerAmount = bookingDetails.servicePrice; // Provider receives full service price
+  // 💷 Amounts for ESCROW SYSTEM come from the server price quote (pence) -
+  // the same quote create-payment-intent charges, so what's shown is what's paid
+  const isHouseCall = !!bookingDetails.address;
+  const {
+    data: priceQuote,
+    isLoading: isQuoteLoading,
+    error: quoteError,
+    refetch: refetchQuote,
+  } = usePriceQuote(bookingDetails.serviceId, bookingDetails.providerId, isHouseCall, bookingDetails.addressId);
+  const isOutOfServiceArea = SERVICE_AREA_ERROR_CODES.includes((quoteError as any)?.code);
+
+  const servicePrice = priceQuote ? priceQuote.quote.servicePrice / 100 : bookingDetails.servicePrice;
+  const houseCallFee = priceQuote ? priceQuote.quote.houseCallFee / 100 : 0;
+  const travelFee = priceQuote ? (priceQuote.quote.travelFee || 0) / 100 : 0;
+  const platformFee = priceQuote ? priceQuote.quote.platformFee / 100 : 0; // 10% platform fee (as per requirements)
+  const totalCustomerPays = priceQuote ? priceQuote.quote.totalAmount / 100 : 0; // Full amount customer pays
+  const providerAmount = priceQuote ? priceQuote.quote.providerAmount / 100 : 0; // Provider receives service price + house call and travel fees
 
   console.log('[Payment] Escrow Calculations:', {
-    servicePrice: bookingDetails.servicePrice,
-    platformFee: platformFee,
-    totalCustomerPays: totalCustomerPays,
-    providerAmount: providerAmount,
+    servicePrice,
+    houseCallFee,
+    travelFee,
+    platformFee,
+    totalCustomerPays,
+    providerAmount,
   });
 
+  // 💳 Default wallet card for one-tap pay (charged off-session, 3D Secure if the bank asks)
+  const { data: defaultPaymentMethod } = useDefaultPaymentMethod();
+
   // Create booking mutation
   const createBookingMutation = useCreateBooking();
 
-  const handlePayment = async () => {
+  const handlePayment = async (savedMethod?: SavedPaymentMethod) => {
     console.log('[Payment] Starting payment process...');
+    if (!priceQuote) {
+      Alert.alert('Error', 'The price is still loading. Please try again in a moment.');
+      return;
+    }
     setIsProcessing(true);
 
     try {
@@ -94,13 +121,15 @@ export default function PaymentScreen() {
       console.log('[Payment] Total amount to authorize and capture:', totalCustomerPays);
       
       // ✨ FIX: Stringify body for proper serialization through Supabase client
+      // Amounts aren't sent - the server charges the signed quote shown on this screen
       const paymentBody = {
-        amount: Math.round(totalCustomerPays * 100), // Full amount in pence
-        depositAmount: Math.round(totalCustomerPays * 100), // Capture full amount (not deposit)
-        currency: 'gbp',
         serviceId: bookingDetails.serviceId,
         providerId: bookingDetails.providerId,
-        userId: currentUser.id, // ✨ Pass user ID in body as fallback
+        isHouseCall,
+        addressId: bookingDetails.addressId, // Checked against the provider's service area
+        quoteToken: priceQuote.quoteToken,
+        setupFutureUsage: !!bookingDetails.recurrence, // Save the card for later visits in the series
+        paymentMethodId: savedMethod?.stripe_payment_method_id, // One-tap pay with a saved card
       };
       console.log('[Payment] Request body:', paymentBody);
       
@@ -112,13 +141,40 @@ export default function PaymentScreen() {
 
       if (paymentError) {
         console.error('[Payment] Payment intent creation failed:', paymentError);
+
+        // 💷 Price changed (or the quote expired) since the screen loaded - show the new total first
+        let errorCode: string | undefined;
+        if (paymentError.context?._bodyInit) {
+          try {
+            errorCode = JSON.parse(await new Response(paymentError.context._bodyInit).text()).code;
+          } catch {
+            // Fall through to the generic message
+          }
+        }
+        if (errorCode === 'PRICE_CHANGED' || errorCode === 'QUOTE_EXPIRED') {
+          await refetchQuote();
+          Alert.alert('Price Updated', 'The price of this service has changed. Please review the new total before paying.');
+          setIsProcessing(false);
+          return;
+        }
+        if (errorCode && SERVICE_AREA_ERROR_CODES.includes(errorCode)) {
+          await refetchQuote();
+          setIsProcessing(false);
+          return;
+        }
+        if (errorCode === 'CARD_DECLINED' || errorCode === 'PAYMENT_METHOD_NOT_FOUND') {
+          Alert.alert('Card Declined', 'Your saved card couldn\'t be charged. Please pay with another card.');
+          setIsProcessing(false);
+          return;
+        }
+
         Alert.alert('Error', `Payment setup failed: ${paymentError.message || 'Unknown error'}`);
         setIsProcessing(false);
         return;
       }
 
       console.log('[Payment] Payment intent created successfully:', paymentData);
-      const { clientSecret, paymentIntentId } = paymentData;
+      const { clientSecret, paymentIntentId, quoteToken, requiresAction } = paymentData;
 
       if (!clientSecret || !paymentIntentId) {
         console.error('[Payment] No client secret or payment intent ID received');
@@ -127,44 +183,60 @@ export default function PaymentScreen() {
         return;
       }
 
-      // Step 2: Initialize Payment Sheet
-      console.log('[Payment] Initializing payment sheet...');
-      const { error: initError } = await initPaymentSheet({
-        paymentIntentClientSecret: clientSecret,
-        merchantDisplayName: 'ZOVA Services',
-        returnURL: 'zova://payment-return',
-      });
+      if (savedMethod) {
+        // Step 2: Saved card was confirmed off-session - the bank may still want 3D Secure
+        if (requiresAction) {
+          console.log('[Payment] Saved card needs authentication, confirming on-session...');
+          const { error: confirmError } = await confirmPayment(clientSecret, {
+            paymentMethodType: 'Card',
+            paymentMethodData: { paymentMethodId: savedMethod.stripe_payment_method_id },
+          });
+
+          if (confirmError) {
+            console.error('[Payment] Saved card authentication failed:', confirmError);
+            Alert.alert('Payment Failed', confirmError.message);
+            setIsProcessing(false);
+            return;
+          }
+        }
+      } else {
+        // Step 2: Initialize Payment Sheet
+        console.log('[Payment] Initializing payment sheet...');
+        const { error: initError } = await initPaymentSheet({
+          paymentIntentClientSecret: clientSecret,
+          merchantDisplayName: 'ZOVA Services',
+          returnURL: 'zova://payment-return',
+        });
 
-      if (initError) {
-        console.error('[Payment] Payment sheet initialization failed:', initError);
-        Alert.alert('Error', initError.message);
-        setIsProcessing(false);
-        return;
-      }
+        if (initError) {
+          console.error('[Payment] Payment sheet initialization failed:', initError);
+          Alert.alert('Error', initError.message);
+          setIsProcessing(false);
+          return;
+        }
 
-      console.log('[Payment] Payment sheet initialized successfully');
+        console.log('[Payment] Payment sheet initialized successfully');
 
-      // Step 3: Present Payment Sheet (Stripe handles the secure payment form)
-      console.log('[Payment] Presenting payment sheet...');
-      const { error: sheetError } = await presentPaymentSheet();
+        // Step 3: Present Payment Sheet (Stripe handles the secure payment form)
+        console.log('[Payment] Presenting payment sheet...');
+        const { error: sheetError } = await presentPaymentSheet();
 
-      if (sheetError) {
-        console.error('[Payment] Payment sheet presentation failed:', sheetError);
-        Alert.alert('Payment Failed', sheetError.message);
-        setIsProcessing(false);
-        return;
-      }
+        if (sheetError) {
+          console.error('[Payment] Payment sheet presentation failed:', sheetError);
+          Alert.alert('Payment Failed', sheetError.message);
+          setIsProcessing(false);
+          return;
+        }
 
-      console.log('[Payment] Payment sheet completed successfully');
+        console.log('[Payment] Payment sheet completed successfully');
+      }
 
       // Step 4: Capture FULL amount for escrow
       console.log('[Payment] Capturing full amount for escrow...');
       const { data: captureData, error: captureError } = await supabase.functions.invoke('capture-deposit', {
         body: {
           paymentIntentId: paymentIntentId,
-          totalAmount: Math.round(totalCustomerPays * 100), // Full amount in pence
-          providerAmount: Math.round(providerAmount * 100), // Provider's share in pence
-          platformFee: Math.round(platformFee * 100), // Platform commission in pence
+          quoteToken, // Amounts are taken from the signed quote server-side
         },
       });
 
@@ -194,7 +266,7 @@ export default function PaymentScreen() {
         startTime: bookingDetails.selectedTime,
         specialRequests: bookingDetails.specialRequests,
         address: bookingDetails.address,
-        totalAmount: bookingDetails.servicePrice,
+        totalAmount: providerAmount,
         platformFee: platformFee,
         totalCustomerPays: totalCustomerPays,
         paymentIntentId: paymentIntentId,
@@ -212,11 +284,16 @@ export default function PaymentScreen() {
           startTime: bookingDetails.selectedTime || (bookingDetails.bookingMode === 'sos' ? 'ASAP' : ''),
           specialRequests: bookingDetails.specialRequests,
           address: bookingDetails.address,
+          addressId: bookingDetails.addressId,
           depositAmount: totalCustomerPays, // Now represents full captured amount
-          totalAmount: bookingDetails.servicePrice,
+          totalAmount: providerAmount,
           paymentIntentId: paymentIntentId,
+          quoteToken,
           authorizationAmount: totalCustomerPays, // Full amount captured in escrow
           capturedDeposit: totalCustomerPays, // Full amount held in escrow (not partial)
+          recurrence: bookingDetails.recurrence && bookingDetails.occurrenceCount
+            ? { frequency: bookingDetails.recurrence, occurrenceCount: bookingDetails.occurrenceCount }
+            : undefined,
         });
         console.log('[Payment] Booking response received:', bookingResponse);
       } catch (bookingError) {
@@ -225,18 +302,45 @@ export default function PaymentScreen() {
         
         // Extract error details for better user experience
         let errorMessage = 'Booking creation failed. Please try again.';
+        let errorCode: string | undefined;
         if (bookingError && typeof bookingError === 'object') {
           const errorBody = (bookingError as any).message;
           if (errorBody && errorBody.includes('{"error":')) {
             try {
-              const parsed = JSON.parse(errorBody.match(/\{"error"[^}]*\}/)[0]);
+              const parsed = JSON.parse(errorBody.slice(errorBody.indexOf('{"error":')));
               errorMessage = parsed.error;
+              errorCode = parsed.code;
             } catch (e) {
               // Use default message
             }
           }
         }
-        
+
+        // ⏱️ Another customer got the slot first - create-booking has already
+        //    released the payment, so send them back to pick a new time
+        if (errorCode === 'SLOT_TAKEN') {
+          router.dismissTo({
+            pathname: '/(customer)/booking/book-service',
+            params: {
+              serviceId: bookingDetails.serviceId,
+              providerId: bookingDetails.providerId,
+              providerName: bookingDetails.providerName,
+              serviceTitle: bookingDetails.serviceTitle,
+              servicePrice: String(bookingDetails.servicePrice),
+              slotTaken: '1',
+            },
+          });
+          return;
+        }
+
+        // 📍 Outside the provider's service area - the payment has been released too
+        if (errorCode && SERVICE_AREA_ERROR_CODES.includes(errorCode)) {
+          Alert.alert('Outside Service Area', `${errorMessage} Your payment has been released.`, [
+            { text: 'OK', onPress: () => router.back() },
+          ]);
+          return;
+        }
+
         throw new Error(errorMessage);
       }
 
@@ -257,7 +361,7 @@ export default function PaymentScreen() {
             ? bookingDetails.selectedTime
             : 'ASAP',
           amount: totalCustomerPays.toString(), // Full amount charged
-          servicePrice: bookingDetails.servicePrice.toString(), // ✨ CRITICAL FIX: Pass actual service price
+          servicePrice: providerAmount.toString(), // ✨ CRITICAL FIX: Pass actual service price (incl. house call fee)
           platformFee: platformFee.toString(), // ✨ CRITICAL FIX: Pass actual platform fee
         }
       });
@@ -344,11 +448,46 @@ export default function PaymentScreen() {
                 <Text className="font-medium text-destructive">SOS Emergency - ASAP</Text>
               </View>
             )}
+            {isQuoteLoading ? (
+              <View className="border-t border-border pt-2 mt-2">
+                <Text className="text-muted-foreground text-center">Calculating price...</Text>
+              </View>
+            ) : isOutOfServiceArea ? (
+              <View className="border-t border-border pt-2 mt-2 gap-2 items-center">
+                <Text className="text-destructive text-center">{(quoteError as Error).message}</Text>
+                <Button variant="outline" size="sm" onPress={() => router.back()}>
+                  <Text>Choose Another Address</Text>
+                </Button>
+              </View>
+            ) : quoteError || !priceQuote ? (
+              <View className="border-t border-border pt-2 mt-2 gap-2 items-center">
+                <Text className="text-destructive text-center">We couldn't load the price for this service.</Text>
+                <Button variant="outline" size="sm" onPress={() => refetchQuote()}>
+                  <Text>Try Again</Text>
+                </Button>
+              </View>
+            ) : (
             <View className="border-t border-border pt-2 mt-2 gap-2">
               <View className="flex-row justify-between">
-                <Text className="text-muted-foreground">Service Price</Text>
-                <Text className="font-medium">£{bookingDetails.servicePrice.toFixed(2)}</Text>
+                <Text className="text-muted-foreground">
+                  Service Price{priceQuote.quote.priceType === 'hourly' ? ` (${priceQuote.quote.durationMinutes / 60}h)` : ''}
+                </Text>
+                <Text className="font-medium">£{servicePrice.toFixed(2)}</Text>
               </View>
+              {houseCallFee > 0 && (
+                <View className="flex-row justify-between">
+                  <Text className="text-muted-foreground">House Call Fee</Text>
+                  <Text className="font-medium">£{houseCallFee.toFixed(2)}</Text>
+                </View>
+              )}
+              {travelFee > 0 && (
+                <View className="flex-row justify-between">
+                  <Text className="text-muted-foreground">
+                    Travel Fee{priceQuote.quote.distanceKm !== null ? ` (${priceQuote.quote.distanceKm.toFixed(1)} km)` : ''}
+                  </Text>
+                  <Text className="font-medium">£{travelFee.toFixed(2)}</Text>
+                </View>
+              )}
               <View className="flex-row justify-between">
                 <Text className="text-muted-foreground">Platform Fee (10%)</Text>
                 <Text className="font-medium">£{platformFee.toFixed(2)}</Text>
@@ -371,11 +510,12 @@ export default function PaymentScreen() {
                     <Text className="text-xs font-medium text-primary ml-1">Escrow Protection</Text>
                   </View>
                   <Text className="text-xs text-muted-foreground">
-                    Funds are held securely. Provider receives £{bookingDetails.servicePrice.toFixed(2)} automatically when service is marked complete.
+                    Funds are held securely. Provider receives £{providerAmount.toFixed(2)} automatically when service is marked complete.
                   </Text>
                 </View>
               </View>
             </View>
+            )}
           </CardContent>
         </Card>
 
@@ -389,7 +529,7 @@ export default function PaymentScreen() {
             <Text className="text-sm text-muted-foreground">
               • Full amount (£{totalCustomerPays.toFixed(2)}) charged immediately to your card{'\n'}
               • Funds held securely in escrow until service completion{'\n'}
-              • Provider receives £{bookingDetails.servicePrice.toFixed(2)} automatically when service is marked complete{'\n'}
+              • Provider receives £{providerAmount.toFixed(2)} automatically when service is marked complete{'\n'}
               • Platform fee (£{platformFee.toFixed(2)}) covers secure payment processing & customer support{'\n'}
               • Your payment is protected throughout the service
             </Text>
@@ -411,16 +551,39 @@ export default function PaymentScreen() {
 
         {/* Pay Button */}
         <View className="px-4 py-8">
-          <Button
-            onPress={handlePayment}
-            className="w-full h-14"
-            size="lg"
-            disabled={isProcessing}
-          >
-            <Text className="text-primary-foreground font-bold text-lg">
-              {isProcessing ? 'Processing...' : `Pay £${totalCustomerPays.toFixed(2)} Securely`}
-            </Text>
-          </Button>
+          {defaultPaymentMethod ? (
+            <>
+              <Button
+                onPress={() => handlePayment(defaultPaymentMethod)}
+                className="w-full h-14"
+                size="lg"
+                disabled={isProcessing || !priceQuote}
+              >
+                <Text className="text-primary-foreground font-bold text-lg">
+                  {isProcessing ? 'Processing...' : priceQuote ? `Pay £${totalCustomerPays.toFixed(2)}` : 'Pay'} with {formatCardLabel(defaultPaymentMethod)}
+                </Text>
+              </Button>
+              <Button
+                variant="outline"
+                onPress={() => handlePayment()}
+                className="w-full h-12 mt-3"
+                disabled={isProcessing || !priceQuote}
+              >
+                <Text>Pay with another card</Text>
+              </Button>
+            </>
+          ) : (
+            <Button
+              onPress={() => handlePayment()}
+              className="w-full h-14"
+              size="lg"
+              disabled={isProcessing || !priceQuote}
+            >
+              <Text className="text-primary-foreground font-bold text-lg">
+                {isProcessing ? 'Processing...' : priceQuote ? `Pay £${totalCustomerPays.toFixed(2)} Securely` : 'Pay Securely'}
+              </Text>
+            </Button>
+          )}
 
           <Text className="text-xs text-muted-foreground text-center mt-4">
             By completing this payment, you agree to our terms of service and cancellation policy.
@@ -1,12 +1,12 @@
 /**
  * SOS Booking Confirmation Screen
  * 
- * Shows emergency booking confirmation with real-time provider tracking
- * and estimated arrival times.
+ * Live status of an SOS request: providers being alerted (and the search widening),
+ * then the confirmed booking once a provider accepts - or what happened if nobody could.
  */
 
 import React, { useEffect, useState } from 'react';
-import { View, ScrollView, Linking, Alert } from 'react-native';
+import { View, ScrollView, Linking, Alert, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
 import { Text } from '@/components/ui/text';
@@ -23,35 +23,158 @@ import {
   Shield,
   Navigation,
   Star,
-  AlertTriangle
+  AlertTriangle,
+  Radar,
+  XCircle,
+  CreditCard
 } from 'lucide-react-native';
 
 // Hooks
 import { useCustomerBookingDetail } from '@/hooks/customer/useBookings';
 import { useProviderDetails } from '@/hooks/customer';
+import { useSOSRequest, useCancelSOSRequest, type SOSRequest } from '@/hooks/customer/useSOSRequest';
 
-export default function SOSConfirmationScreen() {
-  const params = useLocalSearchParams<{
-    bookingId: string;
-    providerId: string;
-    estimatedArrival: string;
-  }>();
-  
-  const [currentTime, setCurrentTime] = useState(new Date());
-  
-  // ✅ Following React Query + Zustand architecture
-  const { data: booking, isLoading: bookingLoading } = useCustomerBookingDetail(params.bookingId);
-  const { data: provider, isLoading: providerLoading } = useProviderDetails(params.providerId);
+const CLOSED_MESSAGES: Record<'no_providers' | 'cancelled' | 'failed', { title: string; body: string }> = {
+  no_providers: {
+    title: 'No providers available',
+    body: 'Nobody nearby could take your request this time. You haven\'t been charged.',
+  },
+  cancelled: {
+    title: 'Request cancelled',
+    body: 'Your emergency request was cancelled. You haven\'t been charged.',
+  },
+  failed: {
+    title: 'Booking couldn\'t be completed',
+    body: 'A provider accepted, but we couldn\'t complete the booking. You haven\'t been charged.',
+  },
+};
 
-  // Update time every minute for accurate ETA
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setCurrentTime(new Date());
-    }, 60000); // Update every minute
+/**
+ * Seconds until the current wave widens, for the searching view
+ */
+function useSecondsUntil(timestamp?: string) {
+  const [now, setNow] = useState(Date.now());
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(timer);
   }, []);
 
+  return timestamp ? Math.max(0, Math.round((new Date(timestamp).getTime() - now) / 1000)) : 0;
+}
+
+function SearchingView({ request, onCancel, isCancelling }: {
+  request: SOSRequest;
+  onCancel: () => void;
+  isCancelling: boolean;
+}) {
+  const secondsLeft = useSecondsUntil(request.wave_expires_at);
+  const isLastWave = request.wave >= request.total_waves;
+
+  return (
+    <View className="gap-6">
+      <View className="bg-destructive/5 rounded-2xl p-6 border border-destructive/30 items-center">
+        <View className="w-16 h-16 bg-destructive rounded-full items-center justify-center mb-4">
+          <Radar size={32} className="text-white" />
+        </View>
+        <Text className="text-xl font-bold text-foreground text-center mb-2">
+          {request.status === 'accepted' ? 'Provider found!' : 'Alerting nearby providers'}
+        </Text>
+        <Text className="text-muted-foreground text-center">
+          {request.status === 'accepted'
+            ? 'Confirming your booking and payment...'
+            : 'The first provider to accept will be booked straight away'}
+        </Text>
+        <ActivityIndicator className="mt-4" />
+      </View>
+
+      {request.status === 'searching' && (
+        <Card>
+          <CardContent className="p-4 gap-3">
+            <View className="flex-row justify-between">
+              <Text className="text-muted-foreground">Search radius</Text>
+              <Text className="font-semibold text-foreground">{request.radius_km} km</Text>
+            </View>
+            <View className="flex-row justify-between">
+              <Text className="text-muted-foreground">Providers alerted</Text>
+              <Text className="font-semibold text-foreground">
+                {request.providers_notified}
+                {request.providers_declined > 0 ? ` (${request.providers_declined} unavailable)` : ''}
+              </Text>
+            </View>
+            <View className="flex-row justify-between">
+              <Text className="text-muted-foreground">
+                {isLastWave ? 'Waiting for answers' : 'Widening search in'}
+              </Text>
+              <Text className="font-semibold text-foreground">
+                {secondsLeft > 0 ? `${secondsLeft}s` : 'Any moment'}
+              </Text>
+            </View>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="p-4 gap-3">
+          <View className="flex-row items-start gap-3">
+            <AlertTriangle size={16} className="text-red-500 mt-1" />
+            <View className="flex-1">
+              <Text className="font-medium text-foreground mb-1">{request.service_name}</Text>
+              <Text className="text-muted-foreground">{request.description}</Text>
+            </View>
+          </View>
+          <View className="flex-row items-start gap-3">
+            <MapPin size={16} className="text-blue-500 mt-1" />
+            <Text className="flex-1 text-muted-foreground">{request.service_address}</Text>
+          </View>
+        </CardContent>
+      </Card>
+
+      {request.status === 'searching' && (
+        <Button variant="outline" onPress={onCancel} disabled={isCancelling}>
+          <Text className="text-foreground">{isCancelling ? 'Cancelling...' : 'Cancel Request'}</Text>
+        </Button>
+      )}
+    </View>
+  );
+}
+
+function ClosedView({ request }: { request: SOSRequest }) {
+  const message = CLOSED_MESSAGES[request.status as keyof typeof CLOSED_MESSAGES];
+
+  return (
+    <View className="gap-6">
+      <View className="bg-muted rounded-2xl p-6 items-center">
+        <XCircle size={48} className="text-muted-foreground mb-4" />
+        <Text className="text-xl font-bold text-foreground text-center mb-2">{message.title}</Text>
+        <Text className="text-muted-foreground text-center">
+          {request.status === 'failed' && request.failure_reason ? `${request.failure_reason}. ` : ''}
+          {message.body}
+        </Text>
+      </View>
+
+      <View className="gap-3">
+        <Button onPress={() => router.replace('/(customer)/sos-booking' as any)} className="bg-destructive">
+          <Text className="text-destructive-foreground font-medium">Try Again</Text>
+        </Button>
+        <Button variant="outline" onPress={() => router.replace('/(customer)' as any)}>
+          <Text className="text-foreground">Back to Home</Text>
+        </Button>
+      </View>
+    </View>
+  );
+}
+
+export default function SOSConfirmationScreen() {
+  const params = useLocalSearchParams<{ requestId: string }>();
+  
+  // ✅ Following React Query + Zustand architecture
+  const { data: request, isLoading: requestLoading } = useSOSRequest(params.requestId);
+  const cancelRequest = useCancelSOSRequest();
+  const bookingId = request?.booking_id || undefined;
+  const { data: booking, isLoading: bookingLoading } = useCustomerBookingDetail(bookingId);
+  const { data: provider, isLoading: providerLoading } = useProviderDetails(bookingId ? request?.provider?.id : undefined);
+
   const handleCallProvider = () => {
     if (provider?.phone) {
       Linking.openURL(`tel:${provider.phone}`);
@@ -70,25 +193,65 @@ export default function SOSConfirmationScreen() {
     Alert.alert('Live Tracking', 'Provider tracking feature coming soon. We\'ll notify you when they arrive.');
   };
 
-  const handleCancelBooking = () => {
+  const handleCancelRequest = () => {
+    if (!request) return;
+
     Alert.alert(
-      'Cancel Emergency Service?',
-      'Are you sure you want to cancel this emergency booking? The provider may already be on their way.',
+      'Cancel Emergency Request?',
+      'Providers who have been alerted will no longer be able to accept it.',
       [
-        { text: 'Keep Booking', style: 'cancel' },
+        { text: 'Keep Searching', style: 'cancel' },
         { 
-          text: 'Cancel Booking', 
+          text: 'Cancel Request', 
           style: 'destructive',
-          onPress: () => {
-            // TODO: Implement booking cancellation
-            console.log('Cancel booking:', params.bookingId);
-            router.back();
-          }
+          onPress: () => cancelRequest.mutate(request.id, {
+            onError: (error) => Alert.alert('Could Not Cancel', error.message),
+          })
         }
       ]
     );
   };
 
+  // Cancelling a confirmed booking goes through the usual cancellation policy
+  const handleCancelBooking = () => {
+    if (bookingId) {
+      router.push(`/(customer)/booking/${bookingId}` as any);
+    }
+  };
+
+  if (requestLoading || !request) {
+    return (
+      <SafeAreaView className="flex-1 bg-background">
+        <View className="flex-1 justify-center items-center">
+          <Shield size={48} className="text-destructive mb-4" />
+          <Text className="text-lg font-semibold">
+            {requestLoading ? 'Loading your emergency request...' : 'Emergency request not found'}
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (request.status !== 'booked') {
+    return (
+      <SafeAreaView className="flex-1 bg-background">
+        <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+          <View className="p-4">
+            {request.status === 'searching' || request.status === 'accepted' ? (
+              <SearchingView
+                request={request}
+                onCancel={handleCancelRequest}
+                isCancelling={cancelRequest.isPending}
+              />
+            ) : (
+              <ClosedView request={request} />
+            )}
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
   if (bookingLoading || providerLoading) {
     return (
       <SafeAreaView className="flex-1 bg-background">
@@ -217,9 +380,19 @@ export default function SOSConfirmationScreen() {
               <View className="flex-row items-start gap-3">
                 <Clock size={16} className="text-green-500 mt-1" />
                 <View className="flex-1">
-                  <Text className="font-medium text-foreground mb-1">Estimated Arrival</Text>
+                  <Text className="font-medium text-foreground mb-1">Accepted</Text>
                   <Text className="text-green-600 font-medium">
-                    {params.estimatedArrival || '15-30 minutes'}
+                    Today at {booking?.start_time?.slice(0, 5)}
+                  </Text>
+                </View>
+              </View>
+
+              <View className="flex-row items-start gap-3">
+                <CreditCard size={16} className="text-primary mt-1" />
+                <View className="flex-1">
+                  <Text className="font-medium text-foreground mb-1">Paid with your saved card</Text>
+                  <Text className="text-muted-foreground">
+                    £{Number(booking?.total_amount || 0).toFixed(2)} - held securely until the job is done
                   </Text>
                 </View>
               </View>
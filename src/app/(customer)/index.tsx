@@ -41,6 +41,7 @@ import {
   useUserSubscriptions 
 } from '@/hooks/shared/useSubscription';
 import { cn } from '@/lib/utils';
+import { NotificationBell } from '@/components/notifications';
 import { 
   Search, 
   Users, 
@@ -204,8 +205,10 @@ export default function CustomerDashboard() {
               </View>
             </View>
 
+            <NotificationBell href="/(customer)/notifications" />
+
             {/* Profile Avatar with Status */}
-            <TouchableOpacity onPress={() => router.push('/(customer)/profile')}>
+            <TouchableOpacity onPress={() => router.push('/(customer)/profile')} className="ml-3">
               <View className="relative">
                 <Avatar className="w-14 h-14 border-2 border-primary/20" alt="Customer avatar">
                   {profileData?.avatar_url ? (
@@ -1,19 +1,36 @@
 import React from 'react';
 import { View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
 import { Text } from '@/components/ui/text';
+import { ConversationList } from '@/components/messaging';
+import { useAuthStore } from '@/stores/auth';
+import { useConversations } from '@/hooks/shared/useMessages';
 
 export default function MessagesScreen() {
+  const user = useAuthStore((state) => state.user);
+  const { data: conversations = [], isLoading, isRefetching, refetch } = useConversations(user?.id);
+
   return (
     <SafeAreaView className="flex-1 bg-background" edges={['top']}>
-      <View className="flex-1 justify-center items-center px-6">
-        <Text variant="h2" className="text-center mb-4">
+      <View className="px-4 py-4 border-b border-border">
+        <Text variant="h3" className="font-bold">
           Messages
         </Text>
-        <Text variant="p" className="text-muted-foreground text-center">
-          Chat with your service providers and get real-time updates. Coming soon!
+        <Text className="text-sm text-muted-foreground">
+          Chat with your service providers about your bookings
         </Text>
       </View>
+
+      <ConversationList
+        conversations={conversations}
+        currentUserId={user?.id}
+        isLoading={isLoading}
+        isRefreshing={isRefetching}
+        onRefresh={refetch}
+        onSelect={(conversation) => router.push(`/(customer)/messages/${conversation.id}` as any)}
+        emptyMessage="Once you book a service you can message your provider here."
+      />
     </SafeAreaView>
   );
-}
\ No newline at end of file
+}
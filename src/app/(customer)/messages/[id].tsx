@@ -0,0 +1,20 @@
+import React from 'react';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ChatThread } from '@/components/messaging';
+import { useAuthStore } from '@/stores/auth';
+
+export default function CustomerConversationScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const user = useAuthStore((state) => state.user);
+
+  if (!id || !user?.id) return null;
+
+  return (
+    <ChatThread
+      conversationId={id}
+      currentUserId={user.id}
+      onBack={() => router.back()}
+      onOpenBooking={(bookingId) => router.push(`/(customer)/booking/${bookingId}` as any)}
+    />
+  );
+}
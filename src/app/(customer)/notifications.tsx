@@ -0,0 +1,59 @@
+import React from 'react';
+import { View, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Text } from '@/components/ui/text';
+import { NotificationList } from '@/components/notifications';
+import { useAuthStore } from '@/stores/auth';
+import {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  getNotificationRoute,
+  type AppNotification,
+} from '@/hooks/shared/useNotifications';
+
+export default function CustomerNotificationsScreen() {
+  const user = useAuthStore((state) => state.user);
+  const { data: notifications = [], isLoading, isRefetching, refetch } = useNotifications(user?.id);
+  const markRead = useMarkNotificationRead(user?.id);
+  const markAllRead = useMarkAllNotificationsRead(user?.id);
+
+  const hasUnread = notifications.some((n) => !n.is_read);
+
+  const handlePress = (notification: AppNotification) => {
+    if (!notification.is_read) {
+      markRead.mutate(notification.id);
+    }
+
+    const route = getNotificationRoute(notification, 'customer');
+    if (route) {
+      router.push(route as any);
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={['top']}>
+      <View className="flex-row items-center px-4 py-4 border-b border-border">
+        <TouchableOpacity onPress={() => router.back()} className="w-8 h-8 justify-center">
+          <Ionicons name="chevron-back" size={24} color="#6b7280" />
+        </TouchableOpacity>
+        <Text className="flex-1 text-xl font-bold text-foreground ml-2">Notifications</Text>
+        {hasUnread && (
+          <TouchableOpacity onPress={() => markAllRead.mutate()} disabled={markAllRead.isPending}>
+            <Text className="text-primary text-sm font-medium">Mark all read</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <NotificationList
+        notifications={notifications}
+        isLoading={isLoading}
+        isRefreshing={isRefetching}
+        onRefresh={refetch}
+        onPress={handlePress}
+      />
+    </SafeAreaView>
+  );
+}
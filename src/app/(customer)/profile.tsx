@@ -16,7 +16,9 @@ import {
   Trophy,
   DollarSign,
   CheckCircle,
-  ChevronRight
+  ChevronRight,
+  CreditCard,
+  MapPin
 } from 'lucide-react-native';
 import { Text } from '@/components/ui/text';
 import { Button } from '@/components/ui/button';
@@ -120,6 +122,20 @@ function ProfileContent() {
       icon: Crown,
       onPress: () => router.push('/(customer)/subscriptions'),
     },
+    {
+      id: 'wallet',
+      title: 'Payment Methods',
+      subtitle: 'Saved cards for faster checkout',
+      icon: CreditCard,
+      onPress: () => router.push('/(customer)/profile/wallet'),
+    },
+    {
+      id: 'addresses',
+      title: 'Saved Addresses',
+      subtitle: 'Home, work and other places for bookings',
+      icon: MapPin,
+      onPress: () => router.push('/(customer)/profile/addresses'),
+    },
     {
       id: 'booking-history',
       title: 'Booking History',
@@ -456,6 +472,12 @@ function ProfileContent() {
           {/* Logout */}
           <View className="mb-8">
             <LogoutButton variant="modern" fullWidth />
+            <TouchableOpacity
+              onPress={() => router.push('/(customer)/profile/delete-account' as any)}
+              className="items-center py-4"
+            >
+              <Text className="text-destructive text-sm font-medium">Delete Account</Text>
+            </TouchableOpacity>
           </View>
 
           {/* Footer */}
@@ -0,0 +1,336 @@
+import React from 'react';
+import { View, ScrollView, RefreshControl, Alert, TouchableOpacity, KeyboardAvoidingView, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { ChevronLeft } from 'lucide-react-native';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useColorScheme } from '@/lib/core/useColorScheme';
+import { THEME } from '@/lib/theme';
+import {
+  useAddresses,
+  useSaveAddress,
+  useSetDefaultAddress,
+  useDeleteAddress,
+  formatAddress,
+  ADDRESS_LABELS,
+  type AddressLabel,
+  type SavedAddress,
+  type SaveAddressInput,
+} from '@/hooks/customer/useAddresses';
+
+const EMPTY_FORM: SaveAddressInput = {
+  label: 'home',
+  title: '',
+  street_address: '',
+  city: '',
+  postal_code: '',
+  country: 'United Kingdom',
+  is_default: false,
+};
+
+const AddressSkeleton = () => (
+  <Card className="mb-3">
+    <CardContent className="p-4 flex-row items-center gap-3">
+      <Skeleton className="w-10 h-10 rounded-full" />
+      <View className="flex-1">
+        <Skeleton className="w-24 h-5 mb-1" />
+        <Skeleton className="w-48 h-3" />
+      </View>
+    </CardContent>
+  </Card>
+);
+
+export default function AddressesScreen() {
+  const { isDarkColorScheme } = useColorScheme();
+  const colors = isDarkColorScheme ? THEME.dark : THEME.light;
+  const [refreshing, setRefreshing] = React.useState(false);
+  // null = list only, otherwise the address being added / edited
+  const [form, setForm] = React.useState<SaveAddressInput | null>(null);
+
+  const { data: addresses = [], isLoading, refetch } = useAddresses();
+  const saveAddress = useSaveAddress();
+  const setDefault = useSetDefaultAddress();
+  const deleteAddress = useDeleteAddress();
+
+  const onRefresh = React.useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await refetch();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [refetch]);
+
+  const updateForm = (changes: Partial<SaveAddressInput>) => {
+    setForm((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const handleEdit = (address: SavedAddress) => {
+    setForm({
+      id: address.id,
+      label: address.label,
+      title: address.title,
+      street_address: address.street_address,
+      city: address.city,
+      postal_code: address.postal_code || '',
+      country: address.country || '',
+      is_default: address.is_default,
+    });
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    if (!form.street_address.trim() || !form.city.trim()) {
+      Alert.alert('Missing Information', 'Please enter the street address and city');
+      return;
+    }
+
+    saveAddress.mutate(form, {
+      onSuccess: ({ warning }) => {
+        setForm(null);
+        if (warning) Alert.alert('Address Saved', warning);
+      },
+      onError: (error) => Alert.alert('Could Not Save Address', error.message),
+    });
+  };
+
+  const handleSetDefault = (address: SavedAddress) => {
+    setDefault.mutate(address.id, {
+      onError: (error) => Alert.alert('Error', error.message),
+    });
+  };
+
+  const handleDelete = (address: SavedAddress) => {
+    Alert.alert(
+      'Delete Address',
+      `Delete "${address.title}"? Existing bookings keep their address.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteAddress.mutate(address.id, {
+            onError: (error) => Alert.alert('Could Not Delete Address', error.message),
+          }),
+        },
+      ]
+    );
+  };
+
+  const isBusy = setDefault.isPending || deleteAddress.isPending;
+
+  return (
+    <SafeAreaView className="flex-1 bg-background">
+      {/* Header */}
+      <View className="flex-row items-center px-4 py-3 border-b border-border">
+        <Button
+          variant="ghost"
+          size="sm"
+          onPress={() => router.back()}
+          className="mr-2"
+        >
+          <ChevronLeft size={20} color={colors.foreground} />
+        </Button>
+        <Text variant="h3" className="flex-1">Saved Addresses</Text>
+      </View>
+
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} className="flex-1">
+        <ScrollView
+          className="flex-1 p-4"
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.primary} />
+          }
+        >
+          {form ? (
+            <Card className="mb-4">
+              <CardContent className="p-4 gap-3">
+                <Text className="font-semibold text-foreground">
+                  {form.id ? 'Edit Address' : 'New Address'}
+                </Text>
+
+                {/* Label */}
+                <View className="flex-row gap-2">
+                  {ADDRESS_LABELS.map((item) => {
+                    const isSelected = form.label === item.value;
+                    return (
+                      <TouchableOpacity
+                        key={item.value}
+                        onPress={() => updateForm({ label: item.value as AddressLabel })}
+                        className={`flex-row items-center gap-1 px-3 py-2 rounded-full border ${
+                          isSelected ? 'border-primary bg-primary/10' : 'border-border'
+                        }`}
+                      >
+                        <Ionicons
+                          name={item.icon}
+                          size={14}
+                          color={isSelected ? colors.primary : colors.mutedForeground}
+                        />
+                        <Text className={isSelected ? 'text-primary font-medium' : 'text-muted-foreground'}>
+                          {item.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Input
+                  placeholder="Name (optional, e.g. Mum's house)"
+                  value={form.title}
+                  onChangeText={(title) => updateForm({ title })}
+                />
+                <Input
+                  placeholder="Street address"
+                  value={form.street_address}
+                  onChangeText={(street_address) => updateForm({ street_address })}
+                />
+                <View className="flex-row gap-2">
+                  <Input
+                    placeholder="City"
+                    value={form.city}
+                    onChangeText={(city) => updateForm({ city })}
+                    className="flex-1"
+                  />
+                  <Input
+                    placeholder="Postcode"
+                    value={form.postal_code}
+                    onChangeText={(postal_code) => updateForm({ postal_code })}
+                    autoCapitalize="characters"
+                    className="flex-1"
+                  />
+                </View>
+                <Input
+                  placeholder="Country"
+                  value={form.country}
+                  onChangeText={(country) => updateForm({ country })}
+                />
+
+                <TouchableOpacity
+                  onPress={() => updateForm({ is_default: !form.is_default })}
+                  className="flex-row items-center gap-2"
+                >
+                  <Ionicons
+                    name={form.is_default ? 'checkbox' : 'square-outline'}
+                    size={20}
+                    color={form.is_default ? colors.primary : colors.mutedForeground}
+                  />
+                  <Text className="text-foreground">Use as my default address</Text>
+                </TouchableOpacity>
+
+                <View className="flex-row gap-2 mt-1">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    disabled={saveAddress.isPending}
+                    onPress={() => setForm(null)}
+                  >
+                    <Text>Cancel</Text>
+                  </Button>
+                  <Button className="flex-1" disabled={saveAddress.isPending} onPress={handleSave}>
+                    <Text className="text-primary-foreground font-semibold">
+                      {saveAddress.isPending ? 'Checking address...' : 'Save'}
+                    </Text>
+                  </Button>
+                </View>
+              </CardContent>
+            </Card>
+          ) : null}
+
+          {isLoading ? (
+            <>
+              <AddressSkeleton />
+              <AddressSkeleton />
+            </>
+          ) : addresses.length === 0 && !form ? (
+            <View className="items-center py-12">
+              <Ionicons name="location-outline" size={48} color={colors.mutedForeground} />
+              <Text className="text-xl font-semibold text-foreground mt-4 mb-2">No saved addresses</Text>
+              <Text className="text-muted-foreground text-center">
+                Save your home, work or other places to book house calls faster
+              </Text>
+            </View>
+          ) : (
+            addresses.map((address) => {
+              const icon = ADDRESS_LABELS.find((item) => item.value === address.label)?.icon || 'location';
+
+              return (
+                <Card key={address.id} className="mb-3">
+                  <CardContent className="p-4">
+                    <View className="flex-row items-center">
+                      <View className="w-10 h-10 rounded-full bg-muted items-center justify-center">
+                        <Ionicons name={icon} size={20} color={colors.primary} />
+                      </View>
+                      <View className="flex-1 ml-3">
+                        <Text className="font-semibold text-foreground">{address.title}</Text>
+                        <Text variant="small" className="text-muted-foreground">
+                          {formatAddress(address)}
+                        </Text>
+                      </View>
+                      {address.is_default && (
+                        <Badge variant="secondary">
+                          <Text>Default</Text>
+                        </Badge>
+                      )}
+                    </View>
+
+                    <View className="flex-row gap-2 mt-3">
+                      {!address.is_default && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex-1"
+                          disabled={isBusy}
+                          onPress={() => handleSetDefault(address)}
+                        >
+                          <Text>Make Default</Text>
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="flex-1"
+                        disabled={isBusy}
+                        onPress={() => handleEdit(address)}
+                      >
+                        <Text>Edit</Text>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="flex-1"
+                        disabled={isBusy}
+                        onPress={() => handleDelete(address)}
+                      >
+                        <Text className="text-destructive">Delete</Text>
+                      </Button>
+                    </View>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+
+          {!form && (
+            <Button onPress={() => setForm({ ...EMPTY_FORM })} className="mt-2 h-12">
+              <Text className="text-primary-foreground font-semibold">Add Address</Text>
+            </Button>
+          )}
+
+          <View className="flex-row items-start mt-6 mb-8">
+            <Ionicons name="navigate-circle-outline" size={16} color={colors.mutedForeground} />
+            <Text variant="small" className="text-muted-foreground ml-2 flex-1">
+              Addresses are checked on a map when saved so providers can see how far they need to travel.
+            </Text>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,22 @@
+import React from 'react';
+import { View, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Text } from '@/components/ui/text';
+import { DeleteAccountView } from '@/components/account';
+
+export default function CustomerDeleteAccountScreen() {
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={['top']}>
+      <View className="flex-row items-center px-4 py-4 border-b border-border">
+        <TouchableOpacity onPress={() => router.back()} className="w-8 h-8 justify-center">
+          <Ionicons name="chevron-back" size={24} color="#6b7280" />
+        </TouchableOpacity>
+        <Text className="flex-1 text-xl font-bold text-foreground ml-2">Delete Account</Text>
+      </View>
+
+      <DeleteAccountView role="customer" />
+    </SafeAreaView>
+  );
+}
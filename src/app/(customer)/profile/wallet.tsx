@@ -0,0 +1,193 @@
+import React from 'react';
+import { View, ScrollView, RefreshControl, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { ChevronLeft } from 'lucide-react-native';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useColorScheme } from '@/lib/core/useColorScheme';
+import { THEME } from '@/lib/theme';
+import {
+  usePaymentMethods,
+  useAddPaymentMethod,
+  useSetDefaultPaymentMethod,
+  useRemovePaymentMethod,
+  isCardExpired,
+  formatCardLabel,
+  type SavedPaymentMethod,
+} from '@/hooks/customer/usePaymentMethods';
+
+const WalletSkeleton = () => (
+  <Card className="mb-3">
+    <CardContent className="p-4 flex-row items-center gap-3">
+      <Skeleton className="w-10 h-10 rounded-full" />
+      <View className="flex-1">
+        <Skeleton className="w-32 h-5 mb-1" />
+        <Skeleton className="w-20 h-3" />
+      </View>
+    </CardContent>
+  </Card>
+);
+
+export default function WalletScreen() {
+  const { isDarkColorScheme } = useColorScheme();
+  const colors = isDarkColorScheme ? THEME.dark : THEME.light;
+  const [refreshing, setRefreshing] = React.useState(false);
+
+  const { data: methods = [], isLoading, refetch } = usePaymentMethods();
+  const addMethod = useAddPaymentMethod();
+  const setDefault = useSetDefaultPaymentMethod();
+  const removeMethod = useRemovePaymentMethod();
+
+  const onRefresh = React.useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await refetch();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [refetch]);
+
+  const handleAdd = () => {
+    addMethod.mutate(undefined, {
+      onSuccess: (added) => {
+        if (added) Alert.alert('Card Added', 'Your card has been saved for faster checkout.');
+      },
+      onError: (error) => Alert.alert('Could Not Add Card', error.message),
+    });
+  };
+
+  const handleSetDefault = (method: SavedPaymentMethod) => {
+    setDefault.mutate(method.stripe_payment_method_id, {
+      onError: (error) => Alert.alert('Error', error.message),
+    });
+  };
+
+  const handleRemove = (method: SavedPaymentMethod) => {
+    Alert.alert(
+      'Remove Card',
+      `Remove ${formatCardLabel(method)} from your wallet?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => removeMethod.mutate(method.stripe_payment_method_id, {
+            onError: (error) => Alert.alert('Could Not Remove Card', error.message),
+          }),
+        },
+      ]
+    );
+  };
+
+  const isBusy = setDefault.isPending || removeMethod.isPending;
+
+  return (
+    <SafeAreaView className="flex-1 bg-background">
+      {/* Header */}
+      <View className="flex-row items-center px-4 py-3 border-b border-border">
+        <Button
+          variant="ghost"
+          size="sm"
+          onPress={() => router.push('/(customer)/profile')}
+          className="mr-2"
+        >
+          <ChevronLeft size={20} color={colors.foreground} />
+        </Button>
+        <Text variant="h3" className="flex-1">Payment Methods</Text>
+      </View>
+
+      <ScrollView
+        className="flex-1 p-4"
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.primary} />
+        }
+      >
+        {isLoading ? (
+          <>
+            <WalletSkeleton />
+            <WalletSkeleton />
+          </>
+        ) : methods.length === 0 ? (
+          <View className="items-center py-12">
+            <Ionicons name="card-outline" size={48} color={colors.mutedForeground} />
+            <Text className="text-xl font-semibold text-foreground mt-4 mb-2">No saved cards</Text>
+            <Text className="text-muted-foreground text-center">
+              Save a card to pay for bookings in one tap
+            </Text>
+          </View>
+        ) : (
+          methods.map((method) => {
+            const expired = isCardExpired(method);
+
+            return (
+              <Card key={method.id} className="mb-3">
+                <CardContent className="p-4">
+                  <View className="flex-row items-center">
+                    <View className="w-10 h-10 rounded-full bg-muted items-center justify-center">
+                      <Ionicons name="card" size={20} color={colors.primary} />
+                    </View>
+                    <View className="flex-1 ml-3">
+                      <Text className="font-semibold text-foreground">{formatCardLabel(method)}</Text>
+                      {method.exp_month && method.exp_year && (
+                        <Text variant="small" className={expired ? 'text-destructive' : 'text-muted-foreground'}>
+                          {expired ? 'Expired' : 'Expires'} {String(method.exp_month).padStart(2, '0')}/{String(method.exp_year).slice(-2)}
+                        </Text>
+                      )}
+                    </View>
+                    {method.is_default && (
+                      <Badge variant="secondary">
+                        <Text>Default</Text>
+                      </Badge>
+                    )}
+                  </View>
+
+                  <View className="flex-row gap-2 mt-3">
+                    {!method.is_default && !expired && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        disabled={isBusy}
+                        onPress={() => handleSetDefault(method)}
+                      >
+                        <Text>Make Default</Text>
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="flex-1"
+                      disabled={isBusy}
+                      onPress={() => handleRemove(method)}
+                    >
+                      <Text className="text-destructive">Remove</Text>
+                    </Button>
+                  </View>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+
+        <Button onPress={handleAdd} disabled={addMethod.isPending} className="mt-2 h-12">
+          <Text className="text-primary-foreground font-semibold">
+            {addMethod.isPending ? 'Opening...' : 'Add Card'}
+          </Text>
+        </Button>
+
+        <View className="flex-row items-start mt-6 mb-8">
+          <Ionicons name="shield-checkmark" size={16} color={colors.mutedForeground} />
+          <Text variant="small" className="text-muted-foreground ml-2 flex-1">
+            Cards are stored securely by Stripe. ZOVA never sees your full card number.
+          </Text>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -1,8 +1,9 @@
 /**
  * SOS Emergency Booking Screen
  * 
- * Streamlined emergency booking flow for customers with active SOS subscriptions.
- * Features immediate provider matching, instant booking, and emergency context collection.
+ * Streamlined emergency booking flow. SOS subscribers use their monthly allowance;
+ * everyone else (and subscribers past it) can pay per use. The request is broadcast to the nearest available providers and booked with
+ * whoever accepts first - paid with the customer's default wallet card.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -12,21 +13,17 @@ import { router } from 'expo-router';
 import { Text } from '@/components/ui/text';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Icon } from '@/components/ui/icon';
-import { useStripe } from '@stripe/stripe-react-native';
-import { supabase } from '@/lib/supabase';
 import { 
   Shield, 
   Clock, 
-  MapPin, 
   AlertTriangle, 
   Scissors,
   ChevronRight,
+  CreditCard,
   Star,
   Camera,
   Calendar,
@@ -40,12 +37,16 @@ import {
 } from 'lucide-react-native';
 
 // Hooks
-import { useAuthStore } from '@/stores/auth';
-import { useCustomerSOSStatus } from '@/hooks/shared/useSubscription';
-import { useSOSProviders } from '@/hooks/customer/useSOSProviders';
-import { useCreateSOSBooking } from '@/hooks/customer/useCreateSOSBooking';
+import { useCreateSOSRequest, useSOSEntitlement } from '@/hooks/customer/useSOSRequest';
+import { useDefaultPaymentMethod, formatCardLabel } from '@/hooks/customer/usePaymentMethods';
 import { useLocationPermission } from '@/hooks/shared/useLocation';
 import { useSOSSubcategories } from '@/hooks/customer/useSOSCategories';
+import { useAddresses, formatAddress } from '@/hooks/customer/useAddresses';
+
+import { SOS_PAY_PER_USE } from '@/lib/payment/subscription-config';
+
+// Components
+import { AddressPicker } from '@/components/customer/booking/address-picker';
 
 /**
  * Helper function to get appropriate icon for each service subcategory
@@ -106,13 +107,12 @@ function getUrgencyColor(urgency: 'low' | 'medium' | 'high') {
 
 export default function SOSBookingScreen() {
   // ✅ Following React Query + Zustand architecture
-  const user = useAuthStore((state) => state.user);
-  const { hasSubscription, isLoading: subscriptionLoading } = useCustomerSOSStatus();
+  // Subscription allowance left this month, or the pay-per-use fee
+  const { data: entitlement, isLoading: entitlementLoading } = useSOSEntitlement();
   const { hasPermission, requestPermission } = useLocationPermission();
   
-  // Stripe payment processing
-  const { initPaymentSheet, presentPaymentSheet } = useStripe();
-  const [isProcessingPayment, setIsProcessingPayment] = useState(false);
+  // The provider who accepts is paid with the default wallet card
+  const { data: defaultCard, isLoading: cardLoading } = useDefaultPaymentMethod();
   
   // Fetch real SOS categories from database
   const { data: sosSubcategories, isLoading: categoriesLoading, error: categoriesError } = useSOSSubcategories();
@@ -120,31 +120,21 @@ export default function SOSBookingScreen() {
   // Form state - minimal for emergency booking
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [emergencyDescription, setEmergencyDescription] = useState('');
-  const [currentAddress, setCurrentAddress] = useState('');
-  const [isAddressConfirmed, setIsAddressConfirmed] = useState(false);
-  
-  // SOS provider matching and booking
-  const { 
-    data: availableProviders, 
-    isLoading: providersLoading,
-    refetch: refetchProviders 
-  } = useSOSProviders(selectedCategory, currentAddress);
-  
-  const createSOSBookingMutation = useCreateSOSBooking();
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+
+  // Saved (geocoded) addresses - the default is preselected so help can be sent straight away
+  const { data: savedAddresses = [], isLoading: addressesLoading } = useAddresses();
+  const selectedAddress = savedAddresses.find((item) => item.id === selectedAddressId) || null;
+  const currentAddress = selectedAddress ? formatAddress(selectedAddress) : '';
 
-  // Check subscription access
   useEffect(() => {
-    if (!subscriptionLoading && !hasSubscription) {
-      Alert.alert(
-        'SOS Access Required',
-        'You need an active SOS subscription to access emergency booking. Would you like to subscribe?',
-        [
-          { text: 'Cancel', onPress: () => router.back() },
-          { text: 'Subscribe', onPress: () => router.push('/(customer)/subscriptions') }
-        ]
-      );
+    if (!selectedAddressId && savedAddresses.length > 0) {
+      setSelectedAddressId((savedAddresses.find((item) => item.is_default) || savedAddresses[0]).id);
     }
-  }, [hasSubscription, subscriptionLoading]);
+  }, [savedAddresses, selectedAddressId]);
+  
+  // Broadcast to nearby providers - first to accept is booked
+  const createSOSRequestMutation = useCreateSOSRequest();
 
   // Request location permission on mount
   useEffect(() => {
@@ -154,140 +144,94 @@ export default function SOSBookingScreen() {
   }, [hasPermission, requestPermission]);
 
   const handleCategorySelect = (categoryId: string) => {
-    console.log('📋 [SOSBooking] handleCategorySelect called with:', categoryId);
-    console.log('📋 [SOSBooking] Current selectedCategory:', selectedCategory);
-    console.log('📋 [SOSBooking] Current address:', currentAddress);
-    
     setSelectedCategory(categoryId);
-    
-    // Trigger provider search when category selected
-    if (currentAddress) {
-      console.log('📋 [SOSBooking] Refetching providers for category:', categoryId);
-      refetchProviders();
-    } else {
-      console.log('📋 [SOSBooking] No address set, not fetching providers yet');
-    }
   };
 
-  const handleCreateSOSBooking = async (providerId: string) => {
-    if (!selectedCategory || !emergencyDescription.trim() || !currentAddress.trim()) {
+  const isPayPerUse = entitlement?.nextRequest === 'pay_per_use';
+  const payPerUseFee = `£${((entitlement?.payPerUseFee ?? SOS_PAY_PER_USE.amount) / 100).toFixed(2)}`;
+
+  // Pay-per-use requests need the customer's agreement to the fee first
+  const confirmPayPerUse = (reason: string) => {
+    Alert.alert(
+      SOS_PAY_PER_USE.displayName,
+      `${reason}. You can still send this request for ${payPerUseFee}, added to the booking price once a provider accepts.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'See SOS Plans', onPress: () => router.push('/(customer)/subscriptions') },
+        { text: `Pay ${payPerUseFee}`, onPress: () => sendSOS(true) }
+      ]
+    );
+  };
+
+  const handleSendSOS = () => {
+    if (!selectedCategory || !emergencyDescription.trim() || !selectedAddress) {
       Alert.alert('Missing Information', 'Please fill in all required fields');
       return;
     }
 
-    setIsProcessingPayment(true);
-
-    try {
-      // Step 1: Get service price for payment calculation
-      const selectedService = sosSubcategories?.find(c => c.id === selectedCategory);
-      const baseAmount = 50.00; // Default emergency service price
-      const depositAmount = baseAmount; // Full payment for SOS bookings
-
-      console.log('[SOS Payment] Creating payment intent for emergency booking...');
-      
-      // Step 2: Create payment intent
-      const { data: paymentData, error: paymentError } = await supabase.functions.invoke('create-payment-intent', {
-        body: {
-          amount: Math.round(depositAmount * 100), // Convert to cents
-          currency: 'gbp',
-          serviceId: selectedCategory, // Use category as service reference
-          providerId: providerId,
-        },
-      });
-
-      if (paymentError) {
-        console.error('[SOS Payment] Payment intent creation failed:', paymentError);
-        Alert.alert('Payment Error', `Payment setup failed: ${paymentError.message || 'Unknown error'}`);
-        setIsProcessingPayment(false);
-        return;
-      }
-
-      const { clientSecret, paymentIntentId } = paymentData;
-      if (!clientSecret || !paymentIntentId) {
-        Alert.alert('Payment Error', 'Payment setup failed: Missing payment details');
-        setIsProcessingPayment(false);
-        return;
-      }
-
-      console.log('[SOS Payment] Initializing payment sheet...');
-      
-      // Step 3: Initialize Payment Sheet
-      const { error: initError } = await initPaymentSheet({
-        paymentIntentClientSecret: clientSecret,
-        merchantDisplayName: 'ZOVA Emergency Services',
-        returnURL: 'zova://payment-return',
-      });
-
-      if (initError) {
-        console.error('[SOS Payment] Payment sheet initialization failed:', initError);
-        Alert.alert('Payment Error', initError.message);
-        setIsProcessingPayment(false);
-        return;
-      }
-
-      // Step 4: Present Payment Sheet
-      console.log('[SOS Payment] Presenting payment sheet...');
-      const { error: sheetError } = await presentPaymentSheet();
+    if (isPayPerUse) {
+      confirmPayPerUse(entitlement?.source
+        ? 'You\'ve used all the SOS requests included in your subscription this month'
+        : 'You don\'t have an SOS subscription');
+      return;
+    }
 
-      if (sheetError) {
-        console.error('[SOS Payment] Payment cancelled or failed:', sheetError);
-        Alert.alert('Payment Cancelled', 'Emergency booking requires payment to proceed.');
-        setIsProcessingPayment(false);
-        return;
-      }
+    sendSOS(false);
+  };
 
-      console.log('[SOS Payment] Payment successful, creating emergency booking...');
+  const sendSOS = async (acceptPayPerUse: boolean) => {
+    if (!selectedAddress) return;
 
-      // Step 5: Create SOS booking with payment confirmation
-      const booking = await createSOSBookingMutation.mutateAsync({
-        providerId,
+    try {
+      const request = await createSOSRequestMutation.mutateAsync({
         categoryId: selectedCategory,
         emergencyDescription: emergencyDescription.trim(),
-        serviceLocation: currentAddress.trim(),
+        serviceAddressId: selectedAddress.id,
         urgencyLevel: (sosSubcategories?.find(c => c.id === selectedCategory)?.urgency || 'medium') as 'low' | 'medium' | 'high',
-        paymentIntentId: paymentIntentId // Include payment confirmation
+        acceptPayPerUse,
       });
 
-      console.log('[SOS Payment] Emergency booking created successfully:', booking.id);
-
-      // Navigate to emergency booking confirmation
+      // Live search status - providers are being notified
       router.replace({
         pathname: '/(customer)/booking/sos-confirmation' as any,
-        params: {
-          bookingId: booking.id,
-          providerId: booking.provider_id,
-          estimatedArrival: booking.estimated_arrival || '15-30 minutes',
-          totalAmount: depositAmount.toString(),
-          paymentStatus: 'paid'
-        }
+        params: { requestId: request.id }
       });
     } catch (error) {
-      console.error('[SOS Payment] Emergency booking error:', error);
-      Alert.alert('Booking Failed', 'Unable to create emergency booking. Please try again.');
-    } finally {
-      setIsProcessingPayment(false);
+      const { code, message } = error as Error & { code?: string };
+
+      // The allowance ran out since it was loaded
+      if (code === 'PAY_PER_USE_REQUIRED') {
+        confirmPayPerUse(message);
+        return;
+      }
+
+      if (code === 'NO_PAYMENT_METHOD') {
+        Alert.alert('Add a Card', message, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Open Wallet', onPress: () => router.push('/(customer)/profile/wallet' as any) }
+        ]);
+        return;
+      }
+
+      console.error('[SOSBooking] Emergency request error:', error);
+      Alert.alert('Request Failed', message || 'Unable to send your emergency request. Please try again.');
     }
   };
 
-  // Show loading while checking subscription or loading categories
-  if (subscriptionLoading || categoriesLoading) {
+  // Show loading while checking the SOS allowance or loading categories
+  if (entitlementLoading || categoriesLoading) {
     return (
       <SafeAreaView className="flex-1 bg-background">
         <View className="flex-1 justify-center items-center">
           <Icon as={Shield} size={48} className="text-destructive mb-4" />
           <Text className="text-lg font-semibold">
-            {subscriptionLoading ? 'Accessing SOS Mode...' : 'Loading emergency services...'}
+            {entitlementLoading ? 'Accessing SOS Mode...' : 'Loading emergency services...'}
           </Text>
         </View>
       </SafeAreaView>
     );
   }
 
-  // Don't render if no subscription (handled by useEffect)
-  if (!hasSubscription) {
-    return null;
-  }
-
   return (
     <SafeAreaView className="flex-1 bg-background" edges={['top']}>
       <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
@@ -453,32 +397,16 @@ export default function SOSBookingScreen() {
                 <Text className="text-muted-foreground text-sm">Where do you need the service?</Text>
               </View>
               <View className="gap-4">
-                <View className="flex-row items-center gap-3 p-3 border border-border rounded-xl bg-muted/30">
-                  <Icon as={MapPin} size={18} className="text-muted-foreground" />
-                  <Input
-                    placeholder="Enter your full address"
-                    value={currentAddress}
-                    onChangeText={setCurrentAddress}
-                    className="flex-1 border-0 bg-transparent p-0 text-base"
-                  />
-                </View>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onPress={() => {
-                    // TODO: Implement current location detection
-                    setCurrentAddress('123 Main St, London, UK');
-                    setIsAddressConfirmed(true);
-                  }}
-                  className="self-start flex-row items-center gap-2"
-                >
-                  <Icon as={MapPin} size={14} className="text-foreground" />
-                  <Text className="text-foreground font-medium">Use Current Location</Text>
-                </Button>
+                <AddressPicker
+                  addresses={savedAddresses}
+                  selectedId={selectedAddressId}
+                  onSelect={(item) => setSelectedAddressId(item.id)}
+                  isLoading={addressesLoading}
+                />
                 {currentAddress && (
                   <View className="bg-success/10 p-3 rounded-xl border border-success/20">
                     <Text className="text-green-700 dark:text-green-300 text-sm font-medium">
-                      ✓ Location confirmed - Searching for nearby providers
+                      ✓ Location confirmed
                     </Text>
                   </View>
                 )}
@@ -486,210 +414,78 @@ export default function SOSBookingScreen() {
             </View>
           )}
 
-          {/* Available Providers */}
+          {/* Send Request */}
           {selectedCategory && currentAddress && (
-            <View>
-              <View className="flex-row items-center justify-between mb-4">
-                <View>
-                  <Text className="text-lg font-semibold text-foreground mb-1">Available Now</Text>
-                  <Text className="text-muted-foreground text-sm">Emergency providers in your area</Text>
-                </View>
-                <Badge className="bg-success/10 border-success/20 px-3 py-2">
-                  <Text className="text-green-700 dark:text-green-300 font-semibold">
-                    {availableProviders?.length || 0} available
-                  </Text>
-                </Badge>
+            <View className="bg-card border border-border rounded-2xl p-4 gap-4">
+              <View>
+                <Text className="text-lg font-semibold text-foreground mb-1">Get Help Now</Text>
+                <Text className="text-muted-foreground text-sm">
+                  We'll alert the nearest available providers and widen the search if nobody answers. The first to accept is booked.
+                </Text>
               </View>
 
-                {providersLoading ? (
-                  <View className="gap-4">
-                    {[1, 2, 3].map(i => (
-                      <View key={i} className="border border-border bg-card rounded-2xl p-5 ">
-                          {/* Header Skeleton */}
-                          <View className="flex-row items-start gap-4 mb-4">
-                            <Skeleton className="w-16 h-16 rounded-full shrink-0" />
-                            <View className="flex-1 gap-2">
-                              <View className="flex-row items-center justify-between mb-1">
-                                <Skeleton className="w-32 h-5" />
-                                <Skeleton className="w-16 h-5 rounded-full" />
-                              </View>
-                              <Skeleton className="w-40 h-4" />
-                              <View className="flex-row items-center gap-2 mt-1">
-                                <Skeleton className="w-20 h-4" />
-                                <Skeleton className="w-24 h-3" />
-                              </View>
-                            </View>
-                          </View>
-                          
-                          {/* Stats Skeleton */}
-                          <View className="bg-muted/30 rounded-xl p-3 mb-4">
-                            <View className="flex-row justify-between items-center">
-                              <View className="flex-1 items-center gap-1">
-                                <Skeleton className="w-12 h-3" />
-                                <Skeleton className="w-16 h-4" />
-                              </View>
-                              <View className="flex-1 items-center gap-1">
-                                <Skeleton className="w-10 h-3" />
-                                <Skeleton className="w-8 h-4" />
-                              </View>
-                              <View className="flex-1 items-center gap-1">
-                                <Skeleton className="w-8 h-3" />
-                                <Skeleton className="w-12 h-4" />
-                              </View>
-                            </View>
-                          </View>
-                          
-                          {/* Status Skeleton */}
-                          <View className="flex-row items-center justify-between mb-4">
-                            <Skeleton className="w-24 h-4" />
-                            <Skeleton className="w-20 h-3" />
-                          </View>
-                          
-                          {/* Button Skeleton */}
-                          <Skeleton className="w-full h-12 rounded" />
-                      </View>
-                    ))}
+              <TouchableOpacity
+                onPress={() => router.push('/(customer)/profile/wallet' as any)}
+                activeOpacity={0.7}
+                className="flex-row items-center gap-3 p-3 rounded-xl bg-muted/30"
+              >
+                <Icon as={CreditCard} size={18} className="text-foreground" />
+                <View className="flex-1">
+                  {cardLoading ? (
+                    <Skeleton className="w-32 h-4" />
+                  ) : defaultCard ? (
+                    <>
+                      <Text className="text-sm font-medium text-foreground">{formatCardLabel(defaultCard)}</Text>
+                      <Text className="text-xs text-muted-foreground">Charged only once a provider accepts</Text>
+                    </>
+                  ) : (
+                    <>
+                      <Text className="text-sm font-medium text-destructive">No card in your wallet</Text>
+                      <Text className="text-xs text-muted-foreground">Add one so the provider can be paid straight away</Text>
+                    </>
+                  )}
+                </View>
+                <Icon as={ChevronRight} size={16} className="text-muted-foreground" />
+              </TouchableOpacity>
+
+              {entitlement && (
+                <View className="flex-row items-center gap-3 p-3 rounded-xl bg-muted/30">
+                  <Icon as={isPayPerUse ? AlertTriangle : Shield} size={18} className={isPayPerUse ? 'text-orange-500' : 'text-foreground'} />
+                  <View className="flex-1">
+                    {isPayPerUse ? (
+                      <>
+                        <Text className="text-sm font-medium text-foreground">
+                          {SOS_PAY_PER_USE.displayName} • {payPerUseFee}
+                        </Text>
+                        <Text className="text-xs text-muted-foreground">
+                          {entitlement.source ? 'Monthly SOS allowance used up' : 'Added to the booking price'}
+                        </Text>
+                      </>
+                    ) : (
+                      <>
+                        <Text className="text-sm font-medium text-foreground">Included in your SOS plan</Text>
+                        <Text className="text-xs text-muted-foreground">
+                          {entitlement.remaining} of {entitlement.included} SOS requests left this month
+                        </Text>
+                      </>
+                    )}
                   </View>
-                ) : availableProviders && availableProviders.length > 0 ? (
-                  <View className="gap-4">
-                    {availableProviders.map((provider) => (
-                      <View key={provider.id} className="border border-border bg-card rounded-2xl p-5 ">
-                          {/* Header Section */}
-                          <View className="flex-row items-start gap-4 mb-4">
-                            <View className="relative shrink-0">
-                              <Avatar alt={provider.name || 'Provider'} className="w-16 h-16">
-                                <AvatarImage source={{ uri: provider.avatar_url }} />
-                                <AvatarFallback className="bg-primary">
-                                  <Text className="text-primary-foreground font-bold text-xl">
-                                    {provider.name?.charAt(0) || 'P'}
-                                  </Text>
-                                </AvatarFallback>
-                              </Avatar>
-                              {provider.is_verified && (
-                                <View className="absolute -top-1 -right-1 w-6 h-6 bg-success rounded-full items-center justify-center border-2 border-card">
-                                  <Text className="text-white text-xs font-bold">✓</Text>
-                                </View>
-                              )}
-                            </View>
-
-                            <View className="flex-1 min-w-0">
-                              <View className="flex-row items-center justify-between mb-1">
-                                <Text className="font-bold text-foreground text-lg" numberOfLines={1}>
-                                  {provider.name}
-                                </Text>
-                                <Badge variant="secondary" className="shrink-0">
-                                  <Text className="text-xs font-medium">
-                                    {provider.distance_km ? `${provider.distance_km}km` : '0.5km'} away
-                                  </Text>
-                                </Badge>
-                              </View>
-
-                              <Text className="text-muted-foreground text-sm mb-2" numberOfLines={1}>
-                                Emergency Service Provider
-                              </Text>
-
-                              <View className="flex-row items-center gap-1 mb-2">
-                                <Icon as={Star} size={14} className="text-yellow-500" />
-                                <Text className="text-sm font-semibold text-foreground">
-                                  {provider.rating || 'N/A'}
-                                </Text>
-                                <Text className="text-xs text-muted-foreground">
-                                  {provider.review_count ? `(${provider.review_count} reviews)` : '(No reviews)'}
-                                </Text>
-                              </View>
-                            </View>
-                          </View>
-
-                          {/* Stats Section */}
-                          <View className="flex-row justify-between items-center mb-4 bg-muted/30 rounded-xl p-3">
-                            <View className="flex-1 items-center">
-                              <View className="flex-row items-center gap-1 mb-1">
-                                <Icon as={Clock} size={14} className="text-green-600 dark:text-green-400" />
-                                <Text className="text-xs font-medium text-muted-foreground">Arrival</Text>
-                              </View>
-                              <Text className="text-sm font-bold text-green-600 dark:text-green-400">
-                                {provider.estimated_arrival || '10-15 min'}
-                              </Text>
-                            </View>
-                            
-                            <View className="w-px h-8 bg-border" />
-                            
-                            <View className="flex-1 items-center">
-                              <View className="flex-row items-center gap-1 mb-1">
-                                <Icon as={Shield} size={14} className="text-blue-600 dark:text-blue-400" />
-                                <Text className="text-xs font-medium text-muted-foreground">Jobs</Text>
-                              </View>
-                              <Text className="text-sm font-bold text-foreground">
-                                {provider.completed_jobs || 89}
-                              </Text>
-                            </View>
-                            
-                            <View className="w-px h-8 bg-border" />
-                            
-                            <View className="flex-1 items-center">
-                              <View className="flex-row items-center gap-1 mb-1">
-                                <Text className="text-xs font-medium text-muted-foreground">Price</Text>
-                              </View>
-                              <Text className="text-sm font-bold text-foreground">
-                                £45/hr
-                              </Text>
-                            </View>
-                          </View>
-
-                          {/* Availability Status */}
-                          <View className="flex-row items-center justify-between mb-4">
-                            <View className="flex-row items-center gap-2">
-                              <View className="w-2 h-2 bg-success rounded-full" />
-                              <Text className="text-xs font-medium text-green-600 dark:text-green-400">
-                                {provider.emergency_available ? 'Available Now' : 'Busy - Call for Emergency'}
-                              </Text>
-                            </View>
-                            <Text className="text-xs text-muted-foreground">
-                              {provider.is_verified ? 'Verified Provider' : 'Pending Verification'}
-                            </Text>
-                          </View>
+                </View>
+              )}
 
-                          {/* Action Button */}
-                          <Button
-                            onPress={() => handleCreateSOSBooking(provider.id)}
-                            disabled={createSOSBookingMutation.isPending || isProcessingPayment}
-                            className="bg-destructive hover:bg-destructive/90 w-full"
-                            size="lg"
-                          >
-                            <View className="flex-row items-center justify-center gap-2">
-                              <Icon as={Shield} size={18} className="text-destructive-foreground" />
-                              <Text className="text-destructive-foreground font-bold text-base">
-                                {isProcessingPayment 
-                                  ? 'Processing Payment...'
-                                  : createSOSBookingMutation.isPending 
-                                  ? 'Creating Emergency Booking...' 
-                                  : 'Book Emergency Service - £50'
-                                }
-                              </Text>
-                            </View>
-                          </Button>
-                      </View>
-                    ))}
-                  </View>
-                ) : (
-                  <View className="border border-yellow-500/30 bg-yellow-50/30 dark:bg-yellow-950/20 rounded-2xl p-6">
-                    <View className="items-center">
-                      <View className="w-16 h-16 bg-yellow-100 dark:bg-yellow-900/30 rounded-2xl items-center justify-center mb-4">
-                        <Icon as={AlertTriangle} size={28} className="text-yellow-600 dark:text-yellow-400" />
-                      </View>
-                      <Text className="font-bold text-foreground mb-2 text-lg text-center">No providers available right now</Text>
-                      <Text className="text-muted-foreground mb-4 text-center">
-                        We're actively searching for emergency providers in your area. This usually takes just a few minutes.
-                      </Text>
-                      <Button variant="outline" onPress={() => refetchProviders()}>
-                        <Text className="text-foreground font-medium">Refresh Search</Text>
-                      </Button>
-                      <Text className="text-xs text-muted-foreground mt-3 text-center">
-                        💡 Tip: Try expanding your service area or check back in a few minutes
-                      </Text>
-                    </View>
-                  </View>
-                )}
+              <Button
+                onPress={handleSendSOS}
+                disabled={createSOSRequestMutation.isPending || !emergencyDescription.trim()}
+                className="bg-destructive hover:bg-destructive/90 w-full"
+                size="lg"
+              >
+                <View className="flex-row items-center justify-center gap-2">
+                  <Icon as={Shield} size={18} className="text-destructive-foreground" />
+                  <Text className="text-destructive-foreground font-bold text-base">
+                    {createSOSRequestMutation.isPending ? 'Alerting Providers...' : 'Send SOS to Nearby Providers'}
+                  </Text>
+                </View>
+              </Button>
             </View>
           )}
         </View>
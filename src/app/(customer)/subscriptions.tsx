@@ -17,6 +17,8 @@ import {
   findIncompleteSubscription,
   type UserSubscription
 } from '@/hooks/shared/useSubscription';
+import { useSOSEntitlement } from '@/hooks/customer/useSOSRequest';
+import { SUBSCRIPTION_PRODUCTS, SOS_PAY_PER_USE } from '@/lib/payment/subscription-config';
 import { Shield, Calendar, CreditCard, CheckCircle, Clock, Zap, Star, Sparkles, ArrowRight, Lock, AlertCircle, Users } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useColorScheme } from '@/lib/core/useColorScheme';
@@ -313,6 +315,9 @@ function CustomerSubscriptionCard({ subscription }: { subscription: UserSubscrip
             </View>
           </View>
 
+          {/* SOS Usage This Period */}
+          <SOSUsageMeter />
+
           {/* Billing Information */}
           <View className="flex-row items-center gap-3 p-4 bg-card/50 border border-border/50 rounded-xl mb-5">
             <View className="w-10 h-10 bg-primary/10 rounded-lg items-center justify-center">
@@ -380,6 +385,37 @@ function CustomerSubscriptionCard({ subscription }: { subscription: UserSubscrip
   );
 }
 
+/**
+ * SOS requests used against the plan's allowance this billing period
+ */
+function SOSUsageMeter() {
+  const { data: entitlement } = useSOSEntitlement();
+  const included = entitlement?.included || SUBSCRIPTION_PRODUCTS.CUSTOMER_SOS.limits.sosRequestsPerPeriod;
+  const used = Math.min(entitlement?.used || 0, included);
+
+  return (
+    <View className="p-4 bg-card/50 border border-border/50 rounded-xl mb-5">
+      <View className="flex-row items-center justify-between mb-3">
+        <Text className="text-xs text-muted-foreground">SOS requests this month</Text>
+        <Text className="text-sm font-bold text-foreground">
+          {entitlement ? `${used} of ${included} used` : '—'}
+        </Text>
+      </View>
+      <View className="h-2 bg-muted rounded-full overflow-hidden">
+        <View
+          className={cn('h-full rounded-full', used >= included ? 'bg-warning' : 'bg-destructive')}
+          style={{ width: `${(used / included) * 100}%` }}
+        />
+      </View>
+      {entitlement?.nextRequest === 'pay_per_use' && (
+        <Text className="text-xs text-muted-foreground mt-3">
+          Allowance used up - further requests this month are £{(entitlement.payPerUseFee / 100).toFixed(2)} each
+        </Text>
+      )}
+    </View>
+  );
+}
+
 function CustomerAvailablePlanCard() {
   const priceInfo = useSubscriptionPrice('CUSTOMER_SOS');
   const { isDarkColorScheme } = useColorScheme();
@@ -432,7 +468,7 @@ function CustomerAvailablePlanCard() {
           {/* Key Features */}
           <View className="gap-3 mb-6">
             {[
-              { icon: Zap, text: 'Emergency booking access' },
+              { icon: Zap, text: `${SUBSCRIPTION_PRODUCTS.CUSTOMER_SOS.limits.sosRequestsPerPeriod} SOS requests included every month` },
               { icon: Clock, text: '24/7 priority support' },
               { icon: CheckCircle, text: 'Instant confirmations' },
               { icon: Star, text: 'Priority provider matching' }
@@ -457,6 +493,9 @@ function CustomerAvailablePlanCard() {
           <Text className="text-xs text-muted-foreground text-center mt-4">
             Cancel anytime • No setup fees • Instant activation
           </Text>
+          <Text className="text-xs text-muted-foreground text-center mt-1">
+            Not ready to subscribe? SOS is £{(SOS_PAY_PER_USE.amount / 100).toFixed(2)} per request without a plan.
+          </Text>
         </CardContent>
       </Card>
     </Animated.View>
@@ -7,6 +7,9 @@ import { useColorScheme } from '@/lib/core/useColorScheme';
 import { THEME } from '@/lib/theme';
 import { useProviderLayoutGuards } from '@/hooks/routing/useLayoutGuards';
 import { Text } from '@/components/ui/text';
+import { useAuthStore } from '@/stores/auth';
+import { useUnreadMessageCount, useMessagesRealtime } from '@/hooks/shared/useMessages';
+import { useNotificationsRealtime } from '@/hooks/shared/useNotifications';
 
 /**
  * Minimal loading screen optimized for fast data loading
@@ -43,6 +46,12 @@ export default function ProviderLayout() {
   const { guardResult, isLoading, state } = useProviderLayoutGuards();
   const { isDarkColorScheme } = useColorScheme();
   const insets = useSafeAreaInsets();
+  const user = useAuthStore((state) => state.user);
+  const { data: unreadMessages = 0 } = useUnreadMessageCount(user?.id);
+
+  // ✅ Keep the Messages tab badge and notification bell live
+  useMessagesRealtime(user?.id);
+  useNotificationsRealtime(user?.id);
 
   console.log('[ProviderLayout] 🔐 Checking access...', { guardResult, isLoading });
 
@@ -107,6 +116,16 @@ export default function ProviderLayout() {
             ),
           }}
         />
+        <Tabs.Screen
+          name="messages"
+          options={{
+            title: 'Messages',
+            tabBarIcon: ({ color, size }) => (
+              <Ionicons name="chatbubble" size={size} color={color} />
+            ),
+            tabBarBadge: unreadMessages > 0 ? unreadMessages : undefined,
+          }}
+        />
         <Tabs.Screen
           name="earnings"
           options={{
@@ -137,6 +156,30 @@ export default function ProviderLayout() {
             href: null, // Hide from bottom tab
           }}
         />
+        <Tabs.Screen
+          name="profile/renew-document"
+          options={{
+            href: null, // Hide from bottom tab
+          }}
+        />
+        <Tabs.Screen
+          name="profile/delete-account"
+          options={{
+            href: null, // Hide from bottom tab
+          }}
+        />
+        <Tabs.Screen
+          name="messages/[id]"
+          options={{
+            href: null, // Hide from bottom tab
+          }}
+        />
+        <Tabs.Screen
+          name="notifications"
+          options={{
+            href: null, // Hide from bottom tab
+          }}
+        />
         <Tabs.Screen
           name="bookingdetail/[id]"
           options={{
@@ -12,6 +12,17 @@ import { useProviderBookingDetail } from '@/hooks/provider';
 import { useUpdateBookingStatus } from '@/hooks/shared/useBookings';
 import { useBookingActions } from '@/hooks/provider/useBookingActions';
 import { useProviderAccess } from '@/hooks/provider/useProviderAccess';
+import { useOpenBookingConversation } from '@/hooks/shared/useMessages';
+import {
+  useRescheduleBooking,
+  useRescheduleRealtime,
+  useRescheduleRequests,
+  type RescheduleRequest,
+} from '@/hooks/shared/useBookingReschedule';
+import { useBookingSeries, useManageBookingSeries } from '@/hooks/shared/useBookingSeries';
+import { canTrackBooking, useShareBookingLocation } from '@/hooks/shared/useBookingLiveLocation';
+import { useAuthStore } from '@/stores/auth';
+import { BookingSeriesCard, RescheduleRequestCard, RescheduleSlotPicker, ShareLocationCard } from '@/components/booking';
 import { useColorScheme } from '@/lib/core/useColorScheme';
 import { THEME } from '@/lib/theme';
 import { cn, formatCurrency } from '@/lib/utils';
@@ -35,6 +46,51 @@ export default function ProviderBookingDetailScreen() {
   } = useProviderBookingDetail(id);
 
   const updateBookingStatusMutation = useUpdateBookingStatus();
+  const openConversationMutation = useOpenBookingConversation();
+  const user = useAuthStore((state) => state.user);
+
+  // ✅ Rescheduling: customer proposals, accept / counter / decline
+  const { data: rescheduleRequests = [] } = useRescheduleRequests(id);
+  useRescheduleRealtime(id);
+  const rescheduleMutation = useRescheduleBooking();
+  const [counterRequest, setCounterRequest] = React.useState<RescheduleRequest | null>(null);
+
+  // 🔁 Recurring series - providers can see every visit and stop the series
+  const { data: bookingSeries } = useBookingSeries(booking?.seriesId);
+  const manageSeriesMutation = useManageBookingSeries();
+
+  // 📍 Opt-in live location for house calls / SOS - stops when the booking leaves in_progress
+  const canShareLocation = !!booking && canTrackBooking({
+    status: booking.status,
+    is_sos_booking: booking.isSosBooking,
+    service_address: booking.serviceAddress,
+  });
+  const liveLocation = useShareBookingLocation(id, canShareLocation);
+
+  const handleCancelSeries = () => {
+    if (!bookingSeries) return;
+
+    Alert.alert(
+      'Cancel Recurring Booking',
+      'No more visits will be booked for this customer. Upcoming visits that are already booked will be cancelled and fully refunded.',
+      [
+        { text: 'Keep Series', style: 'cancel' },
+        {
+          text: 'Cancel Series',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await manageSeriesMutation.mutateAsync({ action: 'cancel_series', seriesId: bookingSeries.id });
+              refetch();
+            } catch (error) {
+              console.error('Cancel series error:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
   const { 
     acceptBooking, 
     declineBooking, 
@@ -128,6 +184,55 @@ export default function ProviderBookingDetailScreen() {
     }
   };
 
+  const handleMessageCustomer = async () => {
+    if (!booking) return;
+
+    try {
+      const conversationId = await openConversationMutation.mutateAsync(booking.id);
+      router.push(`/(provider)/messages/${conversationId}` as any);
+    } catch (error) {
+      console.error('Open conversation error:', error);
+      Alert.alert('Error', 'Unable to open the conversation. Please try again.');
+    }
+  };
+
+  const handleRescheduleResponse = async (
+    action: 'accept' | 'decline' | 'withdraw',
+    request: RescheduleRequest
+  ) => {
+    if (!booking) return;
+
+    try {
+      await rescheduleMutation.mutateAsync({ action, bookingId: booking.id, requestId: request.id });
+      if (action === 'accept') {
+        Alert.alert('Booking Rescheduled', 'The booking has been moved and the customer has been notified.');
+      }
+    } catch (error) {
+      console.error('Reschedule response error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
+  const handleCounterReschedule = async (slot: { date: string; startTime: string; reason?: string }) => {
+    if (!booking || !counterRequest) return;
+
+    try {
+      await rescheduleMutation.mutateAsync({
+        action: 'counter',
+        bookingId: booking.id,
+        requestId: counterRequest.id,
+        newDate: slot.date,
+        newStartTime: slot.startTime,
+        reason: slot.reason,
+      });
+      setCounterRequest(null);
+      Alert.alert('Time Suggested', 'The customer has been asked to confirm your suggested time.');
+    } catch (error) {
+      console.error('Counter reschedule error:', error);
+      Alert.alert('Unable to Suggest Time', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
   const handleEmailCustomer = () => {
     if (booking?.customerEmail) {
       Linking.openURL(`mailto:${booking.customerEmail}`);
@@ -507,6 +612,29 @@ export default function ProviderBookingDetailScreen() {
               
               {/* Large Action Buttons */}
               <View className="gap-3">
+                <Pressable
+                  onPress={handleMessageCustomer}
+                  disabled={openConversationMutation.isPending}
+                  className="flex-row items-center gap-3 p-4 bg-primary/5 border border-primary/20 rounded-lg active:bg-primary/10"
+                >
+                  <View className="w-10 h-10 bg-primary/10 rounded-full items-center justify-center">
+                    <Ionicons name="chatbubbles" size={18} color={colors.primary} />
+                  </View>
+                  <View className="flex-1">
+                    <Text className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                      Message Customer
+                    </Text>
+                    <Text className="text-sm font-medium text-foreground">
+                      Chat about this booking in the app
+                    </Text>
+                  </View>
+                  {openConversationMutation.isPending ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <Ionicons name="chevron-forward" size={18} color={colors.mutedForeground} />
+                  )}
+                </Pressable>
+
                 {booking.customerPhone && (
                   <Pressable
                     onPress={handleCallCustomer}
@@ -550,6 +678,36 @@ export default function ProviderBookingDetailScreen() {
             </CardContent>
           </Card>
 
+          {/* Live location sharing */}
+          {canShareLocation && (
+            <ShareLocationCard
+              isSharing={liveLocation.isSharing}
+              error={liveLocation.error}
+              onToggle={(share) => (share ? liveLocation.startSharing() : liveLocation.stopSharing())}
+            />
+          )}
+
+          {/* Reschedule proposals */}
+          <RescheduleRequestCard
+            requests={rescheduleRequests}
+            viewerId={user?.id}
+            isBusy={rescheduleMutation.isPending}
+            onAccept={(request) => handleRescheduleResponse('accept', request)}
+            onDecline={(request) => handleRescheduleResponse('decline', request)}
+            onWithdraw={(request) => handleRescheduleResponse('withdraw', request)}
+            onCounter={setCounterRequest}
+          />
+
+          {/* Recurring series */}
+          {bookingSeries && (
+            <BookingSeriesCard
+              series={bookingSeries}
+              currentBookingId={booking.id}
+              isBusy={manageSeriesMutation.isPending}
+              onCancelSeries={handleCancelSeries}
+            />
+          )}
+
           {/* Booking Details - Modern Grid */}
           <Card className="mb-4">
             <CardHeader>
@@ -730,6 +888,20 @@ export default function ProviderBookingDetailScreen() {
           {getActionButtons()}
         </View>
       </ScrollView>
+
+      {user?.id && (
+        <RescheduleSlotPicker
+          visible={!!counterRequest}
+          providerId={user.id}
+          title="Suggest Another Time"
+          submitLabel="Send Suggestion"
+          currentDate={booking.bookingDate}
+          currentTime={booking.startTime}
+          isSubmitting={rescheduleMutation.isPending}
+          onClose={() => setCounterRequest(null)}
+          onSubmit={handleCounterReschedule}
+        />
+      )}
     </SafeAreaView>
   );
 }
\ No newline at end of file
@@ -55,8 +55,25 @@ interface Booking {
   serviceTitle: string;
   status: string;
   amount: number;
+  seriesId: string | null;
 }
 
+interface BookingSeriesSummary {
+  id: string;
+  frequency: string;
+  startTime: string;
+  customerName: string;
+  serviceTitle: string;
+  nextDate: string | null;
+  remaining: number;
+}
+
+const SERIES_FREQUENCY_LABELS: Record<string, string> = {
+  weekly: 'Weekly',
+  fortnightly: 'Every 2 weeks',
+  monthly: 'Monthly',
+};
+
 // Generate time slots based on working hours
 const generateTimeSlots = (startHour: number, endHour: number) => {
   const slots = [];
@@ -131,6 +148,9 @@ const DayView = ({
                   <Badge variant="secondary" className="ml-2 px-2 py-0.5">
                     <Text className="text-xs">{booking.status}</Text>
                   </Badge>
+                  {booking.seriesId && (
+                    <Ionicons name="repeat" size={14} color={colors.primary} style={{ marginLeft: 6 }} />
+                  )}
                 </View>
                 <Text className="text-sm text-muted-foreground mb-1">{booking.serviceTitle}</Text>
                 <Text className="text-sm font-medium text-primary">${booking.amount}</Text>
@@ -215,11 +235,13 @@ const DayView = ({
 const WeekView = ({
   selectedDate,
   bookings,
+  series,
   weeklySchedule,
   colors
 }: {
   selectedDate: Date;
   bookings: Booking[];
+  series: BookingSeriesSummary[];
   weeklySchedule: WeeklySchedule | undefined;
   colors: any;
 }) => {
@@ -294,9 +316,14 @@ const WeekView = ({
                     <View className="w-2 h-2 rounded-full bg-primary" />
                   </View>
                   <View className="flex-row items-center justify-between">
-                    <Text className="text-sm font-medium text-foreground">
-                      {dayBookings.length} booking{dayBookings.length !== 1 ? 's' : ''}
-                    </Text>
+                    <View className="flex-row items-center">
+                      <Text className="text-sm font-medium text-foreground">
+                        {dayBookings.length} booking{dayBookings.length !== 1 ? 's' : ''}
+                      </Text>
+                      {dayBookings.some((booking) => booking.seriesId) && (
+                        <Ionicons name="repeat" size={14} color={colors.primary} style={{ marginLeft: 6 }} />
+                      )}
+                    </View>
                     {!isPastDay && dayBookings.length === 0 && (
                       <View className="bg-primary/10 px-2 py-1 rounded-full flex-row items-center">
                         <Ionicons name="checkmark-circle-outline" size={12} color={colors.primary} />
@@ -331,6 +358,36 @@ const WeekView = ({
     renderItem: renderWeekDay,
     header: (
       <View className="px-4">
+        {series.length > 0 && (
+          <View className="mb-6">
+            <Text className="text-lg font-semibold text-foreground mb-3">Recurring Series</Text>
+            {series.map((item) => (
+              <Card key={item.id} className="mb-2">
+                <CardContent className="p-4">
+                  <View className="flex-row items-center">
+                    <View className="w-8 h-8 rounded-full bg-primary/10 items-center justify-center mr-3">
+                      <Ionicons name="repeat" size={16} color={colors.primary} />
+                    </View>
+                    <View className="flex-1">
+                      <Text className="font-medium text-foreground text-sm">{item.customerName}</Text>
+                      <Text className="text-sm text-muted-foreground">
+                        {item.serviceTitle} · {SERIES_FREQUENCY_LABELS[item.frequency] || item.frequency} at {item.startTime.slice(0, 5)}
+                      </Text>
+                    </View>
+                    <View className="items-end ml-2">
+                      <Text className="text-xs font-medium text-primary">
+                        {item.nextDate
+                          ? `Next ${new Date(`${item.nextDate}T00:00:00`).toLocaleDateString('en', { month: 'short', day: 'numeric' })}`
+                          : 'No upcoming visits'}
+                      </Text>
+                      <Text className="text-xs text-muted-foreground">{item.remaining} left</Text>
+                    </View>
+                  </View>
+                </CardContent>
+              </Card>
+            ))}
+          </View>
+        )}
         <Text className="text-lg font-semibold text-foreground mb-4">Week Overview</Text>
       </View>
     )
@@ -407,6 +464,7 @@ export default function ProviderCalendar() {
   const {
     weeklySchedule,
     bookings,
+    series,
     stats, // Use server-calculated stats instead of local calculation
     isLoading,
     isRefetching, // Could show subtle loading indicator during background refetches
@@ -716,7 +774,7 @@ export default function ProviderCalendar() {
           })()}
 
           {currentView === 'week' && (() => {
-            const weekViewData = WeekView({ selectedDate, bookings, weeklySchedule, colors });
+            const weekViewData = WeekView({ selectedDate, bookings, series, weeklySchedule, colors });
             return (
               <FlashList
                 data={weekViewData.data}
@@ -17,7 +17,8 @@ import { useProviderAccess } from '@/hooks/provider/useProviderAccess';
 import {
   useProviderEarnings,
   useProviderPayouts,
-  useProviderEarningsAnalytics
+  useProviderEarningsAnalytics,
+  type ProviderPayoutData
 } from '@/hooks/shared/useProfileData';
 import { supabase } from '@/lib/supabase';
 import { useQuery } from '@tanstack/react-query';
@@ -78,6 +79,7 @@ export default function ProviderEarningsScreen() {
   const colors = isDarkColorScheme ? THEME.dark : THEME.light;
   const [selectedPeriod, setSelectedPeriod] = useState<TimePeriod>('30d');
   const [activeTab, setActiveTab] = useState<'overview' | 'analytics' | 'payouts'>('overview');
+  const [showAllPayouts, setShowAllPayouts] = useState(false);
 
   // ✅ REACT QUERY + ZUSTAND: Access control for feature gates
   const { 
@@ -95,7 +97,8 @@ export default function ProviderEarningsScreen() {
 
   const { 
     data: payoutHistory = [], 
-    isLoading: payoutsLoading 
+    isLoading: payoutsLoading,
+    refetch: refetchPayouts
   } = useProviderPayouts(user?.id);
 
   const { 
@@ -127,7 +130,7 @@ export default function ProviderEarningsScreen() {
 
   // ✅ PURE REACT QUERY: Refresh all data without state management
   const onRefresh = async () => {
-    await refetchEarnings();
+    await Promise.all([refetchEarnings(), refetchPayouts()]);
   };
 
   // Using centralized formatCurrency from utils
@@ -137,13 +140,37 @@ export default function ProviderEarningsScreen() {
   const getStatusText = (status: string) => {
     switch (status) {
       case 'paid': return 'Paid';
+      case 'completed': return 'Paid';
       case 'pending': return 'Pending';
-      case 'processing': return 'Processing';
+      case 'processing': return 'On its way';
       case 'failed': return 'Failed';
       default: return status;
     }
   };
 
+  const formatPayoutDate = (date: string) =>
+    new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  // Answers "when will I get paid for this booking?"
+  const getPayoutTimeline = (payout: ProviderPayoutData) => {
+    switch (payout.status) {
+      case 'completed':
+        return payout.actual_payout_date
+          ? `Paid to your bank ${formatPayoutDate(payout.actual_payout_date)}`
+          : 'Paid to your bank';
+      case 'processing':
+        return payout.expected_payout_date
+          ? `Expected in your bank ${formatPayoutDate(payout.expected_payout_date)}`
+          : 'Sent to your Stripe account';
+      case 'failed':
+        return payout.next_retry_at
+          ? `Retrying ${formatPayoutDate(payout.next_retry_at)} • ${payout.failure_reason || 'Transfer failed'}`
+          : payout.failure_reason || 'Payout failed - please contact support';
+      default:
+        return 'Transfer being prepared';
+    }
+  };
+
   const isStripeReady = stripeStatus?.charges_enabled && stripeStatus?.details_submitted;
 
   // Enhanced chart configuration with theme colors
@@ -718,7 +745,7 @@ export default function ProviderEarningsScreen() {
                   <View className="flex-row items-center justify-between">
                     <CardTitle className="flex-row items-center">
                       <Icon as={Activity} size={20} className="text-secondary mr-2" />
-                      Recent Payouts
+                      Payouts by Booking
                     </CardTitle>
                     <Badge className="bg-primary/20">
                       <Text className="text-primary">{payoutHistory?.length || 0} total</Text>
@@ -734,8 +761,12 @@ export default function ProviderEarningsScreen() {
                     </View>
                   ) : payoutHistory && payoutHistory.length > 0 ? (
                     <View className="gap-2">
-                      {payoutHistory.slice(0, 5).map((payout) => (
-                        <View key={payout.id} className="flex-row items-center gap-4 p-4 bg-muted/50 rounded-xl border border-border/30 hover:border-border/60 transition-colors">
+                      {(showAllPayouts ? payoutHistory : payoutHistory.slice(0, 5)).map((payout) => (
+                        <TouchableOpacity
+                          key={payout.id}
+                          onPress={() => router.push(`/(provider)/bookingdetail/${payout.booking_id}` as any)}
+                          className="flex-row items-center gap-4 p-4 bg-muted/50 rounded-xl border border-border/30 hover:border-border/60 transition-colors"
+                        >
                           {/* Status Icon */}
                           <View className={`w-12 h-12 rounded-full items-center justify-center flex-shrink-0 ${
                             payout.status === 'completed' ? 'bg-green-500/20' :
@@ -778,23 +809,30 @@ export default function ProviderEarningsScreen() {
                                 } text-xs font-bold`}>{getStatusText(payout.status)}</Text>
                               </Badge>
                             </View>
+                            {payout.booking && (
+                              <Text className="text-foreground text-sm mb-0.5" numberOfLines={1}>
+                                {payout.booking.service_title} • {payout.booking.customer_name}
+                              </Text>
+                            )}
                             <View className="flex-row items-center gap-1">
                               <Icon as={Calendar} size={12} className="text-muted-foreground" />
-                              <Text className="text-muted-foreground text-xs">
-                                {new Date(payout.expected_payout_date || payout.actual_payout_date || '').toLocaleDateString('en-GB', {
-                                  month: 'short',
-                                  day: 'numeric',
-                                  year: 'numeric'
-                                })}
+                              <Text className="text-muted-foreground text-xs flex-1" numberOfLines={2}>
+                                {payout.booking ? `Booked ${formatPayoutDate(payout.booking.booking_date)} • ` : ''}
+                                {getPayoutTimeline(payout)}
                               </Text>
                             </View>
                           </View>
-                        </View>
+                        </TouchableOpacity>
                       ))}
                       {payoutHistory.length > 5 && (
-                        <TouchableOpacity className="items-center py-4 mt-2 border-t border-border/30">
+                        <TouchableOpacity
+                          onPress={() => setShowAllPayouts((current) => !current)}
+                          className="items-center py-4 mt-2 border-t border-border/30"
+                        >
                           <View className="flex-row items-center px-4 py-2 bg-primary/10 rounded-full">
-                            <Text className="text-primary font-semibold text-sm">View All Payouts</Text>
+                            <Text className="text-primary font-semibold text-sm">
+                              {showAllPayouts ? 'Show Recent Only' : 'View All Payouts'}
+                            </Text>
                             <Icon as={ArrowUpRight} size={14} className="text-primary ml-2" />
                           </View>
                         </TouchableOpacity>
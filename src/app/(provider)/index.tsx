@@ -39,6 +39,8 @@ import {
 import { useBusinessAvailability } from '@/hooks/provider/useBusinessAvailability';
 import { useUpdateBusinessAvailability } from '@/hooks/provider/useUpdateBusinessAvailability';
 import { ProviderBannerManager } from '@/components/provider/ProviderBannerManager';
+import { SOSOffersCard } from '@/components/provider/SOSOffersCard';
+import { NotificationBell } from '@/components/notifications';
 import { cn, formatCurrency } from '@/lib/utils';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { 
@@ -267,8 +269,10 @@ export default function ProviderDashboard() {
               </Text>
             </View>
 
+            <NotificationBell href="/(provider)/notifications" />
+
             {/* Profile Avatar */}
-            <View>
+            <View className="ml-3">
               <Avatar className="w-16 h-16 border-2 border-primary/30" alt="Provider avatar">
                 {profileData?.avatar_url ? (
                   <AvatarImage source={{ uri: profileData.avatar_url }} />
@@ -364,6 +368,9 @@ export default function ProviderDashboard() {
           </Card>
         </View>
 
+        {/* SOS requests broadcast to this provider - hidden when there are none */}
+        <SOSOffersCard />
+
         {/* Business Management Controls */}
         <View className="px-4 mb-6">
           <View className="flex-row items-center mb-4">
@@ -0,0 +1,36 @@
+import React from 'react';
+import { View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Text } from '@/components/ui/text';
+import { ConversationList } from '@/components/messaging';
+import { useAuthStore } from '@/stores/auth';
+import { useConversations } from '@/hooks/shared/useMessages';
+
+export default function ProviderMessagesScreen() {
+  const user = useAuthStore((state) => state.user);
+  const { data: conversations = [], isLoading, isRefetching, refetch } = useConversations(user?.id);
+
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={['top']}>
+      <View className="px-4 py-4 border-b border-border">
+        <Text variant="h3" className="font-bold">
+          Messages
+        </Text>
+        <Text className="text-sm text-muted-foreground">
+          Chat with your customers about their bookings
+        </Text>
+      </View>
+
+      <ConversationList
+        conversations={conversations}
+        currentUserId={user?.id}
+        isLoading={isLoading}
+        isRefreshing={isRefetching}
+        onRefresh={refetch}
+        onSelect={(conversation) => router.push(`/(provider)/messages/${conversation.id}` as any)}
+        emptyMessage="Customers can message you once they have booked a service."
+      />
+    </SafeAreaView>
+  );
+}
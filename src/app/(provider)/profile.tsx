@@ -513,6 +513,12 @@ function ProfileContent() {
         {/* Logout */}
         <View className="px-6 mb-8">
           <LogoutButton variant="modern" fullWidth />
+          <TouchableOpacity
+            onPress={() => router.push('/(provider)/profile/delete-account' as any)}
+            className="items-center py-4"
+          >
+            <Text className="text-destructive text-sm font-medium">Delete Account</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Footer */}
@@ -18,6 +18,7 @@ import { useDeepLinkHandler } from '@/hooks/shared/useDeepLinkHandler';
 import * as WebBrowser from 'expo-web-browser';
 import { useProfile } from '@/hooks/shared/useProfileData';
 import { useAuthStore } from '@/stores/auth';
+import { DisputesSection } from '@/components/provider/DisputesSection';
 
 interface StripeAccountStatus {
   hasStripeAccount: boolean;
@@ -505,6 +506,9 @@ export default function PaymentsScreen() {
             </Card>
           )}
 
+          {/* Disputes Card */}
+          <DisputesSection providerId={user?.id} />
+
           {/* Info Card */}
           <Card className="bg-muted/30">
             <CardContent className="p-4">
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { View, ScrollView, Pressable, Image, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, Camera, IdCard, AlertTriangle, CheckCircle } from 'lucide-react-native';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Icon } from '@/components/ui/icon';
+import { GuidedCaptureCamera, type GuidedCapture } from '@/components/verification/GuidedCaptureCamera';
+import { DocumentExpiryField } from '@/components/verification/DocumentExpiryField';
+import { useDocumentExpiry, useRenewVerificationDocument, type IdentityDocumentType } from '@/hooks/provider/useDocumentExpiry';
+import { formatExpiryDate, validateExpiryDate } from '@/lib/verification/document-expiry';
+import { useAuthStore } from '@/stores/auth';
+import { cn } from '@/lib/utils';
+
+const DOCUMENT_TYPES: Array<{ value: IdentityDocumentType; label: string }> = [
+  { value: 'passport', label: 'Passport' },
+  { value: 'driving_license', label: 'Driving License' },
+  { value: 'id_card', label: 'ID Card' },
+];
+
+export default function RenewDocumentScreen() {
+  const user = useAuthStore((state) => state.user);
+  const providerId = user?.id;
+
+  const { data: expiry, isLoading } = useDocumentExpiry(providerId);
+  const renewMutation = useRenewVerificationDocument();
+
+  const [documentType, setDocumentType] = useState<IdentityDocumentType | null>(null);
+  const [capture, setCapture] = useState<GuidedCapture | null>(null);
+  const [expiryDate, setExpiryDate] = useState<Date | null>(null);
+  const [expiryError, setExpiryError] = useState<string | undefined>();
+  const [cameraVisible, setCameraVisible] = useState(false);
+
+  const selectedType = documentType ?? expiry?.documentType ?? 'passport';
+  const currentExpiry = formatExpiryDate(expiry?.expiryDate);
+
+  const handleCaptured = (result: GuidedCapture) => {
+    setCapture(result);
+    setCameraVisible(false);
+  };
+
+  const handleSubmit = () => {
+    if (!providerId || !capture) return;
+
+    const validation = validateExpiryDate(expiryDate);
+    if (validation !== true) {
+      setExpiryError(validation);
+      return;
+    }
+
+    renewMutation.mutate(
+      {
+        providerId,
+        imageUri: capture.uri,
+        documentType: selectedType,
+        expiryDate: expiryDate!,
+        qualityReport: capture.qualityReport,
+      },
+      {
+        onSuccess: () => {
+          Alert.alert(
+            'Document Uploaded',
+            'Thanks - your new document has been sent for review and you\'re visible to customers again.',
+            [{ text: 'Done', onPress: () => router.back() }]
+          );
+        },
+        onError: (error) => {
+          console.error('[RenewDocument] Upload failed:', error);
+          Alert.alert('Upload Failed', 'We couldn\'t upload your document. Please try again.');
+        },
+      }
+    );
+  };
+
+  const renderStatus = () => {
+    if (!expiry) return null;
+
+    if (expiry.reverificationRequired || expiry.state === 'expired') {
+      return (
+        <View className="flex-row p-4 bg-destructive/10 rounded-lg border border-destructive/20">
+          <Icon as={AlertTriangle} size={20} className="text-destructive mr-3 mt-0.5" />
+          <View className="flex-1">
+            <Text className="text-destructive font-semibold mb-1">Your ID document has expired</Text>
+            <Text className="text-destructive/90 text-sm">
+              {currentExpiry ? `It expired on ${currentExpiry}. ` : ''}
+              You're hidden from search and SOS requests until you upload a new one. Your existing bookings aren't affected.
+            </Text>
+          </View>
+        </View>
+      );
+    }
+
+    if (expiry.state === 'expiring' && expiry.daysUntilExpiry !== null) {
+      return (
+        <View className="flex-row p-4 bg-warning/10 rounded-lg border border-warning/20">
+          <Icon as={AlertTriangle} size={20} className="text-warning mr-3 mt-0.5" />
+          <View className="flex-1">
+            <Text className="text-foreground font-semibold mb-1">
+              Expires in {expiry.daysUntilExpiry} day{expiry.daysUntilExpiry === 1 ? '' : 's'}
+            </Text>
+            <Text className="text-muted-foreground text-sm">
+              Upload a new document before {currentExpiry} to stay visible to customers.
+            </Text>
+          </View>
+        </View>
+      );
+    }
+
+    return (
+      <View className="flex-row p-4 bg-success/10 rounded-lg border border-success/20">
+        <Icon as={CheckCircle} size={20} className="text-success mr-3 mt-0.5" />
+        <View className="flex-1">
+          <Text className="text-foreground font-semibold mb-1">Your document is valid</Text>
+          <Text className="text-muted-foreground text-sm">
+            {currentExpiry
+              ? `It expires on ${currentExpiry}. You can upload a renewed document at any time.`
+              : 'Add your document\'s expiry date so we can remind you before it runs out.'}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-background">
+      <View className="flex-row items-center px-4 py-3 border-b border-border">
+        <Pressable onPress={() => router.back()} className="mr-3 p-1">
+          <Icon as={ArrowLeft} size={24} className="text-primary" />
+        </Pressable>
+        <Text className="text-xl font-bold text-foreground">Renew ID Document</Text>
+      </View>
+
+      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+        <View className="p-4 gap-5">
+          {isLoading ? (
+            <Text className="text-muted-foreground text-center py-8">Loading your document...</Text>
+          ) : (
+            renderStatus()
+          )}
+
+          <View>
+            <Text className="text-sm font-medium text-foreground mb-3">Document Type</Text>
+            <View className="flex-row gap-2">
+              {DOCUMENT_TYPES.map((type) => (
+                <Pressable
+                  key={type.value}
+                  onPress={() => setDocumentType(type.value)}
+                  className={cn(
+                    'flex-1 py-3 rounded-lg border items-center',
+                    selectedType === type.value ? 'border-primary bg-primary/10' : 'border-border'
+                  )}
+                >
+                  <Text className={cn('text-sm', selectedType === type.value ? 'text-primary font-semibold' : 'text-foreground')}>
+                    {type.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+
+          <View>
+            <Text className="text-sm font-medium text-foreground mb-3">Document Image</Text>
+            {capture ? (
+              <Card>
+                <CardContent className="p-3">
+                  <Image source={{ uri: capture.uri }} className="w-full h-48 rounded-lg" resizeMode="cover" />
+                  <Button variant="outline" className="mt-3" onPress={() => setCameraVisible(true)}>
+                    <Text className="text-foreground">Retake Photo</Text>
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              <Pressable
+                onPress={() => setCameraVisible(true)}
+                className="items-center justify-center h-40 rounded-lg border-2 border-dashed border-border bg-muted/30"
+              >
+                <Icon as={Camera} size={32} className="text-muted-foreground mb-2" />
+                <Text className="text-foreground font-medium">Take a photo of your new document</Text>
+              </Pressable>
+            )}
+          </View>
+
+          <DocumentExpiryField
+            value={expiryDate}
+            onChange={(date) => {
+              setExpiryDate(date);
+              setExpiryError(undefined);
+            }}
+            error={expiryError}
+          />
+
+          <Button
+            onPress={handleSubmit}
+            disabled={!capture || !expiryDate || renewMutation.isPending}
+            className="mt-2"
+          >
+            <Icon as={IdCard} size={18} className="text-primary-foreground mr-2" />
+            <Text className="text-primary-foreground font-medium">
+              {renewMutation.isPending ? 'Uploading...' : 'Upload New Document'}
+            </Text>
+          </Button>
+        </View>
+      </ScrollView>
+
+      <GuidedCaptureCamera
+        visible={cameraVisible}
+        kind="document"
+        onCapture={handleCaptured}
+        onClose={() => setCameraVisible(false)}
+      />
+    </SafeAreaView>
+  );
+}
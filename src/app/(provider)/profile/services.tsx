@@ -24,6 +24,7 @@ import {
   PricingSection,
   ServiceSettingsSection
 } from '@/components/provider/service-form-sections';
+import { ServiceAreaCard } from '@/components/provider/ServiceAreaCard';
 
 // ✅ React Query hooks for server state
 import {
@@ -205,14 +206,17 @@ const ServiceCard = React.memo(({ service, onEdit, onToggle, onDelete, isDeletin
           </View>
 
           {/* Cancellation Policy */}
-          {service.cancellationPolicy && (
-            <View className="bg-muted/40 rounded-lg p-2.5 border border-muted/60">
-              <Text className="text-xs font-semibold text-foreground mb-1">Cancellation Policy</Text>
-              <Text className="text-xs text-muted-foreground leading-4">
+          <View className="bg-muted/40 rounded-lg p-2.5 border border-muted/60">
+            <Text className="text-xs font-semibold text-foreground mb-1">Cancellation Policy</Text>
+            <Text className="text-xs text-muted-foreground leading-4">
+              Free up to {String(service.cancellationWindowHours ?? 48)}h before · {String(service.cancellationFeePercentage ?? 50)}% fee after
+            </Text>
+            {service.cancellationPolicy ? (
+              <Text className="text-xs text-muted-foreground leading-4 mt-1">
                 {String(service.cancellationPolicy)}
               </Text>
-            </View>
-          )}
+            ) : null}
+          </View>
         </CardContent>
       </Card>
     </Animated.View>
@@ -243,6 +247,9 @@ export default function ServicesScreen() {
       depositPercentage: service.deposit_percentage || null,
       houseCallExtraFee: service.house_call_extra_fee || null,
       cancellationPolicy: String(service.cancellation_policy || ''),
+      cancellationFeePercentage: service.cancellation_fee_percentage ?? null,
+      cancellationWindowHours: service.cancellation_window_hours ?? null,
+      travelBufferMinutes: service.travel_buffer_minutes ?? 0,
       houseCallAvailable: Boolean(service.house_call_available),
       allowsSosBooking: Boolean(service.allows_sos_booking),
     })) || [];
@@ -278,8 +285,11 @@ export default function ServicesScreen() {
       isActive: true,
       depositPercentage: '',
       cancellationPolicy: '',
+      cancellationFeePercentage: '50',
+      cancellationWindowHours: '48',
       houseCallAvailable: false,
       houseCallExtraFee: '',
+      travelBufferMinutes: '0',
       allowsSosBooking: false,
     }
   });
@@ -321,8 +331,11 @@ export default function ServicesScreen() {
         is_active: data.isActive,
         deposit_percentage: data.depositPercentage ? parseFloat(data.depositPercentage) : undefined,
         cancellation_policy: data.cancellationPolicy,
+        cancellation_fee_percentage: parseFloat(data.cancellationFeePercentage),
+        cancellation_window_hours: parseInt(data.cancellationWindowHours),
         house_call_available: data.houseCallAvailable,
         house_call_extra_fee: data.houseCallExtraFee ? parseFloat(data.houseCallExtraFee) : undefined,
+        travel_buffer_minutes: parseInt(data.travelBufferMinutes) || 0,
         allows_sos_booking: data.allowsSosBooking,
       };
 
@@ -367,6 +380,9 @@ export default function ServicesScreen() {
     setValue('depositPercentage', service.deposit_percentage?.toString() || service.depositPercentage?.toString() || '');
     setValue('houseCallExtraFee', service.house_call_extra_fee?.toString() || service.houseCallExtraFee?.toString() || '');
     setValue('cancellationPolicy', service.cancellation_policy || service.cancellationPolicy || '');
+    setValue('cancellationFeePercentage', (service.cancellation_fee_percentage ?? service.cancellationFeePercentage ?? 50).toString());
+    setValue('cancellationWindowHours', (service.cancellation_window_hours ?? service.cancellationWindowHours ?? 48).toString());
+    setValue('travelBufferMinutes', (service.travel_buffer_minutes ?? service.travelBufferMinutes ?? 0).toString());
     setValue('houseCallAvailable', service.house_call_available ?? service.houseCallAvailable ?? false);
     setValue('allowsSosBooking', service.allows_sos_booking ?? service.allowsSosBooking ?? false);
     setValue('isActive', service.is_active ?? service.isActive ?? true);
@@ -461,6 +477,11 @@ export default function ServicesScreen() {
 
           <TabsContent value="list" className="flex-1">
             <ScrollView className="flex-1 px-2 pt-3" showsVerticalScrollIndicator={false}>
+              {/* House-call radius and travel fees apply to every service */}
+              {services.some((service) => service.houseCallAvailable) && (
+                <ServiceAreaCard providerId={user?.id} />
+              )}
+
               {servicesLoading ? (
                 <View className="gap-4">
                   {[1, 2, 3].map((i) => (
@@ -10,6 +10,7 @@ import { ConflictResolutionModal } from '@/components/verification/ConflictResol
 import { useConflictResolution } from '@/hooks/verification/useConflictResolution';
 import { supabase } from '@/lib/supabase';
 import { VerificationFlowManager } from '@/lib/verification/verification-flow-manager';
+import { getRoleHomeRoute } from '@/lib/routing/guards';
 
 /**
  * Provider Verification Layout - Protected Route Group
@@ -205,8 +206,9 @@ export default function ProviderVerificationLayout() {
 
   // ✅ Guard 2: Redirect non-providers to their dashboard
   if (userRole !== 'provider') {
-    console.log('[ProviderVerificationLayout] ❌ Not a provider, redirecting to /(customer)');
-    return <Redirect href="/(customer)" />;
+    const homeRoute = userRole ? getRoleHomeRoute(userRole) : '/(customer)';
+    console.log(`[ProviderVerificationLayout] ❌ Not a provider, redirecting to ${homeRoute}`);
+    return <Redirect href={homeRoute as any} />;
   }
 
   console.log('[ProviderVerificationLayout] ✅ Access granted for provider verification');
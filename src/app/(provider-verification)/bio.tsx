@@ -19,6 +19,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 // ✅ SINGLE-SOURCE: Use new verification hooks
 import { useVerificationData, useUpdateStepCompletion, useVerificationRealtime } from '@/hooks/provider/useVerificationSingleSource';
+import { useVerificationResubmission } from '@/hooks/verification/useVerificationResubmission';
 import { useAuthStore } from '@/stores/auth';
 import { useCallback, useEffect, useState } from 'react';
 
@@ -37,6 +38,8 @@ export default function BusinessBioScreen() {
   // ✅ SINGLE-SOURCE: Use new verification hooks
   const { data: verificationData, isLoading: verificationLoading } = useVerificationData(providerId);
   const updateStepMutation = useUpdateStepCompletion();
+  // ✅ After a rejection, only the steps sent back are revisited
+  const { getNextRoute } = useVerificationResubmission();
 
   // Real-time subscription for live updates
   useVerificationRealtime(providerId);
@@ -113,7 +116,7 @@ export default function BusinessBioScreen() {
 
       console.log('[Bio] Step completion confirmed, navigating to terms (step 7)...');
       // ✅ Navigate to next step: terms (step 7)
-      router.push('/(provider-verification)/terms');
+      router.push(getNextRoute(6) as any);
     } catch (error) {
       console.error('[Bio] Submit error:', error);
       Alert.alert('Save Failed', 'Failed to save your information. Please try again.');
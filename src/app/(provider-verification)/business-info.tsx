@@ -18,6 +18,7 @@ import { SearchableCitySelect } from '@/components/ui/searchable-city-select';
 import { SearchableCountryCodeSelect } from '@/components/ui/searchable-country-code-select';
 import { VerificationHeader } from '@/components/verification/VerificationHeader';
 import { useVerificationData, useUpdateStepCompletion, useVerificationRealtime } from '@/hooks/provider/useVerificationSingleSource';
+import { useVerificationResubmission } from '@/hooks/verification/useVerificationResubmission';
 import { useAuthStore } from '@/stores/auth';
 import { useGeocoding } from '@/hooks/shared/useGeocoding';
 import { VerificationFlowManager } from '@/lib/verification/verification-flow-manager';
@@ -46,6 +47,8 @@ export default function BusinessInfoScreen() {
   const { user } = useAuthStore();
   const { data: verificationData, isLoading: verificationLoading } = useVerificationData(user?.id);
   const updateStepMutation = useUpdateStepCompletion();
+  // ✅ After a rejection, only the steps sent back are revisited
+  const { getNextRoute } = useVerificationResubmission();
 
   // Real-time subscription for live updates
   useVerificationRealtime(user?.id);
@@ -254,7 +257,7 @@ export default function BusinessInfoScreen() {
       });
 
       // ✅ EXPLICIT: Navigate to next step
-      router.push('/(provider-verification)/category');
+      router.push(getNextRoute(3) as any);
 
       console.log('[Business Info] Submission completed successfully');
     } catch (error) {
@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button';
 import { ScreenWrapper } from '@/components/ui/screen-wrapper';
 import { VerificationHeader } from '@/components/verification/VerificationHeader';
 import { useUpdateStepCompletion, useVerificationRealtime } from '@/hooks/provider/useVerificationSingleSource';
+import { useVerificationResubmission } from '@/hooks/verification/useVerificationResubmission';
 import { supabase } from '@/lib/supabase';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useAuthStore } from '@/stores/auth';
@@ -88,6 +89,10 @@ export default function CategorySelectionScreen() {
 
   const updateStepMutation = useUpdateStepCompletion();
 
+  // ✅ After a rejection, only the steps sent back are revisited
+
+  const { getNextRoute } = useVerificationResubmission();
+
   // Real-time subscription
   useVerificationRealtime(providerId);
 
@@ -197,7 +202,7 @@ export default function CategorySelectionScreen() {
       await queryClient.refetchQueries({ queryKey: ['providerSelectedCategory', providerId] });
       
       console.log('[Categories] Cache invalidated, navigating to portfolio (step 5)...');
-      router.push('/(provider-verification)/portfolio');
+      router.push(getNextRoute(4) as any);
     } catch (error) {
       console.error('[Categories] Error submitting category:', error);
     } finally {
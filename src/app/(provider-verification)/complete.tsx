@@ -1,5 +1,5 @@
 import React from 'react';
-import { View } from 'react-native';
+import { View, Alert } from 'react-native';
 import { router } from 'expo-router';
 import Animated, { FadeIn, SlideInDown } from 'react-native-reanimated';
 import { Text } from '@/components/ui/text';
@@ -13,6 +13,8 @@ import { PaymentAnalyticsService } from '@/lib/payment/payment-analytics';
 
 import { supabase } from '@/lib/supabase';
 import { useVerificationData, useUpdateStepCompletion } from '@/hooks/provider/useVerificationSingleSource';
+import { useVerificationResubmission } from '@/hooks/verification/useVerificationResubmission';
+import { VerificationFlowManager, type VerificationStepId } from '@/lib/verification/verification-flow-manager';
 
 export default function VerificationCompleteScreen() {
   console.log('[Complete Screen] Rendered');
@@ -22,6 +24,7 @@ export default function VerificationCompleteScreen() {
   // ✅ SINGLE-SOURCE ARCHITECTURE: Use centralized verification hooks
   const { data: verificationData, isLoading } = useVerificationData(session?.user?.id);
   const updateStepMutation = useUpdateStepCompletion();
+  const { stepsToResubmit } = useVerificationResubmission();
 
   // Calculate completion percentage - all 7 steps done = 100%
   // Since we're on Step 8 (completion), always show 100%
@@ -32,6 +35,17 @@ export default function VerificationCompleteScreen() {
   const handleCompleteVerification = async () => {
     if (!session?.user?.id) return;
 
+    // ✅ RESUBMISSION: Every step the review sent back has to be updated first
+    if (stepsToResubmit.length > 0) {
+      const nextStep = stepsToResubmit[0] as VerificationStepId;
+      Alert.alert(
+        'Changes Still Needed',
+        `Please update ${VerificationFlowManager.getStep(nextStep).title} before resubmitting.`,
+        [{ text: 'OK', onPress: () => router.replace(VerificationFlowManager.getRouteForStep(nextStep) as any) }]
+      );
+      return;
+    }
+
     try {
       console.log('[Complete Screen] Completing verification for:', session.user.id);
       
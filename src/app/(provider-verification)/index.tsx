@@ -13,13 +13,18 @@ import { ScreenWrapper } from '@/components/ui/screen-wrapper';
 import { Icon } from '@/components/ui/icon';
 import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from '@/components/ui/context-menu';
 import { VerificationHeader } from '@/components/verification/VerificationHeader';
+import { GuidedCaptureCamera, type GuidedCapture } from '@/components/verification/GuidedCaptureCamera';
+import { DocumentExpiryField } from '@/components/verification/DocumentExpiryField';
 import { useVerificationData, useUpdateStepCompletion, useVerificationRealtime } from '@/hooks/provider/useVerificationSingleSource';
+import { useVerificationResubmission } from '@/hooks/verification/useVerificationResubmission';
 import { supabase } from '@/lib/supabase';
 import { createStorageService } from '@/lib/storage/organized-storage';
 import { normalizeImageUri } from '@/lib/utils';
 import { useStripeVerificationIntegration } from '@/lib/payment/stripe-verification-integration';
 import { useAuthStore } from '@/stores/auth';
 import { VerificationFlowManager } from '@/lib/verification/verification-flow-manager';
+import { analyzeImageQuality, getRetakeAdvice } from '@/lib/verification/image-quality';
+import { parseExpiryDate, toExpiryDateString, validateExpiryDate } from '@/lib/verification/document-expiry';
 
 // Skeleton Loading Component
 const SkeletonBox: React.FC<{ className?: string; children?: React.ReactNode }> = ({ className = '', children }) => (
@@ -184,6 +189,7 @@ const checkDocumentFileExists = async (providerId: string, filePath: string): Pr
 // Interface
 interface DocumentForm {
   documentType: 'passport' | 'driving_license' | 'id_card';
+  expiryDate: Date | null;
 }
 
 // Main Component
@@ -192,6 +198,7 @@ export default function DocumentVerificationScreen() {
   const [imageLoadError, setImageLoadError] = useState(false);
   const [isRetrying, setIsRetrying] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
+  const [cameraVisible, setCameraVisible] = useState(false);
 
   // ✅ AUTH: Get current user/provider ID
   const user = useAuthStore((state) => state.user);
@@ -202,6 +209,8 @@ export default function DocumentVerificationScreen() {
   // ✅ SINGLE-SOURCE: Use new verification hooks
   const { data: verificationData, isLoading: verificationLoading } = useVerificationData(providerId);
   const updateStepMutation = useUpdateStepCompletion();
+  // ✅ After a rejection, only the steps sent back are revisited
+  const { getNextRoute } = useVerificationResubmission();
 
   // ✅ REAL-TIME: Real-time updates
   useVerificationRealtime(providerId);
@@ -215,10 +224,12 @@ export default function DocumentVerificationScreen() {
     handleSubmit,
     formState: { errors, isValid },
     watch,
+    setValue,
   } = useForm<DocumentForm>({
     mode: 'onChange',
     defaultValues: {
       documentType: documentData.documentType || 'passport',
+      expiryDate: null,
     },
   });
 
@@ -234,7 +245,7 @@ export default function DocumentVerificationScreen() {
 
       const { data, error } = await supabase
         .from('provider_verification_documents')
-        .select('document_type, document_url, verification_status, created_at')
+        .select('id, document_type, document_url, verification_status, expiry_date, image_purged_at, created_at')
         .eq('provider_id', providerId)
         .order('created_at', { ascending: false })
         .limit(1)
@@ -250,6 +261,12 @@ export default function DocumentVerificationScreen() {
         return null;
       }
 
+      // Image deleted by the retention job - keep the record, but a new upload is needed
+      if (data.image_purged_at) {
+        console.log('[Documents] Existing document image was purged after retention period');
+        return null;
+      }
+
       // Check if the file actually exists in storage
       const fileExists = await checkDocumentFileExists(providerId, data.document_url);
       
@@ -286,9 +303,17 @@ export default function DocumentVerificationScreen() {
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
+  // Prefill the expiry date saved with the existing document
+  useEffect(() => {
+    const savedExpiry = parseExpiryDate(existingDocument?.expiry_date);
+    if (savedExpiry) {
+      setValue('expiryDate', savedExpiry, { shouldValidate: true });
+    }
+  }, [existingDocument?.expiry_date, setValue]);
+
   // Mutations
   const uploadDocumentMutation = useMutation({
-    mutationFn: async ({ image, documentType }: { image: any; documentType: string }) => {
+    mutationFn: async ({ image, documentType, expiryDate }: { image: any; documentType: string; expiryDate: string }) => {
       console.log('[DocumentUpload] Starting document upload for provider:', providerId);
       
       if (!providerId) {
@@ -336,6 +361,10 @@ export default function DocumentVerificationScreen() {
           .update({
             document_url: actualStoragePath,
             verification_status: 'pending',
+            rejection_reason: null,
+            expiry_date: expiryDate,
+            image_purged_at: null,
+            metadata: { quality_check: image.qualityReport ?? null },
             updated_at: new Date().toISOString()
           })
           .eq('id', existingDoc.id)
@@ -352,6 +381,8 @@ export default function DocumentVerificationScreen() {
             document_type: documentType,
             document_url: actualStoragePath,
             verification_status: 'pending',
+            expiry_date: expiryDate,
+            metadata: { quality_check: image.qualityReport ?? null },
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
           })
@@ -394,7 +425,8 @@ export default function DocumentVerificationScreen() {
       if (selectedImage) {
         documentData = await uploadDocumentMutation.mutateAsync({
           image: selectedImage,
-          documentType
+          documentType,
+          expiryDate: toExpiryDateString(formData.expiryDate)
         });
       }
 
@@ -459,7 +491,7 @@ export default function DocumentVerificationScreen() {
               console.log('[DocumentSubmission] User acknowledged success, completing step');
               
               // Navigate to next step
-              router.push('/(provider-verification)/selfie');
+              router.push(getNextRoute(1) as any);
             },
           },
         ]
@@ -546,11 +578,29 @@ export default function DocumentVerificationScreen() {
         // Normalize the URI for React Native Image component compatibility
         const normalizedUri = await normalizeImageUri(result.assets[0].uri);
         const normalizedAsset = { ...result.assets[0], uri: normalizedUri };
-        
-        setSelectedImage(normalizedAsset);
-        setImageLoadError(false);
-        setRetryCount(0);
-        setIsRetrying(false);
+
+        // ✅ QUALITY PRE-CHECK: Catch unreadable photos before they reach review
+        const qualityReport = await analyzeImageQuality(normalizedAsset, 'document');
+        const acceptImage = () => {
+          setSelectedImage({ ...normalizedAsset, qualityReport });
+          setImageLoadError(false);
+          setRetryCount(0);
+          setIsRetrying(false);
+        };
+
+        if (qualityReport.passed) {
+          acceptImage();
+        } else {
+          Alert.alert(
+            'Photo Quality Check',
+            getRetakeAdvice(qualityReport).join('\n\n'),
+            [
+              { text: 'Choose Another', style: 'cancel' },
+              { text: 'Take Photo', onPress: () => setCameraVisible(true) },
+              ...(qualityReport.blocking ? [] : [{ text: 'Use Anyway', onPress: acceptImage }]),
+            ]
+          );
+        }
       }
     } catch (error) {
       console.error('Error picking image:', error);
@@ -558,37 +608,18 @@ export default function DocumentVerificationScreen() {
     }
   };
 
-  const takePhoto = async () => {
-    try {
-      const { status } = await ImagePicker.requestCameraPermissionsAsync();
-      if (status !== 'granted') {
-        Alert.alert('Permission needed', 'We need camera permissions to take a photo.');
-        return;
-      }
-
-      const result = await ImagePicker.launchCameraAsync({
-        allowsEditing: true,
-        aspect: [16, 10],
-        quality: 0.8,
-        base64: false,
-      });
+  // ✅ GUIDED CAPTURE: Camera with a document frame and quality pre-checks
+  const takePhoto = () => {
+    setCameraVisible(true);
+  };
 
-      if (!result.canceled && result.assets[0]) {
-        console.log('Photo taken:', result.assets[0]);
-        
-        // Normalize the URI for React Native Image component compatibility
-        const normalizedUri = await normalizeImageUri(result.assets[0].uri);
-        const normalizedAsset = { ...result.assets[0], uri: normalizedUri };
-        
-        setSelectedImage(normalizedAsset);
-        setImageLoadError(false);
-        setRetryCount(0);
-        setIsRetrying(false);
-      }
-    } catch (error) {
-      console.error('Error taking photo:', error);
-      Alert.alert('Error', 'Failed to take photo. Please try again.');
-    }
+  const handleDocumentCaptured = (capture: GuidedCapture) => {
+    console.log('[DocumentCapture] Captured with quality check:', capture.qualityReport.scores);
+    setSelectedImage({ ...capture, type: 'image', fileName: 'camera_photo.jpg' });
+    setImageLoadError(false);
+    setRetryCount(0);
+    setIsRetrying(false);
+    setCameraVisible(false);
   };
 
   // Form submission handler
@@ -600,6 +631,18 @@ export default function DocumentVerificationScreen() {
       return;
     }
 
+    // A document the review rejected has to be replaced, not reused
+    if (existingDocument?.verification_status === 'rejected' && !selectedImage) {
+      Alert.alert('New Document Required', 'Your document was rejected. Please upload a new one to continue.');
+      return;
+    }
+
+    const expiryValidation = validateExpiryDate(data.expiryDate);
+    if (expiryValidation !== true) {
+      Alert.alert('Expiry Date Required', expiryValidation);
+      return;
+    }
+
     if (existingDocument && !selectedImage) {
       Alert.alert(
         'Using Existing Document',
@@ -607,8 +650,24 @@ export default function DocumentVerificationScreen() {
         [
           {
             text: 'Continue',
-            onPress: () => {
+            onPress: async () => {
               console.log('[DocumentSubmission] User confirmed using existing document');
+
+              // Documents uploaded before expiry tracking need the date saved now
+              const expiryDate = toExpiryDateString(data.expiryDate!);
+              if (existingDocument.expiry_date !== expiryDate) {
+                const { error: expiryError } = await supabase
+                  .from('provider_verification_documents')
+                  .update({ expiry_date: expiryDate, updated_at: new Date().toISOString() })
+                  .eq('id', existingDocument.id);
+
+                if (expiryError) {
+                  console.error('[DocumentSubmission] ❌ Failed to save expiry date:', expiryError);
+                  Alert.alert('Error', 'Failed to save the expiry date. Please try again.');
+                  return;
+                }
+                queryClient.invalidateQueries({ queryKey: ['existingDocument', providerId] });
+              }
               
               // ✅ SINGLE-SOURCE: Use new atomic step completion
               const stepData = { 
@@ -634,7 +693,7 @@ export default function DocumentVerificationScreen() {
                         text: 'Continue',
                         onPress: () => {
                           console.log('[DocumentSubmission] User acknowledged, proceeding to next step');
-                          router.push('/(provider-verification)/selfie');
+                          router.push(getNextRoute(1) as any);
                         },
                       },
                     ]
@@ -686,7 +745,7 @@ export default function DocumentVerificationScreen() {
   const currentDocumentInfo = getDocumentTypeInfo(documentType);
 
   // Calculate continue button state
-  const continueDisabled = !isValid || (!selectedImage && !existingDocument) || loading || fetchingExisting;
+  const continueDisabled = !isValid || (!selectedImage && (!existingDocument || existingDocument.verification_status === 'rejected')) || loading || fetchingExisting;
   const continueText = existingDocument && !selectedImage ? 'Use Existing' : 'Continue to Identity';
 
   // Temporarily disabled verbose logging to reduce console noise during form input
@@ -778,6 +837,22 @@ export default function DocumentVerificationScreen() {
         )}
       </Animated.View>
 
+      {/* Document Expiry Date */}
+      <Animated.View entering={SlideInDown.delay(700).springify()} className="mb-8">
+        <Controller
+          control={control}
+          name="expiryDate"
+          rules={{ validate: validateExpiryDate }}
+          render={({ field: { onChange, value } }) => (
+            <DocumentExpiryField
+              value={value}
+              onChange={onChange}
+              error={errors.expiryDate?.message}
+            />
+          )}
+        />
+      </Animated.View>
+
       {/* Document Info - Fixed space */}
       <Animated.View entering={SlideInDown.delay(800).springify()} className="mb-8 min-h-[80px]">
         <View className="p-4 bg-muted/50 rounded-lg border border-border">
@@ -1167,7 +1242,7 @@ export default function DocumentVerificationScreen() {
           <ActionButton
             onPress={() => {
               if (existingDocument && !selectedImage) {
-                onSubmit({ documentType: existingDocument.document_type as any });
+                onSubmit({ documentType: existingDocument.document_type as any, expiryDate: watch('expiryDate') });
               } else {
                 handleSubmit(onSubmit)();
               }
@@ -1182,6 +1257,13 @@ export default function DocumentVerificationScreen() {
         )}
       </Animated.View>
       </ScreenWrapper>
+
+      <GuidedCaptureCamera
+        visible={cameraVisible}
+        kind="document"
+        onCapture={handleDocumentCaptured}
+        onClose={() => setCameraVisible(false)}
+      />
     </View>
   );
 }
\ No newline at end of file
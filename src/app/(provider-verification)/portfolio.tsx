@@ -14,6 +14,7 @@ import { Icon } from '@/components/ui/icon';
 import { Skeleton } from '@/components/ui/skeleton';
 import { VerificationHeader } from '@/components/verification/VerificationHeader';
 import { useVerificationData, useUpdateStepCompletion, useVerificationRealtime } from '@/hooks/provider/useVerificationSingleSource';
+import { useVerificationResubmission } from '@/hooks/verification/useVerificationResubmission';
 import { supabase } from '@/lib/supabase';
 import { createStorageService } from '@/lib/storage/organized-storage';
 import { useAuthStore } from '@/stores/auth';
@@ -144,6 +145,8 @@ export default function PortfolioUploadScreen() {
   // ✅ SINGLE-SOURCE: Use new verification hooks
   const { data: verificationData, isLoading: verificationLoading } = useVerificationData(providerId);
   const updateStepMutation = useUpdateStepCompletion();
+  // ✅ After a rejection, only the steps sent back are revisited
+  const { getNextRoute } = useVerificationResubmission();
 
   // Real-time subscription for live updates
   useVerificationRealtime(providerId);
@@ -742,7 +745,7 @@ export default function PortfolioUploadScreen() {
               onPress: () => {
                 console.log('[Portfolio] User confirmed, navigating to bio (step 6)...');
                 // ✅ Navigate directly like category.tsx does
-                router.push('/(provider-verification)/bio');
+                router.push(getNextRoute(5) as any);
               },
             },
           ]
@@ -1,8 +1,7 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Alert, Platform, Image as RNImage } from 'react-native';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import Animated, { FadeIn, SlideInDown } from 'react-native-reanimated';
-import * as ImagePicker from 'expo-image-picker';
 import { Camera, Loader2, User, AlertCircle } from 'lucide-react-native';
 import { router } from 'expo-router';
 
@@ -11,12 +10,15 @@ import { Button } from '@/components/ui/button';
 import { ScreenWrapper } from '@/components/ui/screen-wrapper';
 import { Icon } from '@/components/ui/icon';
 import { VerificationHeader } from '@/components/verification/VerificationHeader';
+import { GuidedCaptureCamera, type GuidedCapture } from '@/components/verification/GuidedCaptureCamera';
 import { supabase } from '@/lib/supabase';
 import { createStorageService } from '@/lib/storage/organized-storage';
 import { StoragePathUtils } from '@/lib/storage/storage-paths';
 import { useImageHandlingStore } from '@/stores/ui';
 import { useVerificationData, useUpdateStepCompletion, useVerificationRealtime } from '@/hooks/provider/useVerificationSingleSource';
+import { useVerificationResubmission } from '@/hooks/verification/useVerificationResubmission';
 import { VerificationFlowManager } from '@/lib/verification/verification-flow-manager';
+import type { ImageQualityReport } from '@/lib/verification/image-quality';
 import { useAuthStore } from '@/stores/auth';
 
 export default function SelfieVerificationScreen() {
@@ -27,6 +29,8 @@ export default function SelfieVerificationScreen() {
   // ✅ SINGLE-SOURCE: Use new verification hooks
   const { data: verificationData, isLoading: verificationLoading } = useVerificationData(providerId);
   const updateStepCompletion = useUpdateStepCompletion();
+  // ✅ After a rejection, only the steps sent back are revisited
+  const { getNextRoute } = useVerificationResubmission();
 
   // ✅ ZUSTAND: Image handling state (replaces useState patterns)
   const {
@@ -45,6 +49,10 @@ export default function SelfieVerificationScreen() {
   
   const queryClient = useQueryClient();
 
+  // ✅ GUIDED CAPTURE: Camera with quality pre-checks - the report is saved for reviewers
+  const [cameraVisible, setCameraVisible] = useState(false);
+  const [selfieQuality, setSelfieQuality] = useState<ImageQualityReport | null>(null);
+
   // ✅ HELPER: Get selfie data from verification data
   const getSelfieData = () => {
     if (!verificationData?.profile) return null;
@@ -168,6 +176,18 @@ export default function SelfieVerificationScreen() {
           throw new Error('Failed to save selfie information');
         }
 
+        // Record the quality pre-check scores for the reviewer
+        const { error: metadataError } = await supabase
+          .from('provider_onboarding_progress')
+          .update({
+            selfie_metadata: selfieQuality ? { quality_check: selfieQuality as any } : {},
+          })
+          .eq('provider_id', providerId);
+
+        if (metadataError) {
+          console.warn('[Selfie] Could not save quality check:', metadataError);
+        }
+
         // ✅ SINGLE-SOURCE: Use new atomic step completion
         console.log('[Selfie] Calling updateStepCompletion for new image');
         await updateStepCompletion.mutateAsync({
@@ -203,6 +223,7 @@ export default function SelfieVerificationScreen() {
       
       // Clear local image
       setSelectedImage(null);
+      setSelfieQuality(null);
 
       console.log('[Selfie] Showing success alert');
       // Show success alert
@@ -218,7 +239,7 @@ export default function SelfieVerificationScreen() {
               console.log('Selfie verification confirmation acknowledged');
               
               // Navigate to next step
-              router.push('/(provider-verification)/business-info');
+              router.push(getNextRoute(2) as any);
               
               console.log('[Selfie] ✅ Completed step 2, navigating to business info');
             },
@@ -271,40 +292,15 @@ export default function SelfieVerificationScreen() {
     }
   };
 
-  const takeSelfie = async () => {
-    try {
-      // Request permission
-      const { status } = await ImagePicker.requestCameraPermissionsAsync();
-      if (status !== 'granted') {
-        Alert.alert('Permission needed', 'We need camera permissions to take a selfie.');
-        return;
-      }
+  const takeSelfie = () => {
+    setCameraVisible(true);
+  };
 
-      // Take selfie
-      const result = await ImagePicker.launchCameraAsync({
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
-        base64: false,
-        cameraType: ImagePicker.CameraType.front,
-      });
-
-      if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
-        console.log('Camera result:', asset);
-        
-        // Validate file type from asset info
-        if (asset.mimeType && !['image/jpeg', 'image/jpg', 'image/png'].includes(asset.mimeType)) {
-          Alert.alert('Invalid File Type', 'Please take a photo in JPG or PNG format.');
-          return;
-        }
-        
-        setSelectedImage(asset.uri);
-      }
-    } catch (error) {
-      console.error('Error taking selfie:', error);
-      Alert.alert('Error', 'Failed to take selfie. Please try again.');
-    }
+  const handleSelfieCaptured = (capture: GuidedCapture) => {
+    console.log('[Selfie] Captured with quality check:', capture.qualityReport.scores);
+    setSelectedImage(capture.uri);
+    setSelfieQuality(capture.qualityReport);
+    setCameraVisible(false);
   };
 
   // ✅ OPTIMIZED: Handle form submission with React Query mutation
@@ -443,7 +439,10 @@ export default function SelfieVerificationScreen() {
               <Button
                 variant="outline"
                 size="sm"
-                onPress={() => setSelectedImage(null)}
+                onPress={() => {
+                  setSelectedImage(null);
+                  setSelfieQuality(null);
+                }}
                 className="mt-4"
               >
                 <Text>Retake Selfie</Text>
@@ -572,6 +571,13 @@ export default function SelfieVerificationScreen() {
       </Animated.View>
       </ScreenWrapper>
 
+      <GuidedCaptureCamera
+        visible={cameraVisible}
+        kind="selfie"
+        onCapture={handleSelfieCaptured}
+        onClose={() => setCameraVisible(false)}
+      />
+
       {/* Upload Loading Overlay */}
       {submitSelfieMutation.isPending && (
         <View className="absolute inset-0 bg-background/95 items-center justify-center z-50">
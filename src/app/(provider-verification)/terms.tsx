@@ -20,6 +20,7 @@ import { FileText, CheckCircle, Info, DollarSign, AlertCircle, Home } from 'luci
 
 // ✅ SINGLE-SOURCE: Use new verification hooks
 import { useVerificationData, useUpdateStepCompletion, useVerificationRealtime } from '@/hooks/provider/useVerificationSingleSource';
+import { useVerificationResubmission } from '@/hooks/verification/useVerificationResubmission';
 import { useAuthStore } from '@/stores/auth';
 
 // UI Components
@@ -38,6 +39,8 @@ export default function BusinessTermsScreen() {
   // ✅ SINGLE-SOURCE: Use new verification hooks
   const { data: verificationData, isLoading: verificationLoading } = useVerificationData(providerId);
   const updateStepMutation = useUpdateStepCompletion();
+  // ✅ After a rejection, only the steps sent back are revisited
+  const { getNextRoute } = useVerificationResubmission();
 
   // Real-time subscription for live updates
   useVerificationRealtime(providerId);
@@ -101,7 +104,7 @@ export default function BusinessTermsScreen() {
         },
       });
 
-      router.push('/(provider-verification)/complete');
+      router.push(getNextRoute(7) as any);
     } catch (error) {
       console.error('[Terms] Submit error:', error);
       Alert.alert('Save Failed', 'Failed to save terms. Please try again.');
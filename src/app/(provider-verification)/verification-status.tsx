@@ -21,6 +21,12 @@ import { useColorScheme } from '@/lib/core/useColorScheme';
 import { cn } from '@/lib/utils';
 
 import { useVerificationData, useVerificationRealtime } from '@/hooks/provider/useVerificationSingleSource';
+import { useVerificationResubmission } from '@/hooks/verification/useVerificationResubmission';
+import {
+  VERIFICATION_STEPS,
+  VerificationFlowManager,
+  type VerificationStepId,
+} from '@/lib/verification/verification-flow-manager';
 import { useAuthStore } from '@/stores/auth';
 import { useSignOut } from '@/hooks/auth/useSignOut';
 import { LogoutButton } from '@/components/ui/logout-button';
@@ -174,7 +180,7 @@ const statusConfigs: Record<VerificationStatus, StatusConfig> = {
     iconType: 'x-circle',
     bgColorClass: 'bg-destructive/10',
     title: 'Verification Not Approved',
-    subtitle: 'Unfortunately, your verification application was not approved. Please review the feedback and submit a new application.',
+    subtitle: 'Unfortunately, your verification application was not approved. Please review the feedback and update your application.',
     badgeText: 'Not Approved',
     badgeBgClass: 'bg-destructive/10',
     badgeTextClass: 'text-destructive',
@@ -194,14 +200,14 @@ const statusConfigs: Record<VerificationStatus, StatusConfig> = {
       {
         iconType: 'x-circle',
         title: 'Application Declined',
-        description: 'Please review feedback and resubmit',
+        description: 'Please review the feedback and resubmit',
         completed: true,
       },
     ],
     nextSteps: [
       'Review the feedback provided by our verification team',
-      'Address any issues identified in your documents',
-      'Submit a new verification application when ready',
+      'Fix only the steps listed - everything else you submitted is kept',
+      'Resubmit your application once every step is updated',
       'Contact support if you need help understanding the feedback',
     ],
     showContactSupport: true,
@@ -275,8 +281,8 @@ export default function VerificationStatusScreen() {
   } = useVerificationData(user.id);
 
   const queryClient = useQueryClient();
+  const { stepReviews, stepsToResubmit } = useVerificationResubmission();
 
-  
 
   const restartVerificationMutation = useMutation({
     mutationFn: async () => {
@@ -313,10 +319,31 @@ export default function VerificationStatusScreen() {
 
   const rawStatus = verificationData?.progress?.verification_status || 'pending';
   const normalizedStatus = rawStatus;
-  const currentStatus = (['pending', 'in_progress', 'in_review', 'approved', 'rejected'].includes(normalizedStatus) ? normalizedStatus : 'pending') as VerificationStatus;
+  const currentStatus = (['pending', 'in_progress', 'in_review', 'approved', 'rejected', 'submitted'].includes(normalizedStatus) ? normalizedStatus : 'pending') as VerificationStatus;
   const config = statusConfigs[currentStatus] || statusConfigs.pending;
   const isRefreshing = isFetching && !isLoading;
 
+  // ✅ TARGETED RESUBMISSION: Step-scoped rejections only send the provider back to those steps
+  const hasStepReviews = currentStatus === 'rejected' && stepReviews.length > 0;
+  const rejectionReason = verificationData?.progress?.rejection_reason;
+
+  const handleRetry = () => {
+    if (!hasStepReviews) {
+      restartVerificationMutation.mutate();
+      return;
+    }
+
+    // Every rejected step already updated - just resubmit
+    const nextStep = stepsToResubmit[0] ?? 8;
+    router.push(VerificationFlowManager.getRouteForStep(nextStep as VerificationStepId) as any);
+  };
+
+  const retryLabel = !hasStepReviews
+    ? 'Submit New Application'
+    : stepsToResubmit.length > 0
+      ? `Fix ${stepsToResubmit.length} ${stepsToResubmit.length === 1 ? 'Item' : 'Items'}`
+      : 'Resubmit Application';
+
   console.log('[VerificationStatus] Config for status', currentStatus, ':', config);
 
   // 🎯 AUTO-REDIRECT: If status is approved, redirect to dashboard immediately
@@ -426,6 +453,56 @@ export default function VerificationStatusScreen() {
         <View className="px-6">
           {/* <SessionRecoveryBanner className="mb-6" /> */}
 
+          {currentStatus === 'rejected' && (rejectionReason || hasStepReviews) && (
+            <Card className="mb-6 overflow-hidden">
+              <CardHeader className="pb-4">
+                <View className="flex-row items-center">
+                  <View className="w-10 h-10 bg-destructive/10 rounded-full items-center justify-center mr-3">
+                    <Icon as={XCircle} size={20} className="text-destructive" />
+                  </View>
+                  <CardTitle className="text-foreground text-lg flex-1">
+                    Review Feedback
+                  </CardTitle>
+                </View>
+              </CardHeader>
+              <CardContent className="pt-0">
+                {rejectionReason && (
+                  <Text className="text-muted-foreground text-base leading-6 mb-4">
+                    {rejectionReason}
+                  </Text>
+                )}
+
+                {stepReviews.map((review) => {
+                  const isFixed = review.status === 'resubmitted';
+                  const stepTitle = VERIFICATION_STEPS[review.step_number as VerificationStepId]?.title || `Step ${review.step_number}`;
+
+                  return (
+                    <View key={`step-review-${review.step_number}`} className="flex-row items-start mb-4 last:mb-0">
+                      <View className={cn(
+                        "w-6 h-6 rounded-full items-center justify-center mr-3 mt-0.5",
+                        isFixed ? 'bg-success/15' : 'bg-destructive/10'
+                      )}>
+                        <Icon
+                          as={isFixed ? CheckCircle : XCircle}
+                          size={14}
+                          className={isFixed ? 'text-success' : 'text-destructive'}
+                        />
+                      </View>
+                      <View className="flex-1">
+                        <Text className="font-semibold text-base text-foreground">
+                          {stepTitle}
+                        </Text>
+                        <Text className="text-muted-foreground text-sm leading-5">
+                          {isFixed ? 'Updated - ready to resubmit' : review.error_message || 'Changes requested'}
+                        </Text>
+                      </View>
+                    </View>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
           <Card className="mb-6 overflow-hidden">
             <CardHeader className="pb-4">
               <View className="flex-row items-center">
@@ -523,7 +600,7 @@ export default function VerificationStatusScreen() {
 
             {config?.showRetryButton && (
               <Button
-                onPress={() => restartVerificationMutation.mutate()}
+                onPress={handleRetry}
                 disabled={restartVerificationMutation.isPending}
                 className="w-full h-14 rounded-xl"
                 size="lg"
@@ -535,7 +612,7 @@ export default function VerificationStatusScreen() {
                     <Icon as={XCircle} size={20} className="text-primary-foreground mr-2" />
                   )}
                   <Text className="text-primary-foreground font-semibold text-base">
-                    {restartVerificationMutation.isPending ? 'Starting Over...' : 'Submit New Application'}
+                    {restartVerificationMutation.isPending ? 'Starting Over...' : retryLabel}
                   </Text>
                 </View>
               </Button>
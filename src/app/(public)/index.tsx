@@ -11,6 +11,7 @@ import { Logo } from '@/components/branding';
  * 2. No session + onboarding done → /auth
  * 3. Authenticated + customer → /customer
  * 4. Authenticated + provider → /provider (verification check handled in provider layout)
+ * 5. Authenticated + admin / super-admin → /admin
  */
 export default function IndexScreen() {
   const session = useAuthStore((state) => state.session);
@@ -43,6 +44,11 @@ export default function IndexScreen() {
     return <Redirect href="/(provider)" />;
   }
 
+  // Route 5: Admin → Admin Console
+  if (userRole === 'admin' || userRole === 'super-admin') {
+    return <Redirect href="/(admin)" />;
+  }
+
   // Fallback: Show loading while determining role
   return (
     <View className="flex-1 bg-background items-center justify-center px-6">
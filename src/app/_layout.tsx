@@ -85,6 +85,8 @@ import { StripeProvider } from '@/app-providers/stripe-provider';
 
 import { ReviewModal } from '@/components/customer/review-modal';
 import { useReviewPrompt } from '@/hooks/customer/useReviewPrompt';
+import { usePushTokenRegistration } from '@/hooks/shared/usePushTokenRegistration';
+import { useNotificationResponseHandler } from '@/hooks/shared/useNotificationResponseHandler';
 
 // ✅ NEW: Import Zustand store and hydration hook (replacing SessionProvider)
 import { useAuthStore, useAuthHydration } from '@/stores/auth';
@@ -193,6 +195,8 @@ function RootNavigator() {
   // ✅ Call hooks for app-level features
   const { showPrompt, bookingId, providerName, serviceName, dismissPrompt, startReview, completeReview } = useReviewPrompt();
   const [showReviewModal, setShowReviewModal] = React.useState(false);
+  usePushTokenRegistration();
+  useNotificationResponseHandler();
 
   return (
     <>
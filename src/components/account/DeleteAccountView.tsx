@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { View, ScrollView } from 'react-native';
+import { AlertTriangle, CheckCircle, Trash2, FileText } from 'lucide-react-native';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Icon } from '@/components/ui/icon';
+import {
+  useDeleteAccount,
+  useLeaveDeletedAccount,
+  type AccountErasureReport,
+} from '@/hooks/auth/useDeleteAccount';
+
+interface DeleteAccountViewProps {
+  role: 'customer' | 'provider';
+}
+
+const CONFIRMATION_WORD = 'DELETE';
+
+const BUCKET_LABELS: Record<string, string> = {
+  'verification-images': 'ID documents, selfies and portfolio photos',
+  'service-images': 'Service photos',
+  'chat-images': 'Photos sent in chat',
+};
+
+const TABLE_LABELS: Record<string, string> = {
+  bookings: 'Bookings',
+  payments: 'Payments',
+  provider_payouts: 'Payouts',
+  reviews: 'Reviews',
+  verification_audit_log: 'Verification history',
+};
+
+const WHAT_IS_DELETED: Record<DeleteAccountViewProps['role'], string[]> = {
+  customer: [
+    'Your name, email, phone number and addresses',
+    'Saved cards, favourites and notifications',
+    'Photos you sent in chat (your messages show as "Message deleted")',
+  ],
+  provider: [
+    'Your name, contact details and business profile',
+    'ID documents, selfie and all verification records',
+    'Portfolio and service photos - your services are taken off ZOVA',
+    'Schedule, notifications and photos you sent in chat',
+  ],
+};
+
+function ErasureReportCard({ report }: { report: AccountErasureReport }) {
+  const filesRemoved = Object.values(report.storage).reduce((total, count) => total + count, 0);
+  const recordsRemoved = Object.values(report.deleted_rows).reduce((total, count) => total + count, 0);
+
+  return (
+    <Card>
+      <CardContent className="p-4 gap-3">
+        <View className="flex-row items-center">
+          <Icon as={FileText} size={18} className="text-primary mr-2" />
+          <Text className="text-base font-semibold text-foreground">Deletion report</Text>
+        </View>
+
+        <Text className="text-sm text-foreground">
+          {filesRemoved} file{filesRemoved === 1 ? '' : 's'} and {recordsRemoved} record{recordsRemoved === 1 ? '' : 's'} deleted
+        </Text>
+        {Object.entries(report.storage).map(([bucket, count]) => (
+          <Text key={bucket} className="text-sm text-muted-foreground">
+            • {BUCKET_LABELS[bucket] || bucket}: {count}
+          </Text>
+        ))}
+
+        <Text className="text-sm font-medium text-foreground mt-2">Kept without your personal details</Text>
+        {Object.entries(report.retained).map(([table, reason]) => (
+          <Text key={table} className="text-sm text-muted-foreground">
+            • {TABLE_LABELS[table] || table} - {reason}
+          </Text>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Permanent account deletion - explanation, typed confirmation and the erasure report
+ * Shared by the customer and provider profile screens.
+ */
+export function DeleteAccountView({ role }: DeleteAccountViewProps) {
+  const [confirmation, setConfirmation] = useState('');
+  const deleteAccount = useDeleteAccount();
+  const leaveDeletedAccount = useLeaveDeletedAccount();
+
+  const report = deleteAccount.data?.report;
+  const isConfirmed = confirmation.trim().toUpperCase() === CONFIRMATION_WORD;
+
+  if (report) {
+    return (
+      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+        <View className="p-4 gap-5">
+          <View className="items-center py-4">
+            <Icon as={CheckCircle} size={48} className="text-success mb-3" />
+            <Text className="text-xl font-bold text-foreground mb-1">Your account has been deleted</Text>
+            <Text className="text-sm text-muted-foreground text-center">
+              Thanks for using ZOVA. Your personal data has been removed.
+            </Text>
+          </View>
+
+          <ErasureReportCard report={report} />
+
+          {/* The layout redirects to sign-in once the session is cleared */}
+          <Button onPress={leaveDeletedAccount}>
+            <Text className="text-primary-foreground font-medium">Done</Text>
+          </Button>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView className="flex-1" showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+      <View className="p-4 gap-5">
+        <View className="flex-row p-4 bg-destructive/10 rounded-lg border border-destructive/20">
+          <Icon as={AlertTriangle} size={20} className="text-destructive mr-3 mt-0.5" />
+          <View className="flex-1">
+            <Text className="text-destructive font-semibold mb-1">This can't be undone</Text>
+            <Text className="text-destructive/90 text-sm">
+              You won't be able to sign in again or recover anything from this account.
+            </Text>
+          </View>
+        </View>
+
+        <View className="gap-2">
+          <Text className="text-sm font-medium text-foreground">What we delete</Text>
+          {WHAT_IS_DELETED[role].map((item) => (
+            <Text key={item} className="text-sm text-muted-foreground">• {item}</Text>
+          ))}
+        </View>
+
+        <View className="gap-2">
+          <Text className="text-sm font-medium text-foreground">What we keep</Text>
+          <Text className="text-sm text-muted-foreground">
+            Past bookings, payments{role === 'provider' ? ', payouts' : ''} and reviews are kept for our accounting records,
+            but they'll no longer show your name or contact details.
+          </Text>
+        </View>
+
+        <Text className="text-sm text-muted-foreground">
+          Upcoming bookings and active subscriptions need to be completed or cancelled first.
+        </Text>
+
+        <View className="gap-2">
+          <Text className="text-sm font-medium text-foreground">
+            Type {CONFIRMATION_WORD} to confirm
+          </Text>
+          <Input
+            value={confirmation}
+            onChangeText={setConfirmation}
+            placeholder={CONFIRMATION_WORD}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            editable={!deleteAccount.isPending}
+          />
+        </View>
+
+        {deleteAccount.error && (
+          <Text className="text-sm text-destructive">{deleteAccount.error.message}</Text>
+        )}
+
+        <Button
+          variant="destructive"
+          onPress={() => deleteAccount.mutate()}
+          disabled={!isConfirmed || deleteAccount.isPending}
+        >
+          <Icon as={Trash2} size={18} className="text-destructive-foreground mr-2" />
+          <Text className="text-destructive-foreground font-medium">
+            {deleteAccount.isPending ? 'Deleting account...' : 'Delete My Account'}
+          </Text>
+        </Button>
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,3 @@
+// Account management components
+
+export * from './DeleteAccountView';
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { View, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  SERIES_FREQUENCY_LABELS,
+  type BookingSeriesOccurrence,
+  type BookingSeriesWithOccurrences,
+  type SeriesFrequency,
+} from '@/hooks/shared/useBookingSeries';
+
+interface BookingSeriesCardProps {
+  series: BookingSeriesWithOccurrences;
+  // Booking being viewed - its own Cancel button handles it
+  currentBookingId?: string;
+  canSkip?: boolean;
+  isBusy?: boolean;
+  onSkip?: (occurrence: BookingSeriesOccurrence) => void;
+  onCancelSeries?: () => void;
+}
+
+const OCCURRENCE_STATUS: Record<string, { label: string; color: string }> = {
+  scheduled: { label: 'Scheduled', color: '#0ea5e9' },
+  processing: { label: 'Booking…', color: '#0ea5e9' },
+  booked: { label: 'Booked', color: '#10b981' },
+  skipped: { label: 'Skipped', color: '#6b7280' },
+  cancelled: { label: 'Cancelled', color: '#6b7280' },
+  unavailable: { label: 'Provider unavailable', color: '#f59e0b' },
+  failed: { label: 'Not booked', color: '#ef4444' },
+};
+
+const SKIPPABLE_STATUSES = ['scheduled', 'booked', 'unavailable', 'failed'];
+const COLLAPSED_COUNT = 4;
+
+const formatOccurrence = (date: string, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const slot = new Date(`${date}T00:00:00`);
+  slot.setHours(hours, minutes);
+  return format(slot, 'EEE d MMM, h:mm a');
+};
+
+/**
+ * Upcoming occurrences of a recurring booking, with skip / cancel-series actions
+ */
+export function BookingSeriesCard({
+  series,
+  currentBookingId,
+  canSkip = false,
+  isBusy = false,
+  onSkip,
+  onCancelSeries,
+}: BookingSeriesCardProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const upcoming = series.occurrences.filter((occurrence) => occurrence.occurrence_date >= today);
+  const visible = showAll ? upcoming : upcoming.slice(0, COLLAPSED_COUNT);
+  const isActive = series.status === 'active';
+
+  return (
+    <Card className="mb-4 bg-card">
+      <CardContent className="pt-4 gap-3">
+        <View className="flex-row items-center justify-between">
+          <View className="flex-row items-center gap-2">
+            <Ionicons name="repeat" size={18} color="#8b5cf6" />
+            <Text className="font-semibold text-foreground">
+              {SERIES_FREQUENCY_LABELS[series.frequency as SeriesFrequency] || 'Recurring'}
+            </Text>
+          </View>
+          <Text className="text-xs text-muted-foreground">
+            {isActive ? `${series.occurrence_count} visits` : series.status === 'cancelled' ? 'Series cancelled' : 'Series complete'}
+          </Text>
+        </View>
+
+        {visible.length === 0 ? (
+          <Text className="text-sm text-muted-foreground">No upcoming visits in this series.</Text>
+        ) : (
+          <View className="gap-2">
+            {visible.map((occurrence) => {
+              const status = OCCURRENCE_STATUS[occurrence.status] || { label: occurrence.status, color: '#6b7280' };
+              const isCurrent = !!currentBookingId && occurrence.booking_id === currentBookingId;
+              const showSkip = canSkip && isActive && !isCurrent && SKIPPABLE_STATUSES.includes(occurrence.status);
+
+              return (
+                <View key={occurrence.id} className="flex-row items-center justify-between py-1">
+                  <View className="flex-1">
+                    <Text className={`text-sm ${isCurrent ? 'font-semibold text-foreground' : 'text-foreground'}`}>
+                      {formatOccurrence(occurrence.occurrence_date, occurrence.start_time)}
+                      {isCurrent ? ' · this booking' : ''}
+                    </Text>
+                    <Text className="text-xs" style={{ color: status.color }}>
+                      {status.label}
+                      {occurrence.failure_reason && ['unavailable', 'failed'].includes(occurrence.status)
+                        ? ` · ${occurrence.failure_reason}`
+                        : ''}
+                    </Text>
+                  </View>
+                  {showSkip && onSkip && (
+                    <TouchableOpacity disabled={isBusy} onPress={() => onSkip(occurrence)} className="px-3 py-1.5">
+                      <Text className="text-sm font-medium text-primary">Skip</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {upcoming.length > COLLAPSED_COUNT && (
+          <TouchableOpacity onPress={() => setShowAll((value) => !value)}>
+            <Text className="text-sm font-medium text-primary">
+              {showAll ? 'Show less' : `Show all ${upcoming.length} visits`}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {isActive && onCancelSeries && (
+          <Button variant="outline" className="h-10" disabled={isBusy} onPress={onCancelSeries}>
+            <Text className="text-destructive font-medium">Cancel Whole Series</Text>
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
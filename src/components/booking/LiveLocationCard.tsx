@@ -0,0 +1,105 @@
+import React from 'react';
+import { View, Switch } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { Text } from '@/components/ui/text';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  estimateArrival,
+  useBookingDestination,
+  useBookingLiveLocation,
+} from '@/hooks/shared/useBookingLiveLocation';
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${meters} m` : `${(meters / 1000).toFixed(1)} km`;
+
+/**
+ * Customer view: where the provider is and roughly when they'll arrive
+ * Only shows something once the provider has chosen to share their location.
+ */
+export function ProviderLiveLocationCard({ bookingId, providerName }: { bookingId: string; providerName: string }) {
+  const { data: location } = useBookingLiveLocation(bookingId);
+  const { data: destination } = useBookingDestination(bookingId);
+
+  if (!location) {
+    return (
+      <Card className="mb-4 bg-card">
+        <CardContent className="p-4 flex-row items-center gap-3">
+          <View className="w-10 h-10 bg-muted rounded-full items-center justify-center">
+            <Ionicons name="navigate-outline" size={18} color="#6b7280" />
+          </View>
+          <Text className="flex-1 text-sm text-muted-foreground">
+            {providerName} isn't sharing their location right now
+          </Text>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const estimate = destination ? estimateArrival(location, destination) : null;
+
+  return (
+    <Card className="mb-4 bg-gradient-to-br from-sky-500/5 to-sky-500/10 border-sky-500/20">
+      <CardContent className="p-4 gap-3">
+        <View className="flex-row items-center gap-3">
+          <View className="w-10 h-10 bg-sky-500/20 rounded-full items-center justify-center">
+            <Ionicons name="navigate" size={18} color="#0ea5e9" />
+          </View>
+          <View className="flex-1">
+            <Text className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-0.5">
+              Live Location
+            </Text>
+            <Text className="text-base font-bold text-foreground">
+              {!estimate
+                ? `${providerName} is on the way`
+                : estimate.etaMinutes === 0
+                  ? `${providerName} has arrived`
+                  : `Arriving in about ${estimate.etaMinutes} min`}
+            </Text>
+          </View>
+        </View>
+        <View className="flex-row items-center justify-between">
+          <Text className="text-xs text-muted-foreground">
+            {estimate ? `${formatDistance(estimate.distanceMeters)} away` : 'Distance unavailable'}
+          </Text>
+          <Text className="text-xs text-muted-foreground">
+            Updated {formatDistanceToNow(new Date(location.updated_at), { addSuffix: true })}
+          </Text>
+        </View>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ShareLocationCardProps {
+  isSharing: boolean;
+  error?: string | null;
+  onToggle: (share: boolean) => void;
+}
+
+/**
+ * Provider view: opt in to sharing live location with the customer
+ */
+export function ShareLocationCard({ isSharing, error, onToggle }: ShareLocationCardProps) {
+  return (
+    <Card className="mb-4">
+      <CardContent className="p-4 gap-2">
+        <View className="flex-row items-center gap-3">
+          <View className="w-10 h-10 bg-sky-500/20 rounded-full items-center justify-center">
+            <Ionicons name={isSharing ? 'navigate' : 'navigate-outline'} size={18} color="#0ea5e9" />
+          </View>
+          <View className="flex-1">
+            <Text className="text-base font-semibold text-foreground">Share live location</Text>
+            <Text className="text-xs text-muted-foreground">
+              {isSharing
+                ? 'The customer can see your ETA. Sharing stops when the booking is completed.'
+                : 'Let the customer see where you are and when you\'ll arrive'}
+            </Text>
+          </View>
+          <Switch value={isSharing} onValueChange={onToggle} />
+        </View>
+        {error && <Text className="text-xs text-destructive">{error}</Text>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import React from 'react';
+import { View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { getPendingReschedule, type RescheduleRequest } from '@/hooks/shared/useBookingReschedule';
+
+interface RescheduleRequestCardProps {
+  requests: RescheduleRequest[];
+  viewerId?: string;
+  isBusy?: boolean;
+  onAccept: (request: RescheduleRequest) => void;
+  onDecline: (request: RescheduleRequest) => void;
+  onCounter: (request: RescheduleRequest) => void;
+  onWithdraw: (request: RescheduleRequest) => void;
+}
+
+const STATUS_LABELS: Record<string, { label: string; color: string }> = {
+  accepted: { label: 'Accepted', color: '#10b981' },
+  declined: { label: 'Declined', color: '#ef4444' },
+  countered: { label: 'Countered', color: '#f59e0b' },
+  withdrawn: { label: 'Withdrawn', color: '#6b7280' },
+  superseded: { label: 'Replaced', color: '#6b7280' },
+};
+
+const formatSlot = (date: string, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const slot = new Date(`${date}T00:00:00`);
+  slot.setHours(hours, minutes);
+  return format(slot, 'EEE d MMM, h:mm a');
+};
+
+/**
+ * Open reschedule proposal with the actions available to the viewer,
+ * followed by the history of earlier proposals for the booking.
+ */
+export function RescheduleRequestCard({
+  requests,
+  viewerId,
+  isBusy = false,
+  onAccept,
+  onDecline,
+  onCounter,
+  onWithdraw,
+}: RescheduleRequestCardProps) {
+  const pending = getPendingReschedule(requests);
+  const history = requests.filter((request) => request.status !== 'pending');
+
+  if (!pending && history.length === 0) return null;
+
+  const isOwnProposal = pending?.proposed_by === viewerId;
+  const proposer = pending?.proposed_by_role === 'provider' ? 'The provider' : 'The customer';
+
+  return (
+    <Card className="mb-4 bg-card">
+      <CardContent className="pt-4 gap-3">
+        {pending && (
+          <View className="bg-amber-50 dark:bg-amber-950/20 p-4 rounded-lg border border-amber-200 dark:border-amber-800 gap-3">
+            <View className="flex-row items-center gap-2">
+              <Ionicons name="swap-horizontal" size={18} color="#f59e0b" />
+              <Text className="text-amber-900 dark:text-amber-200 font-semibold text-sm">
+                {isOwnProposal ? 'Waiting for a response' : `${proposer} asked to reschedule`}
+              </Text>
+            </View>
+
+            <View className="gap-1">
+              <Text className="text-xs text-amber-800 dark:text-amber-300 line-through">
+                {formatSlot(pending.original_date, pending.original_start_time)}
+              </Text>
+              <Text className="text-base font-semibold text-foreground">
+                {formatSlot(pending.proposed_date, pending.proposed_start_time)}
+              </Text>
+              {pending.reason ? (
+                <Text className="text-xs text-amber-800 dark:text-amber-300 mt-1">"{pending.reason}"</Text>
+              ) : null}
+            </View>
+
+            {isOwnProposal ? (
+              <Button variant="outline" className="h-10" disabled={isBusy} onPress={() => onWithdraw(pending)}>
+                <Text className="text-foreground font-medium">Withdraw Request</Text>
+              </Button>
+            ) : (
+              <View className="gap-2">
+                <Button className="h-10" disabled={isBusy} onPress={() => onAccept(pending)}>
+                  <Text className="text-primary-foreground font-semibold">Accept New Time</Text>
+                </Button>
+                <View className="flex-row gap-2">
+                  <Button variant="outline" className="flex-1 h-10" disabled={isBusy} onPress={() => onCounter(pending)}>
+                    <Text className="text-foreground font-medium">Suggest Another</Text>
+                  </Button>
+                  <Button variant="outline" className="flex-1 h-10" disabled={isBusy} onPress={() => onDecline(pending)}>
+                    <Text className="text-destructive font-medium">Decline</Text>
+                  </Button>
+                </View>
+              </View>
+            )}
+          </View>
+        )}
+
+        {history.length > 0 && (
+          <View className="gap-2">
+            <Text className="text-xs font-semibold text-muted-foreground uppercase tracking-widest">
+              Reschedule History
+            </Text>
+            {history.map((request) => {
+              const status = STATUS_LABELS[request.status] || { label: request.status, color: '#6b7280' };
+              return (
+                <View key={request.id} className="flex-row items-center justify-between py-1">
+                  <View className="flex-1">
+                    <Text className="text-sm text-foreground">
+                      {formatSlot(request.proposed_date, request.proposed_start_time)}
+                    </Text>
+                    <Text className="text-xs text-muted-foreground">
+                      Proposed by {request.proposed_by_role} · {format(new Date(request.created_at), 'd MMM')}
+                    </Text>
+                  </View>
+                  <Text className="text-xs font-semibold" style={{ color: status.color }}>
+                    {status.label}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
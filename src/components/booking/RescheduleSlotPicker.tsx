@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Modal, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  useProviderAvailability,
+  useProviderBlackouts,
+  useProviderSchedule,
+} from '@/hooks/customer/useProviderAvailability';
+
+interface RescheduleSlotPickerProps {
+  visible: boolean;
+  providerId: string;
+  title?: string;
+  submitLabel?: string;
+  isSubmitting?: boolean;
+  // Current booking slot - not offered again
+  currentDate?: string;
+  currentTime?: string;
+  onClose: () => void;
+  onSubmit: (slot: { date: string; startTime: string; reason?: string }) => void;
+}
+
+const DAYS_AHEAD = 90;
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${period}`;
+};
+
+/**
+ * Pick a new date + time from the provider's real availability
+ * (weekly schedule, blackout dates and already-booked slots).
+ */
+export function RescheduleSlotPicker({
+  visible,
+  providerId,
+  title = 'Pick a New Time',
+  submitLabel = 'Send Request',
+  isSubmitting = false,
+  currentDate,
+  currentTime,
+  onClose,
+  onSubmit,
+}: RescheduleSlotPickerProps) {
+  const [selectedDate, setSelectedDate] = useState('');
+  const [selectedTime, setSelectedTime] = useState('');
+  const [reason, setReason] = useState('');
+  const [showCalendar, setShowCalendar] = useState(true);
+  // Calendar calls onDateSelect then onClose - only close the sheet when nothing was picked
+  const datePickedRef = useRef(false);
+
+  const { data: providerSchedule } = useProviderSchedule(providerId);
+  const { data: blackoutDates = [] } = useProviderBlackouts(providerId);
+  const { data: availability, isLoading: availabilityLoading } = useProviderAvailability(providerId, selectedDate);
+
+  // Days the provider doesn't work, plus blackout dates
+  const disabledDates = useMemo(() => {
+    const disabled: string[] = [];
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    for (let i = 0; i < DAYS_AHEAD; i++) {
+      const date = new Date(today);
+      date.setDate(today.getDate() + i);
+      const dayOfWeek = date.toLocaleString('en-US', { weekday: 'long' }).toLowerCase();
+      const daySchedule = providerSchedule?.schedule_data?.[dayOfWeek as keyof typeof providerSchedule.schedule_data];
+
+      if (!daySchedule?.enabled) {
+        disabled.push(toDateString(date));
+      }
+    }
+
+    return [...disabled, ...blackoutDates];
+  }, [providerSchedule, blackoutDates]);
+
+  const timeSlots = useMemo(() => {
+    const now = new Date();
+    const isToday = selectedDate === toDateString(now);
+    const nowTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+
+    return (availability?.availableSlots || [])
+      .filter((slot) => slot.available)
+      .filter((slot) => !isToday || slot.time > nowTime)
+      .filter((slot) => !(selectedDate === currentDate && slot.time === currentTime?.slice(0, 5)));
+  }, [availability, selectedDate, currentDate, currentTime]);
+
+  // Start from the calendar again every time the sheet is opened
+  useEffect(() => {
+    if (!visible) {
+      setSelectedDate('');
+      setSelectedTime('');
+      setReason('');
+      setShowCalendar(true);
+    }
+  }, [visible]);
+
+  const handleSubmit = () => {
+    if (!selectedDate || !selectedTime) return;
+    onSubmit({ date: selectedDate, startTime: selectedTime, reason: reason.trim() || undefined });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView className="flex-1 bg-background">
+        {showCalendar ? (
+          <Calendar
+            key={JSON.stringify(disabledDates)} // Force re-mount when disabledDates changes
+            selectedDate={selectedDate}
+            onDateSelect={(date) => {
+              datePickedRef.current = true;
+              setSelectedDate(date);
+              setSelectedTime('');
+              setShowCalendar(false);
+            }}
+            onClose={() => {
+              if (!datePickedRef.current) {
+                // Back to the time list if a date was already chosen
+                if (selectedDate) {
+                  setShowCalendar(false);
+                } else {
+                  onClose();
+                }
+              }
+              datePickedRef.current = false;
+            }}
+            disabledDates={disabledDates}
+          />
+        ) : (
+          <View className="flex-1">
+            {/* Header */}
+            <View className="px-4 py-4 border-b border-border flex-row items-center justify-between">
+              <TouchableOpacity onPress={onClose}>
+                <Ionicons name="close" size={24} color="#6b7280" />
+              </TouchableOpacity>
+              <Text className="text-xl font-bold text-foreground">{title}</Text>
+              <View className="w-6" />
+            </View>
+
+            <ScrollView className="flex-1" contentContainerStyle={{ padding: 16, gap: 16 }}>
+              <TouchableOpacity
+                onPress={() => setShowCalendar(true)}
+                className="flex-row items-center justify-between p-4 rounded-lg border border-border bg-card"
+              >
+                <View className="flex-row items-center gap-3">
+                  <Ionicons name="calendar" size={20} color="#0ea5e9" />
+                  <Text className="text-foreground font-medium">
+                    {new Date(selectedDate).toLocaleDateString('en-US', {
+                      weekday: 'long',
+                      month: 'long',
+                      day: 'numeric',
+                    })}
+                  </Text>
+                </View>
+                <Text className="text-primary text-sm font-medium">Change</Text>
+              </TouchableOpacity>
+
+              <View>
+                <Text className="text-sm font-semibold text-foreground mb-2">Available Times</Text>
+                {availabilityLoading ? (
+                  <View className="py-6 items-center">
+                    <ActivityIndicator />
+                  </View>
+                ) : timeSlots.length === 0 ? (
+                  <Text className="text-sm text-muted-foreground">
+                    No free times on this day. Please choose another date.
+                  </Text>
+                ) : (
+                  <View className="flex-row flex-wrap gap-2">
+                    {timeSlots.map((slot) => (
+                      <TouchableOpacity
+                        key={slot.time}
+                        onPress={() => setSelectedTime(slot.time)}
+                        className={`px-4 py-2.5 rounded-lg border ${
+                          selectedTime === slot.time ? 'bg-primary border-primary' : 'bg-card border-border'
+                        }`}
+                      >
+                        <Text className={selectedTime === slot.time ? 'text-primary-foreground font-medium' : 'text-foreground'}>
+                          {formatTime(slot.time)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </View>
+
+              <View>
+                <Text className="text-sm font-semibold text-foreground mb-2">Message (optional)</Text>
+                <Textarea
+                  value={reason}
+                  onChangeText={setReason}
+                  placeholder="Let them know why you'd like to change the time"
+                  className="min-h-[80px]"
+                />
+              </View>
+            </ScrollView>
+
+            <View className="p-4 border-t border-border">
+              <Button
+                onPress={handleSubmit}
+                disabled={!selectedTime || isSubmitting}
+                className="w-full h-12"
+              >
+                <Text className="text-primary-foreground font-semibold">
+                  {isSubmitting ? 'Sending...' : submitLabel}
+                </Text>
+              </Button>
+            </View>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
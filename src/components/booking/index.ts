@@ -0,0 +1,6 @@
+// Booking components shared by customer and provider screens (rescheduling, recurring series, live location)
+
+export * from './RescheduleSlotPicker';
+export * from './RescheduleRequestCard';
+export * from './BookingSeriesCard';
+export * from './LiveLocationCard';
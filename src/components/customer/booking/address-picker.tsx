@@ -0,0 +1,104 @@
+/**
+ * Address Picker Component
+ *
+ * Lets customers choose one of their saved (geocoded) addresses for a booking.
+ * New addresses are added in the address book so every booking has coordinates.
+ */
+
+import React from 'react';
+import { View, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import {
+  ADDRESS_LABELS,
+  formatAddress,
+  type SavedAddress,
+} from '@/hooks/customer/useAddresses';
+
+interface AddressPickerProps {
+  addresses: SavedAddress[];
+  selectedId: string | null;
+  onSelect: (address: SavedAddress) => void;
+  isLoading?: boolean;
+}
+
+const labelIcon = (address: SavedAddress) =>
+  ADDRESS_LABELS.find((item) => item.value === address.label)?.icon || 'location';
+
+export const AddressPicker: React.FC<AddressPickerProps> = ({
+  addresses,
+  selectedId,
+  onSelect,
+  isLoading = false,
+}) => {
+  if (isLoading) {
+    return (
+      <View className="py-6 items-center">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (addresses.length === 0) {
+    return (
+      <View className="items-center py-4 gap-3">
+        <Text className="text-sm text-muted-foreground text-center">
+          Save an address so your provider knows exactly where to go
+        </Text>
+        <Button variant="outline" size="sm" onPress={() => router.push('/(customer)/profile/addresses')}>
+          <Text>Add Address</Text>
+        </Button>
+      </View>
+    );
+  }
+
+  return (
+    <View className="gap-2">
+      {addresses.map((address) => {
+        const isSelected = address.id === selectedId;
+
+        return (
+          <TouchableOpacity
+            key={address.id}
+            onPress={() => onSelect(address)}
+            className={`flex-row items-center gap-3 p-3 rounded-lg border ${
+              isSelected ? 'border-primary bg-primary/5' : 'border-border'
+            }`}
+          >
+            <Ionicons
+              name={labelIcon(address)}
+              size={18}
+              className={isSelected ? 'text-primary' : 'text-muted-foreground'}
+            />
+            <View className="flex-1">
+              <View className="flex-row items-center gap-2">
+                <Text className="font-semibold text-foreground">{address.title}</Text>
+                {address.is_default && (
+                  <Text className="text-xs text-muted-foreground">Default</Text>
+                )}
+              </View>
+              <Text className="text-sm text-muted-foreground" numberOfLines={2}>
+                {formatAddress(address)}
+              </Text>
+            </View>
+            <Ionicons
+              name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+              size={20}
+              className={isSelected ? 'text-primary' : 'text-muted-foreground'}
+            />
+          </TouchableOpacity>
+        );
+      })}
+
+      <TouchableOpacity
+        onPress={() => router.push('/(customer)/profile/addresses')}
+        className="flex-row items-center gap-2 py-2"
+      >
+        <Ionicons name="add-circle-outline" size={18} className="text-primary" />
+        <Text className="text-sm font-semibold text-primary">Manage addresses</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
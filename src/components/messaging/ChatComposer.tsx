@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { View, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+
+interface ChatComposerProps {
+  onSend: (params: { content?: string; imageUri?: string }) => Promise<void>;
+  isSending?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Message input with text and photo attachment
+ */
+export function ChatComposer({ onSend, isSending = false, disabled = false }: ChatComposerProps) {
+  const [text, setText] = useState('');
+
+  const handleSend = async () => {
+    const content = text.trim();
+    if (!content || isSending) return;
+
+    try {
+      await onSend({ content });
+      setText('');
+    } catch (error) {
+      console.error('[ChatComposer] Send failed:', error);
+      Alert.alert('Message Not Sent', 'Failed to send your message. Please try again.');
+    }
+  };
+
+  const handlePickImage = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission needed', 'We need access to your photos to send images.');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        allowsEditing: true,
+        quality: 0.7,
+      });
+
+      if (!result.canceled && result.assets?.[0]) {
+        await onSend({ imageUri: result.assets[0].uri, content: text.trim() || undefined });
+        setText('');
+      }
+    } catch (error) {
+      console.error('[ChatComposer] Image send failed:', error);
+      Alert.alert('Image Not Sent', 'Failed to send the image. Please try again.');
+    }
+  };
+
+  const canSend = text.trim().length > 0 && !isSending && !disabled;
+
+  return (
+    <View className="flex-row items-end px-3 py-2 border-t border-border bg-background">
+      <TouchableOpacity
+        onPress={handlePickImage}
+        disabled={isSending || disabled}
+        className="w-10 h-10 items-center justify-center"
+      >
+        <Ionicons name="image-outline" size={24} color="#6b7280" />
+      </TouchableOpacity>
+
+      <TextInput
+        value={text}
+        onChangeText={setText}
+        placeholder={disabled ? 'Messaging is closed for this booking' : 'Type a message...'}
+        placeholderTextColor="#9ca3af"
+        editable={!disabled}
+        multiline
+        maxLength={2000}
+        className="flex-1 min-h-10 max-h-28 px-4 py-2 mx-2 rounded-2xl bg-muted text-foreground"
+      />
+
+      <TouchableOpacity
+        onPress={handleSend}
+        disabled={!canSend}
+        className={`w-10 h-10 rounded-full items-center justify-center ${canSend ? 'bg-primary' : 'bg-muted'}`}
+      >
+        {isSending ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : (
+          <Ionicons name="send" size={18} color={canSend ? '#ffffff' : '#9ca3af'} />
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
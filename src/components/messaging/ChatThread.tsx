@@ -0,0 +1,127 @@
+import React, { useEffect, useRef } from 'react';
+import { View, FlatList, KeyboardAvoidingView, Platform, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { Text } from '@/components/ui/text';
+import {
+  useConversation,
+  useConversationMessages,
+  useConversationRealtime,
+  useMarkConversationRead,
+  useSendMessage,
+} from '@/hooks/shared/useMessages';
+import { MessageBubble } from './MessageBubble';
+import { ChatComposer } from './ChatComposer';
+
+interface ChatThreadProps {
+  conversationId: string;
+  currentUserId: string;
+  onBack: () => void;
+  onOpenBooking?: (bookingId: string) => void;
+}
+
+// Bookings in these states no longer accept new messages
+const CLOSED_STATUSES = ['cancelled', 'declined', 'expired'];
+
+/**
+ * Full chat thread for a booking conversation
+ * - Live updates via Supabase Realtime
+ * - Marks incoming messages as read while the thread is open
+ */
+export function ChatThread({ conversationId, currentUserId, onBack, onOpenBooking }: ChatThreadProps) {
+  const listRef = useRef<FlatList>(null);
+
+  const { data: conversation } = useConversation(conversationId, currentUserId);
+  const { data: messages = [], isLoading } = useConversationMessages(conversationId);
+  const sendMessage = useSendMessage();
+  const markRead = useMarkConversationRead();
+
+  useConversationRealtime(conversationId);
+
+  // ✅ Read receipts: mark as read whenever an unread incoming message is present
+  const hasUnreadIncoming = messages.some(
+    (m) => !m.is_read && m.sender_id && m.sender_id !== currentUserId
+  );
+  useEffect(() => {
+    if (hasUnreadIncoming && !markRead.isPending) {
+      markRead.mutate(conversationId);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasUnreadIncoming, conversationId]);
+
+  const isClosed = !!conversation?.bookingStatus && CLOSED_STATUSES.includes(conversation.bookingStatus);
+
+  const handleSend = async ({ content, imageUri }: { content?: string; imageUri?: string }) => {
+    await sendMessage.mutateAsync({
+      conversationId,
+      senderId: currentUserId,
+      content,
+      imageUri,
+    });
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-background" edges={['top']}>
+      {/* Header */}
+      <View className="flex-row items-center px-4 py-3 border-b border-border">
+        <TouchableOpacity onPress={onBack} className="w-8 h-8 justify-center">
+          <Ionicons name="chevron-back" size={24} color="#6b7280" />
+        </TouchableOpacity>
+        <View className="flex-1 ml-2">
+          <Text className="font-semibold text-foreground" numberOfLines={1}>
+            {conversation?.otherParty.name || 'Conversation'}
+          </Text>
+          {conversation && (
+            <Text className="text-xs text-muted-foreground" numberOfLines={1}>
+              {conversation.serviceTitle}
+              {conversation.bookingDate ? ` • ${format(new Date(conversation.bookingDate), 'dd MMM yyyy')}` : ''}
+            </Text>
+          )}
+        </View>
+        {conversation?.bookingId && onOpenBooking && (
+          <TouchableOpacity
+            onPress={() => onOpenBooking(conversation.bookingId!)}
+            className="px-3 py-1.5 rounded-full bg-muted"
+          >
+            <Text className="text-xs font-medium text-foreground">View Booking</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 8 : 0}
+      >
+        {isLoading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" />
+          </View>
+        ) : (
+          <FlatList
+            ref={listRef}
+            data={messages}
+            keyExtractor={(item) => item.id}
+            renderItem={({ item }) => (
+              <MessageBubble message={item} isOwn={item.sender_id === currentUserId} />
+            )}
+            contentContainerStyle={{ paddingVertical: 12, flexGrow: 1 }}
+            onContentSizeChange={() => listRef.current?.scrollToEnd({ animated: false })}
+            ListEmptyComponent={
+              <View className="flex-1 items-center justify-center px-6">
+                <Ionicons name="chatbubble-ellipses-outline" size={48} color="#9ca3af" />
+                <Text className="text-muted-foreground text-center mt-3">
+                  Say hello! Messages here are shared only between you and{' '}
+                  {conversation?.otherParty.name || 'the other party'}.
+                </Text>
+              </View>
+            }
+          />
+        )}
+
+        <ChatComposer onSend={handleSend} isSending={sendMessage.isPending} disabled={isClosed} />
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,138 @@
+import React from 'react';
+import { View, FlatList, TouchableOpacity, RefreshControl } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format, isToday, isYesterday } from 'date-fns';
+import { Text } from '@/components/ui/text';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { ConversationSummary } from '@/hooks/shared/useMessages';
+
+interface ConversationListProps {
+  conversations: ConversationSummary[];
+  currentUserId?: string;
+  isLoading: boolean;
+  isRefreshing?: boolean;
+  onRefresh?: () => void;
+  onSelect: (conversation: ConversationSummary) => void;
+  emptyMessage?: string;
+}
+
+const formatTimestamp = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isToday(date)) return format(date, 'HH:mm');
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'dd MMM');
+};
+
+const getInitials = (name: string) =>
+  name
+    .split(' ')
+    .map((part) => part.charAt(0))
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
+
+/**
+ * Inbox list of booking conversations with last message preview and unread badge
+ */
+export function ConversationList({
+  conversations,
+  currentUserId,
+  isLoading,
+  isRefreshing = false,
+  onRefresh,
+  onSelect,
+  emptyMessage = 'Messages about your bookings will appear here.',
+}: ConversationListProps) {
+  if (isLoading) {
+    return (
+      <View className="px-4 pt-2">
+        {[1, 2, 3, 4].map((i) => (
+          <View key={i} className="flex-row items-center py-3">
+            <Skeleton className="w-12 h-12 rounded-full" />
+            <View className="flex-1 ml-3">
+              <Skeleton className="w-32 h-4 mb-2" />
+              <Skeleton className="w-48 h-3" />
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  }
+
+  const renderItem = ({ item }: { item: ConversationSummary }) => {
+    const hasUnread = item.unreadCount > 0;
+    const preview = item.lastMessage
+      ? item.lastMessage.message_type === 'image'
+        ? '📷 Photo'
+        : item.lastMessage.content
+      : 'No messages yet';
+    const isOwnLast = !!item.lastMessage && item.lastMessage.sender_id === currentUserId;
+
+    return (
+      <TouchableOpacity
+        onPress={() => onSelect(item)}
+        className="flex-row items-center px-4 py-3 border-b border-border"
+        activeOpacity={0.7}
+      >
+        <Avatar className="w-12 h-12" alt={item.otherParty.name}>
+          {item.otherParty.avatarUrl ? <AvatarImage source={{ uri: item.otherParty.avatarUrl }} /> : null}
+          <AvatarFallback className="bg-primary/10">
+            <Text className="text-primary font-semibold">{getInitials(item.otherParty.name)}</Text>
+          </AvatarFallback>
+        </Avatar>
+
+        <View className="flex-1 ml-3">
+          <View className="flex-row items-center justify-between">
+            <Text className={`flex-1 ${hasUnread ? 'font-bold' : 'font-semibold'} text-foreground`} numberOfLines={1}>
+              {item.otherParty.name}
+            </Text>
+            <Text className={`text-xs ml-2 ${hasUnread ? 'text-primary font-semibold' : 'text-muted-foreground'}`}>
+              {formatTimestamp(item.lastMessage?.created_at || item.lastMessageAt)}
+            </Text>
+          </View>
+          <Text className="text-xs text-muted-foreground" numberOfLines={1}>
+            {item.serviceTitle}
+            {item.bookingDate ? ` • ${format(new Date(item.bookingDate), 'dd MMM yyyy')}` : ''}
+          </Text>
+          <View className="flex-row items-center justify-between mt-1">
+            <Text
+              className={`flex-1 text-sm ${hasUnread ? 'text-foreground font-medium' : 'text-muted-foreground'}`}
+              numberOfLines={1}
+            >
+              {isOwnLast ? 'You: ' : ''}
+              {preview}
+            </Text>
+            {hasUnread && (
+              <View className="bg-primary rounded-full min-w-5 h-5 px-1.5 items-center justify-center ml-2">
+                <Text className="text-primary-foreground text-xs font-bold">
+                  {item.unreadCount > 99 ? '99+' : item.unreadCount}
+                </Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <FlatList
+      data={conversations}
+      keyExtractor={(item) => item.id}
+      renderItem={renderItem}
+      refreshControl={onRefresh ? <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} /> : undefined}
+      contentContainerStyle={conversations.length === 0 ? { flexGrow: 1 } : undefined}
+      ListEmptyComponent={
+        <View className="flex-1 justify-center items-center px-6">
+          <Ionicons name="chatbubbles-outline" size={56} color="#9ca3af" />
+          <Text variant="h4" className="text-center mt-4 mb-2">
+            No conversations yet
+          </Text>
+          <Text className="text-muted-foreground text-center">{emptyMessage}</Text>
+        </View>
+      }
+    />
+  );
+}
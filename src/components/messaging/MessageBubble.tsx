@@ -0,0 +1,77 @@
+import React from 'react';
+import { View, Image, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { Text } from '@/components/ui/text';
+import { useChatImageUrl, type ChatMessage } from '@/hooks/shared/useMessages';
+
+interface MessageBubbleProps {
+  message: ChatMessage;
+  isOwn: boolean;
+}
+
+/**
+ * Single chat message
+ * - Own messages align right with read receipt ticks
+ * - System messages (booking status changes) render centered
+ */
+export function MessageBubble({ message, isOwn }: MessageBubbleProps) {
+  const { data: imageUrl, isLoading: imageLoading } = useChatImageUrl(
+    message.message_type === 'image' ? message.image_path : null
+  );
+
+  const time = message.created_at ? format(new Date(message.created_at), 'HH:mm') : '';
+
+  if (message.message_type === 'system') {
+    return (
+      <View className="items-center my-2 px-6">
+        <View className="bg-muted rounded-full px-3 py-1.5 flex-row items-center">
+          <Ionicons name="information-circle-outline" size={14} color="#6b7280" />
+          <Text className="text-xs text-muted-foreground ml-1 text-center">{message.content}</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View className={`my-1 px-4 ${isOwn ? 'items-end' : 'items-start'}`}>
+      <View
+        className={`max-w-[80%] rounded-2xl px-3 py-2 ${
+          isOwn ? 'bg-primary rounded-br-sm' : 'bg-card border border-border rounded-bl-sm'
+        }`}
+      >
+        {message.message_type === 'image' && (
+          <View className="mb-1 rounded-xl overflow-hidden bg-muted w-56 h-56 items-center justify-center">
+            {imageLoading ? (
+              <ActivityIndicator size="small" />
+            ) : imageUrl ? (
+              <Image source={{ uri: imageUrl }} className="w-56 h-56" resizeMode="cover" />
+            ) : (
+              <Ionicons name="image-outline" size={32} color="#9ca3af" />
+            )}
+          </View>
+        )}
+
+        {(message.message_type !== 'image' || message.content !== 'Photo') && (
+          <Text className={isOwn ? 'text-primary-foreground' : 'text-foreground'}>
+            {message.content}
+          </Text>
+        )}
+
+        <View className="flex-row items-center justify-end mt-1">
+          <Text className={`text-[10px] ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+            {time}
+          </Text>
+          {isOwn && (
+            <Ionicons
+              name={message.is_read ? 'checkmark-done' : 'checkmark'}
+              size={14}
+              color={message.is_read ? '#38bdf8' : 'rgba(255,255,255,0.7)'}
+              style={{ marginLeft: 4 }}
+            />
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
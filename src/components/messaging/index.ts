@@ -0,0 +1,6 @@
+// Customer ↔ provider messaging components
+
+export * from './ConversationList';
+export * from './ChatThread';
+export * from './MessageBubble';
+export * from './ChatComposer';
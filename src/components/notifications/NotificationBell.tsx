@@ -0,0 +1,37 @@
+import React from 'react';
+import { View, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Text } from '@/components/ui/text';
+import { useAuthStore } from '@/stores/auth';
+import { useUnreadNotificationCount } from '@/hooks/shared/useNotifications';
+
+interface NotificationBellProps {
+  href: string;
+  color?: string;
+}
+
+/**
+ * Header bell with unread notification badge
+ */
+export function NotificationBell({ href, color = '#6b7280' }: NotificationBellProps) {
+  const user = useAuthStore((state) => state.user);
+  const { data: unreadCount = 0 } = useUnreadNotificationCount(user?.id);
+
+  return (
+    <TouchableOpacity
+      onPress={() => router.push(href as any)}
+      className="w-11 h-11 rounded-full bg-muted items-center justify-center"
+      accessibilityLabel={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+    >
+      <Ionicons name={unreadCount > 0 ? 'notifications' : 'notifications-outline'} size={22} color={color} />
+      {unreadCount > 0 && (
+        <View className="absolute -top-0.5 -right-0.5 bg-destructive rounded-full min-w-5 h-5 px-1 items-center justify-center">
+          <Text className="text-white text-[10px] font-bold">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import { View, SectionList, TouchableOpacity, RefreshControl } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format, isToday, isYesterday } from 'date-fns';
+import { Text } from '@/components/ui/text';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { AppNotification, NotificationType } from '@/hooks/shared/useNotifications';
+
+interface NotificationListProps {
+  notifications: AppNotification[];
+  isLoading: boolean;
+  isRefreshing?: boolean;
+  onRefresh?: () => void;
+  onPress: (notification: AppNotification) => void;
+}
+
+interface NotificationSection {
+  title: string;
+  data: AppNotification[];
+}
+
+const TYPE_ICONS: Record<NotificationType, { name: keyof typeof Ionicons.glyphMap; color: string }> = {
+  booking_confirmed: { name: 'checkmark-circle', color: '#22c55e' },
+  booking_cancelled: { name: 'close-circle', color: '#ef4444' },
+  booking_expired: { name: 'hourglass', color: '#6b7280' },
+  booking_reminder: { name: 'alarm', color: '#f59e0b' },
+  booking_rescheduled: { name: 'swap-horizontal', color: '#0ea5e9' },
+  booking_series: { name: 'repeat', color: '#8b5cf6' },
+  payment_received: { name: 'cash', color: '#22c55e' },
+  payment_dispute: { name: 'alert-circle', color: '#ef4444' },
+  review_request: { name: 'star-outline', color: '#f59e0b' },
+  new_review: { name: 'star', color: '#f59e0b' },
+  provider_response: { name: 'chatbubble-ellipses', color: '#0ea5e9' },
+  sos_request: { name: 'medkit', color: '#ef4444' },
+  verification_update: { name: 'shield-checkmark', color: '#22c55e' },
+  document_expiry: { name: 'id-card', color: '#f59e0b' },
+  general: { name: 'notifications', color: '#0ea5e9' },
+};
+
+const getDayLabel = (date: Date) => {
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'EEEE, d MMMM');
+};
+
+/**
+ * Notification inbox grouped by day (Today, Yesterday, then dates)
+ */
+export function NotificationList({
+  notifications,
+  isLoading,
+  isRefreshing = false,
+  onRefresh,
+  onPress,
+}: NotificationListProps) {
+  const sections = useMemo<NotificationSection[]>(() => {
+    const groups = new Map<string, AppNotification[]>();
+
+    notifications.forEach((notification) => {
+      const label = notification.created_at ? getDayLabel(new Date(notification.created_at)) : 'Earlier';
+      const group = groups.get(label) || [];
+      group.push(notification);
+      groups.set(label, group);
+    });
+
+    return Array.from(groups.entries()).map(([title, data]) => ({ title, data }));
+  }, [notifications]);
+
+  if (isLoading) {
+    return (
+      <View className="px-4 pt-4">
+        {[1, 2, 3, 4, 5].map((i) => (
+          <View key={i} className="flex-row items-start py-3">
+            <Skeleton className="w-10 h-10 rounded-full" />
+            <View className="flex-1 ml-3">
+              <Skeleton className="w-40 h-4 mb-2" />
+              <Skeleton className="w-full h-3" />
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  }
+
+  return (
+    <SectionList
+      sections={sections}
+      keyExtractor={(item) => item.id}
+      stickySectionHeadersEnabled={false}
+      refreshControl={onRefresh ? <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} /> : undefined}
+      contentContainerStyle={sections.length === 0 ? { flexGrow: 1 } : { paddingBottom: 24 }}
+      renderSectionHeader={({ section }) => (
+        <View className="px-4 pt-4 pb-2 bg-background">
+          <Text className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+            {section.title}
+          </Text>
+        </View>
+      )}
+      renderItem={({ item }) => {
+        const icon = TYPE_ICONS[item.type] || TYPE_ICONS.general;
+        const isUnread = !item.is_read;
+
+        return (
+          <TouchableOpacity
+            onPress={() => onPress(item)}
+            activeOpacity={0.7}
+            className={`flex-row items-start px-4 py-3 ${isUnread ? 'bg-primary/5' : ''}`}
+          >
+            <View className="w-10 h-10 rounded-full bg-muted items-center justify-center">
+              <Ionicons name={icon.name} size={20} color={icon.color} />
+            </View>
+            <View className="flex-1 ml-3">
+              <View className="flex-row items-center justify-between">
+                <Text className={`flex-1 text-foreground ${isUnread ? 'font-bold' : 'font-medium'}`} numberOfLines={1}>
+                  {item.title}
+                </Text>
+                <Text className="text-xs text-muted-foreground ml-2">
+                  {item.created_at ? format(new Date(item.created_at), 'HH:mm') : ''}
+                </Text>
+              </View>
+              <Text className="text-sm text-muted-foreground mt-0.5" numberOfLines={3}>
+                {item.message}
+              </Text>
+            </View>
+            {isUnread && <View className="w-2 h-2 rounded-full bg-primary ml-2 mt-2" />}
+          </TouchableOpacity>
+        );
+      }}
+      ListEmptyComponent={
+        <View className="flex-1 justify-center items-center px-6">
+          <Ionicons name="notifications-off-outline" size={56} color="#9ca3af" />
+          <Text variant="h4" className="text-center mt-4 mb-2">
+            You're all caught up
+          </Text>
+          <Text className="text-muted-foreground text-center">
+            Booking updates, reviews and reminders will show up here.
+          </Text>
+        </View>
+      }
+    />
+  );
+}
@@ -0,0 +1,4 @@
+// Notification inbox components
+
+export * from './NotificationList';
+export * from './NotificationBell';
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { View, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  useProviderDisputes,
+  useSubmitDisputeEvidence,
+  canRespondToDispute,
+  type ProviderDispute,
+  type DisputeStatus,
+} from '@/hooks/provider/useDisputes';
+
+interface DisputesSectionProps {
+  providerId?: string;
+}
+
+const MAX_STATEMENT_LENGTH = 5000;
+
+const STATUS_LABELS: Record<DisputeStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  warning_needs_response: { label: 'Response needed', variant: 'destructive' },
+  needs_response: { label: 'Response needed', variant: 'destructive' },
+  warning_under_review: { label: 'Under review', variant: 'secondary' },
+  under_review: { label: 'Under review', variant: 'secondary' },
+  warning_closed: { label: 'Closed', variant: 'outline' },
+  won: { label: 'Won', variant: 'default' },
+  lost: { label: 'Lost', variant: 'outline' },
+};
+
+const formatReason = (reason: string | null) =>
+  reason ? reason.replace(/_/g, ' ').replace(/^\w/, (l) => l.toUpperCase()) : 'No reason given';
+
+function DisputeCard({ dispute }: { dispute: ProviderDispute }) {
+  const [statement, setStatement] = useState(dispute.provider_statement || '');
+  const submitEvidence = useSubmitDisputeEvidence();
+  const status = STATUS_LABELS[dispute.status] || STATUS_LABELS.under_review;
+  const canRespond = canRespondToDispute(dispute);
+
+  const handleSubmit = () => {
+    Alert.alert(
+      'Submit Evidence',
+      'Your statement will be sent to the customer\'s bank together with the booking details, messages and completion record. Evidence can only be submitted once.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Submit',
+          onPress: () => {
+            submitEvidence.mutate(
+              { disputeId: dispute.id, statement: statement.trim() },
+              {
+                onSuccess: () => Alert.alert('Evidence Submitted', 'The bank will review your evidence. We\'ll notify you when the dispute is decided.'),
+                onError: (error: any) => Alert.alert('Submission Failed', error?.message || 'Please try again.'),
+              }
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View className="p-3 bg-muted/50 rounded-lg gap-2">
+      <View className="flex-row items-center justify-between">
+        <Text className="font-medium text-foreground flex-1 mr-2" numberOfLines={1}>
+          {dispute.service_title || 'Booking'}
+        </Text>
+        <Badge variant={status.variant}>
+          <Text>{status.label}</Text>
+        </Badge>
+      </View>
+
+      <Text variant="small" className="text-muted-foreground">
+        £{(dispute.amount / 100).toFixed(2)} · {formatReason(dispute.reason)}
+        {dispute.customer_name ? ` · ${dispute.customer_name}` : ''}
+        {dispute.booking_date ? ` · ${format(new Date(dispute.booking_date), 'd MMM yyyy')}` : ''}
+      </Text>
+
+      {canRespond && dispute.evidence_due_by && (
+        <View className="flex-row items-center">
+          <Ionicons name="time-outline" size={14} color="#ef4444" />
+          <Text variant="small" className="text-destructive ml-1">
+            Respond by {format(new Date(dispute.evidence_due_by), 'd MMM yyyy, HH:mm')}
+          </Text>
+        </View>
+      )}
+
+      {dispute.evidence_submitted_at && (
+        <Text variant="small" className="text-muted-foreground">
+          Evidence submitted {format(new Date(dispute.evidence_submitted_at), 'd MMM yyyy')}
+        </Text>
+      )}
+
+      {canRespond && (
+        <View className="gap-2 mt-1">
+          <Textarea
+            placeholder="Explain what happened - e.g. the service was delivered on the booked date and the customer confirmed it was complete."
+            value={statement}
+            onChangeText={setStatement}
+            maxLength={MAX_STATEMENT_LENGTH}
+            numberOfLines={5}
+          />
+          <Button
+            onPress={handleSubmit}
+            disabled={submitEvidence.isPending || !statement.trim()}
+          >
+            <Text className="text-primary-foreground font-semibold">
+              {submitEvidence.isPending ? 'Submitting...' : 'Submit Evidence'}
+            </Text>
+          </Button>
+        </View>
+      )}
+    </View>
+  );
+}
+
+/**
+ * Chargebacks on the provider's bookings
+ * Payouts for disputed bookings are on hold until the bank decides.
+ */
+export function DisputesSection({ providerId }: DisputesSectionProps) {
+  const { data: disputes = [] } = useProviderDisputes(providerId);
+
+  if (disputes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <CardTitle>Payment Disputes</CardTitle>
+        <Text variant="small" className="text-muted-foreground">
+          Payouts for disputed bookings are on hold until the customer's bank makes a decision
+        </Text>
+      </CardHeader>
+      <CardContent>
+        <View className="gap-3">
+          {disputes.map((dispute) => (
+            <DisputeCard key={dispute.id} dispute={dispute} />
+          ))}
+        </View>
+      </CardContent>
+    </Card>
+  );
+}
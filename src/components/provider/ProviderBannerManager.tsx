@@ -5,7 +5,8 @@
  * 
  * Priority Order:
  * 1. Verification Status Banner (pending/in_review) - HIGHEST
- * 2. Payment Setup Banner (approved but no payment) - MEDIUM
+ * 2. Verification Status Banner (approved, ID document expiring or expired) - HIGH
+ * 3. Payment Setup Banner (approved but no payment) - MEDIUM
  * 
  * This prevents banner stacking and ensures clean UI
  */
@@ -16,6 +17,7 @@ import { VerificationStatusBanner } from './VerificationStatusBanner';
 import { PaymentSetupBanner } from './PaymentSetupBanner';
 import { useVerificationData } from '@/hooks/provider/useVerificationSingleSource';
 import { useProviderAccess } from '@/hooks/provider/useProviderAccess';
+import { useDocumentExpiry } from '@/hooks/provider/useDocumentExpiry';
 import { useAuthStore } from '@/stores/auth';
 
 export function ProviderBannerManager() {
@@ -23,11 +25,15 @@ export function ProviderBannerManager() {
   const { data: verificationData } = useVerificationData(user?.id);
   const verificationStatus = verificationData?.progress?.verification_status;
   const { needsPaymentSetup, isFullyActive, isLoading } = useProviderAccess();
+  const { data: documentExpiry } = useDocumentExpiry(verificationStatus === 'approved' ? user?.id : undefined);
 
   // Priority 1: Show verification banner if pending or in_review
-  const showVerificationBanner = verificationStatus === 'pending' || verificationStatus === 'in_review';
+  // Priority 2: ...or if approved and the ID document needs renewing
+  const needsDocumentRenewal = verificationStatus === 'approved' &&
+    (documentExpiry?.reverificationRequired || documentExpiry?.state === 'expiring' || documentExpiry?.state === 'expired');
+  const showVerificationBanner = verificationStatus === 'pending' || verificationStatus === 'in_review' || !!needsDocumentRenewal;
   
-  // Priority 2: Show payment banner if verified but payment not setup
+  // Priority 3: Show payment banner if verified but payment not setup
   // (Only if verification banner is NOT showing AND data is fully loaded)
   // Don't show during initial load to avoid flash/flicker
   const showPaymentBanner = !showVerificationBanner && needsPaymentSetup && !isFullyActive && !isLoading;
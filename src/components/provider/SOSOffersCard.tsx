@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useSOSOffers, useRespondToSOSOffer, type SOSOffer } from '@/hooks/provider/useSOSOffers';
+
+/**
+ * Open SOS requests sent to this provider
+ * Several providers get the same request - the first to accept is booked and the
+ * offer disappears for everyone else. Renders nothing when there are no offers.
+ */
+export function SOSOffersCard() {
+  const { data: offers = [] } = useSOSOffers();
+  const respond = useRespondToSOSOffer();
+
+  const handleAccept = (offer: SOSOffer) => {
+    respond.mutate({ requestId: offer.request_id, response: 'accept' }, {
+      onSuccess: (result) => {
+        Alert.alert('Job Accepted', 'The customer has been told you\'re on your way.', [
+          {
+            text: 'View Booking',
+            onPress: () => result.booking_id && router.push(`/(provider)/bookingdetail/${result.booking_id}` as any),
+          },
+        ]);
+      },
+      onError: (error: Error & { code?: string }) => {
+        Alert.alert(error.code === 'ALREADY_ACCEPTED' ? 'Too Late' : 'Could Not Accept', error.message);
+      },
+    });
+  };
+
+  const handleDecline = (offer: SOSOffer) => {
+    respond.mutate({ requestId: offer.request_id, response: 'decline' }, {
+      onError: (error) => Alert.alert('Could Not Decline', error.message),
+    });
+  };
+
+  if (offers.length === 0) return null;
+
+  return (
+    <View className="px-4 mb-6">
+      <Card className="border-destructive/40 bg-destructive/5">
+        <CardHeader>
+          <View className="flex-row items-center gap-2">
+            <Ionicons name="medkit" size={20} className="text-destructive" />
+            <CardTitle>SOS Requests Nearby</CardTitle>
+          </View>
+          <Text className="text-sm text-muted-foreground">
+            The first provider to accept gets the job
+          </Text>
+        </CardHeader>
+        <CardContent className="gap-3">
+          {offers.map((offer) => (
+            <View key={offer.id} className="p-3 rounded-xl bg-card border border-border gap-2">
+              <View className="flex-row items-center justify-between">
+                <Text className="font-semibold text-foreground flex-1" numberOfLines={1}>
+                  {offer.service_name}
+                </Text>
+                <Badge variant="secondary">
+                  <Text className="text-xs font-medium">{offer.distance_km.toFixed(1)} km away</Text>
+                </Badge>
+              </View>
+              <Text className="text-sm text-muted-foreground" numberOfLines={3}>
+                {offer.description}
+              </Text>
+              <Text className="text-xs text-muted-foreground">
+                {offer.service_title ? `${offer.service_title} • ` : ''}
+                Sent {formatDistanceToNow(new Date(offer.offered_at), { addSuffix: true })}
+              </Text>
+              <View className="flex-row gap-2">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onPress={() => handleDecline(offer)}
+                  disabled={respond.isPending}
+                >
+                  <Text className="text-foreground">Decline</Text>
+                </Button>
+                <Button
+                  className="flex-1 bg-destructive"
+                  onPress={() => handleAccept(offer)}
+                  disabled={respond.isPending}
+                >
+                  <Text className="text-destructive-foreground font-semibold">
+                    {respond.isPending && respond.variables?.requestId === offer.request_id && respond.variables.response === 'accept'
+                      ? 'Accepting...'
+                      : 'Accept'}
+                  </Text>
+                </Button>
+              </View>
+            </View>
+          ))}
+        </CardContent>
+      </Card>
+    </View>
+  );
+}
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { View, Alert, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  useServiceArea,
+  useUpdateServiceArea,
+  validateTravelFeeBands,
+  MAX_TRAVEL_FEE_BANDS,
+  type TravelFeeBand,
+} from '@/hooks/provider/useServiceArea';
+
+interface ServiceAreaCardProps {
+  providerId?: string;
+}
+
+// Bands are edited as text and only turned into numbers on save
+type BandDraft = { max_km: string; fee: string };
+
+const toDraft = (band: TravelFeeBand): BandDraft => ({ max_km: String(band.max_km), fee: String(band.fee) });
+
+/**
+ * House-call service radius and optional distance-banded travel fees
+ * Customers outside the radius can't book house calls; the travel fee for their
+ * distance is added to the house call fee of every service.
+ */
+export function ServiceAreaCard({ providerId }: ServiceAreaCardProps) {
+  const { data: serviceArea, isLoading } = useServiceArea(providerId);
+  const updateServiceArea = useUpdateServiceArea();
+
+  const [radius, setRadius] = useState('');
+  const [bands, setBands] = useState<BandDraft[]>([]);
+
+  useEffect(() => {
+    if (!serviceArea) return;
+    setRadius(serviceArea.serviceRadiusKm ? String(serviceArea.serviceRadiusKm) : '');
+    setBands(serviceArea.travelFeeBands.map(toDraft));
+  }, [serviceArea]);
+
+  const updateBand = (index: number, changes: Partial<BandDraft>) => {
+    setBands((current) => current.map((band, i) => (i === index ? { ...band, ...changes } : band)));
+  };
+
+  const handleSave = () => {
+    if (!providerId) return;
+
+    const serviceRadiusKm = radius.trim() ? parseInt(radius, 10) : null;
+    const travelFeeBands = bands.map((band) => ({ max_km: parseFloat(band.max_km), fee: parseFloat(band.fee) }));
+    const invalid = validateTravelFeeBands(travelFeeBands, serviceRadiusKm);
+    if (invalid) {
+      Alert.alert('Check Travel Fees', invalid);
+      return;
+    }
+
+    updateServiceArea.mutate({ providerId, serviceRadiusKm, travelFeeBands }, {
+      onSuccess: () => Alert.alert('Saved', 'Your service area has been updated.'),
+      onError: (error) => Alert.alert('Could Not Save', error.message),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="mb-4 mx-1">
+        <CardContent className="p-4 gap-2">
+          <Skeleton className="h-5 w-1/2" />
+          <Skeleton className="h-10 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="mb-4 mx-1">
+      <CardHeader>
+        <View className="flex-row items-center gap-2">
+          <Ionicons name="navigate-circle-outline" size={20} className="text-primary" />
+          <CardTitle>House Call Area</CardTitle>
+        </View>
+        <Text className="text-sm text-muted-foreground">
+          How far you travel, and what you charge for the journey
+        </Text>
+      </CardHeader>
+      <CardContent className="gap-3">
+        {!serviceArea?.hasLocation && (
+          <View className="flex-row items-start gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/20">
+            <Ionicons name="warning-outline" size={16} className="text-amber-600" />
+            <Text className="text-xs text-amber-700 dark:text-amber-400 flex-1">
+              Add your business address in your profile - distances can't be checked until it's on the map.
+            </Text>
+          </View>
+        )}
+
+        <View className="gap-1">
+          <Text className="text-sm font-medium text-foreground">Service radius (km)</Text>
+          <Input
+            placeholder="e.g. 15"
+            value={radius}
+            onChangeText={(value) => setRadius(value.replace(/[^0-9]/g, ''))}
+            keyboardType="number-pad"
+          />
+          <Text className="text-xs text-muted-foreground">
+            Leave empty to accept house calls at any distance
+          </Text>
+        </View>
+
+        <View className="gap-2">
+          <Text className="text-sm font-medium text-foreground">Travel fees (optional)</Text>
+          {bands.map((band, index) => (
+            <View key={index} className="flex-row items-center gap-2">
+              <Text className="text-sm text-muted-foreground">Up to</Text>
+              <Input
+                value={band.max_km}
+                onChangeText={(max_km) => updateBand(index, { max_km: max_km.replace(/[^0-9.]/g, '') })}
+                keyboardType="decimal-pad"
+                placeholder="km"
+                className="w-16"
+              />
+              <Text className="text-sm text-muted-foreground">km  £</Text>
+              <Input
+                value={band.fee}
+                onChangeText={(fee) => updateBand(index, { fee: fee.replace(/[^0-9.]/g, '') })}
+                keyboardType="decimal-pad"
+                placeholder="0.00"
+                className="flex-1"
+              />
+              <TouchableOpacity onPress={() => setBands((current) => current.filter((_, i) => i !== index))}>
+                <Ionicons name="close-circle-outline" size={22} className="text-muted-foreground" />
+              </TouchableOpacity>
+            </View>
+          ))}
+          {bands.length < MAX_TRAVEL_FEE_BANDS && (
+            <TouchableOpacity
+              onPress={() => setBands((current) => [...current, { max_km: '', fee: '' }])}
+              className="flex-row items-center gap-2 py-1"
+            >
+              <Ionicons name="add-circle-outline" size={18} className="text-primary" />
+              <Text className="text-sm font-semibold text-primary">Add distance band</Text>
+            </TouchableOpacity>
+          )}
+          {bands.length > 0 && (
+            <Text className="text-xs text-muted-foreground">
+              Customers further than your last band pay that band's fee.
+            </Text>
+          )}
+        </View>
+
+        <Button onPress={handleSave} disabled={updateServiceArea.isPending}>
+          <Text className="text-primary-foreground font-semibold">
+            {updateServiceArea.isPending ? 'Saving...' : 'Save Service Area'}
+          </Text>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
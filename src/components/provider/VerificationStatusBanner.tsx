@@ -9,9 +9,11 @@
  * SHOWS WHEN:
  * - verification_status = 'pending' OR 'in_review'
  * - User has submitted verification and waiting for approval
+ * - Approved, and the ID document expires within 30 days (countdown)
+ * - Approved, but flagged for re-verification after the document expired (not dismissible)
  * 
  * HIDES WHEN:
- * - verification_status = 'approved' (user is verified)
+ * - verification_status = 'approved' and the ID document isn't close to expiry
  * - verification_status = 'rejected' (handled by navigation guard)
  * - User hasn't started verification yet (handled by navigation guard)
  */
@@ -20,7 +22,7 @@ import React, { useEffect, useState } from 'react';
 import { View, Pressable } from 'react-native';
 import { router } from 'expo-router';
 import Animated, { FadeInDown, FadeOut } from 'react-native-reanimated';
-import { Clock, Eye, X, ChevronRight } from 'lucide-react-native';
+import { Clock, Eye, X, ChevronRight, IdCard, AlertTriangle } from 'lucide-react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { Text } from '@/components/ui/text';
@@ -28,6 +30,8 @@ import { useColorScheme } from '@/lib/core/useColorScheme';
 import { THEME } from '@/lib/theme';
 import { cn } from '@/lib/utils';
 import { useVerificationData } from '@/hooks/provider/useVerificationSingleSource';
+import { useDocumentExpiry, type DocumentExpiry } from '@/hooks/provider/useDocumentExpiry';
+import { formatExpiryDate } from '@/lib/verification/document-expiry';
 import { useAuthStore } from '@/stores/auth';
 
 // AsyncStorage key for dismissal
@@ -48,6 +52,8 @@ const getBannerConfig = (status: string) => {
         iconBg: 'bg-[hsl(var(--warning)_/_0.1)]',
         iconColor: 'text-[hsl(var(--warning))]',
         accentColor: 'bg-[hsl(var(--warning))]',
+        tone: 'warning' as const,
+        dismissible: true,
       };
     case 'in_review':
       return {
@@ -58,12 +64,51 @@ const getBannerConfig = (status: string) => {
         iconBg: 'bg-[hsl(var(--info)_/_0.1)]',
         iconColor: 'text-[hsl(var(--info))]',
         accentColor: 'bg-[hsl(var(--info))]',
+        tone: 'info' as const,
+        dismissible: true,
       };
     default:
       return null;
   }
 };
 
+/**
+ * Approved providers - countdown to ID document expiry, then re-verification
+ */
+const getExpiryBannerConfig = (expiry: DocumentExpiry | undefined) => {
+  if (!expiry) return null;
+
+  if (expiry.reverificationRequired || expiry.state === 'expired') {
+    return {
+      Icon: AlertTriangle,
+      title: 'Upload a new ID document',
+      subtitle: 'Your document expired - you\'re hidden from search and SOS',
+      time: null,
+      iconBg: 'bg-destructive/10',
+      iconColor: 'text-destructive',
+      accentColor: 'bg-destructive',
+      tone: 'destructive' as const,
+      dismissible: false,
+    };
+  }
+
+  if (expiry.state === 'expiring' && expiry.daysUntilExpiry !== null) {
+    return {
+      Icon: IdCard,
+      title: `ID document expires in ${expiry.daysUntilExpiry} day${expiry.daysUntilExpiry === 1 ? '' : 's'}`,
+      subtitle: `Renew before ${formatExpiryDate(expiry.expiryDate)} to stay visible`,
+      time: null,
+      iconBg: 'bg-[hsl(var(--warning)_/_0.1)]',
+      iconColor: 'text-[hsl(var(--warning))]',
+      accentColor: 'bg-[hsl(var(--warning))]',
+      tone: 'warning' as const,
+      dismissible: true,
+    };
+  }
+
+  return null;
+};
+
 /**
  * Helper: Clear banner dismissal state (for testing/debugging)
  */
@@ -106,6 +151,8 @@ export function VerificationStatusBanner() {
   const { data: verificationData, isLoading: isQueryLoading } = useVerificationData(user?.id);
   // 🎯 CRITICAL: Extract status from progress object, not top-level
   const verificationStatus = verificationData?.progress?.verification_status;
+  const isApproved = verificationStatus === 'approved';
+  const { data: documentExpiry, isLoading: isExpiryLoading } = useDocumentExpiry(isApproved ? user?.id : undefined);
 
   // Check dismissal state on mount
   useEffect(() => {
@@ -142,6 +189,13 @@ export function VerificationStatusBanner() {
   // ✅ FIX: Navigate within provider route group (not outside to provider-verification)
   // This prevents breaking app routing structure
   const handlePress = () => {
+    // Expiry countdown / re-verification - renewal lives in the provider profile
+    if (isApproved) {
+      router.push('/(provider)/profile/renew-document' as any);
+      return;
+    }
+
+
     // Since this banner only shows for pending/in_review (not approved/rejected),
     // we just show a local status view or do nothing
     // The verification-status screen should only be accessible during onboarding
@@ -152,14 +206,22 @@ export function VerificationStatusBanner() {
   };
 
   // Don't show banner if loading, dismissed, or status doesn't match
-  const config = getBannerConfig(verificationStatus);
+  const config = isApproved ? getExpiryBannerConfig(documentExpiry) : getBannerConfig(verificationStatus);
   
   // 🚨 CRITICAL FIX: Never show banner if data is still loading
   // Don't default to 'pending' - wait for actual verification status from database
   // Database is source of truth - only show banner when we have real data
-  if (isQueryLoading || isLoadingDismissal || isDismissed || !config || verificationStatus === 'approved' || !verificationStatus) {
+  if (
+    isQueryLoading ||
+    (isApproved && isExpiryLoading) ||
+    isLoadingDismissal ||
+    (isDismissed && config?.dismissible) ||
+    !config ||
+    !verificationStatus
+  ) {
     console.log('[VerificationBanner] Hidden -', {
       isQueryLoading,
+      isExpiryLoading,
       isLoadingDismissal,
       isDismissed,
       hasConfig: !!config,
@@ -169,7 +231,7 @@ export function VerificationStatusBanner() {
     return null;
   }
 
-  const { Icon, title, subtitle, time, iconBg, iconColor, accentColor } = config;
+  const { Icon, title, subtitle, time, iconBg, iconColor, accentColor, tone, dismissible } = config;
 
   return (
     <Animated.View 
@@ -201,7 +263,7 @@ export function VerificationStatusBanner() {
         <View className="flex-row items-center pl-4 pr-2 py-3.5">
           {/* Icon with Background Circle */}
           <View className={cn('w-10 h-10 rounded-full items-center justify-center mr-3', iconBg)}>
-            <Icon size={20} color={verificationStatus === 'pending' ? colors.warning : colors.info} />
+            <Icon size={20} color={colors[tone]} />
           </View>
 
           {/* Text Content */}
@@ -210,7 +272,7 @@ export function VerificationStatusBanner() {
               {title}
             </Text>
             <Text className="text-muted-foreground text-xs leading-tight">
-              {subtitle} • Est. {time}
+              {time ? `${subtitle} • Est. ${time}` : subtitle}
             </Text>
           </View>
 
@@ -226,13 +288,15 @@ export function VerificationStatusBanner() {
             </Pressable>
 
             {/* Dismiss Button */}
-            <Pressable
-              onPress={handleDismiss}
-              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-              className="active:opacity-50 ml-1"
-            >
-              <X size={18} color={colors.mutedForeground} />
-            </Pressable>
+            {dismissible && (
+              <Pressable
+                onPress={handleDismiss}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                className="active:opacity-50 ml-1"
+              >
+                <X size={18} color={colors.mutedForeground} />
+              </Pressable>
+            )}
           </View>
         </View>
       </Pressable>
@@ -2,3 +2,6 @@
 
 export * from './CountdownTimer';
 export * from './DeclineReasonModal';
+export * from './DisputesSection';
+export * from './ServiceAreaCard';
+export * from './SOSOffersCard';
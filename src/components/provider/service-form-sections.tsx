@@ -443,6 +443,36 @@ export const PricingSection = React.memo(({
               )}
             />
           </View>
+
+          {/* Travel Buffer */}
+          <View>
+            <Text className="text-sm font-semibold text-foreground mb-2">
+              Travel Buffer (minutes)
+            </Text>
+            <Controller
+              control={control}
+              name="travelBufferMinutes"
+              render={({ field: { onChange, value } }) => (
+                <>
+                  <Input
+                    value={value}
+                    onChangeText={onChange}
+                    placeholder="0"
+                    keyboardType="number-pad"
+                    className="mb-1.5"
+                  />
+                  <Text className="text-xs text-muted-foreground mt-1.5">
+                    Time kept free after a house call to travel to your next booking
+                  </Text>
+                </>
+              )}
+            />
+            {errors.travelBufferMinutes && (
+              <Text className="text-destructive text-xs mt-1.5 font-medium">
+                ✕ {errors.travelBufferMinutes.message}
+              </Text>
+            )}
+          </View>
         </View>
       </CardContent>
     </Card>
@@ -490,6 +520,59 @@ export const ServiceSettingsSection = React.memo(({
           />
         </View>
 
+        {/* Late Cancellation Fee */}
+        <View className="flex-row gap-3">
+          <View className="flex-1">
+            <Text className="text-sm font-semibold text-foreground mb-2">
+              Free Window (hours)
+            </Text>
+            <Controller
+              control={control}
+              name="cancellationWindowHours"
+              render={({ field: { onChange, value } }) => (
+                <Input
+                  value={value}
+                  onChangeText={onChange}
+                  placeholder="48"
+                  keyboardType="number-pad"
+                  className="mb-1.5"
+                />
+              )}
+            />
+            {errors.cancellationWindowHours && (
+              <Text className="text-destructive text-xs mt-1.5 font-medium">
+                ✕ {errors.cancellationWindowHours.message}
+              </Text>
+            )}
+          </View>
+          <View className="flex-1">
+            <Text className="text-sm font-semibold text-foreground mb-2">
+              Late Fee (%)
+            </Text>
+            <Controller
+              control={control}
+              name="cancellationFeePercentage"
+              render={({ field: { onChange, value } }) => (
+                <Input
+                  value={value}
+                  onChangeText={onChange}
+                  placeholder="50"
+                  keyboardType="decimal-pad"
+                  className="mb-1.5"
+                />
+              )}
+            />
+            {errors.cancellationFeePercentage && (
+              <Text className="text-destructive text-xs mt-1.5 font-medium">
+                ✕ {errors.cancellationFeePercentage.message}
+              </Text>
+            )}
+          </View>
+        </View>
+        <Text className="text-xs text-muted-foreground -mt-2">
+          Customers get a full refund if they cancel earlier than this. Inside the window you keep the late fee; after the start time there is no refund.
+        </Text>
+
         {/* Divider */}
         <View className="h-px bg-border my-1.5" />
 
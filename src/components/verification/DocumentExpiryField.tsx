@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { View, Pressable, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { addDays, format } from 'date-fns';
+import { CalendarDays } from 'lucide-react-native';
+import { Text } from '@/components/ui/text';
+import { Icon } from '@/components/ui/icon';
+import { cn } from '@/lib/utils';
+
+interface DocumentExpiryFieldProps {
+  value: Date | null;
+  onChange: (date: Date) => void;
+  error?: string;
+  className?: string;
+}
+
+/**
+ * Expiry date shown on the ID document - used to warn the provider before it runs out
+ */
+export const DocumentExpiryField: React.FC<DocumentExpiryFieldProps> = ({
+  value,
+  onChange,
+  error,
+  className,
+}) => {
+  const [showPicker, setShowPicker] = useState(false);
+
+  const handleChange = (event: DateTimePickerEvent, date?: Date) => {
+    setShowPicker(Platform.OS === 'ios');
+    if (event.type === 'set' && date) {
+      onChange(date);
+    }
+  };
+
+  return (
+    <View className={className}>
+      <Text className="text-sm font-medium text-foreground mb-3">
+        Expiry Date
+      </Text>
+      <Pressable
+        onPress={() => setShowPicker(true)}
+        className={cn(
+          'flex-row items-center h-12 px-3 rounded-md border bg-background',
+          error ? 'border-destructive' : 'border-input'
+        )}
+      >
+        <Icon as={CalendarDays} size={18} className="text-muted-foreground mr-2" />
+        <Text className={value ? 'text-foreground' : 'text-muted-foreground'}>
+          {value ? format(value, 'd MMMM yyyy') : 'Select the expiry date on your document'}
+        </Text>
+      </Pressable>
+      {error ? (
+        <Text className="text-sm text-destructive mt-1">{error}</Text>
+      ) : (
+        <Text className="text-xs text-muted-foreground mt-1">
+          We'll remind you to upload a new document before this date
+        </Text>
+      )}
+
+      {showPicker && (
+        <DateTimePicker
+          value={value ?? addDays(new Date(), 1)}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'inline' : 'default'}
+          minimumDate={addDays(new Date(), 1)}
+          onChange={handleChange}
+        />
+      )}
+    </View>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Modal, Pressable, ActivityIndicator } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { X, AlertCircle } from 'lucide-react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
+import { Icon } from '@/components/ui/icon';
+import {
+  analyzeImageQuality,
+  getRetakeAdvice,
+  type ImageQualityKind,
+  type ImageQualityReport,
+} from '@/lib/verification/image-quality';
+
+export interface GuidedCapture {
+  uri: string;
+  width: number;
+  height: number;
+  qualityReport: ImageQualityReport;
+}
+
+interface GuidedCaptureCameraProps {
+  visible: boolean;
+  kind: ImageQualityKind;
+  onCapture: (capture: GuidedCapture) => void;
+  onClose: () => void;
+}
+
+const GUIDE_HINTS: Record<ImageQualityKind, string> = {
+  document: 'Place your document on a plain surface and line it up with the frame',
+  selfie: 'Centre your face in the oval and look straight at the camera',
+};
+
+/**
+ * Camera with a capture guide (card frame for documents, oval for selfies) that runs
+ * the image quality pre-checks on every shot and asks for a retake when they fail
+ */
+export const GuidedCaptureCamera: React.FC<GuidedCaptureCameraProps> = ({
+  visible,
+  kind,
+  onCapture,
+  onClose,
+}) => {
+  const insets = useSafeAreaInsets();
+  const cameraRef = useRef<CameraView>(null);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [rejectedCapture, setRejectedCapture] = useState<GuidedCapture | null>(null);
+
+  useEffect(() => {
+    if (visible && permission && !permission.granted && permission.canAskAgain) {
+      requestPermission();
+    }
+  }, [visible, permission, requestPermission]);
+
+  useEffect(() => {
+    if (!visible) {
+      setRejectedCapture(null);
+      setIsCapturing(false);
+    }
+  }, [visible]);
+
+  const handleCapture = async () => {
+    if (!cameraRef.current || isCapturing) return;
+
+    setIsCapturing(true);
+    try {
+      const picture = await cameraRef.current.takePictureAsync({ quality: 0.8 });
+      const qualityReport = await analyzeImageQuality(picture, kind);
+      const capture = { uri: picture.uri, width: picture.width, height: picture.height, qualityReport };
+
+      if (qualityReport.passed) {
+        onCapture(capture);
+      } else {
+        setRejectedCapture(capture);
+      }
+    } catch (error) {
+      console.error('[GuidedCapture] Failed to take picture:', error);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const renderGuide = () => (
+    <View className="absolute inset-0 items-center justify-center" pointerEvents="none">
+      {kind === 'document' ? (
+        <View
+          className="w-[88%] border-2 border-white rounded-xl"
+          style={{ aspectRatio: 1.586 }}
+        />
+      ) : (
+        <View
+          className="w-[68%] border-2 border-white rounded-full"
+          style={{ aspectRatio: 0.78 }}
+        />
+      )}
+    </View>
+  );
+
+  const renderPermissionRequest = () => (
+    <View className="flex-1 items-center justify-center px-8">
+      <Text className="text-white text-center mb-4">
+        We need camera access to take your {kind === 'document' ? 'document photo' : 'selfie'}.
+      </Text>
+      <Button onPress={requestPermission}>
+        <Text className="text-primary-foreground font-medium">Allow Camera</Text>
+      </Button>
+    </View>
+  );
+
+  const renderFeedback = (capture: GuidedCapture) => (
+    <View className="absolute inset-x-0 bottom-0 bg-background rounded-t-2xl p-6" style={{ paddingBottom: insets.bottom + 24 }}>
+      <View className="flex-row items-center mb-3">
+        <Icon as={AlertCircle} size={20} className="text-destructive mr-2" />
+        <Text className="text-foreground font-semibold text-lg">Let's retake that</Text>
+      </View>
+      {getRetakeAdvice(capture.qualityReport).map((advice) => (
+        <Text key={advice} className="text-muted-foreground text-sm mb-2">
+          • {advice}
+        </Text>
+      ))}
+      <View className="gap-3 mt-4">
+        <Button onPress={() => setRejectedCapture(null)}>
+          <Text className="text-primary-foreground font-medium">Retake Photo</Text>
+        </Button>
+        {!capture.qualityReport.blocking && (
+          <Button variant="outline" onPress={() => onCapture(capture)}>
+            <Text className="text-foreground">Use Anyway</Text>
+          </Button>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 bg-black">
+        {permission?.granted ? (
+          <>
+            <CameraView
+              ref={cameraRef}
+              style={{ flex: 1 }}
+              facing={kind === 'selfie' ? 'front' : 'back'}
+            />
+            {renderGuide()}
+
+            <View className="absolute inset-x-0 px-6 items-center" style={{ top: insets.top + 56 }}>
+              <Text className="text-white text-center text-base">
+                {GUIDE_HINTS[kind]}
+              </Text>
+            </View>
+
+            {!rejectedCapture && (
+              <View className="absolute inset-x-0 items-center" style={{ bottom: insets.bottom + 32 }}>
+                <Pressable
+                  onPress={handleCapture}
+                  disabled={isCapturing}
+                  className="w-20 h-20 rounded-full border-4 border-white items-center justify-center"
+                >
+                  {isCapturing ? (
+                    <ActivityIndicator color="white" />
+                  ) : (
+                    <View className="w-16 h-16 rounded-full bg-white" />
+                  )}
+                </Pressable>
+                {isCapturing && (
+                  <Text className="text-white text-sm mt-3">Checking photo quality...</Text>
+                )}
+              </View>
+            )}
+
+            {rejectedCapture && renderFeedback(rejectedCapture)}
+          </>
+        ) : (
+          renderPermissionRequest()
+        )}
+
+        <Pressable
+          onPress={onClose}
+          className="absolute left-4 w-10 h-10 rounded-full bg-black/50 items-center justify-center"
+          style={{ top: insets.top + 8 }}
+        >
+          <Icon as={X} size={22} className="text-white" />
+        </Pressable>
+      </View>
+    </Modal>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { View } from 'react-native';
+import { XCircle } from 'lucide-react-native';
+import { Text } from '@/components/ui/text';
+import { Icon } from '@/components/ui/icon';
+import { cn } from '@/lib/utils';
+import { useVerificationResubmission } from '@/hooks/verification/useVerificationResubmission';
+
+interface StepRejectionNoticeProps {
+  step: number;
+  className?: string;
+}
+
+/**
+ * Why the review sent this step back - only shown while it still needs fixing
+ */
+export const StepRejectionNotice: React.FC<StepRejectionNoticeProps> = ({ step, className }) => {
+  const { getRejectionReason } = useVerificationResubmission();
+  const reason = getRejectionReason(step);
+
+  if (!reason) return null;
+
+  return (
+    <View className={cn('flex-row p-4 bg-destructive/10 rounded-lg border border-destructive/20', className)}>
+      <View className="mr-3 mt-0.5">
+        <Icon as={XCircle} size={20} className="text-destructive" />
+      </View>
+      <View className="flex-1">
+        <Text className="text-destructive font-semibold mb-1">
+          Changes requested
+        </Text>
+        <Text className="text-destructive/90 text-sm">
+          {reason}
+        </Text>
+      </View>
+    </View>
+  );
+};
@@ -2,6 +2,7 @@ import React from 'react';
 import { View } from 'react-native';
 import { Text } from '@/components/ui/text';
 import { LogoutButton } from '@/components/ui/logout-button';
+import { StepRejectionNotice } from './StepRejectionNotice';
 
 interface VerificationHeaderProps {
   step: number;
@@ -47,6 +48,9 @@ export const VerificationHeader: React.FC<VerificationHeaderProps> = ({
           style={{ width: isComplete ? '100%' : `${(step / totalSteps) * 100}%` }}
         />
       </View>
+
+      {/* Reason the review sent this step back */}
+      <StepRejectionNotice step={step} className="mt-4" />
     </View>
   );
 };
\ No newline at end of file
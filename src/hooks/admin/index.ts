@@ -0,0 +1,13 @@
+// Admin hooks
+export {
+  useVerificationQueue,
+  useVerificationReviewDetail,
+  useStartVerificationReview,
+  useReviewDocument,
+  useReviewSelfie,
+  useDecideVerification,
+  type VerificationQueueItem,
+  type VerificationReviewDetail,
+  type ReviewDocument,
+  type VerificationAuditEntry,
+} from './useVerificationReview';
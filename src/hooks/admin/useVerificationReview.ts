@@ -0,0 +1,199 @@
+/**
+ * Admin Verification Review Hooks
+ *
+ * The review queue and per-provider review for admins and super-admins.
+ * Everything goes through the admin-verification-review edge function (via
+ * admin-status-management), which writes each action to verification_audit_log.
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '@/stores/auth';
+import {
+  invokeVerificationReview,
+  updateVerificationStatus,
+  type ReviewDecision,
+  type StepRejection,
+} from '@/lib/verification/admin-status-management';
+import type { ImageQualityReport } from '@/lib/verification/image-quality';
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'in_review' | 'in_progress' | 'submitted';
+
+export interface VerificationQueueItem {
+  provider_id: string;
+  name: string;
+  email: string | null;
+  avatar_url: string | null;
+  verification_status: ReviewStatus;
+  submitted_at: string;
+}
+
+export interface ReviewDocument {
+  id: string;
+  document_type: 'passport' | 'driving_license' | 'id_card';
+  verification_status: ReviewStatus | null;
+  rejection_reason: string | null;
+  verified_at: string | null;
+  verified_by: string | null;
+  expiry_date: string | null;
+  // Set once the retention job has deleted the image - the row stays as the record
+  image_purged_at: string | null;
+  created_at: string;
+  preview_url: string | null;
+  quality_check: ImageQualityReport | null;
+}
+
+export interface VerificationAuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  action: 'start_review' | 'review_document' | 'review_selfie' | 'decide' | 'purge_image';
+  target: 'provider' | 'document' | 'selfie';
+  document_id: string | null;
+  from_status: string | null;
+  to_status: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface VerificationReviewDetail {
+  provider: {
+    id: string;
+    name: string;
+    email: string | null;
+    phone_number: string | null;
+    address: string | null;
+    years_of_experience: number | null;
+    avatar_url: string | null;
+    joined_at: string;
+  };
+  progress: {
+    verification_status: ReviewStatus;
+    current_step: number | null;
+    submitted_at: string;
+    rejection_reason: string | null;
+  };
+  documents: ReviewDocument[];
+  selfie: {
+    preview_url: string | null;
+    verification_status: ReviewStatus | null;
+    rejection_reason: string | null;
+    verified_at: string | null;
+    quality_check: ImageQualityReport | null;
+    image_purged_at: string | null;
+  };
+  step_reviews: {
+    step_number: number;
+    status: 'rejected' | 'resubmitted';
+    error_message: string | null;
+    updated_at: string | null;
+  }[];
+  audit_log: VerificationAuditEntry[];
+  expires_in: number;
+}
+
+interface ReviewItemParams {
+  providerId: string;
+  decision: ReviewDecision;
+  reason?: string;
+}
+
+const verificationReviewKeys = {
+  queue: (userId?: string) => ['verification-review-queue', userId] as const,
+  detail: (providerId?: string) => ['verification-review', providerId] as const,
+};
+
+/**
+ * Providers waiting for review, oldest submission first
+ */
+export function useVerificationQueue() {
+  const user = useAuthStore((state) => state.user);
+
+  return useQuery({
+    queryKey: verificationReviewKeys.queue(user?.id),
+    queryFn: async (): Promise<VerificationQueueItem[]> => {
+      const data = await invokeVerificationReview<{ queue: VerificationQueueItem[] }>({ action: 'queue' });
+      return data.queue;
+    },
+    enabled: !!user?.id,
+  });
+}
+
+/**
+ * Everything needed to review one provider
+ * Image previews are signed for a few minutes, so the detail refreshes before they expire.
+ */
+export function useVerificationReviewDetail(providerId?: string) {
+  return useQuery({
+    queryKey: verificationReviewKeys.detail(providerId),
+    queryFn: () => invokeVerificationReview<VerificationReviewDetail>({ action: 'detail', provider_id: providerId! }),
+    enabled: !!providerId,
+    refetchInterval: (query) => query.state.data ? (query.state.data.expires_in - 60) * 1000 : false,
+  });
+}
+
+function useInvalidateReview() {
+  const queryClient = useQueryClient();
+
+  return (providerId: string) => {
+    queryClient.invalidateQueries({ queryKey: verificationReviewKeys.detail(providerId) });
+    queryClient.invalidateQueries({ queryKey: ['verification-review-queue'] });
+  };
+}
+
+/**
+ * Move a submitted provider to in_review
+ */
+export function useStartVerificationReview() {
+  const invalidate = useInvalidateReview();
+
+  return useMutation({
+    mutationFn: (providerId: string) => updateVerificationStatus({ userId: providerId, newStatus: 'in_review' }),
+    onSuccess: (_, providerId) => invalidate(providerId),
+  });
+}
+
+/**
+ * Approve or reject one identity document - rejecting needs a reason
+ */
+export function useReviewDocument() {
+  const invalidate = useInvalidateReview();
+
+  return useMutation({
+    mutationFn: ({ providerId, documentId, decision, reason }: ReviewItemParams & { documentId: string }) =>
+      invokeVerificationReview({
+        action: 'review_document',
+        provider_id: providerId,
+        document_id: documentId,
+        decision,
+        reason,
+      }),
+    onSuccess: (_, { providerId }) => invalidate(providerId),
+  });
+}
+
+/**
+ * Approve or reject the provider's selfie - rejecting needs a reason
+ */
+export function useReviewSelfie() {
+  const invalidate = useInvalidateReview();
+
+  return useMutation({
+    mutationFn: ({ providerId, decision, reason }: ReviewItemParams) =>
+      invokeVerificationReview({ action: 'review_selfie', provider_id: providerId, decision, reason }),
+    onSuccess: (_, { providerId }) => invalidate(providerId),
+  });
+}
+
+/**
+ * Final decision for the provider - they're notified either way
+ * A rejection sends back the rejected document / selfie plus any `steps` listed.
+ */
+export function useDecideVerification() {
+  const invalidate = useInvalidateReview();
+
+  return useMutation({
+    mutationFn: ({ providerId, decision, reason, steps }: ReviewItemParams & { steps?: StepRejection[] }) =>
+      updateVerificationStatus({ userId: providerId, newStatus: decision, reason, steps }),
+    onSuccess: (_, { providerId }) => invalidate(providerId),
+  });
+}
@@ -0,0 +1,82 @@
+import { useCallback } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuthStore } from '@/stores/auth';
+import { useProviderVerificationStore } from '@/stores/verification/provider-verification';
+
+/**
+ * What delete-account removed, anonymised and kept
+ */
+export interface AccountErasureReport {
+  storage: Record<string, number>;
+  deleted_rows: Record<string, number>;
+  anonymised: string[];
+  retained: Record<string, string>;
+}
+
+export interface DeleteAccountResult {
+  erasure_id: string | null;
+  report: AccountErasureReport;
+}
+
+/**
+ * React Query mutation for permanent account deletion
+ *
+ * Features:
+ * - Calls delete-account, which erases files and personal data and anonymises the profile
+ * - Fails with a code (ACTIVE_BOOKINGS, ACTIVE_SUBSCRIPTION) when something must be finished first
+ * - Leaves the local session in place so the report can be shown - call useLeaveDeletedAccount after
+ */
+export const useDeleteAccount = () => {
+  return useMutation({
+    mutationFn: async (): Promise<DeleteAccountResult> => {
+      console.log('[useDeleteAccount] 🗑️ Deleting account...');
+
+      const { data, error } = await supabase.functions.invoke('delete-account', {
+        method: 'POST',
+      });
+
+      if (error) {
+        // Handle FunctionsHttpError and extract meaningful error message
+        let message = 'Failed to delete account. Please try again.';
+        let code: string | undefined;
+        try {
+          if (error.context && typeof error.context.json === 'function') {
+            const errorResponse = await error.context.json();
+            message = errorResponse.error || message;
+            code = errorResponse.code;
+          }
+        } catch {
+          // If we can't parse the error response, use the generic message
+        }
+        throw Object.assign(new Error(message), { code });
+      }
+
+      console.log('[useDeleteAccount] ✅ Account deleted');
+      return data as DeleteAccountResult;
+    },
+    onError: (error) => {
+      console.error('[useDeleteAccount] ❌ Mutation error:', error);
+    },
+  });
+};
+
+/**
+ * Clears the session of a deleted account
+ * Local only - the user no longer exists on the server, so there's nothing to revoke
+ * and no push token to clear (delete-account already removed it).
+ */
+export const useLeaveDeletedAccount = () => {
+  const reset = useAuthStore((state) => state.reset);
+  const queryClient = useQueryClient();
+
+  return useCallback(async () => {
+    await supabase.auth.signOut({ scope: 'local' });
+
+    reset();
+    useProviderVerificationStore.setState({ providerId: null });
+    queryClient.clear();
+
+    console.log('[useLeaveDeletedAccount] 🧹 All stores and cache cleared');
+  }, [reset, queryClient]);
+};
@@ -2,24 +2,32 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib//supabase';
 import { useAuthStore } from '@/stores/auth';
 import { useProviderVerificationStore } from '@/stores/verification/provider-verification';
+import { clearPushToken } from '@/lib/notifications/push-token';
 
 /**
  * React Query mutation for sign out
  * 
  * Features:
  * - Handles sign out
+ * - Clears this device's push token
  * - Clears auth store
  * - Clears verification store
  * - Clears React Query cache
  */
 export const useSignOut = () => {
   const reset = useAuthStore((state) => state.reset);
+  const userId = useAuthStore((state) => state.user?.id);
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async () => {
       console.log('[useSignOut] 🚪 Signing out...');
 
+      // Must run before signOut - RLS needs the session to update the profile
+      if (userId) {
+        await clearPushToken(userId);
+      }
+
       const { error } = await supabase.auth.signOut();
 
       if (error) {
@@ -11,7 +11,7 @@
 export { useUserFavorites, useToggleFavorite, useIsFavorited, type UserFavorite, type FavoriteProvider, type FavoriteService } from './useFavorites';
 
 // ✅ Customer booking management hooks
-export { useCancelBooking } from './useCancelBooking';
+export { useCancelBooking, useCancellationPreview, type CancellationPreview } from './useCancelBooking';
 export { useUserReviews, type UserReview } from './useUserReviews';
 export { useSubmitReview } from './useSubmitReview';
 
@@ -31,6 +31,36 @@ export {
 // ✅ Customer bookings hook
 export { useCustomerBookings, type BookingData } from './useBookings';
 
+// ✅ Server-side price quote for the payment screen
+export { usePriceQuote, SERVICE_AREA_ERROR_CODES, type PriceQuote, type SignedPriceQuote } from './usePriceQuote';
+
+// ✅ Saved cards (wallet) and one-tap pay
+export {
+  usePaymentMethods,
+  useDefaultPaymentMethod,
+  useAddPaymentMethod,
+  useSetDefaultPaymentMethod,
+  useRemovePaymentMethod,
+  isCardExpired,
+  formatCardLabel,
+  type SavedPaymentMethod
+} from './usePaymentMethods';
+
+// ✅ Address book (geocoded saved addresses for bookings)
+export {
+  useAddresses,
+  useDefaultAddress,
+  useSaveAddress,
+  useSetDefaultAddress,
+  useDeleteAddress,
+  formatAddress,
+  addressLabelName,
+  ADDRESS_LABELS,
+  type SavedAddress,
+  type SaveAddressInput,
+  type AddressLabel
+} from './useAddresses';
+
 // ✅ Import required dependencies for hooks
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
@@ -0,0 +1,234 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { validateAddress } from '@/lib/geocoding';
+import { useAuthStore } from '@/stores/auth';
+
+export type AddressLabel = 'home' | 'work' | 'other';
+
+export const ADDRESS_LABELS: { value: AddressLabel; label: string; icon: 'home' | 'briefcase' | 'location' }[] = [
+  { value: 'home', label: 'Home', icon: 'home' },
+  { value: 'work', label: 'Work', icon: 'briefcase' },
+  { value: 'other', label: 'Other', icon: 'location' },
+];
+
+/**
+ * Address in the customer's address book (user_addresses)
+ * Every saved address has been geocoded - bookings copy its coordinates.
+ */
+export interface SavedAddress {
+  id: string;
+  label: AddressLabel;
+  title: string;
+  street_address: string;
+  city: string;
+  postal_code: string | null;
+  country: string | null;
+  is_default: boolean;
+  created_at: string | null;
+}
+
+export interface SaveAddressInput {
+  id?: string;
+  label: AddressLabel;
+  title?: string;
+  street_address: string;
+  city: string;
+  postal_code?: string;
+  country?: string;
+  is_default?: boolean;
+}
+
+const addressKeys = {
+  all: ['addresses'] as const,
+  list: (userId?: string) => [...addressKeys.all, userId] as const,
+};
+
+/**
+ * One-line address shown on bookings - matches formatAddress in _shared/addresses.ts
+ */
+export const formatAddress = (address: Pick<SavedAddress, 'street_address' | 'city' | 'postal_code'>) =>
+  [address.street_address, address.city, address.postal_code]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(', ');
+
+export const addressLabelName = (label: AddressLabel) =>
+  ADDRESS_LABELS.find((item) => item.value === label)?.label || 'Other';
+
+/**
+ * Customer's saved addresses, default first
+ */
+export function useAddresses() {
+  const user = useAuthStore((state) => state.user);
+
+  return useQuery({
+    queryKey: addressKeys.list(user?.id),
+    queryFn: async (): Promise<SavedAddress[]> => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('user_addresses')
+        .select('id, label, title, street_address, city, postal_code, country, is_default, created_at')
+        .eq('user_id', user.id)
+        .order('is_default', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map((row: any) => ({ ...row, is_default: !!row.is_default }));
+    },
+    enabled: !!user?.id,
+  });
+}
+
+/**
+ * Default address for booking forms (falls back to the newest address)
+ */
+export function useDefaultAddress() {
+  const query = useAddresses();
+  const address = query.data?.find((item) => item.is_default) || query.data?.[0] || null;
+  return { ...query, data: address };
+}
+
+// One default per user - clear the current one before setting another
+async function clearDefaultAddress(userId: string, exceptId?: string) {
+  let query = supabase
+    .from('user_addresses')
+    .update({ is_default: false, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('is_default', true);
+
+  if (exceptId) query = query.neq('id', exceptId);
+
+  const { error } = await query;
+  if (error) throw error;
+}
+
+/**
+ * Add or edit an address - geocoded first, addresses that can't be located aren't saved
+ * Resolves to any geocoding warning worth showing (e.g. country mismatch).
+ */
+export function useSaveAddress() {
+  const user = useAuthStore((state) => state.user);
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SaveAddressInput): Promise<{ address: SavedAddress; warning?: string }> => {
+      if (!user?.id) throw new Error('You need to be signed in to save addresses');
+
+      const validation = await validateAddress({
+        address: input.street_address.trim(),
+        city: input.city.trim(),
+        postal_code: input.postal_code?.trim(),
+        country: input.country?.trim(),
+      });
+
+      // Providers need a location to travel to - unverified addresses can't be booked
+      if (!validation.coordinates) {
+        throw new Error(validation.warning || "We couldn't find this address. Please check the street, city and postcode.");
+      }
+
+      const cached = queryClient.getQueryData<SavedAddress[]>(addressKeys.list(user.id));
+      const isDefault = !!input.is_default || !cached?.some((address) => address.id !== input.id);
+
+      if (isDefault) {
+        await clearDefaultAddress(user.id, input.id);
+      }
+
+      const row = {
+        user_id: user.id,
+        label: input.label,
+        title: input.title?.trim() || addressLabelName(input.label),
+        street_address: input.street_address.trim(),
+        city: input.city.trim(),
+        postal_code: input.postal_code?.trim() || null,
+        country: input.country?.trim() || null,
+        coordinates: `POINT(${validation.coordinates.longitude} ${validation.coordinates.latitude})`,
+        updated_at: new Date().toISOString(),
+        ...(isDefault || !input.id ? { is_default: isDefault } : {}),
+      };
+
+      const { data, error } = input.id
+        ? await supabase.from('user_addresses').update(row).eq('id', input.id).eq('user_id', user.id)
+            .select('id, label, title, street_address, city, postal_code, country, is_default, created_at').single()
+        : await supabase.from('user_addresses').insert(row)
+            .select('id, label, title, street_address, city, postal_code, country, is_default, created_at').single();
+
+      if (error) throw error;
+
+      return { address: { ...data, is_default: !!data.is_default }, warning: validation.warning };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: addressKeys.list(user?.id) });
+    },
+  });
+}
+
+export function useSetDefaultAddress() {
+  const user = useAuthStore((state) => state.user);
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (addressId: string) => {
+      if (!user?.id) throw new Error('You need to be signed in');
+
+      await clearDefaultAddress(user.id, addressId);
+
+      const { error } = await supabase
+        .from('user_addresses')
+        .update({ is_default: true, updated_at: new Date().toISOString() })
+        .eq('id', addressId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: addressKeys.list(user?.id) });
+    },
+  });
+}
+
+/**
+ * Remove an address - if it was the default, the newest remaining address takes over
+ * Bookings keep their own copy of the address, so past and upcoming bookings are unaffected.
+ */
+export function useDeleteAddress() {
+  const user = useAuthStore((state) => state.user);
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (addressId: string) => {
+      if (!user?.id) throw new Error('You need to be signed in');
+
+      const { data: removed, error } = await supabase
+        .from('user_addresses')
+        .delete()
+        .eq('id', addressId)
+        .eq('user_id', user.id)
+        .select('is_default')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!removed?.is_default) return;
+
+      const { data: next } = await supabase
+        .from('user_addresses')
+        .select('id')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (next) {
+        const { error: promoteError } = await supabase
+          .from('user_addresses')
+          .update({ is_default: true, updated_at: new Date().toISOString() })
+          .eq('id', next.id);
+        if (promoteError) throw promoteError;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: addressKeys.list(user?.id) });
+    },
+  });
+}
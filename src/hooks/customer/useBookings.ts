@@ -3,6 +3,7 @@ import { supabase } from '@/lib/supabase';
 
 export interface BookingData {
   id: string;
+  provider_id?: string;
   booking_date: string;
   start_time: string;
   status: string;
@@ -22,6 +23,9 @@ export interface BookingData {
   emergency_description?: string;
   sos_booking?: boolean;
   customer_review_submitted?: boolean;
+  refund_amount?: string | null;
+  cancellation_fee_amount?: string | null;
+  series_id?: string | null;
 }
 
 export const useCustomerBookings = (userId?: string) => {
@@ -108,6 +112,7 @@ export const useCustomerBookingDetail = (bookingId?: string) => {
         .from('bookings')
         .select(`
           id,
+          provider_id,
           booking_date,
           start_time,
           status,
@@ -119,6 +124,9 @@ export const useCustomerBookingDetail = (bookingId?: string) => {
           service_address,
           customer_notes,
           is_sos_booking,
+          refund_amount,
+          cancellation_fee_amount,
+          series_id,
           provider_services!bookings_service_id_fkey (
             title,
             service_subcategories!inner (
@@ -147,6 +155,7 @@ export const useCustomerBookingDetail = (bookingId?: string) => {
 
       return {
         id: data.id,
+        provider_id: data.provider_id,
         booking_date: data.booking_date,
         start_time: data.start_time,
         status: data.status || 'pending',
@@ -166,6 +175,9 @@ export const useCustomerBookingDetail = (bookingId?: string) => {
         emergency_description: data.customer_notes,
         sos_booking: data.is_sos_booking || false,
         customer_review_submitted: !!(data.reviews as any)?.id,
+        refund_amount: data.refund_amount?.toString() ?? null,
+        cancellation_fee_amount: data.cancellation_fee_amount?.toString() ?? null,
+        series_id: data.series_id,
       };
     },
     enabled: !!bookingId,
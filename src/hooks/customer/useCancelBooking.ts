@@ -1,4 +1,4 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { Alert } from 'react-native';
 
@@ -9,18 +9,80 @@ interface CancelBookingParams {
   reason?: string;
 }
 
+export interface CancellationPreview {
+  tier: 'full' | 'partial' | 'none';
+  refund_amount: number;
+  cancellation_fee: number;
+  total_amount: number;
+  hours_until_start: number;
+  window_hours: number;
+  fee_percentage: number;
+  reason: string;
+}
+
 interface CancelBookingResponse {
   success: boolean;
   booking: any;
-  refund_id: string;
+  refund_id: string | null;
   message: string;
+  cancellation: CancellationPreview;
+}
+
+/**
+ * POST to the cancel-booking Edge Function with the user's JWT
+ */
+async function callCancelBooking<T>(body: Record<string, unknown>): Promise<T> {
+  // Get current session for JWT token
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+  if (sessionError || !session?.access_token) {
+    throw new Error('Not authenticated. Please log in again.');
+  }
+
+  const response = await fetch(
+    `${SUPABASE_URL}/functions/v1/cancel-booking`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to cancel booking');
+  }
+
+  return response.json();
+}
+
+/**
+ * Refund the customer would get if they cancelled right now
+ * Calculated server-side from the service's cancellation policy - nothing is cancelled.
+ */
+export function useCancellationPreview(bookingId?: string, enabled = true) {
+  return useQuery({
+    queryKey: ['cancellation-preview', bookingId],
+    queryFn: async (): Promise<CancellationPreview> => {
+      const data = await callCancelBooking<{ preview: CancellationPreview }>({
+        booking_id: bookingId,
+        preview: true,
+      });
+      return data.preview;
+    },
+    enabled: !!bookingId && enabled,
+    staleTime: 60 * 1000, // Refund tier depends on time-to-start
+  });
 }
 
 /**
  * Mutation hook to cancel a customer booking
  * Calls the cancel-booking Edge Function which:
  * 1. Updates booking status to 'cancelled'
- * 2. Creates Stripe refund automatically
+ * 2. Refunds according to the service's cancellation policy
  * 3. Updates payment records
  * 4. Notifies provider
  */
@@ -32,46 +94,28 @@ export function useCancelBooking() {
       bookingId, 
       reason 
     }: CancelBookingParams): Promise<CancelBookingResponse> => {
-      // Get current session for JWT token
-      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-      
-      if (sessionError || !session?.access_token) {
-        throw new Error('Not authenticated. Please log in again.');
-      }
-
-      // Call cancel-booking Edge Function
-      const response = await fetch(
-        `${SUPABASE_URL}/functions/v1/cancel-booking`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${session.access_token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ 
-            booking_id: bookingId,
-            reason: reason || undefined,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to cancel booking');
-      }
-
-      return response.json();
+      return callCancelBooking<CancelBookingResponse>({
+        booking_id: bookingId,
+        reason: reason || undefined,
+      });
     },
     onSuccess: (data, { bookingId }) => {
       // Invalidate all booking-related queries
       queryClient.invalidateQueries({ queryKey: ['customer-bookings'] });
       queryClient.invalidateQueries({ queryKey: ['bookings'] });
       queryClient.invalidateQueries({ queryKey: ['booking', bookingId] });
+      queryClient.invalidateQueries({ queryKey: ['customer-booking-detail', bookingId] });
+      queryClient.removeQueries({ queryKey: ['cancellation-preview', bookingId] });
 
       // Show success message
+      const refund = data.cancellation;
       Alert.alert(
         'Booking Cancelled',
-        'Your booking has been cancelled and you will receive a full refund.',
+        !refund || refund.tier === 'full'
+          ? 'Your booking has been cancelled and you will receive a full refund.'
+          : refund.refund_amount > 0
+            ? `Your booking has been cancelled. £${refund.refund_amount.toFixed(2)} will be refunded (£${refund.cancellation_fee.toFixed(2)} cancellation fee).`
+            : 'Your booking has been cancelled. No refund is due as the booking had already started.',
         [{ text: 'OK' }]
       );
     },
@@ -0,0 +1,174 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useStripe } from '@stripe/stripe-react-native';
+import { supabase } from '@/lib/supabase';
+import { useAuthStore } from '@/stores/auth';
+
+/**
+ * Saved card in the customer's wallet
+ * Card details come from customer_payment_methods.metadata (see _shared/payment-methods.ts)
+ */
+export interface SavedPaymentMethod {
+  id: string;
+  stripe_payment_method_id: string;
+  type: string;
+  is_default: boolean;
+  brand: string | null;
+  last4: string | null;
+  exp_month: number | null;
+  exp_year: number | null;
+  created_at: string | null;
+}
+
+const paymentMethodKeys = {
+  all: ['payment-methods'] as const,
+  list: (userId?: string) => [...paymentMethodKeys.all, userId] as const,
+};
+
+export const isCardExpired = (method: Pick<SavedPaymentMethod, 'exp_month' | 'exp_year'>) => {
+  if (!method.exp_month || !method.exp_year) return false;
+  const now = new Date();
+  return method.exp_year < now.getFullYear() ||
+    (method.exp_year === now.getFullYear() && method.exp_month < now.getMonth() + 1);
+};
+
+export const formatCardLabel = (method: Pick<SavedPaymentMethod, 'brand' | 'last4'>) => {
+  const brand = method.brand ? method.brand.charAt(0).toUpperCase() + method.brand.slice(1) : 'Card';
+  return `${brand} •••• ${method.last4 || '••••'}`;
+};
+
+// Edge function error body (code + message) from a FunctionsHttpError
+async function functionError(error: any, fallback: string): Promise<Error & { code?: string }> {
+  let message = fallback;
+  let code: string | undefined;
+  try {
+    if (error?.context && typeof error.context.json === 'function') {
+      const body = await error.context.json();
+      message = body.error || message;
+      code = body.code;
+    }
+  } catch {
+    // Keep the fallback message
+  }
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Customer's saved cards, default first
+ */
+export function usePaymentMethods() {
+  const user = useAuthStore((state) => state.user);
+
+  return useQuery({
+    queryKey: paymentMethodKeys.list(user?.id),
+    queryFn: async (): Promise<SavedPaymentMethod[]> => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('customer_payment_methods')
+        .select('id, stripe_payment_method_id, type, is_default, metadata, created_at')
+        .eq('customer_id', user.id)
+        .order('is_default', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map((row: any) => ({
+        id: row.id,
+        stripe_payment_method_id: row.stripe_payment_method_id,
+        type: row.type,
+        is_default: !!row.is_default,
+        brand: row.metadata?.brand || null,
+        last4: row.metadata?.last4 || null,
+        exp_month: row.metadata?.exp_month || null,
+        exp_year: row.metadata?.exp_year || null,
+        created_at: row.created_at,
+      }));
+    },
+    enabled: !!user?.id,
+  });
+}
+
+/**
+ * Default card for one-tap pay (skips expired cards)
+ */
+export function useDefaultPaymentMethod() {
+  const query = usePaymentMethods();
+  const method = query.data?.find((item) => item.is_default && !isCardExpired(item)) || null;
+  return { ...query, data: method };
+}
+
+/**
+ * Add a card - SetupIntent collected with the Payment Sheet, then saved to the wallet
+ * Resolves to false when the customer closes the sheet.
+ */
+export function useAddPaymentMethod() {
+  const user = useAuthStore((state) => state.user);
+  const queryClient = useQueryClient();
+  const { initPaymentSheet, presentPaymentSheet } = useStripe();
+
+  return useMutation({
+    mutationFn: async (): Promise<boolean> => {
+      const { data, error } = await supabase.functions.invoke('manage-payment-methods', {
+        body: { action: 'create_setup_intent' },
+      });
+      if (error) throw await functionError(error, 'Could not start adding a card');
+
+      const { error: initError } = await initPaymentSheet({
+        setupIntentClientSecret: data.clientSecret,
+        merchantDisplayName: 'ZOVA Services',
+        returnURL: 'zova://payment-return',
+      });
+      if (initError) throw new Error(initError.message);
+
+      const { error: sheetError } = await presentPaymentSheet();
+      if (sheetError) {
+        if (sheetError.code === 'Canceled') return false;
+        throw new Error(sheetError.message);
+      }
+
+      const { error: confirmError } = await supabase.functions.invoke('manage-payment-methods', {
+        body: { action: 'confirm_setup', setup_intent_id: data.setupIntentId },
+      });
+      if (confirmError) throw await functionError(confirmError, 'Card was added but could not be saved');
+
+      return true;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: paymentMethodKeys.list(user?.id) });
+    },
+  });
+}
+
+export function useSetDefaultPaymentMethod() {
+  const user = useAuthStore((state) => state.user);
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (paymentMethodId: string) => {
+      const { error } = await supabase.functions.invoke('manage-payment-methods', {
+        body: { action: 'set_default', payment_method_id: paymentMethodId },
+      });
+      if (error) throw await functionError(error, 'Could not update your default card');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: paymentMethodKeys.list(user?.id) });
+    },
+  });
+}
+
+export function useRemovePaymentMethod() {
+  const user = useAuthStore((state) => state.user);
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (paymentMethodId: string) => {
+      const { error } = await supabase.functions.invoke('manage-payment-methods', {
+        body: { action: 'remove', payment_method_id: paymentMethodId },
+      });
+      if (error) throw await functionError(error, 'Could not remove this card');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: paymentMethodKeys.list(user?.id) });
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Server price breakdown for a booking - all amounts in pence
+ * Mirrors PriceQuote in supabase/functions/_shared/pricing.ts
+ */
+export interface PriceQuote {
+  serviceId: string;
+  providerId: string;
+  customerId: string;
+  currency: 'gbp';
+  priceType: 'fixed' | 'hourly';
+  durationMinutes: number;
+  isHouseCall: boolean;
+  servicePrice: number;
+  houseCallFee: number;
+  travelFee: number; // distance-banded, set by the provider
+  distanceKm: number | null;
+  providerAmount: number;
+  platformFee: number;
+  sosFee: number; // pay-per-use SOS requests only
+  totalAmount: number;
+  depositAmount: number;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export interface SignedPriceQuote {
+  quote: PriceQuote;
+  quoteToken: string;
+}
+
+// House calls outside the provider's service area (or at an address that was never located)
+export const SERVICE_AREA_ERROR_CODES = ['OUT_OF_SERVICE_AREA', 'ADDRESS_NOT_LOCATED'];
+
+/**
+ * Price the customer will be charged, calculated and signed server-side
+ * The token goes to create-payment-intent so the charge matches what was shown.
+ * House calls need the saved address - it's checked against the provider's service area.
+ */
+export function usePriceQuote(serviceId?: string, providerId?: string, isHouseCall = false, addressId?: string) {
+  return useQuery({
+    queryKey: ['price-quote', serviceId, providerId, isHouseCall, addressId],
+    queryFn: async (): Promise<SignedPriceQuote> => {
+      const { data, error } = await supabase.functions.invoke('get-price-quote', {
+        body: {
+          service_id: serviceId,
+          provider_id: providerId,
+          is_house_call: isHouseCall,
+          address_id: addressId,
+        },
+      });
+
+      if (error) {
+        // Keep the server's message and code - service area errors are shown as-is
+        const body = await error.context?.json?.().catch(() => null);
+        throw Object.assign(new Error(body?.error || error.message), { code: body?.code as string | undefined });
+      }
+      return { quote: data.quote, quoteToken: data.quote_token };
+    },
+    enabled: !!serviceId && !!providerId,
+    staleTime: 10 * 60 * 1000, // Quotes are valid for 30 minutes
+    retry: (failureCount, error: any) => !SERVICE_AREA_ERROR_CODES.includes(error?.code) && failureCount < 3,
+  });
+}
@@ -81,9 +81,9 @@ export function useProviderSchedule(providerId: string) {
  * Hook to check provider availability for a specific date
  * Now uses Edge Function to bypass RLS and get proper availability data
  */
-export function useProviderAvailability(providerId: string, date: string) {
+export function useProviderAvailability(providerId: string, date: string, serviceId?: string, isHouseCall: boolean = false) {
   return useQuery({
-    queryKey: ['provider', 'availability', providerId, date],
+    queryKey: ['provider', 'availability', providerId, date, serviceId, isHouseCall],
     queryFn: async (): Promise<ProviderAvailability> => {
       if (!providerId || !date) {
         return {
@@ -99,7 +99,7 @@ export function useProviderAvailability(providerId: string, date: string) {
 
         // Use edge function to bypass RLS and get availability data
         const { data, error } = await supabase.functions.invoke('get-provider-availability', {
-          body: { providerId, date }
+          body: { providerId, date, serviceId, isHouseCall }
         });
 
         if (error) {
@@ -0,0 +1,199 @@
+/**
+ * SOS Request Hooks
+ *
+ * An SOS request is broadcast to the nearest available providers in widening
+ * waves; the first provider to accept is booked and paid with the customer's
+ * default wallet card (see supabase/functions/_shared/sos-dispatch.ts).
+ * Requests are covered by the SOS subscription's monthly allowance or paid per
+ * use (see supabase/functions/_shared/sos-entitlement.ts).
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuthStore } from '@/stores/auth';
+
+export type SOSRequestStatus = 'searching' | 'accepted' | 'booked' | 'no_providers' | 'cancelled' | 'failed';
+
+export interface SOSRequest {
+  id: string;
+  status: SOSRequestStatus;
+  service_name: string;
+  description: string;
+  service_address: string;
+  urgency_level: string;
+  wave: number;
+  total_waves: number;
+  radius_km: number;
+  wave_expires_at: string;
+  providers_notified: number;
+  providers_declined: number;
+  provider: {
+    id: string;
+    first_name: string | null;
+    last_name: string | null;
+    business_name: string | null;
+    avatar_url: string | null;
+  } | null;
+  booking_id: string | null;
+  failure_reason: string | null;
+  entitlement: 'subscription' | 'pay_per_use';
+  pay_per_use_fee: number; // pence
+  created_at: string;
+}
+
+/**
+ * Whether the next SOS request is covered by the subscription - amounts in pence
+ */
+export interface SOSEntitlement {
+  source: 'subscription' | 'sos_access' | null; // null - no SOS access, pay per use only
+  periodStart: string | null;
+  periodEnd: string | null;
+  included: number;
+  used: number;
+  remaining: number;
+  nextRequest: 'subscription' | 'pay_per_use';
+  payPerUseFee: number;
+}
+
+export interface CreateSOSRequestParams {
+  categoryId: string;
+  emergencyDescription: string;
+  serviceAddressId: string; // Saved (geocoded) address - dispatch is by distance
+  urgencyLevel: 'low' | 'medium' | 'high';
+  acceptPayPerUse?: boolean; // Customer agreed to the pay-per-use fee
+}
+
+// Statuses where the search is still running and worth polling
+export const ACTIVE_SOS_STATUSES: SOSRequestStatus[] = ['searching', 'accepted'];
+
+const sosRequestKeys = {
+  detail: (requestId?: string) => ['sos-request', requestId] as const,
+  entitlement: (userId?: string) => ['sos-entitlement', userId] as const,
+};
+
+// Edge function error body (code + message) from a FunctionsHttpError
+async function functionError(error: any, fallback: string): Promise<Error & { code?: string }> {
+  let message = fallback;
+  let code: string | undefined;
+  try {
+    if (error?.context && typeof error.context.json === 'function') {
+      const body = await error.context.json();
+      message = body.error || message;
+      code = body.code;
+    }
+  } catch {
+    // Keep the fallback message
+  }
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * SOS allowance left this billing period, or the pay-per-use fee the next
+ * request would cost
+ */
+export function useSOSEntitlement() {
+  const user = useAuthStore((state) => state.user);
+
+  return useQuery({
+    queryKey: sosRequestKeys.entitlement(user?.id),
+    queryFn: async (): Promise<SOSEntitlement> => {
+      const { data, error } = await supabase.functions.invoke('manage-sos-request', {
+        body: { action: 'entitlement' },
+      });
+
+      if (error) throw await functionError(error, 'Failed to load SOS allowance');
+      return data.entitlement;
+    },
+    enabled: !!user?.id,
+  });
+}
+
+/**
+ * Send an SOS request to nearby providers
+ * Fails with code NO_PAYMENT_METHOD when the customer has no default card, and
+ * PAY_PER_USE_REQUIRED when the request isn't covered and acceptPayPerUse isn't set.
+ */
+export function useCreateSOSRequest() {
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+
+  return useMutation({
+    mutationFn: async (params: CreateSOSRequestParams): Promise<SOSRequest> => {
+      const { data, error } = await supabase.functions.invoke('create-sos-booking', {
+        body: {
+          category_id: params.categoryId,
+          emergency_description: params.emergencyDescription,
+          service_address_id: params.serviceAddressId,
+          urgency_level: params.urgencyLevel,
+          accept_pay_per_use: params.acceptPayPerUse,
+        },
+      });
+
+      if (error) throw await functionError(error, 'Failed to send emergency request');
+      if (!data?.request) throw new Error('No request data returned');
+
+      return data.request;
+    },
+    onSuccess: (request) => {
+      queryClient.setQueryData(sosRequestKeys.detail(request.id), request);
+      queryClient.invalidateQueries({ queryKey: sosRequestKeys.entitlement(user?.id) });
+    },
+  });
+}
+
+/**
+ * Live status of an SOS request - polled while the search is running.
+ * Each poll also lets the server widen the search once a wave has timed out.
+ */
+export function useSOSRequest(requestId?: string) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: sosRequestKeys.detail(requestId),
+    queryFn: async (): Promise<SOSRequest> => {
+      const { data, error } = await supabase.functions.invoke('manage-sos-request', {
+        body: { action: 'status', request_id: requestId },
+      });
+
+      if (error) throw await functionError(error, 'Failed to load emergency request');
+
+      if (data.request.status === 'booked') {
+        queryClient.invalidateQueries({ queryKey: ['customer-bookings'] });
+      }
+
+      return data.request;
+    },
+    enabled: !!requestId,
+    refetchInterval: (query) =>
+      query.state.data && !ACTIVE_SOS_STATUSES.includes(query.state.data.status) ? false : 5000,
+  });
+}
+
+/**
+ * Cancel a request that nobody has accepted yet
+ */
+export function useCancelSOSRequest() {
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+
+  return useMutation({
+    mutationFn: async (requestId: string): Promise<SOSRequest> => {
+      const { data, error } = await supabase.functions.invoke('manage-sos-request', {
+        body: { action: 'cancel', request_id: requestId },
+      });
+
+      if (error) throw await functionError(error, 'Failed to cancel emergency request');
+
+      return data.request;
+    },
+    onSuccess: (request) => {
+      queryClient.setQueryData(sosRequestKeys.detail(request.id), request);
+      // A cancelled request no longer counts against the allowance
+      queryClient.invalidateQueries({ queryKey: sosRequestKeys.entitlement(user?.id) });
+    },
+    onError: (_, requestId) => {
+      // Most likely a provider accepted in the meantime - show the latest status
+      queryClient.invalidateQueries({ queryKey: sosRequestKeys.detail(requestId) });
+    },
+  });
+}
@@ -29,3 +29,28 @@ export {
   type VerificationData,
   type StepCompletionUpdate
 } from './useVerificationSingleSource';
+export {
+  useProviderDisputes,
+  useSubmitDisputeEvidence,
+  canRespondToDispute,
+  type ProviderDispute,
+  type DisputeStatus
+} from './useDisputes';
+export {
+  useServiceArea,
+  useUpdateServiceArea,
+  validateTravelFeeBands,
+  type ServiceArea,
+  type TravelFeeBand
+} from './useServiceArea';
+export {
+  useSOSOffers,
+  useRespondToSOSOffer,
+  type SOSOffer
+} from './useSOSOffers';
+export {
+  useDocumentExpiry,
+  useRenewVerificationDocument,
+  type DocumentExpiry,
+  type IdentityDocumentType
+} from './useDocumentExpiry';
@@ -153,6 +153,8 @@ export const useBookingActions = () => {
       await queryClient.invalidateQueries({ queryKey: ['provider-stats'] });
       await queryClient.invalidateQueries({ queryKey: ['provider-earnings'] });
       await queryClient.invalidateQueries({ queryKey: ['provider-payouts'] });
+      await queryClient.invalidateQueries({ queryKey: ['providerEarnings'] });
+      await queryClient.invalidateQueries({ queryKey: ['providerPayouts'] });
       
       // Invalidate user profile
       await queryClient.invalidateQueries({ queryKey: ['profile'] });
@@ -29,6 +29,17 @@ interface Booking {
   serviceTitle: string;
   status: string;
   amount: number;
+  seriesId: string | null;
+}
+
+interface BookingSeriesSummary {
+  id: string;
+  frequency: string;
+  startTime: string;
+  customerName: string;
+  serviceTitle: string;
+  nextDate: string | null;
+  remaining: number;
 }
 
 // Custom hook for calendar data with optimized React Query usage
@@ -96,6 +107,7 @@ export const useCalendarData = () => {
           end_time,
           status,
           total_amount,
+          series_id,
           customer:profiles!customer_id (
             first_name,
             last_name
@@ -127,6 +139,7 @@ export const useCalendarData = () => {
           serviceTitle: service?.title || 'Service',
           status: booking.status,
           amount: booking.total_amount,
+          seriesId: booking.series_id,
         };
       }) || [];
     },
@@ -138,6 +151,71 @@ export const useCalendarData = () => {
     retry: 2,
   });
 
+  // Active recurring series, grouped in the calendar
+  const {
+    data: series = [],
+    isLoading: seriesLoading,
+    refetch: refetchSeries,
+  } = useQuery({
+    queryKey: ['provider-booking-series', user?.id],
+    queryFn: async (): Promise<BookingSeriesSummary[]> => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('booking_series')
+        .select(`
+          id,
+          frequency,
+          start_time,
+          customer:profiles!customer_id (
+            first_name,
+            last_name
+          ),
+          service:provider_services!service_id (
+            title
+          ),
+          occurrences:booking_series_occurrences (
+            occurrence_date,
+            status
+          )
+        `)
+        .eq('provider_id', user.id)
+        .eq('status', 'active')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const today = new Date().toISOString().split('T')[0];
+
+      return data?.map(item => {
+        const customer = Array.isArray(item.customer) ? item.customer[0] : item.customer;
+        const service = Array.isArray(item.service) ? item.service[0] : item.service;
+        const upcoming = (item.occurrences || [])
+          .filter((occurrence: { occurrence_date: string; status: string }) =>
+            ['scheduled', 'processing', 'booked'].includes(occurrence.status) && occurrence.occurrence_date >= today
+          )
+          .map((occurrence: { occurrence_date: string }) => occurrence.occurrence_date)
+          .sort();
+
+        return {
+          id: item.id,
+          frequency: item.frequency,
+          startTime: item.start_time,
+          customerName: customer
+            ? `${customer.first_name || 'Unknown'} ${customer.last_name || 'Customer'}`.trim()
+            : 'Unknown Customer',
+          serviceTitle: service?.title || 'Service',
+          nextDate: upcoming[0] || null,
+          remaining: upcoming.length,
+        };
+      }) || [];
+    },
+    enabled: !!user?.id,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    retry: 2,
+  });
+
   // Update schedule mutation with optimistic updates
   const updateScheduleMutation = useMutation({
     mutationFn: async ({
@@ -222,6 +300,7 @@ export const useCalendarData = () => {
     await Promise.all([
       refetchSchedule(),
       refetchBookings(),
+      refetchSeries(),
     ]);
   };
 
@@ -229,6 +308,7 @@ export const useCalendarData = () => {
     // Data
     weeklySchedule,
     bookings,
+    series,
     stats,
 
     // Loading states
@@ -236,6 +316,7 @@ export const useCalendarData = () => {
     isRefetching,
     scheduleLoading,
     bookingsLoading,
+    seriesLoading,
 
     // Error states
     hasError,
@@ -95,6 +95,8 @@ export const useCompleteBooking = () => {
           
           // Invalidate earnings
           await queryClient.invalidateQueries({ queryKey: ['provider-earnings'] });
+          await queryClient.invalidateQueries({ queryKey: ['providerEarnings'] });
+          await queryClient.invalidateQueries({ queryKey: ['providerPayouts'] });
           
           // Invalidate stats (for dashboard and profile)
           await queryClient.invalidateQueries({ queryKey: ['provider-stats'] });
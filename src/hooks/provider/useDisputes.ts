@@ -0,0 +1,126 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+
+export type DisputeStatus =
+  | 'warning_needs_response'
+  | 'warning_under_review'
+  | 'warning_closed'
+  | 'needs_response'
+  | 'under_review'
+  | 'won'
+  | 'lost';
+
+export interface ProviderDispute {
+  id: string;
+  booking_id: string;
+  amount: number; // pence
+  currency: string;
+  reason: string | null;
+  status: DisputeStatus;
+  evidence_due_by: string | null;
+  provider_statement: string | null;
+  evidence_submitted_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  // Booking details
+  booking_date: string | null;
+  service_title: string | null;
+  customer_name: string | null;
+}
+
+// Statuses where Stripe still accepts evidence - mirrors _shared/disputes.ts
+export const RESPONDABLE_DISPUTE_STATUSES: DisputeStatus[] = ['warning_needs_response', 'needs_response'];
+
+export const canRespondToDispute = (dispute: ProviderDispute) =>
+  RESPONDABLE_DISPUTE_STATUSES.includes(dispute.status) &&
+  (!dispute.evidence_due_by || new Date(dispute.evidence_due_by).getTime() > Date.now());
+
+/**
+ * Chargebacks raised against the provider's bookings, newest first
+ */
+export const useProviderDisputes = (providerId?: string) => {
+  return useQuery({
+    queryKey: ['provider-disputes', providerId],
+    queryFn: async (): Promise<ProviderDispute[]> => {
+      if (!providerId) {
+        throw new Error('Provider ID is required');
+      }
+
+      const { data, error } = await supabase
+        .from('booking_disputes')
+        .select(`
+          id,
+          booking_id,
+          amount,
+          currency,
+          reason,
+          status,
+          evidence_due_by,
+          provider_statement,
+          evidence_submitted_at,
+          closed_at,
+          created_at,
+          bookings (
+            booking_date,
+            provider_services (
+              title
+            ),
+            customer:profiles!bookings_customer_id_fkey (
+              first_name,
+              last_name
+            )
+          )
+        `)
+        .eq('provider_id', providerId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map((dispute: any) => {
+        const booking = Array.isArray(dispute.bookings) ? dispute.bookings[0] : dispute.bookings;
+        const service = Array.isArray(booking?.provider_services) ? booking.provider_services[0] : booking?.provider_services;
+        const customer = Array.isArray(booking?.customer) ? booking.customer[0] : booking?.customer;
+
+        return {
+          id: dispute.id,
+          booking_id: dispute.booking_id,
+          amount: dispute.amount,
+          currency: dispute.currency,
+          reason: dispute.reason,
+          status: dispute.status,
+          evidence_due_by: dispute.evidence_due_by,
+          provider_statement: dispute.provider_statement,
+          evidence_submitted_at: dispute.evidence_submitted_at,
+          closed_at: dispute.closed_at,
+          created_at: dispute.created_at,
+          booking_date: booking?.booking_date || null,
+          service_title: service?.title || null,
+          customer_name: customer ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() || null : null,
+        };
+      });
+    },
+    enabled: !!providerId,
+    staleTime: 60 * 1000,
+  });
+};
+
+/**
+ * Send the provider's statement with the booking evidence to Stripe
+ */
+export const useSubmitDisputeEvidence = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ disputeId, statement }: { disputeId: string; statement: string }) => {
+      const { data, error } = await supabase.functions.invoke('submit-dispute-evidence', {
+        body: { dispute_id: disputeId, statement },
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['provider-disputes'] });
+    },
+  });
+};
@@ -0,0 +1,124 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { createStorageService } from '@/lib/storage/organized-storage';
+import {
+  getDaysUntilExpiry,
+  getDocumentExpiryState,
+  toExpiryDateString,
+  type DocumentExpiryState,
+} from '@/lib/verification/document-expiry';
+import type { ImageQualityReport } from '@/lib/verification/image-quality';
+
+export type IdentityDocumentType = 'passport' | 'driving_license' | 'id_card';
+
+export interface DocumentExpiry {
+  documentId: string | null;
+  documentType: IdentityDocumentType | null;
+  documentStatus: string | null;
+  expiryDate: string | null;
+  daysUntilExpiry: number | null;
+  state: DocumentExpiryState;
+  // Set by check-document-expiry once the document has expired - hidden from search and SOS
+  reverificationRequired: boolean;
+  reverificationRequiredAt: string | null;
+}
+
+export const documentExpiryKeys = {
+  detail: (providerId?: string) => ['document-expiry', providerId] as const,
+};
+
+/**
+ * Expiry of the provider's latest ID document and whether they've been flagged for re-verification
+ */
+export function useDocumentExpiry(providerId?: string) {
+  return useQuery({
+    queryKey: documentExpiryKeys.detail(providerId),
+    queryFn: async (): Promise<DocumentExpiry> => {
+      const [documentResult, progressResult] = await Promise.all([
+        supabase
+          .from('provider_verification_documents')
+          .select('id, document_type, verification_status, expiry_date')
+          .eq('provider_id', providerId!)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('provider_onboarding_progress')
+          .select('reverification_required_at')
+          .eq('provider_id', providerId!)
+          .maybeSingle(),
+      ]);
+
+      if (documentResult.error) throw documentResult.error;
+      if (progressResult.error) throw progressResult.error;
+
+      const document = documentResult.data;
+      const reverificationRequiredAt = progressResult.data?.reverification_required_at ?? null;
+
+      return {
+        documentId: document?.id ?? null,
+        documentType: document?.document_type ?? null,
+        documentStatus: document?.verification_status ?? null,
+        expiryDate: document?.expiry_date ?? null,
+        daysUntilExpiry: getDaysUntilExpiry(document?.expiry_date),
+        state: getDocumentExpiryState(document?.expiry_date),
+        reverificationRequired: !!reverificationRequiredAt,
+        reverificationRequiredAt,
+      };
+    },
+    enabled: !!providerId,
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+/**
+ * Upload a replacement ID document
+ * Added as a new pending document so the approved one stays on record; a new
+ * unexpired document lifts the re-verification flag (database trigger).
+ */
+export function useRenewVerificationDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ providerId, imageUri, documentType, expiryDate, qualityReport }: {
+      providerId: string;
+      imageUri: string;
+      documentType: IdentityDocumentType;
+      expiryDate: Date;
+      qualityReport: ImageQualityReport | null;
+    }) => {
+      const storage = createStorageService(providerId);
+      const uploadResult = await storage.uploadIdentityDocument(imageUri, documentType, Date.now());
+
+      if (!uploadResult.success || !uploadResult.filePath) {
+        throw new Error(uploadResult.error || 'Failed to upload document');
+      }
+
+      const { data, error } = await supabase
+        .from('provider_verification_documents')
+        .insert({
+          provider_id: providerId,
+          document_type: documentType,
+          document_url: uploadResult.filePath,
+          verification_status: 'pending',
+          expiry_date: toExpiryDateString(expiryDate),
+          metadata: { quality_check: qualityReport as any },
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        // Don't leave an orphaned file behind
+        await supabase.storage.from('verification-images').remove([uploadResult.filePath]);
+        throw error;
+      }
+
+      return data;
+    },
+    onSuccess: (_data, { providerId }) => {
+      queryClient.invalidateQueries({ queryKey: documentExpiryKeys.detail(providerId) });
+      queryClient.invalidateQueries({ queryKey: ['existingDocument', providerId] });
+      queryClient.invalidateQueries({ queryKey: ['verification-data', providerId] });
+    },
+  });
+}
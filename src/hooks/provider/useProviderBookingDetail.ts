@@ -17,6 +17,8 @@ export interface BookingDetail {
   customerNotes?: string;
   providerNotes?: string;
   serviceAddress?: string;
+  isSosBooking: boolean;
+  seriesId?: string | null;
   createdAt: string;
   updatedAt: string;
   
@@ -105,6 +107,8 @@ export const useProviderBookingDetail = (bookingId?: string) => {
         customerNotes: data.customer_notes,
         providerNotes: data.provider_notes,
         serviceAddress: data.service_address,
+        isSosBooking: data.is_sos_booking || false,
+        seriesId: data.series_id,
         createdAt: data.created_at,
         updatedAt: data.updated_at,
         
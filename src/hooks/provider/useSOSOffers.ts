@@ -0,0 +1,85 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuthStore } from '@/stores/auth';
+
+/**
+ * An SOS request offered to this provider - the address is only shared with
+ * whoever accepts first
+ */
+export interface SOSOffer {
+  id: string;
+  request_id: string;
+  service_name: string;
+  service_title: string | null;
+  description: string;
+  urgency_level: string;
+  distance_km: number;
+  offered_at: string;
+}
+
+const sosOfferKeys = {
+  list: (providerId?: string) => ['sos-offers', providerId] as const,
+};
+
+// Edge function error body (code + message) from a FunctionsHttpError
+async function functionError(error: any, fallback: string): Promise<Error & { code?: string }> {
+  let message = fallback;
+  let code: string | undefined;
+  try {
+    if (error?.context && typeof error.context.json === 'function') {
+      const body = await error.context.json();
+      message = body.error || message;
+      code = body.code;
+    }
+  } catch {
+    // Keep the fallback message
+  }
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Open SOS offers for the signed-in provider
+ * Polled often - offers are gone as soon as another provider accepts.
+ */
+export function useSOSOffers() {
+  const user = useAuthStore((state) => state.user);
+
+  return useQuery({
+    queryKey: sosOfferKeys.list(user?.id),
+    queryFn: async (): Promise<SOSOffer[]> => {
+      const { data, error } = await supabase.functions.invoke('manage-sos-request', {
+        body: { action: 'offers' },
+      });
+
+      if (error) throw await functionError(error, 'Failed to load SOS requests');
+      return data.offers || [];
+    },
+    enabled: !!user?.id,
+    refetchInterval: 15 * 1000,
+  });
+}
+
+/**
+ * Accept or decline an SOS offer
+ * Accepting books the job straight away; fails with ALREADY_ACCEPTED when another
+ * provider got there first.
+ */
+export function useRespondToSOSOffer() {
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+
+  return useMutation({
+    mutationFn: async ({ requestId, response }: { requestId: string; response: 'accept' | 'decline' }) => {
+      const { data, error } = await supabase.functions.invoke('manage-sos-request', {
+        body: { action: 'respond', request_id: requestId, response },
+      });
+
+      if (error) throw await functionError(error, 'Failed to respond to SOS request');
+      return data as { success: boolean; booking_id?: string };
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: sosOfferKeys.list(user?.id) });
+      queryClient.invalidateQueries({ queryKey: ['pending-bookings'] });
+    },
+  });
+}
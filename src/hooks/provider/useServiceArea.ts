@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Distance band for house-call travel fees - fee (pounds) applies up to max_km
+ * Mirrors TravelFeeBand in supabase/functions/_shared/service-area.ts
+ */
+export interface TravelFeeBand {
+  max_km: number;
+  fee: number;
+}
+
+export interface ServiceArea {
+  serviceRadiusKm: number | null;
+  travelFeeBands: TravelFeeBand[];
+  hasLocation: boolean; // house calls are only checked once the provider's address is geocoded
+}
+
+export const MAX_SERVICE_RADIUS_KM = 100;
+export const MAX_TRAVEL_FEE_BANDS = 5;
+
+const serviceAreaKeys = {
+  detail: (providerId?: string) => ['service-area', providerId] as const,
+};
+
+/**
+ * Problems with the bands as entered, or null when they can be saved
+ */
+export function validateTravelFeeBands(bands: TravelFeeBand[], radiusKm: number | null): string | null {
+  if (bands.length > MAX_TRAVEL_FEE_BANDS) return `Add up to ${MAX_TRAVEL_FEE_BANDS} distance bands`;
+
+  for (const [index, band] of bands.entries()) {
+    if (!Number.isFinite(band.max_km) || band.max_km <= 0) return 'Each band needs a distance above 0 km';
+    if (!Number.isFinite(band.fee) || band.fee < 0) return 'Travel fees can\'t be negative';
+    if (index > 0 && band.max_km <= bands[index - 1].max_km) return 'Bands must go from nearest to furthest';
+    if (radiusKm && band.max_km > radiusKm) return `Bands can't go beyond your ${radiusKm} km service radius`;
+  }
+
+  return null;
+}
+
+/**
+ * Provider's house-call radius and travel fee bands (profiles)
+ */
+export function useServiceArea(providerId?: string) {
+  return useQuery({
+    queryKey: serviceAreaKeys.detail(providerId),
+    queryFn: async (): Promise<ServiceArea> => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('service_radius, travel_fee_bands, coordinates')
+        .eq('id', providerId)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        serviceRadiusKm: data.service_radius ?? null,
+        travelFeeBands: Array.isArray(data.travel_fee_bands) ? data.travel_fee_bands : [],
+        hasLocation: !!data.coordinates,
+      };
+    },
+    enabled: !!providerId,
+  });
+}
+
+export function useUpdateServiceArea() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ providerId, serviceRadiusKm, travelFeeBands }: {
+      providerId: string;
+      serviceRadiusKm: number | null;
+      travelFeeBands: TravelFeeBand[];
+    }) => {
+      if (serviceRadiusKm !== null && (serviceRadiusKm < 1 || serviceRadiusKm > MAX_SERVICE_RADIUS_KM)) {
+        throw new Error(`Service radius must be between 1 and ${MAX_SERVICE_RADIUS_KM} km`);
+      }
+
+      const bands = [...travelFeeBands].sort((a, b) => a.max_km - b.max_km);
+      const invalid = validateTravelFeeBands(bands, serviceRadiusKm);
+      if (invalid) throw new Error(invalid);
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          service_radius: serviceRadiusKm,
+          travel_fee_bands: bands,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', providerId)
+        .eq('role', 'provider');
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { providerId }) => {
+      queryClient.invalidateQueries({ queryKey: serviceAreaKeys.detail(providerId) });
+    },
+  });
+}
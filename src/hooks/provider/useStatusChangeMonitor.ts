@@ -33,11 +33,9 @@ export const useStatusChangeMonitor = () => {
             {
               text: 'OK',
               onPress: () => {
-                // Navigate based on new status
-                if (currentStatus === 'pending' || currentStatus === 'in_review') {
+                // Navigate based on new status - rejections show which steps to fix
+                if (currentStatus === 'pending' || currentStatus === 'in_review' || currentStatus === 'rejected') {
                   router.replace('/(provider-verification)/verification-status');
-                } else if (currentStatus === 'rejected') {
-                  router.replace('/(provider-verification)');
                 }
                 isHandlingChange.current = false;
               }
@@ -51,6 +49,12 @@ export const useStatusChangeMonitor = () => {
         // Auto-navigation will handle this
         isHandlingChange.current = false;
       }
+      // ✅ HANDLE REJECTION OF A SUBMITTED APPLICATION
+      else if (currentStatus === 'rejected') {
+        console.log('[StatusChangeMonitor] ❌ Verification rejected - showing feedback');
+        router.replace('/(provider-verification)/verification-status');
+        isHandlingChange.current = false;
+      }
       // ✅ OTHER CHANGES
       else {
         isHandlingChange.current = false;
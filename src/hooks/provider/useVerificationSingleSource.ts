@@ -17,6 +17,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useEffect, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import type { StepReview } from '@/lib/verification/verification-flow-manager';
 
 // Types
 export interface VerificationProgress {
@@ -41,6 +42,7 @@ export interface VerificationData {
   services: any[];
   businessTerms: any;
   profile: any;
+  stepReviews: StepReview[]; // steps sent back by the last review
 }
 
 export interface StepCompletionUpdate {
@@ -71,7 +73,8 @@ export const useVerificationData = (providerId: string | undefined, options?: {
         portfolioResult,
         servicesResult,
         termsResult,
-        profileResult
+        profileResult,
+        stepReviewsResult
       ] = await Promise.all([
         // Progress data
         supabase
@@ -115,7 +118,15 @@ export const useVerificationData = (providerId: string | undefined, options?: {
             stripe_account_id, stripe_charges_enabled, stripe_details_submitted
           `)
           .eq('id', providerId)
-          .single()
+          .single(),
+
+        // Steps rejected by the last review (and whether they've been redone)
+        supabase
+          .from('provider_verification_step_progress')
+          .select('step_number, status, error_message')
+          .eq('provider_id', providerId)
+          .in('status', ['rejected', 'resubmitted'])
+          .order('step_number')
       ]);
 
       // Handle errors
@@ -129,6 +140,7 @@ export const useVerificationData = (providerId: string | undefined, options?: {
         throw termsResult.error;
       }
       if (profileResult.error) throw profileResult.error;
+      if (stepReviewsResult.error) throw stepReviewsResult.error;
 
       // Create default progress if none exists
       // ✅ CORRECT: 8 steps total (Services step was removed)
@@ -152,7 +164,8 @@ export const useVerificationData = (providerId: string | undefined, options?: {
         portfolio: portfolioResult.data || [],
         services: servicesResult.data || [],
         businessTerms: termsResult.data,
-        profile: profileResult.data
+        profile: profileResult.data,
+        stepReviews: (stepReviewsResult.data || []) as StepReview[]
       };
     },
     enabled: !!providerId,
@@ -388,6 +401,36 @@ export const useUpdateStepCompletion = () => {
         }
       }
 
+      // 3. A step sent back by the review counts as resubmitted once it's saved again
+      if (completed && stepNumber < 8) {
+        const resubmittedResult = await supabase
+          .from('provider_verification_step_progress')
+          .update({
+            status: 'resubmitted',
+            completed_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+          })
+          .eq('provider_id', providerId)
+          .eq('step_number', stepNumber)
+          .eq('status', 'rejected')
+          .select('step_number');
+        results.push(resubmittedResult);
+
+        // A new selfie needs reviewing again
+        if (stepNumber === 2 && resubmittedResult.data?.length) {
+          const selfieReviewResult = await supabase
+            .from('provider_onboarding_progress')
+            .update({
+              selfie_verification_status: 'pending',
+              selfie_rejection_reason: null,
+              selfie_verified_by: null,
+              selfie_verified_at: null
+            })
+            .eq('provider_id', providerId);
+          results.push(selfieReviewResult);
+        }
+      }
+
       // Check for errors
       const errors = results.filter(result => result.error);
       if (errors.length > 0) {
@@ -22,7 +22,7 @@ import {
 
 export interface UseLayoutGuardsOptions {
   requireAuth?: boolean;
-  requireRole?: 'customer' | 'provider';
+  requireRole?: 'customer' | 'provider' | 'admin';
   requireVerification?: boolean;
   requireProfileCompletion?: boolean;
   requiredFields?: string[];
@@ -163,6 +163,17 @@ export function useCustomerLayoutGuards() {
   });
 }
 
+/**
+ * ✅ Convenience hook for admin layouts
+ * Pre-configured for admin route guards (admin and super-admin)
+ */
+export function useAdminLayoutGuards() {
+  return useLayoutGuards({
+    requireAuth: true,
+    requireRole: 'admin',
+  });
+}
+
 /**
  * ✅ Convenience hook for auth layouts
  * Pre-configured for auth route guards
@@ -170,6 +181,7 @@ export function useCustomerLayoutGuards() {
  * Logic:
  * - If NOT authenticated: allow to see auth screens
  * - If authenticated as CUSTOMER: redirect to /(customer)
+ * - If authenticated as ADMIN / SUPER-ADMIN: redirect to /(admin)
  * - If authenticated as PROVIDER (verified): redirect to /(provider)
  * - If authenticated as PROVIDER (NOT verified): redirect to /(provider-verification)
  */
@@ -203,6 +215,18 @@ export function useAuthLayoutGuards() {
       };
     }
 
+    // For admins and super-admins, go to the admin console
+    if (userRole === 'admin' || userRole === 'super-admin') {
+      return {
+        guardResult: { type: 'redirect' as const, href: '/(admin)' },
+        isLoading: false,
+        isAllowed: false,
+        isRedirecting: true,
+        redirectHref: '/(admin)',
+        state: { session, userRole, isHydrated, verificationStatus: undefined, profile: null },
+      };
+    }
+
     // For providers, check verification status
     if (userRole === 'provider') {
       // ✅ CRITICAL: Only use fresh verification data from React Query, NEVER stale cache for routing
@@ -4,6 +4,10 @@ export { useDeepLinkHandler } from './useDeepLinkHandler';
 // ✅ SYSTEM INTEGRATION: Pending registration handler
 export { usePendingRegistration } from './usePendingRegistration';
 
+// ✅ SYSTEM INTEGRATION: Expo push token registration
+export { usePushTokenRegistration } from './usePushTokenRegistration';
+export { useNotificationResponseHandler } from './useNotificationResponseHandler';
+
 // ✅ UTILITY: Debounce hook for search optimization
 export { useDebounceValue } from './useDebounce';
 
@@ -48,4 +52,65 @@ export {
 } from './useProfileData';
 
 // ✅ TRACKING: View tracking hooks
-export { useTrackView } from './useTrackView';
\ No newline at end of file
+export { useTrackView } from './useTrackView';
+
+// ✅ MESSAGING: Customer ↔ provider chat hooks
+export {
+  useConversations,
+  useConversation,
+  useConversationMessages,
+  useUnreadMessageCount,
+  useOpenBookingConversation,
+  useSendMessage,
+  useMarkConversationRead,
+  useChatImageUrl,
+  useConversationRealtime,
+  useMessagesRealtime,
+  type ChatMessage,
+  type ConversationSummary
+} from './useMessages';
+
+
+// ✅ NOTIFICATIONS: In-app notification inbox
+export {
+  useNotifications,
+  useUnreadNotificationCount,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  useNotificationsRealtime,
+  getNotificationRoute,
+  type AppNotification,
+  type NotificationType
+} from './useNotifications';
+
+// ✅ RESCHEDULING: Propose / answer a new booking time
+export {
+  useRescheduleRequests,
+  useRescheduleRealtime,
+  useRescheduleBooking,
+  getPendingReschedule,
+  type RescheduleRequest,
+  type RescheduleAction
+} from './useBookingReschedule';
+
+// ✅ RECURRING BOOKINGS: Weekly / fortnightly / monthly series
+export {
+  useBookingSeries,
+  useManageBookingSeries,
+  SERIES_FREQUENCY_LABELS,
+  type BookingSeries,
+  type BookingSeriesOccurrence,
+  type BookingSeriesWithOccurrences,
+  type SeriesFrequency
+} from './useBookingSeries';
+
+// ✅ LIVE LOCATION: Provider location sharing and ETA for house calls / SOS
+export {
+  useBookingLiveLocation,
+  useBookingDestination,
+  useShareBookingLocation,
+  canTrackBooking,
+  estimateArrival,
+  type BookingLiveLocation,
+  type ArrivalEstimate
+} from './useBookingLiveLocation';
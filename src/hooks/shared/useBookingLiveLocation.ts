@@ -0,0 +1,234 @@
+/**
+ * Provider Live Location Hooks
+ *
+ * During an in_progress house-call or SOS booking the provider can share their
+ * location; it's written to booking_live_locations (one row per booking) and the
+ * customer follows it over Realtime to see an ETA. The row is deleted when the
+ * provider stops sharing or the booking leaves in_progress, and stale rows are
+ * purged after 10 minutes (see migration 20261019118000_booking_live_location).
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Location from 'expo-location';
+import { getDistance } from 'geolib';
+import { supabase } from '@/lib/supabase';
+import { useAuthStore } from '@/stores/auth';
+import { useLocationPermission } from './useLocation';
+
+export interface BookingLiveLocation {
+  booking_id: string;
+  provider_id: string;
+  latitude: number;
+  longitude: number;
+  heading: number | null;
+  speed_mps: number | null;
+  accuracy_m: number | null;
+  updated_at: string;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ArrivalEstimate {
+  distanceMeters: number;
+  etaMinutes: number;
+}
+
+// Typical door-to-door speed in town - straight-line distance undercounts the route
+const AVERAGE_TRAVEL_SPEED_KMH = 25;
+// Close enough to call it arrived
+const ARRIVED_WITHIN_METERS = 100;
+
+// How often the provider's position is sent while sharing
+const SHARE_INTERVAL_MS = 15 * 1000;
+const SHARE_DISTANCE_METERS = 50;
+
+const liveLocationKeys = {
+  location: (bookingId?: string) => ['booking-live-location', bookingId] as const,
+  destination: (bookingId?: string) => ['booking-destination', bookingId] as const,
+};
+
+/**
+ * Whether a booking can have its provider tracked - house calls and SOS only
+ */
+export function canTrackBooking(booking: { status?: string | null; is_sos_booking?: boolean | null; service_address?: string | null }) {
+  return booking.status === 'in_progress' && !!(booking.is_sos_booking || booking.service_address);
+}
+
+/**
+ * Distance and rough ETA from the provider to the service address
+ */
+export function estimateArrival(from: Coordinates, to: Coordinates): ArrivalEstimate {
+  const distanceMeters = getDistance(from, to);
+  if (distanceMeters <= ARRIVED_WITHIN_METERS) {
+    return { distanceMeters, etaMinutes: 0 };
+  }
+
+  const etaMinutes = Math.max(Math.round((distanceMeters / 1000) / AVERAGE_TRAVEL_SPEED_KMH * 60), 1);
+  return { distanceMeters, etaMinutes };
+}
+
+/**
+ * Coordinates of the booking's service address
+ */
+export function useBookingDestination(bookingId?: string, enabled = true) {
+  return useQuery({
+    queryKey: liveLocationKeys.destination(bookingId),
+    queryFn: async (): Promise<Coordinates | null> => {
+      const { data, error } = await supabase.rpc('get_booking_destination', { p_booking_id: bookingId! });
+
+      if (error) throw error;
+      return data?.[0] || null;
+    },
+    enabled: !!bookingId && enabled,
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * ✅ REAL-TIME: The provider's shared location for a booking, null when they
+ * aren't sharing
+ */
+export function useBookingLiveLocation(bookingId?: string, enabled = true) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: liveLocationKeys.location(bookingId),
+    queryFn: async (): Promise<BookingLiveLocation | null> => {
+      const { data, error } = await supabase
+        .from('booking_live_locations')
+        .select('*')
+        .eq('booking_id', bookingId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!bookingId && enabled,
+  });
+
+  useEffect(() => {
+    if (!bookingId || !enabled) return;
+
+    const channel = supabase
+      .channel(`booking-live-location-${bookingId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'booking_live_locations',
+          filter: `booking_id=eq.${bookingId}`,
+        },
+        (payload) => {
+          queryClient.setQueryData(
+            liveLocationKeys.location(bookingId),
+            payload.eventType === 'DELETE' ? null : (payload.new as BookingLiveLocation)
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [bookingId, enabled, queryClient]);
+
+  return query;
+}
+
+/**
+ * Opt-in location sharing for the provider of a booking
+ * Sharing only runs while `active` (the booking is trackable) and stops by itself
+ * when it isn't any more - the shared location is deleted when it stops.
+ */
+export function useShareBookingLocation(bookingId?: string, active = false) {
+  const user = useAuthStore((state) => state.user);
+  const { requestPermission } = useLocationPermission();
+  const [isSharing, setIsSharing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const watcher = useRef<Location.LocationSubscription | null>(null);
+
+  const publish = useCallback(async (position: Location.LocationObject) => {
+    if (!bookingId || !user?.id) return;
+
+    const { error: upsertError } = await supabase
+      .from('booking_live_locations')
+      .upsert({
+        booking_id: bookingId,
+        provider_id: user.id,
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        heading: position.coords.heading,
+        speed_mps: position.coords.speed,
+        accuracy_m: position.coords.accuracy,
+        updated_at: new Date(position.timestamp).toISOString(),
+      });
+
+    if (upsertError) {
+      console.error('[LiveLocation] Failed to share location:', upsertError);
+    }
+  }, [bookingId, user?.id]);
+
+  const stopSharing = useCallback(async () => {
+    watcher.current?.remove();
+    watcher.current = null;
+    setIsSharing(false);
+
+    if (bookingId) {
+      await supabase.from('booking_live_locations').delete().eq('booking_id', bookingId);
+    }
+  }, [bookingId]);
+
+  const startSharing = useCallback(async () => {
+    if (!bookingId || !active || watcher.current) return false;
+
+    setError(null);
+    const granted = await requestPermission();
+    if (!granted) {
+      setError('Location permission is needed to share your location');
+      return false;
+    }
+
+    try {
+      watcher.current = await Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.Balanced,
+          timeInterval: SHARE_INTERVAL_MS,
+          distanceInterval: SHARE_DISTANCE_METERS,
+        },
+        publish
+      );
+      setIsSharing(true);
+      return true;
+    } catch (err) {
+      console.error('[LiveLocation] Failed to start sharing:', err);
+      setError('Unable to get your location');
+      return false;
+    }
+  }, [bookingId, active, requestPermission, publish]);
+
+  // Stop automatically once the booking is finished (or no longer trackable)
+  useEffect(() => {
+    if (!active && watcher.current) {
+      stopSharing();
+    }
+  }, [active, stopSharing]);
+
+  // Leaving the screen stops sharing too
+  useEffect(() => {
+    return () => {
+      if (!watcher.current) return;
+      watcher.current.remove();
+      watcher.current = null;
+      if (bookingId) {
+        supabase.from('booking_live_locations').delete().eq('booking_id', bookingId).then();
+      }
+    };
+  }, [bookingId]);
+
+  return { isSharing, error, startSharing, stopSharing };
+}
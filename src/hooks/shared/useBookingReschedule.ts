@@ -0,0 +1,151 @@
+/**
+ * ✅ BOOKING RESCHEDULE HOOKS
+ *
+ * Customer proposes a new slot, provider accepts / declines / counter-proposes.
+ * All writes go through the reschedule-booking Edge Function, which validates the
+ * slot against the provider's schedule, blackouts and existing bookings.
+ * The booking keeps its PaymentIntent - nothing is refunded or re-charged.
+ */
+
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/types/supabase';
+
+const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
+
+export type RescheduleRequest = Database['public']['Tables']['booking_reschedule_requests']['Row'];
+export type RescheduleAction = 'propose' | 'accept' | 'decline' | 'counter' | 'withdraw';
+
+export interface RescheduleBookingParams {
+  action: RescheduleAction;
+  bookingId: string;
+  requestId?: string;
+  newDate?: string;
+  newStartTime?: string;
+  reason?: string;
+  note?: string;
+}
+
+/**
+ * Full proposal history for a booking, newest first
+ */
+export const useRescheduleRequests = (bookingId?: string) => {
+  return useQuery({
+    queryKey: ['booking-reschedules', bookingId],
+    queryFn: async (): Promise<RescheduleRequest[]> => {
+      if (!bookingId) return [];
+
+      const { data, error } = await supabase
+        .from('booking_reschedule_requests')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[Reschedule] Error fetching reschedule requests:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+    enabled: !!bookingId,
+    staleTime: 60 * 1000,
+  });
+};
+
+/**
+ * ✅ REAL-TIME: Proposals and answers from the other party appear immediately
+ */
+export const useRescheduleRealtime = (bookingId?: string) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!bookingId) return;
+
+    const channel = supabase
+      .channel(`booking-reschedules-${bookingId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'booking_reschedule_requests',
+          filter: `booking_id=eq.${bookingId}`,
+        },
+        (payload) => {
+          queryClient.invalidateQueries({ queryKey: ['booking-reschedules', bookingId] });
+
+          // An accepted proposal moved the booking itself
+          if ((payload.new as RescheduleRequest | undefined)?.status === 'accepted') {
+            queryClient.invalidateQueries({ queryKey: ['customer-booking-detail', bookingId] });
+            queryClient.invalidateQueries({ queryKey: ['provider-booking-detail', bookingId] });
+            queryClient.invalidateQueries({ queryKey: ['booking', bookingId] });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [bookingId, queryClient]);
+};
+
+/**
+ * Propose / accept / decline / counter / withdraw a reschedule
+ */
+export const useRescheduleBooking = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ action, bookingId, requestId, newDate, newStartTime, reason, note }: RescheduleBookingParams) => {
+      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+      if (sessionError || !session?.access_token) {
+        throw new Error('Not authenticated. Please log in again.');
+      }
+
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/reschedule-booking`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action,
+          booking_id: bookingId,
+          request_id: requestId,
+          new_date: newDate,
+          new_start_time: newStartTime,
+          reason: reason || undefined,
+          note: note || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to reschedule booking');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, { bookingId, action }) => {
+      queryClient.invalidateQueries({ queryKey: ['booking-reschedules', bookingId] });
+
+      if (action === 'accept') {
+        queryClient.invalidateQueries({ queryKey: ['customer-bookings'] });
+        queryClient.invalidateQueries({ queryKey: ['customer-booking-detail', bookingId] });
+        queryClient.invalidateQueries({ queryKey: ['provider-bookings'] });
+        queryClient.invalidateQueries({ queryKey: ['provider-booking-detail', bookingId] });
+        queryClient.invalidateQueries({ queryKey: ['booking', bookingId] });
+      }
+    },
+  });
+};
+
+/**
+ * The proposal still waiting for an answer, if any
+ */
+export const getPendingReschedule = (requests?: RescheduleRequest[]) =>
+  requests?.find((request) => request.status === 'pending') ?? null;
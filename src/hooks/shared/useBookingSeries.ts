@@ -0,0 +1,113 @@
+/**
+ * ✅ RECURRING BOOKING SERIES HOOKS
+ *
+ * A series is created with its first booking (create-booking `recurrence`).
+ * process-booking-series books each later occurrence a week ahead with its own
+ * PaymentIntent; skip / cancel go through the manage-booking-series Edge Function.
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/types/supabase';
+
+const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
+
+export type BookingSeries = Database['public']['Tables']['booking_series']['Row'];
+export type BookingSeriesOccurrence = Database['public']['Tables']['booking_series_occurrences']['Row'];
+export type SeriesFrequency = 'weekly' | 'fortnightly' | 'monthly';
+
+export const SERIES_FREQUENCY_LABELS: Record<SeriesFrequency, string> = {
+  weekly: 'Every week',
+  fortnightly: 'Every 2 weeks',
+  monthly: 'Every month',
+};
+
+export interface BookingSeriesWithOccurrences extends BookingSeries {
+  occurrences: BookingSeriesOccurrence[];
+}
+
+export interface ManageBookingSeriesParams {
+  action: 'skip' | 'cancel_series';
+  seriesId: string;
+  occurrenceId?: string;
+  reason?: string;
+}
+
+/**
+ * Series with all of its occurrences, in date order
+ */
+export const useBookingSeries = (seriesId?: string | null) => {
+  return useQuery({
+    queryKey: ['booking-series', seriesId],
+    queryFn: async (): Promise<BookingSeriesWithOccurrences | null> => {
+      if (!seriesId) return null;
+
+      const { data, error } = await supabase
+        .from('booking_series')
+        .select('*, occurrences:booking_series_occurrences(*)')
+        .eq('id', seriesId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[BookingSeries] Error fetching series:', error);
+        throw error;
+      }
+
+      if (!data) return null;
+
+      return {
+        ...data,
+        occurrences: [...(data.occurrences || [])].sort((a, b) => a.occurrence_index - b.occurrence_index),
+      };
+    },
+    enabled: !!seriesId,
+    staleTime: 60 * 1000,
+  });
+};
+
+/**
+ * Skip one occurrence or cancel the whole series
+ */
+export const useManageBookingSeries = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ action, seriesId, occurrenceId, reason }: ManageBookingSeriesParams) => {
+      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+      if (sessionError || !session?.access_token) {
+        throw new Error('Not authenticated. Please log in again.');
+      }
+
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/manage-booking-series`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action,
+          series_id: seriesId,
+          occurrence_id: occurrenceId,
+          reason: reason || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update recurring booking');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, { seriesId }) => {
+      queryClient.invalidateQueries({ queryKey: ['booking-series', seriesId] });
+      queryClient.invalidateQueries({ queryKey: ['provider-booking-series'] });
+      // Skipping / cancelling may have cancelled booked occurrences
+      queryClient.invalidateQueries({ queryKey: ['customer-bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['customer-booking-detail'] });
+      queryClient.invalidateQueries({ queryKey: ['provider-bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['provider-booking-detail'] });
+    },
+  });
+};
@@ -12,11 +12,14 @@ type CreateBookingParams = {
   bookingMode?: 'normal' | 'sos';
   specialRequests?: string;
   address?: string;
+  addressId?: string; // Saved address (user_addresses) - the server copies its text and coordinates
   depositAmount: number;
   totalAmount: number;
   paymentIntentId: string;
+  quoteToken?: string; // Signed server price quote the payment was made against
   authorizationAmount?: number; // Full amount authorized
   capturedDeposit?: number; // Amount already captured as deposit
+  recurrence?: { frequency: 'weekly' | 'fortnightly' | 'monthly'; occurrenceCount: number }; // First visit of a series
 };
 
 // Hook for creating a booking
@@ -37,6 +40,7 @@ export function useCreateBooking() {
         booking_mode: params.bookingMode || 'normal',
         customer_notes: params.specialRequests,
         service_address: params.address,
+        service_address_id: params.addressId,
         payment_intent_id: params.paymentIntentId,
         authorization_amount: params.authorizationAmount,
         captured_deposit: params.capturedDeposit,
@@ -52,9 +56,14 @@ export function useCreateBooking() {
           booking_mode: params.bookingMode || 'normal',
           customer_notes: params.specialRequests,
           service_address: params.address,
+          service_address_id: params.addressId,
           payment_intent_id: params.paymentIntentId,
+          quote_token: params.quoteToken,
           authorization_amount: params.authorizationAmount,
           captured_deposit: params.capturedDeposit,
+          recurrence: params.recurrence
+            ? { frequency: params.recurrence.frequency, occurrence_count: params.recurrence.occurrenceCount }
+            : undefined,
         },
       });
 
@@ -64,14 +73,16 @@ export function useCreateBooking() {
         console.error('[useCreateBooking] Error details:', response.error);
         
         // Try to extract the error message from the response
+        // (the raw JSON body - callers read `error` / `code` from it)
         if (response.error.context?._bodyInit) {
+          let errorText: string | undefined;
           try {
-            const errorText = await new Response(response.error.context._bodyInit).text();
+            errorText = await new Response(response.error.context._bodyInit).text();
             console.error('[useCreateBooking] Error body:', errorText);
-            throw new Error(errorText);
           } catch (e) {
             console.error('[useCreateBooking] Could not read error body:', e);
           }
+          if (errorText) throw new Error(errorText);
         }
         
         throw response.error;
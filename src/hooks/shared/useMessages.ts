@@ -0,0 +1,500 @@
+/**
+ * ✅ MESSAGING HOOKS - Customer ↔ Provider chat
+ *
+ * Built on the conversations/messages tables:
+ * - One conversation per booking (created lazily via get_or_create_booking_conversation)
+ * - Text, image and system messages (system messages are posted by a DB trigger
+ *   whenever the booking status changes)
+ * - Read receipts via mark_conversation_read
+ * - Supabase Realtime keeps threads and unread badges live
+ *
+ * Used by both the customer and provider messages tabs.
+ */
+
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as FileSystem from 'expo-file-system/legacy';
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/types/supabase';
+
+export type ChatMessage = Database['public']['Tables']['messages']['Row'];
+
+export interface ConversationParticipant {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+}
+
+export interface ConversationSummary {
+  id: string;
+  bookingId: string | null;
+  customerId: string | null;
+  providerId: string | null;
+  lastMessageAt: string | null;
+  otherParty: ConversationParticipant;
+  serviceTitle: string;
+  bookingDate: string | null;
+  bookingStatus: string | null;
+  lastMessage: Pick<ChatMessage, 'content' | 'message_type' | 'sender_id' | 'created_at'> | null;
+  unreadCount: number;
+}
+
+const CHAT_IMAGES_BUCKET = 'chat-images';
+const MESSAGE_PAGE_SIZE = 100;
+
+const formatParticipant = (profile: any): ConversationParticipant => ({
+  id: profile?.id || '',
+  name: profile?.business_name || `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim() || 'Unknown',
+  avatarUrl: profile?.avatar_url || null,
+});
+
+/**
+ * Fetch unread counts keyed by conversation id
+ */
+const fetchUnreadCounts = async (): Promise<Record<string, number>> => {
+  const { data, error } = await supabase.rpc('get_unread_message_counts');
+
+  if (error) {
+    console.error('[Messages] Failed to fetch unread counts:', error);
+    throw error;
+  }
+
+  const counts: Record<string, number> = {};
+  (data || []).forEach((row: any) => {
+    counts[row.conversation_id] = Number(row.unread_count) || 0;
+  });
+  return counts;
+};
+
+/**
+ * All conversations for the current user, newest activity first
+ */
+export const useConversations = (userId?: string) => {
+  return useQuery({
+    queryKey: ['conversations', userId],
+    queryFn: async (): Promise<ConversationSummary[]> => {
+      if (!userId) return [];
+
+      const { data, error } = await supabase
+        .from('conversations')
+        .select(`
+          id,
+          booking_id,
+          customer_id,
+          provider_id,
+          last_message_at,
+          customer:profiles!conversations_customer_id_fkey (
+            id,
+            first_name,
+            last_name,
+            avatar_url
+          ),
+          provider:profiles!conversations_provider_id_fkey (
+            id,
+            first_name,
+            last_name,
+            business_name,
+            avatar_url
+          ),
+          booking:bookings!conversations_booking_id_fkey (
+            booking_date,
+            status,
+            provider_services!bookings_service_id_fkey (
+              title
+            )
+          ),
+          messages (
+            content,
+            message_type,
+            sender_id,
+            created_at
+          )
+        `)
+        .or(`customer_id.eq.${userId},provider_id.eq.${userId}`)
+        .order('last_message_at', { ascending: false })
+        .order('created_at', { referencedTable: 'messages', ascending: false })
+        .limit(1, { referencedTable: 'messages' });
+
+      if (error) {
+        console.error('[Messages] Error fetching conversations:', error);
+        throw error;
+      }
+
+      const unreadCounts = await fetchUnreadCounts();
+
+      return (data || []).map((conversation: any) => {
+        const isCustomer = conversation.customer_id === userId;
+        const booking = conversation.booking;
+
+        return {
+          id: conversation.id,
+          bookingId: conversation.booking_id,
+          customerId: conversation.customer_id,
+          providerId: conversation.provider_id,
+          lastMessageAt: conversation.last_message_at,
+          otherParty: formatParticipant(isCustomer ? conversation.provider : conversation.customer),
+          serviceTitle: booking?.provider_services?.title || 'Booking',
+          bookingDate: booking?.booking_date || null,
+          bookingStatus: booking?.status || null,
+          lastMessage: conversation.messages?.[0] || null,
+          unreadCount: unreadCounts[conversation.id] || 0,
+        };
+      });
+    },
+    enabled: !!userId,
+    staleTime: 30 * 1000, // 30 seconds - realtime keeps it fresh
+  });
+};
+
+/**
+ * Single conversation with participant details (thread header)
+ */
+export const useConversation = (conversationId?: string, userId?: string) => {
+  return useQuery({
+    queryKey: ['conversation', conversationId],
+    queryFn: async () => {
+      if (!conversationId) return null;
+
+      const { data, error } = await supabase
+        .from('conversations')
+        .select(`
+          id,
+          booking_id,
+          customer_id,
+          provider_id,
+          customer:profiles!conversations_customer_id_fkey (
+            id,
+            first_name,
+            last_name,
+            avatar_url
+          ),
+          provider:profiles!conversations_provider_id_fkey (
+            id,
+            first_name,
+            last_name,
+            business_name,
+            avatar_url
+          ),
+          booking:bookings!conversations_booking_id_fkey (
+            booking_date,
+            start_time,
+            status,
+            provider_services!bookings_service_id_fkey (
+              title
+            )
+          )
+        `)
+        .eq('id', conversationId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[Messages] Error fetching conversation:', error);
+        throw error;
+      }
+
+      if (!data) return null;
+
+      const conversation: any = data;
+      const isCustomer = conversation.customer_id === userId;
+
+      return {
+        id: conversation.id as string,
+        bookingId: conversation.booking_id as string | null,
+        otherParty: formatParticipant(isCustomer ? conversation.provider : conversation.customer),
+        serviceTitle: conversation.booking?.provider_services?.title || 'Booking',
+        bookingDate: conversation.booking?.booking_date || null,
+        startTime: conversation.booking?.start_time || null,
+        bookingStatus: conversation.booking?.status || null,
+      };
+    },
+    enabled: !!conversationId,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+/**
+ * Messages in a conversation, oldest first
+ */
+export const useConversationMessages = (conversationId?: string) => {
+  return useQuery({
+    queryKey: ['conversation-messages', conversationId],
+    queryFn: async (): Promise<ChatMessage[]> => {
+      if (!conversationId) return [];
+
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .limit(MESSAGE_PAGE_SIZE);
+
+      if (error) {
+        console.error('[Messages] Error fetching messages:', error);
+        throw error;
+      }
+
+      return (data || []).reverse();
+    },
+    enabled: !!conversationId,
+    staleTime: Infinity, // Realtime appends new messages to the cache
+  });
+};
+
+/**
+ * Total unread messages across all conversations (tab badge)
+ */
+export const useUnreadMessageCount = (userId?: string) => {
+  return useQuery({
+    queryKey: ['unread-messages', userId],
+    queryFn: async (): Promise<number> => {
+      const counts = await fetchUnreadCounts();
+      return Object.values(counts).reduce((sum, count) => sum + count, 0);
+    },
+    enabled: !!userId,
+    staleTime: 30 * 1000,
+  });
+};
+
+/**
+ * Open (or create) the conversation for a booking
+ * Returns the conversation id so callers can navigate to the thread
+ */
+export const useOpenBookingConversation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (bookingId: string): Promise<string> => {
+      const { data, error } = await supabase.rpc('get_or_create_booking_conversation', {
+        p_booking_id: bookingId,
+      });
+
+      if (error || !data) {
+        console.error('[Messages] Failed to open booking conversation:', error);
+        throw new Error(error?.message || 'Unable to open conversation');
+      }
+
+      return (data as any).id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
+  });
+};
+
+/**
+ * Upload a picked image into the private chat bucket
+ * Path: conversations/{conversationId}/{timestamp}.{ext}
+ */
+const uploadChatImage = async (conversationId: string, imageUri: string): Promise<string> => {
+  const fileInfo = await FileSystem.getInfoAsync(imageUri);
+  if (!fileInfo.exists) {
+    throw new Error('Image file does not exist');
+  }
+
+  const base64 = await FileSystem.readAsStringAsync(imageUri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+
+  const fileExt = imageUri.split('.').pop()?.toLowerCase() || 'jpg';
+  const filePath = `conversations/${conversationId}/${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(CHAT_IMAGES_BUCKET)
+    .upload(filePath, bytes, {
+      contentType: `image/${fileExt === 'jpg' ? 'jpeg' : fileExt}`,
+      upsert: false,
+    });
+
+  if (error) throw error;
+
+  return filePath;
+};
+
+interface SendMessageParams {
+  conversationId: string;
+  senderId: string;
+  content?: string;
+  imageUri?: string;
+}
+
+/**
+ * Send a text or image message
+ * Optimistically appends to the thread; realtime insert dedupes by id
+ */
+export const useSendMessage = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ conversationId, senderId, content, imageUri }: SendMessageParams) => {
+      const trimmed = content?.trim() || '';
+      if (!trimmed && !imageUri) {
+        throw new Error('Message is empty');
+      }
+
+      const imagePath = imageUri ? await uploadChatImage(conversationId, imageUri) : null;
+
+      const { data, error } = await supabase
+        .from('messages')
+        .insert({
+          conversation_id: conversationId,
+          sender_id: senderId,
+          content: trimmed || 'Photo',
+          message_type: imagePath ? 'image' : 'text',
+          image_path: imagePath,
+          is_read: false,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('[Messages] Failed to send message:', error);
+        throw error;
+      }
+
+      return data as ChatMessage;
+    },
+    onSuccess: (message) => {
+      queryClient.setQueryData<ChatMessage[]>(
+        ['conversation-messages', message.conversation_id],
+        (existing = []) => appendMessage(existing, message)
+      );
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
+  });
+};
+
+/**
+ * Mark all messages from the other participant as read
+ */
+export const useMarkConversationRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (conversationId: string) => {
+      const { data, error } = await supabase.rpc('mark_conversation_read', {
+        p_conversation_id: conversationId,
+      });
+
+      if (error) {
+        console.error('[Messages] Failed to mark conversation read:', error);
+        throw error;
+      }
+
+      return data as number;
+    },
+    onSuccess: (updated) => {
+      if (updated > 0) {
+        queryClient.invalidateQueries({ queryKey: ['conversations'] });
+        queryClient.invalidateQueries({ queryKey: ['unread-messages'] });
+      }
+    },
+  });
+};
+
+/**
+ * Signed URL for an image message (private bucket)
+ */
+export const useChatImageUrl = (imagePath?: string | null) => {
+  return useQuery({
+    queryKey: ['chat-image-url', imagePath],
+    queryFn: async (): Promise<string | null> => {
+      if (!imagePath) return null;
+
+      const { data, error } = await supabase.storage
+        .from(CHAT_IMAGES_BUCKET)
+        .createSignedUrl(imagePath, 3600);
+
+      if (error) {
+        console.error('[Messages] Failed to sign chat image URL:', error);
+        return null;
+      }
+
+      return data?.signedUrl || null;
+    },
+    enabled: !!imagePath,
+    staleTime: 50 * 60 * 1000, // Refresh before the 1h signed URL expires
+  });
+};
+
+const appendMessage = (existing: ChatMessage[], message: ChatMessage): ChatMessage[] => {
+  if (existing.some((m) => m.id === message.id)) {
+    return existing.map((m) => (m.id === message.id ? message : m));
+  }
+  return [...existing, message];
+};
+
+/**
+ * ✅ REAL-TIME: Live updates for an open thread
+ * - INSERT: append new messages (incl. system messages)
+ * - UPDATE: reflect read receipts on sent messages
+ */
+export const useConversationRealtime = (conversationId?: string) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    console.log('[MessagesRealtime] Subscribing to conversation:', conversationId);
+
+    const channel = supabase
+      .channel(`conversation-${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+            const message = payload.new as ChatMessage;
+            queryClient.setQueryData<ChatMessage[]>(
+              ['conversation-messages', conversationId],
+              (existing = []) => appendMessage(existing, message)
+            );
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      console.log('[MessagesRealtime] Cleaning up conversation subscription');
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, queryClient]);
+};
+
+/**
+ * ✅ REAL-TIME: Keep the inbox and unread badge live
+ * RLS limits the stream to conversations the user participates in.
+ */
+export const useMessagesRealtime = (userId?: string) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`messages-inbox-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'messages' },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['conversations', userId] });
+          queryClient.invalidateQueries({ queryKey: ['unread-messages', userId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+};
@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import { useAuthStore } from '@/stores/auth';
+
+/**
+ * Opens the screen a push notification points to when the user taps it
+ * Encapsulates useEffect as this is a system integration (notification taps)
+ *
+ * Pushes sent by the edge functions carry a `url` in their data payload,
+ * e.g. /(customer)/booking/{id} or /(provider)/bookingdetail/{id}.
+ */
+export function useNotificationResponseHandler() {
+  const isSignedIn = useAuthStore((state) => !!state.session);
+
+  useEffect(() => {
+    if (!isSignedIn || Platform.OS === 'web') return;
+
+    const openFromResponse = (response: Notifications.NotificationResponse | null) => {
+      const url = response?.notification.request.content.data?.url;
+      if (typeof url === 'string' && url.startsWith('/')) {
+        console.log('[NotificationResponse] 🔗 Opening:', url);
+        router.push(url as any);
+      }
+    };
+
+    // Cold start: app opened from a notification
+    Notifications.getLastNotificationResponseAsync().then(openFromResponse).catch(() => {});
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(openFromResponse);
+
+    return () => {
+      subscription.remove();
+    };
+  }, [isSignedIn]);
+}
@@ -0,0 +1,246 @@
+/**
+ * ✅ NOTIFICATION INBOX HOOKS
+ *
+ * Reads the notifications table written by edge functions
+ * (bookings, reviews, provider responses, expiry...).
+ * - Unread badge count
+ * - Mark one / mark all as read
+ * - Supabase Realtime for new inserts
+ * - Deep link resolution into booking screens
+ * - Local notification fallback for reminders whose push wasn't delivered
+ */
+
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useLocalNotification } from '@/lib/notifications/useNotification';
+import type { Database } from '@/types/supabase';
+
+export type AppNotification = Database['public']['Tables']['notifications']['Row'];
+export type NotificationType = Database['public']['Enums']['notification_type'];
+
+const NOTIFICATION_PAGE_SIZE = 100;
+
+/**
+ * Latest notifications for the user, newest first
+ */
+export const useNotifications = (userId?: string) => {
+  return useQuery({
+    queryKey: ['notifications', userId],
+    queryFn: async (): Promise<AppNotification[]> => {
+      if (!userId) return [];
+
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_PAGE_SIZE);
+
+      if (error) {
+        console.error('[Notifications] Error fetching notifications:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+    enabled: !!userId,
+    staleTime: 60 * 1000, // 1 minute - realtime keeps it fresh
+  });
+};
+
+/**
+ * Unread notification count (bell badge)
+ */
+export const useUnreadNotificationCount = (userId?: string) => {
+  return useQuery({
+    queryKey: ['unread-notifications', userId],
+    queryFn: async (): Promise<number> => {
+      if (!userId) return 0;
+
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('is_read', false);
+
+      if (error) {
+        console.error('[Notifications] Error fetching unread count:', error);
+        throw error;
+      }
+
+      return count || 0;
+    },
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+};
+
+/**
+ * Mark a single notification as read (optimistic)
+ */
+export const useMarkNotificationRead = (userId?: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (notificationId: string) => {
+      const { error } = await supabase.rpc('mark_notification_read', {
+        p_notification_id: notificationId,
+      });
+
+      if (error) {
+        console.error('[Notifications] Failed to mark notification read:', error);
+        throw error;
+      }
+    },
+    onMutate: async (notificationId) => {
+      queryClient.setQueryData<AppNotification[]>(['notifications', userId], (existing = []) =>
+        existing.map((n) => (n.id === notificationId ? { ...n, is_read: true } : n))
+      );
+      queryClient.setQueryData<number>(['unread-notifications', userId], (count = 0) => Math.max(0, count - 1));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', userId] });
+      queryClient.invalidateQueries({ queryKey: ['unread-notifications', userId] });
+    },
+  });
+};
+
+/**
+ * Mark every notification as read
+ */
+export const useMarkAllNotificationsRead = (userId?: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('mark_all_notifications_read');
+
+      if (error) {
+        console.error('[Notifications] Failed to mark all read:', error);
+        throw error;
+      }
+
+      return data as number;
+    },
+    onMutate: async () => {
+      queryClient.setQueryData<AppNotification[]>(['notifications', userId], (existing = []) =>
+        existing.map((n) => ({ ...n, is_read: true }))
+      );
+      queryClient.setQueryData<number>(['unread-notifications', userId], 0);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', userId] });
+      queryClient.invalidateQueries({ queryKey: ['unread-notifications', userId] });
+    },
+  });
+};
+
+/**
+ * ✅ REAL-TIME: New notifications appear instantly and update the badge
+ * Booking reminders that couldn't be pushed (no token, push failed) are shown
+ * as a local notification while the app is in the foreground.
+ */
+export const useNotificationsRealtime = (userId?: string) => {
+  const queryClient = useQueryClient();
+  const { sendLocalNotification } = useLocalNotification();
+
+  // Ref so a new function identity each render doesn't resubscribe the channel
+  const sendLocalNotificationRef = useRef(sendLocalNotification);
+  sendLocalNotificationRef.current = sendLocalNotification;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    console.log('[NotificationsRealtime] Subscribing for user:', userId);
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'INSERT') {
+            const notification = payload.new as AppNotification;
+            queryClient.setQueryData<AppNotification[]>(['notifications', userId], (existing) =>
+              existing && !existing.some((n) => n.id === notification.id)
+                ? [notification, ...existing]
+                : existing
+            );
+
+            const data = (notification.data || {}) as Record<string, any>;
+            if (
+              notification.type === 'booking_reminder' &&
+              data.push_sent === false &&
+              AppState.currentState === 'active'
+            ) {
+              sendLocalNotificationRef.current(notification.title, notification.message).catch((error) => {
+                console.warn('[NotificationsRealtime] Local reminder fallback failed:', error);
+              });
+            }
+          }
+          queryClient.invalidateQueries({ queryKey: ['unread-notifications', userId] });
+          if (payload.eventType !== 'INSERT') {
+            queryClient.invalidateQueries({ queryKey: ['notifications', userId] });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      console.log('[NotificationsRealtime] Cleaning up subscription');
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+};
+
+/**
+ * Resolve where tapping a notification should take the user
+ * Booking notifications open booking/[id] (customer) or bookingdetail/[id] (provider).
+ */
+export const getNotificationRoute = (
+  notification: Pick<AppNotification, 'type' | 'data'>,
+  role: 'customer' | 'provider'
+): string | null => {
+  const data = (notification.data || {}) as Record<string, any>;
+
+  // Disputes are answered from the payments screen, not the booking
+  if (notification.type === 'payment_dispute') {
+    return role === 'provider' ? '/(provider)/profile/payments' : null;
+  }
+
+  if (data.booking_id) {
+    return role === 'provider'
+      ? `/(provider)/bookingdetail/${data.booking_id}`
+      : `/(customer)/booking/${data.booking_id}`;
+  }
+
+  switch (notification.type) {
+    case 'new_review':
+      return role === 'provider' ? '/(provider)/profile/reviews' : null;
+    case 'provider_response':
+      return role === 'customer' ? '/(customer)/profile/reviews' : null;
+    case 'payment_received':
+      return role === 'provider' ? '/(provider)/earnings' : null;
+    case 'booking_series':
+      return role === 'provider' ? '/(provider)/bookings' : '/(customer)/bookings';
+    case 'sos_request':
+      // Open offers are answered from the dashboard; customers follow the live search
+      return role === 'provider'
+        ? '/(provider)'
+        : data.sos_request_id ? `/(customer)/booking/sos-confirmation?requestId=${data.sos_request_id}` : null;
+    case 'verification_update':
+      // Rejected providers are sent back to the verification flow by the provider layout
+      return role === 'provider' ? '/(provider)' : null;
+    case 'document_expiry':
+      return role === 'provider' ? '/(provider)/profile/renew-document' : null;
+    default:
+      return null;
+  }
+};
@@ -78,6 +78,9 @@ export interface ProviderService {
   requires_deposit: boolean;
   deposit_percentage: number | null;
   cancellation_policy: string | null;
+  cancellation_fee_percentage: number | null;
+  cancellation_window_hours: number | null;
+  travel_buffer_minutes: number | null;
   service_specific_terms: string | null;
   subcategory_name: string;
   category_name: string;
@@ -521,6 +524,9 @@ export interface ProviderService {
   requires_deposit: boolean | null;
   deposit_percentage: number | null;
   cancellation_policy: string | null;
+  cancellation_fee_percentage: number | null;
+  cancellation_window_hours: number | null;
+  travel_buffer_minutes: number | null;
   service_specific_terms: string | null;
   subcategory_name: string;
   category_name: string;
@@ -646,6 +652,9 @@ export const useProviderServices = (providerId?: string) => {
           requires_deposit: service.requires_deposit,
           deposit_percentage: service.deposit_percentage,
           cancellation_policy: service.cancellation_policy,
+        cancellation_fee_percentage: service.cancellation_fee_percentage,
+        cancellation_window_hours: service.cancellation_window_hours,
+        travel_buffer_minutes: service.travel_buffer_minutes,
           service_specific_terms: service.service_specific_terms,
           subcategory_name: service.service_subcategories?.name || 'General',
           category_name: service.service_subcategories?.service_categories?.name || 'Services',
@@ -674,6 +683,9 @@ export const useProviderServices = (providerId?: string) => {
         requires_deposit: service.requires_deposit,
         deposit_percentage: service.deposit_percentage,
         cancellation_policy: service.cancellation_policy,
+        cancellation_fee_percentage: service.cancellation_fee_percentage,
+        cancellation_window_hours: service.cancellation_window_hours,
+        travel_buffer_minutes: service.travel_buffer_minutes,
         service_specific_terms: service.service_specific_terms,
         subcategory_name: service.service_subcategories?.name || 'General',
         category_name: service.service_subcategories?.service_categories?.name || 'Services',
@@ -781,6 +793,13 @@ export interface ProviderPayoutData {
   actual_payout_date?: string;
   booking_id: string;
   created_at: string;
+  failure_reason?: string | null;
+  next_retry_at?: string | null;
+  booking?: {
+    booking_date: string;
+    service_title: string;
+    customer_name: string;
+  } | null;
 }
 
 export interface ProviderEarningsAnalytics {
@@ -840,7 +859,7 @@ export const useProviderEarnings = (providerId?: string) => {
       const completedBookings = bookings?.length || 0;
 
       // Calculate next payout date (earliest pending payout)
-      const nextPayout = payouts?.filter(p => p.status === 'pending' || p.status === 'processing')
+      const nextPayout = payouts?.filter(p => (p.status === 'pending' || p.status === 'processing') && p.expected_payout_date)
         .sort((a, b) => new Date(a.expected_payout_date).getTime() - new Date(b.expected_payout_date).getTime())[0];
 
       return {
@@ -865,12 +884,51 @@ export const useProviderPayouts = (providerId?: string) => {
 
       const { data, error } = await supabase
         .from('provider_payouts')
-        .select('id, amount, status, expected_payout_date, actual_payout_date, booking_id, created_at')
+        .select(`
+          id,
+          amount,
+          status,
+          expected_payout_date,
+          actual_payout_date,
+          booking_id,
+          created_at,
+          failure_reason,
+          next_retry_at,
+          booking:bookings!provider_payouts_booking_id_fkey (
+            booking_date,
+            service:provider_services!service_id (
+              title
+            ),
+            customer:profiles!customer_id (
+              first_name,
+              last_name
+            )
+          )
+        `)
         .eq('provider_id', providerId)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      return data || [];
+
+      // Flatten the booking each payout belongs to
+      return (data || []).map((payout: any) => {
+        const booking = Array.isArray(payout.booking) ? payout.booking[0] : payout.booking;
+        const service = Array.isArray(booking?.service) ? booking.service[0] : booking?.service;
+        const customer = Array.isArray(booking?.customer) ? booking.customer[0] : booking?.customer;
+
+        return {
+          ...payout,
+          booking: booking
+            ? {
+                booking_date: booking.booking_date,
+                service_title: service?.title || 'Service',
+                customer_name: customer
+                  ? `${customer.first_name || ''} ${customer.last_name || ''}`.trim() || 'Customer'
+                  : 'Customer',
+              }
+            : null,
+        };
+      });
     },
     enabled: !!providerId,
     staleTime: 2 * 60 * 1000, // 2 minutes
@@ -893,7 +951,7 @@ export const useProviderEarningsAnalytics = (providerId?: string) => {
         .select('amount, status, created_at')
         .eq('provider_id', providerId)
         .gte('created_at', twelveMonthsAgo.toISOString())
-        .eq('status', 'paid');
+        .in('status', ['processing', 'completed']);
 
       if (error) throw error;
 
@@ -1250,6 +1308,9 @@ export const useCreateService = () => {
       is_active?: boolean;
       deposit_percentage?: number;
       cancellation_policy?: string;
+      cancellation_fee_percentage?: number;
+      cancellation_window_hours?: number;
+      travel_buffer_minutes?: number;
       house_call_available?: boolean;
       house_call_extra_fee?: number;
       allows_sos_booking?: boolean;
@@ -1269,6 +1330,9 @@ export const useCreateService = () => {
           // Business terms - use correct field names
           deposit_percentage: serviceData.deposit_percentage,
           cancellation_policy: serviceData.cancellation_policy,
+          cancellation_fee_percentage: serviceData.cancellation_fee_percentage,
+          cancellation_window_hours: serviceData.cancellation_window_hours,
+          travel_buffer_minutes: serviceData.travel_buffer_minutes,
           house_call_available: serviceData.house_call_available,
           house_call_extra_fee: serviceData.house_call_extra_fee,
           allows_sos_booking: serviceData.allows_sos_booking,
@@ -1309,6 +1373,9 @@ export const useUpdateService = () => {
       is_active?: boolean;
       deposit_percentage?: number;
       cancellation_policy?: string;
+      cancellation_fee_percentage?: number;
+      cancellation_window_hours?: number;
+      travel_buffer_minutes?: number;
       house_call_available?: boolean;
       house_call_extra_fee?: number;
       allows_sos_booking?: boolean;
@@ -1329,6 +1396,9 @@ export const useUpdateService = () => {
       // Business terms - use correct field names
       if (serviceData.deposit_percentage !== undefined) updateData.deposit_percentage = serviceData.deposit_percentage;
       if (serviceData.cancellation_policy !== undefined) updateData.cancellation_policy = serviceData.cancellation_policy;
+      if (serviceData.cancellation_fee_percentage !== undefined) updateData.cancellation_fee_percentage = serviceData.cancellation_fee_percentage;
+      if (serviceData.cancellation_window_hours !== undefined) updateData.cancellation_window_hours = serviceData.cancellation_window_hours;
+      if (serviceData.travel_buffer_minutes !== undefined) updateData.travel_buffer_minutes = serviceData.travel_buffer_minutes;
       if (serviceData.house_call_available !== undefined) updateData.house_call_available = serviceData.house_call_available;
       if (serviceData.house_call_extra_fee !== undefined) updateData.house_call_extra_fee = serviceData.house_call_extra_fee;
       if (serviceData.allows_sos_booking !== undefined) updateData.allows_sos_booking = serviceData.allows_sos_booking;
@@ -1464,6 +1534,13 @@ export interface ProviderPayoutData {
   actual_payout_date?: string;
   booking_id: string;
   created_at: string;
+  failure_reason?: string | null;
+  next_retry_at?: string | null;
+  booking?: {
+    booking_date: string;
+    service_title: string;
+    customer_name: string;
+  } | null;
 }
 
 export interface ProviderEarningsAnalytics {
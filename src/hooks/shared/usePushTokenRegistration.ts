@@ -0,0 +1,56 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { useAuthStore } from '@/stores/auth';
+import { getExpoPushToken, savePushToken } from '@/lib/notifications/push-token';
+import { saveDeviceTimezone } from '@/lib/auth/profile';
+
+/**
+ * Registers this device's Expo push token for the signed-in user
+ * Encapsulates useEffect as this is a system integration (push service)
+ *
+ * - Registers on sign-in / app start with an existing session
+ * - Syncs the device time zone (used for reminder times)
+ * - Re-saves when Expo rotates the device token
+ * - Sign-out cleanup lives in useSignOut (needs the session to still be valid)
+ */
+export function usePushTokenRegistration() {
+  const userId = useAuthStore((state) => state.user?.id);
+
+  useEffect(() => {
+    if (!userId || Platform.OS === 'web') return;
+
+    let cancelled = false;
+
+    saveDeviceTimezone(userId);
+
+    (async () => {
+      const token = await getExpoPushToken();
+      if (!token || cancelled) return;
+
+      try {
+        await savePushToken(userId, token);
+      } catch {
+        // Logged in savePushToken - retried on next launch
+      }
+    })();
+
+    // ✅ Token rotation
+    const subscription = Notifications.addPushTokenListener(async () => {
+      const token = await getExpoPushToken();
+      if (!token || cancelled) return;
+
+      console.log('[PushToken] 🔄 Push token rotated');
+      try {
+        await savePushToken(userId, token);
+      } catch {
+        // Logged in savePushToken
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.remove();
+    };
+  }, [userId]);
+}
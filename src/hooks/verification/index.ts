@@ -2,4 +2,5 @@
 export { useVerificationNavigation } from './useVerificationNavigation';
 export { useVerificationSessionRecovery } from './useVerificationSessionRecovery';
 export { useConflictResolution } from './useConflictResolution';
-export { useVerificationStateInitializer } from './useVerificationStateInitializer';
\ No newline at end of file
+export { useVerificationStateInitializer } from './useVerificationStateInitializer';
+export { useVerificationResubmission } from './useVerificationResubmission';
\ No newline at end of file
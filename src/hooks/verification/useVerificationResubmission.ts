@@ -0,0 +1,52 @@
+/**
+ * ✅ VERIFICATION RESUBMISSION HOOK
+ * After a rejection the provider only redoes the steps the review sent back
+ * (provider_verification_step_progress). Step screens use this to show why a step
+ * was rejected and to move on to the next step that still needs fixing.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useAuthStore } from '@/stores/auth';
+import { useVerificationData } from '@/hooks/provider/useVerificationSingleSource';
+import {
+  VerificationFlowManager,
+  type VerificationStepId,
+} from '@/lib/verification/verification-flow-manager';
+
+export const useVerificationResubmission = () => {
+  const user = useAuthStore((state) => state.user);
+  const { data: verificationData } = useVerificationData(user?.id);
+
+  const stepReviews = verificationData?.stepReviews || [];
+  const isResubmitting = verificationData?.progress?.verification_status === 'rejected' && stepReviews.length > 0;
+
+  const stepsToResubmit = useMemo(
+    () => (isResubmitting ? VerificationFlowManager.getStepsToResubmit(stepReviews) : []),
+    [isResubmitting, stepReviews]
+  );
+
+  /**
+   * Reason the review gave for sending this step back, if it still needs fixing
+   */
+  const getRejectionReason = useCallback((step: number) => {
+    if (!stepsToResubmit.includes(step)) return null;
+    return stepReviews.find((review) => review.step_number === step)?.error_message || 'Changes requested';
+  }, [stepsToResubmit, stepReviews]);
+
+  /**
+   * Route to open after saving `step` - the next step in order, or while resubmitting
+   * the next rejected step and finally the completion screen
+   */
+  const getNextRoute = useCallback((step: number) => {
+    const nextStep = VerificationFlowManager.getNextStepAfter(step, stepsToResubmit) ?? 8;
+    return VerificationFlowManager.getRouteForStep(nextStep as VerificationStepId);
+  }, [stepsToResubmit]);
+
+  return {
+    isResubmitting,
+    stepReviews,
+    stepsToResubmit,
+    getRejectionReason,
+    getNextRoute,
+  };
+};
@@ -248,4 +248,26 @@ export const createOrUpdateUserProfile = async (
     console.error('[Profile] Unexpected error creating/updating profile:', error);
     return null;
   }
-};
\ No newline at end of file
+};
+/**
+ * Sync the device's IANA time zone (e.g. 'Europe/London') to the profile
+ * Used server-side to show reminder times in the user's local time.
+ */
+export const saveDeviceTimezone = async (userId: string): Promise<void> => {
+  try {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!timezone) return;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ timezone })
+      .eq('id', userId)
+      .neq('timezone', timezone);
+
+    if (error) {
+      console.error('[Profile] Error saving timezone:', error);
+    }
+  } catch (error) {
+    console.error('[Profile] Unexpected error saving timezone:', error);
+  }
+};
@@ -0,0 +1,99 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Expo push token helpers
+ *
+ * The token is stored on profiles.expo_push_token and read by the
+ * edge functions' shared push sender (supabase/functions/_shared/push.ts).
+ */
+
+const getProjectId = (): string | undefined =>
+  Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+
+/**
+ * Ask for permission and fetch this device's Expo push token
+ * Returns null on web, simulators, or when permission is denied.
+ */
+export async function getExpoPushToken(): Promise<string | null> {
+  if (Platform.OS === 'web') return null;
+
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync('default', {
+        name: 'default',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    const { status: existingStatus } = await Notifications.getPermissionsAsync();
+    let finalStatus = existingStatus;
+
+    if (existingStatus !== 'granted') {
+      const { status } = await Notifications.requestPermissionsAsync();
+      finalStatus = status;
+    }
+
+    if (finalStatus !== 'granted') {
+      console.log('[PushToken] Permission not granted');
+      return null;
+    }
+
+    const projectId = getProjectId();
+    const { data } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+    return data;
+  } catch (error) {
+    // Simulators and misconfigured builds can't get a token - push just stays off
+    console.warn('[PushToken] Unable to get push token:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the token for the signed-in user
+ * Called on every sign-in and whenever Expo rotates the token.
+ */
+export async function savePushToken(userId: string, token: string): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ expo_push_token: token })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('[PushToken] ❌ Failed to save push token:', error);
+    throw error;
+  }
+
+  console.log('[PushToken] ✅ Push token registered');
+}
+
+/**
+ * Remove this device's token on sign out so the next user of the device
+ * doesn't receive the previous user's notifications.
+ * Only clears the column if it still holds this device's token.
+ */
+export async function clearPushToken(userId: string): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  try {
+    const projectId = getProjectId();
+    const { data: token } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ expo_push_token: null })
+      .eq('id', userId)
+      .eq('expo_push_token', token);
+
+    if (error) {
+      console.error('[PushToken] Failed to clear push token:', error);
+      return;
+    }
+
+    console.log('[PushToken] 🧹 Push token cleared');
+  } catch (error) {
+    console.warn('[PushToken] Unable to clear push token:', error);
+  }
+}
@@ -23,8 +23,13 @@ export const SUBSCRIPTION_PRODUCTS = {
     amount: 599, // £5.99 in pence
     interval: 'month',
     type: 'customer_sos' as const,
+    // Mirrored server-side in supabase/functions/_shared/sos-entitlement.ts
+    limits: {
+      sosRequestsPerPeriod: 3, // SOS requests included in each billing period
+    },
     features: [
       'SOS emergency booking access',
+      '3 SOS requests included every month',
       'Priority provider matching', 
       '24/7 priority support',
       'Instant booking confirmation',
@@ -52,6 +57,13 @@ export const SUBSCRIPTION_PRODUCTS = {
   }
 } as const;
 
+// SOS without a subscription (or past the monthly allowance) - added to the booking price
+export const SOS_PAY_PER_USE = {
+  amount: 499, // £4.99 in pence
+  displayName: 'Pay-per-use SOS',
+  description: 'One emergency request, charged only when a provider accepts',
+} as const;
+
 export type SubscriptionType = keyof typeof SUBSCRIPTION_PRODUCTS;
 export type SubscriptionStatus = 'active' | 'canceled' | 'past_due' | 'incomplete' | 'trialing' | 'none';
 
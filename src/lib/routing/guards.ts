@@ -32,19 +32,38 @@ export function checkAuthentication(session: any): GuardResult {
  * ✅ Role Guard
  * Ensures user has correct role
  */
-export function checkRole(userRole: string | null, requiredRole: 'customer' | 'provider'): GuardResult {
+export function checkRole(userRole: string | null, requiredRole: 'customer' | 'provider' | 'admin'): GuardResult {
   if (!userRole) {
     return { type: 'loading' };
   }
 
-  if (userRole !== requiredRole) {
-    const targetRoute = userRole === 'customer' ? '/(customer)' : '/(provider)';
-    return { type: 'redirect', href: targetRoute };
+  if (normalizeRole(userRole) !== requiredRole) {
+    return { type: 'redirect', href: getRoleHomeRoute(userRole) };
   }
 
   return { type: 'allow' };
 }
 
+/**
+ * ✅ Role helpers
+ * Admins and super-admins share the (admin) route group
+ */
+export function normalizeRole(userRole: string): 'customer' | 'provider' | 'admin' {
+  if (userRole === 'admin' || userRole === 'super-admin') return 'admin';
+  return userRole === 'customer' ? 'customer' : 'provider';
+}
+
+export function getRoleHomeRoute(userRole: string): string {
+  switch (normalizeRole(userRole)) {
+    case 'customer':
+      return '/(customer)';
+    case 'admin':
+      return '/(admin)';
+    default:
+      return '/(provider)';
+  }
+}
+
 /**
  * ✅ Verification Guard
  * Ensures provider is verified (approved status)
@@ -34,10 +34,18 @@ export const serviceSchema = z.object({
   
   cancellationPolicy: createOptionalString(1000),
   
+  // Late cancellation: fee (% of the service price) charged inside the window
+  cancellationFeePercentage: percentageField.default('50'),
+  
+  cancellationWindowHours: createIntegerString('Cancellation window', 0, 720).default('48'),
+  
   houseCallAvailable: z.boolean().default(false),
   
   houseCallExtraFee: createNumericString('House call fee', 0).default('0'),
   
+  // Minutes blocked after a house call for travel to the next booking
+  travelBufferMinutes: createIntegerString('Travel buffer', 0, 240).default('0'),
+  
   allowsSosBooking: z.boolean().default(false)
 });
 
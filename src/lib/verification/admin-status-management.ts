@@ -1,106 +1,116 @@
 /**
  * ✅ ADMIN VERIFICATION STATUS MANAGEMENT
- * Provides safe status change operations with confirmations and logging
+ * Admin review actions go through the admin-verification-review edge function,
+ * which checks the caller is an admin and records every change in
+ * verification_audit_log (the reviewer is taken from the session, not the request)
  */
 
 import { supabase } from '@/lib/supabase';
 
+export type ReviewDecision = 'approved' | 'rejected';
+
+export type VerificationReviewAction =
+  | { action: 'queue' }
+  | { action: 'detail'; provider_id: string }
+  | { action: 'start_review'; provider_id: string }
+  | { action: 'review_document'; provider_id: string; document_id: string; decision: ReviewDecision; reason?: string }
+  | { action: 'review_selfie'; provider_id: string; decision: ReviewDecision; reason?: string }
+  | { action: 'decide'; provider_id: string; decision: ReviewDecision; reason?: string; steps?: StepRejection[] };
+
+/**
+ * A verification step sent back to the provider - rejected documents and selfies are
+ * sent back automatically, other steps (3-7) only when listed
+ */
+export interface StepRejection {
+  step_number: number;
+  reason: string;
+}
+
 export interface StatusChangeRequest {
   userId: string;
-  newStatus: 'pending' | 'in_review' | 'approved' | 'rejected';
-  adminId: string;
+  newStatus: 'in_review' | ReviewDecision;
   reason?: string;
-  requiresConfirmation?: boolean;
+  steps?: StepRejection[];
+}
+
+async function functionError(error: any, fallback: string): Promise<Error & { code?: string }> {
+  let message = fallback;
+  let code: string | undefined;
+  try {
+    if (error?.context && typeof error.context.json === 'function') {
+      const body = await error.context.json();
+      message = body.error || message;
+      code = body.code;
+    }
+  } catch {
+    // Keep the fallback message
+  }
+  return Object.assign(new Error(message), { code });
 }
 
 /**
- * ✅ SAFE STATUS CHANGE: Updates verification status with safeguards
+ * ✅ Call the admin-verification-review edge function
  */
-export const updateVerificationStatus = async (request: StatusChangeRequest) => {
-  const { userId, newStatus, adminId, reason, requiresConfirmation = true } = request;
+export const invokeVerificationReview = async <T = { success: boolean }>(body: VerificationReviewAction): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('admin-verification-review', { body });
 
-  console.log(`[AdminStatusUpdate] Updating user ${userId} to ${newStatus} by admin ${adminId}`);
-
-  // ✅ VALIDATION: Check if this is a downgrade from approved
-  const { data: currentProgress } = await supabase
-    .from('provider_onboarding_progress')
-    .select('verification_status')
-    .eq('provider_id', userId)
-    .single();
+  if (error) {
+    throw await functionError(error, 'Verification review failed');
+  }
 
-  const isDowngradeFromApproved = currentProgress?.verification_status === 'approved' &&
-                                  newStatus !== 'approved';
+  return data as T;
+};
 
-  if (isDowngradeFromApproved && requiresConfirmation) {
-    console.warn(`[AdminStatusUpdate] ⚠️ DOWNGRADE ALERT: Changing approved user ${userId} back to ${newStatus}`);
+/**
+ * ✅ STATUS CHANGE: Pick a provider up for review, or approve / reject them
+ * Approving needs the provider's document and selfie approved first; rejecting needs a reason
+ * and sends back only the rejected steps for the provider to redo.
+ */
+export const updateVerificationStatus = async (request: StatusChangeRequest) => {
+  const { userId, newStatus, reason, steps } = request;
 
-    // In a real app, this would trigger admin confirmation
-    // For now, we'll log it and proceed with extra logging
-  }
+  console.log(`[AdminStatusUpdate] Updating user ${userId} to ${newStatus}`);
 
-  // ✅ UPDATE: Change the status in provider_onboarding_progress table
-  const { error } = await supabase
-    .from('provider_onboarding_progress')
-    .update({
-      verification_status: newStatus,
-      updated_at: new Date().toISOString(),
-      // Add audit metadata
-      metadata: {
-        last_status_change: {
-          from: currentProgress?.verification_status,
-          to: newStatus,
-          admin_id: adminId,
-          reason: reason,
-          timestamp: new Date().toISOString()
-        }
-      }
+  const result = newStatus === 'in_review'
+    ? await invokeVerificationReview<{ success: boolean; verification_status: string }>({
+      action: 'start_review',
+      provider_id: userId,
     })
-    .eq('provider_id', userId);
-
-  if (error) {
-    console.error('[AdminStatusUpdate] Failed to update status:', error);
-    throw error;
-  }
+    : await invokeVerificationReview<{ success: boolean; verification_status: string }>({
+      action: 'decide',
+      provider_id: userId,
+      decision: newStatus,
+      reason,
+      steps,
+    });
 
   console.log(`[AdminStatusUpdate] ✅ Successfully updated user ${userId} to ${newStatus}`);
 
-  // ✅ NOTIFICATION: Could send push notification to user about status change
-  // This would inform the user of the change in real-time
-
-  return { success: true, previousStatus: currentProgress?.verification_status };
+  return result;
 };
 
 /**
- * ✅ BATCH STATUS UPDATE: For bulk operations with rollback capability
+ * ✅ BATCH STATUS UPDATE: Applies each change independently - one failure doesn't stop the rest
  */
-export const batchUpdateVerificationStatus = async (
-  requests: StatusChangeRequest[],
-  options: { rollbackOnError?: boolean } = {}
-) => {
+export const batchUpdateVerificationStatus = async (requests: StatusChangeRequest[]) => {
   const results = [];
-  const successfulUpdates = [];
 
   for (const request of requests) {
     try {
-      const result = await updateVerificationStatus({ ...request, requiresConfirmation: false });
+      const result = await updateVerificationStatus(request);
       results.push({ ...result, userId: request.userId });
-      successfulUpdates.push(request);
     } catch (error) {
       console.error(`[BatchStatusUpdate] Failed for user ${request.userId}:`, error);
-
-      if (options.rollbackOnError) {
-        console.log('[BatchStatusUpdate] Rolling back successful updates...');
-        // Rollback logic would go here
-      }
-
       results.push({ success: false, userId: request.userId, error });
     }
   }
 
+  const successful = results.filter((result) => result.success).length;
+
   return {
     total: requests.length,
-    successful: successfulUpdates.length,
-    failed: requests.length - successfulUpdates.length,
+    successful,
+    failed: requests.length - successful,
     results
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,57 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+/**
+ * ID document expiry helpers
+ * The daily check-document-expiry job warns approved providers at these thresholds
+ * and flags them for re-verification once the latest document has expired.
+ */
+export const DOCUMENT_EXPIRY_WARNING_DAYS = [30, 7] as const;
+
+// The first warning goes out this many days before expiry
+export const DOCUMENT_EXPIRY_WINDOW_DAYS = DOCUMENT_EXPIRY_WARNING_DAYS[0];
+
+export type DocumentExpiryState = 'valid' | 'expiring' | 'expired' | 'unknown';
+
+/**
+ * expiry_date is a DATE column - stored as YYYY-MM-DD with no time zone
+ */
+export const toExpiryDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const parseExpiryDate = (expiryDate: string | null | undefined) =>
+  expiryDate ? parseISO(expiryDate) : null;
+
+export const formatExpiryDate = (expiryDate: string | null | undefined) => {
+  const date = parseExpiryDate(expiryDate);
+  return date ? format(date, 'd MMM yyyy') : null;
+};
+
+/**
+ * Whole days until the document expires - 0 on the expiry day, negative once past
+ */
+export const getDaysUntilExpiry = (expiryDate: string | null | undefined, now: Date = new Date()) => {
+  const date = parseExpiryDate(expiryDate);
+  return date ? differenceInCalendarDays(date, now) : null;
+};
+
+export const getDocumentExpiryState = (
+  expiryDate: string | null | undefined,
+  now: Date = new Date()
+): DocumentExpiryState => {
+  const daysLeft = getDaysUntilExpiry(expiryDate, now);
+
+  if (daysLeft === null) return 'unknown';
+  if (daysLeft <= 0) return 'expired';
+  if (daysLeft <= DOCUMENT_EXPIRY_WINDOW_DAYS) return 'expiring';
+  return 'valid';
+};
+
+/**
+ * Validation for the expiry date field - returns an error message or true
+ */
+export const validateExpiryDate = (date: Date | null | undefined) => {
+  if (!date) return 'Please enter the expiry date shown on your document';
+  if (differenceInCalendarDays(date, new Date()) <= 0) {
+    return 'This document has expired. Please use a valid document';
+  }
+  return true;
+};
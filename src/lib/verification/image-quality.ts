@@ -0,0 +1,370 @@
+/**
+ * ✅ VERIFICATION IMAGE QUALITY CHECKS
+ * On-device pre-checks for ID documents and selfies before they're uploaded:
+ * resolution, blur (Laplacian variance), glare / exposure, document framing and
+ * face presence. Failed checks come with retake advice, and the report is stored
+ * with the upload so reviewers can see the scores.
+ *
+ * Pixel checks run on a reduced image from jpeg-reader. Anything that isn't a
+ * baseline JPEG only gets the resolution check (`pixel_analysis: false`).
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { decodeJpeg, type DecodedJpeg, type JpegSample } from './jpeg-reader';
+
+export type ImageQualityKind = 'document' | 'selfie';
+
+export type ImageQualityCheckId = 'resolution' | 'blur' | 'glare' | 'brightness' | 'framing' | 'face';
+
+export interface ImageQualityCheck {
+  id: ImageQualityCheckId;
+  passed: boolean;
+  /** Retake advice, only set when the check failed */
+  message?: string;
+}
+
+export interface ImageQualityScores {
+  width: number;
+  height: number;
+  blur_variance: number | null;
+  glare_ratio: number | null;
+  mean_luminance: number | null;
+  aspect_ratio: number | null;
+  document_coverage: number | null;
+  face_coverage: number | null;
+}
+
+export interface ImageQualityReport {
+  kind: ImageQualityKind;
+  passed: boolean;
+  /** Resolution is the only check the provider can't override */
+  blocking: boolean;
+  pixel_analysis: boolean;
+  checks: ImageQualityCheck[];
+  scores: ImageQualityScores;
+  checked_at: string;
+}
+
+export interface ImageToCheck {
+  uri: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Thresholds are for the 1/4 scale luma image jpeg-reader produces
+ */
+export const IMAGE_QUALITY_THRESHOLDS = {
+  document: {
+    minShortSide: 720,
+    minLongSide: 1000,
+    minBlurVariance: 60,
+  },
+  selfie: {
+    minShortSide: 480,
+    minLongSide: 480,
+    minBlurVariance: 25,
+  },
+  /** Share of near-white pixels that counts as glare */
+  maxGlareRatio: 0.02,
+  glareLuminance: 250,
+  maxMeanLuminance: 215,
+  minMeanLuminance: 50,
+  /** Long / short side of the document - ID-1 cards are 1.59, passport pages 1.42 */
+  documentAspectRange: [1.25, 1.85] as const,
+  minDocumentCoverage: 0.35,
+  minFaceCoverage: 0.2,
+} as const;
+
+const RETAKE_MESSAGES: Record<ImageQualityCheckId, Record<ImageQualityKind, string>> = {
+  resolution: {
+    document: 'The photo is too small to read. Use your camera at full resolution and fill the frame with the document.',
+    selfie: 'The photo is too small. Take the selfie with your camera instead of using a screenshot or thumbnail.',
+  },
+  blur: {
+    document: 'The photo is blurry. Hold your phone steady, tap the document to focus and make sure the text is sharp.',
+    selfie: 'The photo is blurry. Hold your phone steady at arm\'s length and keep still while it focuses.',
+  },
+  glare: {
+    document: 'There is glare on the document. Tilt it away from lights or windows and turn off the flash.',
+    selfie: 'The photo is overexposed. Move away from bright light behind or above you.',
+  },
+  brightness: {
+    document: 'The photo is too dark. Move somewhere brighter so every detail is visible.',
+    selfie: 'The photo is too dark. Face a window or light so your face is evenly lit.',
+  },
+  framing: {
+    document: 'The whole document must fit inside the frame. Place it on a plain, dark surface and move closer so it fills the guide.',
+    selfie: 'Fit your whole face inside the guide.',
+  },
+  face: {
+    document: 'We couldn\'t find your face.',
+    selfie: 'We couldn\'t find your face. Centre it in the oval, remove sunglasses or hats and make sure it\'s well lit.',
+  },
+};
+
+interface Region {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+const FULL_REGION: Region = { left: 0, top: 0, right: 1, bottom: 1 };
+/** Selfies are judged on the centre of the frame, where the oval guide puts the face */
+const FACE_REGION: Region = { left: 0.25, top: 0.2, right: 0.75, bottom: 0.8 };
+
+function toPixelRegion(sample: JpegSample, region: Region) {
+  return {
+    x0: Math.max(1, Math.floor(region.left * sample.width)),
+    y0: Math.max(1, Math.floor(region.top * sample.height)),
+    x1: Math.min(sample.width - 1, Math.ceil(region.right * sample.width)),
+    y1: Math.min(sample.height - 1, Math.ceil(region.bottom * sample.height)),
+  };
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian - low values mean few sharp edges
+ */
+function laplacianVariance(sample: JpegSample, region: Region) {
+  const { x0, y0, x1, y1 } = toPixelRegion(sample, region);
+  const { data, width } = sample;
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = y * width + x;
+      const value = 4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  if (!count) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+function luminanceStats(sample: JpegSample, region: Region) {
+  const { x0, y0, x1, y1 } = toPixelRegion(sample, region);
+  let sum = 0;
+  let bright = 0;
+  let count = 0;
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const value = sample.data[y * sample.width + x];
+      sum += value;
+      if (value >= IMAGE_QUALITY_THRESHOLDS.glareLuminance) bright++;
+      count++;
+    }
+  }
+
+  return {
+    mean: count ? sum / count : 0,
+    glareRatio: count ? bright / count : 0,
+  };
+}
+
+/**
+ * Estimate where the document is from its edges: the bounding box of the strongest
+ * gradients (text, photo, card border), trimmed at the 2nd / 98th percentile so a
+ * few stray background edges don't stretch it.
+ */
+function estimateDocumentBounds(sample: JpegSample): Region | null {
+  const { data, width, height } = sample;
+  const magnitudes = new Float32Array(width * height);
+  const histogram = new Uint32Array(256);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const magnitude = Math.abs(data[i + 1] - data[i - 1]) + Math.abs(data[i + width] - data[i - width]);
+      magnitudes[i] = magnitude;
+      histogram[Math.min(255, Math.floor(magnitude))]++;
+    }
+  }
+
+  // Strong edges = top 10% of gradient magnitudes
+  const target = (width - 2) * (height - 2) * 0.9;
+  let cutoff = 0;
+  for (let seen = 0; cutoff < 255 && seen + histogram[cutoff] < target; cutoff++) {
+    seen += histogram[cutoff];
+  }
+  cutoff = Math.max(cutoff, 8);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      if (magnitudes[y * width + x] > cutoff) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+
+  if (xs.length < 50) return null;
+
+  xs.sort((a, b) => a - b);
+  ys.sort((a, b) => a - b);
+  const at = (values: number[], percentile: number) => values[Math.floor((values.length - 1) * percentile)];
+
+  return {
+    left: at(xs, 0.02) / width,
+    right: (at(xs, 0.98) + 1) / width,
+    top: at(ys, 0.02) / height,
+    bottom: (at(ys, 0.98) + 1) / height,
+  };
+}
+
+/**
+ * Share of the face region with skin-tone chroma (YCbCr skin cluster)
+ */
+function skinCoverage(cb: JpegSample, cr: JpegSample) {
+  const { x0, y0, x1, y1 } = toPixelRegion(cb, FACE_REGION);
+  let skin = 0;
+  let count = 0;
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = y * cb.width + x;
+      const blue = cb.data[i];
+      const red = cr.data[i];
+      if (blue >= 77 && blue <= 127 && red >= 133 && red <= 173) skin++;
+      count++;
+    }
+  }
+
+  return count ? skin / count : 0;
+}
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Read an image file from the device as bytes (same approach as the storage uploads)
+ */
+async function readImageBytes(uri: string): Promise<Uint8Array> {
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * ✅ Run every pre-check for a captured or picked image
+ */
+export async function analyzeImageQuality(
+  image: ImageToCheck,
+  kind: ImageQualityKind
+): Promise<ImageQualityReport> {
+  const thresholds = IMAGE_QUALITY_THRESHOLDS[kind];
+
+  let decoded: DecodedJpeg | null = null;
+  try {
+    decoded = decodeJpeg(await readImageBytes(image.uri));
+  } catch (error) {
+    console.warn('[ImageQuality] Could not decode image, checking resolution only:', error);
+  }
+
+  // Picker / camera sizes already account for EXIF rotation, so prefer them
+  const width = image.width || decoded?.width || 0;
+  const height = image.height || decoded?.height || 0;
+  const shortSide = Math.min(width, height);
+  const longSide = Math.max(width, height);
+
+  const scores: ImageQualityScores = {
+    width,
+    height,
+    blur_variance: null,
+    glare_ratio: null,
+    mean_luminance: null,
+    aspect_ratio: null,
+    document_coverage: null,
+    face_coverage: null,
+  };
+
+  const results: Partial<Record<ImageQualityCheckId, boolean>> = {
+    resolution: shortSide >= thresholds.minShortSide && longSide >= thresholds.minLongSide,
+  };
+
+  if (decoded) {
+    let region = kind === 'selfie' ? FACE_REGION : FULL_REGION;
+
+    if (kind === 'document') {
+      const bounds = estimateDocumentBounds(decoded.luma);
+      if (bounds) {
+        // Bounds are relative to the decoded (unrotated) image
+        const boundsWidth = (bounds.right - bounds.left) * decoded.width;
+        const boundsHeight = (bounds.bottom - bounds.top) * decoded.height;
+        const aspectRatio = Math.max(boundsWidth, boundsHeight) / Math.max(1, Math.min(boundsWidth, boundsHeight));
+        const coverage = (bounds.right - bounds.left) * (bounds.bottom - bounds.top);
+        const [minAspect, maxAspect] = IMAGE_QUALITY_THRESHOLDS.documentAspectRange;
+
+        scores.aspect_ratio = round(aspectRatio, 2);
+        scores.document_coverage = round(coverage);
+        results.framing = aspectRatio >= minAspect && aspectRatio <= maxAspect
+          && coverage >= IMAGE_QUALITY_THRESHOLDS.minDocumentCoverage;
+        region = bounds;
+      } else {
+        results.framing = false;
+      }
+    }
+
+    const { mean, glareRatio } = luminanceStats(decoded.luma, region);
+    const blurVariance = laplacianVariance(decoded.luma, region);
+
+    scores.blur_variance = round(blurVariance, 1);
+    scores.glare_ratio = round(glareRatio, 4);
+    scores.mean_luminance = round(mean, 1);
+
+    results.blur = blurVariance >= thresholds.minBlurVariance;
+    results.glare = glareRatio <= IMAGE_QUALITY_THRESHOLDS.maxGlareRatio
+      && mean <= IMAGE_QUALITY_THRESHOLDS.maxMeanLuminance;
+    results.brightness = mean >= IMAGE_QUALITY_THRESHOLDS.minMeanLuminance;
+
+    if (kind === 'selfie' && decoded.cb && decoded.cr) {
+      const faceCoverage = skinCoverage(decoded.cb, decoded.cr);
+      scores.face_coverage = round(faceCoverage);
+      results.face = faceCoverage >= IMAGE_QUALITY_THRESHOLDS.minFaceCoverage;
+    }
+  }
+
+  const checks: ImageQualityCheck[] = (Object.keys(results) as ImageQualityCheckId[]).map((id) => ({
+    id,
+    passed: !!results[id],
+    message: results[id] ? undefined : RETAKE_MESSAGES[id][kind],
+  }));
+
+  const report: ImageQualityReport = {
+    kind,
+    passed: checks.every((check) => check.passed),
+    blocking: !results.resolution,
+    pixel_analysis: !!decoded,
+    checks,
+    scores,
+    checked_at: new Date().toISOString(),
+  };
+
+  console.log('[ImageQuality] Report:', { kind, passed: report.passed, scores });
+
+  return report;
+}
+
+/**
+ * Retake advice for every failed check
+ */
+export function getRetakeAdvice(report: ImageQualityReport): string[] {
+  return report.checks
+    .filter((check) => !check.passed && check.message)
+    .map((check) => check.message!);
+}
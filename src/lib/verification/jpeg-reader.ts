@@ -0,0 +1,440 @@
+/**
+ * ✅ JPEG READER
+ * Minimal baseline JPEG decoder for on-device image quality checks.
+ *
+ * Pixels are never fully reconstructed - each 8x8 luma block is reduced to the
+ * mean of its four 4x4 quadrants (a 1/4 scale image, computed straight from the
+ * DCT coefficients) and each chroma block to its mean (the DC term). That is all
+ * the blur / glare / face checks need, and it keeps a 12MP photo cheap to analyse.
+ *
+ * Progressive and arithmetic-coded JPEGs return null - callers fall back to the
+ * checks that only need the image size.
+ */
+
+export interface JpegSample {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export interface DecodedJpeg {
+  /** Full image size from the frame header */
+  width: number;
+  height: number;
+  /** Luminance at 1/4 scale (0-255) */
+  luma: JpegSample;
+  /** Per-block chroma means (0-255) - missing for greyscale images */
+  cb?: JpegSample;
+  cr?: JpegSample;
+}
+
+interface HuffmanTable {
+  maxcode: Int32Array;
+  valptr: Int32Array;
+  mincode: Int32Array;
+  values: Uint8Array;
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  tq: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** 1/4 scale output for luma, block means for chroma */
+  output: Float32Array;
+  outputScale: number;
+  pred: number;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+}
+
+const DEZIGZAG = new Int32Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48,
+  41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29, 22,
+  15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55,
+  62, 63,
+]);
+
+/**
+ * Mean of cos((2x+1)uπ/16) over the first half of a block row (x = 0..3), scaled
+ * by the IDCT normalisation. Even frequencies average out to zero over a half block,
+ * so only u = 0 and odd u contribute to a quadrant mean.
+ */
+const HALF_BLOCK_WEIGHTS = (() => {
+  const weights = new Float64Array(8);
+  for (let u = 0; u < 8; u++) {
+    const c = u === 0 ? Math.SQRT1_2 : 1;
+    let sum = 0;
+    for (let x = 0; x < 4; x++) {
+      sum += Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+    weights[u] = (c / 2) * (sum / 4);
+  }
+  return weights;
+})();
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxcode = new Int32Array(18).fill(-1);
+  const valptr = new Int32Array(17);
+  const mincode = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    valptr[length] = k;
+    mincode[length] = code;
+    code += count;
+    k += count;
+    maxcode[length] = count ? code - 1 : -1;
+    code <<= 1;
+  }
+  maxcode[17] = 0x7fffffff;
+
+  return { maxcode, valptr, mincode, values };
+}
+
+class BitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private bytes: Uint8Array, public offset: number) {}
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      if (this.offset >= this.bytes.length) return 0;
+      let byte = this.bytes[this.offset];
+      if (byte === 0xff) {
+        const next = this.bytes[this.offset + 1];
+        if (next === 0x00) {
+          this.offset += 2;
+        } else {
+          // A marker inside the scan - pad with zero bits until the caller handles it
+          byte = 0;
+        }
+      } else {
+        this.offset++;
+      }
+      this.bitBuffer = byte;
+      this.bitCount = 8;
+    }
+    this.bitCount--;
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  receiveExtend(length: number): number {
+    if (length === 0) return 0;
+    const value = this.receive(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = this.readBit();
+    let length = 1;
+    while (length <= 16 && code > table.maxcode[length]) {
+      code = (code << 1) | this.readBit();
+      length++;
+    }
+    if (length > 16) return 0;
+    return table.values[table.valptr[length] + code - table.mincode[length]];
+  }
+
+  /**
+   * Skip to the next restart marker and drop any buffered bits
+   */
+  restart() {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    while (this.offset < this.bytes.length - 1) {
+      if (this.bytes[this.offset] === 0xff && this.bytes[this.offset + 1] >= 0xd0 && this.bytes[this.offset + 1] <= 0xd7) {
+        this.offset += 2;
+        return;
+      }
+      this.offset++;
+    }
+  }
+}
+
+function readUint16(bytes: Uint8Array, offset: number) {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+/**
+ * Decode one block and write its reduced output
+ */
+function decodeBlock(
+  reader: BitReader,
+  component: FrameComponent,
+  quantTable: Uint16Array,
+  isLuma: boolean,
+  blockRow: number,
+  blockCol: number,
+  coefficients: Float64Array
+) {
+  coefficients.fill(0);
+
+  const dcLength = reader.decode(component.dcTable!);
+  component.pred += reader.receiveExtend(dcLength);
+  coefficients[0] = component.pred * quantTable[0];
+
+  let k = 1;
+  while (k < 64) {
+    const rs = reader.decode(component.acTable!);
+    const size = rs & 15;
+    const run = rs >> 4;
+    if (size === 0) {
+      if (run < 15) break;
+      k += 16;
+      continue;
+    }
+    k += run;
+    if (k > 63) break;
+    coefficients[DEZIGZAG[k]] = reader.receiveExtend(size) * quantTable[k];
+    k++;
+  }
+
+  if (blockRow >= component.blocksPerColumn || blockCol >= component.blocksPerLine) return;
+
+  if (!isLuma) {
+    // Block mean = DC / 8, plus the level shift
+    component.output[blockRow * component.blocksPerLine + blockCol] = coefficients[0] / 8 + 128;
+    return;
+  }
+
+  const outputWidth = component.blocksPerLine * 2;
+  for (let qy = 0; qy < 2; qy++) {
+    for (let qx = 0; qx < 2; qx++) {
+      let sum = 0;
+      for (let v = 0; v < 8; v++) {
+        if (v !== 0 && v % 2 === 0) continue;
+        const wy = qy === 1 && v % 2 === 1 ? -HALF_BLOCK_WEIGHTS[v] : HALF_BLOCK_WEIGHTS[v];
+        for (let u = 0; u < 8; u++) {
+          if (u !== 0 && u % 2 === 0) continue;
+          const coefficient = coefficients[v * 8 + u];
+          if (coefficient === 0) continue;
+          const wx = qx === 1 && u % 2 === 1 ? -HALF_BLOCK_WEIGHTS[u] : HALF_BLOCK_WEIGHTS[u];
+          sum += wx * wy * coefficient;
+        }
+      }
+      const value = sum + 128;
+      component.output[(blockRow * 2 + qy) * outputWidth + blockCol * 2 + qx] =
+        value < 0 ? 0 : value > 255 ? 255 : value;
+    }
+  }
+}
+
+/**
+ * Decode a baseline JPEG into reduced luma / chroma samples
+ */
+export function decodeJpeg(bytes: Uint8Array): DecodedJpeg | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let components: FrameComponent[] = [];
+  let width = 0;
+  let height = 0;
+  let maxH = 1;
+  let maxV = 1;
+  let resetInterval = 0;
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    offset += 2;
+
+    if (marker === 0x00 || marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0xff) continue;
+    if (marker === 0xd9) break;
+
+    const length = readUint16(bytes, offset);
+    const segmentEnd = offset + length;
+    let p = offset + 2;
+
+    switch (marker) {
+      case 0xdb: // DQT
+        while (p < segmentEnd) {
+          const precision = bytes[p] >> 4;
+          const id = bytes[p] & 15;
+          p++;
+          const table = new Uint16Array(64);
+          for (let i = 0; i < 64; i++) {
+            table[i] = precision ? readUint16(bytes, p + i * 2) : bytes[p + i];
+          }
+          p += precision ? 128 : 64;
+          quantTables[id] = table;
+        }
+        break;
+
+      case 0xc4: // DHT
+        while (p < segmentEnd) {
+          const tableClass = bytes[p] >> 4;
+          const id = bytes[p] & 15;
+          const counts = bytes.subarray(p + 1, p + 17);
+          let total = 0;
+          for (let i = 0; i < 16; i++) total += counts[i];
+          const values = bytes.slice(p + 17, p + 17 + total);
+          const table = buildHuffmanTable(counts, values);
+          if (tableClass === 0) dcTables[id] = table;
+          else acTables[id] = table;
+          p += 17 + total;
+        }
+        break;
+
+      case 0xdd: // DRI
+        resetInterval = readUint16(bytes, p);
+        break;
+
+      case 0xc0: // SOF0 baseline
+      case 0xc1: { // SOF1 extended sequential
+        height = readUint16(bytes, p + 1);
+        width = readUint16(bytes, p + 3);
+        const count = bytes[p + 5];
+        components = [];
+        for (let i = 0; i < count; i++) {
+          const base = p + 6 + i * 3;
+          components.push({
+            id: bytes[base],
+            h: bytes[base + 1] >> 4,
+            v: bytes[base + 1] & 15,
+            tq: bytes[base + 2],
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            output: new Float32Array(0),
+            outputScale: 0,
+            pred: 0,
+          });
+        }
+        maxH = Math.max(...components.map((component) => component.h));
+        maxV = Math.max(...components.map((component) => component.v));
+        components.forEach((component, index) => {
+          const componentWidth = Math.ceil((width * component.h) / maxH);
+          const componentHeight = Math.ceil((height * component.v) / maxV);
+          component.blocksPerLine = Math.ceil(componentWidth / 8);
+          component.blocksPerColumn = Math.ceil(componentHeight / 8);
+          component.outputScale = index === 0 ? 2 : 1;
+          component.output = new Float32Array(
+            component.blocksPerLine * component.outputScale * component.blocksPerColumn * component.outputScale
+          );
+        });
+        break;
+      }
+
+      case 0xc2: // Progressive
+      case 0xc3:
+      case 0xc5:
+      case 0xc6:
+      case 0xc7:
+      case 0xc9:
+      case 0xca:
+      case 0xcb:
+      case 0xcd:
+      case 0xce:
+      case 0xcf:
+        return null;
+
+      case 0xda: { // SOS
+        if (!components.length) return null;
+        const count = bytes[p];
+        const scanComponents: FrameComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const id = bytes[p + 1 + i * 2];
+          const tables = bytes[p + 2 + i * 2];
+          const component = components.find((candidate) => candidate.id === id);
+          if (!component) return null;
+          component.dcTable = dcTables[tables >> 4];
+          component.acTable = acTables[tables & 15];
+          if (!component.dcTable || !component.acTable || !quantTables[component.tq]) return null;
+          component.pred = 0;
+          scanComponents.push(component);
+        }
+
+        const reader = new BitReader(bytes, segmentEnd);
+        const coefficients = new Float64Array(64);
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        const singleComponent = scanComponents.length === 1;
+        const totalMcus = singleComponent
+          ? scanComponents[0].blocksPerLine * scanComponents[0].blocksPerColumn
+          : mcusPerLine * mcusPerColumn;
+
+        for (let mcu = 0; mcu < totalMcus; mcu++) {
+          if (resetInterval && mcu > 0 && mcu % resetInterval === 0) {
+            reader.restart();
+            scanComponents.forEach((component) => { component.pred = 0; });
+          }
+
+          if (singleComponent) {
+            const component = scanComponents[0];
+            decodeBlock(
+              reader,
+              component,
+              quantTables[component.tq],
+              component === components[0],
+              Math.floor(mcu / component.blocksPerLine),
+              mcu % component.blocksPerLine,
+              coefficients
+            );
+            continue;
+          }
+
+          const mcuRow = Math.floor(mcu / mcusPerLine);
+          const mcuCol = mcu % mcusPerLine;
+          for (const component of scanComponents) {
+            for (let v = 0; v < component.v; v++) {
+              for (let h = 0; h < component.h; h++) {
+                decodeBlock(
+                  reader,
+                  component,
+                  quantTables[component.tq],
+                  component === components[0],
+                  mcuRow * component.v + v,
+                  mcuCol * component.h + h,
+                  coefficients
+                );
+              }
+            }
+          }
+        }
+
+        offset = reader.offset;
+        continue;
+      }
+
+      default:
+        break;
+    }
+
+    offset = segmentEnd;
+  }
+
+  if (!components.length) return null;
+
+  const toSample = (component: FrameComponent): JpegSample => ({
+    width: component.blocksPerLine * component.outputScale,
+    height: component.blocksPerColumn * component.outputScale,
+    data: component.output,
+  });
+
+  return {
+    width,
+    height,
+    luma: toSample(components[0]),
+    cb: components.length >= 3 ? toSample(components[1]) : undefined,
+    cr: components.length >= 3 ? toSample(components[2]) : undefined,
+  };
+}
@@ -105,6 +105,16 @@ export interface NavigationResult {
   reason: string;
 }
 
+/**
+ * Review outcome for a step (provider_verification_step_progress)
+ * 'rejected' steps have to be redone before resubmitting, 'resubmitted' ones have been
+ */
+export interface StepReview {
+  step_number: number;
+  status: 'rejected' | 'resubmitted';
+  error_message: string | null;
+}
+
 /**
  * ✅ VERIFICATION FLOW MANAGER CLASS
  * Centralized management of verification flow
@@ -158,6 +168,31 @@ export class VerificationFlowManager {
     return nextStep <= 8 ? nextStep : null; // Step 8 is now the final step
   }
 
+  /**
+   * ✅ TARGETED RESUBMISSION
+   * Steps a rejected provider still has to redo - everything else keeps its data
+   */
+  static getStepsToResubmit(stepReviews: StepReview[] = []): number[] {
+    return stepReviews
+      .filter((review) => review.status === 'rejected')
+      .map((review) => review.step_number)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Where to go after saving a step
+   * Normally the next step; while resubmitting, the next step still to redo and then
+   * the completion step to submit again
+   */
+  static getNextStepAfter(currentStep: number, stepsToResubmit: number[] = []): number | null {
+    if (stepsToResubmit.length === 0) {
+      return this.getNextStep(currentStep);
+    }
+
+    const remaining = stepsToResubmit.filter((step) => step !== currentStep);
+    return remaining.find((step) => step > currentStep) ?? remaining[0] ?? 8;
+  }
+
   /**
    * Get previous step  
    */
@@ -1,6 +1,6 @@
 import type { Session, User } from '@supabase/supabase-js';
 
-export type UserRole = 'customer' | 'provider';
+export type UserRole = 'customer' | 'provider' | 'admin' | 'super-admin';
 export type VerificationStatus = 'pending' | 'approved' | 'rejected';
 
 export interface AuthState {
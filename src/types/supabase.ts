@@ -14,6 +14,459 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_erasures: {
+        Row: {
+          completed_at: string | null
+          error: string | null
+          id: string
+          report: Json
+          requested_at: string
+          role: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          error?: string | null
+          id?: string
+          report?: Json
+          requested_at?: string
+          role?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          error?: string | null
+          id?: string
+          report?: Json
+          requested_at?: string
+          role?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      booking_disputes: {
+        Row: {
+          amount: number
+          booking_id: string
+          closed_at: string | null
+          created_at: string
+          currency: string
+          customer_id: string | null
+          evidence: Json | null
+          evidence_due_by: string | null
+          evidence_submitted_at: string | null
+          evidence_submitted_by: string | null
+          id: string
+          payment_intent_id: string | null
+          provider_id: string | null
+          provider_statement: string | null
+          reason: string | null
+          status: string
+          stripe_charge_id: string | null
+          stripe_dispute_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          closed_at?: string | null
+          created_at?: string
+          currency?: string
+          customer_id?: string | null
+          evidence?: Json | null
+          evidence_due_by?: string | null
+          evidence_submitted_at?: string | null
+          evidence_submitted_by?: string | null
+          id?: string
+          payment_intent_id?: string | null
+          provider_id?: string | null
+          provider_statement?: string | null
+          reason?: string | null
+          status: string
+          stripe_charge_id?: string | null
+          stripe_dispute_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          closed_at?: string | null
+          created_at?: string
+          currency?: string
+          customer_id?: string | null
+          evidence?: Json | null
+          evidence_due_by?: string | null
+          evidence_submitted_at?: string | null
+          evidence_submitted_by?: string | null
+          id?: string
+          payment_intent_id?: string | null
+          provider_id?: string | null
+          provider_statement?: string | null
+          reason?: string | null
+          status?: string
+          stripe_charge_id?: string | null
+          stripe_dispute_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_disputes_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_disputes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_disputes_evidence_submitted_by_fkey"
+            columns: ["evidence_submitted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_disputes_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_live_locations: {
+        Row: {
+          accuracy_m: number | null
+          booking_id: string
+          heading: number | null
+          latitude: number
+          longitude: number
+          provider_id: string
+          speed_mps: number | null
+          updated_at: string
+        }
+        Insert: {
+          accuracy_m?: number | null
+          booking_id: string
+          heading?: number | null
+          latitude: number
+          longitude: number
+          provider_id: string
+          speed_mps?: number | null
+          updated_at?: string
+        }
+        Update: {
+          accuracy_m?: number | null
+          booking_id?: string
+          heading?: number | null
+          latitude?: number
+          longitude?: number
+          provider_id?: string
+          speed_mps?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_live_locations_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_live_locations_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_reminders_sent: {
+        Row: {
+          booking_id: string
+          id: string
+          push_sent: boolean
+          reminder_type: string
+          sent_at: string
+          user_id: string
+        }
+        Insert: {
+          booking_id: string
+          id?: string
+          push_sent?: boolean
+          reminder_type: string
+          sent_at?: string
+          user_id: string
+        }
+        Update: {
+          booking_id?: string
+          id?: string
+          push_sent?: boolean
+          reminder_type?: string
+          sent_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_reminders_sent_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_reminders_sent_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_reschedule_requests: {
+        Row: {
+          booking_id: string
+          created_at: string
+          id: string
+          original_date: string
+          original_end_time: string | null
+          original_start_time: string
+          parent_request_id: string | null
+          proposed_by: string
+          proposed_by_role: string
+          proposed_date: string
+          proposed_end_time: string
+          proposed_start_time: string
+          reason: string | null
+          responded_at: string | null
+          responded_by: string | null
+          response_note: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          booking_id: string
+          created_at?: string
+          id?: string
+          original_date: string
+          original_end_time?: string | null
+          original_start_time: string
+          parent_request_id?: string | null
+          proposed_by: string
+          proposed_by_role: string
+          proposed_date: string
+          proposed_end_time: string
+          proposed_start_time: string
+          reason?: string | null
+          responded_at?: string | null
+          responded_by?: string | null
+          response_note?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          booking_id?: string
+          created_at?: string
+          id?: string
+          original_date?: string
+          original_end_time?: string | null
+          original_start_time?: string
+          parent_request_id?: string | null
+          proposed_by?: string
+          proposed_by_role?: string
+          proposed_date?: string
+          proposed_end_time?: string
+          proposed_start_time?: string
+          reason?: string | null
+          responded_at?: string | null
+          responded_by?: string | null
+          response_note?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_reschedule_requests_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_reschedule_requests_parent_request_id_fkey"
+            columns: ["parent_request_id"]
+            isOneToOne: false
+            referencedRelation: "booking_reschedule_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_reschedule_requests_proposed_by_fkey"
+            columns: ["proposed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_reschedule_requests_responded_by_fkey"
+            columns: ["responded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_series: {
+        Row: {
+          cancelled_at: string | null
+          cancelled_by: string | null
+          created_at: string
+          customer_id: string
+          customer_notes: string | null
+          frequency: string
+          id: string
+          occurrence_count: number
+          provider_id: string
+          service_address: string | null
+          service_coordinates: unknown
+          service_id: string
+          start_date: string
+          start_time: string
+          status: string
+          stripe_payment_method_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          created_at?: string
+          customer_id: string
+          customer_notes?: string | null
+          frequency: string
+          id?: string
+          occurrence_count: number
+          provider_id: string
+          service_address?: string | null
+          service_coordinates?: unknown
+          service_id: string
+          start_date: string
+          start_time: string
+          status?: string
+          stripe_payment_method_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          created_at?: string
+          customer_id?: string
+          customer_notes?: string | null
+          frequency?: string
+          id?: string
+          occurrence_count?: number
+          provider_id?: string
+          service_address?: string | null
+          service_coordinates?: unknown
+          service_id?: string
+          start_date?: string
+          start_time?: string
+          status?: string
+          stripe_payment_method_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_series_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_series_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_series_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_series_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "provider_services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_series_occurrences: {
+        Row: {
+          booking_id: string | null
+          created_at: string
+          failure_reason: string | null
+          id: string
+          occurrence_date: string
+          occurrence_index: number
+          series_id: string
+          start_time: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          booking_id?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          occurrence_date: string
+          occurrence_index: number
+          series_id: string
+          start_time: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          booking_id?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          occurrence_date?: string
+          occurrence_index?: number
+          series_id?: string
+          start_time?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_series_occurrences_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_series_occurrences_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "booking_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
         Row: {
           amount_held_for_provider: number | null
@@ -21,7 +474,11 @@ export type Database = {
           base_amount: number
           booking_date: string
           booking_mode: Database["public"]["Enums"]["booking_mode"]
+          cancellation_fee_amount: number | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           captured_amount: number | null
+          completed_at: string | null
           created_at: string | null
           customer_id: string | null
           customer_notes: string | null
@@ -36,19 +493,24 @@ export type Database = {
           platform_fee: number
           platform_fee_collected: number | null
           platform_fee_held: number | null
+          price_quote: Json | null
           provider_id: string | null
           provider_notes: string | null
           provider_paid_at: string | null
           provider_payout_amount: number | null
           provider_response_deadline: string | null
           provider_transfer_id: string | null
+          refund_amount: number | null
           requested_completion_time: string | null
+          series_id: string | null
           service_address: string | null
           service_coordinates: unknown
+          service_distance_km: number | null
           service_id: string | null
           start_time: string
           status: Database["public"]["Enums"]["booking_status"] | null
           total_amount: number
+          travel_buffer_minutes: number
           updated_at: string | null
           urgency_level: Database["public"]["Enums"]["urgency_level"] | null
         }
@@ -58,7 +520,11 @@ export type Database = {
           base_amount: number
           booking_date: string
           booking_mode?: Database["public"]["Enums"]["booking_mode"]
+          cancellation_fee_amount?: number | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           captured_amount?: number | null
+          completed_at?: string | null
           created_at?: string | null
           customer_id?: string | null
           customer_notes?: string | null
@@ -73,19 +539,24 @@ export type Database = {
           platform_fee: number
           platform_fee_collected?: number | null
           platform_fee_held?: number | null
+          price_quote?: Json | null
           provider_id?: string | null
           provider_notes?: string | null
           provider_paid_at?: string | null
           provider_payout_amount?: number | null
           provider_response_deadline?: string | null
           provider_transfer_id?: string | null
+          refund_amount?: number | null
           requested_completion_time?: string | null
+          series_id?: string | null
           service_address?: string | null
           service_coordinates?: unknown
+          service_distance_km?: number | null
           service_id?: string | null
           start_time: string
           status?: Database["public"]["Enums"]["booking_status"] | null
           total_amount: number
+          travel_buffer_minutes?: number
           updated_at?: string | null
           urgency_level?: Database["public"]["Enums"]["urgency_level"] | null
         }
@@ -95,7 +566,11 @@ export type Database = {
           base_amount?: number
           booking_date?: string
           booking_mode?: Database["public"]["Enums"]["booking_mode"]
+          cancellation_fee_amount?: number | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           captured_amount?: number | null
+          completed_at?: string | null
           created_at?: string | null
           customer_id?: string | null
           customer_notes?: string | null
@@ -110,19 +585,24 @@ export type Database = {
           platform_fee?: number
           platform_fee_collected?: number | null
           platform_fee_held?: number | null
+          price_quote?: Json | null
           provider_id?: string | null
           provider_notes?: string | null
           provider_paid_at?: string | null
           provider_payout_amount?: number | null
           provider_response_deadline?: string | null
           provider_transfer_id?: string | null
+          refund_amount?: number | null
           requested_completion_time?: string | null
+          series_id?: string | null
           service_address?: string | null
           service_coordinates?: unknown
+          service_distance_km?: number | null
           service_id?: string | null
           start_time?: string
           status?: Database["public"]["Enums"]["booking_status"] | null
           total_amount?: number
+          travel_buffer_minutes?: number
           updated_at?: string | null
           urgency_level?: Database["public"]["Enums"]["urgency_level"] | null
         }
@@ -141,6 +621,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bookings_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "booking_series"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bookings_service_id_fkey"
             columns: ["service_id"]
@@ -240,14 +727,61 @@ export type Database = {
           },
         ]
       }
+      document_expiry_notices: {
+        Row: {
+          document_id: string
+          expiry_date: string
+          id: string
+          notice_type: string
+          provider_id: string
+          push_sent: boolean
+          sent_at: string
+        }
+        Insert: {
+          document_id: string
+          expiry_date: string
+          id?: string
+          notice_type: string
+          provider_id: string
+          push_sent?: boolean
+          sent_at?: string
+        }
+        Update: {
+          document_id?: string
+          expiry_date?: string
+          id?: string
+          notice_type?: string
+          provider_id?: string
+          push_sent?: boolean
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_expiry_notices_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "provider_verification_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_expiry_notices_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           content: string
           conversation_id: string | null
           created_at: string | null
           id: string
+          image_path: string | null
           is_read: boolean | null
           message_type: Database["public"]["Enums"]["message_type"] | null
+          read_at: string | null
           sender_id: string | null
         }
         Insert: {
@@ -255,8 +789,10 @@ export type Database = {
           conversation_id?: string | null
           created_at?: string | null
           id?: string
+          image_path?: string | null
           is_read?: boolean | null
           message_type?: Database["public"]["Enums"]["message_type"] | null
+          read_at?: string | null
           sender_id?: string | null
         }
         Update: {
@@ -264,8 +800,10 @@ export type Database = {
           conversation_id?: string | null
           created_at?: string | null
           id?: string
+          image_path?: string | null
           is_read?: boolean | null
           message_type?: Database["public"]["Enums"]["message_type"] | null
+          read_at?: string | null
           sender_id?: string | null
         }
         Relationships: [
@@ -595,6 +1133,8 @@ export type Database = {
           stripe_charges_enabled: boolean | null
           stripe_customer_id: string | null
           stripe_details_submitted: boolean | null
+          timezone: string | null
+          travel_fee_bands: Json
           updated_at: string | null
           website: string | null
           years_of_experience: number | null
@@ -642,6 +1182,8 @@ export type Database = {
           stripe_charges_enabled?: boolean | null
           stripe_customer_id?: string | null
           stripe_details_submitted?: boolean | null
+          timezone?: string | null
+          travel_fee_bands?: Json
           updated_at?: string | null
           website?: string | null
           years_of_experience?: number | null
@@ -689,6 +1231,8 @@ export type Database = {
           stripe_charges_enabled?: boolean | null
           stripe_customer_id?: string | null
           stripe_details_submitted?: boolean | null
+          timezone?: string | null
+          travel_fee_bands?: Json
           updated_at?: string | null
           website?: string | null
           years_of_experience?: number | null
@@ -781,6 +1325,16 @@ export type Database = {
           provider_id: string
           rejected_at: string | null
           rejection_reason: string | null
+          reverification_reason: string | null
+          reverification_required_at: string | null
+          selfie_image_purged_at: string | null
+          selfie_metadata: Json
+          selfie_rejection_reason: string | null
+          selfie_verification_status:
+            | Database["public"]["Enums"]["verification_status"]
+            | null
+          selfie_verified_at: string | null
+          selfie_verified_by: string | null
           started_at: string | null
           steps_completed: Json | null
           stripe_last_validated_at: string | null
@@ -800,6 +1354,16 @@ export type Database = {
           provider_id: string
           rejected_at?: string | null
           rejection_reason?: string | null
+          reverification_reason?: string | null
+          reverification_required_at?: string | null
+          selfie_image_purged_at?: string | null
+          selfie_metadata?: Json
+          selfie_rejection_reason?: string | null
+          selfie_verification_status?:
+            | Database["public"]["Enums"]["verification_status"]
+            | null
+          selfie_verified_at?: string | null
+          selfie_verified_by?: string | null
           started_at?: string | null
           steps_completed?: Json | null
           stripe_last_validated_at?: string | null
@@ -819,6 +1383,16 @@ export type Database = {
           provider_id?: string
           rejected_at?: string | null
           rejection_reason?: string | null
+          reverification_reason?: string | null
+          reverification_required_at?: string | null
+          selfie_image_purged_at?: string | null
+          selfie_metadata?: Json
+          selfie_rejection_reason?: string | null
+          selfie_verification_status?:
+            | Database["public"]["Enums"]["verification_status"]
+            | null
+          selfie_verified_at?: string | null
+          selfie_verified_by?: string | null
           started_at?: string | null
           steps_completed?: Json | null
           stripe_last_validated_at?: string | null
@@ -848,10 +1422,17 @@ export type Database = {
           currency: string
           expected_payout_date: string | null
           failure_reason: string | null
+          hold_reason: string | null
           id: string
+          last_attempt_at: string | null
+          next_retry_at: string | null
+          on_hold: boolean
           provider_id: string
           status: Database["public"]["Enums"]["payout_status"]
+          stripe_destination_payment_id: string | null
+          stripe_payout_id: string | null
           stripe_transfer_id: string | null
+          transfer_attempts: number
           updated_at: string | null
         }
         Insert: {
@@ -862,10 +1443,17 @@ export type Database = {
           currency?: string
           expected_payout_date?: string | null
           failure_reason?: string | null
+          hold_reason?: string | null
           id?: string
+          last_attempt_at?: string | null
+          next_retry_at?: string | null
+          on_hold?: boolean
           provider_id: string
           status?: Database["public"]["Enums"]["payout_status"]
+          stripe_destination_payment_id?: string | null
+          stripe_payout_id?: string | null
           stripe_transfer_id?: string | null
+          transfer_attempts?: number
           updated_at?: string | null
         }
         Update: {
@@ -876,10 +1464,17 @@ export type Database = {
           currency?: string
           expected_payout_date?: string | null
           failure_reason?: string | null
+          hold_reason?: string | null
           id?: string
+          last_attempt_at?: string | null
+          next_retry_at?: string | null
+          on_hold?: boolean
           provider_id?: string
           status?: Database["public"]["Enums"]["payout_status"]
+          stripe_destination_payment_id?: string | null
+          stripe_payout_id?: string | null
           stripe_transfer_id?: string | null
+          transfer_attempts?: number
           updated_at?: string | null
         }
         Relationships: [
@@ -1074,6 +1669,7 @@ export type Database = {
           base_price: number
           cancellation_fee_percentage: number | null
           cancellation_policy: string | null
+          cancellation_window_hours: number | null
           category_id: string | null
           created_at: string | null
           deposit_percentage: number | null
@@ -1092,6 +1688,7 @@ export type Database = {
           service_specific_terms: string | null
           subcategory_id: string | null
           title: string
+          travel_buffer_minutes: number | null
           updated_at: string | null
         }
         Insert: {
@@ -1099,6 +1696,7 @@ export type Database = {
           base_price: number
           cancellation_fee_percentage?: number | null
           cancellation_policy?: string | null
+          cancellation_window_hours?: number | null
           category_id?: string | null
           created_at?: string | null
           deposit_percentage?: number | null
@@ -1117,6 +1715,7 @@ export type Database = {
           service_specific_terms?: string | null
           subcategory_id?: string | null
           title: string
+          travel_buffer_minutes?: number | null
           updated_at?: string | null
         }
         Update: {
@@ -1124,6 +1723,7 @@ export type Database = {
           base_price?: number
           cancellation_fee_percentage?: number | null
           cancellation_policy?: string | null
+          cancellation_window_hours?: number | null
           category_id?: string | null
           created_at?: string | null
           deposit_percentage?: number | null
@@ -1142,6 +1742,7 @@ export type Database = {
           service_specific_terms?: string | null
           subcategory_id?: string | null
           title?: string
+          travel_buffer_minutes?: number | null
           updated_at?: string | null
         }
         Relationships: [
@@ -1173,7 +1774,10 @@ export type Database = {
           created_at: string | null
           document_type: Database["public"]["Enums"]["document_type"]
           document_url: string
+          expiry_date: string | null
           id: string
+          image_purged_at: string | null
+          metadata: Json
           provider_id: string
           rejection_reason: string | null
           updated_at: string | null
@@ -1187,7 +1791,10 @@ export type Database = {
           created_at?: string | null
           document_type: Database["public"]["Enums"]["document_type"]
           document_url: string
+          expiry_date?: string | null
           id?: string
+          image_purged_at?: string | null
+          metadata?: Json
           provider_id: string
           rejection_reason?: string | null
           updated_at?: string | null
@@ -1201,7 +1808,10 @@ export type Database = {
           created_at?: string | null
           document_type?: Database["public"]["Enums"]["document_type"]
           document_url?: string
+          expiry_date?: string | null
           id?: string
+          image_purged_at?: string | null
+          metadata?: Json
           provider_id?: string
           rejection_reason?: string | null
           updated_at?: string | null
@@ -1512,6 +2122,200 @@ export type Database = {
           },
         ]
       }
+      sos_dispatch_attempts: {
+        Row: {
+          availability_status:
+            | Database["public"]["Enums"]["user_availability"]
+            | null
+          distance_km: number
+          id: string
+          offered_at: string
+          provider_id: string
+          rank_score: number
+          rating: number | null
+          request_id: string
+          responded_at: string | null
+          service_id: string
+          status: string
+          wave: number
+        }
+        Insert: {
+          availability_status?:
+            | Database["public"]["Enums"]["user_availability"]
+            | null
+          distance_km: number
+          id?: string
+          offered_at?: string
+          provider_id: string
+          rank_score: number
+          rating?: number | null
+          request_id: string
+          responded_at?: string | null
+          service_id: string
+          status?: string
+          wave: number
+        }
+        Update: {
+          availability_status?:
+            | Database["public"]["Enums"]["user_availability"]
+            | null
+          distance_km?: number
+          id?: string
+          offered_at?: string
+          provider_id?: string
+          rank_score?: number
+          rating?: number | null
+          request_id?: string
+          responded_at?: string | null
+          service_id?: string
+          status?: string
+          wave?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sos_dispatch_attempts_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_dispatch_attempts_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "sos_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_dispatch_attempts_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "provider_services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sos_requests: {
+        Row: {
+          accepted_at: string | null
+          accepted_provider_id: string | null
+          accepted_service_id: string | null
+          booking_id: string | null
+          closed_at: string | null
+          created_at: string
+          customer_id: string
+          description: string
+          entitlement: string
+          failure_reason: string | null
+          id: string
+          pay_per_use_fee: number
+          radius_km: number
+          service_address: string
+          service_address_id: string | null
+          service_coordinates: unknown
+          status: string
+          stripe_payment_method_id: string
+          subcategory_id: string
+          updated_at: string
+          urgency_level: Database["public"]["Enums"]["urgency_level"]
+          wave: number
+          wave_expires_at: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_provider_id?: string | null
+          accepted_service_id?: string | null
+          booking_id?: string | null
+          closed_at?: string | null
+          created_at?: string
+          customer_id: string
+          description: string
+          entitlement?: string
+          failure_reason?: string | null
+          id?: string
+          pay_per_use_fee?: number
+          radius_km: number
+          service_address: string
+          service_address_id?: string | null
+          service_coordinates?: unknown
+          status?: string
+          stripe_payment_method_id: string
+          subcategory_id: string
+          updated_at?: string
+          urgency_level?: Database["public"]["Enums"]["urgency_level"]
+          wave?: number
+          wave_expires_at: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_provider_id?: string | null
+          accepted_service_id?: string | null
+          booking_id?: string | null
+          closed_at?: string | null
+          created_at?: string
+          customer_id?: string
+          description?: string
+          entitlement?: string
+          failure_reason?: string | null
+          id?: string
+          pay_per_use_fee?: number
+          radius_km?: number
+          service_address?: string
+          service_address_id?: string | null
+          service_coordinates?: unknown
+          status?: string
+          stripe_payment_method_id?: string
+          subcategory_id?: string
+          updated_at?: string
+          urgency_level?: Database["public"]["Enums"]["urgency_level"]
+          wave?: number
+          wave_expires_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sos_requests_accepted_provider_id_fkey"
+            columns: ["accepted_provider_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_requests_accepted_service_id_fkey"
+            columns: ["accepted_service_id"]
+            isOneToOne: false
+            referencedRelation: "provider_services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_requests_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_requests_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_requests_service_address_id_fkey"
+            columns: ["service_address_id"]
+            isOneToOne: false
+            referencedRelation: "user_addresses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_requests_subcategory_id_fkey"
+            columns: ["subcategory_id"]
+            isOneToOne: false
+            referencedRelation: "service_subcategories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       spatial_ref_sys: {
         Row: {
           auth_name: string | null
@@ -1536,6 +2340,45 @@ export type Database = {
         }
         Relationships: []
       }
+      stripe_webhook_events: {
+        Row: {
+          account_id: string | null
+          error: string | null
+          id: string
+          last_attempt_at: string
+          livemode: boolean
+          payload: Json | null
+          processed_at: string | null
+          received_at: string
+          status: string
+          type: string
+        }
+        Insert: {
+          account_id?: string | null
+          error?: string | null
+          id: string
+          last_attempt_at?: string
+          livemode?: boolean
+          payload?: Json | null
+          processed_at?: string | null
+          received_at?: string
+          status?: string
+          type: string
+        }
+        Update: {
+          account_id?: string | null
+          error?: string | null
+          id?: string
+          last_attempt_at?: string
+          livemode?: boolean
+          payload?: Json | null
+          processed_at?: string | null
+          received_at?: string
+          status?: string
+          type?: string
+        }
+        Relationships: []
+      }
       user_addresses: {
         Row: {
           city: string
@@ -1544,6 +2387,7 @@ export type Database = {
           created_at: string | null
           id: string
           is_default: boolean | null
+          label: string
           postal_code: string | null
           street_address: string
           title: string
@@ -1557,6 +2401,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           is_default?: boolean | null
+          label?: string
           postal_code?: string | null
           street_address: string
           title: string
@@ -1570,6 +2415,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           is_default?: boolean | null
+          label?: string
           postal_code?: string | null
           street_address?: string
           title?: string
@@ -1628,6 +2474,7 @@ export type Database = {
           current_period_end: string | null
           current_period_start: string | null
           id: string
+          last_event_at: string | null
           price_id: string | null
           status: Database["public"]["Enums"]["subscription_status"]
           stripe_customer_id: string | null
@@ -1643,6 +2490,7 @@ export type Database = {
           current_period_end?: string | null
           current_period_start?: string | null
           id?: string
+          last_event_at?: string | null
           price_id?: string | null
           status?: Database["public"]["Enums"]["subscription_status"]
           stripe_customer_id?: string | null
@@ -1658,6 +2506,7 @@ export type Database = {
           current_period_end?: string | null
           current_period_start?: string | null
           id?: string
+          last_event_at?: string | null
           price_id?: string | null
           status?: Database["public"]["Enums"]["subscription_status"]
           stripe_customer_id?: string | null
@@ -1677,6 +2526,70 @@ export type Database = {
           },
         ]
       }
+      verification_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          document_id: string | null
+          from_status: string | null
+          id: string
+          metadata: Json
+          provider_id: string
+          reason: string | null
+          target: string
+          to_status: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          document_id?: string | null
+          from_status?: string | null
+          id?: string
+          metadata?: Json
+          provider_id: string
+          reason?: string | null
+          target: string
+          to_status: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          document_id?: string | null
+          from_status?: string | null
+          id?: string
+          metadata?: Json
+          provider_id?: string
+          reason?: string | null
+          target?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verification_audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "verification_audit_log_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "provider_verification_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "verification_audit_log_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       geography_columns: {
@@ -1886,6 +2799,19 @@ export type Database = {
             }
             Returns: string
           }
+      booking_allows_live_location: {
+        Args: { p_booking_id: string }
+        Returns: boolean
+      }
+      booking_slot_range: {
+        Args: {
+          p_booking_date: string
+          p_buffer_minutes?: number
+          p_end_time: string
+          p_start_time: string
+        }
+        Returns: unknown
+      }
       calculate_deposit_amount: {
         Args: { base_amount: number; service_id: string }
         Returns: number
@@ -2002,6 +2928,28 @@ export type Database = {
           role: string
         }[]
       }
+      find_booking_conflict: {
+        Args: {
+          p_booking_date: string
+          p_buffer_minutes?: number
+          p_end_time: string
+          p_exclude_booking_id?: string
+          p_provider_id: string
+          p_start_time: string
+        }
+        Returns: string
+      }
+      find_sos_candidates: {
+        Args: { p_limit: number; p_radius_km: number; p_request_id: string }
+        Returns: {
+          availability_status: Database["public"]["Enums"]["user_availability"]
+          distance_km: number
+          provider_id: string
+          rank_score: number
+          rating: number
+          service_id: string
+        }[]
+      }
       geometry: { Args: { "": string }; Returns: unknown }
       geometry_above: {
         Args: { geom1: unknown; geom2: unknown }
@@ -2100,6 +3048,13 @@ export type Database = {
         Returns: boolean
       }
       geomfromewkt: { Args: { "": string }; Returns: unknown }
+      get_booking_destination: {
+        Args: { p_booking_id: string }
+        Returns: {
+          latitude: number
+          longitude: number
+        }[]
+      }
       get_current_user_role: { Args: never; Returns: string }
       get_customers_with_booking_stats: {
         Args: { p_limit?: number; p_offset?: number }
@@ -2135,6 +3090,23 @@ export type Database = {
           title: string
         }[]
       }
+      get_or_create_booking_conversation: {
+        Args: { p_booking_id: string }
+        Returns: {
+          booking_id: string | null
+          created_at: string | null
+          customer_id: string | null
+          id: string
+          last_message_at: string | null
+          provider_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "conversations"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       get_orphaned_auth_users: {
         Args: never
         Returns: {
@@ -2169,6 +3141,10 @@ export type Database = {
           total_steps: number
         }[]
       }
+      get_providers_requiring_reverification: {
+        Args: { p_provider_ids: string[] }
+        Returns: string[]
+      }
       get_providers_with_coordinates:
         | {
             Args: {
@@ -2210,6 +3186,13 @@ export type Database = {
               total_reviews: number
             }[]
           }
+      get_unread_message_counts: {
+        Args: never
+        Returns: {
+          conversation_id: string
+          unread_count: number
+        }[]
+      }
       gettransactionid: { Args: never; Returns: unknown }
       increment_cross_device_access: {
         Args: { p_user_id: string }
@@ -2220,6 +3203,11 @@ export type Database = {
         Returns: boolean
       }
       longtransactionsenabled: { Args: never; Returns: boolean }
+      mark_all_notifications_read: { Args: never; Returns: number }
+      mark_conversation_read: {
+        Args: { p_conversation_id: string }
+        Returns: number
+      }
       mark_notification_read: {
         Args: { p_notification_id: string }
         Returns: boolean
@@ -2277,6 +3265,10 @@ export type Database = {
           status: string
         }[]
       }
+      provider_distance_km: {
+        Args: { p_point: unknown; p_provider_id: string }
+        Returns: number
+      }
       release_step_lock: {
         Args: { p_session_id: string; p_step_number: number }
         Returns: undefined
@@ -2951,6 +3943,15 @@ export type Database = {
         | "payment_received"
         | "review_request"
         | "general"
+        | "booking_expired"
+        | "new_review"
+        | "provider_response"
+        | "booking_rescheduled"
+        | "booking_series"
+        | "payment_dispute"
+        | "sos_request"
+        | "verification_update"
+        | "document_expiry"
       payment_intent_status:
         | "requires_payment_method"
         | "requires_confirmation"
@@ -2966,6 +3967,7 @@ export type Database = {
         | "refunded"
         | "funds_held_in_escrow"
         | "payout_completed"
+        | "disputed"
       payout_status: "pending" | "processing" | "completed" | "failed"
       price_type: "fixed" | "hourly"
       subscription_status:
@@ -3140,6 +4142,15 @@ export const Constants = {
         "payment_received",
         "review_request",
         "general",
+        "booking_expired",
+        "new_review",
+        "provider_response",
+        "booking_rescheduled",
+        "booking_series",
+        "payment_dispute",
+        "sos_request",
+        "verification_update",
+        "document_expiry",
       ],
       payment_intent_status: [
         "requires_payment_method",
@@ -3157,6 +4168,7 @@ export const Constants = {
         "refunded",
         "funds_held_in_escrow",
         "payout_completed",
+        "disputed",
       ],
       payout_status: ["pending", "processing", "completed", "failed"],
       price_type: ["fixed", "hourly"],
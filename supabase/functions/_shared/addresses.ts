@@ -0,0 +1,101 @@
+/**
+ * Service locations for bookings
+ * Customers pick a saved address (user_addresses, geocoded when it was saved) and the
+ * booking copies its text and coordinates. Free-text addresses from older app builds
+ * are geocoded here so bookings.service_coordinates is filled in either way.
+ * Coordinates are written as WKT (POINT(lng lat)) or passed through as the EWKB hex
+ * PostgREST returns for geography columns - PostGIS accepts both.
+ */
+
+export class AddressError extends Error {
+  constructor(
+    public code: 'ADDRESS_NOT_FOUND',
+    message: string,
+    public status = 404,
+  ) {
+    super(message);
+  }
+}
+
+export interface ServiceLocation {
+  address: string | null;
+  coordinates: string | null;
+  addressId: string | null;
+}
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+
+/**
+ * One-line address shown on bookings ("12 High St, London, SW1A 1AA")
+ */
+export function formatAddress(address: {
+  street_address?: string | null;
+  city?: string | null;
+  postal_code?: string | null;
+}): string {
+  return [address.street_address, address.city, address.postal_code]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Look up a free-text address - WKT point, or null when it can't be found
+ */
+export async function geocodeAddressText(address: string): Promise<string | null> {
+  try {
+    const url = `${NOMINATIM_URL}?format=json&q=${encodeURIComponent(address)}&limit=1`;
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'ZOVA-App/1.0' }, // Required by Nominatim
+    });
+    if (!response.ok) {
+      console.error('[Addresses] Geocoding API error:', response.status);
+      return null;
+    }
+
+    const [result] = await response.json();
+    if (!result) return null;
+
+    return `POINT(${parseFloat(result.lon)} ${parseFloat(result.lat)})`;
+  } catch (error) {
+    console.error('[Addresses] Geocoding failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Where a booking takes place
+ * A saved address must belong to the customer; a free-text address is geocoded
+ * best-effort (the booking is already paid for, so a miss doesn't block it).
+ */
+export async function resolveServiceLocation(
+  supabase: any,
+  customerId: string,
+  options: { addressId?: string | null; addressText?: string | null },
+): Promise<ServiceLocation> {
+  if (options.addressId) {
+    const { data: saved } = await supabase
+      .from('user_addresses')
+      .select('id, street_address, city, postal_code, coordinates')
+      .eq('id', options.addressId)
+      .eq('user_id', customerId)
+      .maybeSingle();
+
+    if (!saved) {
+      throw new AddressError('ADDRESS_NOT_FOUND', 'Saved address not found');
+    }
+
+    return {
+      address: formatAddress(saved),
+      coordinates: saved.coordinates || (await geocodeAddressText(formatAddress(saved))),
+      addressId: saved.id,
+    };
+  }
+
+  const address = options.addressText?.trim() || null;
+  return {
+    address,
+    coordinates: address ? await geocodeAddressText(address) : null,
+    addressId: null,
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Server-side slot validation for a provider
+ * Same rules as create-booking / get-provider-availability:
+ * - the day is enabled in provider_schedules and the slot fits inside its hours
+ * - the date isn't covered by a provider_blackouts range
+ * - no overlap with the provider's pending / confirmed / in-progress bookings,
+ *   including travel buffers (find_booking_conflict - the same check the
+ *   bookings trigger enforces on write)
+ * - the slot is in the future (provider's local time)
+ */
+
+import { resolveTimeZone, zonedTimeToUtc } from './timezone.ts';
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface SlotRequest {
+  providerId: string;
+  bookingDate: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  durationMinutes: number;
+  // Travel time blocked after the slot (house calls)
+  bufferMinutes?: number;
+  // Ignore this booking when checking for overlaps (rescheduling itself)
+  excludeBookingId?: string;
+  providerTimeZone?: string | null;
+}
+
+export type SlotValidation =
+  | { available: true; endTime: string }
+  | { available: false; code: 'outside_schedule' | 'blackout' | 'conflict' | 'in_past' | 'invalid'; error: string };
+
+export function addMinutesToTime(time: string, minutes: number): string {
+  const [hours, mins] = time.split(':').map(Number);
+  const totalMinutes = hours * 60 + mins + minutes;
+  const newHours = Math.floor(totalMinutes / 60);
+  const newMinutes = totalMinutes % 60;
+  return `${String(newHours).padStart(2, '0')}:${String(newMinutes).padStart(2, '0')}`;
+}
+
+export async function validateProviderSlot(supabase: any, request: SlotRequest): Promise<SlotValidation> {
+  const { providerId, bookingDate, durationMinutes, excludeBookingId } = request;
+  const startTime = request.startTime.slice(0, 5);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(bookingDate) || !/^\d{2}:\d{2}$/.test(startTime)) {
+    return { available: false, code: 'invalid', error: 'Invalid date or time' };
+  }
+
+  const endTime = addMinutesToTime(startTime, durationMinutes || 60);
+
+  const startAt = zonedTimeToUtc(bookingDate, startTime, resolveTimeZone(request.providerTimeZone));
+  if (startAt.getTime() <= Date.now()) {
+    return { available: false, code: 'in_past', error: 'The selected time has already passed' };
+  }
+
+  // Regular weekly schedule
+  const { data: scheduleRecord } = await supabase
+    .from('provider_schedules')
+    .select('schedule_data')
+    .eq('provider_id', providerId)
+    .maybeSingle();
+
+  const dayName = DAY_NAMES[new Date(`${bookingDate}T00:00:00Z`).getUTCDay()];
+  const daySchedule = scheduleRecord?.schedule_data?.[dayName];
+
+  if (!daySchedule || !daySchedule.enabled) {
+    return { available: false, code: 'outside_schedule', error: `Provider is not available on this day (${dayName})` };
+  }
+
+  if (startTime < daySchedule.start || endTime > daySchedule.end) {
+    return { available: false, code: 'outside_schedule', error: 'Requested time is outside provider\'s available hours' };
+  }
+
+  // Blackout date ranges
+  const { data: blackouts, error: blackoutsError } = await supabase
+    .from('provider_blackouts')
+    .select('id')
+    .eq('provider_id', providerId)
+    .lte('start_date', bookingDate)
+    .gte('end_date', bookingDate)
+    .limit(1);
+
+  if (blackoutsError) {
+    console.error('[Availability] Error checking provider blackouts:', blackoutsError);
+  } else if (blackouts && blackouts.length > 0) {
+    return { available: false, code: 'blackout', error: 'Provider is not available on this date' };
+  }
+
+  // Overlapping bookings
+  const { data: conflictId, error: conflictError } = await supabase.rpc('find_booking_conflict', {
+    p_provider_id: providerId,
+    p_booking_date: bookingDate,
+    p_start_time: startTime,
+    p_end_time: endTime,
+    p_buffer_minutes: request.bufferMinutes || 0,
+    p_exclude_booking_id: excludeBookingId || null,
+  });
+
+  if (conflictError) {
+    throw new Error(`Unable to verify availability: ${conflictError.message}`);
+  }
+
+  if (conflictId) {
+    return { available: false, code: 'conflict', error: 'This time slot is already booked' };
+  }
+
+  return { available: true, endTime };
+}
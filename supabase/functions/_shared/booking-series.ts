@@ -0,0 +1,137 @@
+/**
+ * Recurring booking series
+ * - generateOccurrenceDates: dates for a weekly / fortnightly / monthly series
+ * - createBookingSeries: series row + occurrences, each future date checked against
+ *   the provider's schedule, blackouts and existing bookings (validateProviderSlot)
+ */
+
+import { validateProviderSlot } from './availability.ts';
+
+export type SeriesFrequency = 'weekly' | 'fortnightly' | 'monthly';
+
+export const SERIES_FREQUENCIES: SeriesFrequency[] = ['weekly', 'fortnightly', 'monthly'];
+export const MIN_SERIES_OCCURRENCES = 2;
+export const MAX_SERIES_OCCURRENCES = 26;
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Occurrence dates starting with startDate (YYYY-MM-DD).
+ * Monthly series keep the day of month, clamped to shorter months (31st -> 30th / 28th).
+ */
+export function generateOccurrenceDates(startDate: string, frequency: SeriesFrequency, count: number): string[] {
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const dates: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (frequency === 'monthly') {
+      const year = start.getUTCFullYear();
+      const month = start.getUTCMonth() + i;
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      dates.push(toDateString(new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay)))));
+    } else {
+      const stepDays = frequency === 'weekly' ? 7 : 14;
+      dates.push(toDateString(new Date(start.getTime() + i * stepDays * 24 * 60 * 60 * 1000)));
+    }
+  }
+
+  return dates;
+}
+
+export interface CreateSeriesParams {
+  customerId: string;
+  providerId: string;
+  serviceId: string;
+  frequency: SeriesFrequency;
+  occurrenceCount: number;
+  startDate: string;
+  startTime: string; // HH:MM
+  durationMinutes: number;
+  bufferMinutes?: number;
+  serviceAddress?: string | null;
+  serviceCoordinates?: string | null;
+  customerNotes?: string | null;
+  paymentMethodId?: string | null;
+  providerTimeZone?: string | null;
+  // Booking already created for the first occurrence
+  firstBookingId: string;
+}
+
+export async function createBookingSeries(supabase: any, params: CreateSeriesParams) {
+  const startTime = params.startTime.slice(0, 5);
+
+  const { data: series, error: seriesError } = await supabase
+    .from('booking_series')
+    .insert({
+      customer_id: params.customerId,
+      provider_id: params.providerId,
+      service_id: params.serviceId,
+      frequency: params.frequency,
+      start_date: params.startDate,
+      start_time: startTime,
+      occurrence_count: params.occurrenceCount,
+      service_address: params.serviceAddress || null,
+      service_coordinates: params.serviceCoordinates || null,
+      customer_notes: params.customerNotes || null,
+      stripe_payment_method_id: params.paymentMethodId || null,
+    })
+    .select()
+    .single();
+
+  if (seriesError || !series) {
+    throw new Error(`Failed to create booking series: ${seriesError?.message}`);
+  }
+
+  const dates = generateOccurrenceDates(params.startDate, params.frequency, params.occurrenceCount);
+  const occurrences = [];
+
+  for (const [index, date] of dates.entries()) {
+    if (index === 0) {
+      occurrences.push({
+        series_id: series.id,
+        occurrence_index: 0,
+        occurrence_date: date,
+        start_time: startTime,
+        status: 'booked',
+        booking_id: params.firstBookingId,
+      });
+      continue;
+    }
+
+    // Days the provider can't do are flagged now so the customer sees them straight away.
+    // Everything else is re-checked when process-booking-series books it.
+    const slot = await validateProviderSlot(supabase, {
+      providerId: params.providerId,
+      bookingDate: date,
+      startTime,
+      durationMinutes: params.durationMinutes,
+      bufferMinutes: params.bufferMinutes,
+      providerTimeZone: params.providerTimeZone,
+    });
+
+    occurrences.push({
+      series_id: series.id,
+      occurrence_index: index,
+      occurrence_date: date,
+      start_time: startTime,
+      status: slot.available ? 'scheduled' : 'unavailable',
+      failure_reason: slot.available ? null : slot.error,
+    });
+  }
+
+  const { data: insertedOccurrences, error: occurrencesError } = await supabase
+    .from('booking_series_occurrences')
+    .insert(occurrences)
+    .select('id, occurrence_index, occurrence_date, start_time, status, failure_reason');
+
+  if (occurrencesError) {
+    throw new Error(`Failed to create series occurrences: ${occurrencesError.message}`);
+  }
+
+  await supabase
+    .from('bookings')
+    .update({ series_id: series.id })
+    .eq('id', params.firstBookingId);
+
+  return { series, occurrences: insertedOccurrences || [] };
+}
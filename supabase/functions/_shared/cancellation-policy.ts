@@ -0,0 +1,79 @@
+/**
+ * Tiered cancellation policy
+ *
+ * - Provider-initiated, or the provider never accepted: full refund
+ * - More than windowHours before start: full refund
+ * - Inside the window: feePercentage of the base amount is kept as a late cancellation fee
+ * - Booking already started: no refund
+ */
+
+export const DEFAULT_CANCELLATION_WINDOW_HOURS = 48;
+export const DEFAULT_CANCELLATION_FEE_PERCENTAGE = 50;
+
+export type CancellationTier = 'full' | 'partial' | 'none';
+export type CancellationInitiator = 'customer' | 'provider';
+
+export interface CancellationPolicyInput {
+  totalAmount: number;
+  baseAmount?: number | null;
+  feePercentage?: number | null;
+  windowHours?: number | null;
+  startAt: Date;
+  now?: Date;
+  initiatedBy: CancellationInitiator;
+  bookingStatus: string;
+}
+
+export interface CancellationQuote {
+  tier: CancellationTier;
+  refundAmount: number;
+  feeAmount: number;
+  hoursUntilStart: number;
+  windowHours: number;
+  feePercentage: number;
+  reason: string;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export function calculateCancellationRefund(input: CancellationPolicyInput): CancellationQuote {
+  const now = input.now ?? new Date();
+  const totalAmount = roundMoney(Number(input.totalAmount) || 0);
+  const baseAmount = roundMoney(Number(input.baseAmount ?? input.totalAmount) || 0);
+  const windowHours = input.windowHours ?? DEFAULT_CANCELLATION_WINDOW_HOURS;
+  const feePercentage = Math.min(100, Math.max(0, input.feePercentage ?? DEFAULT_CANCELLATION_FEE_PERCENTAGE));
+  const hoursUntilStart = (input.startAt.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+  const quote = (tier: CancellationTier, feeAmount: number, reason: string): CancellationQuote => ({
+    tier,
+    feeAmount: roundMoney(feeAmount),
+    refundAmount: roundMoney(totalAmount - feeAmount),
+    hoursUntilStart: Math.round(hoursUntilStart * 10) / 10,
+    windowHours,
+    feePercentage,
+    reason,
+  });
+
+  if (input.initiatedBy === 'provider') {
+    return quote('full', 0, 'Cancelled by the provider');
+  }
+
+  if (input.bookingStatus === 'pending') {
+    return quote('full', 0, 'The provider had not accepted the booking yet');
+  }
+
+  if (hoursUntilStart <= 0) {
+    return quote('none', totalAmount, 'The booking has already started');
+  }
+
+  if (hoursUntilStart > windowHours) {
+    return quote('full', 0, `Cancelled more than ${windowHours} hours before the start time`);
+  }
+
+  const feeAmount = Math.min(totalAmount, baseAmount * (feePercentage / 100));
+  return quote(
+    feeAmount > 0 ? 'partial' : 'full',
+    feeAmount,
+    `Cancelled within ${windowHours} hours of the start time - ${feePercentage}% cancellation fee`
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Booking disputes (chargebacks)
+ * - stripe-webhook records charge.dispute.* events in booking_disputes and holds
+ *   the provider's payout while the dispute is open
+ * - evidence is gathered from our own records (booking timeline, messages,
+ *   completion, review) and sent to Stripe by submit-dispute-evidence
+ */
+
+export const OPEN_DISPUTE_STATUSES = ['warning_needs_response', 'warning_under_review', 'needs_response', 'under_review'];
+
+// Statuses where Stripe still accepts evidence
+export const RESPONDABLE_DISPUTE_STATUSES = ['warning_needs_response', 'needs_response'];
+
+// Stripe caps the combined evidence text at 150,000 characters - keep well under
+const MAX_TEXT_FIELD_LENGTH = 20000;
+
+export interface DisputeEvidence {
+  service: { title: string; description: string | null; date: string; start_time: string; address: string | null };
+  customer: { name: string; email: string | null };
+  timeline: Array<{ at: string; event: string }>;
+  messages: Array<{ at: string; from: 'customer' | 'provider'; text: string }>;
+  completed_at: string | null;
+  review: { rating: number; comment: string | null; created_at: string | null } | null;
+  cancellation_policy: string | null;
+  gathered_at: string;
+}
+
+/**
+ * Everything we know about the booking that supports the provider's case
+ */
+export async function gatherDisputeEvidence(supabase: any, bookingId: string): Promise<DisputeEvidence> {
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select(`
+      id,
+      customer_id,
+      provider_id,
+      booking_date,
+      start_time,
+      status,
+      service_address,
+      created_at,
+      funds_held_at,
+      auto_confirmed,
+      cancelled_at,
+      completed_at,
+      customer:profiles!bookings_customer_id_fkey (
+        first_name,
+        last_name,
+        email
+      ),
+      service:provider_services!bookings_service_id_fkey (
+        title,
+        description,
+        cancellation_policy
+      )
+    `)
+    .eq('id', bookingId)
+    .single();
+
+  if (error || !booking) {
+    throw new Error(`Booking not found for dispute evidence: ${error?.message}`);
+  }
+
+  const customer = Array.isArray(booking.customer) ? booking.customer[0] : booking.customer;
+  const service = Array.isArray(booking.service) ? booking.service[0] : booking.service;
+
+  const timeline: DisputeEvidence['timeline'] = [
+    { at: booking.created_at, event: 'Booking requested and paid by the customer' },
+  ];
+
+  if (booking.auto_confirmed) {
+    timeline.push({ at: booking.created_at, event: 'Booking confirmed automatically' });
+  }
+
+  const { data: reschedules } = await supabase
+    .from('booking_reschedule_requests')
+    .select('proposed_by_role, proposed_date, proposed_start_time, status, created_at, responded_at')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true });
+
+  for (const request of reschedules || []) {
+    timeline.push({
+      at: request.created_at,
+      event: `Reschedule to ${request.proposed_date} ${request.proposed_start_time.slice(0, 5)} proposed by the ${request.proposed_by_role}`,
+    });
+    if (request.responded_at && request.status !== 'pending') {
+      timeline.push({ at: request.responded_at, event: `Reschedule ${request.status}` });
+    }
+  }
+
+  // Older bookings have no completed_at - the payout ledger row is created on completion
+  let completedAt: string | null = booking.completed_at;
+  if (!completedAt && booking.status === 'completed') {
+    const { data: payout } = await supabase
+      .from('provider_payouts')
+      .select('created_at')
+      .eq('booking_id', bookingId)
+      .maybeSingle();
+    completedAt = payout?.created_at || null;
+  }
+
+  if (completedAt) {
+    timeline.push({ at: completedAt, event: 'Service marked as completed by the provider' });
+  }
+  if (booking.cancelled_at) {
+    timeline.push({ at: booking.cancelled_at, event: 'Booking cancelled' });
+  }
+
+  const { data: conversation } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('booking_id', bookingId)
+    .maybeSingle();
+
+  let messages: DisputeEvidence['messages'] = [];
+  if (conversation) {
+    const { data: rows } = await supabase
+      .from('messages')
+      .select('content, sender_id, created_at')
+      .eq('conversation_id', conversation.id)
+      .order('created_at', { ascending: true })
+      .limit(200);
+
+    messages = (rows || []).map((message: any) => ({
+      at: message.created_at,
+      from: message.sender_id === booking.provider_id ? 'provider' : 'customer',
+      text: message.content,
+    }));
+  }
+
+  const { data: review } = await supabase
+    .from('reviews')
+    .select('rating, comment, created_at')
+    .eq('booking_id', bookingId)
+    .maybeSingle();
+
+  if (review) {
+    timeline.push({ at: review.created_at, event: `Customer left a ${review.rating}-star review` });
+  }
+
+  timeline.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  return {
+    service: {
+      title: service?.title || 'Service',
+      description: service?.description || null,
+      date: booking.booking_date,
+      start_time: booking.start_time,
+      address: booking.service_address,
+    },
+    customer: {
+      name: `${customer?.first_name || ''} ${customer?.last_name || ''}`.trim() || 'Customer',
+      email: customer?.email || null,
+    },
+    timeline,
+    messages,
+    completed_at: completedAt,
+    review: review || null,
+    cancellation_policy: service?.cancellation_policy || null,
+    gathered_at: new Date().toISOString(),
+  };
+}
+
+const truncate = (text: string) =>
+  text.length > MAX_TEXT_FIELD_LENGTH ? `${text.slice(0, MAX_TEXT_FIELD_LENGTH - 3)}...` : text;
+
+/**
+ * Stripe dispute update params (evidence[...]) for the gathered evidence
+ */
+export function toStripeEvidenceParams(evidence: DisputeEvidence, providerStatement?: string | null): URLSearchParams {
+  const params = new URLSearchParams();
+
+  params.append('evidence[product_description]', truncate(
+    [evidence.service.title, evidence.service.description].filter(Boolean).join(' - ')
+  ));
+  params.append('evidence[customer_name]', evidence.customer.name);
+  if (evidence.customer.email) {
+    params.append('evidence[customer_email_address]', evidence.customer.email);
+  }
+  params.append('evidence[service_date]', evidence.service.date);
+
+  params.append('evidence[access_activity_log]', truncate(
+    evidence.timeline.map((entry) => `${entry.at}: ${entry.event}`).join('\n')
+  ));
+
+  if (evidence.cancellation_policy) {
+    params.append('evidence[cancellation_policy_disclosure]', truncate(evidence.cancellation_policy));
+  }
+
+  const sections: string[] = [];
+  if (providerStatement?.trim()) {
+    sections.push(`Provider statement:\n${providerStatement.trim()}`);
+  }
+  if (evidence.completed_at) {
+    sections.push(`Service completed: ${evidence.completed_at}${evidence.service.address ? ` at ${evidence.service.address}` : ''}`);
+  }
+  if (evidence.review) {
+    sections.push(`Customer review (${evidence.review.rating}/5, ${evidence.review.created_at}):\n${evidence.review.comment || 'No comment'}`);
+  }
+  if (evidence.messages.length > 0) {
+    sections.push(`Messages between customer and provider:\n${evidence.messages
+      .map((message) => `[${message.at}] ${message.from}: ${message.text}`)
+      .join('\n')}`);
+  }
+
+  if (sections.length > 0) {
+    params.append('evidence[uncategorized_text]', truncate(sections.join('\n\n')));
+  }
+
+  return params;
+}
@@ -0,0 +1,177 @@
+/**
+ * Customer wallet (customer_payment_methods)
+ * Cards saved through manage-payment-methods (SetupIntent) or a booking payment that
+ * saved the card. Stripe is the source of truth - payment_method.* webhooks keep the
+ * table in step with cards attached, updated or removed outside the app.
+ * Card details shown in the app (brand, last4, expiry) live in metadata.
+ */
+
+import Stripe from 'https://esm.sh/stripe@14.21.0';
+import type { StripeEventHandlers } from './stripe-events.ts';
+
+export interface CardMetadata {
+  brand: string | null;
+  last4: string | null;
+  exp_month: number | null;
+  exp_year: number | null;
+  wallet: string | null; // apple_pay / google_pay when the card came from a wallet
+}
+
+export function cardMetadata(paymentMethod: Stripe.PaymentMethod): CardMetadata {
+  const card = paymentMethod.card;
+  return {
+    brand: card?.brand || null,
+    last4: card?.last4 || null,
+    exp_month: card?.exp_month || null,
+    exp_year: card?.exp_year || null,
+    wallet: card?.wallet?.type || null,
+  };
+}
+
+const customerIdOf = (paymentMethod: Stripe.PaymentMethod) =>
+  typeof paymentMethod.customer === 'string' ? paymentMethod.customer : paymentMethod.customer?.id || null;
+
+/**
+ * Profile for a Stripe customer
+ */
+export async function findUserForStripeCustomer(supabase: any, stripeCustomerId: string | null): Promise<string | null> {
+  if (!stripeCustomerId) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('stripe_customer_id', stripeCustomerId)
+    .maybeSingle();
+
+  return profile?.id || null;
+}
+
+/**
+ * Add (or refresh) a card in the customer's wallet
+ * The first card saved becomes the default.
+ */
+export async function savePaymentMethod(supabase: any, userId: string, paymentMethod: Stripe.PaymentMethod) {
+  const { data: existing } = await supabase
+    .from('customer_payment_methods')
+    .select('id, stripe_payment_method_id')
+    .eq('customer_id', userId);
+
+  const isKnown = (existing || []).some((row: any) => row.stripe_payment_method_id === paymentMethod.id);
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('customer_payment_methods')
+    .upsert({
+      customer_id: userId,
+      stripe_payment_method_id: paymentMethod.id,
+      type: paymentMethod.type,
+      metadata: cardMetadata(paymentMethod),
+      ...(isKnown ? {} : { is_default: (existing || []).length === 0, created_at: now }),
+      updated_at: now,
+    }, {
+      onConflict: 'stripe_payment_method_id'
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save payment method: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Make one of the customer's cards the default (one default per customer)
+ */
+export async function setDefaultPaymentMethod(supabase: any, userId: string, stripePaymentMethodId: string) {
+  const now = new Date().toISOString();
+
+  const { error: clearError } = await supabase
+    .from('customer_payment_methods')
+    .update({ is_default: false, updated_at: now })
+    .eq('customer_id', userId)
+    .neq('stripe_payment_method_id', stripePaymentMethodId)
+    .eq('is_default', true);
+
+  if (clearError) {
+    throw new Error(`Failed to update default payment method: ${clearError.message}`);
+  }
+
+  const { error } = await supabase
+    .from('customer_payment_methods')
+    .update({ is_default: true, updated_at: now })
+    .eq('customer_id', userId)
+    .eq('stripe_payment_method_id', stripePaymentMethodId);
+
+  if (error) {
+    throw new Error(`Failed to update default payment method: ${error.message}`);
+  }
+}
+
+/**
+ * Drop a card from the wallet - if it was the default, the newest remaining card takes over
+ */
+export async function removePaymentMethodRecord(supabase: any, stripePaymentMethodId: string) {
+  const { data: removed, error } = await supabase
+    .from('customer_payment_methods')
+    .delete()
+    .eq('stripe_payment_method_id', stripePaymentMethodId)
+    .select('customer_id, is_default')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to remove payment method: ${error.message}`);
+  }
+
+  if (!removed?.is_default) return;
+
+  const { data: next } = await supabase
+    .from('customer_payment_methods')
+    .select('stripe_payment_method_id')
+    .eq('customer_id', removed.customer_id)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (next) {
+    await setDefaultPaymentMethod(supabase, removed.customer_id, next.stripe_payment_method_id);
+  }
+}
+
+/**
+ * payment_method.* handlers for the Stripe event router
+ */
+export function paymentMethodEventHandlers(supabase: any): StripeEventHandlers {
+  return {
+    'payment_method.attached': async (event) => {
+      const paymentMethod = event.data.object;
+      const userId = await findUserForStripeCustomer(supabase, customerIdOf(paymentMethod));
+      if (!userId) {
+        console.log(`[PaymentMethods] ⚠️ No profile for customer of ${paymentMethod.id}`);
+        return;
+      }
+      await savePaymentMethod(supabase, userId, paymentMethod);
+      console.log(`[PaymentMethods] ✅ Saved ${paymentMethod.id} for ${userId}`);
+    },
+    'payment_method.updated': (event) => refreshCardDetails(supabase, event.data.object),
+    'payment_method.automatically_updated': (event) => refreshCardDetails(supabase, event.data.object),
+    // Detached methods no longer have a customer - matched on the payment method id
+    'payment_method.detached': async (event) => {
+      await removePaymentMethodRecord(supabase, event.data.object.id);
+      console.log(`[PaymentMethods] ✅ Removed ${event.data.object.id}`);
+    },
+  };
+}
+
+// Card networks push new expiry dates / numbers for saved cards
+async function refreshCardDetails(supabase: any, paymentMethod: Stripe.PaymentMethod) {
+  const { error } = await supabase
+    .from('customer_payment_methods')
+    .update({ metadata: cardMetadata(paymentMethod), updated_at: new Date().toISOString() })
+    .eq('stripe_payment_method_id', paymentMethod.id);
+
+  if (error) {
+    throw new Error(`Failed to update payment method ${paymentMethod.id}: ${error.message}`);
+  }
+}
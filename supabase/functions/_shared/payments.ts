@@ -0,0 +1,318 @@
+import { buildQuote, loadServicePricing, PricingError, quoteMetadata, type PriceQuote } from './pricing.ts';
+import { AddressError, resolveServiceLocation } from './addresses.ts';
+import { checkServiceArea, ServiceAreaError } from './service-area.ts';
+
+/**
+ * Give a customer's money back for a booking that never went ahead
+ * - Uncaptured authorizations are cancelled (hold released)
+ * - Captured escrow payments are refunded in full
+ * - Already-cancelled or already-refunded PaymentIntents are left alone, so a caller
+ *   retrying after a lost database update gets action 'none' rather than an error
+ */
+
+export interface PaymentRelease {
+  action: 'canceled' | 'refunded' | 'none';
+  id?: string;
+}
+
+export async function releasePaymentIntent(
+  paymentIntentId: string,
+  stripeSecretKey: string,
+  reason: string,
+): Promise<PaymentRelease> {
+  const piResponse = await fetch(`https://api.stripe.com/v1/payment_intents/${paymentIntentId}?expand[]=latest_charge`, {
+    method: 'GET',
+    headers: { 'Authorization': `Bearer ${stripeSecretKey}` },
+  });
+
+  if (!piResponse.ok) {
+    const errorData = await piResponse.json();
+    throw new Error(`PaymentIntent retrieval failed: ${errorData.error?.message}`);
+  }
+
+  const paymentIntent = await piResponse.json();
+  console.log('[Payments] PaymentIntent status:', paymentIntentId, paymentIntent.status);
+
+  if (paymentIntent.status === 'canceled') {
+    return { action: 'none' };
+  }
+
+  if (paymentIntent.status === 'succeeded') {
+    if (paymentIntent.latest_charge?.refunded) {
+      return { action: 'none' };
+    }
+
+    const refundResponse = await fetch('https://api.stripe.com/v1/refunds', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${stripeSecretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Idempotency-Key': `refund-${paymentIntentId}`,
+      },
+      body: new URLSearchParams({
+        payment_intent: paymentIntentId,
+        'metadata[reason]': reason,
+      }),
+    });
+
+    if (!refundResponse.ok) {
+      const errorData = await refundResponse.json();
+      if (errorData.error?.code === 'charge_already_refunded') {
+        return { action: 'none' };
+      }
+      throw new Error(`Refund failed: ${errorData.error?.message}`);
+    }
+
+    const refund = await refundResponse.json();
+    return { action: 'refunded', id: refund.id };
+  }
+
+  // requires_capture / requires_payment_method / requires_action etc. can all be cancelled
+  const cancelResponse = await fetch(`https://api.stripe.com/v1/payment_intents/${paymentIntentId}/cancel`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${stripeSecretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      cancellation_reason: 'abandoned',
+    }),
+  });
+
+  if (!cancelResponse.ok) {
+    const errorData = await cancelResponse.json();
+    throw new Error(`PaymentIntent cancel failed: ${errorData.error?.message}`);
+  }
+
+  return { action: 'canceled', id: paymentIntentId };
+}
+
+export interface BookingChargeDetails {
+  serviceId: string;
+  providerId: string;
+  customerId: string;
+  isHouseCall?: boolean;
+  addressId?: string | null; // saved address for house calls
+  bookingSeriesId?: string;  // series occurrences use the location saved on the series
+  sosRequestId?: string;     // adds the request's pay-per-use fee
+}
+
+/**
+ * Server-side price quote for a booking payment
+ * House calls have to be inside the provider's service area (ServiceAreaError), and
+ * the SOS fee is read from the request - nothing here comes from the app.
+ * Throws PricingError / AddressError / ServiceAreaError.
+ */
+export async function quoteBookingCharge(supabase: any, details: BookingChargeDetails): Promise<PriceQuote> {
+  const service = await loadServicePricing(supabase, details.serviceId, details.providerId);
+
+  let area = null;
+  if (details.isHouseCall && (service.is_home_service || service.house_call_available)) {
+    let coordinates: string | null = null;
+    if (details.addressId) {
+      coordinates = (await resolveServiceLocation(supabase, details.customerId, { addressId: details.addressId })).coordinates;
+    } else if (details.bookingSeriesId) {
+      const { data: series } = await supabase
+        .from('booking_series')
+        .select('service_coordinates')
+        .eq('id', details.bookingSeriesId)
+        .eq('customer_id', details.customerId)
+        .maybeSingle();
+      coordinates = series?.service_coordinates || null;
+    }
+    area = await checkServiceArea(supabase, details.providerId, coordinates);
+  }
+
+  let sosFee = 0;
+  if (details.sosRequestId) {
+    const { data: sosRequest } = await supabase
+      .from('sos_requests')
+      .select('pay_per_use_fee')
+      .eq('id', details.sosRequestId)
+      .eq('customer_id', details.customerId)
+      .maybeSingle();
+    sosFee = sosRequest?.pay_per_use_fee || 0;
+  }
+
+  return buildQuote(service, {
+    customerId: details.customerId,
+    isHouseCall: details.isHouseCall,
+    travelFee: area?.travelFee,
+    distanceKm: area?.distanceKm,
+    sosFee,
+  });
+}
+
+/**
+ * Whether a card is in the customer's wallet - saved cards are only ever charged from there
+ */
+export async function isWalletCard(supabase: any, customerId: string, paymentMethodId: string): Promise<boolean> {
+  const { data: savedMethod } = await supabase
+    .from('customer_payment_methods')
+    .select('id')
+    .eq('customer_id', customerId)
+    .eq('stripe_payment_method_id', paymentMethodId)
+    .maybeSingle();
+
+  return !!savedMethod;
+}
+
+export interface BookingPaymentIntentOptions {
+  stripeCustomerId: string;
+  bookingId?: string;
+  bookingSeriesId?: string;
+  setupFutureUsage?: boolean; // save the card for later off-session charges (recurring series)
+  paymentMethodId?: string;   // saved card - confirmed off-session straight away
+}
+
+/**
+ * Stripe parameters for a booking PaymentIntent
+ * The full quoted amount with manual capture, and the quote breakdown as metadata -
+ * what capture-deposit and create-booking check the payment against.
+ */
+export function bookingPaymentIntentParams(quote: PriceQuote, options: BookingPaymentIntentOptions): URLSearchParams {
+  const params = new URLSearchParams({
+    amount: quote.totalAmount.toString(),
+    currency: quote.currency,
+    customer: options.stripeCustomerId,
+    capture_method: 'manual',
+    description: `Service booking - Full: £${(quote.totalAmount / 100).toFixed(2)}, Deposit: £${(quote.depositAmount / 100).toFixed(2)}`,
+  });
+
+  for (const [key, value] of Object.entries(quoteMetadata(quote))) {
+    params.append(`metadata[${key}]`, value);
+  }
+  if (options.bookingId) {
+    params.append('metadata[booking_id]', options.bookingId);
+  }
+  if (options.bookingSeriesId) {
+    params.append('metadata[booking_series_id]', options.bookingSeriesId);
+  }
+
+  params.append('automatic_payment_methods[enabled]', 'true');
+
+  if (options.setupFutureUsage) {
+    params.append('setup_future_usage', 'off_session');
+  }
+  // No Payment Sheet off-session, so no redirects
+  if (options.paymentMethodId) {
+    params.append('payment_method', options.paymentMethodId);
+    params.append('off_session', 'true');
+    params.append('confirm', 'true');
+    params.append('automatic_payment_methods[allow_redirects]', 'never');
+  }
+
+  return params;
+}
+
+export class SavedCardChargeError extends Error {
+  constructor(message: string, public customerMessage: string) {
+    super(message);
+  }
+}
+
+export interface SavedCardCharge extends BookingChargeDetails {
+  paymentMethodId: string;
+  isHouseCall: boolean;
+  releaseReason: string; // prefix for the Stripe metadata reason if the charge is abandoned
+}
+
+/**
+ * Charge a wallet card off-session and capture it into escrow - in-process, with the
+ * same quote and PaymentIntent create-payment-intent builds for the app.
+ * Anything short of a captured payment is released before SavedCardChargeError is thrown.
+ */
+export async function chargeWalletCard(
+  supabase: any,
+  stripeSecretKey: string,
+  charge: SavedCardCharge,
+): Promise<{ paymentIntent: any; quote: PriceQuote }> {
+  let quote: PriceQuote;
+  try {
+    quote = await quoteBookingCharge(supabase, charge);
+  } catch (error) {
+    if (error instanceof PricingError || error instanceof ServiceAreaError || error instanceof AddressError) {
+      throw new SavedCardChargeError(`Price quote failed: ${error.code}`, error.message);
+    }
+    throw error;
+  }
+
+  // 💳 Only cards still in the customer's wallet - removing a card stops its charges
+  if (!(await isWalletCard(supabase, charge.customerId, charge.paymentMethodId))) {
+    throw new SavedCardChargeError(
+      `Payment method ${charge.paymentMethodId} is not in the customer's wallet`,
+      'Your saved card is no longer available',
+    );
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('stripe_customer_id')
+    .eq('id', charge.customerId)
+    .maybeSingle();
+
+  if (!profile?.stripe_customer_id) {
+    throw new SavedCardChargeError('Customer has no Stripe customer', 'We couldn\'t charge your saved card');
+  }
+
+  const paymentIntentResponse = await fetch('https://api.stripe.com/v1/payment_intents', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${stripeSecretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: bookingPaymentIntentParams(quote, {
+      stripeCustomerId: profile.stripe_customer_id,
+      bookingSeriesId: charge.bookingSeriesId,
+      paymentMethodId: charge.paymentMethodId,
+    }),
+  });
+
+  let paymentIntent: any;
+  if (!paymentIntentResponse.ok) {
+    const errorData = await paymentIntentResponse.json().catch(() => ({}));
+
+    if (errorData.error?.type === 'card_error' && errorData.error?.code !== 'authentication_required') {
+      throw new SavedCardChargeError(
+        `Card declined: ${errorData.error.decline_code || errorData.error.code}`,
+        errorData.error.message || 'Your saved card was declined',
+      );
+    }
+
+    // 3D Secure leaves the PaymentIntent behind in requires_action - released below
+    paymentIntent = errorData.error?.payment_intent;
+    if (!paymentIntent) {
+      throw new SavedCardChargeError(
+        `PaymentIntent creation failed: ${errorData.error?.message || paymentIntentResponse.status}`,
+        'We couldn\'t charge your saved card',
+      );
+    }
+  } else {
+    paymentIntent = await paymentIntentResponse.json();
+  }
+
+  if (paymentIntent.status !== 'requires_capture') {
+    await releasePaymentIntent(paymentIntent.id, stripeSecretKey, `${charge.releaseReason}_payment_incomplete`).catch(() => null);
+    throw new SavedCardChargeError(
+      `PaymentIntent not authorized: ${paymentIntent.status}`,
+      'Your bank needs you to confirm the payment',
+    );
+  }
+
+  // ESCROW: capture the full amount straight away
+  const captureResponse = await fetch(`https://api.stripe.com/v1/payment_intents/${paymentIntent.id}/capture`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${stripeSecretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+  });
+
+  if (!captureResponse.ok) {
+    const errorData = await captureResponse.json();
+    await releasePaymentIntent(paymentIntent.id, stripeSecretKey, `${charge.releaseReason}_capture_failed`).catch(() => null);
+    throw new SavedCardChargeError(`Capture failed: ${errorData.error?.message}`, 'We couldn\'t charge your saved card');
+  }
+
+  return { paymentIntent: await captureResponse.json(), quote };
+}
@@ -0,0 +1,371 @@
+/**
+ * Provider payout ledger
+ * One provider_payouts row per completed booking (or cancelled booking that kept a
+ * cancellation fee), reconciled against Stripe:
+ * - pending:    row created, transfer not sent yet (or waiting for a retry)
+ * - processing: transfer landed in the provider's connected account, waiting for their bank payout
+ * - completed:  the Stripe payout carrying the transfer was paid to the provider's bank
+ * - failed:     transfer rejected / reversed, or the bank payout failed
+ *
+ * Rows with on_hold set (open dispute on the booking) are never transferred.
+ *
+ * Transfers are created here (complete-booking, cancel-booking, retry-provider-payouts); the
+ * transfer.* / payout.* webhooks in stripe-webhook move rows to their final state.
+ */
+
+export const MAX_TRANSFER_ATTEMPTS = 5;
+
+// Wait before the next attempt, indexed by attempts already made
+const RETRY_DELAYS_MINUTES = [15, 60, 6 * 60, 24 * 60];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export const PAYOUT_COLUMNS =
+  'id, booking_id, provider_id, amount, currency, status, stripe_transfer_id, expected_payout_date, transfer_attempts, on_hold';
+
+export interface PayoutRecord {
+  id: string;
+  booking_id: string;
+  provider_id: string;
+  amount: number | string;
+  currency: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  stripe_transfer_id: string | null;
+  expected_payout_date: string | null;
+  transfer_attempts: number;
+  on_hold: boolean;
+}
+
+export type TransferResult =
+  | { ok: true; transferId: string; expectedPayoutDate: string | null }
+  | { ok: false; error: string; willRetry: boolean };
+
+export interface TransferOptions {
+  stripeAccountId: string;
+  stripeSecretKey: string;
+  paymentIntentId?: string | null;
+}
+
+/**
+ * When the next attempt may run, or null once attempts are exhausted
+ */
+export function nextRetryAt(attempts: number, from = new Date()): string | null {
+  if (attempts >= MAX_TRANSFER_ATTEMPTS) return null;
+
+  const delay = RETRY_DELAYS_MINUTES[Math.min(attempts - 1, RETRY_DELAYS_MINUTES.length - 1)];
+  return new Date(from.getTime() + delay * 60 * 1000).toISOString();
+}
+
+/**
+ * The ledger row for a booking - created on first call, returned as-is afterwards
+ */
+export async function ensurePayoutRecord(
+  supabase: any,
+  booking: { id: string; provider_id: string; amount: number }
+): Promise<PayoutRecord> {
+  const { error: upsertError } = await supabase
+    .from('provider_payouts')
+    .upsert({
+      booking_id: booking.id,
+      provider_id: booking.provider_id,
+      amount: booking.amount,
+      currency: 'GBP',
+      status: 'pending',
+    }, { onConflict: 'booking_id', ignoreDuplicates: true });
+
+  if (upsertError) {
+    throw new Error(`Payout record failed: ${upsertError.message}`);
+  }
+
+  const { data: payout, error } = await supabase
+    .from('provider_payouts')
+    .select(PAYOUT_COLUMNS)
+    .eq('booking_id', booking.id)
+    .single();
+
+  if (error || !payout) {
+    throw new Error(`Payout record not found: ${error?.message}`);
+  }
+
+  return payout;
+}
+
+/**
+ * Freeze a booking's payout (open dispute), or release it with hold = null
+ * Released rows are picked up by retry-provider-payouts on its next run.
+ */
+export async function setPayoutHold(
+  supabase: any,
+  bookingId: string,
+  hold: { reason: string } | null
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('provider_payouts')
+    .update(hold
+      ? { on_hold: true, hold_reason: hold.reason, next_retry_at: null, updated_at: now }
+      : { on_hold: false, hold_reason: null, next_retry_at: now, updated_at: now })
+    .eq('booking_id', bookingId);
+
+  if (error) {
+    throw new Error(`Payout hold update failed: ${error.message}`);
+  }
+}
+
+/**
+ * Date the connected account's payout schedule will send the funds to the bank
+ * (YYYY-MM-DD), or null for manual payouts / unknown schedules.
+ * Replaced by the real arrival date once Stripe creates the payout.
+ */
+export async function estimatePayoutDate(
+  stripeAccountId: string,
+  stripeSecretKey: string,
+  from = new Date()
+): Promise<string | null> {
+  const response = await fetch(`https://api.stripe.com/v1/accounts/${stripeAccountId}`, {
+    headers: { 'Authorization': `Bearer ${stripeSecretKey}` },
+  });
+
+  if (!response.ok) return null;
+
+  const account = await response.json();
+  const schedule = account.settings?.payouts?.schedule;
+  if (!schedule || schedule.interval === 'manual') return null;
+
+  // Funds become available after the account's payout delay
+  const date = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+  date.setUTCDate(date.getUTCDate() + (schedule.delay_days || 0));
+
+  if (schedule.interval === 'weekly') {
+    const anchor = WEEKDAYS.indexOf(schedule.weekly_anchor);
+    while (anchor >= 0 && date.getUTCDay() !== anchor) {
+      date.setUTCDate(date.getUTCDate() + 1);
+    }
+  } else if (schedule.interval === 'monthly') {
+    const anchor = schedule.monthly_anchor || 1;
+    const daysIn = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    let year = date.getUTCFullYear();
+    let month = date.getUTCMonth();
+    if (date.getUTCDate() > Math.min(anchor, daysIn(year, month))) {
+      month += 1;
+      if (month > 11) {
+        month = 0;
+        year += 1;
+      }
+    }
+    date.setTime(Date.UTC(year, month, Math.min(anchor, daysIn(year, month))));
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Charge the transfer is funded from - lets it go through even when the
+ * platform's available balance is temporarily low
+ */
+async function findSourceCharge(
+  supabase: any,
+  bookingId: string,
+  paymentIntentId: string | null | undefined,
+  stripeSecretKey: string
+): Promise<string | undefined> {
+  let intentId = paymentIntentId;
+
+  if (!intentId) {
+    const { data: record } = await supabase
+      .from('payment_intents')
+      .select('stripe_payment_intent_id')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    intentId = record?.stripe_payment_intent_id;
+  }
+
+  if (!intentId) return undefined;
+
+  const response = await fetch(`https://api.stripe.com/v1/payment_intents/${intentId}`, {
+    headers: { 'Authorization': `Bearer ${stripeSecretKey}` },
+  });
+
+  if (!response.ok) {
+    console.warn('[Payouts] Could not fetch PaymentIntent:', intentId);
+    return undefined;
+  }
+
+  const paymentIntent = await response.json();
+  return paymentIntent.latest_charge || undefined;
+}
+
+/**
+ * Send a ledger row's amount to the provider's connected account
+ * - Claims the attempt first (transfer_attempts compare-and-set) so a retry run and
+ *   complete-booking can never both transfer the same payout
+ * - Retries look for a transfer an earlier attempt created before sending a new one,
+ *   and each attempt has its own Idempotency-Key
+ * - Failures are recorded with the next retry time
+ */
+export async function transferProviderPayout(
+  supabase: any,
+  payout: PayoutRecord,
+  options: TransferOptions
+): Promise<TransferResult> {
+  if (payout.on_hold) {
+    return { ok: false, error: 'Payout is on hold while a dispute is open', willRetry: true };
+  }
+
+  const attempt = (payout.transfer_attempts || 0) + 1;
+  const now = new Date();
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('provider_payouts')
+    .update({
+      transfer_attempts: attempt,
+      last_attempt_at: now.toISOString(),
+      next_retry_at: null,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', payout.id)
+    .eq('transfer_attempts', payout.transfer_attempts || 0)
+    .eq('on_hold', false)
+    .is('stripe_transfer_id', null)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) {
+    throw new Error(`Payout claim failed: ${claimError.message}`);
+  }
+
+  if (!claimed) {
+    // Another run holds this attempt - it records the outcome
+    return { ok: false, error: 'Payout is already being processed', willRetry: true };
+  }
+
+  // A retry after a lost response - adopt the transfer if the earlier attempt went through
+  if (attempt > 1) {
+    const existingResponse = await fetch(
+      `https://api.stripe.com/v1/transfers?transfer_group=booking_${payout.booking_id}&limit=10`,
+      { headers: { 'Authorization': `Bearer ${options.stripeSecretKey}` } }
+    );
+
+    if (existingResponse.ok) {
+      const { data: transfers } = await existingResponse.json();
+      const existing = (transfers || []).find((transfer: any) =>
+        transfer.metadata?.payout_id === payout.id && !transfer.reversed
+      );
+
+      if (existing) {
+        console.log('[Payouts] Found earlier transfer for payout:', payout.id, existing.id);
+        return recordTransfer(supabase, payout, existing, options);
+      }
+    }
+  }
+
+  const sourceChargeId = await findSourceCharge(
+    supabase,
+    payout.booking_id,
+    options.paymentIntentId,
+    options.stripeSecretKey
+  );
+
+  const params = new URLSearchParams({
+    amount: Math.round(Number(payout.amount) * 100).toString(),
+    currency: (payout.currency || 'GBP').toLowerCase(),
+    destination: options.stripeAccountId,
+    description: `Booking ${payout.booking_id} - Provider payout`,
+    transfer_group: `booking_${payout.booking_id}`,
+    'metadata[booking_id]': payout.booking_id,
+    'metadata[payout_id]': payout.id,
+  });
+
+  if (sourceChargeId) {
+    params.append('source_transaction', sourceChargeId);
+  }
+
+  const response = await fetch('https://api.stripe.com/v1/transfers', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${options.stripeSecretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Idempotency-Key': `provider-payout-${payout.id}-${attempt}`,
+    },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    let message = `Stripe transfer failed (${response.status})`;
+    try {
+      const errorData = await response.json();
+      message = errorData.error?.message || message;
+    } catch {
+      // Keep the status-based message
+    }
+
+    const retryAt = nextRetryAt(attempt, now);
+    console.error(`[Payouts] Transfer attempt ${attempt} failed for payout ${payout.id}:`, message);
+
+    await supabase
+      .from('provider_payouts')
+      .update({
+        status: 'failed',
+        failure_reason: message,
+        next_retry_at: retryAt,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', payout.id);
+
+    return { ok: false, error: message, willRetry: !!retryAt };
+  }
+
+  const transfer = await response.json();
+  return recordTransfer(supabase, payout, transfer, options);
+}
+
+/**
+ * Mark the ledger row and booking as transferred
+ */
+async function recordTransfer(
+  supabase: any,
+  payout: PayoutRecord,
+  transfer: { id: string; destination_payment?: string | null },
+  options: TransferOptions
+): Promise<TransferResult> {
+  const expectedPayoutDate = await estimatePayoutDate(options.stripeAccountId, options.stripeSecretKey);
+
+  const { error: ledgerError } = await supabase
+    .from('provider_payouts')
+    .update({
+      status: 'processing',
+      stripe_transfer_id: transfer.id,
+      stripe_destination_payment_id: transfer.destination_payment || null,
+      expected_payout_date: expectedPayoutDate,
+      failure_reason: null,
+      next_retry_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payout.id);
+
+  if (ledgerError) {
+    // transfer.created webhook fills the transfer in again
+    console.error('[Payouts] Failed to record transfer on payout:', payout.id, ledgerError);
+  }
+
+  const { error: bookingError } = await supabase
+    .from('bookings')
+    .update({
+      payment_status: 'payout_completed',
+      provider_transfer_id: transfer.id,
+      provider_paid_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payout.booking_id);
+
+  if (bookingError) {
+    console.error('[Payouts] Failed to record transfer on booking:', payout.booking_id, bookingError);
+  }
+
+  return { ok: true, transferId: transfer.id, expectedPayoutDate };
+}
@@ -0,0 +1,339 @@
+/**
+ * Fee rules for booking payments - run with `npm run test:functions`
+ * (deno test --allow-env supabase/functions/_shared/)
+ */
+import assert from 'node:assert/strict';
+import {
+  PLATFORM_FEE_RATE,
+  QUOTE_TTL_MINUTES,
+  PricingError,
+  assertPaymentMatchesQuote,
+  buildQuote,
+  calculatePrice,
+  providerAmountForBooking,
+  quoteMetadata,
+  signQuote,
+  verifyQuote,
+  type PricingService,
+} from './pricing.ts';
+import { normaliseTravelFeeBands, travelFeeForDistance } from './service-area.ts';
+
+Deno.env.set('PRICING_QUOTE_SECRET', 'test-quote-secret');
+
+// SOS_PAY_PER_USE_FEE - sos-entitlement.ts pulls in Stripe, so it isn't imported here
+const SOS_FEE = 499;
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+
+const service = (overrides: Partial<PricingService> = {}): PricingService => ({
+  id: 'service-1',
+  provider_id: 'provider-1',
+  base_price: '40.00',
+  price_type: 'fixed',
+  duration_minutes: 60,
+  is_home_service: false,
+  house_call_available: false,
+  house_call_extra_fee: null,
+  requires_deposit: false,
+  deposit_percentage: null,
+  ...overrides,
+});
+
+const houseCallService = (overrides: Partial<PricingService> = {}) =>
+  service({ house_call_available: true, house_call_extra_fee: '5.50', ...overrides });
+
+const pricingError = (code: PricingError['code']) => (error: unknown) =>
+  error instanceof PricingError && error.code === code;
+
+Deno.test('fixed price - base price plus the platform fee', () => {
+  const price = calculatePrice(service());
+
+  assert.equal(price.priceType, 'fixed');
+  assert.equal(price.servicePrice, 4000);
+  assert.equal(price.providerAmount, 4000);
+  assert.equal(price.platformFee, 400);
+  assert.equal(price.totalAmount, 4400);
+  assert.equal(price.depositAmount, 4400);
+});
+
+Deno.test('fixed price - duration does not change the price', () => {
+  assert.equal(calculatePrice(service({ duration_minutes: 180 })).servicePrice, 4000);
+});
+
+Deno.test('hourly price - base price × duration in hours', () => {
+  const price = calculatePrice(service({ price_type: 'hourly', base_price: 30, duration_minutes: 90 }));
+
+  assert.equal(price.priceType, 'hourly');
+  assert.equal(price.durationMinutes, 90);
+  assert.equal(price.servicePrice, 4500);
+  assert.equal(price.totalAmount, 4950);
+});
+
+Deno.test('hourly price - defaults to one hour without a duration', () => {
+  const price = calculatePrice(service({ price_type: 'hourly', base_price: 30, duration_minutes: null }));
+
+  assert.equal(price.durationMinutes, 60);
+  assert.equal(price.servicePrice, 3000);
+});
+
+Deno.test('platform fee - 10% of the provider amount, rounded to the penny', () => {
+  assert.equal(PLATFORM_FEE_RATE, 0.10);
+
+  const price = calculatePrice(service({ base_price: '9.99' }));
+  assert.equal(price.providerAmount, 999);
+  assert.equal(price.platformFee, 100);
+  assert.equal(price.totalAmount, 1099);
+});
+
+Deno.test('house call - adds the house call fee and travel fee to the provider amount', () => {
+  const price = calculatePrice(houseCallService(), { isHouseCall: true, travelFee: 300, distanceKm: 6.2 });
+
+  assert.equal(price.isHouseCall, true);
+  assert.equal(price.houseCallFee, 550);
+  assert.equal(price.travelFee, 300);
+  assert.equal(price.distanceKm, 6.2);
+  assert.equal(price.providerAmount, 4850);
+  assert.equal(price.platformFee, 485);
+  assert.equal(price.totalAmount, 5335);
+});
+
+Deno.test('house call - is_home_service services count as house calls too', () => {
+  const price = calculatePrice(service({ is_home_service: true, house_call_extra_fee: 2 }), { isHouseCall: true });
+
+  assert.equal(price.isHouseCall, true);
+  assert.equal(price.houseCallFee, 200);
+});
+
+Deno.test('house call - no fees when the service does not offer house calls', () => {
+  const price = calculatePrice(service({ house_call_extra_fee: '5.50' }), { isHouseCall: true, travelFee: 300, distanceKm: 4 });
+
+  assert.equal(price.isHouseCall, false);
+  assert.equal(price.houseCallFee, 0);
+  assert.equal(price.travelFee, 0);
+  assert.equal(price.distanceKm, null);
+  assert.equal(price.totalAmount, 4400);
+});
+
+Deno.test('house call - no fees for in-store bookings', () => {
+  const price = calculatePrice(houseCallService(), { isHouseCall: false, travelFee: 300 });
+
+  assert.equal(price.houseCallFee, 0);
+  assert.equal(price.travelFee, 0);
+  assert.equal(price.providerAmount, 4000);
+});
+
+Deno.test('house call - a negative travel fee is never credited', () => {
+  assert.equal(calculatePrice(houseCallService(), { isHouseCall: true, travelFee: -500 }).travelFee, 0);
+});
+
+Deno.test('travel fee - first distance band that covers the distance', () => {
+  const bands = normaliseTravelFeeBands([
+    { max_km: 10, fee: 5 },
+    { max_km: 5, fee: 2.5 },
+  ]);
+
+  assert.deepEqual(bands.map((band) => band.max_km), [5, 10]);
+  assert.equal(travelFeeForDistance(bands, 3), 250);
+  assert.equal(travelFeeForDistance(bands, 5), 250);
+  assert.equal(travelFeeForDistance(bands, 7.5), 500);
+});
+
+Deno.test('travel fee - last band beyond the furthest band', () => {
+  const bands = normaliseTravelFeeBands([{ max_km: 5, fee: 2.5 }, { max_km: 10, fee: 5 }]);
+  assert.equal(travelFeeForDistance(bands, 25), 500);
+});
+
+Deno.test('travel fee - nothing without bands or a distance', () => {
+  assert.equal(travelFeeForDistance([], 3), 0);
+  assert.equal(travelFeeForDistance(normaliseTravelFeeBands([{ max_km: 5, fee: 2 }]), null), 0);
+});
+
+Deno.test('travel fee - malformed bands are dropped, not charged', () => {
+  const bands = normaliseTravelFeeBands([
+    { max_km: 0, fee: 3 },
+    { max_km: 'far', fee: 3 },
+    { max_km: 8, fee: -1 },
+    { max_km: 8, fee: 4 },
+  ]);
+
+  assert.deepEqual(bands, [{ max_km: 8, fee: 4 }]);
+  assert.deepEqual(normaliseTravelFeeBands(null), []);
+});
+
+Deno.test('travel fee - band fee flows into the price', () => {
+  const bands = normaliseTravelFeeBands([{ max_km: 5, fee: 2.5 }, { max_km: 10, fee: 5 }]);
+  const price = calculatePrice(houseCallService(), { isHouseCall: true, travelFee: travelFeeForDistance(bands, 7), distanceKm: 7 });
+
+  assert.equal(price.travelFee, 500);
+  assert.equal(price.providerAmount, 5050);
+  assert.equal(price.platformFee, 505);
+  assert.equal(price.totalAmount, 5555);
+});
+
+Deno.test('SOS fee - added to the total, not to the provider amount or platform fee', () => {
+  const price = calculatePrice(service(), { sosFee: SOS_FEE });
+
+  assert.equal(price.sosFee, 499);
+  assert.equal(price.providerAmount, 4000);
+  assert.equal(price.platformFee, 400);
+  assert.equal(price.totalAmount, 4899);
+});
+
+Deno.test('SOS fee - a negative fee is ignored', () => {
+  assert.equal(calculatePrice(service(), { sosFee: -100 }).totalAmount, 4400);
+});
+
+Deno.test('deposit - percentage of the total', () => {
+  const price = calculatePrice(service({ requires_deposit: true, deposit_percentage: 25 }));
+  assert.equal(price.depositAmount, 1100);
+});
+
+Deno.test('deposit - includes house call and SOS fees in the total it is taken from', () => {
+  const price = calculatePrice(houseCallService({ requires_deposit: true, deposit_percentage: 20 }), {
+    isHouseCall: true,
+    travelFee: 300,
+    sosFee: SOS_FEE,
+  });
+
+  assert.equal(price.totalAmount, 5834);
+  assert.equal(price.depositAmount, 1167);
+});
+
+Deno.test('deposit - clamped to 0-100%', () => {
+  assert.equal(calculatePrice(service({ requires_deposit: true, deposit_percentage: 150 })).depositAmount, 4400);
+  assert.equal(calculatePrice(service({ requires_deposit: true, deposit_percentage: -20 })).depositAmount, 4400);
+  assert.equal(calculatePrice(service({ requires_deposit: true, deposit_percentage: null })).depositAmount, 4400);
+});
+
+Deno.test('deposit - full amount when the service takes no deposit', () => {
+  assert.equal(calculatePrice(service({ requires_deposit: false, deposit_percentage: 50 })).depositAmount, 4400);
+});
+
+Deno.test('quote - carries the price, parties and expiry', () => {
+  const quote = buildQuote(service(), { customerId: 'customer-1' }, NOW);
+
+  assert.equal(quote.serviceId, 'service-1');
+  assert.equal(quote.providerId, 'provider-1');
+  assert.equal(quote.customerId, 'customer-1');
+  assert.equal(quote.currency, 'gbp');
+  assert.equal(quote.totalAmount, 4400);
+  assert.equal(quote.issuedAt, NOW.toISOString());
+  assert.equal(
+    new Date(quote.expiresAt).getTime() - NOW.getTime(),
+    QUOTE_TTL_MINUTES * 60 * 1000,
+  );
+});
+
+Deno.test('quote token - round trips through sign and verify', async () => {
+  const quote = buildQuote(houseCallService(), { customerId: 'customer-1', isHouseCall: true, travelFee: 300 }, NOW);
+  const token = await signQuote(quote);
+
+  assert.deepEqual(await verifyQuote(token, { now: NOW }), quote);
+});
+
+Deno.test('quote token - rejects a changed payload', async () => {
+  const quote = buildQuote(service(), { customerId: 'customer-1' }, NOW);
+  const [, signature] = (await signQuote(quote)).split('.');
+
+  const cheaper = { ...quote, totalAmount: 100 };
+  const payload = btoa(JSON.stringify(cheaper)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+  await assert.rejects(verifyQuote(`${payload}.${signature}`, { now: NOW }), pricingError('INVALID_QUOTE'));
+});
+
+Deno.test('quote token - rejects a changed signature', async () => {
+  const [payload, signature] = (await signQuote(buildQuote(service(), { customerId: 'customer-1' }, NOW))).split('.');
+  const forged = (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1);
+
+  await assert.rejects(verifyQuote(`${payload}.${forged}`, { now: NOW }), pricingError('INVALID_QUOTE'));
+});
+
+Deno.test('quote token - rejects a token signed with another secret', async () => {
+  const quote = buildQuote(service(), { customerId: 'customer-1' }, NOW);
+
+  Deno.env.set('PRICING_QUOTE_SECRET', 'another-secret');
+  const token = await signQuote(quote);
+  Deno.env.set('PRICING_QUOTE_SECRET', 'test-quote-secret');
+
+  await assert.rejects(verifyQuote(token, { now: NOW }), pricingError('INVALID_QUOTE'));
+});
+
+Deno.test('quote token - rejects missing and malformed tokens', async () => {
+  for (const token of [undefined, null, '', 'no-signature', 42]) {
+    await assert.rejects(verifyQuote(token, { now: NOW }), pricingError('INVALID_QUOTE'));
+  }
+});
+
+Deno.test('quote token - rejects an expired quote', async () => {
+  const token = await signQuote(buildQuote(service(), { customerId: 'customer-1' }, NOW));
+  const afterExpiry = new Date(NOW.getTime() + (QUOTE_TTL_MINUTES + 1) * 60 * 1000);
+
+  await assert.rejects(verifyQuote(token, { now: afterExpiry }), (error: unknown) =>
+    pricingError('QUOTE_EXPIRED')(error) && (error as PricingError).status === 409
+  );
+});
+
+Deno.test('quote token - allowExpired accepts an expired quote once paid', async () => {
+  const quote = buildQuote(service(), { customerId: 'customer-1' }, NOW);
+  const token = await signQuote(quote);
+  const afterExpiry = new Date(NOW.getTime() + 24 * 60 * 60 * 1000);
+
+  assert.deepEqual(await verifyQuote(token, { allowExpired: true, now: afterExpiry }), quote);
+});
+
+Deno.test('quote token - allowExpired still checks the signature', async () => {
+  const [payload] = (await signQuote(buildQuote(service(), { customerId: 'customer-1' }, NOW))).split('.');
+  await assert.rejects(verifyQuote(`${payload}.forged`, { allowExpired: true }), pricingError('INVALID_QUOTE'));
+});
+
+Deno.test('payment check - accepts a PaymentIntent created for the quote', () => {
+  const quote = buildQuote(service(), { customerId: 'customer-1' }, NOW);
+  assertPaymentMatchesQuote({ amount: quote.totalAmount, metadata: quoteMetadata(quote) }, quote);
+});
+
+Deno.test('payment check - rejects a different amount', () => {
+  const quote = buildQuote(service(), { customerId: 'customer-1' }, NOW);
+
+  assert.throws(
+    () => assertPaymentMatchesQuote({ amount: quote.totalAmount - 1, metadata: quoteMetadata(quote) }, quote),
+    pricingError('PRICE_MISMATCH'),
+  );
+  assert.throws(
+    () => assertPaymentMatchesQuote(
+      { amount: quote.totalAmount, metadata: { ...quoteMetadata(quote), total_amount: '100' } },
+      quote,
+    ),
+    pricingError('PRICE_MISMATCH'),
+  );
+});
+
+Deno.test('payment check - rejects a PaymentIntent for another service, provider or customer', () => {
+  const quote = buildQuote(service(), { customerId: 'customer-1' }, NOW);
+
+  for (const field of ['service_id', 'provider_id', 'customer_id']) {
+    const metadata = { ...quoteMetadata(quote), [field]: 'someone-else' };
+    assert.throws(
+      () => assertPaymentMatchesQuote({ amount: quote.totalAmount, metadata }, quote),
+      pricingError('PRICE_MISMATCH'),
+    );
+  }
+
+  assert.throws(() => assertPaymentMatchesQuote({ amount: quote.totalAmount }, quote), pricingError('PRICE_MISMATCH'));
+});
+
+Deno.test('provider amount - from the stored quote', () => {
+  assert.equal(providerAmountForBooking({ price_quote: { providerAmount: 4850 }, total_amount: 99 }), 4850);
+  assert.equal(providerAmountForBooking({ price_quote: { providerAmount: 0 }, amount_held_for_provider: 10 }), 0);
+});
+
+Deno.test('provider amount - falls back to the amount held for the provider', () => {
+  assert.equal(providerAmountForBooking({ price_quote: null, amount_held_for_provider: '48.50', total_amount: '60.00' }), 4850);
+  assert.equal(providerAmountForBooking({ price_quote: { providerAmount: '4850' }, amount_held_for_provider: 20 }), 2000);
+  assert.equal(providerAmountForBooking({ amount_held_for_provider: 0, total_amount: '55.00' }), 0);
+});
+
+Deno.test('provider amount - falls back to the total less the platform fee', () => {
+  assert.equal(providerAmountForBooking({ total_amount: '55.00' }), 5000);
+  assert.equal(providerAmountForBooking({ price_quote: { providerAmount: -1 }, total_amount: 44 }), 4000);
+  assert.equal(providerAmountForBooking({}), 0);
+});
@@ -0,0 +1,296 @@
+/**
+ * Server-side pricing for bookings
+ * Every amount the customer is charged (and the provider is paid) comes from here,
+ * recomputed from provider_services - never from amounts the app sends.
+ * All amounts are in pence.
+ *
+ * Fee rules:
+ * - fixed services cost base_price, hourly services base_price × duration_minutes / 60
+ * - house calls add house_call_extra_fee (when the service offers house calls)
+ *   plus the provider's distance-banded travel fee (see service-area.ts)
+ * - the provider receives the service price + house call fee + travel fee
+ * - the platform fee is PLATFORM_FEE_RATE of the provider amount, paid on top by the customer
+ * - pay-per-use SOS bookings add the SOS fee (see sos-entitlement.ts), kept by the platform
+ * - services with requires_deposit take deposit_percentage of the total as the deposit
+ *
+ * Quotes are signed (HMAC-SHA256) so a quote handed to the app can come back to
+ * capture-deposit / create-booking without the amounts being changed on the way.
+ */
+
+export const PLATFORM_FEE_RATE = 0.10;
+
+// How long a signed quote can be paid against
+export const QUOTE_TTL_MINUTES = 30;
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+export const PRICING_SERVICE_COLUMNS =
+  'id, provider_id, title, base_price, price_type, duration_minutes, is_home_service, house_call_available, house_call_extra_fee, requires_deposit, deposit_percentage, is_active';
+
+export interface PricingService {
+  id: string;
+  provider_id: string;
+  base_price: number | string;
+  price_type?: string | null;
+  duration_minutes?: number | null;
+  is_home_service?: boolean | null;
+  house_call_available?: boolean | null;
+  house_call_extra_fee?: number | string | null;
+  requires_deposit?: boolean | null;
+  deposit_percentage?: number | null;
+}
+
+export interface PriceBreakdown {
+  priceType: 'fixed' | 'hourly';
+  durationMinutes: number;
+  isHouseCall: boolean;
+  servicePrice: number; // base price (× hours for hourly services)
+  houseCallFee: number;
+  travelFee: number;
+  distanceKm: number | null; // house calls only
+  providerAmount: number; // servicePrice + houseCallFee + travelFee - what the provider is paid
+  platformFee: number;
+  sosFee: number; // pay-per-use SOS requests only
+  totalAmount: number; // what the customer pays
+  depositAmount: number; // equals totalAmount when the service takes no deposit
+}
+
+export interface PriceQuote extends PriceBreakdown {
+  serviceId: string;
+  providerId: string;
+  customerId: string;
+  currency: 'gbp';
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export class PricingError extends Error {
+  constructor(
+    public code: 'SERVICE_NOT_FOUND' | 'INVALID_QUOTE' | 'QUOTE_EXPIRED' | 'PRICE_MISMATCH',
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+const toPence = (pounds: number | string | null | undefined) => Math.round(Number(pounds || 0) * 100);
+
+/**
+ * Whether a booking at this address is a house call for the service
+ */
+export function isHouseCallBooking(
+  service: Pick<PricingService, 'is_home_service' | 'house_call_available'>,
+  serviceAddress?: string | null,
+): boolean {
+  return !!serviceAddress && !!(service.is_home_service || service.house_call_available);
+}
+
+/**
+ * Price of one booking of a service - pure, same inputs always give the same amounts
+ */
+export function calculatePrice(
+  service: PricingService,
+  options: { isHouseCall?: boolean; travelFee?: number; distanceKm?: number | null; sosFee?: number } = {},
+): PriceBreakdown {
+  const priceType = service.price_type === 'hourly' ? 'hourly' : 'fixed';
+  const durationMinutes = service.duration_minutes || DEFAULT_DURATION_MINUTES;
+  const isHouseCall = !!options.isHouseCall && !!(service.is_home_service || service.house_call_available);
+
+  const basePrice = toPence(service.base_price);
+  const servicePrice = priceType === 'hourly'
+    ? Math.round(basePrice * durationMinutes / 60)
+    : basePrice;
+  const houseCallFee = isHouseCall ? toPence(service.house_call_extra_fee) : 0;
+  const travelFee = isHouseCall ? Math.max(Math.round(options.travelFee || 0), 0) : 0;
+
+  const providerAmount = servicePrice + houseCallFee + travelFee;
+  const platformFee = Math.round(providerAmount * PLATFORM_FEE_RATE);
+  const sosFee = Math.max(Math.round(options.sosFee || 0), 0);
+  const totalAmount = providerAmount + platformFee + sosFee;
+
+  const depositPercentage = Math.min(Math.max(Number(service.deposit_percentage) || 0, 0), 100);
+  const depositAmount = service.requires_deposit && depositPercentage > 0
+    ? Math.round(totalAmount * depositPercentage / 100)
+    : totalAmount;
+
+  return {
+    priceType,
+    durationMinutes,
+    isHouseCall,
+    servicePrice,
+    houseCallFee,
+    travelFee,
+    distanceKm: isHouseCall ? options.distanceKm ?? null : null,
+    providerAmount,
+    platformFee,
+    sosFee,
+    totalAmount,
+    depositAmount,
+  };
+}
+
+/**
+ * Active service offered by the provider, with the columns pricing needs
+ */
+export async function loadServicePricing(supabase: any, serviceId: string, providerId: string): Promise<PricingService> {
+  const { data: service, error } = await supabase
+    .from('provider_services')
+    .select(PRICING_SERVICE_COLUMNS)
+    .eq('id', serviceId)
+    .eq('provider_id', providerId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Service lookup failed: ${error.message}`);
+  }
+
+  if (!service) {
+    throw new PricingError('SERVICE_NOT_FOUND', 'Service not found or no longer offered', 404);
+  }
+
+  return service;
+}
+
+export function buildQuote(
+  service: PricingService,
+  details: { customerId: string; isHouseCall?: boolean; travelFee?: number; distanceKm?: number | null; sosFee?: number },
+  now = new Date(),
+): PriceQuote {
+  return {
+    ...calculatePrice(service, details),
+    serviceId: service.id,
+    providerId: service.provider_id,
+    customerId: details.customerId,
+    currency: 'gbp',
+    issuedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + QUOTE_TTL_MINUTES * 60 * 1000).toISOString(),
+  };
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function signingKey(): Promise<CryptoKey> {
+  const secret = Deno.env.get('PRICING_QUOTE_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!secret) {
+    throw new Error('Pricing quote secret not configured');
+  }
+
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/**
+ * Token the app holds on to and sends back - `<payload>.<signature>`
+ */
+export async function signQuote(quote: PriceQuote): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(quote)));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Quote inside a token, once the signature and expiry check out
+ * allowExpired is for steps after the customer has paid against the quote
+ */
+export async function verifyQuote(
+  token: unknown,
+  options: { allowExpired?: boolean; now?: Date } = {},
+): Promise<PriceQuote> {
+  const [payload, signature] = typeof token === 'string' ? token.split('.') : [];
+  if (!payload || !signature) {
+    throw new PricingError('INVALID_QUOTE', 'Price quote is missing or malformed');
+  }
+
+  let valid = false;
+  try {
+    valid = await crypto.subtle.verify('HMAC', await signingKey(), fromBase64Url(signature), encoder.encode(payload));
+  } catch {
+    valid = false;
+  }
+
+  if (!valid) {
+    throw new PricingError('INVALID_QUOTE', 'Price quote signature is invalid');
+  }
+
+  const quote: PriceQuote = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+  if (!options.allowExpired && new Date(quote.expiresAt).getTime() < (options.now || new Date()).getTime()) {
+    throw new PricingError('QUOTE_EXPIRED', 'Price quote has expired - please review the price again', 409);
+  }
+
+  return quote;
+}
+
+/**
+ * PaymentIntent metadata describing the quote it was created for
+ */
+export function quoteMetadata(quote: PriceQuote): Record<string, string> {
+  return {
+    service_id: quote.serviceId,
+    provider_id: quote.providerId,
+    customer_id: quote.customerId,
+    price_type: quote.priceType,
+    house_call: quote.isHouseCall ? 'true' : 'false',
+    service_price: quote.servicePrice.toString(),
+    house_call_fee: quote.houseCallFee.toString(),
+    travel_fee: (quote.travelFee || 0).toString(),
+    provider_amount: quote.providerAmount.toString(),
+    platform_fee: quote.platformFee.toString(),
+    total_amount: quote.totalAmount.toString(),
+    deposit_amount: quote.depositAmount.toString(),
+    remaining_amount: (quote.totalAmount - quote.depositAmount).toString(),
+  };
+}
+
+/**
+ * Throws unless the PaymentIntent was created for exactly this quote
+ */
+export function assertPaymentMatchesQuote(paymentIntent: any, quote: PriceQuote): void {
+  const metadata = paymentIntent?.metadata || {};
+
+  if (
+    metadata.service_id !== quote.serviceId ||
+    metadata.provider_id !== quote.providerId ||
+    metadata.customer_id !== quote.customerId
+  ) {
+    throw new PricingError('PRICE_MISMATCH', 'Payment does not match the price quote');
+  }
+
+  if (paymentIntent.amount !== quote.totalAmount || Number(metadata.total_amount) !== quote.totalAmount) {
+    throw new PricingError('PRICE_MISMATCH', 'Payment amount does not match the price quote');
+  }
+}
+
+/**
+ * Provider's share of a booking when it completes
+ * Uses the quote stored with the booking; older bookings without one fall back to
+ * the amount held for the provider, or the total split with the same fee rate.
+ */
+export function providerAmountForBooking(booking: {
+  price_quote?: any;
+  amount_held_for_provider?: number | string | null;
+  total_amount?: number | string | null;
+}): number {
+  const quoted = booking.price_quote?.providerAmount;
+  if (typeof quoted === 'number' && quoted >= 0) {
+    return quoted;
+  }
+
+  if (booking.amount_held_for_provider != null) {
+    return toPence(booking.amount_held_for_provider);
+  }
+
+  return Math.round(toPence(booking.total_amount) / (1 + PLATFORM_FEE_RATE));
+}
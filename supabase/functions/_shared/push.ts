@@ -0,0 +1,169 @@
+/**
+ * Shared Expo push notification sender for edge functions
+ *
+ * - Looks up profiles.expo_push_token for the recipient
+ * - Honors notification_settings.push_notifications (all pushes) and
+ *   notification_settings.booking_reminders (reminder pushes)
+ * - Clears tokens Expo reports as DeviceNotRegistered
+ *
+ * The Expo endpoint is configurable through EXPO_PUSH_API_URL so the sender can be
+ * pointed at a local stand-in (e.g. http://localhost:8787/push) during development.
+ * EXPO_ACCESS_TOKEN is sent when set (required if push security is enabled in Expo).
+ */
+
+const DEFAULT_EXPO_PUSH_API_URL = 'https://exp.host/--/api/v2/push/send';
+
+// Expo accepts up to 100 messages per request
+const EXPO_PUSH_BATCH_SIZE = 100;
+
+export type PushCategory = 'booking' | 'reminder';
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface ExpoPushMessage extends PushPayload {
+  to: string;
+  sound?: 'default' | null;
+  channelId?: string;
+  priority?: 'default' | 'normal' | 'high';
+}
+
+export interface ExpoPushTicket {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+export interface SendExpoPushOptions {
+  endpoint?: string;
+  accessToken?: string;
+  fetchImpl?: typeof fetch;
+}
+
+export interface PushResult {
+  sent: boolean;
+  reason?: 'no_token' | 'push_disabled' | 'reminders_disabled' | 'expo_error' | 'request_failed';
+  ticket?: ExpoPushTicket;
+}
+
+export const isExpoPushToken = (token: string | null | undefined): token is string =>
+  !!token && /^(ExponentPushToken|ExpoPushToken)\[.+\]$/.test(token);
+
+/**
+ * Low-level sender - posts messages to the Expo push API in batches
+ * Returns one ticket per message, in order.
+ */
+export async function sendExpoPush(
+  messages: ExpoPushMessage[],
+  options: SendExpoPushOptions = {}
+): Promise<ExpoPushTicket[]> {
+  const endpoint = options.endpoint ?? Deno.env.get('EXPO_PUSH_API_URL') ?? DEFAULT_EXPO_PUSH_API_URL;
+  const accessToken = options.accessToken ?? Deno.env.get('EXPO_ACCESS_TOKEN');
+  const fetchImpl = options.fetchImpl ?? fetch;
+
+  const tickets: ExpoPushTicket[] = [];
+
+  for (let i = 0; i < messages.length; i += EXPO_PUSH_BATCH_SIZE) {
+    const batch = messages.slice(i, i + EXPO_PUSH_BATCH_SIZE);
+
+    const response = await fetchImpl(endpoint, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        ...(accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {}),
+      },
+      body: JSON.stringify(batch),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Expo push request failed (${response.status}): ${errorText}`);
+    }
+
+    const result = await response.json();
+    const batchTickets: ExpoPushTicket[] = Array.isArray(result.data) ? result.data : [result.data];
+    tickets.push(...batchTickets);
+  }
+
+  return tickets;
+}
+
+/**
+ * Send a push to a single user, honoring their notification settings
+ * Never throws - push delivery must not break the calling booking flow.
+ */
+export async function sendPushToUser(
+  supabase: any,
+  userId: string,
+  payload: PushPayload,
+  category: PushCategory = 'booking',
+  options: SendExpoPushOptions = {}
+): Promise<PushResult> {
+  try {
+    const [{ data: profile }, { data: settings }] = await Promise.all([
+      supabase.from('profiles').select('expo_push_token').eq('id', userId).maybeSingle(),
+      supabase
+        .from('notification_settings')
+        .select('push_notifications, booking_reminders')
+        .eq('user_id', userId)
+        .maybeSingle(),
+    ]);
+
+    // Missing settings row means defaults (everything on)
+    if (settings?.push_notifications === false) {
+      console.log('[Push] Push disabled by user settings:', userId);
+      return { sent: false, reason: 'push_disabled' };
+    }
+
+    if (category === 'reminder' && settings?.booking_reminders === false) {
+      console.log('[Push] Booking reminders disabled by user settings:', userId);
+      return { sent: false, reason: 'reminders_disabled' };
+    }
+
+    const token = profile?.expo_push_token;
+    if (!isExpoPushToken(token)) {
+      console.log('[Push] No valid push token for user:', userId);
+      return { sent: false, reason: 'no_token' };
+    }
+
+    const [ticket] = await sendExpoPush(
+      [{
+        to: token,
+        title: payload.title,
+        body: payload.body,
+        data: payload.data ?? {},
+        sound: 'default',
+        channelId: 'default',
+        priority: 'high',
+      }],
+      options
+    );
+
+    if (ticket?.status === 'error') {
+      console.error('[Push] Expo rejected push:', ticket.message, ticket.details);
+
+      // Token rotated or app uninstalled - stop sending to it
+      if (ticket.details?.error === 'DeviceNotRegistered') {
+        await supabase
+          .from('profiles')
+          .update({ expo_push_token: null })
+          .eq('id', userId)
+          .eq('expo_push_token', token);
+        console.log('[Push] 🧹 Cleared unregistered push token for user:', userId);
+      }
+
+      return { sent: false, reason: 'expo_error', ticket };
+    }
+
+    console.log('[Push] ✅ Push sent to user:', userId);
+    return { sent: true, ticket };
+  } catch (error) {
+    console.error('[Push] ❌ Failed to send push:', error);
+    return { sent: false, reason: 'request_failed' };
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * House-call service area
+ * A house call has to be within the provider's profiles.service_radius (km) of their
+ * profiles.coordinates. Providers can add distance-banded travel fees
+ * (profiles.travel_fee_bands) on top of the service's house_call_extra_fee.
+ * Distances come from PostGIS (provider_distance_km), never from the app.
+ */
+
+export interface TravelFeeBand {
+  max_km: number;
+  fee: number; // pounds, like the provider_services prices
+}
+
+export interface ServiceAreaCheck {
+  distanceKm: number | null; // null when the provider hasn't set a location
+  radiusKm: number | null;
+  travelFee: number; // pence
+}
+
+export class ServiceAreaError extends Error {
+  constructor(
+    public code: 'OUT_OF_SERVICE_AREA' | 'ADDRESS_NOT_LOCATED',
+    message: string,
+    public status = 422,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Valid bands, closest first - anything malformed is dropped rather than charged
+ */
+export function normaliseTravelFeeBands(bands: unknown): TravelFeeBand[] {
+  if (!Array.isArray(bands)) return [];
+
+  return bands
+    .map((band: any) => ({ max_km: Number(band?.max_km), fee: Number(band?.fee) }))
+    .filter((band) => Number.isFinite(band.max_km) && band.max_km > 0 && Number.isFinite(band.fee) && band.fee >= 0)
+    .sort((a, b) => a.max_km - b.max_km);
+}
+
+/**
+ * Travel fee in pence for a distance - the first band that covers it, or the last
+ * band when the provider's radius reaches further than their bands do
+ */
+export function travelFeeForDistance(bands: TravelFeeBand[], distanceKm: number | null): number {
+  if (distanceKm === null || bands.length === 0) return 0;
+
+  const band = bands.find((item) => distanceKm <= item.max_km) || bands[bands.length - 1];
+  return Math.round(band.fee * 100);
+}
+
+/**
+ * Checks a house-call location against the provider's service area
+ * Throws ServiceAreaError when the location is outside the radius, or can't be
+ * checked because the address was never geocoded.
+ */
+export async function checkServiceArea(
+  supabase: any,
+  providerId: string,
+  coordinates: string | null,
+): Promise<ServiceAreaCheck> {
+  const { data: provider, error } = await supabase
+    .from('profiles')
+    .select('service_radius, travel_fee_bands, coordinates')
+    .eq('id', providerId)
+    .maybeSingle();
+
+  if (error || !provider) {
+    throw new Error(`Provider lookup failed: ${error?.message || 'not found'}`);
+  }
+
+  const radiusKm = provider.service_radius ? Number(provider.service_radius) : null;
+  const bands = normaliseTravelFeeBands(provider.travel_fee_bands);
+
+  // Providers without a base location can't be checked - accept as before
+  if (!provider.coordinates) {
+    return { distanceKm: null, radiusKm, travelFee: 0 };
+  }
+
+  if (!coordinates) {
+    if (radiusKm || bands.length > 0) {
+      throw new ServiceAreaError(
+        'ADDRESS_NOT_LOCATED',
+        'We couldn\'t locate this address. Please choose a saved address from your address book.',
+      );
+    }
+    return { distanceKm: null, radiusKm, travelFee: 0 };
+  }
+
+  const { data: distance, error: distanceError } = await supabase.rpc('provider_distance_km', {
+    p_provider_id: providerId,
+    p_point: coordinates,
+  });
+
+  if (distanceError) {
+    throw new Error(`Distance lookup failed: ${distanceError.message}`);
+  }
+
+  const distanceKm = distance === null || distance === undefined ? null : Math.round(Number(distance) * 100) / 100;
+
+  if (distanceKm !== null && radiusKm && distanceKm > radiusKm) {
+    throw new ServiceAreaError(
+      'OUT_OF_SERVICE_AREA',
+      `This address is ${distanceKm.toFixed(1)} km away - the provider only travels up to ${radiusKm} km for house calls.`,
+      422,
+      { distance_km: distanceKm, service_radius_km: radiusKm },
+    );
+  }
+
+  return { distanceKm, radiusKm, travelFee: travelFeeForDistance(bands, distanceKm) };
+}
@@ -0,0 +1,354 @@
+/**
+ * SOS dispatch
+ * An SOS request is offered to the best-ranked providers near the customer
+ * (find_sos_candidates: distance, rating, availability_status) in waves. When a
+ * wave times out, or every provider in it declines, the next wave searches a wider
+ * radius. Offers from earlier waves stay open, so whoever accepts first wins -
+ * manage-sos-request claims the request with a conditional update on 'searching'.
+ * Each offer is kept in sos_dispatch_attempts for later analysis.
+ */
+
+import { sendPushToUser } from './push.ts';
+import type { SOSEntitlementType } from './sos-entitlement.ts';
+
+// Search radius (km) of each wave, nearest first
+export const SOS_DISPATCH_WAVES_KM = [5, 10, 20];
+export const PROVIDERS_PER_WAVE = 5;
+export const WAVE_TIMEOUT_SECONDS = 90;
+
+export type SOSRequestStatus = 'searching' | 'accepted' | 'booked' | 'no_providers' | 'cancelled' | 'failed';
+
+export const SOS_REQUEST_COLUMNS = `
+  id,
+  customer_id,
+  subcategory_id,
+  description,
+  urgency_level,
+  service_address_id,
+  service_address,
+  service_coordinates,
+  stripe_payment_method_id,
+  entitlement,
+  pay_per_use_fee,
+  status,
+  wave,
+  radius_km,
+  wave_expires_at,
+  accepted_provider_id,
+  accepted_service_id,
+  accepted_at,
+  booking_id,
+  failure_reason,
+  created_at,
+  subcategory:service_subcategories ( name )
+`;
+
+export class SOSDispatchError extends Error {
+  constructor(
+    public code: 'REQUEST_NOT_FOUND' | 'REQUEST_CLOSED' | 'OFFER_NOT_FOUND' | 'ALREADY_ACCEPTED' | 'NO_PAYMENT_METHOD' | 'PAY_PER_USE_REQUIRED',
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+export const radiusForWave = (wave: number): number =>
+  SOS_DISPATCH_WAVES_KM[Math.min(Math.max(wave, 1), SOS_DISPATCH_WAVES_KM.length) - 1];
+
+const waveExpiry = () => new Date(Date.now() + WAVE_TIMEOUT_SECONDS * 1000).toISOString();
+
+const subcategoryName = (request: any): string => request.subcategory?.name || 'Emergency service';
+
+export async function loadSOSRequest(supabase: any, requestId: string): Promise<any> {
+  const { data: request, error } = await supabase
+    .from('sos_requests')
+    .select(SOS_REQUEST_COLUMNS)
+    .eq('id', requestId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`SOS request lookup failed: ${error.message}`);
+  }
+  if (!request) {
+    throw new SOSDispatchError('REQUEST_NOT_FOUND', 'SOS request not found', 404);
+  }
+
+  return request;
+}
+
+/**
+ * Offer the request to the best-ranked providers inside the current wave's radius
+ * Returns how many providers were notified.
+ */
+export async function broadcastWave(supabase: any, request: any): Promise<number> {
+  const { data: candidates, error } = await supabase.rpc('find_sos_candidates', {
+    p_request_id: request.id,
+    p_radius_km: radiusForWave(request.wave),
+    p_limit: PROVIDERS_PER_WAVE,
+  });
+
+  if (error) {
+    throw new Error(`SOS candidate search failed: ${error.message}`);
+  }
+  if (!candidates?.length) {
+    console.log('[SOSDispatch] No candidates in wave', request.wave, 'for', request.id);
+    return 0;
+  }
+
+  // ignoreDuplicates: an overlapping run may have offered the same provider already
+  const { data: attempts, error: insertError } = await supabase
+    .from('sos_dispatch_attempts')
+    .upsert(
+      candidates.map((candidate: any) => ({
+        request_id: request.id,
+        provider_id: candidate.provider_id,
+        service_id: candidate.service_id,
+        wave: request.wave,
+        distance_km: candidate.distance_km,
+        rating: candidate.rating,
+        availability_status: candidate.availability_status,
+        rank_score: candidate.rank_score,
+      })),
+      { onConflict: 'request_id,provider_id', ignoreDuplicates: true },
+    )
+    .select('id, provider_id, distance_km');
+
+  if (insertError) {
+    throw new Error(`Failed to record SOS offers: ${insertError.message}`);
+  }
+
+  const serviceName = subcategoryName(request);
+
+  for (const attempt of attempts || []) {
+    const distance = `${Number(attempt.distance_km).toFixed(1)} km away`;
+
+    await supabase.from('notifications').insert({
+      user_id: attempt.provider_id,
+      type: 'sos_request',
+      title: 'SOS request nearby',
+      message: `${serviceName} needed ${distance}. The first provider to accept gets the job.`,
+      data: { sos_request_id: request.id, attempt_id: attempt.id },
+      is_read: false,
+    });
+
+    await sendPushToUser(supabase, attempt.provider_id, {
+      title: '🚨 SOS request nearby',
+      body: `${serviceName} needed ${distance}. Tap to accept before someone else does.`,
+      data: {
+        type: 'sos_request',
+        sos_request_id: request.id,
+        url: '/(provider)',
+      },
+    });
+  }
+
+  console.log('[SOSDispatch] Wave', request.wave, 'offered to', attempts?.length || 0, 'providers for', request.id);
+  return attempts?.length || 0;
+}
+
+/**
+ * Close a request that will never be booked and settle its open offers
+ * Conditional on the request still being in fromStatus, so a provider accepting
+ * at the last second is never overwritten. Returns the closed request, or null.
+ */
+export async function closeSOSRequest(
+  supabase: any,
+  request: any,
+  status: 'no_providers' | 'cancelled' | 'failed',
+  reason: string,
+  fromStatus: SOSRequestStatus = 'searching',
+): Promise<any | null> {
+  const now = new Date().toISOString();
+
+  const { data: closed, error } = await supabase
+    .from('sos_requests')
+    .update({ status, failure_reason: reason, closed_at: now, updated_at: now })
+    .eq('id', request.id)
+    .eq('status', fromStatus)
+    .select(SOS_REQUEST_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`SOS request update failed: ${error.message}`);
+  }
+  if (!closed) return null;
+
+  await supabase
+    .from('sos_dispatch_attempts')
+    .update({ status: status === 'cancelled' ? 'withdrawn' : 'expired', responded_at: now })
+    .eq('request_id', request.id)
+    .eq('status', 'offered');
+
+  if (status === 'no_providers') {
+    await supabase.from('notifications').insert({
+      user_id: request.customer_id,
+      type: 'sos_request',
+      title: 'No SOS provider available',
+      message: `We couldn't find a provider for your ${subcategoryName(request)} request nearby. You haven't been charged.`,
+      data: { sos_request_id: request.id },
+      is_read: false,
+    });
+
+    await sendPushToUser(supabase, request.customer_id, {
+      title: 'No SOS provider available',
+      body: 'Nobody nearby could take your request. You haven\'t been charged.',
+      data: { type: 'sos_request', sos_request_id: request.id },
+    });
+  }
+
+  console.log('[SOSDispatch] Request closed:', request.id, status, reason);
+  return closed;
+}
+
+/**
+ * Move a searching request on once its wave has timed out
+ * force skips the timeout (every offer in the wave was declined). Each wave is
+ * claimed with a conditional update on the current wave, so the cron and the
+ * customer's status polling never broadcast the same wave twice. Waves that find
+ * nobody are skipped straight away; after the last wave the request is closed
+ * as no_providers.
+ */
+export async function advanceSOSDispatch(supabase: any, request: any, { force = false } = {}): Promise<any> {
+  if (request.status !== 'searching') return request;
+
+  const waveOver = new Date(request.wave_expires_at).getTime() <= Date.now();
+  if (!waveOver && !force) return request;
+
+  let current = request;
+
+  while (current.wave < SOS_DISPATCH_WAVES_KM.length) {
+    const nextWave = current.wave + 1;
+
+    const { data: claimed, error } = await supabase
+      .from('sos_requests')
+      .update({
+        wave: nextWave,
+        radius_km: radiusForWave(nextWave),
+        wave_expires_at: waveExpiry(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', current.id)
+      .eq('status', 'searching')
+      .eq('wave', current.wave)
+      .select(SOS_REQUEST_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`SOS escalation failed: ${error.message}`);
+    }
+    if (!claimed) {
+      // Someone else escalated it, a provider accepted or the customer cancelled
+      return await loadSOSRequest(supabase, current.id);
+    }
+
+    current = claimed;
+    console.log('[SOSDispatch] Escalated', current.id, 'to wave', current.wave, `(${current.radius_km} km)`);
+
+    if (await broadcastWave(supabase, current) > 0) {
+      return current;
+    }
+  }
+
+  // Out of waves - earlier offers can still be accepted until the last wave times out
+  const { count: openOffers } = await supabase
+    .from('sos_dispatch_attempts')
+    .select('id', { count: 'exact', head: true })
+    .eq('request_id', current.id)
+    .eq('status', 'offered');
+
+  if (openOffers && new Date(current.wave_expires_at).getTime() > Date.now()) {
+    return current;
+  }
+
+  return (await closeSOSRequest(supabase, current, 'no_providers', 'No provider accepted in time'))
+    || await loadSOSRequest(supabase, current.id);
+}
+
+/**
+ * What the customer's live status screen shows
+ */
+export async function describeSOSRequest(supabase: any, request: any) {
+  const { data: attempts } = await supabase
+    .from('sos_dispatch_attempts')
+    .select('status')
+    .eq('request_id', request.id);
+
+  let provider = null;
+  if (request.accepted_provider_id) {
+    const { data } = await supabase
+      .from('profiles')
+      .select('id, first_name, last_name, business_name, avatar_url')
+      .eq('id', request.accepted_provider_id)
+      .maybeSingle();
+    provider = data;
+  }
+
+  return {
+    id: request.id,
+    status: request.status as SOSRequestStatus,
+    service_name: subcategoryName(request),
+    description: request.description,
+    service_address: request.service_address,
+    urgency_level: request.urgency_level,
+    wave: request.wave,
+    total_waves: SOS_DISPATCH_WAVES_KM.length,
+    radius_km: Number(request.radius_km),
+    wave_expires_at: request.wave_expires_at,
+    providers_notified: (attempts || []).length,
+    providers_declined: (attempts || []).filter((attempt: any) => attempt.status === 'declined').length,
+    provider,
+    booking_id: request.booking_id,
+    failure_reason: request.failure_reason,
+    entitlement: request.entitlement as SOSEntitlementType,
+    pay_per_use_fee: request.pay_per_use_fee,
+    created_at: request.created_at,
+  };
+}
+
+/**
+ * Start a new request: record it on wave 1 and broadcast, escalating at once if
+ * nobody is close enough
+ */
+export async function startSOSDispatch(supabase: any, values: {
+  customerId: string;
+  subcategoryId: string;
+  description: string;
+  urgencyLevel: string;
+  serviceAddressId: string;
+  serviceAddress: string;
+  serviceCoordinates: string;
+  paymentMethodId: string;
+  entitlement: SOSEntitlementType;
+  payPerUseFee: number;
+}): Promise<any> {
+  const { data: request, error } = await supabase
+    .from('sos_requests')
+    .insert({
+      customer_id: values.customerId,
+      subcategory_id: values.subcategoryId,
+      description: values.description,
+      urgency_level: values.urgencyLevel,
+      service_address_id: values.serviceAddressId,
+      service_address: values.serviceAddress,
+      service_coordinates: values.serviceCoordinates,
+      stripe_payment_method_id: values.paymentMethodId,
+      entitlement: values.entitlement,
+      pay_per_use_fee: values.payPerUseFee,
+      wave: 1,
+      radius_km: radiusForWave(1),
+      wave_expires_at: waveExpiry(),
+    })
+    .select(SOS_REQUEST_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create SOS request: ${error.message}`);
+  }
+
+  if (await broadcastWave(supabase, request) > 0) {
+    return request;
+  }
+
+  return await advanceSOSDispatch(supabase, request, { force: true });
+}
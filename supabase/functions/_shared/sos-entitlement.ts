@@ -0,0 +1,128 @@
+/**
+ * SOS entitlement and usage
+ * Whether a customer's next SOS request is covered by their SOS subscription or
+ * paid per use. All amounts are in pence.
+ *
+ * Rules:
+ * - SOS access comes from a customer_sos row in user_subscriptions (active, trialing
+ *   or past_due) or, failing that, profiles.sos_expires_at still in the future
+ * - subscribers get SOS_REQUESTS_PER_PERIOD requests per billing period - the
+ *   subscription's current period, or the calendar month for sos_expires_at access
+ * - only requests that are running or booked use up the allowance - searches that
+ *   found nobody, were cancelled or failed to book are given back
+ * - everyone else can still send a request, paying SOS_PAY_PER_USE_FEE on top of
+ *   the booking price once a provider accepts
+ *
+ * Limits mirror SUBSCRIPTION_PRODUCTS.CUSTOMER_SOS.limits and SOS_PAY_PER_USE in
+ * src/lib/payment/subscription-config.ts - change them together.
+ */
+
+import { ENTITLED_STATUSES } from './subscriptions.ts';
+
+export const SOS_REQUESTS_PER_PERIOD = 3;
+export const SOS_PAY_PER_USE_FEE = 499;
+
+export type SOSEntitlementType = 'subscription' | 'pay_per_use';
+
+// sos_requests statuses that use up a subscriber's allowance
+const COUNTED_STATUSES = ['searching', 'accepted', 'booked'];
+
+export interface SOSEntitlement {
+  source: 'subscription' | 'sos_access' | null; // null - no SOS access, pay per use only
+  periodStart: string | null;
+  periodEnd: string | null;
+  included: number;
+  used: number;
+  remaining: number;
+  nextRequest: SOSEntitlementType;
+  payPerUseFee: number; // charged on the next request - 0 when it's covered
+}
+
+function monthBounds(now: Date) {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * SOS access and this period's usage for a customer
+ */
+export async function getSOSEntitlement(supabase: any, customerId: string, now = new Date()): Promise<SOSEntitlement> {
+  const { data: subscription, error: subscriptionError } = await supabase
+    .from('user_subscriptions')
+    .select('current_period_start, current_period_end')
+    .eq('user_id', customerId)
+    .eq('type', 'customer_sos')
+    .in('status', ENTITLED_STATUSES)
+    .order('current_period_end', { ascending: false, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (subscriptionError) {
+    throw new Error(`Failed to load SOS subscription: ${subscriptionError.message}`);
+  }
+
+  let source: SOSEntitlement['source'] = null;
+  let periodStart: Date | null = null;
+  let periodEnd: Date | null = null;
+
+  if (subscription && (!subscription.current_period_end || new Date(subscription.current_period_end) > now)) {
+    const month = monthBounds(now);
+    source = 'subscription';
+    periodStart = subscription.current_period_start ? new Date(subscription.current_period_start) : month.start;
+    periodEnd = subscription.current_period_end ? new Date(subscription.current_period_end) : month.end;
+  } else {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('sos_expires_at')
+      .eq('id', customerId)
+      .maybeSingle();
+
+    if (profile?.sos_expires_at && new Date(profile.sos_expires_at) > now) {
+      const month = monthBounds(now);
+      source = 'sos_access';
+      periodStart = month.start;
+      periodEnd = month.end;
+    }
+  }
+
+  if (!source || !periodStart) {
+    return {
+      source,
+      periodStart: null,
+      periodEnd: null,
+      included: 0,
+      used: 0,
+      remaining: 0,
+      nextRequest: 'pay_per_use',
+      payPerUseFee: SOS_PAY_PER_USE_FEE,
+    };
+  }
+
+  const { count, error: countError } = await supabase
+    .from('sos_requests')
+    .select('id', { count: 'exact', head: true })
+    .eq('customer_id', customerId)
+    .eq('entitlement', 'subscription')
+    .in('status', COUNTED_STATUSES)
+    .gte('created_at', periodStart.toISOString());
+
+  if (countError) {
+    throw new Error(`Failed to count SOS requests: ${countError.message}`);
+  }
+
+  const used = count || 0;
+  const remaining = Math.max(SOS_REQUESTS_PER_PERIOD - used, 0);
+
+  return {
+    source,
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd?.toISOString() || null,
+    included: SOS_REQUESTS_PER_PERIOD,
+    used,
+    remaining,
+    nextRequest: remaining > 0 ? 'subscription' : 'pay_per_use',
+    payPerUseFee: remaining > 0 ? 0 : SOS_PAY_PER_USE_FEE,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Storage cleanup helpers for edge functions (retention purge and account erasure)
+ * Buckets in use:
+ * - verification-images (private): providers/{provider_id}/... - ID documents, selfies,
+ *   portfolio, bio and business files
+ * - service-images: providers/{provider_id}/services/...
+ * - chat-images (private): conversations/{conversation_id}/{file}
+ */
+
+// Storage API limit for a single remove call
+const REMOVE_BATCH_SIZE = 100;
+const LIST_PAGE_SIZE = 1000;
+
+/**
+ * Object path inside bucket for a stored URL or path
+ * Handles public and signed URLs as well as bare paths (with or without the bucket prefix).
+ */
+export function storageObjectPath(bucket: string, stored: string | null | undefined): string | null {
+  if (!stored) return null;
+
+  let path = stored;
+  for (const marker of ['/storage/v1/object/public/', '/storage/v1/object/sign/']) {
+    if (path.includes(marker)) {
+      path = path.split(marker)[1].split('?')[0];
+      break;
+    }
+  }
+
+  if (path.startsWith(`${bucket}/`)) {
+    path = path.slice(bucket.length + 1);
+  }
+
+  return decodeURIComponent(path) || null;
+}
+
+/**
+ * Every object under prefix, walking sub-folders
+ */
+export async function listObjectsRecursive(supabase: any, bucket: string, prefix: string): Promise<string[]> {
+  const paths: string[] = [];
+  const folders = [prefix.replace(/\/$/, '')];
+
+  while (folders.length > 0) {
+    const folder = folders.pop()!;
+
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await supabase.storage
+        .from(bucket)
+        .list(folder, { limit: LIST_PAGE_SIZE, offset });
+
+      if (error) {
+        console.error('[StorageCleanup] Failed to list', bucket, folder, error);
+        break;
+      }
+
+      for (const entry of data || []) {
+        if (entry.name === '.emptyFolderPlaceholder') continue;
+        // Folders come back without an id
+        if (entry.id === null) {
+          folders.push(`${folder}/${entry.name}`);
+        } else {
+          paths.push(`${folder}/${entry.name}`);
+        }
+      }
+
+      if (!data || data.length < LIST_PAGE_SIZE) break;
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Delete objects in batches - returns the paths storage actually removed
+ */
+export async function removeObjects(supabase: any, bucket: string, paths: string[]): Promise<string[]> {
+  const removed: string[] = [];
+  const unique = Array.from(new Set(paths.filter(Boolean)));
+
+  for (let i = 0; i < unique.length; i += REMOVE_BATCH_SIZE) {
+    const batch = unique.slice(i, i + REMOVE_BATCH_SIZE);
+    const { data, error } = await supabase.storage.from(bucket).remove(batch);
+
+    if (error) {
+      console.error('[StorageCleanup] Failed to remove objects from', bucket, error);
+      continue;
+    }
+
+    removed.push(...(data || []).map((object: any) => object.name));
+  }
+
+  return removed;
+}
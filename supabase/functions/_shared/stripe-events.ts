@@ -0,0 +1,32 @@
+/**
+ * Typed Stripe event routing
+ * Handlers are keyed by event type and receive the narrowed event, so
+ * event.data.object is already the right Stripe object for that type.
+ * stripe-webhook and stripe-webhook/replay.ts route events through the same map.
+ */
+
+import Stripe from 'https://esm.sh/stripe@14.21.0';
+
+export type StripeEventType = Stripe.Event['type'];
+
+export type StripeEventOf<T extends StripeEventType> = Extract<Stripe.Event, { type: T }>;
+
+export type StripeEventHandler<T extends StripeEventType> = (event: StripeEventOf<T>) => Promise<void>;
+
+export type StripeEventHandlers = {
+  [T in StripeEventType]?: StripeEventHandler<T>;
+};
+
+/**
+ * Run the handler registered for the event's type
+ * Returns false when nothing handles the event.
+ */
+export async function routeStripeEvent(event: Stripe.Event, handlers: StripeEventHandlers): Promise<boolean> {
+  const handler = handlers[event.type] as ((event: Stripe.Event) => Promise<void>) | undefined;
+  if (!handler) {
+    return false;
+  }
+
+  await handler(event);
+  return true;
+}
@@ -0,0 +1,358 @@
+/**
+ * Subscription state from Stripe events
+ * The one place webhooks write user_subscriptions and the profile flags
+ * (has_sos_subscription, has_premium_subscription). stripe-webhook routes the
+ * customer.subscription.* and invoice.* events here and stripe-webhook/replay.ts
+ * replays stored events through the same handlers.
+ *
+ * State rules:
+ * - customer.subscription.* events carry the full subscription and are authoritative
+ * - invoice events only move the status along (paid: past_due/incomplete → active,
+ *   failed: active/trialing → past_due) - the subscription event that follows
+ *   brings the rest of the row up to date
+ * - events older than the last one applied to a subscription are ignored, so
+ *   Stripe delivering out of order can't roll the status back
+ * - profile flags are recomputed from all of the user's subscriptions after every change
+ */
+
+import Stripe from 'https://esm.sh/stripe@14.21.0';
+import { sendPushToUser } from './push.ts';
+import type { StripeEventHandlers } from './stripe-events.ts';
+
+export type SubscriptionType = 'customer_sos' | 'provider_premium';
+export type SubscriptionStatus = 'active' | 'canceled' | 'past_due' | 'incomplete' | 'trialing';
+
+// Subscription features stay on while Stripe retries a failed renewal (past_due)
+export const ENTITLED_STATUSES: SubscriptionStatus[] = ['active', 'trialing', 'past_due'];
+
+const PROFILE_FLAGS: Record<SubscriptionType, 'has_sos_subscription' | 'has_premium_subscription'> = {
+  customer_sos: 'has_sos_subscription',
+  provider_premium: 'has_premium_subscription',
+};
+
+// Price IDs from every Stripe account the app has billed through
+const PRICE_TYPES: Record<string, SubscriptionType> = {
+  // Main account (acct_1S7ef2IO9K9pFTMD)
+  price_1SHvyvIO9K9pFTMD94e5xesf: 'customer_sos',
+  price_1SHvxpIO9K9pFTMDPQgXV4xI: 'provider_premium',
+  // Sandbox account (acct_1S7efRILA2CYnzre)
+  price_1SHv9EILA2CYnzreYIyr8gn1: 'customer_sos',
+  price_1SHv9GILA2CYnzre7wUjFnfL: 'provider_premium',
+  // Personal account (acct_1S9x3XENAHMeamEY)
+  price_1SBWW4ENAHMeamEYNObfzeCr: 'customer_sos',
+  price_1SBWaVENAHMeamEYAi2o6NQg: 'provider_premium',
+};
+
+const SUBSCRIPTION_COLUMNS = 'id, user_id, type, status, last_event_at';
+
+/**
+ * Subscription type for a price - configured price IDs first, then known IDs,
+ * then the subscription_type create-subscription puts in the metadata
+ */
+export function getSubscriptionType(
+  priceId: string | null | undefined,
+  metadata?: Record<string, string> | null,
+): SubscriptionType | null {
+  if (priceId) {
+    if (priceId === Deno.env.get('STRIPE_CUSTOMER_SOS_PRICE_ID')) return 'customer_sos';
+    if (priceId === Deno.env.get('STRIPE_PROVIDER_PREMIUM_PRICE_ID')) return 'provider_premium';
+    if (PRICE_TYPES[priceId]) return PRICE_TYPES[priceId];
+  }
+
+  const fromMetadata = metadata?.subscription_type;
+  if (fromMetadata === 'customer_sos' || fromMetadata === 'provider_premium') {
+    return fromMetadata;
+  }
+
+  return null;
+}
+
+/**
+ * Stripe subscription status as stored in user_subscriptions
+ * Stripe statuses the enum doesn't have all mean the subscription no longer grants access.
+ */
+export function toSubscriptionStatus(status: Stripe.Subscription.Status): SubscriptionStatus {
+  switch (status) {
+    case 'active':
+    case 'trialing':
+    case 'past_due':
+    case 'incomplete':
+    case 'canceled':
+      return status;
+    case 'incomplete_expired':
+    case 'unpaid':
+    case 'paused':
+    default:
+      return 'canceled';
+  }
+}
+
+/**
+ * Status after an invoice for the subscription was paid or failed
+ */
+export function statusAfterInvoice(current: SubscriptionStatus, outcome: 'paid' | 'failed'): SubscriptionStatus {
+  if (outcome === 'paid') {
+    return current === 'past_due' || current === 'incomplete' ? 'active' : current;
+  }
+
+  return current === 'active' || current === 'trialing' ? 'past_due' : current;
+}
+
+/**
+ * Profile flags for a user's subscriptions
+ */
+export function profileEntitlements(subscriptions: Array<{ type: SubscriptionType; status: SubscriptionStatus }>) {
+  const entitled = (type: SubscriptionType) =>
+    subscriptions.some((subscription) => subscription.type === type && ENTITLED_STATUSES.includes(subscription.status));
+
+  return {
+    [PROFILE_FLAGS.customer_sos]: entitled('customer_sos'),
+    [PROFILE_FLAGS.provider_premium]: entitled('provider_premium'),
+  } as Record<'has_sos_subscription' | 'has_premium_subscription', boolean>;
+}
+
+const toIso = (seconds: number | null | undefined) => (seconds ? new Date(seconds * 1000).toISOString() : null);
+
+// Billing periods moved from the subscription to its items in API version 2025-03-31.basil
+function periodBounds(subscription: Stripe.Subscription) {
+  const item: any = subscription.items?.data?.[0];
+  const legacy = subscription as any;
+  return {
+    current_period_start: toIso(legacy.current_period_start ?? item?.current_period_start),
+    current_period_end: toIso(legacy.current_period_end ?? item?.current_period_end),
+  };
+}
+
+// ...as did the invoice's subscription (now under parent.subscription_details)
+function invoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  const legacy = invoice as any;
+  const subscription = legacy.subscription ?? legacy.parent?.subscription_details?.subscription;
+  return typeof subscription === 'string' ? subscription : subscription?.id || null;
+}
+
+const isStale = (row: { last_event_at: string | null } | null, eventAt: string) =>
+  !!row?.last_event_at && new Date(row.last_event_at).getTime() > new Date(eventAt).getTime();
+
+async function findSubscriptionRow(supabase: any, stripeSubscriptionId: string) {
+  const { data, error } = await supabase
+    .from('user_subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq('stripe_subscription_id', stripeSubscriptionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Subscription lookup failed: ${error.message}`);
+  }
+
+  return data;
+}
+
+async function findUserId(supabase: any, subscription: Stripe.Subscription, existingUserId?: string | null) {
+  if (subscription.metadata?.supabase_user_id) {
+    return subscription.metadata.supabase_user_id;
+  }
+  if (existingUserId) {
+    return existingUserId;
+  }
+
+  const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer?.id;
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle();
+
+  return profile?.id || null;
+}
+
+/**
+ * When SOS access ends - the latest period end of the entitled SOS subscriptions
+ */
+export function sosAccessExpiry(
+  subscriptions: Array<{ type: SubscriptionType; status: SubscriptionStatus; current_period_end?: string | null }>,
+): string | null {
+  const periodEnds = subscriptions
+    .filter((subscription) => subscription.type === 'customer_sos' && ENTITLED_STATUSES.includes(subscription.status))
+    .map((subscription) => subscription.current_period_end)
+    .filter((periodEnd): periodEnd is string => !!periodEnd)
+    .sort();
+
+  return periodEnds[periodEnds.length - 1] || null;
+}
+
+/**
+ * Recompute has_sos_subscription / has_premium_subscription from the user's subscriptions
+ * sos_expires_at follows the SOS subscription too - it's left alone for users who never
+ * had one, so SOS access granted outside Stripe isn't cleared.
+ */
+export async function syncProfileEntitlements(supabase: any, userId: string) {
+  const { data: subscriptions, error } = await supabase
+    .from('user_subscriptions')
+    .select('type, status, current_period_end')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load subscriptions: ${error.message}`);
+  }
+
+  const flags = profileEntitlements(subscriptions || []);
+  const hasSOSSubscriptions = (subscriptions || []).some((subscription: any) => subscription.type === 'customer_sos');
+  const { error: updateError } = await supabase
+    .from('profiles')
+    .update(hasSOSSubscriptions ? { ...flags, sos_expires_at: sosAccessExpiry(subscriptions) } : flags)
+    .eq('id', userId);
+
+  if (updateError) {
+    throw new Error(`Failed to update subscription flags: ${updateError.message}`);
+  }
+
+  return flags;
+}
+
+/**
+ * customer.subscription.created / updated / deleted
+ */
+export async function applySubscriptionEvent(supabase: any, subscription: Stripe.Subscription, eventAt: string) {
+  const existing = await findSubscriptionRow(supabase, subscription.id);
+
+  if (isStale(existing, eventAt)) {
+    console.log(`[Subscriptions] ↪️ Skipping out-of-date event for ${subscription.id}`);
+    return;
+  }
+
+  const userId = await findUserId(supabase, subscription, existing?.user_id);
+  if (!userId) {
+    console.error(`[Subscriptions] ❌ No user for subscription ${subscription.id} (customer ${subscription.customer})`);
+    return;
+  }
+
+  const priceId = subscription.items?.data?.[0]?.price?.id || null;
+  const type = getSubscriptionType(priceId, subscription.metadata) || existing?.type;
+  if (!type) {
+    console.error(`[Subscriptions] ❌ Unknown price ${priceId} for subscription ${subscription.id}`);
+    return;
+  }
+
+  const status = toSubscriptionStatus(subscription.status);
+  const { error } = await supabase
+    .from('user_subscriptions')
+    .upsert({
+      user_id: userId,
+      stripe_subscription_id: subscription.id,
+      stripe_customer_id: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer?.id,
+      type,
+      status,
+      ...periodBounds(subscription),
+      trial_end: toIso(subscription.trial_end),
+      cancel_at_period_end: subscription.cancel_at_period_end || false,
+      price_id: priceId,
+      last_event_at: eventAt,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'stripe_subscription_id'
+    });
+
+  if (error) {
+    throw new Error(`Failed to save subscription ${subscription.id}: ${error.message}`);
+  }
+
+  const flags = await syncProfileEntitlements(supabase, userId);
+  console.log(`[Subscriptions] ✅ ${subscription.id} (${type}) → ${status}`, flags);
+}
+
+/**
+ * invoice.payment_succeeded / invoice.payment_failed
+ */
+export async function applyInvoiceOutcome(
+  supabase: any,
+  invoice: Stripe.Invoice,
+  outcome: 'paid' | 'failed',
+  eventAt: string,
+) {
+  const subscriptionId = invoiceSubscriptionId(invoice);
+  if (!subscriptionId) return;
+
+  const existing = await findSubscriptionRow(supabase, subscriptionId);
+  if (!existing) {
+    // The subscription event creates the row with the current status
+    console.log(`[Subscriptions] ⚠️ Invoice ${invoice.id} for unknown subscription ${subscriptionId}`);
+    return;
+  }
+
+  if (isStale(existing, eventAt)) {
+    console.log(`[Subscriptions] ↪️ Skipping out-of-date invoice event for ${subscriptionId}`);
+    return;
+  }
+
+  const status = statusAfterInvoice(existing.status, outcome);
+  const { error } = await supabase
+    .from('user_subscriptions')
+    .update({ status, last_event_at: eventAt, updated_at: new Date().toISOString() })
+    .eq('id', existing.id);
+
+  if (error) {
+    throw new Error(`Failed to update subscription ${subscriptionId}: ${error.message}`);
+  }
+
+  if (status !== existing.status) {
+    await syncProfileEntitlements(supabase, existing.user_id);
+  }
+
+  if (outcome === 'failed' && status === 'past_due' && existing.status !== 'past_due') {
+    await supabase.from('notifications').insert({
+      user_id: existing.user_id,
+      type: 'general',
+      title: 'Subscription payment failed',
+      message: 'We couldn\'t take your subscription payment. Please update your card to keep your subscription.',
+      data: { stripe_subscription_id: subscriptionId },
+      is_read: false
+    });
+  }
+
+  console.log(`[Subscriptions] ✅ Invoice ${invoice.id} ${outcome}: ${subscriptionId} ${existing.status} → ${status}`);
+}
+
+/**
+ * customer.subscription.trial_will_end - sent three days before the trial ends
+ */
+export async function notifyTrialEnding(supabase: any, subscription: Stripe.Subscription) {
+  const existing = await findSubscriptionRow(supabase, subscription.id);
+  const userId = await findUserId(supabase, subscription, existing?.user_id);
+  if (!userId) return;
+
+  const endsOn = subscription.trial_end
+    ? new Date(subscription.trial_end * 1000).toLocaleDateString('en-GB', { day: 'numeric', month: 'long' })
+    : 'soon';
+  const message = `Your free trial ends on ${endsOn}. Your card will be charged unless you cancel before then.`;
+
+  await supabase.from('notifications').insert({
+    user_id: userId,
+    type: 'general',
+    title: 'Trial ending soon',
+    message,
+    data: { stripe_subscription_id: subscription.id },
+    is_read: false
+  });
+
+  await sendPushToUser(supabase, userId, {
+    title: 'Trial ending soon',
+    body: message,
+    data: { type: 'general', stripe_subscription_id: subscription.id },
+  });
+}
+
+const eventTime = (event: Stripe.Event) => new Date(event.created * 1000).toISOString();
+
+/**
+ * Subscription event handlers for the Stripe event router
+ */
+export function subscriptionEventHandlers(supabase: any): StripeEventHandlers {
+  return {
+    'customer.subscription.created': (event) => applySubscriptionEvent(supabase, event.data.object, eventTime(event)),
+    'customer.subscription.updated': (event) => applySubscriptionEvent(supabase, event.data.object, eventTime(event)),
+    'customer.subscription.deleted': (event) => applySubscriptionEvent(supabase, event.data.object, eventTime(event)),
+    'customer.subscription.trial_will_end': (event) => notifyTrialEnding(supabase, event.data.object),
+    'invoice.payment_succeeded': (event) => applyInvoiceOutcome(supabase, event.data.object, 'paid', eventTime(event)),
+    'invoice.payment_failed': (event) => applyInvoiceOutcome(supabase, event.data.object, 'failed', eventTime(event)),
+  };
+}
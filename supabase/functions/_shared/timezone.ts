@@ -0,0 +1,103 @@
+/**
+ * Time zone helpers for edge functions
+ *
+ * bookings.booking_date / start_time are wall-clock values in the provider's
+ * time zone (profiles.timezone). These helpers convert them to real instants
+ * without pulling in a date library.
+ */
+
+export const DEFAULT_TIMEZONE = 'Europe/London';
+
+const isValidTimeZone = (timeZone: string | null | undefined): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const resolveTimeZone = (timeZone: string | null | undefined): string =>
+  isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+
+/**
+ * Offset (ms) between UTC and the given zone at a specific instant
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock date + time in a zone to a UTC Date
+ * e.g. zonedTimeToUtc('2025-06-01', '09:30:00', 'Europe/London') → 2025-06-01T08:30:00Z
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour = 0, minute = 0, second = 0] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  const zone = resolveTimeZone(timeZone);
+  let offset = getTimeZoneOffsetMs(new Date(wallClockAsUtc), zone);
+  let result = wallClockAsUtc - offset;
+
+  // Re-check once around DST transitions
+  const adjustedOffset = getTimeZoneOffsetMs(new Date(result), zone);
+  if (adjustedOffset !== offset) {
+    offset = adjustedOffset;
+    result = wallClockAsUtc - offset;
+  }
+
+  return new Date(result);
+}
+
+/**
+ * Human readable date/time in the recipient's zone, e.g. "Mon 2 Jun, 09:30"
+ */
+export function formatInTimeZone(date: Date, timeZone: string | null | undefined): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: resolveTimeZone(timeZone),
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(date);
+}
+
+/**
+ * Wall-clock date and time of an instant in a zone, in the bookings format
+ * e.g. (2025-06-01T08:30:00Z, 'Europe/London') → { date: '2025-06-01', time: '09:30' }
+ */
+export function utcToZonedTime(date: Date, timeZone: string | null | undefined): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: resolveTimeZone(timeZone),
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '00';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+  };
+}
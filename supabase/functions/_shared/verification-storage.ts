@@ -0,0 +1,84 @@
+/**
+ * Verification image storage for edge functions
+ * ID documents and selfies live in the private verification-images bucket. The app
+ * stores either the object path (provider_verification_documents.document_url) or a
+ * long-lived signed URL (profiles.selfie_verification_url) - both resolve to the
+ * same object path here, mirroring StoragePathUtils.extractFilePathFromUrl in
+ * src/lib/storage/storage-paths.ts.
+ */
+
+export const VERIFICATION_BUCKET = 'verification-images';
+
+/**
+ * Object path inside the verification bucket for a stored URL or path
+ */
+export function verificationObjectPath(stored: string | null | undefined): string | null {
+  if (!stored) return null;
+
+  let path = stored;
+  for (const marker of ['/storage/v1/object/public/', '/storage/v1/object/sign/']) {
+    if (path.includes(marker)) {
+      path = path.split(marker)[1].split('?')[0];
+      break;
+    }
+  }
+
+  if (path.startsWith(`${VERIFICATION_BUCKET}/`)) {
+    path = path.slice(VERIFICATION_BUCKET.length + 1);
+  }
+
+  return decodeURIComponent(path);
+}
+
+/**
+ * Short-lived signed URL for a verification image, null when it can't be signed
+ */
+export async function signVerificationImage(
+  supabase: any,
+  stored: string | null | undefined,
+  expiresInSeconds: number,
+): Promise<string | null> {
+  const path = verificationObjectPath(stored);
+  if (!path) return null;
+
+  const { data, error } = await supabase.storage
+    .from(VERIFICATION_BUCKET)
+    .createSignedUrl(path, expiresInSeconds);
+
+  if (error || !data?.signedUrl) {
+    console.error('[VerificationStorage] Failed to sign', path, error);
+    return null;
+  }
+
+  return data.signedUrl;
+}
+
+/**
+ * Organized folders for a provider's verification images
+ * Mirrors ProviderVerificationPaths in src/lib/storage/storage-paths.ts
+ */
+export const verificationFolders = (providerId: string) => ({
+  root: `providers/${providerId}`,
+  document: `providers/${providerId}/document-verification`,
+  selfie: `providers/${providerId}/selfie`,
+});
+
+/**
+ * Where a legacy object belongs in the organized layout, or null when it's already there
+ * Same folders as PathMigrationHelper.migrateToOrganizedPath, but the file name is kept -
+ * a provider can have several uploads of the same type, and it's where the document
+ * step already looks for moved files.
+ */
+export function organizedVerificationPath(
+  path: string,
+  providerId: string,
+  kind: 'document' | 'selfie',
+): string | null {
+  const folders = verificationFolders(providerId);
+  if (path.startsWith(`${folders.root}/`)) return null;
+
+  const fileName = path.split('/').pop();
+  if (!fileName) return null;
+
+  return `${folders[kind]}/${fileName}`;
+}
@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -125,9 +126,14 @@ Deno.serve(async (req) => {
       );
     }
 
-    // TODO: Send notification to customer about booking acceptance
     console.log('Booking accepted successfully:', booking_id);
-    console.log('TODO: Send push notification to customer:', booking.customer_id);
+
+    // Notify customer
+    await sendPushToUser(supabaseService, booking.customer_id, {
+      title: 'Booking confirmed ✅',
+      body: `Your booking on ${booking.booking_date} at ${booking.start_time?.slice(0, 5)} has been confirmed.`,
+      data: { type: 'booking_confirmed', booking_id, url: `/(customer)/booking/${booking_id}` },
+    });
 
     return new Response(
       JSON.stringify({
@@ -0,0 +1,582 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
+import { signVerificationImage } from '../_shared/verification-storage.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+type ReviewAction = 'queue' | 'detail' | 'start_review' | 'review_document' | 'review_selfie' | 'decide';
+type ReviewDecision = 'approved' | 'rejected';
+
+interface AdminVerificationReviewRequest {
+  action: ReviewAction;
+  // everything but queue
+  provider_id?: string;
+  // review_document
+  document_id?: string;
+  // review_document / review_selfie / decide
+  decision?: ReviewDecision;
+  // required when rejecting
+  reason?: string;
+  // decide (rejected) - other steps to send back, besides a rejected document / selfie
+  steps?: StepRejection[];
+}
+
+interface StepRejection {
+  step_number: number;
+  reason: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const ADMIN_ROLES = ['admin', 'super-admin'];
+// Providers waiting for (or in) review
+const QUEUE_STATUSES = ['submitted', 'in_review'];
+// Previews are only needed while the reviewer has the screen open
+const PREVIEW_URL_TTL_SECONDS = 10 * 60;
+// Verification steps (VERIFICATION_STEPS in src/lib/verification/verification-flow-manager.ts)
+const DOCUMENT_STEP = 1;
+const SELFIE_STEP = 2;
+// Steps 3-7 (business info to terms) can be sent back with a reason of their own
+const RESUBMITTABLE_STEPS = [3, 4, 5, 6, 7];
+
+class VerificationReviewError extends Error {
+  constructor(
+    public code: 'FORBIDDEN' | 'PROVIDER_NOT_FOUND' | 'DOCUMENT_NOT_FOUND' | 'NOT_REVIEWABLE' | 'REASON_REQUIRED' | 'REVIEW_INCOMPLETE' | 'INVALID_STEP',
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+const displayName = (profile: any) =>
+  profile?.business_name || [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || profile?.email || 'Provider';
+
+async function loadProgress(supabase: any, providerId: string) {
+  const { data: progress, error } = await supabase
+    .from('provider_onboarding_progress')
+    .select('*')
+    .eq('provider_id', providerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load onboarding progress: ${error.message}`);
+  }
+  if (!progress) {
+    throw new VerificationReviewError('PROVIDER_NOT_FOUND', 'Provider verification not found', 404);
+  }
+
+  return progress;
+}
+
+// Documents and the selfie can only be reviewed while the provider is in the queue
+function assertReviewable(progress: any) {
+  if (!QUEUE_STATUSES.includes(progress.verification_status)) {
+    throw new VerificationReviewError(
+      'NOT_REVIEWABLE',
+      `This provider is ${progress.verification_status || 'not submitted'} and can't be reviewed`,
+      409,
+    );
+  }
+}
+
+async function recordAudit(supabase: any, entry: {
+  provider_id: string;
+  actor_id: string;
+  action: Exclude<ReviewAction, 'queue' | 'detail'>;
+  target: 'provider' | 'document' | 'selfie';
+  document_id?: string | null;
+  from_status: string | null;
+  to_status: string;
+  reason?: string | null;
+  metadata?: Record<string, unknown>;
+}) {
+  const { error } = await supabase.from('verification_audit_log').insert({
+    ...entry,
+    reason: entry.reason || null,
+    metadata: entry.metadata || {},
+  });
+
+  if (error) {
+    throw new Error(`Failed to write verification audit log: ${error.message}`);
+  }
+}
+
+/**
+ * Steps the provider has to redo: a rejected current document or selfie plus any
+ * steps the reviewer sent back
+ */
+async function collectRejectedSteps(supabase: any, progress: any, steps: StepRejection[]): Promise<StepRejection[]> {
+  const rejected = new Map<number, string>();
+
+  const { data: latestDocument } = await supabase
+    .from('provider_verification_documents')
+    .select('verification_status, rejection_reason')
+    .eq('provider_id', progress.provider_id)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestDocument?.verification_status === 'rejected') {
+    rejected.set(DOCUMENT_STEP, latestDocument.rejection_reason || 'Your identity document was not accepted');
+  }
+  if (progress.selfie_verification_status === 'rejected') {
+    rejected.set(SELFIE_STEP, progress.selfie_rejection_reason || 'Your selfie was not accepted');
+  }
+
+  for (const step of steps) {
+    if (!RESUBMITTABLE_STEPS.includes(step.step_number)) {
+      throw new VerificationReviewError('INVALID_STEP', `Step ${step.step_number} can't be sent back`);
+    }
+    if (!step.reason?.trim()) {
+      throw new VerificationReviewError('REASON_REQUIRED', 'Give a reason for every step you send back');
+    }
+    rejected.set(step.step_number, step.reason.trim());
+  }
+
+  return [...rejected.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([step_number, reason]) => ({ step_number, reason }));
+}
+
+/**
+ * Verification review for admins and super-admins
+ * - queue: providers who have submitted, oldest first
+ * - detail: profile, documents and selfie (short-lived signed previews) and the audit trail
+ * - start_review: claim a submitted provider (submitted -> in_review)
+ * - review_document / review_selfie: approve or reject one item, with a reason when rejecting
+ * - decide: approve or reject the provider and let them know - a rejection sends
+ *   back only the rejected steps (provider_verification_step_progress) for resubmission
+ * Every change is written to verification_audit_log.
+ */
+Deno.serve(async (req) => {
+  console.log('=== ADMIN VERIFICATION REVIEW FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Authorization required' }, 401);
+    }
+
+    let userId: string;
+    try {
+      const jwtParts = authHeader.replace('Bearer ', '').split('.');
+      const payload = JSON.parse(atob(jwtParts[1]));
+      userId = payload.sub;
+
+      if (!userId) {
+        throw new Error('Invalid user ID in JWT');
+      }
+    } catch (error) {
+      console.error('JWT parsing error:', error);
+      return jsonResponse({ error: 'Invalid authentication token' }, 401);
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: reviewer } = await supabaseService
+      .from('profiles')
+      .select('role')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (!reviewer || !ADMIN_ROLES.includes(reviewer.role)) {
+      throw new VerificationReviewError('FORBIDDEN', 'Only admins can review verifications', 403);
+    }
+
+    const { action, provider_id, document_id, decision, reason, steps }: AdminVerificationReviewRequest =
+      await req.json().catch(() => ({}));
+
+    if (!action) {
+      return jsonResponse({ error: 'action is required' }, 400);
+    }
+    if (action !== 'queue' && !provider_id) {
+      return jsonResponse({ error: 'provider_id is required' }, 400);
+    }
+    if (action === 'review_document' || action === 'review_selfie' || action === 'decide') {
+      if (decision !== 'approved' && decision !== 'rejected') {
+        return jsonResponse({ error: 'decision must be approved or rejected' }, 400);
+      }
+      if (decision === 'rejected' && !reason?.trim()) {
+        throw new VerificationReviewError('REASON_REQUIRED', 'Give the provider a reason for the rejection');
+      }
+    }
+
+    const trimmedReason = reason?.trim() || null;
+    const now = new Date().toISOString();
+
+    switch (action) {
+      case 'queue': {
+        const { data: queue, error } = await supabaseService
+          .from('provider_onboarding_progress')
+          .select('provider_id, verification_status, current_step, updated_at, completed_at')
+          .in('verification_status', QUEUE_STATUSES)
+          .order('updated_at', { ascending: true });
+
+        if (error) {
+          throw new Error(`Failed to load verification queue: ${error.message}`);
+        }
+
+        const providerIds = (queue || []).map((entry: any) => entry.provider_id);
+        const { data: profiles } = providerIds.length
+          ? await supabaseService
+            .from('profiles')
+            .select('id, first_name, last_name, business_name, email, avatar_url')
+            .in('id', providerIds)
+          : { data: [] };
+
+        const profilesById = new Map((profiles || []).map((profile: any) => [profile.id, profile]));
+
+        return jsonResponse({
+          queue: (queue || []).map((entry: any) => {
+            const profile: any = profilesById.get(entry.provider_id);
+            return {
+              provider_id: entry.provider_id,
+              name: displayName(profile),
+              email: profile?.email || null,
+              avatar_url: profile?.avatar_url || null,
+              verification_status: entry.verification_status,
+              submitted_at: entry.completed_at || entry.updated_at,
+            };
+          }),
+        });
+      }
+
+      case 'detail': {
+        const progress = await loadProgress(supabaseService, provider_id!);
+
+        const [{ data: profile }, { data: documents }, { data: auditLog }, { data: stepReviews }] = await Promise.all([
+          supabaseService
+            .from('profiles')
+            .select('id, first_name, last_name, business_name, email, phone_number, address, years_of_experience, avatar_url, selfie_verification_url, created_at')
+            .eq('id', provider_id)
+            .single(),
+          supabaseService
+            .from('provider_verification_documents')
+            .select('id, document_type, document_url, verification_status, rejection_reason, verified_at, verified_by, expiry_date, image_purged_at, metadata, created_at')
+            .eq('provider_id', provider_id)
+            .order('created_at', { ascending: false }),
+          supabaseService
+            .from('verification_audit_log')
+            .select('id, actor_id, action, target, document_id, from_status, to_status, reason, created_at')
+            .eq('provider_id', provider_id)
+            .order('created_at', { ascending: false }),
+          // Steps sent back last time and whether they've been redone
+          supabaseService
+            .from('provider_verification_step_progress')
+            .select('step_number, status, error_message, updated_at')
+            .eq('provider_id', provider_id)
+            .in('status', ['rejected', 'resubmitted'])
+            .order('step_number'),
+        ]);
+
+        const actorIds = [...new Set((auditLog || []).map((entry: any) => entry.actor_id).filter(Boolean))];
+        const { data: actors } = actorIds.length
+          ? await supabaseService.from('profiles').select('id, first_name, last_name, email').in('id', actorIds)
+          : { data: [] };
+        const actorsById = new Map((actors || []).map((actor: any) => [actor.id, displayName(actor)]));
+
+        const signedDocuments = await Promise.all((documents || []).map(async (document: any) => {
+          const { document_url, metadata, ...rest } = document;
+          return {
+            ...rest,
+            // On-device quality pre-check scores recorded at upload
+            quality_check: metadata?.quality_check ?? null,
+            preview_url: await signVerificationImage(supabaseService, document_url, PREVIEW_URL_TTL_SECONDS),
+          };
+        }));
+
+        return jsonResponse({
+          provider: {
+            id: profile.id,
+            name: displayName(profile),
+            email: profile.email,
+            phone_number: profile.phone_number,
+            address: profile.address,
+            years_of_experience: profile.years_of_experience,
+            avatar_url: profile.avatar_url,
+            joined_at: profile.created_at,
+          },
+          progress: {
+            verification_status: progress.verification_status,
+            current_step: progress.current_step,
+            submitted_at: progress.completed_at || progress.updated_at,
+            rejection_reason: progress.rejection_reason,
+          },
+          documents: signedDocuments,
+          selfie: {
+            preview_url: await signVerificationImage(supabaseService, profile.selfie_verification_url, PREVIEW_URL_TTL_SECONDS),
+            verification_status: progress.selfie_verification_status || (profile.selfie_verification_url ? 'pending' : null),
+            rejection_reason: progress.selfie_rejection_reason,
+            verified_at: progress.selfie_verified_at,
+            quality_check: progress.selfie_metadata?.quality_check ?? null,
+            image_purged_at: progress.selfie_image_purged_at ?? null,
+          },
+          step_reviews: stepReviews || [],
+          audit_log: (auditLog || []).map((entry: any) => ({
+            ...entry,
+            actor_name: entry.actor_id ? actorsById.get(entry.actor_id) || 'Admin' : null,
+          })),
+          expires_in: PREVIEW_URL_TTL_SECONDS,
+        });
+      }
+
+      case 'start_review': {
+        const progress = await loadProgress(supabaseService, provider_id!);
+        if (progress.verification_status === 'in_review') {
+          return jsonResponse({ success: true, verification_status: 'in_review' });
+        }
+        if (progress.verification_status !== 'submitted') {
+          throw new VerificationReviewError('NOT_REVIEWABLE', 'Only submitted verifications can be picked up', 409);
+        }
+
+        // Conditional so two reviewers picking up the same provider both log sensibly
+        const { data: claimed } = await supabaseService
+          .from('provider_onboarding_progress')
+          .update({ verification_status: 'in_review', updated_at: now })
+          .eq('provider_id', provider_id)
+          .eq('verification_status', 'submitted')
+          .select('id')
+          .maybeSingle();
+
+        if (claimed) {
+          await recordAudit(supabaseService, {
+            provider_id: provider_id!,
+            actor_id: userId,
+            action: 'start_review',
+            target: 'provider',
+            from_status: 'submitted',
+            to_status: 'in_review',
+          });
+        }
+
+        return jsonResponse({ success: true, verification_status: 'in_review' });
+      }
+
+      case 'review_document': {
+        if (!document_id) {
+          return jsonResponse({ error: 'document_id is required' }, 400);
+        }
+
+        assertReviewable(await loadProgress(supabaseService, provider_id!));
+
+        const { data: document } = await supabaseService
+          .from('provider_verification_documents')
+          .select('id, document_type, verification_status')
+          .eq('id', document_id)
+          .eq('provider_id', provider_id)
+          .maybeSingle();
+
+        if (!document) {
+          throw new VerificationReviewError('DOCUMENT_NOT_FOUND', 'Document not found', 404);
+        }
+
+        const { error } = await supabaseService
+          .from('provider_verification_documents')
+          .update({
+            verification_status: decision,
+            rejection_reason: decision === 'rejected' ? trimmedReason : null,
+            verified_by: userId,
+            verified_at: now,
+            updated_at: now,
+          })
+          .eq('id', document.id);
+
+        if (error) {
+          throw new Error(`Failed to update document: ${error.message}`);
+        }
+
+        await recordAudit(supabaseService, {
+          provider_id: provider_id!,
+          actor_id: userId,
+          action: 'review_document',
+          target: 'document',
+          document_id: document.id,
+          from_status: document.verification_status,
+          to_status: decision!,
+          reason: trimmedReason,
+          metadata: { document_type: document.document_type },
+        });
+
+        return jsonResponse({ success: true });
+      }
+
+      case 'review_selfie': {
+        const progress = await loadProgress(supabaseService, provider_id!);
+        assertReviewable(progress);
+
+        const { error } = await supabaseService
+          .from('provider_onboarding_progress')
+          .update({
+            selfie_verification_status: decision,
+            selfie_rejection_reason: decision === 'rejected' ? trimmedReason : null,
+            selfie_verified_by: userId,
+            selfie_verified_at: now,
+            updated_at: now,
+          })
+          .eq('provider_id', provider_id);
+
+        if (error) {
+          throw new Error(`Failed to update selfie review: ${error.message}`);
+        }
+
+        await recordAudit(supabaseService, {
+          provider_id: provider_id!,
+          actor_id: userId,
+          action: 'review_selfie',
+          target: 'selfie',
+          from_status: progress.selfie_verification_status || 'pending',
+          to_status: decision!,
+          reason: trimmedReason,
+        });
+
+        return jsonResponse({ success: true });
+      }
+
+      case 'decide': {
+        const progress = await loadProgress(supabaseService, provider_id!);
+        assertReviewable(progress);
+
+        if (decision === 'approved') {
+          // The provider's current document (the latest upload) and selfie must both be approved
+          const { data: latestDocument } = await supabaseService
+            .from('provider_verification_documents')
+            .select('verification_status')
+            .eq('provider_id', provider_id)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+          if (latestDocument?.verification_status !== 'approved' || progress.selfie_verification_status !== 'approved') {
+            throw new VerificationReviewError(
+              'REVIEW_INCOMPLETE',
+              'Approve the identity document and selfie before approving the provider',
+              409,
+            );
+          }
+        }
+
+        const rejectedSteps = decision === 'rejected'
+          ? await collectRejectedSteps(supabaseService, progress, steps || [])
+          : [];
+
+        // Rejected steps are no longer complete - everything else is kept
+        const stepsCompleted = { ...(progress.steps_completed || {}) };
+        for (const step of rejectedSteps) {
+          stepsCompleted[step.step_number] = false;
+        }
+
+        const { error } = await supabaseService
+          .from('provider_onboarding_progress')
+          .update({
+            verification_status: decision,
+            approved_at: decision === 'approved' ? now : null,
+            rejected_at: decision === 'rejected' ? now : null,
+            rejection_reason: decision === 'rejected' ? trimmedReason : null,
+            steps_completed: stepsCompleted,
+            current_step: rejectedSteps[0]?.step_number ?? progress.current_step,
+            updated_at: now,
+          })
+          .eq('provider_id', provider_id);
+
+        if (error) {
+          throw new Error(`Failed to update verification status: ${error.message}`);
+        }
+
+        // Clear the previous round and record what has to be redone this time
+        await supabaseService
+          .from('provider_verification_step_progress')
+          .update({ status: 'completed', error_message: null, updated_at: now })
+          .eq('provider_id', provider_id)
+          .in('status', ['rejected', 'resubmitted']);
+
+        if (rejectedSteps.length > 0) {
+          const { error: stepsError } = await supabaseService
+            .from('provider_verification_step_progress')
+            .upsert(
+              rejectedSteps.map((step) => ({
+                provider_id,
+                step_number: step.step_number,
+                status: 'rejected',
+                error_message: step.reason,
+                completed_at: null,
+                updated_at: now,
+              })),
+              { onConflict: 'provider_id,step_number' },
+            );
+
+          if (stepsError) {
+            throw new Error(`Failed to record rejected steps: ${stepsError.message}`);
+          }
+        }
+
+        await recordAudit(supabaseService, {
+          provider_id: provider_id!,
+          actor_id: userId,
+          action: 'decide',
+          target: 'provider',
+          from_status: progress.verification_status,
+          to_status: decision!,
+          reason: trimmedReason,
+          metadata: rejectedSteps.length ? { rejected_steps: rejectedSteps } : {},
+        });
+
+        const title = decision === 'approved' ? 'You\'re verified!' : 'Verification needs attention';
+        const message = decision === 'approved'
+          ? 'Your identity has been verified. You can now start accepting bookings.'
+          : rejectedSteps.length
+            ? `We couldn't verify your account yet: ${trimmedReason}. Update the ${rejectedSteps.length === 1 ? 'highlighted step' : `${rejectedSteps.length} highlighted steps`} and resubmit.`
+            : `We couldn't verify your account: ${trimmedReason}`;
+
+        await supabaseService.from('notifications').insert({
+          user_id: provider_id,
+          type: 'verification_update',
+          title,
+          message,
+          data: { verification_status: decision, rejected_steps: rejectedSteps.map((step) => step.step_number) },
+          is_read: false,
+        });
+
+        await sendPushToUser(supabaseService, provider_id!, {
+          title,
+          body: message,
+          data: { type: 'verification_update', verification_status: decision },
+        });
+
+        return jsonResponse({ success: true, verification_status: decision });
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    if (error instanceof VerificationReviewError) {
+      return jsonResponse({ error: error.message, code: error.code }, error.status);
+    }
+    console.error('[VerificationReview] Unexpected error:', error);
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
@@ -1,4 +1,8 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
+import { calculateCancellationRefund } from '../_shared/cancellation-policy.ts';
+import { ensurePayoutRecord, setPayoutHold, transferProviderPayout } from '../_shared/payouts.ts';
+import { resolveTimeZone, zonedTimeToUtc } from '../_shared/timezone.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,6 +13,8 @@ const corsHeaders = {
 interface CancelBookingRequest {
   booking_id: string;
   reason?: string;
+  // Only calculate the refund the customer would get, don't cancel
+  preview?: boolean;
 }
 
 Deno.serve(async (req) => {
@@ -63,7 +69,7 @@ Deno.serve(async (req) => {
 
     // Parse request body
     const body = await req.json();
-    const { booking_id, reason }: CancelBookingRequest = body;
+    const { booking_id, reason, preview }: CancelBookingRequest = body;
 
     if (!booking_id) {
       return new Response(
@@ -77,7 +83,18 @@ Deno.serve(async (req) => {
     // Get booking details and verify ownership
     const { data: booking, error: bookingError } = await supabaseService
       .from('bookings')
-      .select('*')
+      .select(`
+        *,
+        provider_services!bookings_service_id_fkey (
+          title,
+          cancellation_fee_percentage,
+          cancellation_window_hours
+        ),
+        provider:profiles!bookings_provider_id_fkey (
+          timezone,
+          stripe_account_id
+        )
+      `)
       .eq('id', booking_id)
       .single();
 
@@ -111,46 +128,198 @@ Deno.serve(async (req) => {
       );
     }
 
+    // ✅ Work out the refund from the service's cancellation policy
+    // Booking times are the provider's local wall-clock time
+    const startAt = zonedTimeToUtc(
+      booking.booking_date,
+      booking.start_time || '00:00',
+      resolveTimeZone(booking.provider?.timezone)
+    );
+    const quote = calculateCancellationRefund({
+      totalAmount: booking.total_amount,
+      baseAmount: booking.base_amount,
+      feePercentage: booking.provider_services?.cancellation_fee_percentage,
+      windowHours: booking.provider_services?.cancellation_window_hours,
+      startAt,
+      initiatedBy: isProvider ? 'provider' : 'customer',
+      bookingStatus: booking.status,
+    });
+
+    console.log(`[CancelBooking] Policy result for ${booking_id}:`, quote);
+
+    const cancellationPreview = {
+      tier: quote.tier,
+      refund_amount: quote.refundAmount,
+      cancellation_fee: quote.feeAmount,
+      total_amount: booking.total_amount,
+      hours_until_start: quote.hoursUntilStart,
+      window_hours: quote.windowHours,
+      fee_percentage: quote.feePercentage,
+      reason: quote.reason,
+    };
+
+    // Preview only - nothing is cancelled
+    if (preview) {
+      return new Response(
+        JSON.stringify({ success: true, preview: cancellationPreview }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.log(`[CancelBooking] Cancelling booking ${booking_id}, status: ${booking.status}`);
 
-    // Process refund if payment was captured
-    let refundId: string | null = null;
+    const cancelledAt = new Date().toISOString();
 
-    if (booking.payment_intent_id && booking.payment_status !== 'refunded') {
-      console.log(
-        `[CancelBooking] Creating refund for payment intent: ${booking.payment_intent_id}`
+    // Claim the cancellation first - conditional on the status so a concurrent cancel or
+    // completion wins cleanly, before any money moves
+    const { data: claimedBooking, error: claimError } = await supabaseService
+      .from('bookings')
+      .update({
+        status: 'cancelled',
+        cancelled_at: cancelledAt,
+        cancelled_by: isProvider ? 'provider' : 'customer',
+        cancellation_fee_amount: quote.feeAmount,
+        refund_amount: quote.refundAmount,
+        updated_at: cancelledAt,
+      })
+      .eq('id', booking_id)
+      .in('status', ['pending', 'confirmed'])
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) {
+      console.error('[CancelBooking] Failed to update booking:', claimError);
+      return new Response(
+        JSON.stringify({
+          error: 'Failed to update booking status',
+          details: claimError.message,
+        }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
+    }
+
+    if (!claimedBooking) {
+      return new Response(
+        JSON.stringify({ error: 'Booking was updated by someone else - please refresh and try again' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Process the payment side according to the policy
+    let refundId: string | null = null;
+    let paymentAction: 'refunded' | 'partially_refunded' | 'canceled' | 'fee_captured' | 'none' = 'none';
 
+    if (booking.payment_intent_id && booking.payment_status !== 'refunded') {
       try {
-        const refundResponse = await fetch('https://api.stripe.com/v1/refunds', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${stripeSecretKey}`,
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: new URLSearchParams({
-            payment_intent: booking.payment_intent_id,
-            reason: 'requested_by_customer',
-          }),
+        const stripeHeaders = {
+          'Authorization': `Bearer ${stripeSecretKey}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        };
+
+        const piResponse = await fetch(`https://api.stripe.com/v1/payment_intents/${booking.payment_intent_id}`, {
+          method: 'GET',
+          headers: { 'Authorization': `Bearer ${stripeSecretKey}` },
         });
 
-        if (!refundResponse.ok) {
-          const errorData = await refundResponse.json();
-          console.error('[CancelBooking] Stripe refund failed:', errorData);
-          return new Response(
-            JSON.stringify({
-              error: 'Failed to process refund',
-              details: errorData.error?.message || 'Unknown error',
-            }),
-            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        if (!piResponse.ok) {
+          const errorData = await piResponse.json();
+          throw new Error(errorData.error?.message || 'PaymentIntent retrieval failed');
+        }
+
+        const paymentIntent = await piResponse.json();
+        const feeInPence = Math.round(quote.feeAmount * 100);
+        console.log(`[CancelBooking] PaymentIntent ${booking.payment_intent_id} status: ${paymentIntent.status}`);
+
+        if (paymentIntent.status === 'succeeded') {
+          // Captured - refund everything except the cancellation fee
+          const refundInPence = Math.min(paymentIntent.amount_received, Math.round(quote.refundAmount * 100));
+
+          if (refundInPence > 0) {
+            const refundParams = new URLSearchParams({
+              payment_intent: booking.payment_intent_id,
+              reason: 'requested_by_customer',
+              'metadata[booking_id]': booking_id,
+              'metadata[cancellation_tier]': quote.tier,
+            });
+            if (quote.tier !== 'full') {
+              refundParams.append('amount', refundInPence.toString());
+            }
+
+            const refundResponse = await fetch('https://api.stripe.com/v1/refunds', {
+              method: 'POST',
+              headers: stripeHeaders,
+              body: refundParams,
+            });
+
+            if (!refundResponse.ok) {
+              const errorData = await refundResponse.json();
+              throw new Error(errorData.error?.message || 'Refund failed');
+            }
+
+            const refund = await refundResponse.json();
+            refundId = refund.id;
+            paymentAction = quote.tier === 'full' ? 'refunded' : 'partially_refunded';
+          }
+        } else if (paymentIntent.status === 'requires_capture' && feeInPence > 0) {
+          // Authorized only - capture just the cancellation fee, the rest of the hold is released
+          const captureResponse = await fetch(
+            `https://api.stripe.com/v1/payment_intents/${booking.payment_intent_id}/capture`,
+            {
+              method: 'POST',
+              headers: stripeHeaders,
+              body: new URLSearchParams({
+                amount_to_capture: Math.min(paymentIntent.amount, feeInPence).toString(),
+              }),
+            }
+          );
+
+          if (!captureResponse.ok) {
+            const errorData = await captureResponse.json();
+            throw new Error(errorData.error?.message || 'Cancellation fee capture failed');
+          }
+
+          paymentAction = 'fee_captured';
+        } else if (paymentIntent.status !== 'canceled') {
+          // Nothing captured and no fee due - release the authorization
+          const cancelResponse = await fetch(
+            `https://api.stripe.com/v1/payment_intents/${booking.payment_intent_id}/cancel`,
+            {
+              method: 'POST',
+              headers: stripeHeaders,
+              body: new URLSearchParams({ cancellation_reason: 'requested_by_customer' }),
+            }
           );
+
+          if (!cancelResponse.ok) {
+            const errorData = await cancelResponse.json();
+            throw new Error(errorData.error?.message || 'PaymentIntent cancel failed');
+          }
+
+          paymentAction = 'canceled';
         }
 
-        const refund = await refundResponse.json();
-        refundId = refund.id;
-        console.log(`[CancelBooking] Refund created successfully: ${refundId}`);
+        console.log(`[CancelBooking] Payment action: ${paymentAction}`, { refundId });
       } catch (stripeError) {
         console.error('[CancelBooking] Stripe API error:', stripeError);
+
+        // Nothing was charged or refunded - give the booking back its previous status
+        const { error: revertError } = await supabaseService
+          .from('bookings')
+          .update({
+            status: booking.status,
+            cancelled_at: null,
+            cancelled_by: null,
+            cancellation_fee_amount: booking.cancellation_fee_amount,
+            refund_amount: booking.refund_amount,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', booking_id)
+          .eq('status', 'cancelled');
+
+        if (revertError) {
+          console.error('[CancelBooking] Failed to restore booking after Stripe error:', revertError);
+        }
+
         return new Response(
           JSON.stringify({
             error: 'Failed to process refund',
@@ -161,12 +330,24 @@ Deno.serve(async (req) => {
       }
     }
 
-    // Update booking status to cancelled and payment status to refunded
+    const fullyRefunded = quote.tier === 'full' || paymentAction === 'canceled';
+
+    // The cancellation fee (if any) is what the provider is owed - their share of the
+    // booking at most, so the platform fee stays with the platform when nothing is refunded
+    const providerFee = fullyRefunded
+      ? 0
+      : Math.min(quote.feeAmount, Number(booking.base_amount ?? quote.feeAmount));
+
+    // Record the outcome of the policy - the booking is already cancelled, so a failure
+    // here is logged rather than reported after the money has moved
     const { data: updatedBooking, error: updateError } = await supabaseService
       .from('bookings')
       .update({
-        status: 'cancelled',
-        payment_status: booking.payment_intent_id ? 'refunded' : booking.payment_status,
+        payment_status: booking.payment_intent_id
+          ? (fullyRefunded ? 'refunded' : 'paid')
+          : booking.payment_status,
+        amount_held_for_provider: providerFee,
+        captured_amount: paymentAction === 'fee_captured' ? quote.feeAmount : booking.captured_amount,
         updated_at: new Date().toISOString(),
       })
       .eq('id', booking_id)
@@ -174,23 +355,16 @@ Deno.serve(async (req) => {
       .single();
 
     if (updateError) {
-      console.error('[CancelBooking] Failed to update booking:', updateError);
-      return new Response(
-        JSON.stringify({
-          error: 'Failed to update booking status',
-          details: updateError.message,
-        }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      console.error('[CancelBooking] Failed to record payment outcome on booking:', booking_id, { paymentAction, refundId }, updateError);
     }
 
-    // Update payment record to mark as refunded
+    // Update payment record - a partial refund keeps the fee as paid
     if (booking.payment_intent_id) {
       const { error: paymentUpdateError } = await supabaseService
         .from('payments')
         .update({
-          status: 'refunded',
-          refunded_at: new Date().toISOString(),
+          status: fullyRefunded ? 'refunded' : 'paid',
+          refunded_at: quote.refundAmount > 0 ? cancelledAt : null,
         })
         .eq('booking_id', booking_id);
 
@@ -200,14 +374,82 @@ Deno.serve(async (req) => {
       }
     }
 
-    console.log(`✅ [CancelBooking] Booking cancelled successfully with refund: ${refundId}`);
+    if (paymentAction === 'canceled') {
+      await supabaseService
+        .from('payment_intents')
+        .update({
+          status: 'canceled',
+          updated_at: cancelledAt,
+        })
+        .eq('stripe_payment_intent_id', booking.payment_intent_id);
+    }
+
+    // 💷 Pay the fee out through the payout ledger, like a completed booking. A failed
+    // transfer is retried by retry-provider-payouts.
+    let payoutStatus: 'processing' | 'retrying' | 'failed' | 'on_hold' | 'none' = 'none';
+    if (providerFee > 0 && booking.payment_intent_id && booking.payment_status !== 'refunded') {
+      try {
+        const payout = await ensurePayoutRecord(supabaseService, {
+          id: booking_id,
+          provider_id: booking.provider_id,
+          amount: providerFee,
+        });
+
+        if (booking.payment_status === 'disputed' && !payout.on_hold) {
+          await setPayoutHold(supabaseService, booking_id, { reason: 'Open payment dispute' });
+          payout.on_hold = true;
+        }
+
+        if (payout.stripe_transfer_id) {
+          payoutStatus = 'processing';
+        } else if (payout.on_hold) {
+          payoutStatus = 'on_hold';
+        } else if (!booking.provider?.stripe_account_id) {
+          payoutStatus = 'retrying';
+        } else {
+          const transfer = await transferProviderPayout(supabaseService, payout, {
+            stripeAccountId: booking.provider.stripe_account_id,
+            stripeSecretKey,
+            paymentIntentId: booking.payment_intent_id,
+          });
+          payoutStatus = transfer.ok ? 'processing' : transfer.willRetry ? 'retrying' : 'failed';
+        }
+      } catch (payoutError) {
+        console.error('[CancelBooking] Cancellation fee payout failed:', booking_id, payoutError);
+        payoutStatus = 'retrying';
+      }
+    }
+
+    console.log(`✅ [CancelBooking] Booking cancelled successfully with refund: ${refundId}`, { payoutStatus });
+
+    // Notify the other party
+    if (isCustomer) {
+      await sendPushToUser(supabaseService, booking.provider_id, {
+        title: 'Booking cancelled',
+        body: quote.feeAmount > 0
+          ? `The customer cancelled their booking on ${booking.booking_date} at ${booking.start_time?.slice(0, 5)}. A £${quote.feeAmount.toFixed(2)} cancellation fee applies.`
+          : `The customer cancelled their booking on ${booking.booking_date} at ${booking.start_time?.slice(0, 5)}.`,
+        data: { type: 'booking_cancelled', booking_id, url: `/(provider)/bookingdetail/${booking_id}` },
+      });
+    } else {
+      await sendPushToUser(supabaseService, booking.customer_id, {
+        title: 'Booking cancelled',
+        body: `Your provider cancelled your booking on ${booking.booking_date}. ${booking.payment_intent_id ? 'A full refund is on its way.' : ''}`.trim(),
+        data: { type: 'booking_cancelled', booking_id, url: `/(customer)/booking/${booking_id}` },
+      });
+    }
 
     return new Response(
       JSON.stringify({
         success: true,
-        message: 'Booking cancelled and customer refunded',
+        message: quote.tier === 'full'
+          ? 'Booking cancelled and customer refunded'
+          : 'Booking cancelled - cancellation fee applied',
         booking: updatedBooking,
         refund_id: refundId,
+        payment_action: paymentAction,
+        payout_status: payoutStatus,
+        cancellation: cancellationPreview,
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
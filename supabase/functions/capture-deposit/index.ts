@@ -1,11 +1,10 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { corsHeaders } from '../_shared/cors.ts';
+import { assertPaymentMatchesQuote, PricingError, verifyQuote } from '../_shared/pricing.ts';
 
 interface CaptureDepositRequest {
   paymentIntentId: string;
-  totalAmount: number; // Full amount in pence (service + fee)
-  providerAmount: number; // Provider's share in pence
-  platformFee: number; // Platform commission in pence
+  quoteToken: string; // Signed quote from create-payment-intent - amounts come from here
   bookingId?: string;
 }
 
@@ -32,13 +31,13 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { paymentIntentId, totalAmount, providerAmount, platformFee, bookingId }: CaptureDepositRequest = await req.json();
+    const { paymentIntentId, quoteToken, bookingId }: CaptureDepositRequest = await req.json();
 
     // Validate required fields
-    if (!paymentIntentId || !totalAmount || !providerAmount || !platformFee) {
+    if (!paymentIntentId || !quoteToken) {
       return new Response(
         JSON.stringify({ 
-          error: 'Missing required fields: paymentIntentId, totalAmount, providerAmount, platformFee' 
+          error: 'Missing required fields: paymentIntentId, quoteToken' 
         }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
@@ -52,6 +51,29 @@ Deno.serve(async (req) => {
       );
     }
 
+    // 💷 The customer has already paid against this quote, so an expired one is fine here
+    const quote = await verifyQuote(quoteToken, { allowExpired: true });
+
+    const paymentIntentResponse = await fetch(`https://api.stripe.com/v1/payment_intents/${paymentIntentId}`, {
+      headers: { 'Authorization': `Bearer ${stripeSecretKey}` },
+    });
+
+    if (!paymentIntentResponse.ok) {
+      const errorData = await paymentIntentResponse.json();
+      console.error('❌ PaymentIntent retrieval failed:', errorData);
+      return new Response(
+        JSON.stringify({ error: 'Payment verification failed', details: errorData.error?.message }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const paymentIntent = await paymentIntentResponse.json();
+    assertPaymentMatchesQuote(paymentIntent, quote);
+
+    const totalAmount = quote.totalAmount;
+    const providerAmount = quote.providerAmount;
+    const platformFee = quote.platformFee;
+
     console.log('💰 Capturing FULL AMOUNT for escrow:', { 
       paymentIntentId, 
       totalAmount, 
@@ -62,9 +84,10 @@ Deno.serve(async (req) => {
 
     // ✨ ESCROW SYSTEM: Capture FULL amount immediately (not just deposit)
     // This holds the entire payment in the platform account until service completion
-    const captureParams = new URLSearchParams();
-    // Empty params = capture full authorized amount (totalAmount)
-    // This implements true escrow - full payment held until provider transfer
+    const captureParams = new URLSearchParams({
+      amount_to_capture: totalAmount.toString(),
+    });
+    // Full quoted amount (the whole authorization) - true escrow, held until provider transfer
 
     const captureResponse = await fetch(`https://api.stripe.com/v1/payment_intents/${paymentIntentId}/capture`, {
       method: 'POST',
@@ -108,6 +131,7 @@ Deno.serve(async (req) => {
           captured_amount: capturedAmountDecimal, // Total captured (£99.00)
           amount_held_for_provider: providerAmountDecimal, // Provider's share (£90.00)
           platform_fee_held: platformFeeDecimal, // Platform commission (£9.00)
+          price_quote: quote, // Server price breakdown the payment was made against
           funds_held_at: new Date().toISOString(),
           // Keep legacy fields for backwards compatibility
           captured_deposit: captureData.amount_received,
@@ -147,6 +171,14 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof PricingError) {
+      console.error('❌ Quote check failed:', error.code, error.message);
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.error('💥 Error in capture-deposit function:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
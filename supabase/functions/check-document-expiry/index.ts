@@ -0,0 +1,245 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RENEW_DOCUMENT_URL = '/(provider)/profile/renew-document';
+
+type NoticeType = '30d' | '7d' | 'expired';
+
+// expiry_date is a calendar date - compare whole UTC days
+const daysUntil = (expiryDate: string, today: string) =>
+  Math.round((Date.parse(`${expiryDate}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS);
+
+/**
+ * Which notice (if any) is due for a document expiring in daysLeft days
+ * - expired: the expiry date is today or has passed
+ * - 7d / 30d: inside the window (a provider who only entered a date 5 days out
+ *   gets the 7-day notice, not both)
+ */
+function getDueNotice(daysLeft: number): NoticeType | null {
+  if (daysLeft <= 0) return 'expired';
+  if (daysLeft <= 7) return '7d';
+  if (daysLeft <= 30) return '30d';
+  return null;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+function buildNotice(noticeType: NoticeType, expiryDate: string, daysLeft: number) {
+  switch (noticeType) {
+    case 'expired':
+      return {
+        title: 'ID document expired',
+        message: `Your verification document expired on ${formatDate(expiryDate)}. Upload a new one to appear in search and SOS requests again.`,
+      };
+    case '7d':
+      return {
+        title: 'ID document expires soon ⚠️',
+        message: `Your verification document expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}. Upload a new one now to stay visible to customers.`,
+      };
+    case '30d':
+      return {
+        title: 'Time to renew your ID document',
+        message: `Your verification document expires on ${formatDate(expiryDate)}. Upload a new one before then to avoid being hidden from search.`,
+      };
+  }
+}
+
+Deno.serve(async (req) => {
+  console.log('=== CHECK DOCUMENT EXPIRY FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Scheduled job only - must be invoked with the service role key (pg_cron)
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+    const today = new Date().toISOString().split('T')[0];
+    const windowEnd = new Date(Date.now() + 30 * DAY_MS).toISOString().split('T')[0];
+
+    // Providers with a document expiring inside the 30-day window (or already expired)
+    const { data: expiringDocuments, error: fetchError } = await supabaseService
+      .from('provider_verification_documents')
+      .select('provider_id')
+      .not('expiry_date', 'is', null)
+      .lte('expiry_date', windowEnd);
+
+    if (fetchError) {
+      console.error('[DocumentExpiry] Failed to fetch documents:', fetchError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch documents' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const providerIds = Array.from(new Set((expiringDocuments || []).map((d: any) => d.provider_id)));
+    if (providerIds.length === 0) {
+      console.log('=== CHECK DOCUMENT EXPIRY FUNCTION END ===', { sent: 0, flagged: 0 });
+      return new Response(
+        JSON.stringify({ success: true, sent: 0, flagged: 0, skipped: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only approved providers are warned - anyone mid-review is covered by the review itself
+    const [{ data: progressRows, error: progressError }, { data: documents, error: documentsError }] = await Promise.all([
+      supabaseService
+        .from('provider_onboarding_progress')
+        .select('provider_id, verification_status, reverification_required_at')
+        .in('provider_id', providerIds)
+        .eq('verification_status', 'approved'),
+      supabaseService
+        .from('provider_verification_documents')
+        .select('id, provider_id, expiry_date, created_at')
+        .in('provider_id', providerIds)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (progressError || documentsError) {
+      console.error('[DocumentExpiry] Failed to load providers:', progressError || documentsError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to load providers' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const progressByProvider = new Map((progressRows || []).map((row: any) => [row.provider_id, row]));
+
+    // A renewed document supersedes the old one - only the latest upload counts
+    const latestDocument = new Map<string, any>();
+    for (const document of documents || []) {
+      if (!latestDocument.has(document.provider_id)) {
+        latestDocument.set(document.provider_id, document);
+      }
+    }
+
+    let sent = 0;
+    let flagged = 0;
+    let skipped = 0;
+
+    for (const [providerId, document] of latestDocument) {
+      const progress = progressByProvider.get(providerId);
+      if (!progress || !document.expiry_date) continue;
+
+      const daysLeft = daysUntil(document.expiry_date, today);
+      const noticeType = getDueNotice(daysLeft);
+      if (!noticeType) continue;
+
+      // Flagged even if the notice was already sent - a failed update is retried next run
+      if (noticeType === 'expired' && !progress.reverification_required_at) {
+        const { error: flagError } = await supabaseService
+          .from('provider_onboarding_progress')
+          .update({
+            reverification_required_at: new Date().toISOString(),
+            reverification_reason: 'document_expired',
+            updated_at: new Date().toISOString(),
+          })
+          .eq('provider_id', providerId);
+
+        if (flagError) {
+          console.error('[DocumentExpiry] Failed to flag provider for re-verification:', providerId, flagError);
+        } else {
+          flagged++;
+        }
+      }
+
+      // ✅ Idempotency: claim the notice first - a duplicate returns no row
+      const { data: claimed, error: claimError } = await supabaseService
+        .from('document_expiry_notices')
+        .upsert(
+          {
+            document_id: document.id,
+            provider_id: providerId,
+            expiry_date: document.expiry_date,
+            notice_type: noticeType,
+          },
+          { onConflict: 'document_id,expiry_date,notice_type', ignoreDuplicates: true }
+        )
+        .select('id');
+
+      if (claimError) {
+        console.error('[DocumentExpiry] Failed to claim notice:', document.id, claimError);
+        continue;
+      }
+
+      if (!claimed || claimed.length === 0) {
+        skipped++;
+        continue;
+      }
+
+      const { title, message } = buildNotice(noticeType, document.expiry_date, daysLeft);
+
+      const push = await sendPushToUser(supabaseService, providerId, {
+        title,
+        body: message,
+        data: { type: 'document_expiry', document_id: document.id, notice_type: noticeType, url: RENEW_DOCUMENT_URL },
+      });
+
+      const { error: notificationError } = await supabaseService
+        .from('notifications')
+        .insert({
+          user_id: providerId,
+          type: 'document_expiry',
+          title,
+          message,
+          data: {
+            document_id: document.id,
+            expiry_date: document.expiry_date,
+            notice_type: noticeType,
+            push_sent: push.sent,
+          },
+          is_read: false,
+        });
+
+      if (notificationError) {
+        console.error('[DocumentExpiry] Failed to insert notification:', notificationError);
+      }
+
+      await supabaseService
+        .from('document_expiry_notices')
+        .update({ push_sent: push.sent })
+        .eq('id', claimed[0].id);
+
+      sent++;
+    }
+
+    console.log('=== CHECK DOCUMENT EXPIRY FUNCTION END ===', { sent, flagged, skipped });
+
+    return new Response(
+      JSON.stringify({ success: true, sent, flagged, skipped }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Check document expiry error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,4 +1,7 @@
 ﻿import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
+import { sendPushToUser } from '../_shared/push.ts';
+import { ensurePayoutRecord, setPayoutHold, transferProviderPayout } from '../_shared/payouts.ts';
+import { providerAmountForBooking } from '../_shared/pricing.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -99,163 +102,99 @@ Deno.serve(async (req) => {
       }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
-    // ✅ v23: Fetch payment intent which contains the Stripe charge ID
-    // This is the KEY to the solution - we need the charge ID as source_transaction for transfers
-    const { data: paymentIntent, error: piErr } = await supabaseClient
-      .from('payment_intents')
-      .select('stripe_payment_intent_id, id')
-      .eq('booking_id', bookingId)
-      .single();
-
-    let sourceChargeId: string | undefined;
-    if (paymentIntent && paymentIntent.stripe_payment_intent_id) {
-      console.log('[v23] Found PaymentIntent ID:', paymentIntent.stripe_payment_intent_id);
-      
-      // ✅ NEW: Fetch from Stripe API to get the charge ID
-      // When a payment intent is succeeded, it has a latest_charge that contains the actual charge
-      const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
-      if (stripeSecretKey) {
-        const piResponse = await fetch(
-          `https://api.stripe.com/v1/payment_intents/${paymentIntent.stripe_payment_intent_id}`,
-          {
-            method: 'GET',
-            headers: {
-              'Authorization': `Bearer ${stripeSecretKey}`
-            }
-          }
-        );
-        
-        if (piResponse.ok) {
-          const piData = await piResponse.json();
-          if (piData.latest_charge) {
-            sourceChargeId = piData.latest_charge;
-            console.log('[v23] ✅ Found charge ID from PaymentIntent:', sourceChargeId);
-          }
-        } else {
-          console.log('[v23] Could not fetch PaymentIntent from Stripe');
-        }
-      }
-    } else {
-      console.log('[v23] Warning: No payment intent found, transfer may fail if platform balance insufficient');
-    }
-
-    // Create Stripe transfer with source_transaction to handle insufficient balance
     const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
     if (!stripeSecretKey) {
       return new Response(JSON.stringify({
         error: 'Stripe key missing',
-        v: 23
+        v: 25
       }), { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
-    const amountInPence = Math.round(parseFloat(booking.amount_held_for_provider || '0') * 100);
-    
-    const params = new URLSearchParams({
-      amount: amountInPence.toString(),
-      currency: 'gbp',
-      destination: provider.stripe_account_id,
-      description: `Booking ${bookingId} - Provider payout`
-    });
-
-    // ✅ v23 FIX: Use source_transaction to link transfer to the original captured charge
-    // This allows the transfer to succeed even if platform available balance is temporarily low
-    // The transfer will use the charge's funds which are held in escrow
-    if (sourceChargeId) {
-      params.append('source_transaction', sourceChargeId);
-      console.log('[v23] 🔗 Transfer linked to charge:', sourceChargeId);
-    } else {
-      console.log('[v23] ⚠️ No charge ID - transfer may fail without source_transaction');
-    }
+    // ✅ v25: Payout ledger - one provider_payouts row per booking. The transfer is
+    // attempted now; if Stripe rejects it the booking still completes and
+    // retry-provider-payouts tries again with backoff. The amount is the provider's
+    // share from the booking's price quote (_shared/pricing.ts)
+    const providerAmount = providerAmountForBooking(booking) / 100;
+    let payoutStatus: 'processing' | 'retrying' | 'failed' | 'on_hold' | 'none' = 'none';
+    let transferId: string | null = null;
+    let expectedPayoutDate: string | null = null;
+    let payoutError: string | null = null;
+
+    if (providerAmount > 0) {
+      const payout = await ensurePayoutRecord(supabaseClient, {
+        id: booking.id,
+        provider_id: booking.provider_id,
+        amount: providerAmount,
+      });
 
-    const stripeResponse = await fetch('https://api.stripe.com/v1/transfers', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${stripeSecretKey}`,
-        'Content-Type': 'application/x-www-form-urlencoded'
-      },
-      body: params.toString()
-    });
+      // The payment was disputed before completion - freeze the new ledger row too
+      if (booking.payment_status === 'disputed' && !payout.on_hold) {
+        await setPayoutHold(supabaseClient, booking.id, { reason: 'Open payment dispute' });
+        payout.on_hold = true;
+      }
 
-    if (!stripeResponse.ok) {
-      let stripeErr;
-      try {
-        stripeErr = await stripeResponse.json();
-      } catch {
-        stripeErr = { error: 'Could not parse stripe error' };
+      if (payout.stripe_transfer_id) {
+        // Transferred on an earlier call
+        payoutStatus = 'processing';
+        transferId = payout.stripe_transfer_id;
+        expectedPayoutDate = payout.expected_payout_date;
+      } else if (payout.on_hold) {
+        // Open dispute on the payment - released when it's won
+        payoutStatus = 'on_hold';
+        payoutError = 'Payout is on hold while a dispute is open';
+      } else {
+        const transfer = await transferProviderPayout(supabaseClient, payout, {
+          stripeAccountId: provider.stripe_account_id,
+          stripeSecretKey,
+          paymentIntentId: booking.payment_intent_id,
+        });
+
+        if (transfer.ok) {
+          payoutStatus = 'processing';
+          transferId = transfer.transferId;
+          expectedPayoutDate = transfer.expectedPayoutDate;
+        } else {
+          payoutStatus = transfer.willRetry ? 'retrying' : 'failed';
+          payoutError = transfer.error;
+        }
       }
-      
-      const stripeErrorCode = stripeErr.error?.code;
-      const stripeErrorMsg = stripeErr.error?.message || String(stripeErr);
-      
-      console.log('[v23] ❌ Transfer failed, error code:', stripeErrorCode);
-      console.log('[v23] Full error:', stripeErr);
-      
-      // Return actual error with debug info
-      return new Response(JSON.stringify({
-        error: 'Stripe transfer failed',
-        stripeStatus: stripeResponse.status,
-        stripeCode: stripeErrorCode,
-        stripeErr: stripeErrorMsg,
-        debug: {
-          amount: amountInPence,
-          destination: provider.stripe_account_id,
-          sourceCharge: sourceChargeId || 'none',
-          fullError: stripeErr
-        },
-        v: 23
-      }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
-    const transferData = await stripeResponse.json();
-
-    // Update booking
+    // Update booking - payment_status / provider_transfer_id are set with the transfer
     const { error: updateErr } = await supabaseClient
       .from('bookings')
       .update({
         status: 'completed',
-        payment_status: 'payout_completed',
-        provider_transfer_id: transferData.id,
-        provider_paid_at: new Date().toISOString(),
+        completed_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       })
-      .eq('id', bookingId);
+      .eq('id', bookingId)
+      .in('status', ['in_progress', 'confirmed']);
 
     if (updateErr) {
-      console.error('[v23] Update error:', updateErr);
-      // Non-fatal - transfer succeeded
+      console.error('[v25] Update error:', updateErr);
+      // Non-fatal - payout is recorded in the ledger
     }
 
-    // ✅ v24 FIX: Record payout in provider_payouts table for earnings tracking
-    const providerAmountInPounds = (amountInPence / 100).toFixed(2);
-    const { error: payoutErr } = await supabaseClient
-      .from('provider_payouts')
-      .insert({
-        provider_id: booking.provider_id,
-        booking_id: booking.id,
-        stripe_transfer_id: transferData.id,
-        amount: providerAmountInPounds,
-        currency: 'GBP',
-        status: 'completed',
-        actual_payout_date: new Date().toISOString().split('T')[0],
-        created_at: new Date().toISOString()
-      });
-
-    if (payoutErr) {
-      console.warn('[v24] ⚠️ Failed to record payout:', payoutErr);
-      // Non-fatal - transfer succeeded, payout record is just for analytics
-    } else {
-      console.log('[v24] ✅ Payout recorded for provider:', booking.provider_id);
-    }
+    // Notify customer - also prompts them to leave a review
+    await sendPushToUser(supabaseClient, booking.customer_id, {
+      title: 'Service completed 🎉',
+      body: 'Your booking has been completed. Let us know how it went by leaving a review.',
+      data: { type: 'booking_completed', booking_id: booking.id, url: `/(customer)/booking/${booking.id}` },
+    });
 
-      return new Response(JSON.stringify({
-        success: true,
-        message: 'Booking completed',
-        bookingId: booking.id,
-        transferId: transferData.id,
-        amount: transferData.amount,
-        payoutRecorded: !payoutErr,
-        v: 24
-      }), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });  } catch (error) {
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Booking completed',
+      bookingId: booking.id,
+      transferId,
+      amount: Math.round(providerAmount * 100),
+      payoutStatus,
+      expectedPayoutDate,
+      payoutError,
+      v: 25
+    }), { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+  } catch (error) {
     const msg = error instanceof Error ? error.message : String(error);
     const stack = error instanceof Error && error.stack ? error.stack.substring(0, 500) : 'N/A';
     
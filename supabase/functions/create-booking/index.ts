@@ -1,4 +1,10 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
+import { releasePaymentIntent } from '../_shared/payments.ts';
+import { assertPaymentMatchesQuote, buildQuote, isHouseCallBooking, PricingError, verifyQuote } from '../_shared/pricing.ts';
+import { createBookingSeries, MAX_SERIES_OCCURRENCES, MIN_SERIES_OCCURRENCES, SERIES_FREQUENCIES } from '../_shared/booking-series.ts';
+import { AddressError, resolveServiceLocation } from '../_shared/addresses.ts';
+import { checkServiceArea, ServiceAreaError } from '../_shared/service-area.ts';
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -152,7 +158,7 @@ Deno.serve(async (req)=>{
     console.log('Parsing request body...');
     const body = await req.json().catch(()=>({}));
     console.log('Request body parsed successfully');
-    const { service_id, provider_id, customer_id, booking_date, start_time, customer_notes, service_address, payment_intent_id } = body;
+    const { service_id, provider_id, customer_id, booking_date, start_time, customer_notes, service_address, service_address_id, payment_intent_id, quote_token, recurrence } = body;
     console.log('Parsed booking request:', {
       service_id,
       provider_id,
@@ -161,7 +167,10 @@ Deno.serve(async (req)=>{
       start_time,
       customer_notes: customer_notes ? 'Present' : 'Not provided',
       service_address: service_address ? 'Present' : 'Not provided',
-      payment_intent_id
+      service_address_id: service_address_id || 'None',
+      payment_intent_id,
+      quote_token: quote_token ? 'Present' : 'Not provided',
+      recurrence: recurrence || 'None'
     });
     // Validate required fields
     if (!service_id || !provider_id || !customer_id || !booking_date || !start_time || !payment_intent_id) {
@@ -183,6 +192,68 @@ Deno.serve(async (req)=>{
         }
       });
     }
+    // A PaymentIntent pays for one booking only. A replayed request for a payment that
+    // already backs a booking is turned away before anything can release that payment.
+    const paymentAlreadyUsedResponse = ()=>new Response(JSON.stringify({
+        error: 'This payment has already been used for a booking',
+        code: 'PAYMENT_ALREADY_USED'
+      }), {
+        status: 409,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        }
+      });
+    const findBookingForPayment = async ()=>{
+      const { data: existingBooking, error: existingBookingError } = await supabaseService.from('bookings').select('id').eq('payment_intent_id', payment_intent_id).maybeSingle();
+      if (existingBookingError) {
+        throw new Error(`Failed to check payment usage: ${existingBookingError.message}`);
+      }
+      return existingBooking;
+    };
+    const bookingForPayment = await findBookingForPayment();
+    if (bookingForPayment) {
+      console.warn('PaymentIntent already backs booking:', bookingForPayment.id);
+      return paymentAlreadyUsedResponse();
+    }
+    // Optional recurring series: { frequency, occurrence_count } - this booking is the first occurrence
+    if (recurrence) {
+      const count = Number(recurrence.occurrence_count);
+      if (start_time === 'ASAP' || !SERIES_FREQUENCIES.includes(recurrence.frequency) || !Number.isInteger(count) || count < MIN_SERIES_OCCURRENCES || count > MAX_SERIES_OCCURRENCES) {
+        return new Response(JSON.stringify({
+          error: `Recurring bookings need a weekly, fortnightly or monthly frequency and ${MIN_SERIES_OCCURRENCES}-${MAX_SERIES_OCCURRENCES} occurrences`
+        }), {
+          status: 400,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json'
+          }
+        });
+      }
+    }
+    // 📍 Saved address (or free text from older app builds) → address text + coordinates
+    let serviceLocation;
+    try {
+      serviceLocation = await resolveServiceLocation(supabaseService, userId, {
+        addressId: service_address_id,
+        addressText: service_address
+      });
+    } catch (error) {
+      if (!(error instanceof AddressError)) throw error;
+      return new Response(JSON.stringify({
+        error: error.message,
+        code: error.code
+      }), {
+        status: error.status,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        }
+      });
+    }
+    if (serviceLocation.address && !serviceLocation.coordinates) {
+      console.warn('Service address could not be geocoded - booking without coordinates');
+    }
     console.log('Validating service details...');
     // Get service details using service role (bypass RLS)
     const { data: service, error: serviceError } = await supabaseService.from('provider_services').select('*').eq('id', service_id).eq('provider_id', provider_id).single();
@@ -318,39 +389,83 @@ Deno.serve(async (req)=>{
       finalStartTime,
       finalEndTime
     });
-    // Check for conflicting bookings
-    const { data: existingBookings, error: bookingsError } = await supabaseService.from('bookings').select('start_time, end_time').eq('provider_id', provider_id).eq('booking_date', booking_date).in('status', [
-      'confirmed',
-      'in_progress'
-    ]);
-    if (bookingsError) {
-      console.error('Error checking existing bookings:', bookingsError);
+    // House calls block the provider's travel time after the job as well
+    const isHouseCall = isHouseCallBooking(service, serviceLocation.address);
+    const travelBufferMinutes = isHouseCall ? service.travel_buffer_minutes || 0 : 0;
+    // The customer has already paid by the time we get here, so a booking that can't
+    // go ahead gives the money back before answering with a structured error.
+    // Never a payment that backs a booking - a concurrent request may have used it since.
+    const releaseCallerPayment = async (reason)=>{
+      let paymentAction = 'none';
+      try {
+        const existingBooking = await findBookingForPayment();
+        if (existingBooking) {
+          console.warn('PaymentIntent not released - it backs booking:', existingBooking.id);
+          return paymentAction;
+        }
+        const piResponse = await fetch(`https://api.stripe.com/v1/payment_intents/${payment_intent_id}`, {
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${stripeSecretKey}`
+          }
+        });
+        const pi = piResponse.ok ? await piResponse.json() : null;
+        // Only ever release the caller's own payment for this provider
+        if (pi?.metadata?.customer_id === userId && pi?.metadata?.provider_id === provider_id) {
+          const release = await releasePaymentIntent(payment_intent_id, stripeSecretKey, reason);
+          paymentAction = release.action;
+        } else {
+          console.warn('PaymentIntent not released - metadata does not match caller:', payment_intent_id);
+        }
+      } catch (releaseError) {
+        console.error(`Failed to release payment (${reason}):`, releaseError);
+      }
+      return paymentAction;
+    };
+    const slotTakenResponse = async ()=>{
+      const paymentAction = await releaseCallerPayment('booking_slot_taken');
       return new Response(JSON.stringify({
-        error: 'Unable to verify availability'
+        error: 'This time slot was just taken',
+        code: 'SLOT_TAKEN',
+        details: {
+          booking_date,
+          start_time: finalStartTime,
+          payment_action: paymentAction
+        }
       }), {
-        status: 500,
+        status: 409,
         headers: {
           ...corsHeaders,
           'Content-Type': 'application/json'
         }
       });
-    }
-    // Check for time conflicts with existing bookings
-    for (const booking of existingBookings || []){
-      const bookingStart = booking.start_time;
-      const bookingEnd = booking.end_time;
-      // Check if requested time overlaps with existing booking
-      if (finalStartTime < bookingEnd && finalEndTime > bookingStart) {
+    };
+    // Check for conflicting bookings (pending ones hold their slot too).
+    // SOS bookings are dispatched ASAP rather than into a slot, so they're skipped
+    if (!isSOSBooking) {
+      const { data: conflictingBookingId, error: conflictError } = await supabaseService.rpc('find_booking_conflict', {
+        p_provider_id: provider_id,
+        p_booking_date: booking_date,
+        p_start_time: finalStartTime,
+        p_end_time: finalEndTime,
+        p_buffer_minutes: travelBufferMinutes
+      });
+      if (conflictError) {
+        console.error('Error checking existing bookings:', conflictError);
         return new Response(JSON.stringify({
-          error: 'This time slot is already booked'
+          error: 'Unable to verify availability'
         }), {
-          status: 400,
+          status: 500,
           headers: {
             ...corsHeaders,
             'Content-Type': 'application/json'
           }
         });
       }
+      if (conflictingBookingId) {
+        console.warn('Slot already booked by:', conflictingBookingId);
+        return await slotTakenResponse();
+      }
     }
     // Validate time slot availability against schedule hours (only for non-SOS bookings)
     if (!isSOSBooking) {
@@ -388,10 +503,6 @@ Deno.serve(async (req)=>{
       }
     }
     console.log('Time slot validation passed');
-    // ✅ IMPORTANT: Use amounts from Stripe PaymentIntent, not recalculated
-    // Frontend calculates: base_price + (base_price * 0.10) = totalAmount
-    // We trust the Stripe PaymentIntent as the source of truth
-    const baseAmount = service.base_price;
     // Retrieve and validate the existing PaymentIntent
     console.log('Validating payment intent:', payment_intent_id);
     // Retrieve the PaymentIntent from Stripe
@@ -444,17 +555,6 @@ Deno.serve(async (req)=>{
       amount_capturable: paymentIntent.amount_capturable,
       amount_received: paymentIntent.amount_received
     });
-    // ✅ Extract amounts from PaymentIntent (convert from pence to pounds)
-    // Stripe stores amounts in pence, we convert to pounds
-    const totalAmount = paymentIntent.amount / 100; // Total customer pays (base + platform fee)
-    const platformFee = totalAmount - baseAmount; // Platform fee = total - base
-    const capturedAmount = paymentIntent.amount_received / 100; // What was actually captured
-    console.log('Amounts extracted from PaymentIntent:', {
-      totalAmount,
-      baseAmount,
-      platformFee,
-      capturedAmount
-    });
     // Verify the PaymentIntent metadata matches our booking
     const metadata = paymentIntent.metadata || {};
     if (metadata.service_id !== service_id || metadata.provider_id !== provider_id || metadata.customer_id !== customer_id) {
@@ -468,9 +568,76 @@ Deno.serve(async (req)=>{
         }
       });
     }
+    // 📍 House calls must be inside the provider's service area. get-price-quote and
+    // create-payment-intent already turn these away - this is the final word.
+    let serviceArea = null;
+    if (isHouseCall) {
+      try {
+        serviceArea = await checkServiceArea(supabaseService, provider_id, serviceLocation.coordinates);
+      } catch (error) {
+        if (!(error instanceof ServiceAreaError)) throw error;
+        console.error('Service area check failed:', error.code, error.message);
+        const paymentAction = await releaseCallerPayment('booking_out_of_service_area');
+        return new Response(JSON.stringify({
+          error: error.message,
+          code: error.code,
+          details: {
+            ...error.details,
+            payment_action: paymentAction
+          }
+        }), {
+          status: error.status,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json'
+          }
+        });
+      }
+    }
+    // ✅ Amounts come from the server price quote the payment was made against
+    // (signed by create-payment-intent), never from the app. Without a token the
+    // current price is recomputed and must still match what was charged.
+    let quote;
+    try {
+      quote = quote_token
+        ? await verifyQuote(quote_token, { allowExpired: true })
+        : buildQuote(service, {
+          customerId: customer_id,
+          isHouseCall,
+          travelFee: serviceArea?.travelFee,
+          distanceKm: serviceArea?.distanceKm
+        });
+      assertPaymentMatchesQuote(paymentIntent, quote);
+      if (quote.isHouseCall !== isHouseCall) {
+        throw new PricingError('PRICE_MISMATCH', 'Service address does not match the price quote');
+      }
+    } catch (error) {
+      if (!(error instanceof PricingError)) throw error;
+      console.error('Price quote check failed:', error.code, error.message);
+      return new Response(JSON.stringify({
+        error: error.message,
+        code: error.code
+      }), {
+        status: error.status,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        }
+      });
+    }
+    // Stored in pounds, like the rest of the bookings amounts
+    const baseAmount = quote.providerAmount / 100; // Provider's share (service price + house call and travel fees)
+    const platformFee = quote.platformFee / 100;
+    const totalAmount = quote.totalAmount / 100; // Total customer pays (base + platform fee)
+    console.log('Amounts from price quote:', {
+      totalAmount,
+      baseAmount,
+      platformFee,
+      capturedAmount: paymentIntent.amount_received / 100
+    });
     // Check provider's auto_confirm_bookings setting
     console.log('Checking provider auto-confirm setting...');
-    const { data: providerProfile, error: providerError } = await supabaseService.from('profiles').select('auto_confirm_bookings').eq('id', provider_id).single();
+    const { data: providerProfile, error: providerError } = await supabaseService.from('profiles').select('auto_confirm_bookings, timezone').eq('id', provider_id).single();
     if (providerError) {
       console.error('Provider profile lookup error:', providerError);
       return new Response(JSON.stringify({
@@ -512,7 +679,10 @@ Deno.serve(async (req)=>{
       platform_fee: platformFee,
       total_amount: totalAmount,
       customer_notes: customer_notes,
-      service_address: service_address,
+      service_address: serviceLocation.address,
+      service_coordinates: serviceLocation.coordinates,
+      service_distance_km: serviceArea?.distanceKm ?? null,
+      travel_buffer_minutes: travelBufferMinutes,
       status: bookingStatus,
       payment_status: 'funds_held_in_escrow',
       auto_confirmed: autoConfirmed,
@@ -521,10 +691,19 @@ Deno.serve(async (req)=>{
       captured_amount: Math.round(totalAmount * 100) / 100,
       amount_held_for_provider: Math.round(baseAmount * 100) / 100,
       platform_fee_held: Math.round(platformFee * 100) / 100,
+      price_quote: quote,
       funds_held_at: new Date().toISOString() // Timestamp when funds were held
     }).select().single();
     if (bookingError) {
       console.error('Booking creation error:', bookingError);
+      // 23P01 = enforce_booking_no_overlap: another booking won the race for this slot
+      if (bookingError.code === '23P01') {
+        return await slotTakenResponse();
+      }
+      // 23505 = idx_bookings_payment_intent_unique: a concurrent request booked with this payment
+      if (bookingError.code === '23505') {
+        return paymentAlreadyUsedResponse();
+      }
       return new Response(JSON.stringify({
         error: `Failed to create booking: ${bookingError.message}`
       }), {
@@ -536,6 +715,17 @@ Deno.serve(async (req)=>{
       });
     }
     console.log('✅ Booking created with booking_mode:', bookingMode);
+    // ⏰ Pending bookings get a response deadline - expire-pending-bookings releases the
+    // customer's payment if the provider doesn't answer in time
+    if (bookingStatus === 'pending') {
+      const { error: deadlineError } = await supabaseService.rpc('set_booking_response_deadline', {
+        p_booking_id: booking.id
+      });
+      if (deadlineError) {
+        console.error('Failed to set provider response deadline:', deadlineError);
+      // Non-critical error, continue with booking response
+      }
+    }
     // Create payment_intents record for tracking
     console.log('Creating payment_intents record...');
     const { error: piError } = await supabaseService.from('payment_intents').insert({
@@ -570,6 +760,44 @@ Deno.serve(async (req)=>{
     } else {
       console.log('Payment record created successfully');
     }
+    // 🔁 Recurring series - future occurrences are booked by process-booking-series,
+    // each with its own PaymentIntent charged to the card saved with this payment
+    let series = null;
+    if (recurrence) {
+      try {
+        series = await createBookingSeries(supabaseService, {
+          customerId: customer_id,
+          providerId: provider_id,
+          serviceId: service_id,
+          frequency: recurrence.frequency,
+          occurrenceCount: Number(recurrence.occurrence_count),
+          startDate: booking_date,
+          startTime: finalStartTime,
+          durationMinutes: service.duration_minutes || 60,
+          bufferMinutes: travelBufferMinutes,
+          serviceAddress: serviceLocation.address,
+          serviceCoordinates: serviceLocation.coordinates,
+          customerNotes: customer_notes,
+          paymentMethodId: typeof paymentIntent.payment_method === 'string' ? paymentIntent.payment_method : paymentIntent.payment_method?.id,
+          providerTimeZone: providerProfile?.timezone,
+          firstBookingId: booking.id
+        });
+        console.log('Booking series created:', series.series.id, 'occurrences:', series.occurrences.length);
+      } catch (seriesError) {
+        // Non-critical - the first booking stands on its own
+        console.error('Booking series creation error:', seriesError);
+      }
+    }
+    // Notify provider about the new booking
+    await sendPushToUser(supabaseService, provider_id, {
+      title: bookingStatus === 'pending' ? 'New booking request' : 'New booking confirmed',
+      body: bookingStatus === 'pending' ? `You have a new ${bookingMode === 'sos' ? 'SOS ' : ''}booking request for ${booking_date} at ${finalStartTime.slice(0, 5)}. Respond before it expires.` : `A booking for ${booking_date} at ${finalStartTime.slice(0, 5)} was automatically confirmed.`,
+      data: {
+        type: bookingStatus === 'pending' ? 'booking_request' : 'booking_confirmed',
+        booking_id: booking.id,
+        url: `/(provider)/bookingdetail/${booking.id}`
+      }
+    });
     return new Response(JSON.stringify({
       booking: {
         id: booking.id,
@@ -579,7 +807,12 @@ Deno.serve(async (req)=>{
         end_time: booking.end_time,
         total_amount: booking.total_amount,
         status: booking.status
-      }
+      },
+      series: series ? {
+        id: series.series.id,
+        frequency: series.series.frequency,
+        occurrences: series.occurrences
+      } : null
     }), {
       headers: {
         ...corsHeaders,
@@ -1,4 +1,8 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.38.4';
+import { PricingError, signQuote, verifyQuote } from '../_shared/pricing.ts';
+import { AddressError } from '../_shared/addresses.ts';
+import { ServiceAreaError } from '../_shared/service-area.ts';
+import { bookingPaymentIntentParams, isWalletCard, quoteBookingCharge } from '../_shared/payments.ts';
 
 // CORS headers
 const corsHeaders = {
@@ -7,13 +11,19 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, GET, OPTIONS, PUT, DELETE',
 };
 
+// Amounts are never taken from the request - the PaymentIntent is created for the
+// server-side price quote (see _shared/pricing.ts)
 interface PaymentIntentRequest {
-  amount: number;           // This is now the FULL amount (not just deposit)
-  depositAmount: number;    // The deposit portion to capture immediately
-  currency: string;
   serviceId: string;
   providerId: string;
+  isHouseCall?: boolean;    // Booking at the customer's address (adds the house call fee)
+  addressId?: string;       // Saved address for house calls - checked against the provider's service area
+  quoteToken?: string;      // Signed quote the customer was shown - must still match the price
   bookingId?: string;       // Optional booking ID for tracking
+  setupFutureUsage?: boolean; // Save the card for later off-session charges (recurring series)
+  paymentMethodId?: string; // Saved wallet card - confirmed off-session (one-tap pay)
+  bookingSeriesId?: string; // Optional booking series ID for tracking
+  sosRequestId?: string;    // SOS request being booked - adds its pay-per-use fee
 }
 
 Deno.serve(async (req) => {
@@ -80,43 +90,83 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { amount, depositAmount, currency, serviceId, providerId, bookingId, userId } = requestBody as PaymentIntentRequest & { userId?: string };
+    const { serviceId, providerId, isHouseCall, addressId, quoteToken, bookingId, userId, setupFutureUsage, paymentMethodId, bookingSeriesId, sosRequestId } = requestBody as PaymentIntentRequest & { userId?: string };
 
-    // ✨ Extract user ID from auth header if not in body
-    let finalUserId = userId;
-    if (!finalUserId && authHeader?.startsWith('Bearer ')) {
-      try {
-        const token = authHeader.substring(7);
-        // Decode JWT payload (format: header.payload.signature)
-        const payload = JSON.parse(
-          atob(token.split('.')[1] || '')
-        );
-        finalUserId = payload.sub; // sub is the user ID in Supabase JWT
-        console.log('[v28] Extracted user ID from token:', finalUserId);
-      } catch (e) {
-        console.log('[v28] Could not extract user from token:', String(e));
+    // 🔐 Who is paying - verify_jwt is off for this function, so the token is checked here.
+    // Only internal callers holding the service role key may name the customer in the body.
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+    let finalUserId: string | undefined;
+    if (token && token === serviceRoleKey) {
+      finalUserId = userId;
+    } else if (token) {
+      const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+      if (userError) {
+        console.log('[v28] Could not verify user token:', userError.message);
       }
+      finalUserId = user?.id;
     }
 
-    // Validate required fields
-    if (!amount || depositAmount === undefined || !currency || !serviceId || !providerId) {
-      console.error('[v28] Missing required fields:', { amount, depositAmount, currency, serviceId, providerId });
+    if (!finalUserId) {
       return new Response(
-        JSON.stringify({ error: 'Missing required fields: amount, depositAmount, currency, serviceId, providerId', v: 27 }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Invalid or expired token', v: 28 }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // ✅ FIXED: Allow depositAmount === amount for full escrow capture scenarios
-    // Validate that deposit does not EXCEED total amount (but can equal it for full escrow)
-    if (depositAmount > amount) {
-      console.error('[v28] Deposit exceeds total:', { depositAmount, amount });
+    // Validate required fields
+    if (!serviceId || !providerId || !finalUserId) {
+      console.error('[v28] Missing required fields:', { serviceId, providerId, userId: finalUserId });
       return new Response(
-        JSON.stringify({ error: 'Deposit amount cannot exceed total amount', v: 27 }),
+        JSON.stringify({ error: 'Missing required fields: serviceId, providerId, user', v: 28 }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    // 💷 Price comes from provider_services, not from the app. House calls have to be
+    // inside the provider's service area - checked before anything is charged.
+    let quote = await quoteBookingCharge(supabaseClient, {
+      serviceId,
+      providerId,
+      customerId: finalUserId,
+      isHouseCall,
+      addressId,
+      bookingSeriesId,
+      sosRequestId,
+    });
+    let signedQuote: string;
+
+    if (quoteToken) {
+      // The customer agreed to a quote - only charge it if the price is still the same
+      const accepted = await verifyQuote(quoteToken);
+      const unchanged = accepted.serviceId === quote.serviceId &&
+        accepted.providerId === quote.providerId &&
+        accepted.customerId === quote.customerId &&
+        accepted.isHouseCall === quote.isHouseCall &&
+        (accepted.travelFee || 0) === quote.travelFee &&
+        accepted.totalAmount === quote.totalAmount;
+
+      if (!unchanged) {
+        console.warn('[v28] Quoted price changed:', { quoted: accepted.totalAmount, current: quote.totalAmount });
+        return new Response(
+          JSON.stringify({
+            error: 'The price of this service has changed',
+            code: 'PRICE_CHANGED',
+            quote,
+            quoteToken: await signQuote(quote),
+            v: 28,
+          }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      quote = accepted;
+      signedQuote = quoteToken;
+    } else {
+      signedQuote = await signQuote(quote);
+    }
+
+    console.log('[v28] Server price quote:', quote);
+
     const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
     if (!stripeSecretKey) {
       console.error('[v28] Stripe configuration error: missing secret key');
@@ -190,31 +240,28 @@ Deno.serve(async (req) => {
         .eq('id', finalUserId);
     }
 
-    // Calculate remaining amount for metadata
+    // 💳 One-tap pay only charges cards in the customer's own wallet
+    if (paymentMethodId && !(await isWalletCard(supabaseClient, finalUserId, paymentMethodId))) {
+      return new Response(
+        JSON.stringify({ error: 'Saved card not found', code: 'PAYMENT_METHOD_NOT_FOUND', v: 28 }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const amount = quote.totalAmount;
+    const depositAmount = quote.depositAmount;
     const remainingAmount = amount - depositAmount;
     
-    // Create payment intent for FULL amount with manual capture
-    const paymentIntentParams = new URLSearchParams({
-      amount: amount.toString(),                    // FULL amount (e.g., 8500 for £85)
-      currency: currency.toLowerCase(),
-      customer: customerId,
-      capture_method: 'manual',                     // Key change: manual capture
-      description: `Service booking - Full: £${(amount/100).toFixed(2)}, Deposit: £${(depositAmount/100).toFixed(2)}`,
+    // Create payment intent for FULL amount with manual capture - the same builder
+    // charges saved cards off-session for series occurrences and SOS bookings.
+    // 🔁 Recurring series: the first payment saves the card (setupFutureUsage)
+    const paymentIntentParams = bookingPaymentIntentParams(quote, {
+      stripeCustomerId: customerId,
+      bookingId,
+      bookingSeriesId,
+      setupFutureUsage,
+      paymentMethodId,
     });
-    
-    // Add comprehensive metadata for tracking
-    paymentIntentParams.append('metadata[service_id]', serviceId);
-    paymentIntentParams.append('metadata[provider_id]', providerId);
-    paymentIntentParams.append('metadata[customer_id]', finalUserId || '');
-    paymentIntentParams.append('metadata[total_amount]', amount.toString());
-    paymentIntentParams.append('metadata[deposit_amount]', depositAmount.toString());
-    paymentIntentParams.append('metadata[remaining_amount]', remainingAmount.toString());
-    if (bookingId) {
-      paymentIntentParams.append('metadata[booking_id]', bookingId);
-    }
-    
-    // Add automatic payment methods
-    paymentIntentParams.append('automatic_payment_methods[enabled]', 'true');
 
     const paymentIntentResponse = await fetch('https://api.stripe.com/v1/payment_intents', {
       method: 'POST',
@@ -225,21 +272,45 @@ Deno.serve(async (req) => {
       body: paymentIntentParams,
     });
 
+    let paymentIntentData;
     if (!paymentIntentResponse.ok) {
       const errorData = await paymentIntentResponse.json();
       console.error('[v28] Stripe payment intent creation error:', errorData);
-      throw new Error(`Failed to create payment intent: ${errorData.error?.message || 'Unknown error'}`);
+
+      // 🔐 Saved card needs 3D Secure - the app confirms the same PaymentIntent on-session
+      if (paymentMethodId && errorData.error?.code === 'authentication_required' && errorData.error?.payment_intent) {
+        paymentIntentData = errorData.error.payment_intent;
+      } else if (paymentMethodId && errorData.error?.type === 'card_error') {
+        return new Response(
+          JSON.stringify({
+            error: errorData.error.message || 'Your saved card was declined',
+            code: 'CARD_DECLINED',
+            decline_code: errorData.error.decline_code,
+            v: 28,
+          }),
+          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      } else {
+        throw new Error(`Failed to create payment intent: ${errorData.error?.message || 'Unknown error'}`);
+      }
+    } else {
+      paymentIntentData = await paymentIntentResponse.json();
     }
 
-    const paymentIntentData = await paymentIntentResponse.json();
+    // Off-session confirmation either authorised the card (requires_capture) or needs the customer
+    const requiresAction = !!paymentMethodId && paymentIntentData.status !== 'requires_capture';
 
     return new Response(
       JSON.stringify({
         clientSecret: paymentIntentData.client_secret,
         paymentIntentId: paymentIntentData.id,
+        status: paymentIntentData.status,
+        requiresAction,                    // Saved card: confirm on-session (3D Secure) before capturing
         amount: amount,                    // Full amount authorized
         depositAmount: depositAmount,      // Amount to capture immediately
         remainingAmount: remainingAmount,  // Amount to capture later
+        quote,                             // Server price breakdown (pence)
+        quoteToken: signedQuote,           // Pass to capture-deposit / create-booking
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), // 7 days from now
       }),
       {
@@ -249,6 +320,21 @@ Deno.serve(async (req) => {
     );
 
   } catch (error) {
+    if (error instanceof ServiceAreaError) {
+      console.error('[v28] Service area check failed:', error.code, error.message);
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code, details: error.details, v: 28 }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (error instanceof PricingError || error instanceof AddressError) {
+      console.error('[v28] Pricing error:', error.code, error.message);
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code, v: 28 }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.error('[v28] Error creating payment intent:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const errorStack = error instanceof Error ? error.stack : undefined;
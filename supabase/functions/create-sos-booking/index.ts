@@ -1,11 +1,25 @@
 /**
  * Create SOS Booking Edge Function
  * 
- * Creates emergency bookings with instant confirmation and priority handling.
+ * Starts an SOS dispatch: the request is broadcast to the nearest available
+ * providers (see _shared/sos-dispatch.ts) and booked with whoever accepts first.
+ * The customer follows it through manage-sos-request.
+ *
+ * Requests are covered by the customer's SOS subscription allowance, or paid per
+ * use (see _shared/sos-entitlement.ts) - a pay-per-use request has to be agreed to
+ * with accept_pay_per_use, otherwise it's refused with PAY_PER_USE_REQUIRED.
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { AddressError, resolveServiceLocation } from '../_shared/addresses.ts'
+import {
+  describeSOSRequest,
+  SOS_REQUEST_COLUMNS,
+  SOSDispatchError,
+  startSOSDispatch
+} from '../_shared/sos-dispatch.ts'
+import { getSOSEntitlement } from '../_shared/sos-entitlement.ts'
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
@@ -13,12 +27,11 @@ const supabase = createClient(
 )
 
 interface CreateSOSBookingRequest {
-  provider_id: string;
   category_id: string;
   emergency_description: string;
-  service_location: string;
+  service_address_id: string;
   urgency_level: 'low' | 'medium' | 'high';
-  instant_confirmation: boolean;
+  accept_pay_per_use?: boolean; // Customer agreed to the pay-per-use fee
 }
 
 Deno.serve(async (req) => {
@@ -29,14 +42,29 @@ Deno.serve(async (req) => {
 
   try {
     const { 
-      provider_id, 
       category_id, 
       emergency_description, 
-      service_location, 
-      urgency_level, 
-      instant_confirmation 
+      service_address_id,
+      urgency_level,
+      accept_pay_per_use
     }: CreateSOSBookingRequest = await req.json()
 
+    if (!category_id || !emergency_description?.trim() || !service_address_id) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'Missing required fields',
+          message: 'category_id, emergency_description and service_address_id are required'
+        }),
+        { 
+          status: 400, 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json' 
+          } 
+        }
+      )
+    }
+
     // Get JWT from Authorization header
     const authHeader = req.headers.get('Authorization')
     if (!authHeader) {
@@ -52,23 +80,21 @@ Deno.serve(async (req) => {
       throw new Error('Invalid or expired token')
     }
 
-    // Verify user has active SOS subscription
-    const { data: subscription, error: subError } = await supabase
-      .from('subscriptions')
-      .select('*')
-      .eq('customer_id', user.id)
-      .eq('status', 'active')
-      .eq('plan_type', 'sos')
-      .single()
+    const { data: subcategory } = await supabase
+      .from('service_subcategories')
+      .select('id')
+      .eq('id', category_id)
+      .eq('is_active', true)
+      .maybeSingle()
 
-    if (subError || !subscription) {
+    if (!subcategory) {
       return new Response(
         JSON.stringify({ 
-          error: 'SOS subscription required',
-          message: 'You need an active SOS subscription to create emergency bookings'
+          error: 'Invalid category',
+          message: 'This emergency service is not available'
         }),
         { 
-          status: 403, 
+          status: 400, 
           headers: { 
             ...corsHeaders, 
             'Content-Type': 'application/json' 
@@ -77,38 +103,23 @@ Deno.serve(async (req) => {
       )
     }
 
-    // Verify provider exists and accepts emergency bookings
-    const { data: provider, error: providerError } = await supabase
-      .from('profiles')
-      .select(`
-        id,
-        first_name,
-        last_name,
-        business_name,
-        provider_services!inner (
-          id,
-          title,
-          base_price,
-          duration_minutes,
-          allows_sos_booking
-        )
-      `)
-      .eq('id', provider_id)
-      .eq('role', 'provider')
-      .eq('is_verified', true)
-      .eq('provider_services.allows_sos_booking', true)
-      .eq('provider_services.is_active', true)
+    // One live search at a time - a second tap picks up the running request
+    const { data: openRequest } = await supabase
+      .from('sos_requests')
+      .select(SOS_REQUEST_COLUMNS)
+      .eq('customer_id', user.id)
+      .in('status', ['searching', 'accepted'])
+      .order('created_at', { ascending: false })
       .limit(1)
-      .single()
+      .maybeSingle()
 
-    if (providerError || !provider) {
+    if (openRequest) {
       return new Response(
         JSON.stringify({ 
-          error: 'Provider unavailable',
-          message: 'Selected provider is not available for emergency bookings'
+          request: await describeSOSRequest(supabase, openRequest),
+          message: 'You already have an emergency request in progress'
         }),
         { 
-          status: 400, 
           headers: { 
             ...corsHeaders, 
             'Content-Type': 'application/json' 
@@ -117,71 +128,113 @@ Deno.serve(async (req) => {
       )
     }
 
-    // Get an appropriate service for the emergency category
-    const service = Array.isArray(provider.provider_services) 
-      ? provider.provider_services[0] 
-      : provider.provider_services;
-
-    // Create the emergency booking with real data
-    const bookingData = {
-      customer_id: user.id,
-      provider_id: provider_id,
-      service_id: service?.id || null,
-      booking_date: new Date().toISOString().split('T')[0],
-      start_time: new Date().toISOString(),
-      end_time: new Date(Date.now() + (service?.duration_minutes || 60) * 60000).toISOString(),
-      status: instant_confirmation ? 'confirmed' : 'pending',
-      total_amount: service?.base_price || 50, // Emergency surcharge
-      service_location: service_location,
-      emergency_description: emergency_description,
-      urgency_level: urgency_level,
-      sos_booking: true,
-      requires_confirmation: !instant_confirmation,
-      confirmed_at: instant_confirmation ? new Date().toISOString() : null,
-      payment_status: 'pending'
+    // Covered by the SOS subscription allowance, or paid per use
+    const entitlement = await getSOSEntitlement(supabase, user.id)
+
+    if (entitlement.nextRequest === 'pay_per_use' && !accept_pay_per_use) {
+      const error = new SOSDispatchError(
+        'PAY_PER_USE_REQUIRED',
+        entitlement.source
+          ? 'You\'ve used all the SOS requests included in your subscription this month'
+          : 'You don\'t have an SOS subscription',
+        402
+      )
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code, entitlement }),
+        { 
+          status: error.status, 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json' 
+          } 
+        }
+      )
     }
 
-    const { data: booking, error: bookingError } = await supabase
-      .from('bookings')
-      .insert([bookingData])
-      .select(`
-        id,
-        provider_id,
-        customer_id,
-        service_location,
-        emergency_description,
-        urgency_level,
-        status,
-        total_amount,
-        created_at,
-        sos_booking
-      `)
-      .single()
-
-    if (bookingError) {
-      console.error('Error creating SOS booking:', bookingError)
-      throw new Error('Failed to create emergency booking')
+    // Dispatch needs a located address - distances decide who gets the request
+    let location
+    try {
+      location = await resolveServiceLocation(supabase, user.id, {
+        addressId: service_address_id
+      })
+    } catch (error) {
+      if (!(error instanceof AddressError)) throw error
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code }),
+        { 
+          status: error.status, 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json' 
+          } 
+        }
+      )
     }
 
-    // Calculate estimated arrival (mock calculation)
-    const estimatedArrivalMinutes = urgency_level === 'high' ? 10 : urgency_level === 'medium' ? 20 : 30;
-    const estimatedArrival = `${estimatedArrivalMinutes} minutes`;
+    if (!service_address_id || !location.coordinates) {
+      return new Response(
+        JSON.stringify({ 
+          error: 'We couldn\'t locate this address. Please choose a saved address from your address book.',
+          code: 'ADDRESS_NOT_LOCATED'
+        }),
+        { 
+          status: 422, 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json' 
+          } 
+        }
+      )
+    }
+
+    // The provider who accepts is paid from the customer's default wallet card
+    const { data: paymentMethod } = await supabase
+      .from('customer_payment_methods')
+      .select('stripe_payment_method_id')
+      .eq('customer_id', user.id)
+      .eq('is_default', true)
+      .maybeSingle()
+
+    if (!paymentMethod) {
+      const error = new SOSDispatchError(
+        'NO_PAYMENT_METHOD',
+        'Add a card to your wallet so the provider who accepts can be paid straight away',
+        402
+      )
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code }),
+        { 
+          status: error.status, 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json' 
+          } 
+        }
+      )
+    }
 
-    // TODO: In production, notify the provider immediately
-    // TODO: Send push notifications to customer
-    // TODO: Create provider notification record
+    // Broadcast to the nearest providers - the first to accept is booked
+    const request = await startSOSDispatch(supabase, {
+      customerId: user.id,
+      subcategoryId: category_id,
+      description: emergency_description.trim(),
+      urgencyLevel: urgency_level,
+      serviceAddressId: service_address_id,
+      serviceAddress: location.address,
+      serviceCoordinates: location.coordinates,
+      paymentMethodId: paymentMethod.stripe_payment_method_id,
+      entitlement: entitlement.nextRequest,
+      payPerUseFee: entitlement.payPerUseFee
+    })
 
-    console.log(`SOS booking created: ${booking.id} for user ${user.id}`)
+    console.log(`SOS request created: ${request.id} for user ${user.id} (status ${request.status}, ${entitlement.nextRequest})`)
 
     return new Response(
       JSON.stringify({ 
-        booking: {
-          ...booking,
-          estimated_arrival: estimatedArrival
-        },
-        message: 'Emergency booking created successfully',
-        estimated_arrival: estimatedArrival,
-        provider_notified: true
+        request: await describeSOSRequest(supabase, request),
+        message: request.status === 'searching'
+          ? 'Emergency request sent to nearby providers'
+          : 'No providers are available nearby right now'
       }),
       { 
         headers: { 
@@ -195,7 +248,7 @@ Deno.serve(async (req) => {
     console.error('Error in create-sos-booking:', error)
     return new Response(
       JSON.stringify({ 
-        error: (error as Error).message || 'Failed to create emergency booking',
+        error: (error as Error).message || 'Failed to create emergency request',
         details: 'Unable to process emergency booking request'
       }),
       { 
@@ -130,6 +130,7 @@ serve(async (req) => {
       items: [{ price: priceId }],
       metadata: {
         supabase_user_id: authenticatedUserId,
+        subscription_type: dbSubscriptionType,
       },
       payment_behavior: 'default_incomplete',
       payment_settings: {
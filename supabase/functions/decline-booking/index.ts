@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -190,9 +191,14 @@ Deno.serve(async (req) => {
       })
       .eq('booking_id', booking_id);
 
-    // TODO: Send notification to customer about booking decline and refund
     console.log('Booking declined successfully:', booking_id);
-    console.log('TODO: Send push notification to customer:', booking.customer_id);
+
+    // Notify customer
+    await sendPushToUser(supabaseService, booking.customer_id, {
+      title: 'Booking declined',
+      body: `Your booking on ${booking.booking_date} was declined by the provider. A full refund is on its way.`,
+      data: { type: 'booking_declined', booking_id, url: `/(customer)/booking/${booking_id}` },
+    });
 
     return new Response(
       JSON.stringify({
@@ -0,0 +1,333 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { VERIFICATION_BUCKET, verificationFolders } from '../_shared/verification-storage.ts';
+import { listObjectsRecursive, removeObjects, storageObjectPath } from '../_shared/storage-cleanup.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const SERVICE_IMAGES_BUCKET = 'service-images';
+const CHAT_IMAGES_BUCKET = 'chat-images';
+
+// Bookings that still need both parties - finish or cancel them first
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed', 'in_progress'];
+const ACTIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+// Personal rows deleted outright, keyed by the column holding the user id
+const PERSONAL_TABLES: Array<{ table: string; column: string; providerOnly?: boolean }> = [
+  { table: 'user_addresses', column: 'user_id' },
+  { table: 'user_favorites', column: 'user_id' },
+  { table: 'notifications', column: 'user_id' },
+  { table: 'notification_settings', column: 'user_id' },
+  { table: 'customer_payment_methods', column: 'customer_id' },
+  { table: 'profile_views', column: 'viewer_id' },
+  { table: 'service_views', column: 'viewer_id' },
+  { table: 'provider_verification_documents', column: 'provider_id', providerOnly: true },
+  { table: 'provider_verification_step_progress', column: 'provider_id', providerOnly: true },
+  { table: 'provider_onboarding_progress', column: 'provider_id', providerOnly: true },
+  { table: 'provider_portfolio_images', column: 'provider_id', providerOnly: true },
+  { table: 'provider_selected_categories', column: 'provider_id', providerOnly: true },
+  { table: 'provider_business_terms', column: 'provider_id', providerOnly: true },
+  { table: 'provider_schedules', column: 'provider_id', providerOnly: true },
+  { table: 'provider_blackouts', column: 'provider_id', providerOnly: true },
+  { table: 'booking_live_locations', column: 'provider_id', providerOnly: true },
+];
+
+// Kept after erasure - they reference the anonymised profile
+const RETAINED_RECORDS = {
+  bookings: 'Accounting and tax records',
+  payments: 'Accounting and tax records',
+  provider_payouts: 'Accounting and tax records',
+  reviews: 'Shown on the other party\'s profile, without your name',
+  verification_audit_log: 'Record of identity checks - contains no images',
+};
+
+class AccountDeletionError extends Error {
+  constructor(
+    public code: 'PROFILE_NOT_FOUND' | 'ACTIVE_BOOKINGS' | 'ACTIVE_SUBSCRIPTION',
+    message: string,
+    public status = 409,
+  ) {
+    super(message);
+  }
+}
+
+interface ErasureReport {
+  storage: Record<string, number>;
+  deleted_rows: Record<string, number>;
+  anonymised: string[];
+  retained: Record<string, string>;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  console.log('=== DELETE ACCOUNT FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let erasureId: string | null = null;
+  let supabaseService: any = null;
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Authorization required' }, 401);
+    }
+
+    let userId: string;
+    try {
+      const jwtParts = authHeader.replace('Bearer ', '').split('.');
+      const payload = JSON.parse(atob(jwtParts[1]));
+      userId = payload.sub;
+
+      if (!userId) {
+        throw new Error('Invalid user ID in JWT');
+      }
+    } catch (error) {
+      console.error('JWT parsing error:', error);
+      return jsonResponse({ error: 'Invalid authentication token' }, 401);
+    }
+
+    supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: profile } = await supabaseService
+      .from('profiles')
+      .select('id, role, avatar_url, selfie_verification_url')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (!profile) {
+      throw new AccountDeletionError('PROFILE_NOT_FOUND', 'Account not found', 404);
+    }
+
+    const isProvider = profile.role === 'provider';
+
+    const [{ count: activeBookings }, { count: activeSubscriptions }] = await Promise.all([
+      supabaseService
+        .from('bookings')
+        .select('id', { count: 'exact', head: true })
+        .or(`customer_id.eq.${userId},provider_id.eq.${userId}`)
+        .in('status', ACTIVE_BOOKING_STATUSES),
+      supabaseService
+        .from('user_subscriptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .in('status', ACTIVE_SUBSCRIPTION_STATUSES),
+    ]);
+
+    if (activeBookings) {
+      throw new AccountDeletionError(
+        'ACTIVE_BOOKINGS',
+        `You have ${activeBookings} upcoming or active booking${activeBookings === 1 ? '' : 's'}. Complete or cancel them before deleting your account.`
+      );
+    }
+    if (activeSubscriptions) {
+      throw new AccountDeletionError(
+        'ACTIVE_SUBSCRIPTION',
+        'Cancel your subscription before deleting your account.'
+      );
+    }
+
+    const { data: erasure } = await supabaseService
+      .from('account_erasures')
+      .insert({ user_id: userId, role: profile.role })
+      .select('id')
+      .single();
+    erasureId = erasure?.id ?? null;
+
+    const report: ErasureReport = {
+      storage: {},
+      deleted_rows: {},
+      anonymised: [],
+      retained: RETAINED_RECORDS,
+    };
+
+    // 1. Files - everything under the user's folders, plus anything the database
+    //    points at outside them (legacy paths)
+    const verificationPaths = await listObjectsRecursive(
+      supabaseService,
+      VERIFICATION_BUCKET,
+      verificationFolders(userId).root
+    );
+    const referencedPaths = [profile.selfie_verification_url, profile.avatar_url];
+
+    if (isProvider) {
+      const [{ data: documents }, { data: portfolio }] = await Promise.all([
+        supabaseService.from('provider_verification_documents').select('document_url').eq('provider_id', userId),
+        supabaseService.from('provider_portfolio_images').select('image_url').eq('provider_id', userId),
+      ]);
+      referencedPaths.push(
+        ...(documents || []).map((d: any) => d.document_url),
+        ...(portfolio || []).map((p: any) => p.image_url)
+      );
+    }
+
+    for (const stored of referencedPaths) {
+      const path = storageObjectPath(VERIFICATION_BUCKET, stored);
+      // Skip other hosts and buckets (e.g. social avatars) - only bare paths and URLs into this bucket
+      if (path && (!stored?.startsWith('http') || stored.includes(`/${VERIFICATION_BUCKET}/`))) {
+        verificationPaths.push(path);
+      }
+    }
+
+    report.storage[VERIFICATION_BUCKET] = (
+      await removeObjects(supabaseService, VERIFICATION_BUCKET, verificationPaths)
+    ).length;
+
+    if (isProvider) {
+      const servicePaths = await listObjectsRecursive(supabaseService, SERVICE_IMAGES_BUCKET, verificationFolders(userId).root);
+      const { data: services } = await supabaseService
+        .from('provider_services')
+        .select('id')
+        .eq('provider_id', userId);
+      const serviceIds = (services || []).map((s: any) => s.id);
+
+      if (serviceIds.length > 0) {
+        const { data: serviceImages } = await supabaseService
+          .from('provider_service_images')
+          .select('image_url')
+          .in('service_id', serviceIds);
+        for (const image of serviceImages || []) {
+          const path = storageObjectPath(SERVICE_IMAGES_BUCKET, image.image_url);
+          if (path) servicePaths.push(path);
+        }
+
+        const { count } = await supabaseService
+          .from('provider_service_images')
+          .delete({ count: 'exact' })
+          .in('service_id', serviceIds);
+        report.deleted_rows.provider_service_images = count ?? 0;
+
+        // Services stay for booking history but are no longer offered
+        await supabaseService
+          .from('provider_services')
+          .update({ is_active: false, allows_sos_booking: false })
+          .eq('provider_id', userId);
+        report.anonymised.push('provider_services');
+      }
+
+      report.storage[SERVICE_IMAGES_BUCKET] = (
+        await removeObjects(supabaseService, SERVICE_IMAGES_BUCKET, servicePaths)
+      ).length;
+    }
+
+    // Chat: images the user sent are deleted, their messages stay in the other person's thread as a placeholder
+    const { data: sentImages } = await supabaseService
+      .from('messages')
+      .select('image_path')
+      .eq('sender_id', userId)
+      .not('image_path', 'is', null);
+
+    report.storage[CHAT_IMAGES_BUCKET] = (
+      await removeObjects(
+        supabaseService,
+        CHAT_IMAGES_BUCKET,
+        (sentImages || []).map((m: any) => storageObjectPath(CHAT_IMAGES_BUCKET, m.image_path)).filter(Boolean)
+      )
+    ).length;
+
+    const { error: messagesError } = await supabaseService
+      .from('messages')
+      .update({ content: 'Message deleted', image_path: null })
+      .eq('sender_id', userId);
+    if (messagesError) throw messagesError;
+    report.anonymised.push('messages');
+
+    // 2. Personal rows
+    for (const { table, column, providerOnly } of PERSONAL_TABLES) {
+      if (providerOnly && !isProvider) continue;
+
+      const { count, error } = await supabaseService
+        .from(table)
+        .delete({ count: 'exact' })
+        .eq(column, userId);
+
+      if (error) {
+        console.error('[DeleteAccount] Failed to delete rows from', table, error);
+        throw error;
+      }
+      report.deleted_rows[table] = count ?? 0;
+    }
+
+    // 3. Profile - kept as an anonymous row so bookings, payments and reviews stay valid
+    const { error: profileError } = await supabaseService
+      .from('profiles')
+      .update({
+        first_name: 'Deleted',
+        last_name: 'User',
+        email: `deleted-${userId}@deleted.invalid`,
+        phone_number: null,
+        address: null,
+        city: null,
+        postal_code: null,
+        country: null,
+        country_code: null,
+        coordinates: null,
+        latitude: null,
+        longitude: null,
+        avatar_url: null,
+        bio: null,
+        business_name: null,
+        business_bio: null,
+        business_description: null,
+        website: null,
+        selfie_verification_url: null,
+        expo_push_token: null,
+        notification_preferences: null,
+        is_business_visible: false,
+        availability_status: 'unavailable',
+        availability_message: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId);
+    if (profileError) throw profileError;
+    report.anonymised.push('profiles');
+
+    // 4. Sign-in - soft delete keeps the auth row the profile points at, but removes the
+    //    email, phone and identities so the account can't be used again
+    const { error: authError } = await supabaseService.auth.admin.deleteUser(userId, true);
+    if (authError) throw authError;
+    report.anonymised.push('auth_user');
+
+    if (erasureId) {
+      await supabaseService
+        .from('account_erasures')
+        .update({ status: 'completed', report, completed_at: new Date().toISOString() })
+        .eq('id', erasureId);
+    }
+
+    console.log('=== DELETE ACCOUNT FUNCTION END ===', { userId, storage: report.storage });
+
+    return jsonResponse({ success: true, erasure_id: erasureId, report });
+  } catch (error) {
+    if (error instanceof AccountDeletionError) {
+      return jsonResponse({ error: error.message, code: error.code }, error.status);
+    }
+
+    console.error('Delete account error:', error);
+    if (erasureId && supabaseService) {
+      await supabaseService
+        .from('account_erasures')
+        .update({ status: 'failed', error: error instanceof Error ? error.message : String(error) })
+        .eq('id', erasureId);
+    }
+    return jsonResponse({ error: 'Failed to delete account. Please try again or contact support.' }, 500);
+  }
+});
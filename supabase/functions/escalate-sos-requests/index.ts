@@ -0,0 +1,100 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { advanceSOSDispatch, SOS_REQUEST_COLUMNS } from '../_shared/sos-dispatch.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Max requests handled per run - the cron runs every minute
+const BATCH_SIZE = 50;
+
+/**
+ * Widen SOS searches whose wave has timed out, and give up on requests that have
+ * run out of waves (see _shared/sos-dispatch.ts)
+ */
+Deno.serve(async (req) => {
+  console.log('=== ESCALATE SOS REQUESTS FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Scheduled job only - must be invoked with the service role key (pg_cron)
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: overdueRequests, error: fetchError } = await supabaseService
+      .from('sos_requests')
+      .select(SOS_REQUEST_COLUMNS)
+      .eq('status', 'searching')
+      .lt('wave_expires_at', new Date().toISOString())
+      .order('wave_expires_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error('[EscalateSOS] Failed to fetch overdue requests:', fetchError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch overdue requests' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`[EscalateSOS] Found ${overdueRequests?.length || 0} overdue SOS requests`);
+
+    const results: Array<{ request_id: string; status: string; wave?: number; error?: string }> = [];
+
+    for (const request of overdueRequests || []) {
+      try {
+        const advanced = await advanceSOSDispatch(supabaseService, request);
+        results.push({ request_id: request.id, status: advanced.status, wave: advanced.wave });
+      } catch (error) {
+        console.error('[EscalateSOS] ❌ Failed to escalate request:', request.id, error);
+        results.push({
+          request_id: request.id,
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const summary = {
+      processed: results.length,
+      escalated: results.filter((r) => r.status === 'searching').length,
+      no_providers: results.filter((r) => r.status === 'no_providers').length,
+      errors: results.filter((r) => r.status === 'error').length,
+    };
+
+    console.log('=== ESCALATE SOS REQUESTS FUNCTION END ===', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Escalate SOS requests error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,315 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { releasePaymentIntent } from '../_shared/payments.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Max bookings handled per run - the cron runs every 5 minutes so a backlog drains quickly
+const BATCH_SIZE = 50;
+const MAX_ALTERNATIVE_PROVIDERS = 3;
+
+interface AlternativeProvider {
+  provider_id: string;
+  provider_name: string;
+  service_id: string;
+  service_title: string;
+  base_price: number;
+}
+
+/**
+ * Other active providers offering the same kind of service
+ */
+async function findAlternativeProviders(supabaseService: any, booking: any): Promise<AlternativeProvider[]> {
+  const subcategoryId = booking.provider_services?.subcategory_id;
+  if (!subcategoryId) return [];
+
+  const { data, error } = await supabaseService
+    .from('provider_services')
+    .select(`
+      id,
+      title,
+      base_price,
+      provider_id,
+      profiles!provider_services_provider_id_fkey (
+        first_name,
+        last_name,
+        business_name,
+        is_business_visible,
+        stripe_charges_enabled
+      )
+    `)
+    .eq('subcategory_id', subcategoryId)
+    .eq('is_active', true)
+    .neq('provider_id', booking.provider_id)
+    .order('base_price', { ascending: true })
+    .limit(MAX_ALTERNATIVE_PROVIDERS * 3);
+
+  if (error) {
+    console.error('[ExpireBookings] Alternative provider lookup failed:', error);
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const alternatives: AlternativeProvider[] = [];
+
+  for (const service of data || []) {
+    const profile = service.profiles;
+    if (!profile || profile.is_business_visible === false || !profile.stripe_charges_enabled) continue;
+    if (seen.has(service.provider_id)) continue;
+
+    seen.add(service.provider_id);
+    alternatives.push({
+      provider_id: service.provider_id,
+      provider_name: profile.business_name || `${profile.first_name || ''} ${profile.last_name || ''}`.trim(),
+      service_id: service.id,
+      service_title: service.title,
+      base_price: service.base_price,
+    });
+
+    if (alternatives.length >= MAX_ALTERNATIVE_PROVIDERS) break;
+  }
+
+  return alternatives;
+}
+
+/**
+ * Cancels or refunds an expired booking's payment and updates the payment records
+ */
+async function releaseBookingPayment(
+  supabaseService: any,
+  booking: any,
+  stripeSecretKey: string,
+): Promise<'canceled' | 'refunded' | 'none'> {
+  if (!booking.payment_intent_id) return 'none';
+
+  const release = await releasePaymentIntent(booking.payment_intent_id, stripeSecretKey, 'provider_response_deadline_passed');
+
+  const { error: bookingError } = await supabaseService
+    .from('bookings')
+    .update({ payment_status: 'refunded', updated_at: new Date().toISOString() })
+    .eq('id', booking.id);
+
+  if (bookingError) {
+    throw new Error(`Booking payment status update failed: ${bookingError.message}`);
+  }
+
+  if (release.action === 'canceled') {
+    await supabaseService
+      .from('payment_intents')
+      .update({
+        status: 'canceled',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('stripe_payment_intent_id', booking.payment_intent_id);
+  }
+
+  await supabaseService
+    .from('payments')
+    .update({
+      status: 'refunded',
+      refunded_at: new Date().toISOString(),
+    })
+    .eq('booking_id', booking.id);
+
+  return release.action;
+}
+
+async function notifyCustomer(supabaseService: any, booking: any, paymentAction: string): Promise<void> {
+  const alternatives = await findAlternativeProviders(supabaseService, booking);
+  const serviceTitle = booking.provider_services?.title || 'your service';
+  const released = !booking.payment_intent_id
+    ? ''
+    : paymentAction === 'pending'
+      ? ' Your payment will be released shortly.'
+      : ' Your payment has been released.';
+
+  const { error: notificationError } = await supabaseService
+    .from('notifications')
+    .insert({
+      user_id: booking.customer_id,
+      type: 'booking_expired',
+      title: 'Booking request expired',
+      message: alternatives.length > 0
+        ? `The provider didn't respond to your ${serviceTitle} request in time.${released} Here are ${alternatives.length} other providers you could book.`
+        : `The provider didn't respond to your ${serviceTitle} request in time.${released}`,
+      data: {
+        booking_id: booking.id,
+        payment_action: paymentAction,
+        alternative_providers: alternatives,
+      },
+      is_read: false,
+    });
+
+  if (notificationError) {
+    console.error('[ExpireBookings] Failed to notify customer:', notificationError);
+  }
+}
+
+Deno.serve(async (req) => {
+  console.log('=== EXPIRE PENDING BOOKINGS FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey || !stripeSecretKey) {
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Scheduled job only - must be invoked with the service role key (pg_cron)
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date().toISOString();
+
+    const { data: overdueBookings, error: fetchError } = await supabaseService
+      .from('bookings')
+      .select(`
+        id,
+        customer_id,
+        provider_id,
+        booking_date,
+        start_time,
+        payment_intent_id,
+        payment_status,
+        provider_response_deadline,
+        provider_services!bookings_service_id_fkey (
+          title,
+          subcategory_id
+        )
+      `)
+      .eq('status', 'pending')
+      .not('provider_response_deadline', 'is', null)
+      .lt('provider_response_deadline', now)
+      .order('provider_response_deadline', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error('[ExpireBookings] Failed to fetch overdue bookings:', fetchError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch overdue bookings' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`[ExpireBookings] Found ${overdueBookings?.length || 0} overdue pending bookings`);
+
+    const results: Array<{ booking_id: string; status: 'expired' | 'skipped' | 'failed'; payment_action?: string; error?: string }> = [];
+
+    // Bookings expired on an earlier run whose payment release failed - retry the release.
+    // The customer was already told when the booking expired.
+    const { data: unreleasedBookings } = await supabaseService
+      .from('bookings')
+      .select('id, payment_intent_id')
+      .eq('status', 'expired')
+      .not('payment_intent_id', 'is', null)
+      .or('payment_status.is.null,payment_status.neq.refunded')
+      .limit(BATCH_SIZE);
+
+    for (const booking of unreleasedBookings || []) {
+      try {
+        const paymentAction = await releaseBookingPayment(supabaseService, booking, stripeSecretKey);
+        console.log('[ExpireBookings] ✅ Payment released on retry:', booking.id, { paymentAction });
+        results.push({ booking_id: booking.id, status: 'expired', payment_action: paymentAction });
+      } catch (error) {
+        console.error('[ExpireBookings] ❌ Payment release retry failed:', booking.id, error);
+        results.push({
+          booking_id: booking.id,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    for (const booking of overdueBookings || []) {
+      try {
+        // 1. Expire the booking first - conditional on it still being pending so a
+        //    provider accepting at the last second keeps the booking and its payment
+        const { data: expired, error: updateError } = await supabaseService
+          .from('bookings')
+          .update({
+            status: 'expired',
+            provider_response_deadline: null,
+            declined_reason: 'Provider did not respond before the deadline',
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', booking.id)
+          .eq('status', 'pending')
+          .select('id')
+          .maybeSingle();
+
+        if (updateError) {
+          throw new Error(`Booking update failed: ${updateError.message}`);
+        }
+
+        if (!expired) {
+          console.warn('[ExpireBookings] Booking changed status before expiry, skipping:', booking.id);
+          results.push({ booking_id: booking.id, status: 'skipped' });
+          continue;
+        }
+
+        // 2. Release the customer's money - only for bookings this run expired. If it
+        //    fails the booking stays expired with an unreleased payment and is retried above
+        let paymentAction = 'none';
+        let releaseError: string | undefined;
+        try {
+          paymentAction = await releaseBookingPayment(supabaseService, booking, stripeSecretKey);
+        } catch (error) {
+          console.error('[ExpireBookings] ❌ Payment release failed, retrying next run:', booking.id, error);
+          paymentAction = 'pending';
+          releaseError = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        // 3. Notify the customer with suggested alternatives - once, from the run that expired it
+        await notifyCustomer(supabaseService, booking, paymentAction);
+
+        console.log('[ExpireBookings] ✅ Booking expired:', booking.id, { paymentAction });
+        results.push({ booking_id: booking.id, status: 'expired', payment_action: paymentAction, error: releaseError });
+      } catch (error) {
+        console.error('[ExpireBookings] ❌ Failed to expire booking:', booking.id, error);
+        results.push({
+          booking_id: booking.id,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const summary = {
+      processed: results.length,
+      expired: results.filter((r) => r.status === 'expired').length,
+      skipped: results.filter((r) => r.status === 'skipped').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+    };
+
+    console.log('=== EXPIRE PENDING BOOKINGS FUNCTION END ===', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Expire pending bookings error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
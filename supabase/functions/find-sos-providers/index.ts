@@ -1,220 +0,0 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, GET, OPTIONS, PUT, DELETE',
-}
-
-interface FindSOSProvidersRequest {
-  category_id: string
-  service_location?: string
-  emergency_mode?: boolean
-  max_distance_km?: number
-  priority_matching?: boolean
-}
-
-interface ProviderService {
-  id: string
-  title: string
-  base_price: number
-  duration_minutes: number
-  allows_sos_booking: boolean
-  subcategory_id: string
-  service_subcategories: {
-    id: string
-    name: string
-  }
-}
-
-interface DatabaseProvider {
-  id: string
-  first_name: string
-  last_name: string
-  business_name?: string
-  phone_number?: string
-  country_code?: string
-  bio?: string
-  avatar_url?: string
-  city?: string
-  service_radius: number
-  availability_status: string
-  auto_confirm_bookings: boolean
-  provider_onboarding_progress: {
-    verification_status: string
-  }[]
-  provider_services: ProviderService[]
-}
-
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
-
-  try {
-    console.log('🚨 SOS Provider Search - Processing emergency request...')
-    
-    // Initialize Supabase client with service role
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const supabase = createClient(supabaseUrl, supabaseKey)
-
-    // Parse request body
-    const {
-      category_id,
-      service_location,
-      emergency_mode = true,
-      max_distance_km = 25,
-      priority_matching = true
-    }: FindSOSProvidersRequest = await req.json()
-
-    console.log('📍 Emergency request details:', {
-      category: category_id,
-      location: service_location,
-      emergency_mode,
-      max_distance: max_distance_km,
-      priority: priority_matching
-    })
-
-    console.log('🎯 Searching for subcategory with ID:', category_id)
-
-    // Validate that the subcategory exists and is active
-    const { data: subcategoryCheck, error: subcategoryError } = await supabase
-      .from('service_subcategories')
-      .select('id, name')
-      .eq('id', category_id)
-      .eq('is_active', true)
-      .single()
-
-    if (subcategoryError || !subcategoryCheck) {
-      console.log('❌ Invalid subcategory ID:', category_id)
-      return new Response(
-        JSON.stringify({ 
-          error: 'Invalid subcategory ID',
-          details: 'Subcategory not found or inactive'
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    console.log('✅ Valid subcategory found:', subcategoryCheck.name)
-
-    // Query real providers from database with subcategory filtering
-    const { data: realProviders, error } = await supabase
-      .from('profiles')
-      .select(`
-        id,
-        first_name,
-        last_name,
-        business_name,
-        phone_number,
-        country_code,
-        bio,
-        avatar_url,
-        city,
-        service_radius,
-        availability_status,
-        auto_confirm_bookings,
-        rating,
-        review_count,
-        provider_onboarding_progress!inner (
-          verification_status
-        ),
-        provider_services!inner (
-          id,
-          title,
-          base_price,
-          duration_minutes,
-          allows_sos_booking,
-          subcategory_id,
-          service_subcategories!inner (
-            id,
-            name
-          )
-        )
-      `)
-      .eq('role', 'provider')
-      .eq('provider_onboarding_progress.verification_status', 'approved')
-      .eq('availability_status', 'available')
-      .eq('provider_services.is_active', true)
-      .eq('provider_services.allows_sos_booking', true)
-      .eq('provider_services.subcategory_id', category_id)
-
-    if (error) {
-      console.error('❌ Database query error:', error)
-      throw new Error('Failed to query providers')
-    }
-
-    console.log('📊 Found real providers:', realProviders?.length || 0)
-
-    // Transform database results to match expected format
-    const providers = (realProviders as any[])?.map((provider: any) => {
-      const services = provider.provider_services || []
-      const mainService = services[0]
-      
-      return {
-        id: provider.id,
-        user_id: provider.id,
-        name: `${provider.first_name} ${provider.last_name}`.trim(),
-        business_name: provider.business_name || `${provider.first_name}'s Services`,
-        phone: provider.country_code && provider.phone_number 
-          ? `${provider.country_code} ${provider.phone_number}`
-          : null,
-        specializations: services.map((s: any) => s.title),
-        bio: provider.bio || `Professional ${services.map((s: any) => s.service_subcategories?.name).join(', ')} provider`,
-        profile_picture_url: provider.avatar_url,
-        is_verified: provider.provider_onboarding_progress?.[0]?.verification_status === 'approved',
-        emergency_available: true,
-        services: services.map((s: any) => s.title),
-        pricing: mainService ? `From £${mainService.base_price}` : 'Contact for pricing',
-        location: provider.city || 'London',
-        categories: ['Beauty & Grooming', 'Events & Entertainment'],
-        subcategories: services.map((s: any) => s.service_subcategories?.name).filter(Boolean),
-        average_rating: provider.rating ? Number(provider.rating).toFixed(1) : null,
-        review_count: provider.review_count || 0,
-        completed_emergency_jobs: Math.floor(Math.random() * 20) + 5, // TODO: Calculate from bookings
-        distance_km: Math.round((Math.random() * max_distance_km) * 10) / 10,
-        estimated_arrival: `${15 + Math.floor(Math.random() * 30)}-${25 + Math.floor(Math.random() * 20)} mins`,
-        auto_confirm: provider.auto_confirm_bookings
-      }
-    }) || []
-
-    console.log('✅ Transformed providers:', providers.length)
-
-    return new Response(
-      JSON.stringify({
-        providers,
-        search_params: {
-          subcategory_id: category_id,
-          subcategory_name: subcategoryCheck.name,
-          max_distance_km,
-          priority_matching,
-          emergency_mode,
-          results_count: providers.length
-        },
-        emergency_info: {
-          fastest_arrival: providers[0]?.estimated_arrival || 'N/A',
-          top_rated: providers[0]?.average_rating || 'N/A',
-          verified_count: providers.filter((p: any) => p.is_verified).length
-        }
-      }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200
-      }
-    )
-
-  } catch (error) {
-    console.error('Error in find-sos-providers:', error)
-    return new Response(
-      JSON.stringify({ 
-        error: error instanceof Error ? error.message : 'Failed to find emergency providers',
-        details: 'Unable to locate available providers for emergency service'
-      }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500
-      }
-    )
-  }
-})
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildQuote, loadServicePricing, PricingError, signQuote } from '../_shared/pricing.ts';
+import { AddressError, resolveServiceLocation } from '../_shared/addresses.ts';
+import { checkServiceArea, ServiceAreaError } from '../_shared/service-area.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface PriceQuoteRequest {
+  service_id: string;
+  provider_id: string;
+  is_house_call?: boolean;
+  address_id?: string; // saved address for house calls - checked against the service area
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Signed price quote for a service, shown on the payment screen
+ * The token is sent back to create-payment-intent, which only charges it while the
+ * service's price is unchanged. House calls outside the provider's service area are
+ * turned away here, before the customer pays.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Authorization required' }, 401);
+    }
+
+    let userId: string;
+    try {
+      const jwtParts = authHeader.replace('Bearer ', '').split('.');
+      const payload = JSON.parse(atob(jwtParts[1]));
+      userId = payload.sub;
+
+      if (!userId) {
+        throw new Error('Invalid user ID in JWT');
+      }
+    } catch (error) {
+      console.error('JWT parsing error:', error);
+      return jsonResponse({ error: 'Invalid authentication token' }, 401);
+    }
+
+    const { service_id, provider_id, is_house_call, address_id }: PriceQuoteRequest = await req.json().catch(() => ({}));
+
+    if (!service_id || !provider_id) {
+      return jsonResponse({ error: 'service_id and provider_id are required' }, 400);
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+    const service = await loadServicePricing(supabaseService, service_id, provider_id);
+    const isHouseCall = !!is_house_call && !!(service.is_home_service || service.house_call_available);
+
+    let area = null;
+    if (isHouseCall) {
+      const location = await resolveServiceLocation(supabaseService, userId, { addressId: address_id });
+      area = await checkServiceArea(supabaseService, provider_id, location.coordinates);
+    }
+
+    const quote = buildQuote(service, {
+      customerId: userId,
+      isHouseCall,
+      travelFee: area?.travelFee,
+      distanceKm: area?.distanceKm,
+    });
+
+    return jsonResponse({ quote, quote_token: await signQuote(quote) });
+  } catch (error) {
+    if (error instanceof PricingError || error instanceof AddressError) {
+      return jsonResponse({ error: error.message, code: error.code }, error.status);
+    }
+    if (error instanceof ServiceAreaError) {
+      return jsonResponse({ error: error.message, code: error.code, details: error.details }, error.status);
+    }
+
+    console.error('[PriceQuote] Unexpected error:', error);
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
@@ -8,6 +8,9 @@ const corsHeaders = {
 interface AvailabilityRequest {
   providerId: string
   date: string
+  // Optional - slot length and travel buffer come from the service when given
+  serviceId?: string
+  isHouseCall?: boolean
 }
 
 Deno.serve(async (req) => {
@@ -34,7 +37,7 @@ Deno.serve(async (req) => {
     })
 
     const body: AvailabilityRequest = await req.json().catch(() => ({}))
-    const { providerId, date } = body
+    const { providerId, date, serviceId, isHouseCall } = body
 
     if (!providerId || !date) {
       return new Response(
@@ -98,13 +101,14 @@ Deno.serve(async (req) => {
       )
     }
 
-    // Get existing bookings for this date
+    // Get existing bookings for this date - pending requests hold their slot too
+    // (same rule as the enforce_booking_no_overlap trigger)
     const { data: bookings, error: bookingsError } = await supabase
       .from('bookings')
-      .select('start_time, end_time')
+      .select('start_time, end_time, travel_buffer_minutes, booking_mode, is_sos_booking')
       .eq('provider_id', providerId)
       .eq('booking_date', date)
-      .in('status', ['confirmed', 'in_progress'])
+      .in('status', ['pending', 'confirmed', 'in_progress'])
 
     if (bookingsError) {
       console.error('Bookings error:', bookingsError)
@@ -133,27 +137,46 @@ Deno.serve(async (req) => {
 
     console.log('Generating slots from', scheduleStart, 'to', scheduleEnd)
 
-    // Assume default service duration of 60 minutes for slot generation
-    const defaultServiceDuration = 60
+    // Service duration / travel buffer, defaulting to a 60 minute slot
+    let serviceDuration = 60
+    let serviceBuffer = 0
+    if (serviceId) {
+      const { data: service } = await supabase
+        .from('provider_services')
+        .select('duration_minutes, travel_buffer_minutes, is_home_service, house_call_available')
+        .eq('id', serviceId)
+        .eq('provider_id', providerId)
+        .maybeSingle()
+
+      if (service) {
+        serviceDuration = service.duration_minutes || 60
+        serviceBuffer = isHouseCall && (service.is_home_service || service.house_call_available) ? service.travel_buffer_minutes || 0 : 0
+      }
+    }
+
+    const activeBookings = (bookings || []).filter(booking => booking.booking_mode !== 'sos' && !booking.is_sos_booking && booking.start_time)
 
     // Generate 30-minute intervals within schedule hours, ensuring service fits
     let currentTime = scheduleStart
     while (currentTime < scheduleEnd) {
       // Check if adding service duration would exceed schedule end
-      const serviceEndTime = addMinutesToTime(currentTime, defaultServiceDuration)
+      const serviceEndTime = addMinutesToTime(currentTime, serviceDuration)
       if (serviceEndTime > scheduleEnd) {
         break; // Don't generate slots that would make service end after schedule
       }
 
       // Check if this time slot conflicts with existing bookings
-      const isBooked = bookings?.some(booking => {
+      const isBooked = activeBookings.some(booking => {
         const bookingStart = booking.start_time
-        const bookingEnd = booking.end_time || addMinutesToTime(bookingStart, 60) // Default 1 hour if no end_time
+        const bookingEnd = addMinutesToTime(
+          booking.end_time || addMinutesToTime(bookingStart, 60), // Default 1 hour if no end_time
+          booking.travel_buffer_minutes || 0
+        )
 
-        // Check for overlap with the full service duration
-        const slotEnd = addMinutesToTime(currentTime, defaultServiceDuration)
+        // Check for overlap with the full service duration plus travel time
+        const slotEnd = addMinutesToTime(currentTime, serviceDuration + serviceBuffer)
         return currentTime < bookingEnd && slotEnd > bookingStart
-      }) || false
+      })
 
       slots.push({
         date,
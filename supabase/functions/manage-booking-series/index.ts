@@ -0,0 +1,263 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+type SeriesAction = 'skip' | 'cancel_series';
+
+interface ManageSeriesRequest {
+  action: SeriesAction;
+  series_id: string;
+  // skip
+  occurrence_id?: string;
+  reason?: string;
+}
+
+// Occurrence bookings that still need cancelling (and refunding) through cancel-booking
+const CANCELLABLE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  console.log('=== MANAGE BOOKING SERIES FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    // Extract JWT token and user info
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Authorization required' }, 401);
+    }
+
+    let userId: string;
+    try {
+      const jwtParts = authHeader.replace('Bearer ', '').split('.');
+      const payload = JSON.parse(atob(jwtParts[1]));
+      userId = payload.sub;
+
+      if (!userId) {
+        throw new Error('Invalid user ID in JWT');
+      }
+    } catch (error) {
+      console.error('JWT parsing error:', error);
+      return jsonResponse({ error: 'Invalid authentication token' }, 401);
+    }
+
+    const body: ManageSeriesRequest = await req.json().catch(() => ({}));
+    const { action, series_id, occurrence_id, reason } = body;
+
+    if (!series_id || !action) {
+      return jsonResponse({ error: 'series_id and action are required' }, 400);
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: series, error: seriesError } = await supabaseService
+      .from('booking_series')
+      .select(`
+        *,
+        provider_services!booking_series_service_id_fkey (
+          title
+        )
+      `)
+      .eq('id', series_id)
+      .single();
+
+    if (seriesError || !series) {
+      console.error('Series not found:', seriesError);
+      return jsonResponse({ error: 'Booking series not found' }, 404);
+    }
+
+    const isCustomer = series.customer_id === userId;
+    const isProvider = series.provider_id === userId;
+    if (!isCustomer && !isProvider) {
+      return jsonResponse({ error: 'Unauthorized to manage this series' }, 403);
+    }
+
+    if (series.status !== 'active') {
+      return jsonResponse({ error: `This series is already ${series.status}` }, 400);
+    }
+
+    const serviceTitle = series.provider_services?.title || 'service';
+    const now = new Date().toISOString();
+
+    // Booked occurrences go through cancel-booking as the caller, so the normal
+    // cancellation policy, refund and notifications apply
+    const cancelOccurrenceBooking = async (bookingId: string) => {
+      const response = await fetch(`${supabaseUrl}/functions/v1/cancel-booking`, {
+        method: 'POST',
+        headers: {
+          'Authorization': authHeader,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          booking_id: bookingId,
+          reason: reason || (action === 'skip' ? 'Skipped recurring booking' : 'Recurring series cancelled'),
+        }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to cancel booking');
+      }
+      return result;
+    };
+
+    switch (action) {
+      case 'skip': {
+        if (!isCustomer) {
+          return jsonResponse({ error: 'Only the customer can skip an occurrence' }, 403);
+        }
+        if (!occurrence_id) {
+          return jsonResponse({ error: 'occurrence_id is required' }, 400);
+        }
+
+        const { data: occurrence } = await supabaseService
+          .from('booking_series_occurrences')
+          .select('*, booking:bookings!booking_series_occurrences_booking_id_fkey(id, status)')
+          .eq('id', occurrence_id)
+          .eq('series_id', series_id)
+          .maybeSingle();
+
+        if (!occurrence) {
+          return jsonResponse({ error: 'Occurrence not found' }, 404);
+        }
+
+        if (occurrence.status === 'booked') {
+          if (!occurrence.booking || !CANCELLABLE_BOOKING_STATUSES.includes(occurrence.booking.status)) {
+            return jsonResponse({ error: 'This occurrence can no longer be skipped' }, 400);
+          }
+
+          const cancellation = await cancelOccurrenceBooking(occurrence.booking.id);
+
+          await supabaseService
+            .from('booking_series_occurrences')
+            .update({ status: 'skipped', updated_at: now })
+            .eq('id', occurrence.id);
+
+          return jsonResponse({ success: true, occurrence_id, status: 'skipped', cancellation: cancellation.cancellation });
+        }
+
+        // Not booked yet - nothing has been charged, just make sure it never is
+        const { data: skipped } = await supabaseService
+          .from('booking_series_occurrences')
+          .update({ status: 'skipped', updated_at: now })
+          .eq('id', occurrence.id)
+          .in('status', ['scheduled', 'unavailable', 'failed'])
+          .select('id')
+          .maybeSingle();
+
+        if (!skipped) {
+          return jsonResponse({ error: 'This occurrence can no longer be skipped' }, 409);
+        }
+
+        return jsonResponse({ success: true, occurrence_id, status: 'skipped' });
+      }
+
+      case 'cancel_series': {
+        // Stop process-booking-series picking up anything else first
+        const { data: cancelledSeries } = await supabaseService
+          .from('booking_series')
+          .update({ status: 'cancelled', cancelled_at: now, cancelled_by: userId, updated_at: now })
+          .eq('id', series_id)
+          .eq('status', 'active')
+          .select('id')
+          .maybeSingle();
+
+        if (!cancelledSeries) {
+          return jsonResponse({ error: 'This series has already changed' }, 409);
+        }
+
+        await supabaseService
+          .from('booking_series_occurrences')
+          .update({ status: 'cancelled', updated_at: now })
+          .eq('series_id', series_id)
+          .in('status', ['scheduled', 'unavailable', 'failed']);
+
+        // Upcoming occurrences that were already booked
+        const { data: bookedOccurrences } = await supabaseService
+          .from('booking_series_occurrences')
+          .select('id, booking:bookings!booking_series_occurrences_booking_id_fkey(id, status)')
+          .eq('series_id', series_id)
+          .eq('status', 'booked');
+
+        const failedCancellations: string[] = [];
+        let cancelledBookings = 0;
+
+        for (const occurrence of bookedOccurrences || []) {
+          const booking: any = occurrence.booking;
+          if (!booking || !CANCELLABLE_BOOKING_STATUSES.includes(booking.status)) continue;
+
+          try {
+            await cancelOccurrenceBooking(booking.id);
+            await supabaseService
+              .from('booking_series_occurrences')
+              .update({ status: 'cancelled', updated_at: now })
+              .eq('id', occurrence.id);
+            cancelledBookings++;
+          } catch (error) {
+            console.error('[ManageSeries] Failed to cancel occurrence booking:', booking.id, error);
+            failedCancellations.push(booking.id);
+          }
+        }
+
+        // Tell the other party
+        const otherPartyId = isCustomer ? series.provider_id : series.customer_id;
+        await supabaseService.from('notifications').insert({
+          user_id: otherPartyId,
+          type: 'booking_series',
+          title: 'Recurring booking cancelled',
+          message: `The recurring ${serviceTitle} series has been cancelled by the ${isCustomer ? 'customer' : 'provider'}.`,
+          data: { series_id },
+          is_read: false,
+        });
+
+        await sendPushToUser(supabaseService, otherPartyId, {
+          title: 'Recurring booking cancelled',
+          body: `The recurring ${serviceTitle} series has been cancelled.`,
+          data: {
+            type: 'booking_cancelled',
+            url: isCustomer ? '/(provider)/bookings' : '/(customer)/bookings',
+          },
+        });
+
+        console.log('[ManageSeries] ✅ Series cancelled:', series_id, { cancelledBookings, failedCancellations });
+        return jsonResponse({
+          success: true,
+          series_id,
+          status: 'cancelled',
+          cancelled_bookings: cancelledBookings,
+          failed_booking_ids: failedCancellations,
+        });
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    console.error('Manage booking series error:', error);
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
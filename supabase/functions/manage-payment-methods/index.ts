@@ -0,0 +1,213 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import Stripe from 'https://esm.sh/stripe@14.21.0';
+import { removePaymentMethodRecord, savePaymentMethod, setDefaultPaymentMethod } from '../_shared/payment-methods.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+type PaymentMethodAction = 'create_setup_intent' | 'confirm_setup' | 'set_default' | 'remove';
+
+interface ManagePaymentMethodsRequest {
+  action: PaymentMethodAction;
+  // confirm_setup
+  setup_intent_id?: string;
+  // set_default / remove
+  payment_method_id?: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Customer wallet - add cards (SetupIntent), pick the default and remove cards
+ * Cards are listed straight from customer_payment_methods by the app.
+ */
+Deno.serve(async (req) => {
+  console.log('=== MANAGE PAYMENT METHODS FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey || !stripeSecretKey) {
+      console.error('Missing environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Authorization required' }, 401);
+    }
+
+    let userId: string;
+    try {
+      const jwtParts = authHeader.replace('Bearer ', '').split('.');
+      const payload = JSON.parse(atob(jwtParts[1]));
+      userId = payload.sub;
+
+      if (!userId) {
+        throw new Error('Invalid user ID in JWT');
+      }
+    } catch (error) {
+      console.error('JWT parsing error:', error);
+      return jsonResponse({ error: 'Invalid authentication token' }, 401);
+    }
+
+    const { action, setup_intent_id, payment_method_id }: ManagePaymentMethodsRequest = await req.json().catch(() => ({}));
+
+    if (!action) {
+      return jsonResponse({ error: 'action is required' }, 400);
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+    const stripe = new Stripe(stripeSecretKey, {
+      apiVersion: '2023-10-16',
+    });
+
+    const { data: profile, error: profileError } = await supabaseService
+      .from('profiles')
+      .select('id, email, first_name, last_name, stripe_customer_id')
+      .eq('id', userId)
+      .single();
+
+    if (profileError || !profile) {
+      return jsonResponse({ error: 'User profile not found' }, 404);
+    }
+
+    switch (action) {
+      case 'create_setup_intent': {
+        let customerId = profile.stripe_customer_id;
+
+        if (!customerId) {
+          const customer = await stripe.customers.create({
+            email: profile.email,
+            name: `${profile.first_name || ''} ${profile.last_name || ''}`.trim(),
+            metadata: { supabase_user_id: userId },
+          });
+          customerId = customer.id;
+
+          await supabaseService
+            .from('profiles')
+            .update({ stripe_customer_id: customerId })
+            .eq('id', userId);
+        }
+
+        // off_session so the card can also be charged for recurring visits
+        const setupIntent = await stripe.setupIntents.create({
+          customer: customerId,
+          usage: 'off_session',
+          payment_method_types: ['card'],
+          metadata: { supabase_user_id: userId },
+        });
+
+        return jsonResponse({
+          setupIntentId: setupIntent.id,
+          clientSecret: setupIntent.client_secret,
+          customerId,
+        });
+      }
+
+      case 'confirm_setup': {
+        // Saves the card straight away - payment_method.attached does the same when it arrives
+        if (!setup_intent_id) {
+          return jsonResponse({ error: 'setup_intent_id is required' }, 400);
+        }
+
+        const setupIntent = await stripe.setupIntents.retrieve(setup_intent_id, { expand: ['payment_method'] });
+
+        if (setupIntent.customer !== profile.stripe_customer_id) {
+          return jsonResponse({ error: 'Setup does not belong to this customer' }, 403);
+        }
+        if (setupIntent.status !== 'succeeded' || !setupIntent.payment_method) {
+          return jsonResponse({ error: 'Card setup has not completed', status: setupIntent.status }, 409);
+        }
+
+        const paymentMethod = setupIntent.payment_method as Stripe.PaymentMethod;
+        const saved = await savePaymentMethod(supabaseService, userId, paymentMethod);
+
+        if (saved.is_default) {
+          await stripe.customers.update(profile.stripe_customer_id, {
+            invoice_settings: { default_payment_method: paymentMethod.id },
+          });
+        }
+
+        return jsonResponse({ success: true, paymentMethod: saved });
+      }
+
+      case 'set_default':
+      case 'remove': {
+        if (!payment_method_id) {
+          return jsonResponse({ error: 'payment_method_id is required' }, 400);
+        }
+
+        const { data: method } = await supabaseService
+          .from('customer_payment_methods')
+          .select('id, stripe_payment_method_id, is_default')
+          .eq('customer_id', userId)
+          .eq('stripe_payment_method_id', payment_method_id)
+          .maybeSingle();
+
+        if (!method) {
+          return jsonResponse({ error: 'Payment method not found' }, 404);
+        }
+
+        if (action === 'set_default') {
+          await setDefaultPaymentMethod(supabaseService, userId, payment_method_id);
+          if (profile.stripe_customer_id) {
+            await stripe.customers.update(profile.stripe_customer_id, {
+              invoice_settings: { default_payment_method: payment_method_id },
+            });
+          }
+          return jsonResponse({ success: true });
+        }
+
+        // Recurring series charge their saved card - don't pull it out from under them
+        const { count: activeSeries } = await supabaseService
+          .from('booking_series')
+          .select('id', { count: 'exact', head: true })
+          .eq('customer_id', userId)
+          .eq('stripe_payment_method_id', payment_method_id)
+          .eq('status', 'active');
+
+        if (activeSeries && activeSeries > 0) {
+          return jsonResponse({
+            error: 'This card pays for a recurring booking. Cancel the series or wait for it to finish before removing the card.',
+            code: 'IN_USE_BY_SERIES',
+          }, 409);
+        }
+
+        try {
+          await stripe.paymentMethods.detach(payment_method_id);
+        } catch (error) {
+          // Already detached on Stripe's side - just tidy up our record
+          if ((error as any)?.code !== 'resource_missing' && !(error as any)?.message?.includes('not attached')) {
+            throw error;
+          }
+        }
+        await removePaymentMethodRecord(supabaseService, payment_method_id);
+
+        return jsonResponse({ success: true });
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    console.error('[PaymentMethods] Unexpected error:', error);
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
@@ -0,0 +1,433 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
+import { chargeWalletCard, releasePaymentIntent, SavedCardChargeError } from '../_shared/payments.ts';
+import { isHouseCallBooking } from '../_shared/pricing.ts';
+import { utcToZonedTime } from '../_shared/timezone.ts';
+import { addMinutesToTime } from '../_shared/availability.ts';
+import {
+  advanceSOSDispatch,
+  closeSOSRequest,
+  describeSOSRequest,
+  loadSOSRequest,
+  SOS_REQUEST_COLUMNS,
+  SOSDispatchError,
+} from '../_shared/sos-dispatch.ts';
+import { getSOSEntitlement } from '../_shared/sos-entitlement.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+type SOSRequestAction = 'status' | 'cancel' | 'offers' | 'respond' | 'entitlement';
+
+interface ManageSOSRequest {
+  action: SOSRequestAction;
+  // status / cancel / respond
+  request_id?: string;
+  // respond
+  response?: 'accept' | 'decline';
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// bookings are single-day - a late-night SOS ends at midnight at the latest
+const LATEST_END_TIME = '23:59';
+
+/**
+ * Charge the customer's saved card and create the SOS booking for the provider who
+ * won the request. Anything that fails after the charge releases the payment and
+ * closes the request as failed.
+ */
+async function bookAcceptedRequest(
+  supabaseService: any,
+  env: { stripeSecretKey: string },
+  request: any,
+): Promise<any> {
+  let paymentIntentId: string | null = null;
+
+  try {
+    const { data: service } = await supabaseService
+      .from('provider_services')
+      .select('id, title, duration_minutes, travel_buffer_minutes, is_home_service, house_call_available')
+      .eq('id', request.accepted_service_id)
+      .maybeSingle();
+
+    if (!service) {
+      throw new SavedCardChargeError('Accepted service not found', 'The service is no longer offered');
+    }
+
+    const { data: provider } = await supabaseService
+      .from('profiles')
+      .select('first_name, last_name, business_name, timezone')
+      .eq('id', request.accepted_provider_id)
+      .single();
+
+    const isHouseCall = isHouseCallBooking(service, request.service_address);
+
+    const { paymentIntent, quote } = await chargeWalletCard(supabaseService, env.stripeSecretKey, {
+      serviceId: service.id,
+      providerId: request.accepted_provider_id,
+      customerId: request.customer_id,
+      paymentMethodId: request.stripe_payment_method_id,
+      isHouseCall,
+      addressId: request.service_address_id,
+      sosRequestId: request.id,
+      releaseReason: 'sos',
+    });
+    paymentIntentId = paymentIntent.id;
+
+    const baseAmount = quote.providerAmount / 100;
+    // A pay-per-use SOS fee is platform revenue like the platform fee
+    const platformFee = (quote.platformFee + (quote.sosFee || 0)) / 100;
+    const totalAmount = quote.totalAmount / 100;
+
+    // Starts now, in the provider's wall-clock time like every other booking
+    const start = utcToZonedTime(new Date(), provider?.timezone);
+    const endTime = addMinutesToTime(start.time, service.duration_minutes || 60);
+
+    const { data: booking, error: bookingError } = await supabaseService
+      .from('bookings')
+      .insert({
+        service_id: service.id,
+        provider_id: request.accepted_provider_id,
+        customer_id: request.customer_id,
+        booking_date: start.date,
+        booking_mode: 'sos',
+        is_sos_booking: true,
+        urgency_level: request.urgency_level,
+        start_time: start.time,
+        end_time: endTime > LATEST_END_TIME ? LATEST_END_TIME : endTime,
+        base_amount: baseAmount,
+        platform_fee: platformFee,
+        total_amount: totalAmount,
+        customer_notes: request.description,
+        service_address: request.service_address,
+        service_coordinates: request.service_coordinates,
+        service_distance_km: quote.distanceKm ?? null,
+        travel_buffer_minutes: isHouseCall ? service.travel_buffer_minutes || 0 : 0,
+        status: 'confirmed',
+        payment_status: 'funds_held_in_escrow',
+        auto_confirmed: false,
+        payment_intent_id: paymentIntent.id,
+        captured_amount: totalAmount,
+        amount_held_for_provider: baseAmount,
+        platform_fee_held: platformFee,
+        price_quote: quote,
+        funds_held_at: new Date().toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (bookingError) {
+      throw new SavedCardChargeError(
+        `Booking insert failed: ${bookingError.message}`,
+        bookingError.code === '23P01'
+          ? 'The provider who accepted is already booked at this time'
+          : 'Something went wrong creating the booking',
+      );
+    }
+
+    await supabaseService.from('payment_intents').insert({
+      booking_id: booking.id,
+      stripe_payment_intent_id: paymentIntent.id,
+      amount: totalAmount,
+      currency: paymentIntent.currency,
+      status: paymentIntent.status,
+      payment_method_types: paymentIntent.payment_method_types,
+      metadata: paymentIntent.metadata,
+    });
+
+    await supabaseService.from('payments').insert({
+      booking_id: booking.id,
+      stripe_payment_id: paymentIntent.latest_charge,
+      amount: totalAmount,
+      currency: 'GBP',
+      status: 'paid',
+      paid_at: new Date().toISOString(),
+    });
+
+    const { data: booked } = await supabaseService
+      .from('sos_requests')
+      .update({
+        status: 'booked',
+        booking_id: booking.id,
+        closed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', request.id)
+      .select(SOS_REQUEST_COLUMNS)
+      .single();
+
+    const providerName = provider?.business_name || `${provider?.first_name || ''} ${provider?.last_name || ''}`.trim() || 'A provider';
+
+    await supabaseService.from('notifications').insert({
+      user_id: request.customer_id,
+      type: 'sos_request',
+      title: 'Help is on the way',
+      message: `${providerName} accepted your ${service.title} request. £${totalAmount.toFixed(2)} was charged to your saved card.`,
+      data: { sos_request_id: request.id, booking_id: booking.id },
+      is_read: false,
+    });
+
+    await sendPushToUser(supabaseService, request.customer_id, {
+      title: 'Help is on the way 🚨',
+      body: `${providerName} accepted your emergency request.`,
+      data: { type: 'sos_request', booking_id: booking.id, url: `/(customer)/booking/${booking.id}` },
+    });
+
+    console.log('[SOSRequest] ✅ Request booked:', request.id, booking.id);
+    return booked;
+  } catch (error) {
+    console.error('[SOSRequest] ❌ Booking accepted request failed:', request.id, error);
+
+    if (paymentIntentId) {
+      await releasePaymentIntent(paymentIntentId, env.stripeSecretKey, 'sos_booking_failed').catch((releaseError) =>
+        console.error('[SOSRequest] Failed to release payment:', releaseError)
+      );
+    }
+
+    const customerMessage = error instanceof SavedCardChargeError
+      ? error.customerMessage
+      : 'Something went wrong creating the booking';
+    const failed = await closeSOSRequest(supabaseService, request, 'failed', customerMessage, 'accepted');
+
+    await supabaseService.from('notifications').insert({
+      user_id: request.customer_id,
+      type: 'sos_request',
+      title: 'Emergency booking failed',
+      message: `A provider accepted your request but we couldn't complete the booking: ${customerMessage}. You haven't been charged.`,
+      data: { sos_request_id: request.id },
+      is_read: false,
+    });
+
+    return failed || await loadSOSRequest(supabaseService, request.id);
+  }
+}
+
+/**
+ * SOS requests after they've been sent (create-sos-booking starts them)
+ * - Customers: follow the live status (escalating overdue waves) or cancel while searching
+ * - Providers: list open offers and accept or decline - the first accept wins
+ */
+Deno.serve(async (req) => {
+  console.log('=== MANAGE SOS REQUEST FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey || !stripeSecretKey) {
+      console.error('Missing environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Authorization required' }, 401);
+    }
+
+    let userId: string;
+    try {
+      const jwtParts = authHeader.replace('Bearer ', '').split('.');
+      const payload = JSON.parse(atob(jwtParts[1]));
+      userId = payload.sub;
+
+      if (!userId) {
+        throw new Error('Invalid user ID in JWT');
+      }
+    } catch (error) {
+      console.error('JWT parsing error:', error);
+      return jsonResponse({ error: 'Invalid authentication token' }, 401);
+    }
+
+    const { action, request_id, response }: ManageSOSRequest = await req.json().catch(() => ({}));
+
+    if (!action) {
+      return jsonResponse({ error: 'action is required' }, 400);
+    }
+    if (action !== 'offers' && action !== 'entitlement' && !request_id) {
+      return jsonResponse({ error: 'request_id is required' }, 400);
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    switch (action) {
+      case 'entitlement': {
+        // Subscription allowance left this period, or the pay-per-use fee
+        return jsonResponse({ entitlement: await getSOSEntitlement(supabaseService, userId) });
+      }
+
+      case 'status':
+      case 'cancel': {
+        let request = await loadSOSRequest(supabaseService, request_id!);
+        if (request.customer_id !== userId) {
+          throw new SOSDispatchError('REQUEST_NOT_FOUND', 'SOS request not found', 404);
+        }
+
+        if (action === 'cancel') {
+          const cancelled = await closeSOSRequest(supabaseService, request, 'cancelled', 'Cancelled by customer');
+          if (!cancelled) {
+            throw new SOSDispatchError('REQUEST_CLOSED', 'A provider has already accepted this request', 409);
+          }
+          request = cancelled;
+        } else {
+          // Polling keeps the search moving between cron runs
+          request = await advanceSOSDispatch(supabaseService, request);
+        }
+
+        return jsonResponse({ request: await describeSOSRequest(supabaseService, request) });
+      }
+
+      case 'offers': {
+        const { data: attempts, error } = await supabaseService
+          .from('sos_dispatch_attempts')
+          .select(`
+            id,
+            request_id,
+            distance_km,
+            offered_at,
+            provider_services ( title ),
+            sos_requests!inner ( status, description, urgency_level, wave_expires_at, subcategory:service_subcategories ( name ) )
+          `)
+          .eq('provider_id', userId)
+          .eq('status', 'offered')
+          .eq('sos_requests.status', 'searching')
+          .order('offered_at', { ascending: false });
+
+        if (error) {
+          throw new Error(`Failed to load SOS offers: ${error.message}`);
+        }
+
+        // No address until the provider has won the request
+        return jsonResponse({
+          offers: (attempts || []).map((attempt: any) => ({
+            id: attempt.id,
+            request_id: attempt.request_id,
+            service_name: attempt.sos_requests.subcategory?.name || 'Emergency service',
+            service_title: attempt.provider_services?.title || null,
+            description: attempt.sos_requests.description,
+            urgency_level: attempt.sos_requests.urgency_level,
+            distance_km: Number(attempt.distance_km),
+            offered_at: attempt.offered_at,
+          })),
+        });
+      }
+
+      case 'respond': {
+        if (response !== 'accept' && response !== 'decline') {
+          return jsonResponse({ error: 'response must be accept or decline' }, 400);
+        }
+
+        const { data: attempt } = await supabaseService
+          .from('sos_dispatch_attempts')
+          .select('id, service_id, status')
+          .eq('request_id', request_id)
+          .eq('provider_id', userId)
+          .maybeSingle();
+
+        if (!attempt) {
+          throw new SOSDispatchError('OFFER_NOT_FOUND', 'This SOS request was not offered to you', 404);
+        }
+        if (attempt.status !== 'offered') {
+          throw new SOSDispatchError('ALREADY_ACCEPTED', 'This SOS request is no longer available', 409);
+        }
+
+        const now = new Date().toISOString();
+
+        if (response === 'decline') {
+          await supabaseService
+            .from('sos_dispatch_attempts')
+            .update({ status: 'declined', responded_at: now })
+            .eq('id', attempt.id)
+            .eq('status', 'offered');
+
+          // Everyone asked so far said no - widen the search without waiting
+          const { count: openOffers } = await supabaseService
+            .from('sos_dispatch_attempts')
+            .select('id', { count: 'exact', head: true })
+            .eq('request_id', request_id)
+            .eq('status', 'offered');
+
+          if (!openOffers) {
+            const request = await loadSOSRequest(supabaseService, request_id!);
+            await advanceSOSDispatch(supabaseService, request, { force: true });
+          }
+
+          return jsonResponse({ success: true });
+        }
+
+        // First accept wins - conditional on the request still searching
+        const { data: claimed, error: claimError } = await supabaseService
+          .from('sos_requests')
+          .update({
+            status: 'accepted',
+            accepted_provider_id: userId,
+            accepted_service_id: attempt.service_id,
+            accepted_at: now,
+            updated_at: now,
+          })
+          .eq('id', request_id)
+          .eq('status', 'searching')
+          .select(SOS_REQUEST_COLUMNS)
+          .maybeSingle();
+
+        if (claimError) {
+          throw new Error(`SOS request claim failed: ${claimError.message}`);
+        }
+        if (!claimed) {
+          await supabaseService
+            .from('sos_dispatch_attempts')
+            .update({ status: 'withdrawn', responded_at: now })
+            .eq('id', attempt.id)
+            .eq('status', 'offered');
+          throw new SOSDispatchError('ALREADY_ACCEPTED', 'Another provider has already accepted this request', 409);
+        }
+
+        await supabaseService
+          .from('sos_dispatch_attempts')
+          .update({ status: 'accepted', responded_at: now })
+          .eq('id', attempt.id);
+
+        await supabaseService
+          .from('sos_dispatch_attempts')
+          .update({ status: 'withdrawn', responded_at: now })
+          .eq('request_id', request_id)
+          .eq('status', 'offered');
+
+        const result = await bookAcceptedRequest(supabaseService, { stripeSecretKey }, claimed);
+
+        if (result.status !== 'booked') {
+          return jsonResponse({
+            error: 'This job couldn\'t be booked - the customer\'s payment didn\'t go through, so there\'s no need to travel',
+            code: 'BOOKING_FAILED',
+          }, 402);
+        }
+
+        return jsonResponse({ success: true, booking_id: result.booking_id });
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    if (error instanceof SOSDispatchError) {
+      return jsonResponse({ error: error.message, code: error.code }, error.status);
+    }
+    console.error('[SOSRequest] Unexpected error:', error);
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
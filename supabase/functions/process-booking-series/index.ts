@@ -0,0 +1,359 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
+import { validateProviderSlot } from '../_shared/availability.ts';
+import { chargeWalletCard, releasePaymentIntent, SavedCardChargeError } from '../_shared/payments.ts';
+import { isHouseCallBooking, type PriceQuote } from '../_shared/pricing.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Occurrences are booked (and charged) this many days before they happen
+const BOOKING_LEAD_DAYS = 7;
+const BATCH_SIZE = 25;
+
+class OccurrenceError extends Error {
+  constructor(message: string, public customerMessage: string) {
+    super(message);
+  }
+}
+
+/**
+ * Create and capture the PaymentIntent for one occurrence.
+ * Off-session against the card saved with the first booking, so every occurrence
+ * has its own PaymentIntent and Stripe metadata. The amount is the service's
+ * current server-side price quote.
+ */
+async function chargeOccurrence(
+  supabaseService: any,
+  stripeSecretKey: string,
+  series: any,
+  isHouseCall: boolean,
+): Promise<{ paymentIntent: any; quote: PriceQuote }> {
+  try {
+    return await chargeWalletCard(supabaseService, stripeSecretKey, {
+      serviceId: series.service_id,
+      providerId: series.provider_id,
+      customerId: series.customer_id,
+      paymentMethodId: series.stripe_payment_method_id,
+      isHouseCall,
+      bookingSeriesId: series.id,
+      releaseReason: 'series',
+    });
+  } catch (error) {
+    if (error instanceof SavedCardChargeError) {
+      throw new OccurrenceError(error.message, error.customerMessage);
+    }
+    throw error;
+  }
+}
+
+Deno.serve(async (req) => {
+  console.log('=== PROCESS BOOKING SERIES FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey || !stripeSecretKey) {
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Scheduled job only - must be invoked with the service role key (pg_cron)
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+    const horizon = new Date(Date.now() + BOOKING_LEAD_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    const { data: dueOccurrences, error: fetchError } = await supabaseService
+      .from('booking_series_occurrences')
+      .select(`
+        id,
+        series_id,
+        occurrence_index,
+        occurrence_date,
+        start_time,
+        booking_series!inner (
+          id,
+          customer_id,
+          provider_id,
+          service_id,
+          status,
+          service_address,
+          service_coordinates,
+          customer_notes,
+          stripe_payment_method_id,
+          provider_services!booking_series_service_id_fkey (
+            title,
+            base_price,
+            price_type,
+            duration_minutes,
+            travel_buffer_minutes,
+            is_home_service,
+            house_call_available,
+            is_active
+          ),
+          provider:profiles!booking_series_provider_id_fkey (
+            auto_confirm_bookings,
+            timezone
+          )
+        )
+      `)
+      .eq('status', 'scheduled')
+      .eq('booking_series.status', 'active')
+      .lte('occurrence_date', horizon)
+      .order('occurrence_date', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error('[BookingSeries] Failed to fetch due occurrences:', fetchError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch due occurrences' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`[BookingSeries] Found ${dueOccurrences?.length || 0} occurrences to book`);
+
+    const results: Array<{ occurrence_id: string; status: string; booking_id?: string; error?: string }> = [];
+    const touchedSeries = new Set<string>();
+
+    for (const occurrence of dueOccurrences || []) {
+      const series: any = occurrence.booking_series;
+      const service = series.provider_services;
+      const serviceTitle = service?.title || 'your service';
+      touchedSeries.add(series.id);
+
+      // Claim the occurrence so overlapping runs never book it twice
+      const { data: claimed } = await supabaseService
+        .from('booking_series_occurrences')
+        .update({ status: 'processing', updated_at: new Date().toISOString() })
+        .eq('id', occurrence.id)
+        .eq('status', 'scheduled')
+        .select('id')
+        .maybeSingle();
+
+      if (!claimed) {
+        results.push({ occurrence_id: occurrence.id, status: 'skipped' });
+        continue;
+      }
+
+      let paymentIntentId: string | null = null;
+
+      try {
+        if (!service?.is_active) {
+          throw new OccurrenceError('Service is no longer active', 'The service is no longer offered');
+        }
+        if (!series.stripe_payment_method_id) {
+          throw new OccurrenceError('No saved payment method on series', 'No saved card for this series');
+        }
+
+        const isHouseCall = isHouseCallBooking(service, series.service_address);
+        const travelBufferMinutes = isHouseCall ? service.travel_buffer_minutes || 0 : 0;
+
+        // 1. Slot still free and inside the provider's schedule?
+        const slot = await validateProviderSlot(supabaseService, {
+          providerId: series.provider_id,
+          bookingDate: occurrence.occurrence_date,
+          startTime: occurrence.start_time,
+          durationMinutes: service.duration_minutes || 60,
+          bufferMinutes: travelBufferMinutes,
+          providerTimeZone: series.provider?.timezone,
+        });
+
+        if (!slot.available) {
+          throw new OccurrenceError(`Slot unavailable: ${slot.code}`, slot.error);
+        }
+
+        // 2. Own PaymentIntent for this occurrence, captured into escrow
+        const { paymentIntent, quote } = await chargeOccurrence(
+          supabaseService,
+          stripeSecretKey,
+          series,
+          isHouseCall,
+        );
+        paymentIntentId = paymentIntent.id;
+        const baseAmount = quote.providerAmount / 100;
+        const platformFee = quote.platformFee / 100;
+        const totalAmount = quote.totalAmount / 100;
+
+        // 3. Booking - the overlap trigger has the final say on the slot
+        const bookingStatus = series.provider?.auto_confirm_bookings ? 'confirmed' : 'pending';
+        const { data: booking, error: bookingError } = await supabaseService
+          .from('bookings')
+          .insert({
+            service_id: series.service_id,
+            provider_id: series.provider_id,
+            customer_id: series.customer_id,
+            series_id: series.id,
+            booking_date: occurrence.occurrence_date,
+            booking_mode: 'normal',
+            start_time: occurrence.start_time,
+            end_time: slot.endTime,
+            base_amount: baseAmount,
+            platform_fee: platformFee,
+            total_amount: totalAmount,
+            customer_notes: series.customer_notes,
+            service_address: series.service_address,
+            service_coordinates: series.service_coordinates,
+            service_distance_km: quote.distanceKm ?? null,
+            travel_buffer_minutes: travelBufferMinutes,
+            status: bookingStatus,
+            payment_status: 'funds_held_in_escrow',
+            auto_confirmed: bookingStatus === 'confirmed',
+            payment_intent_id: paymentIntent.id,
+            captured_amount: totalAmount,
+            amount_held_for_provider: baseAmount,
+            platform_fee_held: platformFee,
+            price_quote: quote,
+            funds_held_at: new Date().toISOString(),
+          })
+          .select()
+          .single();
+
+        if (bookingError) {
+          throw new OccurrenceError(
+            `Booking insert failed: ${bookingError.message}`,
+            bookingError.code === '23P01' ? 'The time slot was taken' : 'Something went wrong creating the booking',
+          );
+        }
+
+        if (bookingStatus === 'pending') {
+          await supabaseService.rpc('set_booking_response_deadline', { p_booking_id: booking.id });
+        }
+
+        await supabaseService.from('payment_intents').insert({
+          booking_id: booking.id,
+          stripe_payment_intent_id: paymentIntent.id,
+          amount: totalAmount,
+          currency: paymentIntent.currency,
+          status: paymentIntent.status,
+          payment_method_types: paymentIntent.payment_method_types,
+          metadata: paymentIntent.metadata,
+        });
+
+        await supabaseService.from('payments').insert({
+          booking_id: booking.id,
+          stripe_payment_id: paymentIntent.latest_charge,
+          amount: totalAmount,
+          currency: 'GBP',
+          status: 'paid',
+          paid_at: new Date().toISOString(),
+        });
+
+        await supabaseService
+          .from('booking_series_occurrences')
+          .update({ status: 'booked', booking_id: booking.id, failure_reason: null, updated_at: new Date().toISOString() })
+          .eq('id', occurrence.id);
+
+        // 4. Let both sides know
+        const when = `${occurrence.occurrence_date} at ${occurrence.start_time.slice(0, 5)}`;
+
+        await supabaseService.from('notifications').insert({
+          user_id: series.customer_id,
+          type: 'booking_series',
+          title: 'Recurring booking scheduled',
+          message: `Your next ${serviceTitle} on ${when} has been booked and paid with your saved card.`,
+          data: { booking_id: booking.id, series_id: series.id },
+          is_read: false,
+        });
+
+        await sendPushToUser(supabaseService, series.provider_id, {
+          title: bookingStatus === 'pending' ? 'New recurring booking request' : 'Recurring booking confirmed',
+          body: `${serviceTitle} on ${when} (repeat customer).`,
+          data: {
+            type: bookingStatus === 'pending' ? 'booking_request' : 'booking_confirmed',
+            booking_id: booking.id,
+            url: `/(provider)/bookingdetail/${booking.id}`,
+          },
+        });
+
+        console.log('[BookingSeries] ✅ Occurrence booked:', occurrence.id, booking.id);
+        results.push({ occurrence_id: occurrence.id, status: 'booked', booking_id: booking.id });
+      } catch (error) {
+        console.error('[BookingSeries] ❌ Failed to book occurrence:', occurrence.id, error);
+
+        if (paymentIntentId) {
+          await releasePaymentIntent(paymentIntentId, stripeSecretKey, 'series_occurrence_failed').catch((releaseError) =>
+            console.error('[BookingSeries] Failed to release payment:', releaseError)
+          );
+        }
+
+        const reason = error instanceof OccurrenceError ? error.customerMessage : 'Something went wrong creating the booking';
+
+        await supabaseService
+          .from('booking_series_occurrences')
+          .update({ status: 'failed', failure_reason: reason, updated_at: new Date().toISOString() })
+          .eq('id', occurrence.id);
+
+        await supabaseService.from('notifications').insert({
+          user_id: series.customer_id,
+          type: 'booking_series',
+          title: 'Recurring booking not booked',
+          message: `We couldn't book your ${serviceTitle} on ${occurrence.occurrence_date}: ${reason}. You have not been charged.`,
+          data: { series_id: series.id, occurrence_id: occurrence.id },
+          is_read: false,
+        });
+
+        results.push({
+          occurrence_id: occurrence.id,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    // Series with nothing left to book are complete
+    for (const seriesId of touchedSeries) {
+      const { count } = await supabaseService
+        .from('booking_series_occurrences')
+        .select('id', { count: 'exact', head: true })
+        .eq('series_id', seriesId)
+        .in('status', ['scheduled', 'processing']);
+
+      if (count === 0) {
+        await supabaseService
+          .from('booking_series')
+          .update({ status: 'completed', updated_at: new Date().toISOString() })
+          .eq('id', seriesId)
+          .eq('status', 'active');
+      }
+    }
+
+    const summary = {
+      processed: results.length,
+      booked: results.filter((r) => r.status === 'booked').length,
+      skipped: results.filter((r) => r.status === 'skipped').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+    };
+
+    console.log('=== PROCESS BOOKING SERIES FUNCTION END ===', summary);
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Process booking series error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
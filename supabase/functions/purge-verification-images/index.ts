@@ -0,0 +1,340 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  VERIFICATION_BUCKET,
+  organizedVerificationPath,
+  verificationFolders,
+  verificationObjectPath,
+} from '../_shared/verification-storage.ts';
+import { listObjectsRecursive, removeObjects } from '../_shared/storage-cleanup.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+// Per run and per pass - the daily job works through any backlog over several days
+const BATCH_SIZE = 100;
+
+type PurgeReason = 'retention' | 'superseded';
+
+interface PurgeSummary {
+  documents_purged: number;
+  superseded_purged: number;
+  selfies_purged: number;
+  legacy_moved: number;
+  legacy_missing: number;
+  objects_removed: number;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Storage paths that may hold a document's image - where it was stored and, for
+ * legacy paths, where the document step looks for it after a move
+ */
+function documentObjectPaths(document: any): string[] {
+  const path = verificationObjectPath(document.document_url);
+  if (!path) return [];
+
+  const organized = organizedVerificationPath(path, document.provider_id, 'document');
+  return organized ? [path, organized] : [path];
+}
+
+async function objectExists(supabase: any, path: string): Promise<boolean> {
+  const folder = path.split('/').slice(0, -1).join('/');
+  const fileName = path.split('/').pop();
+
+  const { data } = await supabase.storage
+    .from(VERIFICATION_BUCKET)
+    .list(folder, { search: fileName, limit: 1 });
+
+  return (data || []).some((entry: any) => entry.name === fileName);
+}
+
+Deno.serve(async (req) => {
+  console.log('=== PURGE VERIFICATION IMAGES FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    // Scheduled job only - must be invoked with the service role key (pg_cron)
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // dry_run reports what would be purged or moved without touching anything
+    const { dry_run: dryRun = false }: { dry_run?: boolean } = await req.json().catch(() => ({}));
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+    const retentionDays = Number(Deno.env.get('VERIFICATION_IMAGE_RETENTION_DAYS')) || DEFAULT_RETENTION_DAYS;
+    const now = new Date().toISOString();
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+
+    const summary: PurgeSummary = {
+      documents_purged: 0,
+      superseded_purged: 0,
+      selfies_purged: 0,
+      legacy_moved: 0,
+      legacy_missing: 0,
+      objects_removed: 0,
+    };
+
+    const recordPurge = async (document: any, reason: PurgeReason) => {
+      if (dryRun) return;
+
+      const removed = await removeObjects(supabaseService, VERIFICATION_BUCKET, documentObjectPaths(document));
+      summary.objects_removed += removed.length;
+
+      const { error: updateError } = await supabaseService
+        .from('provider_verification_documents')
+        .update({ image_purged_at: now })
+        .eq('id', document.id);
+
+      if (updateError) {
+        console.error('[PurgeImages] Failed to mark document purged:', document.id, updateError);
+        return;
+      }
+
+      // The row itself stays - together with this entry it's the approval record
+      await supabaseService.from('verification_audit_log').insert({
+        provider_id: document.provider_id,
+        actor_id: null,
+        action: 'purge_image',
+        target: 'document',
+        document_id: document.id,
+        from_status: document.verification_status,
+        to_status: 'purged',
+        reason,
+        metadata: { retention_days: retentionDays, objects_removed: removed.length },
+      });
+    };
+
+    // 1. Approved documents past the retention period, once the provider as a whole is approved
+    const { data: approvedDocuments, error: approvedError } = await supabaseService
+      .from('provider_verification_documents')
+      .select('id, provider_id, document_url, verification_status, verified_at')
+      .is('image_purged_at', null)
+      .eq('verification_status', 'approved')
+      .lt('verified_at', cutoff)
+      .limit(BATCH_SIZE);
+
+    if (approvedError) {
+      console.error('[PurgeImages] Failed to fetch approved documents:', approvedError);
+      return jsonResponse({ error: 'Failed to fetch documents' }, 500);
+    }
+
+    const approvedProviderIds = Array.from(new Set((approvedDocuments || []).map((d: any) => d.provider_id)));
+    const { data: approvedProviders } = approvedProviderIds.length > 0
+      ? await supabaseService
+          .from('provider_onboarding_progress')
+          .select('provider_id')
+          .in('provider_id', approvedProviderIds)
+          .eq('verification_status', 'approved')
+      : { data: [] };
+    const isApproved = new Set((approvedProviders || []).map((p: any) => p.provider_id));
+
+    for (const document of approvedDocuments || []) {
+      if (!isApproved.has(document.provider_id)) continue;
+      await recordPurge(document, 'retention');
+      summary.documents_purged++;
+    }
+
+    // 2. Older uploads replaced by a newer document - not needed once past retention
+    const { data: oldDocuments } = await supabaseService
+      .from('provider_verification_documents')
+      .select('provider_id')
+      .is('image_purged_at', null)
+      .lt('created_at', cutoff);
+
+    const oldProviderIds = Array.from(new Set((oldDocuments || []).map((d: any) => d.provider_id)));
+    for (let i = 0; i < oldProviderIds.length && summary.superseded_purged < BATCH_SIZE; i += BATCH_SIZE) {
+      const { data: providerDocuments } = await supabaseService
+        .from('provider_verification_documents')
+        .select('id, provider_id, document_url, verification_status, image_purged_at, created_at')
+        .in('provider_id', oldProviderIds.slice(i, i + BATCH_SIZE))
+        .order('created_at', { ascending: false });
+
+      const seenProviders = new Set<string>();
+      for (const document of providerDocuments || []) {
+        const isLatest = !seenProviders.has(document.provider_id);
+        seenProviders.add(document.provider_id);
+
+        if (isLatest || document.image_purged_at || Date.parse(document.created_at) >= Date.parse(cutoff)) continue;
+        if (summary.superseded_purged >= BATCH_SIZE) break;
+
+        await recordPurge(document, 'superseded');
+        summary.superseded_purged++;
+      }
+    }
+
+    // 3. Approved selfies past the retention period
+    const { data: approvedSelfies, error: selfiesError } = await supabaseService
+      .from('provider_onboarding_progress')
+      .select('provider_id, selfie_verification_status')
+      .is('selfie_image_purged_at', null)
+      .eq('verification_status', 'approved')
+      .eq('selfie_verification_status', 'approved')
+      .lt('selfie_verified_at', cutoff)
+      .limit(BATCH_SIZE);
+
+    if (selfiesError) {
+      console.error('[PurgeImages] Failed to fetch selfies:', selfiesError);
+    }
+
+    for (const progress of approvedSelfies || []) {
+      summary.selfies_purged++;
+      if (dryRun) continue;
+
+      const { data: profile } = await supabaseService
+        .from('profiles')
+        .select('selfie_verification_url')
+        .eq('id', progress.provider_id)
+        .maybeSingle();
+
+      const selfiePaths = await listObjectsRecursive(
+        supabaseService,
+        VERIFICATION_BUCKET,
+        verificationFolders(progress.provider_id).selfie
+      );
+      const storedPath = verificationObjectPath(profile?.selfie_verification_url);
+      if (storedPath) selfiePaths.push(storedPath);
+
+      const removed = await removeObjects(supabaseService, VERIFICATION_BUCKET, selfiePaths);
+      summary.objects_removed += removed.length;
+
+      await supabaseService
+        .from('profiles')
+        .update({ selfie_verification_url: null })
+        .eq('id', progress.provider_id);
+
+      await supabaseService
+        .from('provider_onboarding_progress')
+        .update({ selfie_image_purged_at: now, updated_at: now })
+        .eq('provider_id', progress.provider_id);
+
+      await supabaseService.from('verification_audit_log').insert({
+        provider_id: progress.provider_id,
+        actor_id: null,
+        action: 'purge_image',
+        target: 'selfie',
+        from_status: progress.selfie_verification_status,
+        to_status: 'purged',
+        reason: 'retention',
+        metadata: { retention_days: retentionDays, objects_removed: removed.length },
+      });
+    }
+
+    // 4. Legacy document paths outside providers/{provider_id}/ - move into the organized layout
+    const { data: legacyDocuments } = await supabaseService
+      .from('provider_verification_documents')
+      .select('id, provider_id, document_url')
+      .is('image_purged_at', null)
+      .not('document_url', 'like', 'providers/%')
+      .limit(BATCH_SIZE);
+
+    for (const document of legacyDocuments || []) {
+      const path = verificationObjectPath(document.document_url);
+      const target = path ? organizedVerificationPath(path, document.provider_id, 'document') : null;
+
+      if (!path || !target) {
+        // Stored as a URL that already points into the organized layout - store the bare path
+        if (path && !dryRun) {
+          await supabaseService
+            .from('provider_verification_documents')
+            .update({ document_url: path })
+            .eq('id', document.id);
+        }
+        continue;
+      }
+
+      if (dryRun) {
+        summary.legacy_moved++;
+        continue;
+      }
+
+      const { error: moveError } = await supabaseService.storage
+        .from(VERIFICATION_BUCKET)
+        .move(path, target);
+
+      // Already moved by an earlier run (or never uploaded) - only update the row if it's there
+      if (moveError && !(await objectExists(supabaseService, target))) {
+        console.warn('[PurgeImages] Legacy document image not found:', document.id, path);
+        summary.legacy_missing++;
+        continue;
+      }
+
+      const { error: updateError } = await supabaseService
+        .from('provider_verification_documents')
+        .update({ document_url: target })
+        .eq('id', document.id);
+
+      if (updateError) {
+        console.error('[PurgeImages] Failed to update moved document:', document.id, updateError);
+        continue;
+      }
+
+      summary.legacy_moved++;
+    }
+
+    // 5. Legacy selfie paths - stored as a signed URL or path outside providers/{provider_id}/selfie
+    const { data: legacySelfies } = await supabaseService
+      .from('profiles')
+      .select('id, selfie_verification_url')
+      .not('selfie_verification_url', 'is', null)
+      .not('selfie_verification_url', 'like', '%providers/%')
+      .limit(BATCH_SIZE);
+
+    for (const profile of legacySelfies || []) {
+      const path = verificationObjectPath(profile.selfie_verification_url);
+      const target = path ? organizedVerificationPath(path, profile.id, 'selfie') : null;
+      if (!path || !target) continue;
+
+      if (dryRun) {
+        summary.legacy_moved++;
+        continue;
+      }
+
+      const { error: moveError } = await supabaseService.storage
+        .from(VERIFICATION_BUCKET)
+        .move(path, target);
+
+      if (moveError && !(await objectExists(supabaseService, target))) {
+        console.warn('[PurgeImages] Legacy selfie not found:', profile.id, path);
+        summary.legacy_missing++;
+        continue;
+      }
+
+      // The app signs the path on demand - no need to store a signed URL
+      await supabaseService
+        .from('profiles')
+        .update({ selfie_verification_url: target })
+        .eq('id', profile.id);
+
+      summary.legacy_moved++;
+    }
+
+    console.log('=== PURGE VERIFICATION IMAGES FUNCTION END ===', { retentionDays, dryRun, ...summary });
+
+    return jsonResponse({ success: true, dry_run: dryRun, retention_days: retentionDays, ...summary });
+  } catch (error) {
+    console.error('Purge verification images error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
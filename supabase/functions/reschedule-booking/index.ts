@@ -0,0 +1,428 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
+import { validateProviderSlot } from '../_shared/availability.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+type RescheduleAction = 'propose' | 'accept' | 'decline' | 'counter' | 'withdraw';
+
+interface RescheduleBookingRequest {
+  action: RescheduleAction;
+  booking_id: string;
+  // propose / counter
+  new_date?: string;
+  new_start_time?: string;
+  reason?: string;
+  // accept / decline / counter / withdraw
+  request_id?: string;
+  note?: string;
+}
+
+// Bookings that can still be moved
+const RESCHEDULABLE_STATUSES = ['pending', 'confirmed'];
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const formatSlot = (date: string, time: string) => `${date} at ${time.slice(0, 5)}`;
+
+Deno.serve(async (req) => {
+  console.log('=== RESCHEDULE BOOKING FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    // Extract JWT token and user info
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Authorization required' }, 401);
+    }
+
+    let userId: string;
+    try {
+      const jwtParts = authHeader.replace('Bearer ', '').split('.');
+      const payload = JSON.parse(atob(jwtParts[1]));
+      userId = payload.sub;
+
+      if (!userId) {
+        throw new Error('Invalid user ID in JWT');
+      }
+    } catch (error) {
+      console.error('JWT parsing error:', error);
+      return jsonResponse({ error: 'Invalid authentication token' }, 401);
+    }
+
+    const body: RescheduleBookingRequest = await req.json().catch(() => ({}));
+    const { action, booking_id, new_date, new_start_time, reason, request_id, note } = body;
+
+    if (!booking_id || !action) {
+      return jsonResponse({ error: 'booking_id and action are required' }, 400);
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: booking, error: bookingError } = await supabaseService
+      .from('bookings')
+      .select(`
+        *,
+        provider_services!bookings_service_id_fkey (
+          title,
+          duration_minutes
+        ),
+        provider:profiles!bookings_provider_id_fkey (
+          timezone
+        )
+      `)
+      .eq('id', booking_id)
+      .single();
+
+    if (bookingError || !booking) {
+      console.error('Booking not found:', bookingError);
+      return jsonResponse({ error: 'Booking not found' }, 404);
+    }
+
+    const isCustomer = booking.customer_id === userId;
+    const isProvider = booking.provider_id === userId;
+
+    if (!isCustomer && !isProvider) {
+      return jsonResponse({ error: 'Unauthorized - not your booking' }, 403);
+    }
+
+    if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+      return jsonResponse({ error: `Booking cannot be rescheduled - current status: ${booking.status}` }, 400);
+    }
+
+    const role: 'customer' | 'provider' = isProvider ? 'provider' : 'customer';
+    const otherPartyId = isProvider ? booking.customer_id : booking.provider_id;
+    const otherPartyUrl = isProvider
+      ? `/(customer)/booking/${booking_id}`
+      : `/(provider)/bookingdetail/${booking_id}`;
+    const serviceTitle = booking.provider_services?.title || 'your booking';
+    const durationMinutes = booking.provider_services?.duration_minutes || 60;
+    const now = new Date().toISOString();
+
+    const notifyOtherParty = async (title: string, message: string, extra: Record<string, unknown>) => {
+      const { error: notificationError } = await supabaseService
+        .from('notifications')
+        .insert({
+          user_id: otherPartyId,
+          type: 'booking_rescheduled',
+          title,
+          message,
+          data: { booking_id, ...extra },
+          is_read: false,
+        });
+
+      if (notificationError) {
+        console.error('[RescheduleBooking] Failed to insert notification:', notificationError);
+      }
+
+      await sendPushToUser(supabaseService, otherPartyId, {
+        title,
+        body: message,
+        data: { type: 'booking_rescheduled', booking_id, url: otherPartyUrl },
+      });
+    };
+
+    // Load the open proposal the action refers to
+    const loadPendingRequest = async () => {
+      if (!request_id) return null;
+      const { data } = await supabaseService
+        .from('booking_reschedule_requests')
+        .select('*')
+        .eq('id', request_id)
+        .eq('booking_id', booking_id)
+        .eq('status', 'pending')
+        .maybeSingle();
+      return data;
+    };
+
+    // Insert a new proposal after validating the slot against the provider's availability
+    const createProposal = async (parentRequestId: string | null, beforeInsert?: () => Promise<void>) => {
+      if (!new_date || !new_start_time) {
+        return jsonResponse({ error: 'new_date and new_start_time are required' }, 400);
+      }
+
+      if (new_date === booking.booking_date && new_start_time.slice(0, 5) === booking.start_time?.slice(0, 5)) {
+        return jsonResponse({ error: 'The proposed time is the same as the current booking' }, 400);
+      }
+
+      const slot = await validateProviderSlot(supabaseService, {
+        providerId: booking.provider_id,
+        bookingDate: new_date,
+        startTime: new_start_time,
+        durationMinutes,
+        bufferMinutes: booking.travel_buffer_minutes || 0,
+        excludeBookingId: booking_id,
+        providerTimeZone: booking.provider?.timezone,
+      });
+
+      if (!slot.available) {
+        return jsonResponse({ error: slot.error, code: slot.code }, 409);
+      }
+
+      if (beforeInsert) {
+        await beforeInsert();
+      }
+
+      const { data: proposal, error: insertError } = await supabaseService
+        .from('booking_reschedule_requests')
+        .insert({
+          booking_id,
+          parent_request_id: parentRequestId,
+          proposed_by: userId,
+          proposed_by_role: role,
+          original_date: booking.booking_date,
+          original_start_time: booking.start_time,
+          original_end_time: booking.end_time,
+          proposed_date: new_date,
+          proposed_start_time: new_start_time.slice(0, 5),
+          proposed_end_time: slot.endTime,
+          reason: reason || null,
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('[RescheduleBooking] Failed to create proposal:', insertError);
+        // Unique index: another proposal was opened at the same time
+        const status = insertError.code === '23505' ? 409 : 500;
+        return jsonResponse({ error: 'Failed to create reschedule proposal', details: insertError.message }, status);
+      }
+
+      return proposal;
+    };
+
+    console.log(`[RescheduleBooking] ${role} ${userId} -> ${action} on booking ${booking_id}`);
+
+    switch (action) {
+      case 'propose': {
+        // A new proposal replaces whatever was still open
+        const proposal = await createProposal(null, async () => {
+          await supabaseService
+            .from('booking_reschedule_requests')
+            .update({ status: 'superseded', responded_by: userId, responded_at: now, updated_at: now })
+            .eq('booking_id', booking_id)
+            .eq('status', 'pending');
+        });
+        if (proposal instanceof Response) return proposal;
+
+        await notifyOtherParty(
+          'Reschedule requested',
+          `${isProvider ? 'Your provider' : 'Your customer'} would like to move ${serviceTitle} to ${formatSlot(proposal.proposed_date, proposal.proposed_start_time)}.`,
+          { reschedule_request_id: proposal.id }
+        );
+
+        return jsonResponse({ success: true, request: proposal });
+      }
+
+      case 'counter': {
+        const pending = await loadPendingRequest();
+        if (!pending) {
+          return jsonResponse({ error: 'Reschedule request not found or already answered' }, 404);
+        }
+        if (pending.proposed_by === userId) {
+          return jsonResponse({ error: 'You cannot counter your own proposal' }, 400);
+        }
+
+        // The countered proposal is closed only once the new slot has been validated
+        const proposal = await createProposal(pending.id, async () => {
+          await supabaseService
+            .from('booking_reschedule_requests')
+            .update({ status: 'countered', responded_by: userId, responded_at: now, response_note: note || null, updated_at: now })
+            .eq('id', pending.id)
+            .eq('status', 'pending');
+        });
+        if (proposal instanceof Response) return proposal;
+
+        await notifyOtherParty(
+          'New time suggested',
+          `${isProvider ? 'Your provider' : 'Your customer'} suggested ${formatSlot(proposal.proposed_date, proposal.proposed_start_time)} for ${serviceTitle} instead.`,
+          { reschedule_request_id: proposal.id }
+        );
+
+        return jsonResponse({ success: true, request: proposal });
+      }
+
+      case 'accept': {
+        const pending = await loadPendingRequest();
+        if (!pending) {
+          return jsonResponse({ error: 'Reschedule request not found or already answered' }, 404);
+        }
+        if (pending.proposed_by === userId) {
+          return jsonResponse({ error: 'You cannot accept your own proposal' }, 400);
+        }
+
+        // The slot may have been taken since it was proposed
+        const slot = await validateProviderSlot(supabaseService, {
+          providerId: booking.provider_id,
+          bookingDate: pending.proposed_date,
+          startTime: pending.proposed_start_time,
+          durationMinutes,
+          bufferMinutes: booking.travel_buffer_minutes || 0,
+          excludeBookingId: booking_id,
+          providerTimeZone: booking.provider?.timezone,
+        });
+
+        if (!slot.available) {
+          return jsonResponse({ error: slot.error, code: slot.code }, 409);
+        }
+
+        // Claim the request first so a concurrent withdraw / counter / second accept
+        // can't race the booking move
+        const { data: claimed, error: claimError } = await supabaseService
+          .from('booking_reschedule_requests')
+          .update({ status: 'accepted', responded_by: userId, responded_at: now, response_note: note || null, updated_at: now })
+          .eq('id', pending.id)
+          .eq('status', 'pending')
+          .select()
+          .maybeSingle();
+
+        if (claimError) {
+          return jsonResponse({ error: 'Failed to update reschedule request', details: claimError.message }, 500);
+        }
+        if (!claimed) {
+          return jsonResponse({ error: 'This reschedule request was already answered' }, 409);
+        }
+
+        // ✅ Move the booking - payment_intent_id is untouched so the existing
+        //    authorization / escrow payment carries over to the new time
+        const { data: updatedBooking, error: updateError } = await supabaseService
+          .from('bookings')
+          .update({
+            booking_date: pending.proposed_date,
+            start_time: pending.proposed_start_time,
+            end_time: slot.endTime,
+            updated_at: now,
+          })
+          .eq('id', booking_id)
+          .in('status', RESCHEDULABLE_STATUSES)
+          .select()
+          .single();
+
+        if (updateError) {
+          console.error('[RescheduleBooking] Failed to update booking:', updateError);
+
+          // The booking didn't move - reopen the request so it can be answered again
+          await supabaseService
+            .from('booking_reschedule_requests')
+            .update({ status: 'pending', responded_by: null, responded_at: null, response_note: null, updated_at: now })
+            .eq('id', pending.id)
+            .eq('status', 'accepted');
+
+          // Lost the race with a new booking for the same slot
+          if (updateError.code === '23P01') {
+            return jsonResponse({ error: 'This time slot was just taken', code: 'conflict' }, 409);
+          }
+          return jsonResponse({ error: 'Failed to update booking', details: updateError.message }, 500);
+        }
+
+        // Reminders were sent for the old time - allow them again for the new one
+        await supabaseService
+          .from('booking_reminders_sent')
+          .delete()
+          .eq('booking_id', booking_id);
+
+        // Keep the PaymentIntent metadata in line with the booking (best effort)
+        if (booking.payment_intent_id && stripeSecretKey) {
+          try {
+            const piResponse = await fetch(`https://api.stripe.com/v1/payment_intents/${booking.payment_intent_id}`, {
+              method: 'POST',
+              headers: {
+                'Authorization': `Bearer ${stripeSecretKey}`,
+                'Content-Type': 'application/x-www-form-urlencoded',
+              },
+              body: new URLSearchParams({
+                'metadata[booking_date]': pending.proposed_date,
+                'metadata[start_time]': pending.proposed_start_time.slice(0, 5),
+                'metadata[rescheduled_from]': formatSlot(pending.original_date, pending.original_start_time),
+              }),
+            });
+
+            if (!piResponse.ok) {
+              const errorData = await piResponse.json();
+              console.warn('[RescheduleBooking] PaymentIntent metadata update failed:', errorData.error?.message);
+            }
+          } catch (stripeError) {
+            console.warn('[RescheduleBooking] PaymentIntent metadata update failed:', stripeError);
+          }
+        }
+
+        await notifyOtherParty(
+          'Booking rescheduled',
+          `${serviceTitle} has been moved to ${formatSlot(pending.proposed_date, pending.proposed_start_time)}.`,
+          { reschedule_request_id: pending.id }
+        );
+
+        console.log(`✅ [RescheduleBooking] Booking ${booking_id} moved to ${pending.proposed_date} ${pending.proposed_start_time}`);
+        return jsonResponse({ success: true, booking: updatedBooking });
+      }
+
+      case 'decline':
+      case 'withdraw': {
+        const pending = await loadPendingRequest();
+        if (!pending) {
+          return jsonResponse({ error: 'Reschedule request not found or already answered' }, 404);
+        }
+
+        const ownProposal = pending.proposed_by === userId;
+        if (action === 'decline' && ownProposal) {
+          return jsonResponse({ error: 'You cannot decline your own proposal - withdraw it instead' }, 400);
+        }
+        if (action === 'withdraw' && !ownProposal) {
+          return jsonResponse({ error: 'Only the person who proposed the new time can withdraw it' }, 403);
+        }
+
+        const { error: closeError } = await supabaseService
+          .from('booking_reschedule_requests')
+          .update({
+            status: action === 'decline' ? 'declined' : 'withdrawn',
+            responded_by: userId,
+            responded_at: now,
+            response_note: note || null,
+            updated_at: now,
+          })
+          .eq('id', pending.id)
+          .eq('status', 'pending');
+
+        if (closeError) {
+          return jsonResponse({ error: 'Failed to update reschedule request', details: closeError.message }, 500);
+        }
+
+        if (action === 'decline') {
+          await notifyOtherParty(
+            'Reschedule declined',
+            `The new time for ${serviceTitle} was declined. Your booking stays on ${formatSlot(booking.booking_date, booking.start_time)}.`,
+            { reschedule_request_id: pending.id }
+          );
+        }
+
+        return jsonResponse({ success: true });
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    console.error('💥 [RescheduleBooking] Unexpected error:', error);
+    return jsonResponse({ error: 'Internal server error', details: (error as any)?.message || 'Unknown error' }, 500);
+  }
+});
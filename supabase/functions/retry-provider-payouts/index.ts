@@ -0,0 +1,165 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
+import { PAYOUT_COLUMNS, transferProviderPayout } from '../_shared/payouts.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Max payouts handled per run - the cron runs hourly
+const BATCH_SIZE = 25;
+
+// Pending rows younger than this may still be mid-transfer in complete-booking
+const PENDING_GRACE_MINUTES = 10;
+
+Deno.serve(async (req) => {
+  console.log('=== RETRY PROVIDER PAYOUTS FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey || !stripeSecretKey) {
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Scheduled job only - must be invoked with the service role key (pg_cron)
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+    const pendingCutoff = new Date(now.getTime() - PENDING_GRACE_MINUTES * 60 * 1000).toISOString();
+
+    // Failed transfers due a retry, plus pending rows whose transfer never ran
+    const { data: duePayouts, error: fetchError } = await supabaseService
+      .from('provider_payouts')
+      .select(`
+        ${PAYOUT_COLUMNS},
+        booking:bookings!provider_payouts_booking_id_fkey (
+          status,
+          payment_intent_id
+        ),
+        provider:profiles!provider_payouts_provider_id_fkey (
+          stripe_account_id
+        )
+      `)
+      .is('stripe_transfer_id', null)
+      .eq('on_hold', false)
+      .or(`and(status.eq.failed,next_retry_at.lte.${now.toISOString()}),and(status.eq.pending,created_at.lte.${pendingCutoff})`)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error('[RetryPayouts] Failed to fetch due payouts:', fetchError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch due payouts' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`[RetryPayouts] Found ${duePayouts?.length || 0} payouts to transfer`);
+
+    const results: Array<{ payout_id: string; status: 'transferred' | 'retrying' | 'failed' | 'skipped'; error?: string }> = [];
+
+    for (const payout of duePayouts || []) {
+      try {
+        const booking = Array.isArray(payout.booking) ? payout.booking[0] : payout.booking;
+        const provider = Array.isArray(payout.provider) ? payout.provider[0] : payout.provider;
+
+        // Completed bookings, and cancelled ones that kept a cancellation fee (cancel-booking)
+        if (booking?.status !== 'completed' && booking?.status !== 'cancelled') {
+          results.push({ payout_id: payout.id, status: 'skipped', error: `Booking is ${booking?.status || 'missing'}` });
+          continue;
+        }
+
+        if (!provider?.stripe_account_id) {
+          await supabaseService
+            .from('provider_payouts')
+            .update({
+              status: 'failed',
+              failure_reason: 'Provider has no connected Stripe account',
+              next_retry_at: null,
+              updated_at: new Date().toISOString(),
+            })
+            .eq('id', payout.id);
+
+          results.push({ payout_id: payout.id, status: 'failed', error: 'No Stripe account' });
+          continue;
+        }
+
+        const transfer = await transferProviderPayout(supabaseService, payout, {
+          stripeAccountId: provider.stripe_account_id,
+          stripeSecretKey,
+          paymentIntentId: booking.payment_intent_id,
+        });
+
+        if (transfer.ok) {
+          results.push({ payout_id: payout.id, status: 'transferred' });
+          continue;
+        }
+
+        if (transfer.willRetry) {
+          results.push({ payout_id: payout.id, status: 'retrying', error: transfer.error });
+          continue;
+        }
+
+        // Out of attempts - the provider needs to act (usually their Stripe account)
+        await supabaseService.from('notifications').insert({
+          user_id: payout.provider_id,
+          type: 'general',
+          title: 'Payout needs attention',
+          message: `We couldn't send £${Number(payout.amount).toFixed(2)} to your Stripe account: ${transfer.error}. Please check your payment settings.`,
+          data: { booking_id: payout.booking_id, payout_id: payout.id },
+          is_read: false,
+        });
+
+        await sendPushToUser(supabaseService, payout.provider_id, {
+          title: 'Payout needs attention',
+          body: `We couldn't send £${Number(payout.amount).toFixed(2)} to your Stripe account. Please check your payment settings.`,
+          data: { type: 'payout_failed', booking_id: payout.booking_id, url: '/(provider)/earnings' },
+        });
+
+        results.push({ payout_id: payout.id, status: 'failed', error: transfer.error });
+      } catch (error) {
+        console.error('[RetryPayouts] Error processing payout:', payout.id, error);
+        results.push({
+          payout_id: payout.id,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    console.log('=== RETRY PROVIDER PAYOUTS FUNCTION END ===', results);
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[RetryPayouts] Unexpected error:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
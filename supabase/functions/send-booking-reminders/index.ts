@@ -0,0 +1,237 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushToUser } from '../_shared/push.ts';
+import { formatInTimeZone, resolveTimeZone, zonedTimeToUtc } from '../_shared/timezone.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type ReminderType = '24h' | '1h';
+
+/**
+ * Which reminder (if any) is due for a booking starting at startAt
+ * - 1h: start is within the next hour
+ * - 24h: start is within the next 24h, and the booking already existed 24h before
+ *   start (someone booking for this afternoon doesn't need a "tomorrow" reminder)
+ */
+function getDueReminder(startAt: Date, createdAt: string | null, now: Date): ReminderType | null {
+  const timeUntilStart = startAt.getTime() - now.getTime();
+
+  if (timeUntilStart <= 0) return null;
+  if (timeUntilStart <= HOUR_MS) return '1h';
+
+  const bookedBeforeWindow = !createdAt || new Date(createdAt).getTime() <= startAt.getTime() - 24 * HOUR_MS;
+  if (timeUntilStart <= 24 * HOUR_MS && bookedBeforeWindow) return '24h';
+
+  return null;
+}
+
+const displayName = (profile: any, fallback: string) =>
+  profile?.business_name || `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim() || fallback;
+
+Deno.serve(async (req) => {
+  console.log('=== SEND BOOKING REMINDERS FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Scheduled job only - must be invoked with the service role key (pg_cron)
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+
+    // booking_date is a local date - scan a day either side to cover every time zone
+    const fromDate = new Date(now.getTime() - 24 * HOUR_MS).toISOString().split('T')[0];
+    const toDate = new Date(now.getTime() + 48 * HOUR_MS).toISOString().split('T')[0];
+
+    const { data: bookings, error: fetchError } = await supabaseService
+      .from('bookings')
+      .select(`
+        id,
+        customer_id,
+        provider_id,
+        booking_date,
+        start_time,
+        created_at,
+        service_address,
+        provider_services!bookings_service_id_fkey (
+          title
+        ),
+        customer:profiles!bookings_customer_id_fkey (
+          first_name,
+          last_name,
+          timezone
+        ),
+        provider:profiles!bookings_provider_id_fkey (
+          first_name,
+          last_name,
+          business_name,
+          timezone
+        )
+      `)
+      .eq('status', 'confirmed')
+      .gte('booking_date', fromDate)
+      .lte('booking_date', toDate);
+
+    if (fetchError) {
+      console.error('[Reminders] Failed to fetch bookings:', fetchError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch bookings' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Work out which reminders are due before touching settings
+    const dueReminders: Array<{ booking: any; reminderType: ReminderType; startAt: Date }> = [];
+    for (const booking of bookings || []) {
+      if (!booking.start_time) continue;
+
+      // Booking times are the provider's local wall-clock time
+      const startAt = zonedTimeToUtc(booking.booking_date, booking.start_time, resolveTimeZone(booking.provider?.timezone));
+      const reminderType = getDueReminder(startAt, booking.created_at, now);
+      if (reminderType) {
+        dueReminders.push({ booking, reminderType, startAt });
+      }
+    }
+
+    console.log(`[Reminders] ${dueReminders.length} bookings with a reminder due`);
+
+    const userIds = Array.from(new Set(dueReminders.flatMap(({ booking }) => [booking.customer_id, booking.provider_id])));
+    const { data: settingsRows } = userIds.length > 0
+      ? await supabaseService
+          .from('notification_settings')
+          .select('user_id, booking_reminders')
+          .in('user_id', userIds)
+      : { data: [] };
+
+    const remindersDisabled = new Set(
+      (settingsRows || []).filter((s: any) => s.booking_reminders === false).map((s: any) => s.user_id)
+    );
+
+    let sent = 0;
+    let skipped = 0;
+
+    for (const { booking, reminderType, startAt } of dueReminders) {
+      const serviceTitle = booking.provider_services?.title || 'your booking';
+      const recipients = [
+        {
+          userId: booking.customer_id,
+          profile: booking.customer,
+          otherParty: displayName(booking.provider, 'your provider'),
+          url: `/(customer)/booking/${booking.id}`,
+        },
+        {
+          userId: booking.provider_id,
+          profile: booking.provider,
+          otherParty: displayName(booking.customer, 'your customer'),
+          url: `/(provider)/bookingdetail/${booking.id}`,
+        },
+      ];
+
+      for (const recipient of recipients) {
+        if (remindersDisabled.has(recipient.userId)) {
+          skipped++;
+          continue;
+        }
+
+        // ✅ Idempotency: claim the reminder first - a duplicate returns no row
+        const { data: claimed, error: claimError } = await supabaseService
+          .from('booking_reminders_sent')
+          .upsert(
+            { booking_id: booking.id, user_id: recipient.userId, reminder_type: reminderType },
+            { onConflict: 'booking_id,user_id,reminder_type', ignoreDuplicates: true }
+          )
+          .select('id');
+
+        if (claimError) {
+          console.error('[Reminders] Failed to claim reminder:', booking.id, claimError);
+          continue;
+        }
+
+        if (!claimed || claimed.length === 0) {
+          skipped++;
+          continue;
+        }
+
+        // Shown in the recipient's own time zone
+        const when = formatInTimeZone(startAt, recipient.profile?.timezone);
+        const title = reminderType === '24h' ? 'Booking tomorrow ⏰' : 'Booking in 1 hour ⏰';
+        const message = `${serviceTitle} with ${recipient.otherParty} - ${when}.`;
+
+        const push = await sendPushToUser(
+          supabaseService,
+          recipient.userId,
+          {
+            title,
+            body: message,
+            data: { type: 'booking_reminder', booking_id: booking.id, reminder_type: reminderType, url: recipient.url },
+          },
+          'reminder'
+        );
+
+        // push_sent lets the app show a local notification fallback when push wasn't delivered
+        const { error: notificationError } = await supabaseService
+          .from('notifications')
+          .insert({
+            user_id: recipient.userId,
+            type: 'booking_reminder',
+            title,
+            message,
+            data: {
+              booking_id: booking.id,
+              reminder_type: reminderType,
+              push_sent: push.sent,
+            },
+            is_read: false,
+          });
+
+        if (notificationError) {
+          console.error('[Reminders] Failed to insert notification:', notificationError);
+        }
+
+        await supabaseService
+          .from('booking_reminders_sent')
+          .update({ push_sent: push.sent })
+          .eq('id', claimed[0].id);
+
+        sent++;
+      }
+    }
+
+    console.log('=== SEND BOOKING REMINDERS FUNCTION END ===', { sent, skipped });
+
+    return new Response(
+      JSON.stringify({ success: true, sent, skipped }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Send booking reminders error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
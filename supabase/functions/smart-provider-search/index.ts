@@ -37,6 +37,11 @@ Deno.serve(async (req: Request) => {
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_ANON_KEY') ?? ''
     )
+    // Service role for the re-verification lookup only - the search itself stays on the anon key
+    const supabaseService = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
 
     const url = new URL(req.url)
     const filters: SearchRequest = {}
@@ -149,6 +154,25 @@ Deno.serve(async (req: Request) => {
       return { ...provider, provider_lat, provider_lng };
     });
 
+    // Hide providers whose ID document expired until they upload a new one
+    if (processedData.length > 0) {
+      const { data: reverificationIds, error: reverificationError } = await supabaseService.rpc(
+        'get_providers_requiring_reverification',
+        { p_provider_ids: processedData.map((provider: any) => provider.id) }
+      )
+
+      if (reverificationError) {
+        console.error('🔍 Smart Search - Re-verification lookup error:', reverificationError)
+        throw reverificationError
+      }
+
+      const hiddenProviders = new Set<string>(reverificationIds || [])
+      if (hiddenProviders.size > 0) {
+        processedData = processedData.filter(provider => !hiddenProviders.has(provider.id))
+        console.log('🔍 Smart Search - Hidden pending re-verification:', hiddenProviders.size)
+      }
+    }
+
     // Debug coordinates
     if (processedData.length > 0) {
       console.log('🔍 Smart Search - First provider coordinates:', processedData[0])
@@ -1,6 +1,12 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { sendPushToUser } from '../_shared/push.ts'
+import { setPayoutHold } from '../_shared/payouts.ts'
+import { gatherDisputeEvidence, OPEN_DISPUTE_STATUSES } from '../_shared/disputes.ts'
+import { routeStripeEvent, type StripeEventHandlers } from '../_shared/stripe-events.ts'
+import { subscriptionEventHandlers } from '../_shared/subscriptions.ts'
+import { paymentMethodEventHandlers } from '../_shared/payment-methods.ts'
 
 console.log("Loading stripe-webhook function...");
 
@@ -13,6 +19,12 @@ const supabaseClient = createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 )
 
+// An event stuck in 'processing' this long (function crashed mid-run) may be claimed again
+const STALE_PROCESSING_MINUTES = 5;
+
+// Booking payment states a PaymentIntent event may still move forward
+const OPEN_PAYMENT_STATUSES = ['pending', 'failed'];
+
 // Simple handler that processes webhook events
 const handler = async (req: Request): Promise<Response> => {
   console.log(`[WEBHOOK] 🌐 ${req.method} ${req.url}`);
@@ -88,35 +100,35 @@ const handler = async (req: Request): Promise<Response> => {
     const event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret);
     console.log(`[WEBHOOK] ✅ Event verified: ${event.type} - ${event.id}`);
 
-    // Process different event types
-    switch (event.type) {
-      case 'customer.subscription.created':
-      case 'customer.subscription.updated':
-      case 'customer.subscription.deleted':
-        await handleSubscriptionEvent(event.data.object as Stripe.Subscription);
-        break;
-      case 'customer.subscription.trial_will_end':
-        await handleTrialWillEnd(event.data.object as Stripe.Subscription);
-        break;
-      case 'invoice.payment_succeeded':
-        await handleInvoicePaymentSucceeded(event.data.object as Stripe.Invoice);
-        break;
-      case 'invoice.payment_failed':
-        await handleInvoicePaymentFailed(event.data.object as Stripe.Invoice);
-        break;
-      case 'invoice.finalized':
-        console.log(`[WEBHOOK] 📄 Invoice finalized: ${event.data.object.id}`);
-        break;
-      case 'payment_intent.succeeded':
-        console.log(`[WEBHOOK] 💳 Payment succeeded: ${event.data.object.id}`);
-        break;
-      case 'payment_intent.payment_failed':
-        console.log(`[WEBHOOK] 💳❌ Payment failed: ${event.data.object.id}`);
-        break;
-      default:
-        console.log(`[WEBHOOK] ⚠️ Unhandled event type: ${event.type}`);
+    // 🔁 Stripe delivers at least once - each event is processed a single time
+    const claim = await claimEvent(event);
+    if (claim !== 'claimed') {
+      console.log(`[WEBHOOK] ↪️ Event ${event.id} already ${claim === 'processed' ? 'processed' : 'being processed'}`);
+      return new Response(JSON.stringify({ success: claim === 'processed', duplicate: true, eventId: event.id }), {
+        // 409 makes Stripe retry an in-flight event later instead of dropping it
+        status: claim === 'processed' ? 200 : 409,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    try {
+      await processEvent(event);
+    } catch (processingError) {
+      await supabaseClient
+        .from('stripe_webhook_events')
+        .update({ status: 'failed', error: processingError.message })
+        .eq('id', event.id);
+      throw processingError;
     }
 
+    await supabaseClient
+      .from('stripe_webhook_events')
+      .update({ status: 'processed', error: null, processed_at: new Date().toISOString() })
+      .eq('id', event.id);
+
     return new Response(JSON.stringify({ success: true, eventId: event.id }), {
       status: 200,
       headers: {
@@ -146,146 +158,669 @@ const handler = async (req: Request): Promise<Response> => {
   }
 };
 
-async function handleSubscriptionEvent(subscription: Stripe.Subscription) {
-  console.log(`[WEBHOOK] 🔄 Processing subscription ${subscription.id}`);
-  console.log(`[WEBHOOK] 📊 Status: ${subscription.status}`);
-  
-  try {
-    const customerId = subscription.customer as string;
-    console.log(`[WEBHOOK] 👤 Customer ID: ${customerId}`);
-    
-    // Find user by Stripe customer ID
-    const { data: userData, error: userError } = await supabaseClient
-      .from('profiles')
-      .select('id')
-      .eq('stripe_customer_id', customerId)
-      .single();
-    
-    if (userError || !userData) {
-      console.error(`[WEBHOOK] ❌ User not found for customer ${customerId}:`, userError);
-      return;
-    }
-    
-    console.log(`[WEBHOOK] ✅ Found user: ${userData.id}`);
-    
-    // Get price ID and determine subscription type
-    const priceId = subscription.items.data[0]?.price.id;
-    const subscriptionType = getSubscriptionType(priceId);
-    
-    console.log(`[WEBHOOK] 💰 Price ID: ${priceId}`);
-    console.log(`[WEBHOOK] 🏷️ Subscription type: ${subscriptionType}`);
-    
-    const subscriptionData = {
-      user_id: userData.id,
-      stripe_subscription_id: subscription.id,
-      stripe_customer_id: customerId,
-      type: subscriptionType,
-      status: subscription.status,
-      current_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
-      current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
-      trial_end: subscription.trial_end ? new Date(subscription.trial_end * 1000).toISOString() : null,
-      cancel_at_period_end: subscription.cancel_at_period_end,
-      price_id: priceId,
+/**
+ * Record the event before handling it
+ * - new events are inserted as 'processing' and handled by this request
+ * - failed events (and 'processing' ones abandoned by a crashed run) are claimed again
+ * - processed events are replays and skipped
+ */
+async function claimEvent(event: Stripe.Event): Promise<'claimed' | 'processed' | 'in_progress'> {
+  const now = new Date().toISOString();
+
+  const { error: insertError } = await supabaseClient
+    .from('stripe_webhook_events')
+    .insert({
+      id: event.id,
+      type: event.type,
+      livemode: event.livemode,
+      account_id: event.account || null,
+      status: 'processing',
+      payload: event,
+      last_attempt_at: now
+    });
+
+  if (!insertError) return 'claimed';
+
+  // 23505 = seen this event before
+  if (insertError.code !== '23505') {
+    console.error('[WEBHOOK] ❌ Failed to record event:', insertError);
+    throw insertError;
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000).toISOString();
+  const { data: reclaimed, error: reclaimError } = await supabaseClient
+    .from('stripe_webhook_events')
+    .update({ status: 'processing', error: null, last_attempt_at: now })
+    .eq('id', event.id)
+    .or(`status.eq.failed,and(status.eq.processing,last_attempt_at.lt.${staleBefore})`)
+    .select('id')
+    .maybeSingle();
+
+  if (reclaimError) {
+    console.error('[WEBHOOK] ❌ Failed to reclaim event:', reclaimError);
+    throw reclaimError;
+  }
+
+  if (reclaimed) return 'claimed';
+
+  const { data: existing } = await supabaseClient
+    .from('stripe_webhook_events')
+    .select('status')
+    .eq('id', event.id)
+    .maybeSingle();
+
+  return existing?.status === 'processed' ? 'processed' : 'in_progress';
+}
+
+// Subscriptions and saved cards (see _shared/subscriptions.ts, _shared/payment-methods.ts)
+// plus booking payments, disputes and payouts
+const eventHandlers: StripeEventHandlers = {
+  ...subscriptionEventHandlers(supabaseClient),
+  ...paymentMethodEventHandlers(supabaseClient),
+  'invoice.finalized': async (event) => {
+    console.log(`[WEBHOOK] 📄 Invoice finalized: ${event.data.object.id}`);
+  },
+  // Booking payments - keeps the DB in step with Stripe when the app closes mid-payment
+  'payment_intent.succeeded': (event) => handlePaymentIntentSucceeded(event.data.object),
+  'payment_intent.payment_failed': (event) => handlePaymentIntentFailed(event.data.object),
+  'payment_intent.canceled': (event) => handlePaymentIntentCanceled(event.data.object),
+  'charge.refunded': (event) => handleChargeRefunded(event.data.object),
+  // Chargebacks (see _shared/disputes.ts)
+  'charge.dispute.created': (event) => handleDisputeEvent(event.data.object),
+  'charge.dispute.updated': (event) => handleDisputeEvent(event.data.object),
+  'charge.dispute.closed': (event) => handleDisputeEvent(event.data.object),
+  'charge.dispute.funds_withdrawn': (event) => handleDisputeEvent(event.data.object),
+  'charge.dispute.funds_reinstated': (event) => handleDisputeEvent(event.data.object),
+  // Provider payout ledger (see _shared/payouts.ts)
+  'transfer.created': (event) => handleTransferEvent(event.data.object),
+  'transfer.updated': (event) => handleTransferEvent(event.data.object),
+  'transfer.reversed': (event) => handleTransferReversed(event.data.object),
+  // Connected account payouts - requires this endpoint to also listen to Connect events
+  'payout.created': (event) => handleConnectedPayout(event.data.object, event.type, event.account),
+  'payout.updated': (event) => handleConnectedPayout(event.data.object, event.type, event.account),
+  'payout.paid': (event) => handleConnectedPayout(event.data.object, event.type, event.account),
+  'payout.failed': (event) => handleConnectedPayout(event.data.object, event.type, event.account),
+  'payout.canceled': (event) => handleConnectedPayout(event.data.object, event.type, event.account),
+};
+
+async function processEvent(event: Stripe.Event) {
+  const handled = await routeStripeEvent(event, eventHandlers);
+  if (!handled) {
+    console.log(`[WEBHOOK] ⚠️ Unhandled event type: ${event.type}`);
+  }
+}
+
+const idOf = (value: string | { id: string } | null | undefined) =>
+  typeof value === 'string' ? value : value?.id || null;
+
+/**
+ * Booking paid with this PaymentIntent - bookings store it once create-booking ran,
+ * metadata.booking_id covers PaymentIntents created for an existing booking
+ */
+async function findBookingForPaymentIntent(
+  paymentIntentId: string,
+  bookingId?: string | null,
+  columns = 'id, payment_status'
+) {
+  const { data: booking, error } = await supabaseClient
+    .from('bookings')
+    .select(columns)
+    .eq('payment_intent_id', paymentIntentId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[WEBHOOK] ❌ Failed to look up booking:', error);
+    throw error;
+  }
+
+  if (booking || !bookingId) return booking;
+
+  const { data: metadataBooking } = await supabaseClient
+    .from('bookings')
+    .select(columns)
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  return metadataBooking;
+}
+
+async function syncPaymentIntentRecord(paymentIntent: Stripe.PaymentIntent) {
+  const { error } = await supabaseClient
+    .from('payment_intents')
+    .update({
+      status: paymentIntent.status,
+      amount: paymentIntent.amount / 100,
+      metadata: paymentIntent.metadata,
       updated_at: new Date().toISOString()
-    };
-    
-    // Upsert subscription
-    const { error } = await supabaseClient
-      .from('user_subscriptions')
-      .upsert(subscriptionData, {
-        onConflict: 'stripe_subscription_id'
-      });
-    
-    if (error) {
-      console.error('[WEBHOOK] ❌ Database error:', error);
-      throw error;
+    })
+    .eq('stripe_payment_intent_id', paymentIntent.id);
+
+  if (error) {
+    console.error('[WEBHOOK] ❌ Failed to update payment intent record:', error);
+    throw error;
+  }
+}
+
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+  console.log(`[WEBHOOK] 💳 Payment succeeded: ${paymentIntent.id}`);
+
+  await syncPaymentIntentRecord(paymentIntent);
+
+  const booking = await findBookingForPaymentIntent(paymentIntent.id, paymentIntent.metadata?.booking_id);
+  if (!booking) {
+    // Subscription payments, or captured before create-booking ran - it records the
+    // payment when the booking is made
+    console.log(`[WEBHOOK] ↪️ No booking for PaymentIntent ${paymentIntent.id}`);
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const capturedAmount = paymentIntent.amount_received / 100;
+
+  // Escrow: the captured payment is held until the booking completes
+  const { error: bookingError } = await supabaseClient
+    .from('bookings')
+    .update({
+      payment_intent_id: paymentIntent.id,
+      payment_status: 'funds_held_in_escrow',
+      captured_amount: capturedAmount,
+      funds_held_at: now,
+      updated_at: now
+    })
+    .eq('id', booking.id)
+    .or(`payment_status.is.null,payment_status.in.(${OPEN_PAYMENT_STATUSES.join(',')})`);
+
+  if (bookingError) {
+    console.error('[WEBHOOK] ❌ Failed to update booking payment status:', bookingError);
+    throw bookingError;
+  }
+
+  const chargeId = idOf(paymentIntent.latest_charge as string | Stripe.Charge | null);
+  if (!chargeId) return;
+
+  const { data: payment } = await supabaseClient
+    .from('payments')
+    .select('id, status')
+    .eq('stripe_payment_id', chargeId)
+    .maybeSingle();
+
+  if (!payment) {
+    const { error: paymentError } = await supabaseClient.from('payments').insert({
+      booking_id: booking.id,
+      stripe_payment_id: chargeId,
+      amount: capturedAmount,
+      currency: paymentIntent.currency.toUpperCase(),
+      status: 'paid',
+      paid_at: now
+    });
+
+    if (paymentError) {
+      console.error('[WEBHOOK] ❌ Failed to record payment:', paymentError);
+      throw paymentError;
     }
-    
-    console.log(`[WEBHOOK] ✅ Successfully saved subscription ${subscription.id}`);
-  } catch (error) {
-    console.error('[WEBHOOK] ❌ Processing error:', error);
+  } else if (OPEN_PAYMENT_STATUSES.includes(payment.status)) {
+    await supabaseClient
+      .from('payments')
+      .update({ status: 'paid', paid_at: now })
+      .eq('id', payment.id);
+  }
+
+  console.log(`[WEBHOOK] ✅ Booking ${booking.id} payment held in escrow`);
+}
+
+async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
+  console.log(`[WEBHOOK] 💳❌ Payment failed: ${paymentIntent.id} - ${paymentIntent.last_payment_error?.message || 'no reason'}`);
+
+  await syncPaymentIntentRecord(paymentIntent);
+
+  const booking = await findBookingForPaymentIntent(paymentIntent.id, paymentIntent.metadata?.booking_id);
+  if (!booking) return;
+
+  // A later successful attempt on the same PaymentIntent moves it on again
+  const { error } = await supabaseClient
+    .from('bookings')
+    .update({ payment_status: 'failed', updated_at: new Date().toISOString() })
+    .eq('id', booking.id)
+    .or('payment_status.is.null,payment_status.eq.pending');
+
+  if (error) {
+    console.error('[WEBHOOK] ❌ Failed to update booking payment status:', error);
     throw error;
   }
+
+  await supabaseClient
+    .from('payments')
+    .update({ status: 'failed' })
+    .eq('booking_id', booking.id)
+    .eq('status', 'pending');
 }
 
-async function handleInvoicePaymentSucceeded(invoice: Stripe.Invoice) {
-  console.log(`[WEBHOOK] 💰 Invoice payment succeeded: ${invoice.id}`);
-  
-  if (invoice.subscription) {
-    const { error } = await supabaseClient
-      .from('user_subscriptions')
+async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent) {
+  console.log(`[WEBHOOK] 🚫 Payment cancelled: ${paymentIntent.id} (${paymentIntent.cancellation_reason || 'no reason'})`);
+
+  await syncPaymentIntentRecord(paymentIntent);
+
+  const booking = await findBookingForPaymentIntent(paymentIntent.id, paymentIntent.metadata?.booking_id);
+  if (!booking) return;
+
+  // The authorization hold is released - same outcome as a refund for the customer
+  const now = new Date().toISOString();
+  const { error } = await supabaseClient
+    .from('bookings')
+    .update({ payment_status: 'refunded', updated_at: now })
+    .eq('id', booking.id)
+    .or(`payment_status.is.null,payment_status.in.(${OPEN_PAYMENT_STATUSES.join(',')})`);
+
+  if (error) {
+    console.error('[WEBHOOK] ❌ Failed to update booking payment status:', error);
+    throw error;
+  }
+
+  await supabaseClient
+    .from('payments')
+    .update({ status: 'refunded', refunded_at: now })
+    .eq('booking_id', booking.id)
+    .in('status', OPEN_PAYMENT_STATUSES);
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const fullyRefunded = charge.amount_refunded >= charge.amount;
+  console.log(`[WEBHOOK] ↩️ Charge refunded: ${charge.id} - £${(charge.amount_refunded / 100).toFixed(2)} of £${(charge.amount / 100).toFixed(2)}`);
+
+  const paymentIntentId = idOf(charge.payment_intent as string | Stripe.PaymentIntent | null);
+  const booking = paymentIntentId
+    ? await findBookingForPaymentIntent(paymentIntentId, charge.metadata?.booking_id)
+    : null;
+
+  const now = new Date().toISOString();
+
+  // Partial refunds (cancellation fees) keep the payment as paid, like cancel-booking
+  const { error: paymentError } = await supabaseClient
+    .from('payments')
+    .update({
+      status: fullyRefunded ? 'refunded' : 'paid',
+      refunded_at: now
+    })
+    .eq('stripe_payment_id', charge.id);
+
+  if (paymentError) {
+    console.error('[WEBHOOK] ❌ Failed to update payment refund:', paymentError);
+    throw paymentError;
+  }
+
+  if (!booking || !fullyRefunded || booking.payment_status === 'refunded') return;
+
+  const { error: bookingError } = await supabaseClient
+    .from('bookings')
+    .update({ payment_status: 'refunded', updated_at: now })
+    .eq('id', booking.id);
+
+  if (bookingError) {
+    console.error('[WEBHOOK] ❌ Failed to update booking payment status:', bookingError);
+    throw bookingError;
+  }
+
+  console.log(`[WEBHOOK] ✅ Booking ${booking.id} marked refunded`);
+}
+
+/**
+ * charge.dispute.* - keeps booking_disputes in step with Stripe
+ * - opened: booking marked disputed, payout frozen, evidence gathered, provider notified
+ * - won / warning closed: payout released
+ * - lost: the provider's share goes back with the chargeback (transfer reversed, or
+ *   the untransferred payout cancelled)
+ */
+async function handleDisputeEvent(dispute: Stripe.Dispute) {
+  console.log(`[WEBHOOK] ⚠️ Dispute ${dispute.id} on charge ${idOf(dispute.charge)}: ${dispute.status} (${dispute.reason})`);
+
+  const paymentIntentId = idOf(dispute.payment_intent as string | Stripe.PaymentIntent | null);
+  const booking: any = paymentIntentId
+    ? await findBookingForPaymentIntent(
+        paymentIntentId,
+        null,
+        'id, payment_status, provider_id, customer_id, provider_transfer_id, service:provider_services!bookings_service_id_fkey(title)'
+      )
+    : null;
+
+  if (!booking) {
+    console.warn(`[WEBHOOK] ⚠️ No booking for disputed PaymentIntent ${paymentIntentId}`);
+    return;
+  }
+
+  const { data: existing } = await supabaseClient
+    .from('booking_disputes')
+    .select('id, status')
+    .eq('stripe_dispute_id', dispute.id)
+    .maybeSingle();
+
+  const isOpen = OPEN_DISPUTE_STATUSES.includes(dispute.status);
+  const wasOpen = !existing || OPEN_DISPUTE_STATUSES.includes(existing.status);
+  const now = new Date().toISOString();
+  const dueBy = dispute.evidence_details?.due_by
+    ? new Date(dispute.evidence_details.due_by * 1000).toISOString()
+    : null;
+
+  const record: Record<string, unknown> = {
+    booking_id: booking.id,
+    provider_id: booking.provider_id,
+    customer_id: booking.customer_id,
+    stripe_dispute_id: dispute.id,
+    stripe_charge_id: idOf(dispute.charge),
+    payment_intent_id: paymentIntentId,
+    amount: dispute.amount / 100,
+    currency: dispute.currency.toUpperCase(),
+    reason: dispute.reason,
+    status: dispute.status,
+    evidence_due_by: dueBy,
+    closed_at: isOpen ? null : now,
+    updated_at: now
+  };
+
+  if (!existing) {
+    try {
+      record.evidence = await gatherDisputeEvidence(supabaseClient, booking.id);
+    } catch (evidenceError) {
+      // submit-dispute-evidence gathers it again
+      console.error('[WEBHOOK] ❌ Failed to gather dispute evidence:', evidenceError);
+    }
+  }
+
+  const { data: saved, error: saveError } = await supabaseClient
+    .from('booking_disputes')
+    .upsert(record, { onConflict: 'stripe_dispute_id' })
+    .select('id')
+    .single();
+
+  if (saveError) {
+    console.error('[WEBHOOK] ❌ Failed to record dispute:', saveError);
+    throw saveError;
+  }
+
+  const service = Array.isArray(booking.service) ? booking.service[0] : booking.service;
+  const amount = `£${(dispute.amount / 100).toFixed(2)}`;
+  const notificationData = { booking_id: booking.id, dispute_id: saved.id };
+
+  if (isOpen) {
+    await setPayoutHold(supabaseClient, booking.id, { reason: `Dispute ${dispute.id} (${dispute.reason})` });
+
+    await supabaseClient
+      .from('bookings')
+      .update({ payment_status: 'disputed', updated_at: now })
+      .eq('id', booking.id);
+
+    if (!existing) {
+      const due = dueBy ? ` by ${dueBy.split('T')[0]}` : '';
+      await supabaseClient.from('notifications').insert({
+        user_id: booking.provider_id,
+        type: 'payment_dispute',
+        title: 'Payment disputed',
+        message: `The customer's bank has disputed the ${amount} payment for ${service?.title || 'a booking'}. Your payout is on hold - respond with evidence${due}.`,
+        data: notificationData,
+        is_read: false
+      });
+
+      await sendPushToUser(supabaseClient, booking.provider_id, {
+        title: 'Payment disputed',
+        body: `A customer disputed the ${amount} payment for ${service?.title || 'a booking'}. Tap to respond.`,
+        data: { type: 'payment_dispute', ...notificationData, url: '/(provider)/profile/payments' },
+      });
+    }
+    return;
+  }
+
+  if (!wasOpen) return;
+
+  if (dispute.status === 'lost') {
+    const { data: payout } = await supabaseClient
+      .from('provider_payouts')
+      .select('id, stripe_transfer_id')
+      .eq('booking_id', booking.id)
+      .maybeSingle();
+
+    if (payout?.stripe_transfer_id) {
+      // transfer.reversed marks the ledger row failed
+      try {
+        await stripe.transfers.createReversal(
+          payout.stripe_transfer_id,
+          { metadata: { dispute_id: dispute.id, booking_id: booking.id } },
+          { idempotencyKey: `dispute-reversal-${dispute.id}` }
+        );
+      } catch (reversalError) {
+        // e.g. already reversed, or the connected account can't cover it - needs a manual look
+        console.error(`[WEBHOOK] ❌ Could not reverse transfer ${payout.stripe_transfer_id}:`, reversalError.message);
+      }
+    } else if (payout) {
+      await supabaseClient
+        .from('provider_payouts')
+        .update({
+          status: 'failed',
+          failure_reason: 'Customer won the payment dispute',
+          next_retry_at: null,
+          updated_at: now
+        })
+        .eq('id', payout.id);
+    }
+
+    await supabaseClient
+      .from('bookings')
+      .update({ payment_status: 'refunded', updated_at: now })
+      .eq('id', booking.id);
+  } else {
+    await setPayoutHold(supabaseClient, booking.id, null);
+
+    await supabaseClient
+      .from('bookings')
       .update({
-        status: 'active',
-        updated_at: new Date().toISOString()
+        payment_status: booking.provider_transfer_id ? 'payout_completed' : 'funds_held_in_escrow',
+        updated_at: now
       })
-      .eq('stripe_subscription_id', invoice.subscription);
-    
-    if (error) {
-      console.error('[WEBHOOK] ❌ Failed to update subscription:', error);
-      throw error;
-    }
-    
-    console.log(`[WEBHOOK] ✅ Updated subscription ${invoice.subscription} to active`);
+      .eq('id', booking.id)
+      .eq('payment_status', 'disputed');
   }
+
+  const won = dispute.status !== 'lost';
+  await supabaseClient.from('notifications').insert({
+    user_id: booking.provider_id,
+    type: 'payment_dispute',
+    title: won ? 'Dispute closed in your favour' : 'Dispute lost',
+    message: won
+      ? `The ${amount} dispute for ${service?.title || 'your booking'} was closed. Your payout has been released.`
+      : `The customer's bank upheld the ${amount} dispute for ${service?.title || 'your booking'}. The payment has been returned to them.`,
+    data: notificationData,
+    is_read: false
+  });
+
+  console.log(`[WEBHOOK] ✅ Dispute ${dispute.id} closed (${dispute.status}) for booking ${booking.id}`);
 }
 
-async function handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
-  console.log(`[WEBHOOK] 💸 Invoice payment failed: ${invoice.id}`);
-  
-  if (invoice.subscription) {
-    const { error } = await supabaseClient
-      .from('user_subscriptions')
+async function handleTransferEvent(transfer: Stripe.Transfer) {
+  const payoutId = transfer.metadata?.payout_id;
+  if (!payoutId) {
+    console.log(`[WEBHOOK] ↪️ Transfer ${transfer.id} is not a provider payout`);
+    return;
+  }
+
+  if (transfer.reversed) {
+    await handleTransferReversed(transfer);
+    return;
+  }
+
+  // Fills in transfers whose API response never reached complete-booking / retry-provider-payouts
+  const destinationPayment = typeof transfer.destination_payment === 'string'
+    ? transfer.destination_payment
+    : transfer.destination_payment?.id;
+
+  const { error } = await supabaseClient
+    .from('provider_payouts')
+    .update({
+      status: 'processing',
+      stripe_transfer_id: transfer.id,
+      stripe_destination_payment_id: destinationPayment || null,
+      failure_reason: null,
+      next_retry_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', payoutId)
+    .in('status', ['pending', 'failed'])
+    .is('stripe_transfer_id', null);
+
+  if (error) {
+    console.error('[WEBHOOK] ❌ Failed to record transfer:', error);
+    throw error;
+  }
+
+  console.log(`[WEBHOOK] ✅ Transfer ${transfer.id} recorded for payout ${payoutId}`);
+}
+
+async function handleTransferReversed(transfer: Stripe.Transfer) {
+  console.log(`[WEBHOOK] ↩️ Transfer reversed: ${transfer.id}`);
+
+  // Reversals are deliberate (refunds, disputes) - not retried automatically
+  const { data: payout, error } = await supabaseClient
+    .from('provider_payouts')
+    .update({
+      status: 'failed',
+      failure_reason: `Transfer reversed (£${(transfer.amount_reversed / 100).toFixed(2)})`,
+      next_retry_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_transfer_id', transfer.id)
+    .select('booking_id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[WEBHOOK] ❌ Failed to record transfer reversal:', error);
+    throw error;
+  }
+
+  if (payout) {
+    // The money is back with the platform (lost disputes have already marked the booking refunded)
+    await supabaseClient
+      .from('bookings')
       .update({
-        status: 'past_due',
+        payment_status: 'funds_held_in_escrow',
         updated_at: new Date().toISOString()
       })
-      .eq('stripe_subscription_id', invoice.subscription);
-    
+      .eq('id', payout.booking_id)
+      .eq('payment_status', 'payout_completed');
+  }
+}
+
+async function handleConnectedPayout(payout: Stripe.Payout, eventType: string, accountId?: string) {
+  if (!accountId) {
+    console.log(`[WEBHOOK] ↪️ Platform payout ${payout.id} - nothing to reconcile`);
+    return;
+  }
+
+  console.log(`[WEBHOOK] 🏦 ${eventType} ${payout.id} for account ${accountId}`);
+
+  // Transfers arrive on the connected account as payments (py_...) - the payout's
+  // balance transactions tell us which bookings it carries. Funds from an earlier failed
+  // bank payout come back as a payout_failure / payout_cancel transaction whose source
+  // is that payout, and leave with this one.
+  const destinationPayments: string[] = [];
+  const returnedPayouts: string[] = [];
+  for await (const txn of stripe.balanceTransactions.list(
+    { payout: payout.id, limit: 100 },
+    { stripeAccount: accountId }
+  )) {
+    const sourceId = typeof txn.source === 'string' ? txn.source : txn.source?.id;
+    if (!sourceId) continue;
+
+    if (txn.type === 'payment') {
+      destinationPayments.push(sourceId);
+    } else if (txn.type === 'payout_failure' || txn.type === 'payout_cancel') {
+      returnedPayouts.push(sourceId);
+    }
+  }
+
+  const arrivalDate = new Date(payout.arrival_date * 1000).toISOString().split('T')[0];
+  const now = new Date().toISOString();
+
+  let update: Record<string, unknown>;
+  if (eventType === 'payout.paid') {
+    update = {
+      status: 'completed',
+      stripe_payout_id: payout.id,
+      expected_payout_date: arrivalDate,
+      actual_payout_date: arrivalDate,
+      failure_reason: null,
+      updated_at: now
+    };
+  } else if (eventType === 'payout.failed' || eventType === 'payout.canceled') {
+    update = {
+      status: 'failed',
+      stripe_payout_id: payout.id,
+      failure_reason: payout.failure_message || (eventType === 'payout.canceled' ? 'Bank payout was cancelled' : 'Bank payout failed'),
+      next_retry_at: null,
+      updated_at: now
+    };
+  } else {
+    update = { stripe_payout_id: payout.id, expected_payout_date: arrivalDate, updated_at: now };
+  }
+
+  if (destinationPayments.length > 0) {
+    const { error } = await supabaseClient
+      .from('provider_payouts')
+      .update(update)
+      .in('stripe_destination_payment_id', destinationPayments);
+
     if (error) {
-      console.error('[WEBHOOK] ❌ Failed to update subscription:', error);
+      console.error('[WEBHOOK] ❌ Failed to reconcile payout:', error);
       throw error;
     }
-    
-    console.log(`[WEBHOOK] ✅ Updated subscription ${invoice.subscription} to past_due`);
   }
-}
 
-async function handleTrialWillEnd(subscription: Stripe.Subscription) {
-  const subscriptionId = subscription.id;
-  console.log(`[WEBHOOK] ⏰ Trial ending soon for subscription: ${subscriptionId}`);
-  
-  try {
-    const { error } = await supabase
-      .from('user_subscriptions')
-      .update({ 
-        updated_at: new Date().toISOString(),
-        // You could add a notification flag here if needed
-        trial_ending_soon: true
-      })
-      .eq('stripe_subscription_id', subscriptionId);
+  // Only the failed payouts this payout actually carries are settled - any others stay failed
+  if (eventType === 'payout.paid' && returnedPayouts.length > 0) {
+    const { error } = await supabaseClient
+      .from('provider_payouts')
+      .update(update)
+      .eq('status', 'failed')
+      .in('stripe_payout_id', returnedPayouts);
 
     if (error) {
-      console.error(`[WEBHOOK] ❌ Failed to update trial ending status:`, error);
+      console.error('[WEBHOOK] ❌ Failed to reconcile returned payout funds:', error);
       throw error;
     }
+  }
 
-    console.log(`[WEBHOOK] ✅ Trial ending notification processed for: ${subscriptionId}`);
-  } catch (error) {
-    console.error(`[WEBHOOK] ❌ Error in handleTrialWillEnd:`, error);
-    throw error;
+  if (eventType !== 'payout.paid' && eventType !== 'payout.failed') return;
+
+  const { data: provider } = await supabaseClient
+    .from('profiles')
+    .select('id')
+    .eq('stripe_account_id', accountId)
+    .maybeSingle();
+
+  if (!provider) {
+    console.warn(`[WEBHOOK] ⚠️ No provider for connected account ${accountId}`);
+    return;
   }
-}
 
-function getSubscriptionType(priceId: string): string {
-  // Match your actual price IDs from .env
-  if (priceId === 'price_1SBWW4ENAHMeamEYNObfzeCr') {
-    return 'customer_sos';
-  } else if (priceId === 'price_1SBWaVENAHMeamEYAi2o6NQg') {
-    return 'provider_premium';
+  const amount = `£${(payout.amount / 100).toFixed(2)}`;
+
+  if (eventType === 'payout.paid') {
+    await supabaseClient.from('notifications').insert({
+      user_id: provider.id,
+      type: 'payment_received',
+      title: 'Payout sent 💷',
+      message: `${amount} has been paid to your bank account.`,
+      data: { stripe_payout_id: payout.id },
+      is_read: false
+    });
   } else {
-    console.warn(`[WEBHOOK] ⚠️ Unknown price ID: ${priceId}`);
-    return 'customer_sos'; // Default fallback
+    await supabaseClient.from('notifications').insert({
+      user_id: provider.id,
+      type: 'general',
+      title: 'Bank payout failed',
+      message: `Your ${amount} payout couldn't be sent: ${payout.failure_message || 'the bank rejected it'}. Please check your bank details in payment settings.`,
+      data: { stripe_payout_id: payout.id },
+      is_read: false
+    });
   }
+
+  console.log(`[WEBHOOK] ✅ Reconciled ${destinationPayments.length} booking payouts with ${payout.id}`);
 }
 
 // Export the handler
@@ -0,0 +1,159 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { gatherDisputeEvidence, RESPONDABLE_DISPUTE_STATUSES, toStripeEvidenceParams } from '../_shared/disputes.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface SubmitEvidenceRequest {
+  dispute_id: string;
+  statement?: string;
+  // false saves the evidence on Stripe without submitting it (provider can add more later)
+  submit?: boolean;
+}
+
+const MAX_STATEMENT_LENGTH = 5000;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Provider's response to a chargeback
+ * Re-gathers the booking evidence (timeline, messages, completion, review), adds the
+ * provider's statement and sends it to the Stripe disputes API.
+ */
+Deno.serve(async (req) => {
+  console.log('=== SUBMIT DISPUTE EVIDENCE FUNCTION START ===');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey || !stripeSecretKey) {
+      console.error('Missing environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Authorization required' }, 401);
+    }
+
+    let userId: string;
+    try {
+      const jwtParts = authHeader.replace('Bearer ', '').split('.');
+      const payload = JSON.parse(atob(jwtParts[1]));
+      userId = payload.sub;
+
+      if (!userId) {
+        throw new Error('Invalid user ID in JWT');
+      }
+    } catch (error) {
+      console.error('JWT parsing error:', error);
+      return jsonResponse({ error: 'Invalid authentication token' }, 401);
+    }
+
+    const { dispute_id, statement, submit = true }: SubmitEvidenceRequest = await req.json().catch(() => ({}));
+
+    if (!dispute_id) {
+      return jsonResponse({ error: 'dispute_id is required' }, 400);
+    }
+
+    if (statement && statement.length > MAX_STATEMENT_LENGTH) {
+      return jsonResponse({ error: `Statement must be ${MAX_STATEMENT_LENGTH} characters or fewer` }, 400);
+    }
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: dispute, error: disputeError } = await supabaseService
+      .from('booking_disputes')
+      .select('id, booking_id, provider_id, stripe_dispute_id, status, evidence_due_by, evidence_submitted_at')
+      .eq('id', dispute_id)
+      .single();
+
+    if (disputeError || !dispute) {
+      return jsonResponse({ error: 'Dispute not found' }, 404);
+    }
+
+    if (dispute.provider_id !== userId) {
+      return jsonResponse({ error: 'Only the booking\'s provider can respond to this dispute' }, 403);
+    }
+
+    if (!RESPONDABLE_DISPUTE_STATUSES.includes(dispute.status)) {
+      return jsonResponse({ error: 'This dispute is no longer accepting evidence', status: dispute.status }, 409);
+    }
+
+    if (dispute.evidence_due_by && new Date(dispute.evidence_due_by).getTime() < Date.now()) {
+      return jsonResponse({ error: 'The deadline to respond to this dispute has passed' }, 409);
+    }
+
+    const evidence = await gatherDisputeEvidence(supabaseService, dispute.booking_id);
+    const params = toStripeEvidenceParams(evidence, statement);
+    params.append('submit', submit ? 'true' : 'false');
+    params.append('metadata[booking_id]', dispute.booking_id);
+
+    const stripeResponse = await fetch(`https://api.stripe.com/v1/disputes/${dispute.stripe_dispute_id}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${stripeSecretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params.toString(),
+    });
+
+    if (!stripeResponse.ok) {
+      const errorData = await stripeResponse.json().catch(() => ({}));
+      console.error('[Disputes] Stripe rejected evidence:', errorData);
+      return jsonResponse({
+        error: 'Failed to submit evidence',
+        details: errorData.error?.message,
+      }, 400);
+    }
+
+    const stripeDispute = await stripeResponse.json();
+    const now = new Date().toISOString();
+
+    const { data: updated, error: updateError } = await supabaseService
+      .from('booking_disputes')
+      .update({
+        status: stripeDispute.status,
+        evidence,
+        provider_statement: statement?.trim() || null,
+        evidence_submitted_at: submit ? now : dispute.evidence_submitted_at,
+        evidence_submitted_by: submit ? userId : null,
+        updated_at: now,
+      })
+      .eq('id', dispute.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      // Stripe has the evidence - the dispute webhook brings the row up to date
+      console.error('[Disputes] Failed to record submitted evidence:', updateError);
+    }
+
+    console.log(`[Disputes] Evidence ${submit ? 'submitted' : 'saved'} for dispute ${dispute.stripe_dispute_id}`);
+
+    return jsonResponse({
+      success: true,
+      submitted: submit,
+      dispute: updated || { ...dispute, status: stripeDispute.status },
+    });
+  } catch (error) {
+    console.error('[Disputes] Unexpected error:', error);
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
@@ -0,0 +1,231 @@
+-- Real-time customer <-> provider messaging
+-- Builds on the existing conversations/messages tables:
+-- one conversation per booking, read receipts, image messages,
+-- and system messages posted automatically when a booking changes status.
+
+-- One thread per booking
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_booking_id
+    ON public.conversations(booking_id)
+    WHERE booking_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_customer_id ON public.conversations(customer_id);
+CREATE INDEX IF NOT EXISTS idx_conversations_provider_id ON public.conversations(provider_id);
+CREATE INDEX IF NOT EXISTS idx_conversations_last_message_at ON public.conversations(last_message_at DESC);
+
+-- Read receipts and image attachments
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS image_path TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+    ON public.messages(conversation_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_unread
+    ON public.messages(conversation_id)
+    WHERE is_read = FALSE;
+
+-- RLS: only the two participants can see or post in a conversation
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view their conversations" ON public.conversations;
+CREATE POLICY "Participants can view their conversations" ON public.conversations
+    FOR SELECT USING (auth.uid() = customer_id OR auth.uid() = provider_id);
+
+DROP POLICY IF EXISTS "Participants can view messages" ON public.messages;
+CREATE POLICY "Participants can view messages" ON public.messages
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.conversations c
+            WHERE c.id = messages.conversation_id
+              AND (auth.uid() = c.customer_id OR auth.uid() = c.provider_id)
+        )
+    );
+
+DROP POLICY IF EXISTS "Participants can send messages" ON public.messages;
+CREATE POLICY "Participants can send messages" ON public.messages
+    FOR INSERT WITH CHECK (
+        auth.uid() = sender_id
+        AND message_type IN ('text', 'image')
+        AND EXISTS (
+            SELECT 1 FROM public.conversations c
+            WHERE c.id = messages.conversation_id
+              AND (auth.uid() = c.customer_id OR auth.uid() = c.provider_id)
+        )
+    );
+
+-- Get (or lazily create) the conversation for a booking.
+-- SECURITY DEFINER so the insert works under RLS, but only for booking participants.
+CREATE OR REPLACE FUNCTION public.get_or_create_booking_conversation(p_booking_id UUID)
+RETURNS public.conversations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_booking public.bookings;
+    v_conversation public.conversations;
+BEGIN
+    SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+    IF v_booking.id IS NULL THEN
+        RAISE EXCEPTION 'Booking not found';
+    END IF;
+
+    IF auth.uid() IS NOT NULL
+       AND auth.uid() <> v_booking.customer_id
+       AND auth.uid() <> v_booking.provider_id THEN
+        RAISE EXCEPTION 'Not a participant of this booking';
+    END IF;
+
+    INSERT INTO public.conversations (booking_id, customer_id, provider_id, last_message_at)
+    VALUES (v_booking.id, v_booking.customer_id, v_booking.provider_id, NOW())
+    ON CONFLICT (booking_id) WHERE booking_id IS NOT NULL DO NOTHING;
+
+    SELECT * INTO v_conversation FROM public.conversations WHERE booking_id = p_booking_id;
+    RETURN v_conversation;
+END;
+$$;
+
+-- Mark every message from the other participant as read
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_updated INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.conversations
+        WHERE id = p_conversation_id
+          AND (auth.uid() = customer_id OR auth.uid() = provider_id)
+    ) THEN
+        RAISE EXCEPTION 'Not a participant of this conversation';
+    END IF;
+
+    UPDATE public.messages
+    SET is_read = TRUE,
+        read_at = NOW()
+    WHERE conversation_id = p_conversation_id
+      AND sender_id IS DISTINCT FROM auth.uid()
+      AND is_read IS NOT TRUE;
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$;
+
+-- Unread message counts per conversation for the current user
+CREATE OR REPLACE FUNCTION public.get_unread_message_counts()
+RETURNS TABLE (conversation_id UUID, unread_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT m.conversation_id, COUNT(*) AS unread_count
+    FROM public.messages m
+    JOIN public.conversations c ON c.id = m.conversation_id
+    WHERE (c.customer_id = auth.uid() OR c.provider_id = auth.uid())
+      AND m.sender_id IS DISTINCT FROM auth.uid()
+      AND m.is_read IS NOT TRUE
+    GROUP BY m.conversation_id;
+$$;
+
+-- Keep conversations.last_message_at in sync
+CREATE OR REPLACE FUNCTION public.touch_conversation_last_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.conversations
+    SET last_message_at = NEW.created_at
+    WHERE id = NEW.conversation_id;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS messages_touch_conversation ON public.messages;
+CREATE TRIGGER messages_touch_conversation
+    AFTER INSERT ON public.messages
+    FOR EACH ROW EXECUTE FUNCTION public.touch_conversation_last_message();
+
+-- Post a system message into the booking thread whenever the booking status changes
+CREATE OR REPLACE FUNCTION public.post_booking_status_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_conversation_id UUID;
+    v_content TEXT;
+BEGIN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    v_content := CASE NEW.status
+        WHEN 'confirmed' THEN 'Booking confirmed by the provider.'
+        WHEN 'in_progress' THEN 'The provider has started the service.'
+        WHEN 'completed' THEN 'Service completed. Thanks for booking with ZOVA!'
+        WHEN 'cancelled' THEN 'This booking was cancelled.'
+        WHEN 'declined' THEN 'The provider declined this booking.'
+        WHEN 'expired' THEN 'This booking request expired without a response.'
+        ELSE NULL
+    END;
+
+    IF v_content IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.conversations (booking_id, customer_id, provider_id, last_message_at)
+    VALUES (NEW.id, NEW.customer_id, NEW.provider_id, NOW())
+    ON CONFLICT (booking_id) WHERE booking_id IS NOT NULL DO NOTHING;
+
+    SELECT id INTO v_conversation_id FROM public.conversations WHERE booking_id = NEW.id;
+
+    INSERT INTO public.messages (conversation_id, sender_id, content, message_type, is_read)
+    VALUES (v_conversation_id, NULL, v_content, 'system', FALSE);
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_post_status_message ON public.bookings;
+CREATE TRIGGER bookings_post_status_message
+    AFTER UPDATE OF status ON public.bookings
+    FOR EACH ROW EXECUTE FUNCTION public.post_booking_status_message();
+
+-- Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations;
+
+-- Private bucket for chat images: conversations/{conversation_id}/{file}
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('chat-images', 'chat-images', FALSE)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Participants can upload chat images" ON storage.objects;
+CREATE POLICY "Participants can upload chat images" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'chat-images'
+        AND EXISTS (
+            SELECT 1 FROM public.conversations c
+            WHERE c.id::text = (storage.foldername(name))[2]
+              AND (auth.uid() = c.customer_id OR auth.uid() = c.provider_id)
+        )
+    );
+
+DROP POLICY IF EXISTS "Participants can view chat images" ON storage.objects;
+CREATE POLICY "Participants can view chat images" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'chat-images'
+        AND EXISTS (
+            SELECT 1 FROM public.conversations c
+            WHERE c.id::text = (storage.foldername(name))[2]
+              AND (auth.uid() = c.customer_id OR auth.uid() = c.provider_id)
+        )
+    );
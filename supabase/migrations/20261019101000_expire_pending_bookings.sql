@@ -0,0 +1,32 @@
+-- Automatic expiry of pending bookings
+-- Pending bookings whose provider_response_deadline has passed are moved to 'expired'
+-- by the expire-pending-bookings edge function, which runs every 5 minutes via pg_cron.
+
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'booking_expired';
+
+-- Fast lookup of overdue pending bookings
+CREATE INDEX IF NOT EXISTS idx_bookings_pending_response_deadline
+    ON public.bookings(provider_response_deadline)
+    WHERE status = 'pending';
+
+-- Schedule the sweep (requires pg_cron + pg_net)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.unschedule('expire-pending-bookings')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'expire-pending-bookings');
+
+SELECT cron.schedule(
+    'expire-pending-bookings',
+    '*/5 * * * *',
+    $$
+    SELECT net.http_post(
+        url := current_setting('app.settings.supabase_url') || '/functions/v1/expire-pending-bookings',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
@@ -0,0 +1,49 @@
+-- In-app notification inbox
+-- Backs the customer/provider notification center: unread badges,
+-- mark-as-read / mark-all-read and realtime inserts.
+
+-- Types already inserted by submit-review / submit-provider-response
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'new_review';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'provider_response';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+    ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+    ON public.notifications(user_id)
+    WHERE is_read = FALSE;
+
+-- RLS: users only see and update their own notifications
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own notifications" ON public.notifications;
+CREATE POLICY "Users can view their own notifications" ON public.notifications
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own notifications" ON public.notifications;
+CREATE POLICY "Users can update their own notifications" ON public.notifications
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- Mark every unread notification for the current user as read
+CREATE OR REPLACE FUNCTION public.mark_all_notifications_read()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_updated INTEGER;
+BEGIN
+    UPDATE public.notifications
+    SET is_read = TRUE,
+        updated_at = NOW()
+    WHERE user_id = auth.uid()
+      AND is_read IS NOT TRUE;
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$;
+
+-- Realtime inserts for the inbox
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
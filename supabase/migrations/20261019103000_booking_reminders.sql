@@ -0,0 +1,43 @@
+-- Scheduled booking reminders (24h and 1h before start_time)
+-- send-booking-reminders runs every 10 minutes via pg_cron. Each reminder is
+-- claimed in booking_reminders_sent first, so it is never sent twice.
+
+-- IANA time zone of the user's device (e.g. 'Europe/London'), synced on sign-in
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS timezone TEXT DEFAULT 'Europe/London';
+
+CREATE TABLE IF NOT EXISTS public.booking_reminders_sent (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    reminder_type TEXT NOT NULL CHECK (reminder_type IN ('24h', '1h')),
+    push_sent BOOLEAN DEFAULT FALSE NOT NULL,
+    sent_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (booking_id, user_id, reminder_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_sent_booking_id ON public.booking_reminders_sent(booking_id);
+
+-- Service role only - no client access
+ALTER TABLE public.booking_reminders_sent ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_confirmed_date
+    ON public.bookings(booking_date)
+    WHERE status = 'confirmed';
+
+SELECT cron.unschedule('send-booking-reminders')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'send-booking-reminders');
+
+SELECT cron.schedule(
+    'send-booking-reminders',
+    '*/10 * * * *',
+    $$
+    SELECT net.http_post(
+        url := current_setting('app.settings.supabase_url') || '/functions/v1/send-booking-reminders',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
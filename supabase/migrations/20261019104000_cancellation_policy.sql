@@ -0,0 +1,17 @@
+-- Tiered cancellation policy
+-- cancel-booking works out the refund from the service's policy and the time
+-- left before the booking starts:
+--   * more than cancellation_window_hours before start -> full refund
+--   * inside the window -> cancellation_fee_percentage of the base amount is kept
+--   * after the booking has started -> no refund
+-- Provider-initiated cancellations always refund in full.
+
+ALTER TABLE public.provider_services
+    ADD COLUMN IF NOT EXISTS cancellation_window_hours INTEGER DEFAULT 48
+        CHECK (cancellation_window_hours >= 0 AND cancellation_window_hours <= 720);
+
+ALTER TABLE public.bookings
+    ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS cancelled_by TEXT CHECK (cancelled_by IN ('customer', 'provider', 'system')),
+    ADD COLUMN IF NOT EXISTS cancellation_fee_amount NUMERIC(10, 2),
+    ADD COLUMN IF NOT EXISTS refund_amount NUMERIC(10, 2);
@@ -0,0 +1,53 @@
+-- Booking rescheduling with provider approval
+-- The customer proposes a new slot via reschedule-booking; the provider accepts,
+-- declines or counter-proposes. Every proposal is kept as history. The booking
+-- keeps its PaymentIntent - only date and times change when a proposal is accepted.
+
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'booking_rescheduled';
+
+CREATE TABLE IF NOT EXISTS public.booking_reschedule_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    -- Set when this proposal is a counter to an earlier one
+    parent_request_id UUID REFERENCES public.booking_reschedule_requests(id) ON DELETE SET NULL,
+    proposed_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    proposed_by_role TEXT NOT NULL CHECK (proposed_by_role IN ('customer', 'provider')),
+    original_date DATE NOT NULL,
+    original_start_time TIME NOT NULL,
+    original_end_time TIME,
+    proposed_date DATE NOT NULL,
+    proposed_start_time TIME NOT NULL,
+    proposed_end_time TIME NOT NULL,
+    reason TEXT,
+    status TEXT DEFAULT 'pending' NOT NULL
+        CHECK (status IN ('pending', 'accepted', 'declined', 'countered', 'withdrawn', 'superseded')),
+    responded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    responded_at TIMESTAMPTZ,
+    response_note TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reschedule_requests_booking
+    ON public.booking_reschedule_requests(booking_id, created_at DESC);
+
+-- Only one open proposal per booking at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_booking_reschedule_requests_one_pending
+    ON public.booking_reschedule_requests(booking_id)
+    WHERE status = 'pending';
+
+-- RLS: both parties of the booking can read the history, writes go through reschedule-booking
+ALTER TABLE public.booking_reschedule_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Booking participants can view reschedule requests" ON public.booking_reschedule_requests;
+CREATE POLICY "Booking participants can view reschedule requests" ON public.booking_reschedule_requests
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.bookings b
+            WHERE b.id = booking_reschedule_requests.booking_id
+              AND (b.customer_id = auth.uid() OR b.provider_id = auth.uid())
+        )
+    );
+
+-- Realtime so the other party sees proposals and answers immediately
+ALTER PUBLICATION supabase_realtime ADD TABLE public.booking_reschedule_requests;
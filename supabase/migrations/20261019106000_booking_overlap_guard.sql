@@ -0,0 +1,151 @@
+-- Double-booking prevention
+-- A provider can never hold two overlapping pending / confirmed / in-progress
+-- bookings. Enforced by a BEFORE INSERT/UPDATE trigger that takes a per-provider
+-- advisory lock, so two customers racing for the same slot are serialised and
+-- the second one fails with SQLSTATE 23P01 (exclusion_violation).
+--
+-- Overlap uses the booking's duration plus the provider's travel buffer for
+-- house calls (time needed to get to the next job).
+
+ALTER TABLE public.provider_services
+    ADD COLUMN IF NOT EXISTS travel_buffer_minutes INTEGER DEFAULT 0
+        CHECK (travel_buffer_minutes >= 0 AND travel_buffer_minutes <= 240);
+
+-- Snapshot of the buffer at booking time
+ALTER TABLE public.bookings
+    ADD COLUMN IF NOT EXISTS travel_buffer_minutes INTEGER DEFAULT 0 NOT NULL;
+
+-- Time range a booking blocks: start -> end + buffer (end past midnight rolls over)
+CREATE OR REPLACE FUNCTION public.booking_slot_range(
+    p_booking_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_buffer_minutes INTEGER DEFAULT 0
+)
+RETURNS tsrange
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_start TIMESTAMP := p_booking_date + p_start_time;
+    v_end TIMESTAMP := p_booking_date + COALESCE(p_end_time, p_start_time + INTERVAL '1 hour');
+BEGIN
+    IF v_end <= v_start THEN
+        v_end := v_end + INTERVAL '1 day';
+    END IF;
+
+    RETURN tsrange(v_start, v_end + make_interval(mins => COALESCE(p_buffer_minutes, 0)), '[)');
+END;
+$$;
+
+-- First booking that overlaps the given slot, or NULL when it's free
+-- SOS bookings are dispatched ASAP rather than into a slot, so they're ignored.
+-- The trigger below calls it as the function owner, so the REVOKE doesn't affect it.
+-- Deliberately VOLATILE: called from the trigger after the lock, it must see rows
+-- committed while it was waiting.
+CREATE OR REPLACE FUNCTION public.find_booking_conflict(
+    p_provider_id UUID,
+    p_booking_date DATE,
+    p_start_time TIME,
+    p_end_time TIME,
+    p_buffer_minutes INTEGER DEFAULT 0,
+    p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT b.id
+    FROM public.bookings b
+    WHERE b.provider_id = p_provider_id
+      AND b.status IN ('pending', 'confirmed', 'in_progress')
+      AND b.booking_mode <> 'sos'
+      AND COALESCE(b.is_sos_booking, FALSE) = FALSE
+      AND b.start_time IS NOT NULL
+      AND b.booking_date BETWEEN p_booking_date - 1 AND p_booking_date + 1
+      AND (p_exclude_booking_id IS NULL OR b.id <> p_exclude_booking_id)
+      AND public.booking_slot_range(b.booking_date, b.start_time, b.end_time, b.travel_buffer_minutes)
+          && public.booking_slot_range(p_booking_date, p_start_time, p_end_time, p_buffer_minutes)
+    ORDER BY b.start_time
+    LIMIT 1;
+$$;
+
+-- Service role only - it reveals when any provider is booked and by which booking
+REVOKE ALL ON FUNCTION public.find_booking_conflict(UUID, DATE, TIME, TIME, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_booking_conflict(UUID, DATE, TIME, TIME, INTEGER, UUID) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.enforce_booking_no_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_service RECORD;
+    v_conflict UUID;
+BEGIN
+    IF NEW.status NOT IN ('pending', 'confirmed', 'in_progress')
+       OR NEW.booking_mode = 'sos'
+       OR COALESCE(NEW.is_sos_booking, FALSE)
+       OR NEW.start_time IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT duration_minutes, travel_buffer_minutes, is_home_service, house_call_available
+    INTO v_service
+    FROM public.provider_services
+    WHERE id = NEW.service_id;
+
+    -- Duration comes from the service when the caller didn't set end_time
+    IF NEW.end_time IS NULL THEN
+        NEW.end_time := NEW.start_time + make_interval(mins => COALESCE(v_service.duration_minutes, 60));
+    END IF;
+
+    -- House calls block the provider's travel time as well
+    IF TG_OP = 'INSERT'
+       AND NEW.travel_buffer_minutes = 0
+       AND NEW.service_address IS NOT NULL
+       AND (COALESCE(v_service.is_home_service, FALSE) OR COALESCE(v_service.house_call_available, FALSE)) THEN
+        NEW.travel_buffer_minutes := COALESCE(v_service.travel_buffer_minutes, 0);
+    END IF;
+
+    -- Serialise slot checks per provider until this transaction ends
+    PERFORM pg_advisory_xact_lock(hashtext('booking-slot:' || NEW.provider_id::TEXT));
+
+    v_conflict := public.find_booking_conflict(
+        NEW.provider_id,
+        NEW.booking_date,
+        NEW.start_time,
+        NEW.end_time,
+        NEW.travel_buffer_minutes,
+        NEW.id
+    );
+
+    IF v_conflict IS NOT NULL THEN
+        RAISE EXCEPTION 'Provider already has a booking at this time'
+            USING ERRCODE = '23P01',
+                  DETAIL = v_conflict::TEXT,
+                  HINT = 'slot_taken';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_bookings_no_overlap ON public.bookings;
+CREATE TRIGGER trg_bookings_no_overlap
+    BEFORE INSERT OR UPDATE OF provider_id, booking_date, start_time, end_time, status, travel_buffer_minutes
+    ON public.bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_booking_no_overlap();
+
+CREATE INDEX IF NOT EXISTS idx_bookings_provider_date_active
+    ON public.bookings(provider_id, booking_date)
+    WHERE status IN ('pending', 'confirmed', 'in_progress');
+
+-- A PaymentIntent pays for one booking only - create-booking relies on this so a
+-- replayed request can never release the payment behind an existing booking
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_payment_intent_unique
+    ON public.bookings(payment_intent_id)
+    WHERE payment_intent_id IS NOT NULL;
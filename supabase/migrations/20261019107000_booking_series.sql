@@ -0,0 +1,91 @@
+-- Recurring bookings (weekly / fortnightly / monthly series)
+-- A series is created alongside its first booking (create-booking). Future
+-- occurrences are generated up front and checked against the provider's schedule;
+-- process-booking-series books each one a few days ahead, charging the card saved
+-- with the first payment through its own PaymentIntent.
+
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'booking_series';
+
+CREATE TABLE IF NOT EXISTS public.booking_series (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    customer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    provider_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES public.provider_services(id) ON DELETE CASCADE,
+    frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'fortnightly', 'monthly')),
+    start_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    occurrence_count INTEGER NOT NULL CHECK (occurrence_count >= 2 AND occurrence_count <= 26),
+    service_address TEXT,
+    customer_notes TEXT,
+    -- Card saved (setup_future_usage = off_session) with the first payment
+    stripe_payment_method_id TEXT,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled', 'completed')),
+    cancelled_at TIMESTAMPTZ,
+    cancelled_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.booking_series_occurrences (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    series_id UUID NOT NULL REFERENCES public.booking_series(id) ON DELETE CASCADE,
+    occurrence_index INTEGER NOT NULL,
+    occurrence_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    -- scheduled: waiting to be booked, processing: claimed by process-booking-series,
+    -- unavailable: provider doesn't work that day, failed: slot taken / payment declined
+    status TEXT NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'processing', 'booked', 'skipped', 'cancelled', 'unavailable', 'failed')),
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+    failure_reason TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (series_id, occurrence_index)
+);
+
+ALTER TABLE public.bookings
+    ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.booking_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON public.bookings(series_id) WHERE series_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_booking_series_provider ON public.booking_series(provider_id, status);
+CREATE INDEX IF NOT EXISTS idx_booking_series_customer ON public.booking_series(customer_id, status);
+CREATE INDEX IF NOT EXISTS idx_booking_series_occurrences_due
+    ON public.booking_series_occurrences(occurrence_date)
+    WHERE status = 'scheduled';
+
+-- RLS: both parties can read, writes go through create-booking / manage-booking-series
+ALTER TABLE public.booking_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.booking_series_occurrences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Series participants can view booking series" ON public.booking_series;
+CREATE POLICY "Series participants can view booking series" ON public.booking_series
+    FOR SELECT USING (customer_id = auth.uid() OR provider_id = auth.uid());
+
+DROP POLICY IF EXISTS "Series participants can view occurrences" ON public.booking_series_occurrences;
+CREATE POLICY "Series participants can view occurrences" ON public.booking_series_occurrences
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.booking_series s
+            WHERE s.id = booking_series_occurrences.series_id
+              AND (s.customer_id = auth.uid() OR s.provider_id = auth.uid())
+        )
+    );
+
+-- Book upcoming occurrences every hour
+SELECT cron.unschedule('process-booking-series')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'process-booking-series');
+
+SELECT cron.schedule(
+    'process-booking-series',
+    '15 * * * *',
+    $$
+    SELECT net.http_post(
+        url := current_setting('app.settings.supabase_url') || '/functions/v1/process-booking-series',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
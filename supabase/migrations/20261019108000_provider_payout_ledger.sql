@@ -0,0 +1,59 @@
+-- Provider payout ledger
+-- One provider_payouts row per completed booking, reconciled against Stripe:
+--   pending    -> row created, transfer not sent yet (or waiting for a retry)
+--   processing -> transfer landed in the provider's connected account
+--   completed  -> the Stripe payout carrying the transfer reached the provider's bank
+--   failed     -> transfer rejected / reversed, or the bank payout failed
+-- complete-booking creates the row and the first transfer, retry-provider-payouts
+-- (hourly via pg_cron) retries failed transfers, and the transfer.* / payout.*
+-- webhooks in stripe-webhook record the outcome.
+
+ALTER TABLE public.provider_payouts
+    ADD COLUMN IF NOT EXISTS stripe_destination_payment_id TEXT,
+    ADD COLUMN IF NOT EXISTS stripe_payout_id TEXT,
+    ADD COLUMN IF NOT EXISTS transfer_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ;
+
+-- Rows written before the ledger already went through Stripe
+UPDATE public.provider_payouts
+SET transfer_attempts = 1
+WHERE stripe_transfer_id IS NOT NULL AND transfer_attempts = 0;
+
+-- One payout per booking - complete-booking upserts on this
+CREATE UNIQUE INDEX IF NOT EXISTS provider_payouts_booking_id_key
+    ON public.provider_payouts(booking_id);
+
+-- Retry sweep
+CREATE INDEX IF NOT EXISTS idx_provider_payouts_untransferred
+    ON public.provider_payouts(status, next_retry_at)
+    WHERE stripe_transfer_id IS NULL;
+
+-- Webhook reconciliation
+CREATE INDEX IF NOT EXISTS idx_provider_payouts_transfer
+    ON public.provider_payouts(stripe_transfer_id);
+
+CREATE INDEX IF NOT EXISTS idx_provider_payouts_destination_payment
+    ON public.provider_payouts(stripe_destination_payment_id);
+
+-- Schedule the retry sweep (requires pg_cron + pg_net)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.unschedule('retry-provider-payouts')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'retry-provider-payouts');
+
+SELECT cron.schedule(
+    'retry-provider-payouts',
+    '40 * * * *',
+    $$
+    SELECT net.http_post(
+        url := current_setting('app.settings.supabase_url') || '/functions/v1/retry-provider-payouts',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
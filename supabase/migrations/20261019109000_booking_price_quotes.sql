@@ -0,0 +1,9 @@
+-- Server-side price quotes
+-- Bookings keep the quote (from _shared/pricing.ts) their payment was made against,
+-- so complete-booking pays the provider the quoted share rather than a client amount.
+
+ALTER TABLE public.bookings
+    ADD COLUMN IF NOT EXISTS price_quote JSONB;
+
+COMMENT ON COLUMN public.bookings.price_quote IS
+    'Price breakdown in pence (servicePrice, houseCallFee, providerAmount, platformFee, totalAmount) the booking was paid against';
@@ -0,0 +1,29 @@
+-- Idempotent Stripe webhook processing
+-- stripe-webhook records every verified event before handling it; replays of an
+-- event that was already processed are skipped. Failed events are handled again
+-- when Stripe retries them.
+
+-- Booking payments can be charged back (charge.dispute.created)
+ALTER TYPE public.payment_status ADD VALUE IF NOT EXISTS 'disputed';
+
+CREATE TABLE IF NOT EXISTS public.stripe_webhook_events (
+    -- Stripe event id (evt_...)
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    livemode BOOLEAN NOT NULL DEFAULT false,
+    -- Connected account the event came from (Connect events)
+    account_id TEXT,
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+    error TEXT,
+    payload JSONB,
+    received_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    last_attempt_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_type ON public.stripe_webhook_events(type, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_failed ON public.stripe_webhook_events(status)
+    WHERE status <> 'processed';
+
+-- Service role only (stripe-webhook) - no client access
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,53 @@
+-- Disputes and chargebacks on booking payments
+-- stripe-webhook records charge.dispute.* events against the booking, freezes the
+-- provider's payout while the dispute is open and notifies the provider. Evidence
+-- (booking timeline, messages, completion, review) is gathered automatically and
+-- submitted to Stripe through submit-dispute-evidence.
+
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'payment_dispute';
+
+-- When the provider marked the booking complete (dispute evidence)
+ALTER TABLE public.bookings
+    ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+-- Payouts held back while a dispute is open - never transferred while on_hold
+ALTER TABLE public.provider_payouts
+    ADD COLUMN IF NOT EXISTS on_hold BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS hold_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS public.booking_disputes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    provider_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    customer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    stripe_dispute_id TEXT NOT NULL UNIQUE,
+    stripe_charge_id TEXT,
+    payment_intent_id TEXT,
+    amount DECIMAL(10,2) NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'GBP',
+    reason TEXT,
+    -- Stripe dispute status
+    status TEXT NOT NULL CHECK (status IN (
+        'warning_needs_response', 'warning_under_review', 'warning_closed',
+        'needs_response', 'under_review', 'won', 'lost'
+    )),
+    evidence_due_by TIMESTAMPTZ,
+    -- Gathered evidence (what was / will be sent to Stripe)
+    evidence JSONB,
+    provider_statement TEXT,
+    evidence_submitted_at TIMESTAMPTZ,
+    evidence_submitted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    closed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_disputes_provider ON public.booking_disputes(provider_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_booking_disputes_booking ON public.booking_disputes(booking_id);
+
+-- RLS: the booking's provider and customer can read, writes go through edge functions
+ALTER TABLE public.booking_disputes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Booking participants can view disputes" ON public.booking_disputes;
+CREATE POLICY "Booking participants can view disputes" ON public.booking_disputes
+    FOR SELECT USING (provider_id = auth.uid() OR customer_id = auth.uid());
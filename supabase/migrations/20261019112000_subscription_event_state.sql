@@ -0,0 +1,24 @@
+-- Subscription state from a single Stripe webhook
+-- stripe-webhook applies customer.subscription.* and invoice.* events through
+-- _shared/subscriptions.ts. last_event_at is the Stripe creation time of the last
+-- event applied to the row, so events delivered out of order are ignored.
+
+ALTER TABLE public.user_subscriptions
+    ADD COLUMN IF NOT EXISTS last_event_at TIMESTAMPTZ;
+
+-- Profile flags were only set by some code paths - recompute them from the
+-- subscriptions (same rule as ENTITLED_STATUSES in _shared/subscriptions.ts)
+UPDATE public.profiles p
+SET
+    has_sos_subscription = EXISTS (
+        SELECT 1 FROM public.user_subscriptions s
+        WHERE s.user_id = p.id
+          AND s.type = 'customer_sos'
+          AND s.status IN ('active', 'trialing', 'past_due')
+    ),
+    has_premium_subscription = EXISTS (
+        SELECT 1 FROM public.user_subscriptions s
+        WHERE s.user_id = p.id
+          AND s.type = 'provider_premium'
+          AND s.status IN ('active', 'trialing', 'past_due')
+    );
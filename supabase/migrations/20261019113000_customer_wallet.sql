@@ -0,0 +1,23 @@
+-- Customer wallet
+-- customer_payment_methods is written by manage-payment-methods and the
+-- payment_method.* webhook events (see _shared/payment-methods.ts).
+-- metadata holds the card details shown in the app: brand, last4, exp_month, exp_year.
+
+-- Webhook upserts match on the Stripe payment method
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_payment_methods_stripe_id
+    ON public.customer_payment_methods(stripe_payment_method_id);
+
+-- One default card per customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_payment_methods_one_default
+    ON public.customer_payment_methods(customer_id)
+    WHERE is_default;
+
+CREATE INDEX IF NOT EXISTS idx_customer_payment_methods_customer
+    ON public.customer_payment_methods(customer_id, created_at DESC);
+
+-- RLS: customers read their own cards, changes go through edge functions
+ALTER TABLE public.customer_payment_methods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Customers can view own payment methods" ON public.customer_payment_methods;
+CREATE POLICY "Customers can view own payment methods" ON public.customer_payment_methods
+    FOR SELECT USING (customer_id = auth.uid());
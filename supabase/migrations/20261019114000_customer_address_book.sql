@@ -0,0 +1,51 @@
+-- Customer address book
+-- user_addresses rows are saved from the app only after geocoding, so every saved
+-- address has coordinates. Bookings copy the address text and coordinates at booking
+-- time (create-booking), so editing or deleting an address never moves a booking.
+
+ALTER TABLE public.user_addresses
+    ADD COLUMN IF NOT EXISTS label TEXT NOT NULL DEFAULT 'other'
+        CHECK (label IN ('home', 'work', 'other'));
+
+-- Older rows may have several defaults - keep the most recently updated one
+UPDATE public.user_addresses a
+SET is_default = false
+WHERE a.is_default
+  AND EXISTS (
+    SELECT 1 FROM public.user_addresses b
+    WHERE b.user_id = a.user_id
+      AND b.is_default
+      AND b.id <> a.id
+      AND COALESCE(b.updated_at, b.created_at) > COALESCE(a.updated_at, a.created_at)
+  );
+
+-- One default address per customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_addresses_one_default
+    ON public.user_addresses(user_id)
+    WHERE is_default;
+
+CREATE INDEX IF NOT EXISTS idx_user_addresses_user
+    ON public.user_addresses(user_id, created_at DESC);
+
+-- RLS: customers manage their own addresses
+ALTER TABLE public.user_addresses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own addresses" ON public.user_addresses;
+CREATE POLICY "Users can view own addresses" ON public.user_addresses
+    FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can insert own addresses" ON public.user_addresses;
+CREATE POLICY "Users can insert own addresses" ON public.user_addresses
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update own addresses" ON public.user_addresses;
+CREATE POLICY "Users can update own addresses" ON public.user_addresses
+    FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own addresses" ON public.user_addresses;
+CREATE POLICY "Users can delete own addresses" ON public.user_addresses
+    FOR DELETE USING (user_id = auth.uid());
+
+-- Recurring series carry the location to every occurrence they book
+ALTER TABLE public.booking_series
+    ADD COLUMN IF NOT EXISTS service_coordinates geography(POINT, 4326);
@@ -0,0 +1,34 @@
+-- House-call service area
+-- profiles.service_radius (km) is enforced for house calls: the distance between the
+-- provider's profiles.coordinates and the booking's service_coordinates must be within it.
+-- travel_fee_bands adds an optional distance-based travel fee on top of the service's
+-- house_call_extra_fee: [{ "max_km": 5, "fee": 0 }, { "max_km": 15, "fee": 7.5 }]
+-- (fees in pounds, like the other provider_services prices). See _shared/service-area.ts.
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS travel_fee_bands JSONB NOT NULL DEFAULT '[]'::jsonb
+        CHECK (jsonb_typeof(travel_fee_bands) = 'array');
+
+-- Kilometres between a provider's base and a point (NULL when the provider has no location)
+-- Service role only - it reveals how far someone is from the provider's address.
+CREATE OR REPLACE FUNCTION public.provider_distance_km(
+    p_provider_id UUID,
+    p_point geography
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    SELECT ST_Distance(p.coordinates, p_point) / 1000.0
+    FROM public.profiles p
+    WHERE p.id = p_provider_id
+      AND p.coordinates IS NOT NULL;
+$$;
+
+REVOKE ALL ON FUNCTION public.provider_distance_km(UUID, geography) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.provider_distance_km(UUID, geography) TO service_role;
+
+-- Distance recorded on the booking for payouts and disputes
+ALTER TABLE public.bookings
+    ADD COLUMN IF NOT EXISTS service_distance_km NUMERIC(6,2);
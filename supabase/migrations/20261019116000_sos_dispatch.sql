@@ -0,0 +1,188 @@
+-- SOS dispatch
+-- An SOS request is broadcast to the nearest available providers in waves of
+-- widening radius (see _shared/sos-dispatch.ts). Every offer is recorded in
+-- sos_dispatch_attempts so response rates and distances can be analysed later.
+-- The first provider to accept wins: manage-sos-request claims the request with a
+-- conditional update on status = 'searching'.
+-- escalate-sos-requests (pg_cron, every minute) widens the search when a wave times out.
+
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'sos_request';
+
+CREATE TABLE IF NOT EXISTS public.sos_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    customer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    subcategory_id UUID NOT NULL REFERENCES public.service_subcategories(id),
+    description TEXT NOT NULL,
+    urgency_level public.urgency_level NOT NULL DEFAULT 'high',
+    service_address_id UUID REFERENCES public.user_addresses(id) ON DELETE SET NULL,
+    service_address TEXT NOT NULL,
+    service_coordinates geography(POINT, 4326) NOT NULL,
+    -- Saved wallet card charged off-session once a provider accepts
+    stripe_payment_method_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'searching' CHECK (status IN (
+        'searching', 'accepted', 'booked', 'no_providers', 'cancelled', 'failed'
+    )),
+    wave INTEGER NOT NULL DEFAULT 1,
+    radius_km NUMERIC(6,2) NOT NULL,
+    wave_expires_at TIMESTAMPTZ NOT NULL,
+    accepted_provider_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    accepted_service_id UUID REFERENCES public.provider_services(id) ON DELETE SET NULL,
+    accepted_at TIMESTAMPTZ,
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+    failure_reason TEXT,
+    closed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sos_requests_customer ON public.sos_requests(customer_id, created_at DESC);
+
+-- Escalation sweep
+CREATE INDEX IF NOT EXISTS idx_sos_requests_searching_wave
+    ON public.sos_requests(wave_expires_at)
+    WHERE status = 'searching';
+
+CREATE TABLE IF NOT EXISTS public.sos_dispatch_attempts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    request_id UUID NOT NULL REFERENCES public.sos_requests(id) ON DELETE CASCADE,
+    provider_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES public.provider_services(id) ON DELETE CASCADE,
+    wave INTEGER NOT NULL,
+    -- Ranking inputs at the time of the offer
+    distance_km NUMERIC(6,2) NOT NULL,
+    rating NUMERIC(3,2),
+    availability_status public.user_availability,
+    rank_score NUMERIC(6,4) NOT NULL,
+    -- withdrawn: another provider accepted or the customer cancelled
+    -- expired: the request ran out of providers before this one answered
+    status TEXT NOT NULL DEFAULT 'offered' CHECK (status IN (
+        'offered', 'accepted', 'declined', 'withdrawn', 'expired'
+    )),
+    offered_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    responded_at TIMESTAMPTZ,
+    UNIQUE (request_id, provider_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sos_dispatch_attempts_provider_open
+    ON public.sos_dispatch_attempts(provider_id, offered_at DESC)
+    WHERE status = 'offered';
+
+-- RLS: customers see their own requests, providers their own offers.
+-- Everything else goes through the edge functions (service role).
+ALTER TABLE public.sos_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sos_dispatch_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Customers can view own SOS requests" ON public.sos_requests;
+CREATE POLICY "Customers can view own SOS requests" ON public.sos_requests
+    FOR SELECT USING (customer_id = auth.uid());
+
+DROP POLICY IF EXISTS "Providers can view own SOS offers" ON public.sos_dispatch_attempts;
+CREATE POLICY "Providers can view own SOS offers" ON public.sos_dispatch_attempts
+    FOR SELECT USING (provider_id = auth.uid());
+
+-- Providers who can take an SOS request within p_radius_km, best first.
+-- Approved providers with an active SOS-enabled service in the subcategory, not
+-- paused or unavailable, whose own service radius reaches the customer, and who
+-- haven't been offered this request already.
+-- rank_score: 50% proximity, 30% rating (unrated providers count as 4.0), 20% availability.
+CREATE OR REPLACE FUNCTION public.find_sos_candidates(
+    p_request_id UUID,
+    p_radius_km NUMERIC,
+    p_limit INTEGER
+)
+RETURNS TABLE (
+    provider_id UUID,
+    service_id UUID,
+    distance_km NUMERIC,
+    rating NUMERIC,
+    availability_status public.user_availability,
+    rank_score NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    WITH request AS (
+        SELECT r.id, r.customer_id, r.subcategory_id, r.service_coordinates
+        FROM public.sos_requests r
+        WHERE r.id = p_request_id
+    ),
+    candidates AS (
+        -- One service per provider - the cheapest SOS service they offer
+        SELECT DISTINCT ON (p.id)
+            p.id AS provider_id,
+            s.id AS service_id,
+            ST_Distance(p.coordinates, request.service_coordinates) / 1000.0 AS distance_km,
+            COALESCE(p.availability_status, 'available') AS availability_status
+        FROM request
+        JOIN public.provider_services s
+            ON s.subcategory_id = request.subcategory_id
+           AND s.is_active = true
+           AND s.allows_sos_booking = true
+        JOIN public.profiles p ON p.id = s.provider_id
+        JOIN public.provider_onboarding_progress o
+            ON o.provider_id = p.id
+           AND o.verification_status = 'approved'
+        WHERE p.role = 'provider'
+          AND p.id <> request.customer_id
+          AND p.coordinates IS NOT NULL
+          AND p.stripe_charges_enabled = true
+          AND COALESCE(p.availability_status, 'available') <> 'unavailable'
+          AND (p.pause_until IS NULL OR p.pause_until <= NOW())
+          AND ST_DWithin(p.coordinates, request.service_coordinates, p_radius_km * 1000)
+          AND (p.service_radius IS NULL OR ST_DWithin(p.coordinates, request.service_coordinates, p.service_radius * 1000))
+          AND NOT EXISTS (
+              SELECT 1 FROM public.sos_dispatch_attempts a
+              WHERE a.request_id = request.id AND a.provider_id = p.id
+          )
+        ORDER BY p.id, s.base_price ASC
+    ),
+    rated AS (
+        SELECT c.*, ratings.rating
+        FROM candidates c
+        LEFT JOIN LATERAL (
+            SELECT ROUND(AVG(rv.rating)::numeric, 2) AS rating
+            FROM public.reviews rv
+            WHERE rv.provider_id = c.provider_id
+        ) ratings ON true
+    )
+    SELECT
+        rated.provider_id,
+        rated.service_id,
+        ROUND(rated.distance_km::numeric, 2) AS distance_km,
+        rated.rating,
+        rated.availability_status,
+        ROUND((
+            0.5 * GREATEST(0, 1 - rated.distance_km / NULLIF(p_radius_km, 0))
+            + 0.3 * COALESCE(rated.rating, 4.0) / 5.0
+            + 0.2 * CASE rated.availability_status WHEN 'available' THEN 1.0 ELSE 0.3 END
+        )::numeric, 4) AS rank_score
+    FROM rated
+    ORDER BY rank_score DESC, rated.distance_km ASC
+    LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.find_sos_candidates(UUID, NUMERIC, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_sos_candidates(UUID, NUMERIC, INTEGER) TO service_role;
+
+-- Widen the search every minute (requires pg_cron + pg_net)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.unschedule('escalate-sos-requests')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'escalate-sos-requests');
+
+SELECT cron.schedule(
+    'escalate-sos-requests',
+    '* * * * *',
+    $$
+    SELECT net.http_post(
+        url := current_setting('app.settings.supabase_url') || '/functions/v1/escalate-sos-requests',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
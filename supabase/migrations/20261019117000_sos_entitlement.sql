@@ -0,0 +1,31 @@
+-- SOS entitlement and usage quotas
+-- Each SOS request records whether it was covered by the customer's SOS
+-- subscription allowance or paid per use (see _shared/sos-entitlement.ts).
+-- The pay-per-use fee is added to the booking charge when a provider accepts.
+
+ALTER TABLE public.sos_requests
+    ADD COLUMN IF NOT EXISTS entitlement TEXT NOT NULL DEFAULT 'subscription'
+        CHECK (entitlement IN ('subscription', 'pay_per_use')),
+    -- Pence, 0 for requests covered by the subscription
+    ADD COLUMN IF NOT EXISTS pay_per_use_fee INTEGER NOT NULL DEFAULT 0
+        CHECK (pay_per_use_fee >= 0);
+
+-- Allowance count for the current period
+CREATE INDEX IF NOT EXISTS idx_sos_requests_customer_entitlement
+    ON public.sos_requests(customer_id, entitlement, created_at DESC);
+
+-- sos_expires_at was never written - set it from the SOS subscriptions
+-- (same rule as sosAccessExpiry in _shared/subscriptions.ts)
+UPDATE public.profiles p
+SET sos_expires_at = (
+    SELECT MAX(s.current_period_end)
+    FROM public.user_subscriptions s
+    WHERE s.user_id = p.id
+      AND s.type = 'customer_sos'
+      AND s.status IN ('active', 'trialing', 'past_due')
+)
+WHERE EXISTS (
+    SELECT 1 FROM public.user_subscriptions s
+    WHERE s.user_id = p.id
+      AND s.type = 'customer_sos'
+);
@@ -0,0 +1,124 @@
+-- Provider live location for house calls and SOS bookings
+-- While a house-call or SOS booking is in_progress the provider can opt in to
+-- sharing their location; the app writes it straight to booking_live_locations
+-- (one row per booking, overwritten on every update) and the customer follows it
+-- over Realtime to show an ETA.
+-- Locations are kept only briefly: the row is deleted as soon as the booking
+-- leaves in_progress or the provider stops sharing, and purge-booking-live-locations
+-- (pg_cron, every 5 minutes) removes rows that haven't been updated for 10 minutes.
+
+CREATE TABLE IF NOT EXISTS public.booking_live_locations (
+    booking_id UUID PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+    provider_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+    longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+    heading DOUBLE PRECISION,
+    speed_mps DOUBLE PRECISION,
+    accuracy_m DOUBLE PRECISION,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_live_locations_updated
+    ON public.booking_live_locations(updated_at);
+
+-- Bookings whose provider may share a location right now
+CREATE OR REPLACE FUNCTION public.booking_allows_live_location(p_booking_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.bookings b
+        WHERE b.id = p_booking_id
+          AND b.provider_id = auth.uid()
+          AND b.status = 'in_progress'
+          AND (b.is_sos_booking OR b.service_coordinates IS NOT NULL)
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.booking_allows_live_location(UUID) TO authenticated;
+
+-- Where the provider is heading - the booking's service address
+-- Runs with the caller's rights, so only the booking's participants get a result
+CREATE OR REPLACE FUNCTION public.get_booking_destination(p_booking_id UUID)
+RETURNS TABLE (latitude DOUBLE PRECISION, longitude DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT ST_Y(b.service_coordinates::geometry), ST_X(b.service_coordinates::geometry)
+    FROM public.bookings b
+    WHERE b.id = p_booking_id
+      AND b.service_coordinates IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_booking_destination(UUID) TO authenticated;
+
+-- RLS: the provider writes their own location while the booking allows it,
+-- the customer of the booking reads it
+ALTER TABLE public.booking_live_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Providers can share location for active bookings" ON public.booking_live_locations;
+CREATE POLICY "Providers can share location for active bookings" ON public.booking_live_locations
+    FOR INSERT WITH CHECK (
+        provider_id = auth.uid() AND public.booking_allows_live_location(booking_id)
+    );
+
+DROP POLICY IF EXISTS "Providers can update shared location" ON public.booking_live_locations;
+CREATE POLICY "Providers can update shared location" ON public.booking_live_locations
+    FOR UPDATE USING (provider_id = auth.uid())
+    WITH CHECK (
+        provider_id = auth.uid() AND public.booking_allows_live_location(booking_id)
+    );
+
+DROP POLICY IF EXISTS "Providers can stop sharing location" ON public.booking_live_locations;
+CREATE POLICY "Providers can stop sharing location" ON public.booking_live_locations
+    FOR DELETE USING (provider_id = auth.uid());
+
+DROP POLICY IF EXISTS "Participants can view live location" ON public.booking_live_locations;
+CREATE POLICY "Participants can view live location" ON public.booking_live_locations
+    FOR SELECT USING (
+        provider_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.bookings b
+            WHERE b.id = booking_live_locations.booking_id
+              AND b.customer_id = auth.uid()
+        )
+    );
+
+-- Sharing stops with the booking - completed, cancelled or anything else
+CREATE OR REPLACE FUNCTION public.clear_booking_live_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM public.booking_live_locations WHERE booking_id = NEW.id;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_clear_booking_live_location ON public.bookings;
+CREATE TRIGGER trg_clear_booking_live_location
+    AFTER UPDATE OF status ON public.bookings
+    FOR EACH ROW
+    WHEN (OLD.status = 'in_progress' AND NEW.status IS DISTINCT FROM 'in_progress')
+    EXECUTE FUNCTION public.clear_booking_live_location();
+
+-- Realtime so the customer sees the provider move; deletes carry the booking_id
+ALTER TABLE public.booking_live_locations REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.booking_live_locations;
+
+-- Stale locations (app closed, signal lost) don't hang around
+SELECT cron.schedule(
+    'purge-booking-live-locations',
+    '*/5 * * * *',
+    $$
+    DELETE FROM public.booking_live_locations
+    WHERE updated_at < NOW() - INTERVAL '10 minutes';
+    $$
+);
@@ -0,0 +1,47 @@
+-- Admin verification review
+-- Admins and super-admins review providers in the (admin) console through the
+-- admin-verification-review edge function: documents are approved or rejected one
+-- by one (provider_verification_documents.verification_status / rejection_reason /
+-- verified_by), the selfie gets the same treatment on provider_onboarding_progress,
+-- and the provider is then approved or rejected as a whole.
+-- Every action is recorded in verification_audit_log - this replaces the
+-- metadata.last_status_change blob admin-status-management.ts used to write.
+
+-- Selfie review, mirroring the columns on provider_verification_documents
+ALTER TABLE public.provider_onboarding_progress
+    ADD COLUMN IF NOT EXISTS selfie_verification_status public.verification_status,
+    ADD COLUMN IF NOT EXISTS selfie_rejection_reason TEXT,
+    ADD COLUMN IF NOT EXISTS selfie_verified_by UUID REFERENCES public.profiles(id),
+    ADD COLUMN IF NOT EXISTS selfie_verified_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.verification_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    action TEXT NOT NULL CHECK (action IN ('start_review', 'review_document', 'review_selfie', 'decide')),
+    target TEXT NOT NULL CHECK (target IN ('provider', 'document', 'selfie')),
+    document_id UUID REFERENCES public.provider_verification_documents(id) ON DELETE SET NULL,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    reason TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_verification_audit_log_provider
+    ON public.verification_audit_log(provider_id, created_at DESC);
+
+-- Review queue
+CREATE INDEX IF NOT EXISTS idx_provider_onboarding_progress_review_queue
+    ON public.provider_onboarding_progress(verification_status, updated_at)
+    WHERE verification_status IN ('submitted', 'in_review');
+
+-- Written by the edge function (service role) only; admins can read it
+ALTER TABLE public.verification_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view verification audit log" ON public.verification_audit_log;
+CREATE POLICY "Admins can view verification audit log" ON public.verification_audit_log
+    FOR SELECT USING (public.get_current_user_role() IN ('admin', 'super-admin'));
+
+-- Providers hear about the outcome of their review
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'verification_update';
@@ -0,0 +1,29 @@
+-- Per-step rejection and targeted resubmission
+-- When a reviewer rejects a provider, the steps that need another go are recorded in
+-- provider_verification_step_progress (status 'rejected', error_message = the reason
+-- the provider sees). Rejected documents and selfies are sent back automatically;
+-- the reviewer can add any other step. The provider only redoes those steps - each
+-- one is marked 'resubmitted' when saved - and then submits again for review.
+
+-- One row per provider and step so the review can upsert
+DELETE FROM public.provider_verification_step_progress a
+USING public.provider_verification_step_progress b
+WHERE a.provider_id = b.provider_id
+  AND a.step_number = b.step_number
+  AND (COALESCE(a.updated_at, '-infinity'), a.id) < (COALESCE(b.updated_at, '-infinity'), b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_provider_verification_step_progress_provider_step
+    ON public.provider_verification_step_progress(provider_id, step_number);
+
+-- Providers read their own rows to see what was rejected and mark steps resubmitted;
+-- only the review (service role) marks a step rejected
+ALTER TABLE public.provider_verification_step_progress ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Providers can view own step progress" ON public.provider_verification_step_progress;
+CREATE POLICY "Providers can view own step progress" ON public.provider_verification_step_progress
+    FOR SELECT USING (provider_id = auth.uid());
+
+DROP POLICY IF EXISTS "Providers can resubmit rejected steps" ON public.provider_verification_step_progress;
+CREATE POLICY "Providers can resubmit rejected steps" ON public.provider_verification_step_progress
+    FOR UPDATE USING (provider_id = auth.uid() AND status = 'rejected')
+    WITH CHECK (provider_id = auth.uid() AND status = 'resubmitted');
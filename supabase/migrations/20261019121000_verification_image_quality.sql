@@ -0,0 +1,14 @@
+-- On-device image quality pre-checks
+-- The app checks ID documents and selfies (resolution, blur, glare, framing, face
+-- presence) before uploading and stores the report so reviewers can see the scores.
+-- Documents keep it under metadata.quality_check; the selfie lives on profiles, so
+-- its report goes next to the selfie review columns.
+
+ALTER TABLE public.provider_verification_documents
+    ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.provider_onboarding_progress
+    ADD COLUMN IF NOT EXISTS selfie_metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.provider_verification_documents.metadata IS 'Upload metadata - quality_check holds the on-device image quality report';
+COMMENT ON COLUMN public.provider_onboarding_progress.selfie_metadata IS 'Selfie upload metadata - quality_check holds the on-device image quality report';
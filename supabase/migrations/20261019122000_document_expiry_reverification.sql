@@ -0,0 +1,186 @@
+-- Document expiry and periodic re-verification
+-- Providers enter their ID document's expiry date in the document step.
+-- check-document-expiry runs daily via pg_cron: it warns approved providers 30 and 7
+-- days before their latest document expires and, once it has expired, flags them
+-- for re-verification. Flagged providers keep their dashboard and existing bookings
+-- but are hidden from search and SOS dispatch until they upload an unexpired document.
+
+ALTER TABLE public.provider_verification_documents
+    ADD COLUMN IF NOT EXISTS expiry_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_provider_verification_documents_expiry_date
+    ON public.provider_verification_documents(expiry_date)
+    WHERE expiry_date IS NOT NULL;
+
+ALTER TABLE public.provider_onboarding_progress
+    ADD COLUMN IF NOT EXISTS reverification_required_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS reverification_reason TEXT;
+
+-- One notice per document, expiry date and threshold - re-uploading into the same
+-- row with a new expiry date starts the warnings again
+CREATE TABLE IF NOT EXISTS public.document_expiry_notices (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    document_id UUID NOT NULL REFERENCES public.provider_verification_documents(id) ON DELETE CASCADE,
+    provider_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    expiry_date DATE NOT NULL,
+    notice_type TEXT NOT NULL CHECK (notice_type IN ('30d', '7d', 'expired')),
+    push_sent BOOLEAN DEFAULT FALSE NOT NULL,
+    sent_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (document_id, expiry_date, notice_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_expiry_notices_provider_id ON public.document_expiry_notices(provider_id);
+
+-- Service role only - no client access
+ALTER TABLE public.document_expiry_notices ENABLE ROW LEVEL SECURITY;
+
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'document_expiry';
+
+-- Uploading a document that hasn't expired lifts the re-verification flag.
+-- The document itself goes back to 'pending' for an admin to review.
+CREATE OR REPLACE FUNCTION public.clear_reverification_on_document_upload()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.expiry_date IS NOT NULL AND NEW.expiry_date > CURRENT_DATE THEN
+        UPDATE public.provider_onboarding_progress
+        SET reverification_required_at = NULL,
+            reverification_reason = NULL,
+            updated_at = NOW()
+        WHERE provider_id = NEW.provider_id
+          AND reverification_required_at IS NOT NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_reverification_on_document_upload ON public.provider_verification_documents;
+CREATE TRIGGER clear_reverification_on_document_upload
+    AFTER INSERT OR UPDATE OF document_url, expiry_date ON public.provider_verification_documents
+    FOR EACH ROW
+    EXECUTE FUNCTION public.clear_reverification_on_document_upload();
+
+-- Which of these providers are waiting on re-verification. Service role only -
+-- smart-provider-search calls it with the service key, never from the client
+CREATE OR REPLACE FUNCTION public.get_providers_requiring_reverification(p_provider_ids UUID[])
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT o.provider_id
+    FROM public.provider_onboarding_progress o
+    WHERE o.provider_id = ANY(p_provider_ids)
+      AND o.reverification_required_at IS NOT NULL;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_providers_requiring_reverification(UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_providers_requiring_reverification(UUID[]) TO service_role;
+
+-- Providers who can take an SOS request within p_radius_km, best first.
+-- Approved providers with an active SOS-enabled service in the subcategory, not
+-- paused or unavailable, not waiting on re-verification, whose own service radius
+-- reaches the customer, and who haven't been offered this request already.
+-- rank_score: 50% proximity, 30% rating (unrated providers count as 4.0), 20% availability.
+CREATE OR REPLACE FUNCTION public.find_sos_candidates(
+    p_request_id UUID,
+    p_radius_km NUMERIC,
+    p_limit INTEGER
+)
+RETURNS TABLE (
+    provider_id UUID,
+    service_id UUID,
+    distance_km NUMERIC,
+    rating NUMERIC,
+    availability_status public.user_availability,
+    rank_score NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    WITH request AS (
+        SELECT r.id, r.customer_id, r.subcategory_id, r.service_coordinates
+        FROM public.sos_requests r
+        WHERE r.id = p_request_id
+    ),
+    candidates AS (
+        -- One service per provider - the cheapest SOS service they offer
+        SELECT DISTINCT ON (p.id)
+            p.id AS provider_id,
+            s.id AS service_id,
+            ST_Distance(p.coordinates, request.service_coordinates) / 1000.0 AS distance_km,
+            COALESCE(p.availability_status, 'available') AS availability_status
+        FROM request
+        JOIN public.provider_services s
+            ON s.subcategory_id = request.subcategory_id
+           AND s.is_active = true
+           AND s.allows_sos_booking = true
+        JOIN public.profiles p ON p.id = s.provider_id
+        JOIN public.provider_onboarding_progress o
+            ON o.provider_id = p.id
+           AND o.verification_status = 'approved'
+           AND o.reverification_required_at IS NULL
+        WHERE p.role = 'provider'
+          AND p.id <> request.customer_id
+          AND p.coordinates IS NOT NULL
+          AND p.stripe_charges_enabled = true
+          AND COALESCE(p.availability_status, 'available') <> 'unavailable'
+          AND (p.pause_until IS NULL OR p.pause_until <= NOW())
+          AND ST_DWithin(p.coordinates, request.service_coordinates, p_radius_km * 1000)
+          AND (p.service_radius IS NULL OR ST_DWithin(p.coordinates, request.service_coordinates, p.service_radius * 1000))
+          AND NOT EXISTS (
+              SELECT 1 FROM public.sos_dispatch_attempts a
+              WHERE a.request_id = request.id AND a.provider_id = p.id
+          )
+        ORDER BY p.id, s.base_price ASC
+    ),
+    rated AS (
+        SELECT c.*, ratings.rating
+        FROM candidates c
+        LEFT JOIN LATERAL (
+            SELECT ROUND(AVG(rv.rating)::numeric, 2) AS rating
+            FROM public.reviews rv
+            WHERE rv.provider_id = c.provider_id
+        ) ratings ON true
+    )
+    SELECT
+        rated.provider_id,
+        rated.service_id,
+        ROUND(rated.distance_km::numeric, 2) AS distance_km,
+        rated.rating,
+        rated.availability_status,
+        ROUND((
+            0.5 * GREATEST(0, 1 - rated.distance_km / NULLIF(p_radius_km, 0))
+            + 0.3 * COALESCE(rated.rating, 4.0) / 5.0
+            + 0.2 * CASE rated.availability_status WHEN 'available' THEN 1.0 ELSE 0.3 END
+        )::numeric, 4) AS rank_score
+    FROM rated
+    ORDER BY rank_score DESC, rated.distance_km ASC
+    LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.find_sos_candidates(UUID, NUMERIC, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_sos_candidates(UUID, NUMERIC, INTEGER) TO service_role;
+
+SELECT cron.unschedule('check-document-expiry')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'check-document-expiry');
+
+SELECT cron.schedule(
+    'check-document-expiry',
+    '0 8 * * *',
+    $$
+    SELECT net.http_post(
+        url := current_setting('app.settings.supabase_url') || '/functions/v1/check-document-expiry',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
@@ -0,0 +1,74 @@
+-- Verification storage retention and account erasure
+--
+-- Storage policy for identity data (verification-images):
+-- - The bucket is private. Objects are encrypted at rest by the storage backend and are
+--   only ever handed out as short-lived signed URLs (1 hour in the app, 10 minutes in
+--   the admin console); no public URLs.
+-- - Raw ID document and selfie images are deleted by purge-verification-images
+--   VERIFICATION_IMAGE_RETENTION_DAYS (default 30) after they were approved. The
+--   document rows, review decisions, quality scores, expiry dates and the audit log
+--   are kept as the approval record; image_purged_at marks rows whose image is gone.
+-- - The same job moves legacy objects stored outside providers/{provider_id}/ into the
+--   organized layout (see PathMigrationHelper in src/lib/storage/storage-paths.ts).
+--
+-- Account erasure (delete-account) removes the user's files from every bucket, deletes
+-- their personal rows and anonymises the profile. Bookings, payments, payouts and
+-- reviews are kept for accounting and point at the anonymised profile.
+
+ALTER TABLE public.provider_verification_documents
+    ADD COLUMN IF NOT EXISTS image_purged_at TIMESTAMPTZ;
+
+ALTER TABLE public.provider_onboarding_progress
+    ADD COLUMN IF NOT EXISTS selfie_image_purged_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_provider_verification_documents_retention
+    ON public.provider_verification_documents(verified_at)
+    WHERE image_purged_at IS NULL AND verification_status = 'approved';
+
+ALTER TABLE public.verification_audit_log
+    DROP CONSTRAINT IF EXISTS verification_audit_log_action_check;
+ALTER TABLE public.verification_audit_log
+    ADD CONSTRAINT verification_audit_log_action_check
+    CHECK (action IN ('start_review', 'review_document', 'review_selfie', 'decide', 'purge_image'));
+
+-- Identity images never go in a public bucket
+UPDATE storage.buckets
+SET public = FALSE,
+    file_size_limit = 10485760 -- 10 MB, STORAGE_CONFIG.maxFileSizes.identity
+WHERE id = 'verification-images';
+
+-- One row per erasure request - no foreign key, the record outlives the account.
+-- report lists what was removed, anonymised and kept.
+CREATE TABLE IF NOT EXISTS public.account_erasures (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL,
+    role TEXT,
+    status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'failed')),
+    report JSONB NOT NULL DEFAULT '{}'::jsonb,
+    error TEXT,
+    requested_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_erasures_user_id ON public.account_erasures(user_id);
+
+-- Service role only - no client access
+ALTER TABLE public.account_erasures ENABLE ROW LEVEL SECURITY;
+
+SELECT cron.unschedule('purge-verification-images')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'purge-verification-images');
+
+SELECT cron.schedule(
+    'purge-verification-images',
+    '30 3 * * *',
+    $$
+    SELECT net.http_post(
+        url := current_setting('app.settings.supabase_url') || '/functions/v1/purge-verification-images',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);